@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ContractReminder" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "daysUntilExpiry" INTEGER NOT NULL,
+    "recipients" TEXT,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContractReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContractReminder_contractId_idx" ON "ContractReminder"("contractId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContractReminder_contractId_endDate_key" ON "ContractReminder"("contractId", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "ContractReminder" ADD CONSTRAINT "ContractReminder_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED', 'SKIPPED');
+
+-- CreateEnum
+CREATE TYPE "JobRunTrigger" AS ENUM ('SCHEDULED', 'CATCH_UP', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "JobRun" (
+    "id" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "trigger" "JobRunTrigger" NOT NULL,
+    "parameters" JSONB,
+    "scheduledFor" TIMESTAMP(3),
+    "triggeredBy" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "error" TEXT,
+    "resultSummary" JSONB,
+
+    CONSTRAINT "JobRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobRun_jobName_startedAt_idx" ON "JobRun"("jobName", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "JobRun_jobName_status_scheduledFor_idx" ON "JobRun"("jobName", "status", "scheduledFor");
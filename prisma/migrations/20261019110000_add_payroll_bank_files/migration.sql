@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN     "bankFileId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PayrollBankFile" (
+    "id" TEXT NOT NULL,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "employerMolId" TEXT NOT NULL,
+    "recordCount" INTEGER NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'AED',
+    "generatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayrollBankFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollBankFile_fileName_key" ON "PayrollBankFile"("fileName");
+
+-- CreateIndex
+CREATE INDEX "PayrollBankFile_year_month_idx" ON "PayrollBankFile"("year", "month");
+
+-- CreateIndex
+CREATE INDEX "Payroll_bankFileId_idx" ON "Payroll"("bankFileId");
+
+-- AddForeignKey
+ALTER TABLE "Payroll" ADD CONSTRAINT "Payroll_bankFileId_fkey" FOREIGN KEY ("bankFileId") REFERENCES "PayrollBankFile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
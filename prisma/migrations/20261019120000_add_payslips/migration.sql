@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "Payslip" (
+    "id" TEXT NOT NULL,
+    "payrollId" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileKey" TEXT NOT NULL,
+    "netSalary" DOUBLE PRECISION NOT NULL,
+    "generatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Payslip_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payslip_payrollId_key" ON "Payslip"("payrollId");
+
+-- CreateIndex
+CREATE INDEX "Payslip_employeeId_idx" ON "Payslip"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "Payslip_year_month_idx" ON "Payslip"("year", "month");
+
+-- AddForeignKey
+ALTER TABLE "Payslip" ADD CONSTRAINT "Payslip_payrollId_fkey" FOREIGN KEY ("payrollId") REFERENCES "Payroll"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "FinalSettlement" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "lastWorkingDay" TIMESTAMP(3) NOT NULL,
+    "serviceDays" INTEGER NOT NULL,
+    "basicSalary" DOUBLE PRECISION NOT NULL,
+    "gratuityAmount" DOUBLE PRECISION NOT NULL,
+    "leaveEncashmentDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "leaveEncashmentAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lastMonthSalary" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "bonusesAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "reimbursementsAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "deductionsAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "assetDeductionsAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalEarnings" DOUBLE PRECISION NOT NULL,
+    "totalDeductions" DOUBLE PRECISION NOT NULL,
+    "netAmount" DOUBLE PRECISION NOT NULL,
+    "breakdown" JSONB NOT NULL,
+    "status" "PayrollStatus" NOT NULL DEFAULT 'PENDING',
+    "paidDate" TIMESTAMP(3),
+    "financeApprovedAt" TIMESTAMP(3),
+    "financeApprovedBy" TEXT,
+    "managementApprovedAt" TIMESTAMP(3),
+    "managementApprovedBy" TEXT,
+    "uploadedToBankAt" TIMESTAMP(3),
+    "uploadedToBankBy" TEXT,
+    "bankUploadReference" TEXT,
+    "bankPaymentApprovedAt" TIMESTAMP(3),
+    "bankPaymentApprovedBy" TEXT,
+    "bankPaymentReference" TEXT,
+    "onHoldAt" TIMESTAMP(3),
+    "onHoldBy" TEXT,
+    "onHoldReason" TEXT,
+    "onHoldHistory" JSONB,
+    "rejectedAt" TIMESTAMP(3),
+    "rejectedBy" TEXT,
+    "rejectionReason" TEXT,
+    "rejectedAtStage" "PayrollStatus",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "FinalSettlement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FinalSettlement_employeeId_key" ON "FinalSettlement"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "FinalSettlement_status_idx" ON "FinalSettlement"("status");
+
+-- AddForeignKey
+ALTER TABLE "FinalSettlement" ADD CONSTRAINT "FinalSettlement_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "LeaveRequest" ADD COLUMN     "managerApprovedAt" TIMESTAMP(3),
+ADD COLUMN     "managerApprovedBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "Reimbursement" ADD COLUMN     "managerApprovedAt" TIMESTAMP(3),
+ADD COLUMN     "managerApprovedBy" TEXT;
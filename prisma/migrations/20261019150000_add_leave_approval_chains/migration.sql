@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "LeaveApprovalStep" AS ENUM ('MANAGER', 'HR', 'MANAGEMENT');
+
+-- CreateEnum
+CREATE TYPE "LeaveApprovalAction" AS ENUM ('APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "LeaveRequest" ADD COLUMN     "approvalSteps" "LeaveApprovalStep"[] DEFAULT ARRAY[]::"LeaveApprovalStep"[],
+ADD COLUMN     "currentApprovalStep" "LeaveApprovalStep";
+
+-- CreateTable
+CREATE TABLE "LeaveApprovalPolicy" (
+    "id" TEXT NOT NULL,
+    "leaveType" "LeaveType" NOT NULL,
+    "minDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "steps" "LeaveApprovalStep"[],
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "LeaveApprovalPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LeaveApproval" (
+    "id" TEXT NOT NULL,
+    "leaveRequestId" TEXT NOT NULL,
+    "step" "LeaveApprovalStep" NOT NULL,
+    "approvedBy" TEXT NOT NULL,
+    "action" "LeaveApprovalAction" NOT NULL,
+    "approvalDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "comments" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeaveApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeaveRequest_currentApprovalStep_idx" ON "LeaveRequest"("currentApprovalStep");
+
+-- CreateIndex
+CREATE INDEX "LeaveApprovalPolicy_leaveType_idx" ON "LeaveApprovalPolicy"("leaveType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaveApprovalPolicy_leaveType_minDays_key" ON "LeaveApprovalPolicy"("leaveType", "minDays");
+
+-- CreateIndex
+CREATE INDEX "LeaveApproval_leaveRequestId_idx" ON "LeaveApproval"("leaveRequestId");
+
+-- CreateIndex
+CREATE INDEX "LeaveApproval_approvedBy_idx" ON "LeaveApproval"("approvedBy");
+
+-- AddForeignKey
+ALTER TABLE "LeaveApproval" ADD CONSTRAINT "LeaveApproval_leaveRequestId_fkey" FOREIGN KEY ("leaveRequestId") REFERENCES "LeaveRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeaveApproval" ADD CONSTRAINT "LeaveApproval_approvedBy_fkey" FOREIGN KEY ("approvedBy") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill pending requests with the previous two-stage flow (line manager, then HR)
+UPDATE "LeaveRequest" lr
+SET "approvalSteps" = CASE
+      WHEN e."managerId" IS NOT NULL THEN ARRAY['MANAGER', 'HR']::"LeaveApprovalStep"[]
+      ELSE ARRAY['HR']::"LeaveApprovalStep"[]
+    END,
+    "currentApprovalStep" = CASE
+      WHEN e."managerId" IS NOT NULL AND lr."managerApprovedAt" IS NULL THEN 'MANAGER'::"LeaveApprovalStep"
+      ELSE 'HR'::"LeaveApprovalStep"
+    END
+FROM "Employee" e
+WHERE e."id" = lr."employeeId" AND lr."status" = 'PENDING';
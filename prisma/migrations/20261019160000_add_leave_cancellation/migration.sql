@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "LeaveCancellationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "LeaveRequest" ADD COLUMN     "cancellationStatus" "LeaveCancellationStatus",
+ADD COLUMN     "cancellationFrom" DATE,
+ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "cancellationRequestedBy" TEXT,
+ADD COLUMN     "cancellationRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "cancellationReviewedBy" TEXT,
+ADD COLUMN     "cancellationReviewedAt" TIMESTAMP(3),
+ADD COLUMN     "cancellationRejectionReason" TEXT,
+ADD COLUMN     "cancelledDays" DOUBLE PRECISION,
+ADD COLUMN     "cancelledBy" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "LeaveRequest_cancellationStatus_idx" ON "LeaveRequest"("cancellationStatus");
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "PermissionEffect" AS ENUM ('GRANT', 'REVOKE');
+
+-- CreateTable
+CREATE TABLE "EmployeePermissionOverride" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "permission" TEXT NOT NULL,
+    "effect" "PermissionEffect" NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "EmployeePermissionOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmployeePermissionOverride_employeeId_permission_key" ON "EmployeePermissionOverride"("employeeId", "permission");
+
+-- AddForeignKey
+ALTER TABLE "EmployeePermissionOverride" ADD CONSTRAINT "EmployeePermissionOverride_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
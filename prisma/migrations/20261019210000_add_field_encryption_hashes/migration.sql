@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "EmployeeBank" ADD COLUMN "ibanHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "BankDetailChangeRequest" ADD COLUMN "newIbanHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EmployeeBank_ibanHash_idx" ON "EmployeeBank"("ibanHash");
+
+-- CreateIndex
+CREATE INDEX "BankDetailChangeRequest_newIbanHash_idx" ON "BankDetailChangeRequest"("newIbanHash");
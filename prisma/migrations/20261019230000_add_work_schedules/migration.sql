@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "WorkSchedule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "shiftStart" TEXT NOT NULL,
+    "shiftEnd" TEXT NOT NULL,
+    "requiredHours" DOUBLE PRECISION NOT NULL DEFAULT 8,
+    "breakMinutes" INTEGER NOT NULL DEFAULT 60,
+    "graceMinutes" INTEGER NOT NULL DEFAULT 0,
+    "weekendDays" INTEGER[],
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "WorkSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkScheduleAssignment" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "employeeId" TEXT,
+    "departmentId" TEXT,
+    "effectiveFrom" DATE NOT NULL,
+    "effectiveTo" DATE,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+
+    CONSTRAINT "WorkScheduleAssignment_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "WorkScheduleAssignment_target_check" CHECK (("employeeId" IS NULL) <> ("departmentId" IS NULL))
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkSchedule_name_key" ON "WorkSchedule"("name");
+
+-- CreateIndex
+CREATE INDEX "WorkSchedule_isDefault_idx" ON "WorkSchedule"("isDefault");
+
+-- CreateIndex
+CREATE INDEX "WorkScheduleAssignment_scheduleId_idx" ON "WorkScheduleAssignment"("scheduleId");
+
+-- CreateIndex
+CREATE INDEX "WorkScheduleAssignment_employeeId_effectiveFrom_idx" ON "WorkScheduleAssignment"("employeeId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "WorkScheduleAssignment_departmentId_effectiveFrom_idx" ON "WorkScheduleAssignment"("departmentId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "WorkScheduleAssignment" ADD CONSTRAINT "WorkScheduleAssignment_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "WorkSchedule"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkScheduleAssignment" ADD CONSTRAINT "WorkScheduleAssignment_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkScheduleAssignment" ADD CONSTRAINT "WorkScheduleAssignment_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Company default matching the previous hard-coded rules: 09:00-18:00, 8 hours plus a
+-- 60 minute break, late after 60 minutes, Saturday/Sunday weekend
+INSERT INTO "WorkSchedule" ("id", "name", "description", "shiftStart", "shiftEnd", "requiredHours", "breakMinutes", "graceMinutes", "weekendDays", "isDefault", "updatedAt")
+VALUES ('standard-work-schedule', 'Standard', 'Default office hours', '09:00', '18:00', 8, 60, 60, ARRAY[0, 6], true, CURRENT_TIMESTAMP);
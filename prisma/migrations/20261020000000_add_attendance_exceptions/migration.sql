@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "AttendanceDayType" AS ENUM ('ON_TIME', 'LATE', 'EARLY_LEAVE', 'ABSENT', 'ON_LEAVE', 'HOLIDAY', 'WFH');
+
+-- CreateEnum
+CREATE TYPE "AttendanceExceptionStatus" AS ENUM ('OPEN', 'JUSTIFIED', 'EXCUSED', 'UNEXCUSED');
+
+-- CreateTable
+CREATE TABLE "AttendanceException" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "type" "AttendanceDayType" NOT NULL,
+    "status" "AttendanceExceptionStatus",
+    "minutes" INTEGER,
+    "leaveRequestId" TEXT,
+    "holidayId" TEXT,
+    "justification" TEXT,
+    "justifiedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "deductionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AttendanceException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AttendanceException_deductionId_key" ON "AttendanceException"("deductionId");
+
+-- CreateIndex
+CREATE INDEX "AttendanceException_date_idx" ON "AttendanceException"("date");
+
+-- CreateIndex
+CREATE INDEX "AttendanceException_status_idx" ON "AttendanceException"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AttendanceException_employeeId_date_type_key" ON "AttendanceException"("employeeId", "date", "type");
+
+-- AddForeignKey
+ALTER TABLE "AttendanceException" ADD CONSTRAINT "AttendanceException_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendanceException" ADD CONSTRAINT "AttendanceException_deductionId_fkey" FOREIGN KEY ("deductionId") REFERENCES "Deduction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "AttendanceCorrectionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "AttendanceCorrectionSource" AS ENUM ('EMPLOYEE_REQUEST', 'HR_EDIT', 'HR_BULK_EDIT');
+
+-- CreateTable
+CREATE TABLE "AttendanceCorrection" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "attendanceId" TEXT,
+    "source" "AttendanceCorrectionSource" NOT NULL DEFAULT 'EMPLOYEE_REQUEST',
+    "status" "AttendanceCorrectionStatus" NOT NULL DEFAULT 'PENDING',
+    "checkInTime" TIMESTAMP(3),
+    "checkOutTime" TIMESTAMP(3),
+    "reason" TEXT NOT NULL,
+    "batchId" TEXT,
+    "originalCheckInTime" TIMESTAMP(3),
+    "originalCheckOutTime" TIMESTAMP(3),
+    "originalHoursWorked" DOUBLE PRECISION,
+    "originalOvertime" DOUBLE PRECISION,
+    "requestedBy" TEXT NOT NULL,
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "appliedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AttendanceCorrection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AttendanceCorrection_employeeId_date_idx" ON "AttendanceCorrection"("employeeId", "date");
+
+-- CreateIndex
+CREATE INDEX "AttendanceCorrection_attendanceId_idx" ON "AttendanceCorrection"("attendanceId");
+
+-- CreateIndex
+CREATE INDEX "AttendanceCorrection_status_idx" ON "AttendanceCorrection"("status");
+
+-- CreateIndex
+CREATE INDEX "AttendanceCorrection_batchId_idx" ON "AttendanceCorrection"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "AttendanceCorrection" ADD CONSTRAINT "AttendanceCorrection_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendanceCorrection" ADD CONSTRAINT "AttendanceCorrection_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "Attendance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
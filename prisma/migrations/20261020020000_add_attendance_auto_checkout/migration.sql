@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Attendance" ADD COLUMN     "autoClosedAt" TIMESTAMP(3),
+ADD COLUMN     "needsRegularization" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Attendance_needsRegularization_idx" ON "Attendance"("needsRegularization");
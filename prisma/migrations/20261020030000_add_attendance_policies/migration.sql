@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "AttendancePolicy" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT,
+    "departmentId" TEXT,
+    "attendanceRequired" BOOLEAN NOT NULL,
+    "reason" TEXT,
+    "effectiveFrom" DATE NOT NULL,
+    "effectiveTo" DATE,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+
+    CONSTRAINT "AttendancePolicy_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "AttendancePolicy_target_check" CHECK (("employeeId" IS NULL) <> ("departmentId" IS NULL))
+);
+
+-- CreateIndex
+CREATE INDEX "AttendancePolicy_employeeId_effectiveFrom_idx" ON "AttendancePolicy"("employeeId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "AttendancePolicy_departmentId_effectiveFrom_idx" ON "AttendancePolicy"("departmentId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "AttendancePolicy" ADD CONSTRAINT "AttendancePolicy_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendancePolicy" ADD CONSTRAINT "AttendancePolicy_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Employees previously excluded in code: the MANAGEMENT role and two individual exemptions
+INSERT INTO "AttendancePolicy" ("id", "employeeId", "attendanceRequired", "reason", "effectiveFrom")
+SELECT 'attendance-policy-' || "id", "id", false, 'Exempt before attendance policies were introduced', "joinDate"::date
+FROM "Employee"
+WHERE "role" = 'MANAGEMENT'
+   OR "id" IN ('5b1125e9-d44e-45f4-a531-cd4de4287b5a', 'd2b2061f-bad5-4970-af15-1ab604f4901e');
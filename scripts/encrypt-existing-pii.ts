@@ -0,0 +1,92 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  ENCRYPTED_FIELDS,
+  assertFieldEncryptionConfigured,
+  decryptValue,
+  encryptValue,
+  hashLookupValue,
+  isEncryptedValue,
+} from "../src/utils/fieldEncryption";
+
+/**
+ * Encrypts existing plaintext values of the encrypted columns in place and
+ * fills in their lookup hash columns. Safe to re-run: values that are already
+ * encrypted are left untouched (only a missing hash is backfilled).
+ *
+ * Usage: npm run encryption:migrate [-- --dry-run]
+ */
+
+// Plain client on purpose - the app client would decrypt what we read
+const prisma = new PrismaClient();
+const BATCH_SIZE = 200;
+const dryRun = process.argv.includes("--dry-run");
+
+const delegateFor = (model: string) => (prisma as any)[model.charAt(0).toLowerCase() + model.slice(1)];
+
+async function encryptModel(model: string, config: { fields: string[]; hashes?: Record<string, string> }) {
+  const delegate = delegateFor(model);
+  const select: Record<string, boolean> = { id: true };
+  [...config.fields, ...Object.values(config.hashes || {})].forEach((field) => (select[field] = true));
+
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+
+  while (true) {
+    const rows: Record<string, any>[] = await delegate.findMany({
+      select,
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1].id;
+
+    for (const row of rows) {
+      scanned++;
+      const data: Record<string, any> = {};
+
+      for (const field of config.fields) {
+        const value = row[field];
+        if (typeof value !== "string" || !value) continue;
+
+        if (!isEncryptedValue(value)) {
+          data[field] = encryptValue(value);
+        }
+
+        const hashField = config.hashes?.[field];
+        if (hashField && !row[hashField]) {
+          data[hashField] = hashLookupValue(decryptValue(value));
+        }
+      }
+
+      if (Object.keys(data).length === 0) continue;
+      if (!dryRun) {
+        await delegate.update({ where: { id: row.id }, data });
+      }
+      updated++;
+    }
+  }
+
+  console.log(`  ✅ ${model}: ${updated}/${scanned} rows ${dryRun ? "would be " : ""}updated`);
+}
+
+async function encryptExistingPii() {
+  try {
+    assertFieldEncryptionConfigured();
+    console.log(`🔐 Encrypting existing sensitive columns${dryRun ? " (dry run)" : ""}...`);
+
+    for (const [model, config] of Object.entries(ENCRYPTED_FIELDS)) {
+      await encryptModel(model, config);
+    }
+
+    console.log("\n✅ Encryption migration complete!");
+  } catch (error) {
+    console.error("❌ Encryption migration failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+encryptExistingPii();
@@ -0,0 +1,80 @@
+import { PrismaClient } from "@prisma/client";
+import { ENCRYPTED_FIELDS, assertFieldEncryptionConfigured, needsRewrap, rewrapValue } from "../src/utils/fieldEncryption";
+
+/**
+ * Re-wraps every encrypted value with the current FIELD_ENCRYPTION_KEY.
+ *
+ * Rotation steps:
+ *   1. Move the old key to FIELD_ENCRYPTION_PREVIOUS_KEYS and set a new FIELD_ENCRYPTION_KEY
+ *   2. Deploy (the app reads values under either key meanwhile)
+ *   3. npm run encryption:rotate
+ *   4. Remove the old key from FIELD_ENCRYPTION_PREVIOUS_KEYS
+ *
+ * Only data keys are re-wrapped; ciphertexts and lookup hashes stay the same.
+ * FIELD_ENCRYPTION_HASH_KEY cannot be rotated this way (the hashes would have
+ * to be recomputed from the decrypted values).
+ */
+
+// Plain client on purpose - the app client would decrypt what we read
+const prisma = new PrismaClient();
+const BATCH_SIZE = 200;
+
+const delegateFor = (model: string) => (prisma as any)[model.charAt(0).toLowerCase() + model.slice(1)];
+
+async function rotateModel(model: string, fields: string[]) {
+  const delegate = delegateFor(model);
+  const select: Record<string, boolean> = { id: true };
+  fields.forEach((field) => (select[field] = true));
+
+  let cursor: string | undefined;
+  let scanned = 0;
+  let rotated = 0;
+
+  while (true) {
+    const rows: Record<string, any>[] = await delegate.findMany({
+      select,
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1].id;
+
+    for (const row of rows) {
+      scanned++;
+      const data: Record<string, string> = {};
+
+      for (const field of fields) {
+        if (needsRewrap(row[field])) {
+          data[field] = rewrapValue(row[field]);
+        }
+      }
+
+      if (Object.keys(data).length === 0) continue;
+      await delegate.update({ where: { id: row.id }, data });
+      rotated++;
+    }
+  }
+
+  console.log(`  ✅ ${model}: ${rotated}/${scanned} rows re-wrapped`);
+}
+
+async function rotateFieldEncryptionKey() {
+  try {
+    assertFieldEncryptionConfigured();
+    console.log("🔑 Re-wrapping encrypted values with the current key...");
+
+    for (const [model, config] of Object.entries(ENCRYPTED_FIELDS)) {
+      await rotateModel(model, config.fields);
+    }
+
+    console.log("\n✅ Key rotation complete! Previous keys can now be removed.");
+  } catch (error) {
+    console.error("❌ Key rotation failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+rotateFieldEncryptionKey();
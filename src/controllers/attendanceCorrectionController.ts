@@ -0,0 +1,266 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { IApiResponse } from '../types';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { getUserInfo } from '../utils/ownershipValidation';
+import { hasPermission } from '../utils/permissions';
+import { buildTeamScopeFilter, isInReportingLine } from '../utils/reportingLine';
+import {
+  approveAttendanceCorrection as applyApproval,
+  editAttendance,
+  rejectAttendanceCorrection as recordRejection,
+  requestAttendanceCorrection as createCorrectionRequest,
+} from '../services/attendanceCorrectionService';
+import { validated } from '../middleware/validate';
+import {
+  approveAttendanceCorrectionSchema,
+  attendanceCorrectionIdSchema,
+  bulkEditAttendanceSchema,
+  editAttendanceSchema,
+  getAttendanceCorrectionsSchema,
+  getRegularizationQueueSchema,
+  rejectAttendanceCorrectionSchema,
+  requestAttendanceCorrectionSchema,
+} from '../schemas/attendance';
+
+const CORRECTION_INCLUDE = {
+  employee: { select: { id: true, firstName: true, lastName: true, employeeId: true, managerId: true } },
+} as const;
+
+/**
+ * Reviewer of a requested correction: the employee's line manager, or attendance:manage - never the employee
+ */
+const assertCanReview = async (req: Request, userId: string, employeeId: string) => {
+  if (employeeId === userId) {
+    throw new ForbiddenError('You cannot review your own attendance corrections');
+  }
+  if (!hasPermission(req, 'attendance:manage') && !(await isInReportingLine(userId, employeeId))) {
+    throw new ForbiddenError('You can only review attendance corrections of your reports');
+  }
+};
+
+const findCorrection = async (id: string) => {
+  const correction = await prisma.attendanceCorrection.findUnique({ where: { id }, include: CORRECTION_INCLUDE });
+  if (!correction) {
+    throw new NotFoundError('Attendance correction not found');
+  }
+  return correction;
+};
+
+/**
+ * Get attendance corrections
+ * GET /attendance/corrections
+ * Query params: page, pageSize, employeeId, fromDate, toDate, status
+ * Own corrections, plus those of reports for line managers and of everyone with attendance:read:all
+ */
+export const getAttendanceCorrections = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { page, pageSize, employeeId, fromDate, toDate, status } = validated(req, getAttendanceCorrectionsSchema).query;
+
+  const where: any = await buildTeamScopeFilter(userId, hasPermission(req, 'attendance:read:all'), 'employeeId', employeeId);
+
+  if (fromDate || toDate) {
+    where.date = {
+      ...(fromDate && { gte: new Date(`${fromDate}T00:00:00.000Z`) }),
+      ...(toDate && { lte: new Date(`${toDate}T00:00:00.000Z`) }),
+    };
+  }
+  if (status?.length) where.status = { in: status };
+
+  const [total, corrections] = await Promise.all([
+    prisma.attendanceCorrection.count({ where }),
+    prisma.attendanceCorrection.findMany({
+      where,
+      include: CORRECTION_INCLUDE,
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+  ]);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      corrections,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    },
+    message: 'Attendance corrections retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Get attendance records closed by the auto-checkout job that still await a correction
+ * GET /attendance/regularization
+ * Query params: page, pageSize, employeeId
+ * Resolved by a correction request being approved or by an HR edit of the day
+ */
+export const getRegularizationQueue = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { page, pageSize, employeeId } = validated(req, getRegularizationQueueSchema).query;
+
+  const where: any = {
+    ...(await buildTeamScopeFilter(userId, hasPermission(req, 'attendance:read:all'), 'employeeId', employeeId)),
+    needsRegularization: true,
+  };
+
+  const [total, records] = await Promise.all([
+    prisma.attendance.count({ where }),
+    prisma.attendance.findMany({
+      where,
+      include: {
+        ...CORRECTION_INCLUDE,
+        corrections: { where: { status: 'PENDING' }, select: { id: true, createdAt: true } },
+      },
+      orderBy: [{ date: 'asc' }, { employeeId: 'asc' }],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+  ]);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      records,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    },
+    message: 'Regularization queue retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Request a correction of one's own attendance day
+ * POST /attendance/corrections
+ * Body: { date, checkInTime?, checkOutTime?, reason } - times as HH:mm, Dubai time
+ */
+export const requestAttendanceCorrection = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const body = validated(req, requestAttendanceCorrectionSchema).body;
+
+  const correction = await createCorrectionRequest({ ...body, employeeId: userId }, userId);
+
+  return res.status(201).json({
+    success: true,
+    data: correction,
+    message: 'Attendance correction requested successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Approve a correction and apply it to the attendance record
+ * POST /attendance/corrections/:id/approve
+ * Body: { reviewNote? }
+ */
+export const approveAttendanceCorrection = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { params: { id }, body: { reviewNote } } = validated(req, approveAttendanceCorrectionSchema);
+
+  const correction = await findCorrection(id);
+  await assertCanReview(req, userId, correction.employeeId);
+
+  await applyApproval(id, userId, reviewNote);
+
+  return res.status(200).json({
+    success: true,
+    data: await findCorrection(id),
+    message: 'Attendance correction approved and applied',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Reject a correction
+ * POST /attendance/corrections/:id/reject
+ * Body: { reviewNote }
+ */
+export const rejectAttendanceCorrection = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { params: { id }, body: { reviewNote } } = validated(req, rejectAttendanceCorrectionSchema);
+
+  const correction = await findCorrection(id);
+  await assertCanReview(req, userId, correction.employeeId);
+
+  await recordRejection(id, userId, reviewNote);
+
+  return res.status(200).json({
+    success: true,
+    data: await findCorrection(id),
+    message: 'Attendance correction rejected',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Cancel one's own pending correction
+ * POST /attendance/corrections/:id/cancel
+ */
+export const cancelAttendanceCorrection = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { id } = validated(req, attendanceCorrectionIdSchema).params;
+
+  const correction = await findCorrection(id);
+
+  if (correction.employeeId !== userId) {
+    throw new ForbiddenError('You can only cancel your own attendance corrections');
+  }
+  if (correction.status !== 'PENDING') {
+    throw new ValidationError(`Only pending corrections can be cancelled (this one is ${correction.status})`);
+  }
+
+  const cancelled = await prisma.attendanceCorrection.update({
+    where: { id },
+    data: { status: 'CANCELLED' },
+    include: CORRECTION_INCLUDE,
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: cancelled,
+    message: 'Attendance correction cancelled',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Edit an employee's attendance day directly (HR)
+ * PATCH /attendance/management/records
+ * Body: { employeeId, date, checkInTime?, checkOutTime?, reason }
+ * Recorded as an applied correction with the replaced values
+ */
+export const editAttendanceRecord = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { reason, ...entry } = validated(req, editAttendanceSchema).body;
+
+  const { corrections } = await editAttendance([entry], reason, userId);
+  const attendance = await prisma.attendance.findUnique({ where: { id: corrections[0].attendanceId! } });
+
+  return res.status(200).json({
+    success: true,
+    data: { attendance, correction: corrections[0] },
+    message: 'Attendance updated successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Edit several attendance days at once (HR); all entries are applied or none
+ * PATCH /attendance/management/records/bulk
+ * Body: { reason, entries: [{ employeeId, date, checkInTime?, checkOutTime? }] }
+ */
+export const bulkEditAttendanceRecords = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { reason, entries } = validated(req, bulkEditAttendanceSchema).body;
+
+  const result = await editAttendance(entries, reason, userId, true);
+
+  return res.status(200).json({
+    success: true,
+    data: result,
+    message: `${result.corrections.length} attendance record(s) updated successfully`,
+  } as IApiResponse<any>);
+};
@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { IApiResponse } from '../types';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { getUserInfo } from '../utils/ownershipValidation';
+import { hasPermission } from '../utils/permissions';
+import { buildTeamScopeFilter, isInReportingLine } from '../utils/reportingLine';
+import { reviewAttendanceException as recordReview } from '../services/attendanceExceptionService';
+import { validated } from '../middleware/validate';
+import {
+  getAttendanceExceptionsSchema,
+  justifyAttendanceExceptionSchema,
+  reviewAttendanceExceptionSchema,
+} from '../schemas/attendance';
+
+const EXCEPTION_INCLUDE = {
+  employee: { select: { id: true, firstName: true, lastName: true, employeeId: true, managerId: true } },
+  deduction: { select: { id: true, amount: true, status: true } },
+} as const;
+
+/**
+ * Get classified attendance days
+ * GET /attendance/exceptions
+ * Query params: page, pageSize, employeeId, fromDate, toDate, type, status
+ * Own days, plus those of reports for line managers and of everyone with attendance:read:all
+ */
+export const getAttendanceExceptions = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { page, pageSize, employeeId, fromDate, toDate, type, status } = validated(req, getAttendanceExceptionsSchema).query;
+
+  const where: any = await buildTeamScopeFilter(userId, hasPermission(req, 'attendance:read:all'), 'employeeId', employeeId);
+
+  if (fromDate || toDate) {
+    where.date = {
+      ...(fromDate && { gte: new Date(`${fromDate}T00:00:00.000Z`) }),
+      ...(toDate && { lte: new Date(`${toDate}T00:00:00.000Z`) }),
+    };
+  }
+  if (type?.length) where.type = { in: type };
+  if (status?.length) where.status = { in: status };
+
+  const [total, exceptions] = await Promise.all([
+    prisma.attendanceException.count({ where }),
+    prisma.attendanceException.findMany({
+      where,
+      include: EXCEPTION_INCLUDE,
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+  ]);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      exceptions,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    },
+    message: 'Attendance exceptions retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Explain a late arrival, early leave or absence
+ * POST /attendance/exceptions/:id/justify
+ * Body: { justification }
+ * Can be changed until the manager has reviewed it
+ */
+export const justifyAttendanceException = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { params: { id }, body: { justification } } = validated(req, justifyAttendanceExceptionSchema);
+
+  const exception = await prisma.attendanceException.findUnique({ where: { id } });
+
+  if (!exception) {
+    throw new NotFoundError('Attendance exception not found');
+  }
+  if (exception.employeeId !== userId) {
+    throw new ForbiddenError('You can only justify your own attendance exceptions');
+  }
+  if (exception.status !== 'OPEN' && exception.status !== 'JUSTIFIED') {
+    throw new ValidationError(
+      exception.status ? `This exception has already been reviewed (${exception.status})` : `${exception.type} days do not need a justification`
+    );
+  }
+
+  const updated = await prisma.attendanceException.update({
+    where: { id },
+    data: {
+      status: 'JUSTIFIED',
+      justification,
+      justifiedAt: new Date(),
+    },
+    include: EXCEPTION_INCLUDE,
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: 'Justification submitted successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Excuse an exception or mark it unexcused
+ * POST /attendance/exceptions/:id/review
+ * Body: { status: EXCUSED | UNEXCUSED, note? }
+ * Line managers review their reports; attendance:exception:review reviews everyone but themselves
+ */
+export const reviewAttendanceException = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { params: { id }, body: { status, note } } = validated(req, reviewAttendanceExceptionSchema);
+
+  const exception = await prisma.attendanceException.findUnique({ where: { id }, select: { employeeId: true } });
+
+  if (!exception) {
+    throw new NotFoundError('Attendance exception not found');
+  }
+  if (exception.employeeId === userId) {
+    throw new ForbiddenError('You cannot review your own attendance exceptions');
+  }
+  if (!hasPermission(req, 'attendance:exception:review') && !(await isInReportingLine(userId, exception.employeeId))) {
+    throw new ForbiddenError('You can only review attendance exceptions of your reports');
+  }
+
+  await recordReview(id, { status, note, reviewedBy: userId });
+
+  const updated = await prisma.attendanceException.findUnique({ where: { id }, include: EXCEPTION_INCLUDE });
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: status === 'EXCUSED' ? 'Attendance exception excused' : 'Attendance exception marked as unexcused',
+  } as IApiResponse<any>);
+};
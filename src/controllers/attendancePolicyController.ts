@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { IApiResponse } from '../types';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { getUserInfo } from '../utils/ownershipValidation';
+import { hasPermission } from '../utils/permissions';
+import { getTodayDubai } from '../utils/attendanceHelper';
+import {
+  getEffectiveAttendancePolicy as resolvePolicy,
+  removeAttendancePolicy,
+  setAttendancePolicy as recordPolicy,
+} from '../services/attendancePolicyService';
+import { validated } from '../middleware/validate';
+import {
+  attendancePolicyIdSchema,
+  getAttendancePoliciesSchema,
+  getEffectiveAttendancePolicySchema,
+  setAttendancePolicySchema,
+} from '../schemas/attendancePolicies';
+
+const POLICY_INCLUDE = {
+  employee: { select: { id: true, firstName: true, lastName: true, employeeId: true } },
+  department: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Get attendance policies, newest first
+ * GET /attendance-policies
+ * Query params: employeeId, departmentId
+ */
+export const getAttendancePolicies = async (req: Request, res: Response): Promise<Response | void> => {
+  const { employeeId, departmentId } = validated(req, getAttendancePoliciesSchema).query;
+
+  const policies = await prisma.attendancePolicy.findMany({
+    where: {
+      ...(employeeId && { employeeId }),
+      ...(departmentId && { departmentId }),
+    },
+    include: POLICY_INCLUDE,
+    orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: policies,
+    message: 'Attendance policies retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Set whether an employee or department records attendance from a date
+ * POST /attendance-policies
+ * Body: { employeeId | departmentId, attendanceRequired, reason?, effectiveFrom, effectiveTo? }
+ */
+export const setAttendancePolicy = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const body = validated(req, setAttendancePolicySchema).body;
+
+  if (body.employeeId && !(await prisma.employee.findUnique({ where: { id: body.employeeId }, select: { id: true } }))) {
+    throw new NotFoundError('Employee not found');
+  }
+  if (body.departmentId && !(await prisma.department.findUnique({ where: { id: body.departmentId }, select: { id: true } }))) {
+    throw new NotFoundError('Department not found');
+  }
+
+  const { id } = await recordPolicy({ ...body, createdBy: userId });
+
+  const policy = await prisma.attendancePolicy.findUnique({
+    where: { id },
+    include: POLICY_INCLUDE,
+  });
+
+  return res.status(201).json({
+    success: true,
+    data: policy,
+    message: 'Attendance policy set successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Remove a policy that has not started yet
+ * DELETE /attendance-policies/:id
+ * Policies in effect or in the past are history; set another policy instead.
+ * The policy it ended takes over again.
+ */
+export const deleteAttendancePolicy = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = validated(req, attendancePolicyIdSchema).params;
+
+  const existing = await prisma.attendancePolicy.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new NotFoundError('Attendance policy not found');
+  }
+
+  if (existing.effectiveFrom < getTodayDubai()) {
+    throw new ValidationError('Only policies starting today or later can be removed; set another policy instead');
+  }
+
+  await removeAttendancePolicy(existing);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Attendance policy removed successfully',
+  } as IApiResponse<null>);
+};
+
+/**
+ * Get whether an employee records attendance on a day
+ * GET /attendance-policies/effective
+ * Query params: employeeId (defaults to the current user), date (YYYY-MM-DD, defaults to today)
+ */
+export const getEffectiveAttendancePolicy = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { employeeId = userId, date = getTodayDubai() } = validated(req, getEffectiveAttendancePolicySchema).query;
+
+  if (employeeId !== userId && !hasPermission(req, 'attendance:read:all') && !hasPermission(req, 'attendance:policy:manage')) {
+    throw new ForbiddenError('You can only view your own attendance policy');
+  }
+
+  const effective = await resolvePolicy(employeeId, date);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      employeeId,
+      date: date.toISOString().split('T')[0],
+      ...effective,
+    },
+    message: 'Attendance policy retrieved successfully',
+  } as IApiResponse<any>);
+};
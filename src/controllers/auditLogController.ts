@@ -0,0 +1,29 @@
+import { Request, Response } from 'express';
+import { IApiResponse, IPaginatedResponse } from '../types';
+import { getAuditLogs as getAuditLogsService } from '../services/auditLogService';
+import { validated } from '../middleware/validate';
+import { getAuditLogsSchema } from '../schemas/audit';
+
+/**
+ * Get audit log entries
+ * GET /audit?entity=Employee&entityId=...&actorId=...&action=UPDATE&from=2026-01-01&to=2026-01-31&page=1&pageSize=20
+ */
+export const getAuditLogs = async (req: Request, res: Response): Promise<Response | void> => {
+  const query = validated(req, getAuditLogsSchema).query;
+
+  const result = await getAuditLogsService(query);
+
+  const response: IApiResponse<IPaginatedResponse<any>> = {
+    success: true,
+    data: {
+      data: result.entries,
+      total: result.total,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    },
+    message: 'Audit log retrieved successfully',
+  };
+
+  return res.status(200).json(response);
+};
@@ -1,107 +1,170 @@
 import { Request, Response } from 'express';
+import crypto from 'crypto';
+import { LoginMethod } from '@prisma/client';
 import { prisma } from '../index';
-import { generateToken } from '../utils/jwt';
-import { comparePassword } from '../utils/password';
+import { comparePassword, hashPassword } from '../utils/password';
 import { verifyGoogleToken } from '../utils/googleAuth';
-import { ILoginRequest, IAuthResponse, IApiResponse } from '../types';
+import { validated } from '../middleware/validate';
+import {
+  changePasswordSchema,
+  forgotPasswordSchema,
+  getLoginHistorySchema,
+  googleAuthSchema,
+  loginSchema,
+  logoutSchema,
+  refreshSchema,
+  resetPasswordSchema,
+} from '../schemas/auth';
+import { IAuthResponse, IApiResponse, IPaginatedResponse } from '../types';
+import { requestPasswordReset, resetPasswordWithToken } from '../services/passwordResetService';
+import {
+  issueSession,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeAllSessions,
+  isEmployeeAccessAllowed,
+  SessionMeta,
+} from '../services/sessionService';
+import {
+  checkIpThrottle,
+  checkAccountThrottle,
+  recordLoginAttempt,
+  registerFailedLogin,
+  registerSuccessfulLogin,
+  LoginContext,
+} from '../services/loginProtectionService';
+import { getEffectivePermissions } from '../services/permissionService';
+import { logger } from '../utils/logger';
+
+/**
+ * Client details stored with a refresh token (shown when reviewing sessions)
+ */
+const getSessionMeta = (req: Request): SessionMeta => ({
+  userAgent: req.get('user-agent') || null,
+  ipAddress: req.ip || null,
+});
+
+/**
+ * Login context recorded in the login history
+ */
+const getLoginContext = (req: Request): LoginContext => ({
+  userAgent: req.get('user-agent') || null,
+  ipAddress: req.ip || null,
+});
+
+// Compared against when the email is unknown so response timing does not reveal which accounts exist
+const dummyPasswordHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+const sendLoginThrottled = (res: Response, retryAfterSeconds: number) => {
+  res.setHeader('Retry-After', retryAfterSeconds.toString());
+  return res.status(429).json({
+    success: false,
+    error: 'Too many failed login attempts. Please try again later.',
+  } as IApiResponse<null>);
+};
 
 /**
  * Login with email and password
  * POST /auth/login
+ * Throttled per IP and per account; repeated failures lock the account temporarily
  */
 export const login = async (req: Request, res: Response) => {
-  try {
-    const { email, password } = req.body as ILoginRequest;
+  const { email, password } = validated(req, loginSchema).body;
 
-    // Validate input
-    if (!email || !password) {
-      return res.status(400).json({
-        success: false,
-        error: 'Email and password are required',
-      } as IApiResponse<null>);
-    }
+  const context = getLoginContext(req);
 
-    // Find employee by email
-    const employee = await prisma.employee.findUnique({
-      where: { email },
-    });
+  const ipThrottle = await checkIpThrottle(context.ipAddress);
+  if (!ipThrottle.allowed) {
+    return sendLoginThrottled(res, ipThrottle.retryAfterSeconds);
+  }
 
-    console.log('🔍 Employee fetched from database:', {
-      id: employee?.id,
-      email: employee?.email,
-      firstName: employee?.firstName,
-      lastName: employee?.lastName,
-      role: employee?.role,
-      userStatus: employee?.userStatus,
-      status: employee?.status,
-    });
+  // Find employee by email
+  const employee = await prisma.employee.findUnique({
+    where: { email },
+  });
 
-    if (!employee) {
-      return res.status(401).json({
+  if (employee) {
+    const accountThrottle = checkAccountThrottle(employee);
+    if (!accountThrottle.allowed) {
+      await recordLoginAttempt({
+        email,
+        employeeId: employee.id,
         success: false,
-        error: 'Invalid email or password',
-      } as IApiResponse<null>);
+        failureReason: accountThrottle.reason,
+        context,
+      });
+      return sendLoginThrottled(res, accountThrottle.retryAfterSeconds);
     }
+  }
 
-    // Compare password
-    const isPasswordValid = await comparePassword(password, employee.password);
+  // Compare password
+  const isPasswordValid = await comparePassword(password, employee ? employee.password : await dummyPasswordHash);
 
-    if (!isPasswordValid) {
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid email or password',
-      } as IApiResponse<null>);
+  if (!employee || !isPasswordValid) {
+    await recordLoginAttempt({
+      email,
+      employeeId: employee?.id,
+      success: false,
+      failureReason: 'INVALID_CREDENTIALS',
+      context,
+    });
+    if (employee) {
+      await registerFailedLogin(employee);
     }
 
-    // Update last login
-    await prisma.employee.update({
-      where: { id: employee.id },
-      data: { lastLogin: new Date() },
-    });
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid email or password',
+    } as IApiResponse<null>);
+  }
 
-    // Generate JWT token
-    const token = generateToken({
-      userId: employee.id,
-      email: employee.email,
-      role: employee.role,
+  // Check if employee is active
+  if (!isEmployeeAccessAllowed(employee)) {
+    await recordLoginAttempt({
+      email,
+      employeeId: employee.id,
+      success: false,
+      failureReason: 'ACCOUNT_INACTIVE',
+      context,
     });
+    return res.status(403).json({
+      success: false,
+      error: 'Your account is not active. Please contact your administrator.',
+    } as IApiResponse<null>);
+  }
 
-    // Prepare user object to return
-    const userObject = {
-      id: employee.id,
-      email: employee.email,
-      firstName: employee.firstName,
-      lastName: employee.lastName,
-      role: employee.role,
-      status: employee.userStatus,
-      createdAt: employee.createdAt,
-      updatedAt: employee.updatedAt,
-    };
+  // Update last login and clear failure tracking
+  await registerSuccessfulLogin(employee.id);
+  await recordLoginAttempt({ email, employeeId: employee.id, success: true, context });
 
-    console.log('✅ User object being returned to frontend:', {
-      ...userObject,
-      role: userObject.role,
-      roleType: typeof userObject.role,
-    });
+  // Start a session (short-lived access token + refresh token)
+  const session = await issueSession(employee, getSessionMeta(req));
 
-    // Return response
-    const response: IApiResponse<IAuthResponse> = {
-      success: true,
-      data: {
-        token,
-        user: userObject,
-      },
-      message: 'Login successful',
-    };
+  // Prepare user object to return
+  const userObject = {
+    id: employee.id,
+    email: employee.email,
+    firstName: employee.firstName,
+    lastName: employee.lastName,
+    role: employee.role,
+    status: employee.userStatus,
+    mustChangePassword: employee.mustChangePassword,
+    permissions: await getEffectivePermissions(employee.id, employee.role),
+    createdAt: employee.createdAt,
+    updatedAt: employee.updatedAt,
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Login error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  // Return response
+  const response: IApiResponse<IAuthResponse> = {
+    success: true,
+    data: {
+      ...session,
+      user: userObject,
+    },
+    message: 'Login successful',
+  };
+
+  return res.status(200).json(response);
 };
 
 
@@ -109,40 +172,31 @@ export const login = async (req: Request, res: Response) => {
 /**
  * Authenticate with Google JWT token
  * POST /auth/google
+ * Google verifies the user's identity, so password lockouts do not apply here
  */
 export const googleAuth = async (req: Request, res: Response) => {
   try {
-    const { token } = req.body;
-
-    // Validate input
-    if (!token) {
-      return res.status(400).json({
-        success: false,
-        error: 'Token is required',
-      } as IApiResponse<null>);
-    }
+    const { token } = validated(req, googleAuthSchema).body;
 
     // Verify Google token
     const googleUser = await verifyGoogleToken(token);
+    const context = getLoginContext(req);
 
     // Find existing employee by email
     let employee = await prisma.employee.findUnique({
       where: { email: googleUser.email },
     });
 
-    console.log('🔍 Employee fetched from database (Google Auth):', {
-      id: employee?.id,
-      email: employee?.email,
-      firstName: employee?.firstName,
-      lastName: employee?.lastName,
-      role: employee?.role,
-      userStatus: employee?.userStatus,
-      status: employee?.status,
-    });
-
     if (!employee) {
       // Employee doesn't exist - return error
       // (Frontend should handle this and prompt user to contact admin)
+      await recordLoginAttempt({
+        email: googleUser.email,
+        method: LoginMethod.GOOGLE,
+        success: false,
+        failureReason: 'UNKNOWN_ACCOUNT',
+        context,
+      });
       return res.status(404).json({
         success: false,
         error: 'Employee not found. Please contact your administrator.',
@@ -150,26 +204,34 @@ export const googleAuth = async (req: Request, res: Response) => {
     }
 
     // Check if employee is active
-    if (employee.userStatus !== 'ACTIVE') {
+    if (!isEmployeeAccessAllowed(employee)) {
+      await recordLoginAttempt({
+        email: employee.email,
+        employeeId: employee.id,
+        method: LoginMethod.GOOGLE,
+        success: false,
+        failureReason: 'ACCOUNT_INACTIVE',
+        context,
+      });
       return res.status(403).json({
         success: false,
         error: 'Your account is not active. Please contact your administrator.',
       } as IApiResponse<null>);
     }
 
-    // Update last login
-    await prisma.employee.update({
-      where: { id: employee.id },
-      data: { lastLogin: new Date() },
-    });
-
-    // Generate JWT token
-    const jwtToken = generateToken({
-      userId: employee.id,
+    // Update last login and clear failure tracking
+    await registerSuccessfulLogin(employee.id);
+    await recordLoginAttempt({
       email: employee.email,
-      role: employee.role,
+      employeeId: employee.id,
+      method: LoginMethod.GOOGLE,
+      success: true,
+      context,
     });
 
+    // Start a session (short-lived access token + refresh token)
+    const session = await issueSession(employee, getSessionMeta(req));
+
     // Prepare user object to return
     const userObject = {
       id: employee.id,
@@ -178,29 +240,25 @@ export const googleAuth = async (req: Request, res: Response) => {
       lastName: employee.lastName,
       role: employee.role,
       status: employee.userStatus,
+      mustChangePassword: employee.mustChangePassword,
+      permissions: await getEffectivePermissions(employee.id, employee.role),
       createdAt: employee.createdAt,
       updatedAt: employee.updatedAt,
     };
 
-    console.log('✅ User object being returned to frontend (Google Auth):', {
-      ...userObject,
-      role: userObject.role,
-      roleType: typeof userObject.role,
-    });
-
     // Return response
     const response: IApiResponse<IAuthResponse> = {
       success: true,
       message: 'Sign in successful',
       data: {
-        token: jwtToken,
+        ...session,
         user: userObject,
       },
     };
 
     return res.status(200).json(response);
   } catch (error) {
-    console.error('Google auth error:', error);
+    logger.error('Google auth error', error);
     return res.status(401).json({
       success: false,
       error: error instanceof Error ? error.message : 'Authentication failed',
@@ -208,3 +266,206 @@ export const googleAuth = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Exchange a refresh token for a new access token (the refresh token is rotated)
+ * POST /auth/refresh
+ */
+export const refresh = async (req: Request, res: Response) => {
+  const { refreshToken } = validated(req, refreshSchema).body;
+
+  const result = await rotateRefreshToken(refreshToken, getSessionMeta(req));
+
+  if (result.status === 'inactive') {
+    return res.status(403).json({
+      success: false,
+      error: 'Your account is not active. Please contact your administrator.',
+    } as IApiResponse<null>);
+  }
+
+  if (result.status !== 'refreshed') {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid or expired refresh token',
+    } as IApiResponse<null>);
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: result.tokens,
+    message: 'Token refreshed successfully',
+  } as IApiResponse<typeof result.tokens>);
+};
+
+/**
+ * Logout - revoke the session of the given refresh token
+ * POST /auth/logout
+ * Always succeeds so clients can clear local state unconditionally
+ */
+export const logout = async (req: Request, res: Response) => {
+  const { refreshToken } = validated(req, logoutSchema).body;
+
+  if (refreshToken) {
+    await revokeRefreshToken(refreshToken);
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Logged out successfully',
+  } as IApiResponse<null>);
+};
+
+/**
+ * Logout from all devices - revokes every refresh token and access token of the user
+ * POST /auth/logout-all
+ */
+export const logoutAll = async (req: Request, res: Response) => {
+  await revokeAllSessions(req.user!.userId, 'LOGOUT_ALL');
+
+  return res.status(200).json({
+    success: true,
+    message: 'Logged out from all sessions',
+  } as IApiResponse<null>);
+};
+
+/**
+ * Request a password reset email
+ * POST /auth/forgot-password
+ * Responds identically, and before looking the email up, whether or not it belongs to an account
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+  const { email } = validated(req, forgotPasswordSchema).body;
+
+  // Not awaited: the response time must not reveal whether an email was sent
+  requestPasswordReset(email, req.ip || null).catch((error) => {
+    // Never surface lookup or delivery failures - they would reveal the account exists
+    logger.error('Password reset request error', error);
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'If an account exists for this email, a password reset link has been sent',
+  } as IApiResponse<null>);
+};
+
+/**
+ * Set a new password with a reset or invitation token
+ * POST /auth/reset-password
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+  const { token, newPassword } = validated(req, resetPasswordSchema).body;
+
+  const result = await resetPasswordWithToken(token, newPassword);
+
+  if (result.status !== 'ok') {
+    return res.status(400).json({
+      success: false,
+      error: 'This password link is invalid or has expired',
+    } as IApiResponse<null>);
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Password has been set. You can now sign in.',
+  } as IApiResponse<null>);
+};
+
+/**
+ * Change the password of the logged-in user
+ * POST /auth/change-password
+ * Other sessions are ended; a fresh session is returned for this client
+ */
+export const changePassword = async (req: Request, res: Response) => {
+  const { currentPassword, newPassword } = validated(req, changePasswordSchema).body;
+
+  const employee = await prisma.employee.findUnique({
+    where: { id: req.user!.userId },
+  });
+
+  if (!employee) {
+    return res.status(404).json({
+      success: false,
+      error: 'Employee not found',
+    } as IApiResponse<null>);
+  }
+
+  const isPasswordValid = await comparePassword(currentPassword, employee.password);
+  if (!isPasswordValid) {
+    return res.status(400).json({
+      success: false,
+      error: 'Current password is incorrect',
+    } as IApiResponse<null>);
+  }
+
+  if (await comparePassword(newPassword, employee.password)) {
+    return res.status(400).json({
+      success: false,
+      error: 'New password must be different from the current password',
+    } as IApiResponse<null>);
+  }
+
+  await prisma.employee.update({
+    where: { id: employee.id },
+    data: {
+      password: await hashPassword(newPassword),
+      passwordChangedAt: new Date(),
+      mustChangePassword: false,
+    },
+  });
+
+  // Outstanding reset links must not outlive the password they were issued for
+  await prisma.passwordResetToken.updateMany({
+    where: { employeeId: employee.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  const tokenVersion = await revokeAllSessions(employee.id, 'PASSWORD_CHANGED');
+  const session = await issueSession({ ...employee, tokenVersion }, getSessionMeta(req));
+
+  return res.status(200).json({
+    success: true,
+    data: session,
+    message: 'Password changed successfully',
+  } as IApiResponse<typeof session>);
+};
+
+/**
+ * Get the current user's login history
+ * GET /auth/login-history?page=1&pageSize=20
+ */
+export const getLoginHistory = async (req: Request, res: Response) => {
+  const { page, pageSize } = validated(req, getLoginHistorySchema).query;
+  const where = { employeeId: req.user!.userId };
+
+  const [attempts, total] = await Promise.all([
+    prisma.loginAttempt.findMany({
+      where,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        method: true,
+        success: true,
+        failureReason: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+      },
+    }),
+    prisma.loginAttempt.count({ where }),
+  ]);
+
+  const response: IApiResponse<IPaginatedResponse<any>> = {
+    success: true,
+    data: {
+      data: attempts,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    },
+    message: 'Login history retrieved successfully',
+  };
+
+  return res.status(200).json(response);
+};
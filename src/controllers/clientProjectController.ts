@@ -1,67 +1,62 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { IApiResponse } from '../types';
+import { logger } from '../utils/logger';
+import { validated } from '../middleware/validate';
+import { createClientSchema, createProjectSchema, getClientsSchema, getProjectsByClientSchema } from '../schemas/clientProjects';
 
 /**
  * Get all clients
  * GET /clients
  */
 export const getClients = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { page = 1, pageSize = 10, search, isActive = true } = req.query;
-
-    const skip = (Number(page) - 1) * Number(pageSize);
-    const where: any = {};
+  const { page, pageSize, search, isActive } = validated(req, getClientsSchema).query;
 
-    if (isActive !== 'all') {
-      where.isActive = isActive === 'true';
-    }
+  const skip = (page - 1) * pageSize;
+  const where: any = {};
 
-    if (search) {
-      where.OR = [
-        { name: { contains: search as string, mode: 'insensitive' } },
-        { email: { contains: search as string, mode: 'insensitive' } },
-      ];
-    }
+  if (isActive !== 'all') {
+    where.isActive = isActive === 'true';
+  }
 
-    const [clients, total] = await Promise.all([
-      prisma.client.findMany({
-        where,
-        skip,
-        take: Number(pageSize),
-        orderBy: { createdAt: 'desc' },
-        include: {
-          projects: {
-            where: { isActive: true },
-            select: { id: true, name: true },
-          },
-        },
-      }),
-      prisma.client.count({ where }),
-    ]);
+  if (search) {
+    where.OR = [
+      { name: { contains: search, mode: 'insensitive' } },
+      { email: { contains: search, mode: 'insensitive' } },
+    ];
+  }
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        clients,
-        pagination: {
-          page: Number(page),
-          pageSize: Number(pageSize),
-          total,
-          totalPages: Math.ceil(total / Number(pageSize)),
+  const [clients, total] = await Promise.all([
+    prisma.client.findMany({
+      where,
+      skip,
+      take: pageSize,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        projects: {
+          where: { isActive: true },
+          select: { id: true, name: true },
         },
       },
-      message: 'Clients retrieved successfully',
-    };
+    }),
+    prisma.client.count({ where }),
+  ]);
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      clients,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    },
+    message: 'Clients retrieved successfully',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get clients error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -70,15 +65,7 @@ export const getClients = async (req: Request, res: Response): Promise<Response
  */
 export const createClient = async (req: Request, res: Response): Promise<Response | void> => {
   try {
-    const { name, email, phone, address, city, country, description } = req.body;
-
-    if (!name) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation Error',
-        message: 'Client name is required',
-      } as IApiResponse<null>);
-    }
+    const { name, email, phone, address, city, country, description } = validated(req, createClientSchema).body;
 
     const client = await prisma.client.create({
       data: {
@@ -107,7 +94,7 @@ export const createClient = async (req: Request, res: Response): Promise<Respons
         message: 'Client name already exists',
       } as IApiResponse<null>);
     }
-    console.error('Create client error:', error);
+    logger.error('Create client error', error);
     return res.status(500).json({
       success: false,
       error: 'Internal server error',
@@ -120,64 +107,55 @@ export const createClient = async (req: Request, res: Response): Promise<Respons
  * GET /clients/:clientId/projects
  */
 export const getProjectsByClient = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { clientId } = req.params;
-    const { page = 1, pageSize = 10, isActive = true } = req.query;
-
-    // Verify client exists
-    const client = await prisma.client.findUnique({ where: { id: clientId } });
-    if (!client) {
-      return res.status(404).json({
-        success: false,
-        error: 'Not Found',
-        message: 'Client not found',
-      } as IApiResponse<null>);
-    }
+  const { params: { clientId }, query: { page, pageSize, isActive } } = validated(req, getProjectsByClientSchema);
 
-    const skip = (Number(page) - 1) * Number(pageSize);
-    const where: any = { clientId };
+  // Verify client exists
+  const client = await prisma.client.findUnique({ where: { id: clientId } });
+  if (!client) {
+    return res.status(404).json({
+      success: false,
+      error: 'Not Found',
+      message: 'Client not found',
+    } as IApiResponse<null>);
+  }
 
-    if (isActive !== 'all') {
-      where.isActive = isActive === 'true';
-    }
+  const skip = (page - 1) * pageSize;
+  const where: any = { clientId };
 
-    const [projects, total] = await Promise.all([
-      prisma.project.findMany({
-        where,
-        skip,
-        take: Number(pageSize),
-        orderBy: { createdAt: 'desc' },
-        include: {
-          client: {
-            select: { id: true, name: true },
-          },
-        },
-      }),
-      prisma.project.count({ where }),
-    ]);
+  if (isActive !== 'all') {
+    where.isActive = isActive === 'true';
+  }
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        projects,
-        pagination: {
-          page: Number(page),
-          pageSize: Number(pageSize),
-          total,
-          totalPages: Math.ceil(total / Number(pageSize)),
+  const [projects, total] = await Promise.all([
+    prisma.project.findMany({
+      where,
+      skip,
+      take: pageSize,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        client: {
+          select: { id: true, name: true },
         },
       },
-      message: 'Projects retrieved successfully',
-    };
+    }),
+    prisma.project.count({ where }),
+  ]);
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      projects,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    },
+    message: 'Projects retrieved successfully',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get projects error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -186,15 +164,7 @@ export const getProjectsByClient = async (req: Request, res: Response): Promise<
  */
 export const createProject = async (req: Request, res: Response): Promise<Response | void> => {
   try {
-    const { name, clientId, description, startDate, endDate } = req.body;
-
-    if (!name || !clientId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation Error',
-        message: 'Project name and clientId are required',
-      } as IApiResponse<null>);
-    }
+    const { name, clientId, description, startDate, endDate } = validated(req, createProjectSchema).body;
 
     // Verify client exists
     const client = await prisma.client.findUnique({ where: { id: clientId } });
@@ -211,8 +181,8 @@ export const createProject = async (req: Request, res: Response): Promise<Respon
         name,
         clientId,
         description,
-        startDate: startDate ? new Date(startDate) : undefined,
-        endDate: endDate ? new Date(endDate) : undefined,
+        startDate,
+        endDate,
       },
       include: {
         client: {
@@ -236,7 +206,7 @@ export const createProject = async (req: Request, res: Response): Promise<Respon
         message: 'Project name already exists for this client',
       } as IApiResponse<null>);
     }
-    console.error('Create project error:', error);
+    logger.error('Create project error', error);
     return res.status(500).json({
       success: false,
       error: 'Internal server error',
@@ -249,36 +219,28 @@ export const createProject = async (req: Request, res: Response): Promise<Respon
  * GET /clients-projects/for-selection
  */
 export const getClientsAndProjectsForSelection = async (_req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const clients = await prisma.client.findMany({
-      where: { isActive: true },
-      select: {
-        id: true,
-        name: true,
-        projects: {
-          where: { isActive: true },
-          select: {
-            id: true,
-            name: true,
-          },
+  const clients = await prisma.client.findMany({
+    where: { isActive: true },
+    select: {
+      id: true,
+      name: true,
+      projects: {
+        where: { isActive: true },
+        select: {
+          id: true,
+          name: true,
         },
       },
-      orderBy: { name: 'asc' },
-    });
+    },
+    orderBy: { name: 'asc' },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: clients,
-      message: 'Clients and projects retrieved successfully',
-    };
+  const response: IApiResponse<any> = {
+    success: true,
+    data: clients,
+    message: 'Clients and projects retrieved successfully',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get clients and projects error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
@@ -1,200 +1,128 @@
 import { Request, Response } from 'express';
 import { IApiResponse } from '../types';
+import { ForbiddenError } from '../utils/errors';
 import { getUserInfo } from '../utils/ownershipValidation';
+import { hasPermission } from '../utils/permissions';
 import * as amendmentService from '../services/contract/contractAmendmentService';
+import { validated } from '../middleware/validate';
+import { createAmendmentSchema, rejectAmendmentSchema } from '../schemas/contracts';
 
 /**
  * Create amendment
  */
 export const createAmendment = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { contractId } = req.params;
-    const { userId, role } = getUserInfo(req);
-    
-    // RBAC: Only HR and MANAGEMENT can create amendments
-    if (role !== 'HR' && role !== 'MANAGEMENT') {
-      return res.status(403).json({
-        success: false,
-        error: 'FORBIDDEN',
-        message: 'Only HR and MANAGEMENT can create amendments',
-      });
-    }
-    
-    const { amendmentType, title, description, previousValue, newValue, effectiveDate, notes } = req.body;
-    
-    if (!amendmentType || !title || !description || !effectiveDate) {
-      return res.status(400).json({
-        success: false,
-        error: 'VALIDATION_ERROR',
-        message: 'amendmentType, title, description, and effectiveDate are required',
-      });
-    }
-    
-    const amendment = await amendmentService.createAmendment({
-      contractId,
-      amendmentType,
-      title,
-      description,
-      previousValue,
-      newValue,
-      effectiveDate: new Date(effectiveDate),
-      requestedBy: userId,
-      notes,
-    });
-    
-    const response: IApiResponse<any> = {
-      success: true,
-      data: amendment,
-      message: 'Amendment created successfully',
-    };
-    
-    return res.status(201).json(response);
-  } catch (error: any) {
-    console.error('Error creating amendment:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'INTERNAL_SERVER_ERROR',
-      message: error.message || 'Failed to create amendment',
-    });
+  const { contractId } = req.params;
+  const { userId } = getUserInfo(req);
+  
+  // RBAC: Only contract:manage holders can create amendments
+  if (!hasPermission(req, 'contract:manage')) {
+    throw new ForbiddenError('Only HR and MANAGEMENT can create amendments');
   }
+  
+  const amendmentData = validated(req, createAmendmentSchema).body;
+  
+  const amendment = await amendmentService.createAmendment({
+    ...amendmentData,
+    contractId,
+    requestedBy: userId,
+  });
+  
+  const response: IApiResponse<any> = {
+    success: true,
+    data: amendment,
+    message: 'Amendment created successfully',
+  };
+  
+  return res.status(201).json(response);
 };
 
 /**
  * Approve amendment
  */
 export const approveAmendment = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const { userId, role } = getUserInfo(req);
-    
-    // RBAC: Only HR and MANAGEMENT can approve amendments
-    if (role !== 'HR' && role !== 'MANAGEMENT') {
-      return res.status(403).json({
-        success: false,
-        error: 'FORBIDDEN',
-        message: 'Only HR and MANAGEMENT can approve amendments',
-      });
-    }
-    
-    const amendment = await amendmentService.approveAmendment(id, userId);
-    
-    const response: IApiResponse<any> = {
-      success: true,
-      data: amendment,
-      message: 'Amendment approved successfully',
-    };
-    
-    return res.status(200).json(response);
-  } catch (error: any) {
-    console.error('Error approving amendment:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'INTERNAL_SERVER_ERROR',
-      message: error.message || 'Failed to approve amendment',
-    });
+  const { id } = req.params;
+  const { userId } = getUserInfo(req);
+  
+  // RBAC: Only contract:manage holders can approve amendments
+  if (!hasPermission(req, 'contract:manage')) {
+    throw new ForbiddenError('Only HR and MANAGEMENT can approve amendments');
   }
+  
+  const amendment = await amendmentService.approveAmendment(id, userId);
+  
+  const response: IApiResponse<any> = {
+    success: true,
+    data: amendment,
+    message: 'Amendment approved successfully',
+  };
+  
+  return res.status(200).json(response);
 };
 
 /**
  * Reject amendment
  */
 export const rejectAmendment = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const { userId, role } = getUserInfo(req);
-    
-    // RBAC: Only HR and MANAGEMENT can reject amendments
-    if (role !== 'HR' && role !== 'MANAGEMENT') {
-      return res.status(403).json({
-        success: false,
-        error: 'FORBIDDEN',
-        message: 'Only HR and MANAGEMENT can reject amendments',
-      });
-    }
-    
-    const { rejectionReason } = req.body;
-    
-    const amendment = await amendmentService.rejectAmendment(id, {
-      approvedBy: userId,
-      rejectionReason,
-    });
-    
-    const response: IApiResponse<any> = {
-      success: true,
-      data: amendment,
-      message: 'Amendment rejected',
-    };
-    
-    return res.status(200).json(response);
-  } catch (error: any) {
-    console.error('Error rejecting amendment:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'INTERNAL_SERVER_ERROR',
-      message: error.message || 'Failed to reject amendment',
-    });
+  const { id } = req.params;
+  const { userId } = getUserInfo(req);
+  
+  // RBAC: Only contract:manage holders can reject amendments
+  if (!hasPermission(req, 'contract:manage')) {
+    throw new ForbiddenError('Only HR and MANAGEMENT can reject amendments');
   }
+  
+  const { rejectionReason } = validated(req, rejectAmendmentSchema).body;
+  
+  const amendment = await amendmentService.rejectAmendment(id, {
+    approvedBy: userId,
+    rejectionReason,
+  });
+  
+  const response: IApiResponse<any> = {
+    success: true,
+    data: amendment,
+    message: 'Amendment rejected',
+  };
+  
+  return res.status(200).json(response);
 };
 
 /**
  * Apply amendment
  */
 export const applyAmendment = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const { role } = getUserInfo(req);
-    
-    // RBAC: Only HR and MANAGEMENT can apply amendments
-    if (role !== 'HR' && role !== 'MANAGEMENT') {
-      return res.status(403).json({
-        success: false,
-        error: 'FORBIDDEN',
-        message: 'Only HR and MANAGEMENT can apply amendments',
-      });
-    }
-    
-    const amendment = await amendmentService.applyAmendment(id);
-    
-    const response: IApiResponse<any> = {
-      success: true,
-      data: amendment,
-      message: 'Amendment applied successfully',
-    };
-    
-    return res.status(200).json(response);
-  } catch (error: any) {
-    console.error('Error applying amendment:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'INTERNAL_SERVER_ERROR',
-      message: error.message || 'Failed to apply amendment',
-    });
+  const { id } = req.params;
+  
+  // RBAC: Only contract:manage holders can apply amendments
+  if (!hasPermission(req, 'contract:manage')) {
+    throw new ForbiddenError('Only HR and MANAGEMENT can apply amendments');
   }
+  
+  const amendment = await amendmentService.applyAmendment(id);
+  
+  const response: IApiResponse<any> = {
+    success: true,
+    data: amendment,
+    message: 'Amendment applied successfully',
+  };
+  
+  return res.status(200).json(response);
 };
 
 /**
  * Get amendments for a contract
  */
 export const getAmendments = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { contractId } = req.params;
-    
-    const amendments = await amendmentService.getAmendmentHistory(contractId);
-    
-    const response: IApiResponse<any[]> = {
-      success: true,
-      data: amendments,
-      message: 'Amendments retrieved successfully',
-    };
-    
-    return res.status(200).json(response);
-  } catch (error: any) {
-    console.error('Error fetching amendments:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'INTERNAL_SERVER_ERROR',
-      message: error.message || 'Failed to retrieve amendments',
-    });
-  }
+  const { contractId } = req.params;
+  
+  const amendments = await amendmentService.getAmendmentHistory(contractId);
+  
+  const response: IApiResponse<any[]> = {
+    success: true,
+    data: amendments,
+    message: 'Amendments retrieved successfully',
+  };
+  
+  return res.status(200).json(response);
 };
 
@@ -0,0 +1,494 @@
+import { Request, Response } from 'express';
+import { PayrollStatus } from '@prisma/client';
+import { prisma } from '../index';
+import { IApiResponse } from '../types';
+import { getUserInfo } from '../utils/ownershipValidation';
+import {
+  calculateFinalSettlement,
+  buildSettlementData,
+  applySettlementItems,
+  EDITABLE_SETTLEMENT_STATUSES,
+} from '../services/finalSettlementService';
+import { validated } from '../middleware/validate';
+import {
+  approveSettlementBankPaymentSchema,
+  createFinalSettlementSchema,
+  getFinalSettlementsSchema,
+  putSettlementOnHoldSchema,
+  rejectSettlementSchema,
+  uploadSettlementToBankSchema,
+} from '../schemas/finalSettlements';
+
+const settlementInclude = {
+  employee: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      employeeId: true,
+      designation: true,
+      joinDate: true,
+      terminationDate: true,
+      terminationLastWorkingDay: true,
+      terminationReason: true,
+    },
+  },
+};
+
+const sendCalculationError = (res: Response, status: 'not_found' | 'not_terminated'): Response => {
+  if (status === 'not_found') {
+    return res.status(404).json({
+      success: false,
+      error: 'Employee not found',
+    } as IApiResponse<null>);
+  }
+  return res.status(400).json({
+    success: false,
+    error: 'Employee has no termination date or last working day recorded',
+  } as IApiResponse<null>);
+};
+
+/**
+ * Preview the final settlement of a terminated employee (nothing is saved)
+ * GET /final-settlements/preview/:employeeId
+ */
+export const previewFinalSettlement = async (req: Request, res: Response): Promise<Response | void> => {
+  const { employeeId } = req.params;
+
+  const result = await calculateFinalSettlement(employeeId);
+  if (result.status !== 'calculated') {
+    return sendCalculationError(res, result.status);
+  }
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: result.calculation,
+    message: 'Final settlement calculated successfully',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Create (or recalculate) the final settlement of a terminated employee
+ * POST /final-settlements
+ * Body: { employeeId }
+ * Recalculation is only allowed while the settlement is PENDING or ON_HOLD
+ */
+export const createFinalSettlement = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { employeeId } = validated(req, createFinalSettlementSchema).body;
+
+  const existing = await prisma.finalSettlement.findUnique({
+    where: { employeeId },
+  });
+
+  if (existing && !EDITABLE_SETTLEMENT_STATUSES.includes(existing.status)) {
+    return res.status(400).json({
+      success: false,
+      error: `Cannot recalculate settlement with status: ${existing.status}. Expected status: PENDING or ON_HOLD`,
+    } as IApiResponse<null>);
+  }
+
+  const result = await calculateFinalSettlement(employeeId);
+  if (result.status !== 'calculated') {
+    return sendCalculationError(res, result.status);
+  }
+
+  const data = buildSettlementData(result.calculation);
+
+  const settlement = existing
+    ? await prisma.finalSettlement.update({
+        where: { id: existing.id },
+        data: { ...data, updatedBy: userId },
+        include: settlementInclude,
+      })
+    : await prisma.finalSettlement.create({
+        data: { ...data, employeeId, createdBy: userId, updatedBy: userId },
+        include: settlementInclude,
+      });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: settlement,
+    message: existing ? 'Final settlement recalculated' : 'Final settlement created',
+  };
+
+  return res.status(existing ? 200 : 201).json(response);
+};
+
+/**
+ * Get final settlements with filters and pagination
+ * GET /final-settlements
+ * Query: page, pageSize, status, employeeId
+ */
+export const getFinalSettlements = async (req: Request, res: Response): Promise<Response | void> => {
+  const { page, pageSize, status, employeeId } = validated(req, getFinalSettlementsSchema).query;
+
+  const skip = (page - 1) * pageSize;
+  const where: any = {};
+  if (status) where.status = status;
+  if (employeeId) where.employeeId = employeeId;
+
+  const [settlements, total] = await Promise.all([
+    prisma.finalSettlement.findMany({
+      where,
+      skip,
+      take: pageSize,
+      include: settlementInclude,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.finalSettlement.count({ where }),
+  ]);
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: settlements,
+    meta: {
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    },
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Get single final settlement by ID
+ * GET /final-settlements/:id
+ */
+export const getFinalSettlementById = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = req.params;
+
+  const settlement = await prisma.finalSettlement.findUnique({
+    where: { id },
+    include: settlementInclude,
+  });
+
+  if (!settlement) {
+    return res.status(404).json({
+      success: false,
+      error: 'Final settlement not found',
+    } as IApiResponse<null>);
+  }
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: settlement,
+    message: 'Final settlement retrieved successfully',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Finance Approval - Stage 1
+ * POST /final-settlements/:id/finance-approve
+ * Access: FINANCE role only
+ * Action: PENDING/ON_HOLD → FINANCE_APPROVED
+ */
+export const financeApproveSettlement = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = req.params;
+  const { userId } = getUserInfo(req);
+
+  const settlement = await prisma.finalSettlement.findUnique({ where: { id } });
+
+  if (!settlement) {
+    return res.status(404).json({
+      success: false,
+      error: 'Final settlement not found',
+    } as IApiResponse<null>);
+  }
+
+  if (settlement.status !== PayrollStatus.PENDING && settlement.status !== PayrollStatus.ON_HOLD) {
+    return res.status(400).json({
+      success: false,
+      error: `Cannot approve settlement with status: ${settlement.status}. Expected status: PENDING or ON_HOLD`,
+    } as IApiResponse<null>);
+  }
+
+  const updated = await prisma.finalSettlement.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.FINANCE_APPROVED,
+      financeApprovedAt: new Date(),
+      financeApprovedBy: userId,
+      onHoldAt: null,
+      onHoldBy: null,
+      onHoldReason: null,
+      updatedBy: userId,
+    },
+    include: settlementInclude,
+  });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: updated,
+    message: 'Final settlement approved by Finance',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Management Approval - Stage 2
+ * POST /final-settlements/:id/management-approve
+ * Access: MANAGEMENT role only
+ * Action: FINANCE_APPROVED → MANAGEMENT_APPROVED
+ */
+export const managementApproveSettlement = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = req.params;
+  const { userId } = getUserInfo(req);
+
+  const settlement = await prisma.finalSettlement.findUnique({ where: { id } });
+
+  if (!settlement) {
+    return res.status(404).json({
+      success: false,
+      error: 'Final settlement not found',
+    } as IApiResponse<null>);
+  }
+
+  if (settlement.status !== PayrollStatus.FINANCE_APPROVED) {
+    return res.status(400).json({
+      success: false,
+      error: `Cannot approve settlement with status: ${settlement.status}. Expected status: FINANCE_APPROVED`,
+    } as IApiResponse<null>);
+  }
+
+  const updated = await prisma.finalSettlement.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.MANAGEMENT_APPROVED,
+      managementApprovedAt: new Date(),
+      managementApprovedBy: userId,
+      updatedBy: userId,
+    },
+    include: settlementInclude,
+  });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: updated,
+    message: 'Final settlement approved by Management',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Upload to Bank - Stage 3
+ * POST /final-settlements/:id/upload-to-bank
+ * Body: { bankReference?: string }
+ * Access: FINANCE role only
+ * Action: MANAGEMENT_APPROVED → UPLOADED_TO_BANK
+ */
+export const uploadSettlementToBank = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { bankReference } } = validated(req, uploadSettlementToBankSchema);
+  const { userId } = getUserInfo(req);
+
+  const settlement = await prisma.finalSettlement.findUnique({ where: { id } });
+
+  if (!settlement) {
+    return res.status(404).json({
+      success: false,
+      error: 'Final settlement not found',
+    } as IApiResponse<null>);
+  }
+
+  if (settlement.status !== PayrollStatus.MANAGEMENT_APPROVED) {
+    return res.status(400).json({
+      success: false,
+      error: `Cannot upload settlement with status: ${settlement.status}. Expected status: MANAGEMENT_APPROVED`,
+    } as IApiResponse<null>);
+  }
+
+  const updated = await prisma.finalSettlement.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.UPLOADED_TO_BANK,
+      uploadedToBankAt: new Date(),
+      uploadedToBankBy: userId,
+      bankUploadReference: bankReference || null,
+      updatedBy: userId,
+    },
+    include: settlementInclude,
+  });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: updated,
+    message: 'Final settlement uploaded to bank',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Approve Bank Payment - Stage 4 (Final)
+ * POST /final-settlements/:id/approve-bank-payment
+ * Body: { paymentReference?: string }
+ * Access: MANAGEMENT role only
+ * Action: UPLOADED_TO_BANK → BANK_PAYMENT_APPROVED; included bonuses, deductions and
+ * reimbursements are marked as paid so payroll does not pick them up again
+ */
+export const approveSettlementBankPayment = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { paymentReference } } = validated(req, approveSettlementBankPaymentSchema);
+  const { userId } = getUserInfo(req);
+
+  const settlement = await prisma.finalSettlement.findUnique({ where: { id } });
+
+  if (!settlement) {
+    return res.status(404).json({
+      success: false,
+      error: 'Final settlement not found',
+    } as IApiResponse<null>);
+  }
+
+  if (settlement.status !== PayrollStatus.UPLOADED_TO_BANK) {
+    return res.status(400).json({
+      success: false,
+      error: `Cannot approve bank payment with status: ${settlement.status}. Expected status: UPLOADED_TO_BANK`,
+    } as IApiResponse<null>);
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await applySettlementItems(tx, settlement, userId);
+
+    return tx.finalSettlement.update({
+      where: { id },
+      data: {
+        status: PayrollStatus.BANK_PAYMENT_APPROVED,
+        bankPaymentApprovedAt: new Date(),
+        bankPaymentApprovedBy: userId,
+        bankPaymentReference: paymentReference || null,
+        paidDate: new Date(),
+        updatedBy: userId,
+      },
+      include: settlementInclude,
+    });
+  });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: updated,
+    message: 'Final settlement marked as paid',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Reject Final Settlement - returns to PENDING for Finance to recalculate
+ * POST /final-settlements/:id/reject
+ * Body: { rejectionReason: string }
+ * Access: MANAGEMENT role only (Finance uses "On Hold" instead)
+ */
+export const rejectSettlement = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { rejectionReason } } = validated(req, rejectSettlementSchema);
+  const { userId } = getUserInfo(req);
+
+  const settlement = await prisma.finalSettlement.findUnique({ where: { id } });
+
+  if (!settlement) {
+    return res.status(404).json({
+      success: false,
+      error: 'Final settlement not found',
+    } as IApiResponse<null>);
+  }
+
+  if (settlement.status === PayrollStatus.BANK_PAYMENT_APPROVED) {
+    return res.status(400).json({
+      success: false,
+      error: 'Cannot reject a paid settlement',
+    } as IApiResponse<null>);
+  }
+
+  const updated = await prisma.finalSettlement.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.PENDING,
+      rejectedAt: new Date(),
+      rejectedBy: userId,
+      rejectionReason,
+      rejectedAtStage: settlement.status,
+      financeApprovedAt: null,
+      financeApprovedBy: null,
+      managementApprovedAt: null,
+      managementApprovedBy: null,
+      uploadedToBankAt: null,
+      uploadedToBankBy: null,
+      bankUploadReference: null,
+      onHoldAt: null,
+      onHoldBy: null,
+      onHoldReason: null,
+      updatedBy: userId,
+    },
+    include: settlementInclude,
+  });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: updated,
+    message: 'Final settlement rejected and returned to PENDING for Finance to fix',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Put Final Settlement On Hold
+ * POST /final-settlements/:id/on-hold
+ * Body: { onHoldReason: string }
+ * Access: FINANCE, MANAGEMENT roles
+ */
+export const putSettlementOnHold = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { onHoldReason } } = validated(req, putSettlementOnHoldSchema);
+  const { userId } = getUserInfo(req);
+
+  const settlement = await prisma.finalSettlement.findUnique({ where: { id } });
+
+  if (!settlement) {
+    return res.status(404).json({
+      success: false,
+      error: 'Final settlement not found',
+    } as IApiResponse<null>);
+  }
+
+  if (settlement.status === PayrollStatus.BANK_PAYMENT_APPROVED) {
+    return res.status(400).json({
+      success: false,
+      error: 'Cannot put a paid settlement on hold',
+    } as IApiResponse<null>);
+  }
+
+  const existingHistory = (settlement.onHoldHistory as any[]) || [];
+  const updatedHistory = [
+    ...existingHistory,
+    { at: new Date().toISOString(), by: userId, reason: onHoldReason },
+  ];
+
+  const updated = await prisma.finalSettlement.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.ON_HOLD,
+      onHoldAt: new Date(),
+      onHoldBy: userId,
+      onHoldReason: onHoldReason,
+      onHoldHistory: updatedHistory,
+      updatedBy: userId,
+    },
+    include: settlementInclude,
+  });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: updated,
+    message: 'Final settlement put on hold',
+  };
+
+  return res.status(200).json(response);
+};
@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import { IApiResponse, IPaginatedResponse } from '../types';
+import { getUserInfo } from '../utils/ownershipValidation';
+import { getJobDefinition, getJobsWithLastRun, getJobRuns as getJobRunsService, startJobRun } from '../jobs/jobRunner';
+import { logger } from '../utils/logger';
+import { validated } from '../middleware/validate';
+import { getJobRunsSchema, triggerJobSchema } from '../schemas/jobs';
+
+/**
+ * Get all registered jobs with their last run
+ * GET /jobs
+ */
+export const getJobs = async (_req: Request, res: Response): Promise<Response | void> => {
+  const jobs = await getJobsWithLastRun();
+
+  const response: IApiResponse<any[]> = {
+    success: true,
+    data: jobs,
+    message: 'Jobs retrieved successfully',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Get run history for a job
+ * GET /jobs/:name/runs?page=1&pageSize=20&status=FAILED
+ */
+export const getJobRuns = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { name }, query: { page, pageSize, status } } = validated(req, getJobRunsSchema);
+
+  if (!getJobDefinition(name)) {
+    return res.status(404).json({
+      success: false,
+      error: 'NOT_FOUND',
+      message: `Job "${name}" not found`,
+    });
+  }
+
+  const result = await getJobRunsService(name, {
+    page,
+    pageSize,
+    status,
+  });
+
+  const response: IApiResponse<IPaginatedResponse<any>> = {
+    success: true,
+    data: {
+      data: result.runs,
+      total: result.total,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    },
+    message: 'Job runs retrieved successfully',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Trigger a job manually
+ * POST /jobs/:name/run
+ * Body: { parameters?: { ... } }
+ *
+ * The job runs in the background; poll GET /jobs/:name/runs for the outcome.
+ */
+export const triggerJob = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { name }, body: { parameters } } = validated(req, triggerJobSchema);
+  const { userId } = getUserInfo(req);
+
+  const definition = getJobDefinition(name);
+  if (!definition) {
+    return res.status(404).json({
+      success: false,
+      error: 'NOT_FOUND',
+      message: `Job "${name}" not found`,
+    });
+  }
+
+  const unknownParameters = Object.keys(parameters || {}).filter(
+    (key) => !definition.parameters || !(key in definition.parameters)
+  );
+  if (unknownParameters.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'VALIDATION_ERROR',
+      message: `Unknown parameters for job "${name}": ${unknownParameters.join(', ')}`,
+    });
+  }
+
+  const { run, completion } = await startJobRun(name, {
+    trigger: 'MANUAL',
+    parameters: parameters || {},
+    triggeredBy: userId,
+  });
+  // Failures are recorded on the JobRun row
+  completion.catch((error) => logger.error(`Error finishing manual run of "${name}"`, error));
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: run,
+    message: 'Job started',
+  };
+
+  return res.status(202).json(response);
+};
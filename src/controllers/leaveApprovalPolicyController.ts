@@ -0,0 +1,147 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { IApiResponse } from '../types';
+import { getUserInfo } from '../utils/ownershipValidation';
+import { BUILT_IN_LEAVE_APPROVAL_POLICIES, DEFAULT_LEAVE_APPROVAL_STEPS } from '../services/leaveApprovalService';
+import { validated } from '../middleware/validate';
+import {
+  createLeaveApprovalPolicySchema,
+  getLeaveApprovalPoliciesSchema,
+  updateLeaveApprovalPolicySchema,
+} from '../schemas/leave';
+
+/**
+ * Get leave approval policies
+ * GET /leave-requests/approval-policies
+ * Query params: leaveType, includeInactive
+ * Also returns the built-in defaults used for leave types without configured policies
+ */
+export const getLeaveApprovalPolicies = async (req: Request, res: Response): Promise<Response | void> => {
+  const { leaveType, includeInactive } = validated(req, getLeaveApprovalPoliciesSchema).query;
+
+  const where: any = {};
+  if (leaveType) {
+    where.leaveType = leaveType;
+  }
+  if (!includeInactive) {
+    where.isActive = true;
+  }
+
+  const policies = await prisma.leaveApprovalPolicy.findMany({
+    where,
+    orderBy: [{ leaveType: 'asc' }, { minDays: 'asc' }],
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      policies,
+      builtInDefaults: BUILT_IN_LEAVE_APPROVAL_POLICIES,
+      fallbackSteps: DEFAULT_LEAVE_APPROVAL_STEPS,
+    },
+    message: 'Leave approval policies retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Create a leave approval policy
+ * POST /leave-requests/approval-policies
+ * Body: { leaveType, minDays?, steps, description? }
+ */
+export const createLeaveApprovalPolicy = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { leaveType, minDays: minDaysNum, steps, description } = validated(req, createLeaveApprovalPolicySchema).body;
+
+  const existing = await prisma.leaveApprovalPolicy.findUnique({
+    where: { leaveType_minDays: { leaveType, minDays: minDaysNum } },
+  });
+
+  if (existing) {
+    return res.status(400).json({
+      success: false,
+      error: `A ${leaveType} approval policy for requests over ${minDaysNum} days already exists`,
+    } as IApiResponse<null>);
+  }
+
+  const policy = await prisma.leaveApprovalPolicy.create({
+    data: {
+      leaveType,
+      minDays: minDaysNum,
+      steps,
+      description: description || null,
+      createdBy: userId,
+    },
+  });
+
+  return res.status(201).json({
+    success: true,
+    data: policy,
+    message: 'Leave approval policy created successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Update a leave approval policy (applies to requests created afterwards)
+ * PATCH /leave-requests/approval-policies/:id
+ * Body: { steps?, description?, isActive? }
+ */
+export const updateLeaveApprovalPolicy = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { steps, description, isActive } } = validated(req, updateLeaveApprovalPolicySchema);
+  const { userId } = getUserInfo(req);
+
+  const existing = await prisma.leaveApprovalPolicy.findUnique({
+    where: { id },
+  });
+
+  if (!existing) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave approval policy not found',
+    } as IApiResponse<null>);
+  }
+
+  const updated = await prisma.leaveApprovalPolicy.update({
+    where: { id },
+    data: {
+      ...(steps !== undefined && { steps }),
+      ...(description !== undefined && { description }),
+      ...(isActive !== undefined && { isActive }),
+      updatedBy: userId,
+    },
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: 'Leave approval policy updated successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Delete a leave approval policy
+ * DELETE /leave-requests/approval-policies/:id
+ * Pending requests keep the chain they were created with
+ */
+export const deleteLeaveApprovalPolicy = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = req.params;
+
+  const existing = await prisma.leaveApprovalPolicy.findUnique({
+    where: { id },
+  });
+
+  if (!existing) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave approval policy not found',
+    } as IApiResponse<null>);
+  }
+
+  await prisma.leaveApprovalPolicy.delete({
+    where: { id },
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Leave approval policy deleted successfully',
+  } as IApiResponse<null>);
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, LeaveApprovalStep, LeaveType } from '@prisma/client';
+import { prisma } from '../index';
 import { startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
 import {
   validateAnnualLeave,
@@ -12,10 +13,34 @@ import {
   getOrCreateLeaveSummary,
 } from '../utils/leaveValidation';
 import { uploadFileToSpaces } from '../utils/fileUpload';
-import { getUserInfo, isPrivilegedRole } from '../utils/ownershipValidation';
+import { getUserInfo } from '../utils/ownershipValidation';
+import { hasPermission, Permission } from '../utils/permissions';
 import { sendLeaveRequestNotification } from '../utils/leaveEmailNotification';
-
-const prisma = new PrismaClient();
+import { schedulePayrollSyncForLeave } from '../services/payrollSyncService';
+import { buildTeamScopeFilter, canViewEmployeeRecords, getReportIds } from '../utils/reportingLine';
+import {
+  resolveLeaveApprovalSteps,
+  canActOnLeaveStep,
+  buildLeaveApprovalQueueFilter,
+  LEAVE_APPROVAL_STEP_LABELS,
+} from '../services/leaveApprovalService';
+import { logger } from '../utils/logger';
+import { validated } from '../middleware/validate';
+import {
+  approveLeaveRequestSchema,
+  createLeaveRequestSchema,
+  getApprovedOvertimeRequestsSchema,
+  getLeaveBalanceSchema,
+  getLeaveRequestsSchema,
+  getLeaveSummarySchema,
+  getPendingLeaveApprovalsSchema,
+  getYearlyManagementSchema,
+  rejectLeaveCancellationSchema,
+  rejectLeaveRequestSchema,
+  requestLeaveCancellationSchema,
+  uploadLeaveRequestDocumentSchema,
+  withdrawLeaveRequestSchema,
+} from '../schemas/leave';
 
 interface IApiResponse<T> {
   success: boolean;
@@ -27,173 +52,178 @@ interface IApiResponse<T> {
 /**
  * Get all leave requests with employee information
  * GET /leave-requests
- * Query params: page, pageSize, status, leaveType, employeeId, search
+ * Query params: page, pageSize, status, leaveType, employeeId, search, cancellationStatus
  */
 export const getLeaveRequests = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { userId, role } = getUserInfo(req);
-    const {
-      page = 1,
-      pageSize = 10,
-      status,
-      leaveType,
-      employeeId,
-      search,
-    } = req.query;
-
-    const pageNum = parseInt(page as string) || 1;
-    const pageSizeNum = parseInt(pageSize as string) || 10;
-    const skip = (pageNum - 1) * pageSizeNum;
-
-    // Build filter conditions
-    const where: any = {};
-
-    // RBAC: EMPLOYEE can only see their own leave requests
-    if (!isPrivilegedRole(role)) {
-      where.employeeId = userId;
-    } else {
-      // Privileged roles can filter by employeeId if provided
-      if (employeeId) {
-        where.employeeId = employeeId;
-      }
-    }
+  const { userId } = getUserInfo(req);
+  const {
+    page: pageNum,
+    pageSize: pageSizeNum,
+    status,
+    leaveType,
+    employeeId,
+    search,
+    cancellationStatus,
+  } = validated(req, getLeaveRequestsSchema).query;
+  const skip = (pageNum - 1) * pageSizeNum;
+
+  // Build filter conditions
+  const where: any = {};
+
+  // RBAC: EMPLOYEE sees their own leave requests plus those of their reports (line managers)
+  Object.assign(
+    where,
+    await buildTeamScopeFilter(
+      userId,
+      hasPermission(req, 'leave:read:all'),
+      'employeeId',
+      employeeId
+    )
+  );
+
+  if (status) {
+    where.status = status;
+  }
 
-    if (status) {
-      where.status = status;
-    }
+  if (leaveType) {
+    where.leaveType = leaveType;
+  }
 
-    if (leaveType) {
-      where.leaveType = leaveType;
-    }
+  if (cancellationStatus) {
+    where.cancellationStatus = cancellationStatus;
+  }
 
-    // Search by employee name or email
-    if (search) {
-      where.OR = [
-        {
-          employee: {
-            firstName: {
-              contains: search as string,
-              mode: 'insensitive',
-            },
-          },
-        },
-        {
-          employee: {
-            lastName: {
-              contains: search as string,
-              mode: 'insensitive',
-            },
+  // Search by employee name or email
+  if (search) {
+    where.OR = [
+      {
+        employee: {
+          firstName: {
+            contains: search,
+            mode: 'insensitive',
           },
         },
-        {
-          employee: {
-            email: {
-              contains: search as string,
-              mode: 'insensitive',
-            },
+      },
+      {
+        employee: {
+          lastName: {
+            contains: search,
+            mode: 'insensitive',
           },
         },
-      ];
-    }
-
-    // Get total count
-    const total = await prisma.leaveRequest.count({ where });
-
-    // Get leave requests with employee information and documents
-    const leaveRequests = await (prisma.leaveRequest.findMany as any)({
-      where,
-      skip,
-      take: pageSizeNum,
-      include: {
+      },
+      {
         employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
+          email: {
+            contains: search,
+            mode: 'insensitive',
           },
         },
-        documents: true,
-      },
-      orderBy: {
-        createdAt: 'desc',
       },
-    });
+    ];
+  }
 
-    // Fetch approver information for requests that have been approved/rejected
-    const approverIds = leaveRequests
-      .filter((req: any) => req.approvedBy)
-      .map((req: any) => req.approvedBy);
+  // Get total count
+  const total = await prisma.leaveRequest.count({ where });
 
-    let approversMap: { [key: string]: any } = {};
-    if (approverIds.length > 0) {
-      const uniqueApproverIds = Array.from(new Set(approverIds)) as string[]; // Remove duplicates
-      const approvers = await prisma.employee.findMany({
-        where: {
-          id: {
-            in: uniqueApproverIds,
-          },
-        },
+  // Get leave requests with employee information and documents
+  const leaveRequests = await (prisma.leaveRequest.findMany as any)({
+    where,
+    skip,
+    take: pageSizeNum,
+    include: {
+      employee: {
         select: {
           id: true,
           firstName: true,
           lastName: true,
+          email: true,
         },
-      });
-      approversMap = approvers.reduce((acc: any, approver: any) => {
-        acc[approver.id] = approver;
-        return acc;
-      }, {});
-    }
-
-    // Format response with all required fields
-    const formattedRequests = leaveRequests.map((request: any) => {
-      const approver = request.approvedBy ? approversMap[request.approvedBy] : null;
-
-      return {
-        id: request.id,
-        employeeName: `${request.employee.firstName} ${request.employee.lastName}`,
-        employeeId: request.employeeId,
-        leaveType: request.leaveType,
-        absenceCode: getAbsenceCode(request.leaveType),
-        startDate: request.startDate,
-        endDate: request.endDate,
-        totalDays: request.numberOfDays,
-        details: request.reason || '-',
-        status: request.status,
-        createdDate: request.createdAt,
-        approvedBy: approver ? {
-          id: approver.id,
-          name: `${approver.firstName} ${approver.lastName}`,
-        } : null,
-        approvalDate: request.approvalDate || null,
-        rejectionReason: request.rejectionReason || null,
-        documents: request.documents,
-      };
+      },
+      documents: true,
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+  // Fetch approver information for requests that have been approved/rejected
+  const approverIds = leaveRequests
+    .filter((req: any) => req.approvedBy)
+    .map((req: any) => req.approvedBy);
+
+  let approversMap: { [key: string]: any } = {};
+  if (approverIds.length > 0) {
+    const uniqueApproverIds = Array.from(new Set(approverIds)) as string[]; // Remove duplicates
+    const approvers = await prisma.employee.findMany({
+      where: {
+        id: {
+          in: uniqueApproverIds,
+        },
+      },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+      },
     });
+    approversMap = approvers.reduce((acc: any, approver: any) => {
+      acc[approver.id] = approver;
+      return acc;
+    }, {});
+  }
 
-    const totalPages = Math.ceil(total / pageSizeNum);
-
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        data: formattedRequests,
-        total,
-        page: pageNum,
-        pageSize: pageSizeNum,
-        totalPages,
-      },
-      message: 'Leave requests retrieved successfully',
+  // Supporting documents (often medical) are limited to the employee, their
+  // line managers and holders of leave:documents:read:all
+  const canReadAllDocuments = hasPermission(req, 'leave:documents:read:all');
+  const reportIds = canReadAllDocuments ? [] : await getReportIds(userId);
+  const canReadDocuments = (requestEmployeeId: string) =>
+    canReadAllDocuments || requestEmployeeId === userId || reportIds.includes(requestEmployeeId);
+
+  // Format response with all required fields
+  const formattedRequests = leaveRequests.map((request: any) => {
+    const approver = request.approvedBy ? approversMap[request.approvedBy] : null;
+
+    return {
+      id: request.id,
+      employeeName: `${request.employee.firstName} ${request.employee.lastName}`,
+      employeeId: request.employeeId,
+      leaveType: request.leaveType,
+      absenceCode: getAbsenceCode(request.leaveType),
+      startDate: request.startDate,
+      endDate: request.endDate,
+      totalDays: request.numberOfDays,
+      details: request.reason || '-',
+      status: request.status,
+      createdDate: request.createdAt,
+      approvedBy: approver ? {
+        id: approver.id,
+        name: `${approver.firstName} ${approver.lastName}`,
+      } : null,
+      approvalDate: request.approvalDate || null,
+      approvalSteps: request.approvalSteps,
+      currentApprovalStep: request.currentApprovalStep,
+      rejectionReason: request.rejectionReason || null,
+      ...formatCancellationDetails(request),
+      documents: canReadDocuments(request.employeeId) ? request.documents : [],
     };
+  });
+
+  const totalPages = Math.ceil(total / pageSizeNum);
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      data: formattedRequests,
+      total,
+      page: pageNum,
+      pageSize: pageSizeNum,
+      totalPages,
+    },
+    message: 'Leave requests retrieved successfully',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get leave requests error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -203,237 +233,224 @@ export const getLeaveRequests = async (req: Request, res: Response): Promise<Res
  * Access: HR, MANAGEMENT, FINANCE only
  */
 export const getLeaveSummary = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { role } = getUserInfo(req);
-    
-    // RBAC: Only privileged roles can see all employees' leave summaries
-    if (!isPrivilegedRole(role)) {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'You do not have permission to view leave summaries',
-      } as IApiResponse<null>);
-    }
+  // RBAC: Only leave:read:all holders can see all employees' leave summaries
+  if (!hasPermission(req, 'leave:read:all')) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You do not have permission to view leave summaries',
+    } as IApiResponse<null>);
+  }
 
-    const {
-      page = 1,
-      pageSize = 10,
-      status,
-      search,
-      departmentId,
-      year = new Date().getFullYear(),
-    } = req.query;
-
-    const pageNum = parseInt(page as string) || 1;
-    const pageSizeNum = parseInt(pageSize as string) || 10;
-    const skip = (pageNum - 1) * pageSizeNum;
-    const yearNum = parseInt(year as string) || new Date().getFullYear();
-
-    // Build filter conditions for employees
-    const where: any = {};
-
-    if (search) {
-      where.OR = [
-        {
-          firstName: {
-            contains: search as string,
-            mode: 'insensitive',
-          },
-        },
-        {
-          lastName: {
-            contains: search as string,
-            mode: 'insensitive',
-          },
+  const {
+    page: pageNum,
+    pageSize: pageSizeNum,
+    status,
+    search,
+    departmentId,
+    year: yearNum,
+  } = validated(req, getLeaveSummarySchema).query;
+
+  const skip = (pageNum - 1) * pageSizeNum;
+
+  // Build filter conditions for employees
+  const where: any = {};
+
+  if (search) {
+    where.OR = [
+      {
+        firstName: {
+          contains: search,
+          mode: 'insensitive',
         },
-        {
-          email: {
-            contains: search as string,
-            mode: 'insensitive',
-          },
+      },
+      {
+        lastName: {
+          contains: search,
+          mode: 'insensitive',
         },
-      ];
-    }
-
-    // Add status filter if provided (filter BEFORE pagination)
-    if (status) {
-      where.userStatus = status;
-    }
-
-    // Add department filter if provided
-    if (departmentId) {
-      where.departmentId = departmentId as string;
-    }
-
-    // Get total count of employees AFTER filtering (for correct pagination)
-    const totalCount = await prisma.employee.count({ where });
-
-    // Get employees with their leave summary (include gender for maternity leave filtering)
-    const employees = await prisma.employee.findMany({
-      where,
-      skip,
-      take: pageSizeNum,
-      orderBy: {
-        firstName: 'asc',
       },
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        email: true,
-        employeeId: true,
-        userStatus: true,
-        gender: true, // Include gender for maternity leave filtering
+      {
+        email: {
+          contains: search,
+          mode: 'insensitive',
+        },
       },
-    });
+    ];
+  }
 
-    // Get leave requests for calculating used leaves
-    let leaveRequests: any[] = [];
-    try {
-      leaveRequests = await prisma.leaveRequest.findMany({
-        where: {
-          status: 'APPROVED',
-        },
-      });
-    } catch (dbError: any) {
-      console.error('Error fetching leave requests in getLeaveSummary:', dbError);
-      // Continue with empty array if query fails
-      leaveRequests = [];
-    }
+  // Add status filter if provided (filter BEFORE pagination)
+  if (status) {
+    where.userStatus = status;
+  }
+
+  // Add department filter if provided
+  if (departmentId) {
+    where.departmentId = departmentId;
+  }
 
-    // Format response with leave summary
-    // Use a single query to get all leave summaries instead of Promise.all
-    const allLeaveSummaries = await prisma.leaveSummary.findMany({
+  // Get total count of employees AFTER filtering (for correct pagination)
+  const totalCount = await prisma.employee.count({ where });
+
+  // Get employees with their leave summary (include gender for maternity leave filtering)
+  const employees = await prisma.employee.findMany({
+    where,
+    skip,
+    take: pageSizeNum,
+    orderBy: {
+      firstName: 'asc',
+    },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      employeeId: true,
+      userStatus: true,
+      gender: true, // Include gender for maternity leave filtering
+    },
+  });
+
+  // Get leave requests for calculating used leaves
+  let leaveRequests: any[] = [];
+  try {
+    leaveRequests = await prisma.leaveRequest.findMany({
       where: {
-        employeeId: { in: employees.map((e: any) => e.id) },
-        year: yearNum,
+        status: 'APPROVED',
       },
     });
-    const leaveSummaryMap = new Map(allLeaveSummaries.map((ls: any) => [ls.employeeId, ls]));
-
-    const summaryData = employees.map((employee: any) => {
-      // Get leave summary from map
-      const leaveSummary = leaveSummaryMap.get(employee.id);
-      
-      // Only include maternity leave for female employees
-      const isFemaleEmployee = employee.gender?.toLowerCase() === 'female' || employee.gender?.toLowerCase() === 'f';
-
-      // Calculate used leaves from approved requests
-      const employeeLeaves = leaveRequests.filter(
-        (lr) => lr.employeeId === employee.id
-      );
-
-      const annualUsed = employeeLeaves
-        .filter((lr) => lr.leaveType === 'ANNUAL')
-        .reduce((sum, lr) => sum + lr.numberOfDays, 0);
-
-      const sickUsed = employeeLeaves
-        .filter((lr) => lr.leaveType === 'SICK')
-        .reduce((sum, lr) => sum + lr.numberOfDays, 0);
-
-      const maternityUsed = employeeLeaves
-        .filter((lr) => lr.leaveType === 'MATERNITY')
-        .reduce((sum, lr) => sum + lr.numberOfDays, 0);
-
-      const emergencyUsed = employeeLeaves
-        .filter((lr) => lr.leaveType === 'EMERGENCY')
-        .reduce((sum, lr) => sum + lr.numberOfDays, 0);
-
-      // TOIL and WFH usage is calculated from leaveSummary, not from leave requests
-
-      // Calculate remaining leaves using correct schema fields
-      const annualAllowance = leaveSummary?.annualLeaveEntitlement ?? 0;
-      const annualCarriedOver = leaveSummary?.annualLeaveCarriedOver ?? 0;
-      const annualAvailable = annualAllowance + annualCarriedOver;
-      const annualRemaining = annualAvailable - annualUsed;
-
-      // Sick leave: Total is fullPay + halfPay + unpaid (MOHRE: 90 days total)
-      const sickAllowance = (leaveSummary?.sickLeaveFullPay ?? 15) + 
-                           (leaveSummary?.sickLeaveHalfPay ?? 30) + 
-                           (leaveSummary?.sickLeaveUnpaid ?? 45);
-      const sickRemaining = sickAllowance - sickUsed;
-
-      // Maternity leave
-      const maternityAllowance = leaveSummary?.maternityLeaveEntitlement ?? 60;
-      const maternityRemaining = maternityAllowance - maternityUsed;
-
-      // Emergency leave
-      const emergencyAllowance = leaveSummary?.emergencyLeaveEntitlement ?? 5;
-      const emergencyRemaining = emergencyAllowance - emergencyUsed;
-
-      // TOIL: Calculate from hours (1 day = 8 hours)
-      const toilHoursAvailable = leaveSummary?.toilHoursAvailable ?? 0;
-      const toilHoursUsed = leaveSummary?.toilHoursUsed ?? 0;
-      const toilAllowance = Math.floor(toilHoursAvailable / 8);
-      const toilUsedDays = Math.floor(toilHoursUsed / 8);
-      const toilRemaining = toilAllowance - toilUsedDays;
-
-      // WFH: Monthly limit
-      const wfhAllowance = leaveSummary?.wfhMonthlyLimit ?? 4;
-      const wfhRemaining = wfhAllowance - (leaveSummary?.wfhUsedThisMonth ?? 0);
-
-      // Only include maternity leave for female employees (check if already calculated above)
-      const effectiveMaternityUsed = isFemaleEmployee ? maternityUsed : 0;
-      const effectiveMaternityAllowance = isFemaleEmployee ? maternityAllowance : 0;
-      const effectiveMaternityRemaining = isFemaleEmployee ? maternityRemaining : 0;
-
-      const totalUsed = annualUsed + sickUsed + effectiveMaternityUsed + emergencyUsed + toilUsedDays + (leaveSummary?.wfhUsedThisMonth ?? 0);
-      const totalAllowance = annualAvailable + sickAllowance + effectiveMaternityAllowance + emergencyAllowance + toilAllowance + wfhAllowance;
-      const totalRemaining = totalAllowance - totalUsed;
-
-      return {
-        employeeName: `${employee.firstName} ${employee.lastName}`,
-        employeeId: employee.employeeId,
-        status: employee.userStatus,
-        annualLeaveTaken: annualUsed,
-        annualLeaveAllowance: annualAvailable, // Include carried over
-        annualLeaveRemaining: annualRemaining,
-        sickLeaveTaken: sickUsed,
-        sickLeaveAllowance: sickAllowance,
-        sickLeaveRemaining: sickRemaining,
-        maternityLeaveTaken: effectiveMaternityUsed,
-        maternityLeaveAllowance: effectiveMaternityAllowance,
-        maternityLeaveRemaining: effectiveMaternityRemaining,
-        emergencyLeaveTaken: emergencyUsed,
-        emergencyLeaveAllowance: emergencyAllowance,
-        emergencyLeaveRemaining: emergencyRemaining,
-        toilLeaveTaken: toilUsedDays,
-        toilLeaveAllowance: toilAllowance,
-        toilLeaveRemaining: toilRemaining,
-        wfhLeaveTaken: leaveSummary?.wfhUsedThisMonth ?? 0,
-        wfhLeaveAllowance: wfhAllowance,
-        wfhLeaveRemaining: wfhRemaining,
-        totalLeaveTaken: totalUsed,
-        totalLeaveAllowance: totalAllowance,
-        totalLeaveRemaining: totalRemaining,
-        year: yearNum,
-      };
-    });
-
-    // No need to filter again - already filtered in employee query
-    // Calculate pagination based on total count
-    const totalPages = Math.ceil(totalCount / pageSizeNum);
+  } catch (dbError: any) {
+    logger.error('Error fetching leave requests in getLeaveSummary', dbError);
+    // Continue with empty array if query fails
+    leaveRequests = [];
+  }
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        data: summaryData,
-        total: totalCount,
-        page: pageNum,
-        pageSize: pageSizeNum,
-        totalPages,
-      },
-      message: 'Leave summary retrieved successfully',
+  // Format response with leave summary
+  // Use a single query to get all leave summaries instead of Promise.all
+  const allLeaveSummaries = await prisma.leaveSummary.findMany({
+    where: {
+      employeeId: { in: employees.map((e: any) => e.id) },
+      year: yearNum,
+    },
+  });
+  const leaveSummaryMap = new Map(allLeaveSummaries.map((ls: any) => [ls.employeeId, ls]));
+
+  const summaryData = employees.map((employee: any) => {
+    // Get leave summary from map
+    const leaveSummary = leaveSummaryMap.get(employee.id);
+    
+    // Only include maternity leave for female employees
+    const isFemaleEmployee = employee.gender?.toLowerCase() === 'female' || employee.gender?.toLowerCase() === 'f';
+
+    // Calculate used leaves from approved requests
+    const employeeLeaves = leaveRequests.filter(
+      (lr) => lr.employeeId === employee.id
+    );
+
+    const annualUsed = employeeLeaves
+      .filter((lr) => lr.leaveType === 'ANNUAL')
+      .reduce((sum, lr) => sum + lr.numberOfDays, 0);
+
+    const sickUsed = employeeLeaves
+      .filter((lr) => lr.leaveType === 'SICK')
+      .reduce((sum, lr) => sum + lr.numberOfDays, 0);
+
+    const maternityUsed = employeeLeaves
+      .filter((lr) => lr.leaveType === 'MATERNITY')
+      .reduce((sum, lr) => sum + lr.numberOfDays, 0);
+
+    const emergencyUsed = employeeLeaves
+      .filter((lr) => lr.leaveType === 'EMERGENCY')
+      .reduce((sum, lr) => sum + lr.numberOfDays, 0);
+
+    // TOIL and WFH usage is calculated from leaveSummary, not from leave requests
+
+    // Calculate remaining leaves using correct schema fields
+    const annualAllowance = leaveSummary?.annualLeaveEntitlement ?? 0;
+    const annualCarriedOver = leaveSummary?.annualLeaveCarriedOver ?? 0;
+    const annualAvailable = annualAllowance + annualCarriedOver;
+    const annualRemaining = annualAvailable - annualUsed;
+
+    // Sick leave: Total is fullPay + halfPay + unpaid (MOHRE: 90 days total)
+    const sickAllowance = (leaveSummary?.sickLeaveFullPay ?? 15) + 
+                         (leaveSummary?.sickLeaveHalfPay ?? 30) + 
+                         (leaveSummary?.sickLeaveUnpaid ?? 45);
+    const sickRemaining = sickAllowance - sickUsed;
+
+    // Maternity leave
+    const maternityAllowance = leaveSummary?.maternityLeaveEntitlement ?? 60;
+    const maternityRemaining = maternityAllowance - maternityUsed;
+
+    // Emergency leave
+    const emergencyAllowance = leaveSummary?.emergencyLeaveEntitlement ?? 5;
+    const emergencyRemaining = emergencyAllowance - emergencyUsed;
+
+    // TOIL: Calculate from hours (1 day = 8 hours)
+    const toilHoursAvailable = leaveSummary?.toilHoursAvailable ?? 0;
+    const toilHoursUsed = leaveSummary?.toilHoursUsed ?? 0;
+    const toilAllowance = Math.floor(toilHoursAvailable / 8);
+    const toilUsedDays = Math.floor(toilHoursUsed / 8);
+    const toilRemaining = toilAllowance - toilUsedDays;
+
+    // WFH: Monthly limit
+    const wfhAllowance = leaveSummary?.wfhMonthlyLimit ?? 4;
+    const wfhRemaining = wfhAllowance - (leaveSummary?.wfhUsedThisMonth ?? 0);
+
+    // Only include maternity leave for female employees (check if already calculated above)
+    const effectiveMaternityUsed = isFemaleEmployee ? maternityUsed : 0;
+    const effectiveMaternityAllowance = isFemaleEmployee ? maternityAllowance : 0;
+    const effectiveMaternityRemaining = isFemaleEmployee ? maternityRemaining : 0;
+
+    const totalUsed = annualUsed + sickUsed + effectiveMaternityUsed + emergencyUsed + toilUsedDays + (leaveSummary?.wfhUsedThisMonth ?? 0);
+    const totalAllowance = annualAvailable + sickAllowance + effectiveMaternityAllowance + emergencyAllowance + toilAllowance + wfhAllowance;
+    const totalRemaining = totalAllowance - totalUsed;
+
+    return {
+      employeeName: `${employee.firstName} ${employee.lastName}`,
+      employeeId: employee.employeeId,
+      status: employee.userStatus,
+      annualLeaveTaken: annualUsed,
+      annualLeaveAllowance: annualAvailable, // Include carried over
+      annualLeaveRemaining: annualRemaining,
+      sickLeaveTaken: sickUsed,
+      sickLeaveAllowance: sickAllowance,
+      sickLeaveRemaining: sickRemaining,
+      maternityLeaveTaken: effectiveMaternityUsed,
+      maternityLeaveAllowance: effectiveMaternityAllowance,
+      maternityLeaveRemaining: effectiveMaternityRemaining,
+      emergencyLeaveTaken: emergencyUsed,
+      emergencyLeaveAllowance: emergencyAllowance,
+      emergencyLeaveRemaining: emergencyRemaining,
+      toilLeaveTaken: toilUsedDays,
+      toilLeaveAllowance: toilAllowance,
+      toilLeaveRemaining: toilRemaining,
+      wfhLeaveTaken: leaveSummary?.wfhUsedThisMonth ?? 0,
+      wfhLeaveAllowance: wfhAllowance,
+      wfhLeaveRemaining: wfhRemaining,
+      totalLeaveTaken: totalUsed,
+      totalLeaveAllowance: totalAllowance,
+      totalLeaveRemaining: totalRemaining,
+      year: yearNum,
     };
+  });
+
+  // No need to filter again - already filtered in employee query
+  // Calculate pagination based on total count
+  const totalPages = Math.ceil(totalCount / pageSizeNum);
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      data: summaryData,
+      total: totalCount,
+      page: pageNum,
+      pageSize: pageSizeNum,
+      totalPages,
+    },
+    message: 'Leave summary retrieved successfully',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get leave summary error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -443,383 +460,620 @@ export const getLeaveSummary = async (req: Request, res: Response): Promise<Resp
  * Access: HR, MANAGEMENT, FINANCE only
  */
 export const getYearlyManagement = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { role } = getUserInfo(req);
-    
-    // RBAC: Only privileged roles can see yearly management data
-    if (!isPrivilegedRole(role)) {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'You do not have permission to view yearly management data',
-      } as IApiResponse<null>);
-    }
+  // RBAC: Only leave:read:all holders can see yearly management data
+  if (!hasPermission(req, 'leave:read:all')) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You do not have permission to view yearly management data',
+    } as IApiResponse<null>);
+  }
 
-    const {
-      page = 1,
-      pageSize = 10,
-      status,
-      search,
-      year = new Date().getFullYear(),
-    } = req.query;
-
-    const pageNum = parseInt(page as string) || 1;
-    const pageSizeNum = parseInt(pageSize as string) || 10;
-    const skip = (pageNum - 1) * pageSizeNum;
-    const yearNum = parseInt(year as string) || new Date().getFullYear();
-
-    // Build filter conditions for employees
-    const where: any = {};
-
-    if (search) {
-      where.OR = [
-        {
-          firstName: {
-            contains: search as string,
-            mode: 'insensitive',
-          },
-        },
-        {
-          lastName: {
-            contains: search as string,
-            mode: 'insensitive',
-          },
+  const {
+    page: pageNum,
+    pageSize: pageSizeNum,
+    status,
+    search,
+    year: yearNum,
+  } = validated(req, getYearlyManagementSchema).query;
+
+  const skip = (pageNum - 1) * pageSizeNum;
+
+  // Build filter conditions for employees
+  const where: any = {};
+
+  if (search) {
+    where.OR = [
+      {
+        firstName: {
+          contains: search,
+          mode: 'insensitive',
         },
-        {
-          email: {
-            contains: search as string,
-            mode: 'insensitive',
-          },
+      },
+      {
+        lastName: {
+          contains: search,
+          mode: 'insensitive',
         },
-      ];
-    }
-
-    // Get total count of employees
-    await prisma.employee.count({ where });
-
-    // Get employees with their leave data
-    const employees = await prisma.employee.findMany({
-      where,
-      skip,
-      take: pageSizeNum,
-      orderBy: {
-        firstName: 'asc',
       },
-    });
-
-    // Get leave requests for calculating used leaves
-    let leaveRequests: any[] = [];
-    try {
-      leaveRequests = await prisma.leaveRequest.findMany({
-        where: {
-          status: 'APPROVED',
+      {
+        email: {
+          contains: search,
+          mode: 'insensitive',
         },
-      });
-    } catch (dbError: any) {
-      console.error('Error fetching leave requests in getYearlyManagement:', dbError);
-      // Continue with empty array if query fails
-      leaveRequests = [];
-    }
+      },
+    ];
+  }
 
-    // Format response with yearly management data
-    // Use a single query to get all leave summaries instead of Promise.all
-    const allLeaveSummaries = await prisma.leaveSummary.findMany({
+  // Get total count of employees
+  await prisma.employee.count({ where });
+
+  // Get employees with their leave data
+  const employees = await prisma.employee.findMany({
+    where,
+    skip,
+    take: pageSizeNum,
+    orderBy: {
+      firstName: 'asc',
+    },
+  });
+
+  // Get leave requests for calculating used leaves
+  let leaveRequests: any[] = [];
+  try {
+    leaveRequests = await prisma.leaveRequest.findMany({
       where: {
-        employeeId: { in: employees.map((e: any) => e.id) },
-        year: yearNum,
+        status: 'APPROVED',
       },
     });
-    const leaveSummaryMap = new Map(allLeaveSummaries.map((ls: any) => [ls.employeeId, ls]));
-
-    const yearlyData = employees.map((employee: any) => {
-      // Get leave summary from map
-      const leaveSummary = leaveSummaryMap.get(employee.id);
-
-      // Calculate used leaves from approved requests
-      const employeeLeaves = leaveRequests.filter(
-        (lr) => lr.employeeId === employee.id
-      );
-
-      const annualUsed = employeeLeaves
-        .filter((lr) => lr.leaveType === 'ANNUAL')
-        .reduce((sum, lr) => sum + lr.numberOfDays, 0);
-
-      const sickUsed = employeeLeaves
-        .filter((lr) => lr.leaveType === 'SICK')
-        .reduce((sum, lr) => sum + lr.numberOfDays, 0);
-
-      // Get allowances using correct schema fields
-      const annualAllowance = leaveSummary?.annualLeaveEntitlement ?? 0;
-      const annualCarriedOver = leaveSummary?.annualLeaveCarriedOver ?? 0;
-      const annualAvailable = annualAllowance + annualCarriedOver;
-      const annualRemaining = annualAvailable - annualUsed;
-
-      // Sick leave: Total is fullPay + halfPay + unpaid (MOHRE: 90 days total)
-      const sickAllowance = (leaveSummary?.sickLeaveFullPay ?? 15) + 
-                           (leaveSummary?.sickLeaveHalfPay ?? 30) + 
-                           (leaveSummary?.sickLeaveUnpaid ?? 45);
-      const sickRemaining = sickAllowance - sickUsed;
-
-      // WFH: Monthly limit
-      const wfhAllowance = leaveSummary?.wfhMonthlyLimit ?? 4;
-      const wfhRemaining = wfhAllowance - (leaveSummary?.wfhUsedThisMonth ?? 0);
-
-      // Carried over from previous year
-      const carriedOver = annualCarriedOver;
-
-      // Calculate unpaid leaves (for display purposes)
-      const unpaidCount = employeeLeaves.filter(
-        (lr) => lr.leaveType === 'EMERGENCY' || lr.leaveType === 'MATERNITY'
-      ).length;
-
-      return {
-        employeeName: `${employee.firstName} ${employee.lastName}`,
-        employeeId: employee.employeeId,
-        annualLeave: {
-          remaining: annualRemaining,
-          used: annualUsed,
-          total: annualAvailable, // Include carried over
-          display: `${annualRemaining} remaining\n${annualUsed}/${annualAvailable} used`,
-        },
-        carriedOver,
-        sickLeave: {
-          remaining: sickRemaining,
-          used: sickUsed,
-          total: sickAllowance,
-          display: `${sickRemaining} remaining\n${sickUsed}/${sickAllowance} used`,
-        },
-        wfhDays: {
-          remaining: wfhRemaining,
-          used: leaveSummary?.wfhUsedThisMonth ?? 0,
-          total: wfhAllowance,
-          display: `${wfhRemaining} remaining\n${leaveSummary?.wfhUsedThisMonth ?? 0}/${wfhAllowance} used`,
-        },
-        unpaid: unpaidCount > 0 ? unpaidCount : '-',
-        status: employee.userStatus,
-        year: yearNum,
-      };
-    });
-
-    // Filter by status if provided
-    let filteredData = yearlyData;
-    if (status) {
-      filteredData = yearlyData.filter((item) => item.status === status);
-    }
-
-    const totalPages = Math.ceil(filteredData.length / pageSizeNum);
+  } catch (dbError: any) {
+    logger.error('Error fetching leave requests in getYearlyManagement', dbError);
+    // Continue with empty array if query fails
+    leaveRequests = [];
+  }
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        data: filteredData.slice(skip, skip + pageSizeNum),
-        total: filteredData.length,
-        page: pageNum,
-        pageSize: pageSizeNum,
-        totalPages,
+  // Format response with yearly management data
+  // Use a single query to get all leave summaries instead of Promise.all
+  const allLeaveSummaries = await prisma.leaveSummary.findMany({
+    where: {
+      employeeId: { in: employees.map((e: any) => e.id) },
+      year: yearNum,
+    },
+  });
+  const leaveSummaryMap = new Map(allLeaveSummaries.map((ls: any) => [ls.employeeId, ls]));
+
+  const yearlyData = employees.map((employee: any) => {
+    // Get leave summary from map
+    const leaveSummary = leaveSummaryMap.get(employee.id);
+
+    // Calculate used leaves from approved requests
+    const employeeLeaves = leaveRequests.filter(
+      (lr) => lr.employeeId === employee.id
+    );
+
+    const annualUsed = employeeLeaves
+      .filter((lr) => lr.leaveType === 'ANNUAL')
+      .reduce((sum, lr) => sum + lr.numberOfDays, 0);
+
+    const sickUsed = employeeLeaves
+      .filter((lr) => lr.leaveType === 'SICK')
+      .reduce((sum, lr) => sum + lr.numberOfDays, 0);
+
+    // Get allowances using correct schema fields
+    const annualAllowance = leaveSummary?.annualLeaveEntitlement ?? 0;
+    const annualCarriedOver = leaveSummary?.annualLeaveCarriedOver ?? 0;
+    const annualAvailable = annualAllowance + annualCarriedOver;
+    const annualRemaining = annualAvailable - annualUsed;
+
+    // Sick leave: Total is fullPay + halfPay + unpaid (MOHRE: 90 days total)
+    const sickAllowance = (leaveSummary?.sickLeaveFullPay ?? 15) + 
+                         (leaveSummary?.sickLeaveHalfPay ?? 30) + 
+                         (leaveSummary?.sickLeaveUnpaid ?? 45);
+    const sickRemaining = sickAllowance - sickUsed;
+
+    // WFH: Monthly limit
+    const wfhAllowance = leaveSummary?.wfhMonthlyLimit ?? 4;
+    const wfhRemaining = wfhAllowance - (leaveSummary?.wfhUsedThisMonth ?? 0);
+
+    // Carried over from previous year
+    const carriedOver = annualCarriedOver;
+
+    // Calculate unpaid leaves (for display purposes)
+    const unpaidCount = employeeLeaves.filter(
+      (lr) => lr.leaveType === 'EMERGENCY' || lr.leaveType === 'MATERNITY'
+    ).length;
+
+    return {
+      employeeName: `${employee.firstName} ${employee.lastName}`,
+      employeeId: employee.employeeId,
+      annualLeave: {
+        remaining: annualRemaining,
+        used: annualUsed,
+        total: annualAvailable, // Include carried over
+        display: `${annualRemaining} remaining\n${annualUsed}/${annualAvailable} used`,
+      },
+      carriedOver,
+      sickLeave: {
+        remaining: sickRemaining,
+        used: sickUsed,
+        total: sickAllowance,
+        display: `${sickRemaining} remaining\n${sickUsed}/${sickAllowance} used`,
+      },
+      wfhDays: {
+        remaining: wfhRemaining,
+        used: leaveSummary?.wfhUsedThisMonth ?? 0,
+        total: wfhAllowance,
+        display: `${wfhRemaining} remaining\n${leaveSummary?.wfhUsedThisMonth ?? 0}/${wfhAllowance} used`,
       },
-      message: 'Yearly management data retrieved successfully',
+      unpaid: unpaidCount > 0 ? unpaidCount : '-',
+      status: employee.userStatus,
+      year: yearNum,
     };
+  });
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get yearly management error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
+  // Filter by status if provided
+  let filteredData = yearlyData;
+  if (status) {
+    filteredData = yearlyData.filter((item) => item.status === status);
   }
+
+  const totalPages = Math.ceil(filteredData.length / pageSizeNum);
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      data: filteredData.slice(skip, skip + pageSizeNum),
+      total: filteredData.length,
+      page: pageNum,
+      pageSize: pageSizeNum,
+      totalPages,
+    },
+    message: 'Yearly management data retrieved successfully',
+  };
+
+  return res.status(200).json(response);
 };
 
 /**
- * Approve a leave request
- * PATCH /leave-requests/:id/approve
- * Body: { approvalNotes?: string }
- * Access: HR and Admin only
+ * Deduct the approved leave from the employee's balance (final approval only)
  */
-export const approveLeaveRequest = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const { approvalNotes } = req.body;
-    const userId = (req as any).user?.userId;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
-
-    // Find the leave request
-    const leaveRequest = await prisma.leaveRequest.findUnique({
-      where: { id },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+const deductLeaveBalance = async (leaveRequest: {
+  employeeId: string;
+  leaveType: string;
+  startDate: Date;
+  numberOfDays: number;
+  compensationMethod: string | null;
+  overtimeRequestIds: string[];
+}): Promise<void> => {
+  const year = new Date(leaveRequest.startDate).getFullYear();
+  const summary = await getOrCreateLeaveSummary(leaveRequest.employeeId, year, prisma);
+
+  switch (leaveRequest.leaveType) {
+    case 'ANNUAL':
+      await prisma.leaveSummary.update({
+        where: { id: summary.id },
+        data: {
+          annualLeaveUsed: { increment: leaveRequest.numberOfDays },
         },
-      },
-    });
-
-    if (!leaveRequest) {
-      return res.status(404).json({
-        success: false,
-        error: 'Leave request not found',
-        message: `Leave request with ID '${id}' not found`,
-      } as IApiResponse<null>);
-    }
-
-    // Check if already processed
-    if (leaveRequest.status !== 'PENDING') {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid operation',
-        message: `Cannot approve a leave request with status '${leaveRequest.status}'`,
-      } as IApiResponse<null>);
-    }
-
-    // Update the leave request
-    const updatedRequest = await prisma.leaveRequest.update({
-      where: { id },
-      data: {
-        status: 'APPROVED',
-        approvedBy: userId,
-        approvalDate: new Date(),
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+      });
+      break;
+    case 'SICK':
+      await prisma.leaveSummary.update({
+        where: { id: summary.id },
+        data: {
+          sickLeaveUsed: { increment: leaveRequest.numberOfDays },
         },
-      },
-    });
-
-    // Auto-deduct balance based on leave type
-    const year = new Date(leaveRequest.startDate).getFullYear();
-    const summary = await getOrCreateLeaveSummary(leaveRequest.employeeId, year, prisma);
-
-    switch (leaveRequest.leaveType) {
-      case 'ANNUAL':
+      });
+      break;
+    case 'MATERNITY':
+      await prisma.leaveSummary.update({
+        where: { id: summary.id },
+        data: {
+          maternityLeaveUsed: { increment: leaveRequest.numberOfDays },
+        },
+      });
+      break;
+    case 'EMERGENCY':
+      if (leaveRequest.compensationMethod === 'annual_leave') {
+        // Deduct from annual leave instead
         await prisma.leaveSummary.update({
           where: { id: summary.id },
           data: {
             annualLeaveUsed: { increment: leaveRequest.numberOfDays },
           },
         });
-        break;
-      case 'SICK':
-        await prisma.leaveSummary.update({
-          where: { id: summary.id },
-          data: {
-            sickLeaveUsed: { increment: leaveRequest.numberOfDays },
-          },
-        });
-        break;
-      case 'MATERNITY':
-        await prisma.leaveSummary.update({
-          where: { id: summary.id },
-          data: {
-            maternityLeaveUsed: { increment: leaveRequest.numberOfDays },
-          },
-        });
-        break;
-      case 'EMERGENCY':
-        if (leaveRequest.compensationMethod === 'annual_leave') {
-          // Deduct from annual leave instead
-          await prisma.leaveSummary.update({
-            where: { id: summary.id },
-            data: {
-              annualLeaveUsed: { increment: leaveRequest.numberOfDays },
-            },
-          });
-        } else {
-          await prisma.leaveSummary.update({
-            where: { id: summary.id },
-            data: {
-              emergencyLeaveUsed: { increment: leaveRequest.numberOfDays },
-            },
-          });
-        }
-        break;
-      case 'WFH':
-        // Update WFH counters
-        const weekStart = new Date(leaveRequest.startDate);
-        weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-        
-        // Check if we need to reset weekly counter
-        const shouldResetWeek = !summary.wfhLastWeekStart || 
-          new Date(summary.wfhLastWeekStart).getTime() !== weekStart.getTime();
-        
+      } else {
         await prisma.leaveSummary.update({
           where: { id: summary.id },
           data: {
-            wfhUsedThisWeek: shouldResetWeek ? 1 : { increment: 1 },
-            wfhUsedThisMonth: { increment: 1 },
-            wfhLastWeekStart: weekStart,
-          },
-        });
-        break;
-      case 'TOIL':
-        // Convert overtime hours to days (1 day = 8 hours)
-        const overtimeRequests = await prisma.overtimeRequest.findMany({
-          where: {
-            id: { in: leaveRequest.overtimeRequestIds },
-            employeeId: leaveRequest.employeeId,
-            status: 'APPROVED',
+            emergencyLeaveUsed: { increment: leaveRequest.numberOfDays },
           },
-          select: { requestedHours: true },
         });
-        const totalHours = overtimeRequests.reduce((sum, req) => sum + req.requestedHours, 0);
-        
-        await prisma.leaveSummary.update({
-          where: { id: summary.id },
-          data: {
-            toilHoursUsed: { increment: totalHours },
-          },
-        });
-        break;
-      // BEREAVEMENT - no balance tracking needed (granted case-by-case)
+      }
+      break;
+    case 'WFH':
+      // Update WFH counters
+      const weekStart = new Date(leaveRequest.startDate);
+      weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+      
+      // Check if we need to reset weekly counter
+      const shouldResetWeek = !summary.wfhLastWeekStart || 
+        new Date(summary.wfhLastWeekStart).getTime() !== weekStart.getTime();
+      
+      await prisma.leaveSummary.update({
+        where: { id: summary.id },
+        data: {
+          wfhUsedThisWeek: shouldResetWeek ? 1 : { increment: 1 },
+          wfhUsedThisMonth: { increment: 1 },
+          wfhLastWeekStart: weekStart,
+        },
+      });
+      break;
+    case 'TOIL':
+      // Convert overtime hours to days (1 day = 8 hours)
+      const overtimeRequests = await prisma.overtimeRequest.findMany({
+        where: {
+          id: { in: leaveRequest.overtimeRequestIds },
+          employeeId: leaveRequest.employeeId,
+          status: 'APPROVED',
+        },
+        select: { requestedHours: true },
+      });
+      const totalHours = overtimeRequests.reduce((sum, req) => sum + req.requestedHours, 0);
+      
+      await prisma.leaveSummary.update({
+        where: { id: summary.id },
+        data: {
+          toilHoursUsed: { increment: totalHours },
+        },
+      });
+      break;
+    // BEREAVEMENT - no balance tracking needed (granted case-by-case)
+  }
+};
+
+type RestorableCounter =
+  | 'annualLeaveUsed'
+  | 'sickLeaveUsed'
+  | 'maternityLeaveUsed'
+  | 'emergencyLeaveUsed'
+  | 'wfhUsedThisMonth'
+  | 'wfhUsedThisWeek'
+  | 'toilHoursUsed';
+
+/**
+ * Give cancelled leave back to the balance (reverse of deductLeaveBalance).
+ * Counters never go below zero.
+ */
+const restoreLeaveBalance = async (
+  leaveRequest: {
+    employeeId: string;
+    leaveType: string;
+    startDate: Date;
+    compensationMethod: string | null;
+  },
+  days: number,
+  toilHours: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> => {
+  const year = new Date(leaveRequest.startDate).getFullYear();
+  const summary = await getOrCreateLeaveSummary(leaveRequest.employeeId, year, db);
+
+  // Decrement atomically so concurrent cancellations don't overwrite each other, then clamp at zero
+  const giveBack = async (field: RestorableCounter, amount: number) => {
+    await db.leaveSummary.update({
+      where: { id: summary.id },
+      data: { [field]: { decrement: amount } },
+    });
+    await db.leaveSummary.updateMany({
+      where: { id: summary.id, [field]: { lt: 0 } },
+      data: { [field]: 0 },
+    });
+  };
+
+  switch (leaveRequest.leaveType) {
+    case 'ANNUAL':
+      await giveBack('annualLeaveUsed', days);
+      break;
+    case 'SICK':
+      await giveBack('sickLeaveUsed', days);
+      break;
+    case 'MATERNITY':
+      await giveBack('maternityLeaveUsed', days);
+      break;
+    case 'EMERGENCY':
+      await giveBack(leaveRequest.compensationMethod === 'annual_leave' ? 'annualLeaveUsed' : 'emergencyLeaveUsed', days);
+      break;
+    case 'WFH':
+      // Weekly counter only counts the week it was last reset for
+      const weekStart = new Date(leaveRequest.startDate);
+      weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+      const isTrackedWeek = !!summary.wfhLastWeekStart &&
+        new Date(summary.wfhLastWeekStart).getTime() === weekStart.getTime();
+
+      await giveBack('wfhUsedThisMonth', 1);
+      if (isTrackedWeek) {
+        await giveBack('wfhUsedThisWeek', 1);
+      }
+      break;
+    case 'TOIL':
+      await giveBack('toilHoursUsed', toilHours);
+      break;
+    // BEREAVEMENT - no balance tracking
+  }
+};
+
+/**
+ * Split the overtime linked to a TOIL request into what the remaining days
+ * still need (8 hours per day) and what is released for future TOIL requests
+ */
+const splitToilOvertime = async (
+  leaveRequest: { employeeId: string; overtimeRequestIds: string[] },
+  remainingDays: number
+): Promise<{ keptIds: string[]; releasedHours: number }> => {
+  const overtimeRequests = await prisma.overtimeRequest.findMany({
+    where: {
+      id: { in: leaveRequest.overtimeRequestIds },
+      employeeId: leaveRequest.employeeId,
+      status: 'APPROVED',
+    },
+    select: { id: true, requestedHours: true },
+  });
+  const hoursById = new Map(overtimeRequests.map((overtime) => [overtime.id, overtime.requestedHours]));
+
+  const keptIds: string[] = [];
+  let keptHours = 0;
+  let releasedHours = 0;
+  for (const overtimeId of leaveRequest.overtimeRequestIds) {
+    const hours = hoursById.get(overtimeId) || 0;
+    if (keptHours < remainingDays * 8) {
+      keptIds.push(overtimeId);
+      keptHours += hours;
+    } else {
+      releasedHours += hours;
     }
+  }
 
-    // Format response
-    const response: IApiResponse<any> = {
-      success: true,
+  return { keptIds, releasedHours };
+};
+
+/**
+ * Drop (full cancellation) or shrink (partial) the makeup hours owed for a leave
+ */
+const releaseMakeupHours = async (
+  leaveRequestId: string,
+  remainingDays: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> => {
+  const makeupHours = await db.makeupHours.findUnique({
+    where: { leaveRequestId },
+  });
+
+  if (!makeupHours) return;
+
+  if (remainingDays <= 0) {
+    await db.makeupHours.delete({ where: { id: makeupHours.id } });
+    return;
+  }
+
+  const requiredHours = Math.min(makeupHours.requiredHours, remainingDays * 8);
+  const isCompleted = makeupHours.completedHours >= requiredHours;
+  await db.makeupHours.update({
+    where: { id: makeupHours.id },
+    data: {
+      requiredHours,
+      ...(isCompleted
+        ? { status: 'COMPLETED', completionDate: makeupHours.completionDate || new Date() }
+        : {}),
+    },
+  });
+};
+
+/**
+ * Today's date as stored in @db.Date leave columns (UTC midnight)
+ */
+const getTodayDateOnly = (): Date => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+};
+
+/**
+ * Approval chain of a request; requests created before chains existed
+ * get theirs resolved on first use
+ */
+const getApprovalChain = async (leaveRequest: {
+  employeeId: string;
+  leaveType: LeaveType;
+  numberOfDays: number;
+  approvalSteps: LeaveApprovalStep[];
+  currentApprovalStep: LeaveApprovalStep | null;
+}): Promise<{ steps: LeaveApprovalStep[]; currentStep: LeaveApprovalStep }> => {
+  const steps = leaveRequest.approvalSteps.length > 0
+    ? leaveRequest.approvalSteps
+    : await resolveLeaveApprovalSteps(leaveRequest.employeeId, leaveRequest.leaveType, leaveRequest.numberOfDays);
+
+  return { steps, currentStep: leaveRequest.currentApprovalStep || steps[0] };
+};
+
+/**
+ * Approve the current step of a leave request
+ * PATCH /leave-requests/:id/approve
+ * Body: { approvalNotes?: string }
+ * Access: Whoever owns the current step of the request's approval chain
+ * (line manager, HR or Management - see leaveApprovalService). The request is
+ * APPROVED and the balance deducted only when the last step is approved.
+ * Nobody can approve their own request or approve two steps of the same request.
+ */
+export const approveLeaveRequest = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { approvalNotes } } = validated(req, approveLeaveRequestSchema);
+  const userId = (req as any).user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
+
+  // Find the leave request
+  const leaveRequest = await prisma.leaveRequest.findUnique({
+    where: { id },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+        },
+      },
+      approvals: {
+        select: { approvedBy: true, action: true },
+      },
+    },
+  });
+
+  if (!leaveRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave request not found',
+      message: `Leave request with ID '${id}' not found`,
+    } as IApiResponse<null>);
+  }
+
+  // Check if already processed
+  if (leaveRequest.status !== 'PENDING') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: `Cannot approve a leave request with status '${leaveRequest.status}'`,
+    } as IApiResponse<null>);
+  }
+
+  if (leaveRequest.employeeId === userId) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You cannot approve or reject your own request',
+    } as IApiResponse<null>);
+  }
+
+  const { permissions } = getUserInfo(req);
+  const { steps, currentStep } = await getApprovalChain(leaveRequest);
+
+  if (!(await canActOnLeaveStep(userId, permissions, currentStep, leaveRequest.employeeId))) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: `This leave request is awaiting ${LEAVE_APPROVAL_STEP_LABELS[currentStep]} approval`,
+    } as IApiResponse<null>);
+  }
+
+  if (leaveRequest.approvals.some((approval) => approval.approvedBy === userId && approval.action === 'APPROVED')) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You have already approved an earlier step of this leave request',
+    } as IApiResponse<null>);
+  }
+
+  const now = new Date();
+  const nextStep = steps[steps.indexOf(currentStep) + 1] || null;
+  const managerApproval = currentStep === 'MANAGER' ? { managerApprovedBy: userId, managerApprovedAt: now } : {};
+
+  const updatedRequest = await prisma.$transaction(async (tx) => {
+    // Claim the step: of two approvers acting at once, only the first still finds it current
+    const claimed = await tx.leaveRequest.updateMany({
+      where: { id, status: 'PENDING', currentApprovalStep: leaveRequest.currentApprovalStep },
+      data: nextStep
+        ? {
+            approvalSteps: steps,
+            currentApprovalStep: nextStep,
+            updatedBy: userId,
+            ...managerApproval,
+          }
+        : {
+            status: 'APPROVED',
+            approvedBy: userId,
+            approvalDate: now,
+            approvalSteps: steps,
+            currentApprovalStep: null,
+            updatedBy: userId,
+            ...managerApproval,
+          },
+    });
+    if (claimed.count === 0) return null;
+
+    await tx.leaveApproval.create({
       data: {
-        id: updatedRequest.id,
-        employeeName: `${updatedRequest.employee.firstName} ${updatedRequest.employee.lastName}`,
-        employeeId: updatedRequest.employeeId,
-        leaveType: updatedRequest.leaveType,
-        absenceCode: getAbsenceCode(updatedRequest.leaveType),
-        startDate: updatedRequest.startDate,
-        endDate: updatedRequest.endDate,
-        totalDays: updatedRequest.numberOfDays,
-        details: updatedRequest.reason || '-',
-        status: updatedRequest.status,
-        createdDate: updatedRequest.createdAt,
-        approvedBy: updatedRequest.approvedBy,
-        approvalDate: updatedRequest.approvalDate,
-        rejectionReason: null,
-        approvalNotes: approvalNotes || null,
+        leaveRequestId: id,
+        step: currentStep,
+        approvedBy: userId,
+        action: 'APPROVED',
+        approvalDate: now,
+        comments: approvalNotes || null,
       },
-      message: `Leave request approved successfully`,
-    };
+    });
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Approve leave request error:', error);
-    return res.status(500).json({
+    return tx.leaveRequest.findUniqueOrThrow({
+      where: { id },
+      include: {
+        employee: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+    });
+  });
+
+  if (!updatedRequest) {
+    return res.status(409).json({
       success: false,
-      error: 'Internal server error',
+      error: 'Conflict',
+      message: 'This leave request was acted on by someone else in the meantime; reload it and try again',
     } as IApiResponse<null>);
   }
+
+  // Auto-deduct balance once the whole chain has approved
+  if (!nextStep) {
+    await deductLeaveBalance(leaveRequest);
+  }
+
+  // Format response
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      id: updatedRequest.id,
+      employeeName: `${updatedRequest.employee.firstName} ${updatedRequest.employee.lastName}`,
+      employeeId: updatedRequest.employeeId,
+      leaveType: updatedRequest.leaveType,
+      absenceCode: getAbsenceCode(updatedRequest.leaveType),
+      startDate: updatedRequest.startDate,
+      endDate: updatedRequest.endDate,
+      totalDays: updatedRequest.numberOfDays,
+      details: updatedRequest.reason || '-',
+      status: updatedRequest.status,
+      createdDate: updatedRequest.createdAt,
+      approvedBy: updatedRequest.approvedBy,
+      approvalDate: updatedRequest.approvalDate,
+      managerApprovedBy: updatedRequest.managerApprovedBy,
+      managerApprovedAt: updatedRequest.managerApprovedAt,
+      approvalSteps: updatedRequest.approvalSteps,
+      currentApprovalStep: updatedRequest.currentApprovalStep,
+      rejectionReason: null,
+      approvalNotes: approvalNotes || null,
+    },
+    message: nextStep
+      ? `Leave request approved by ${LEAVE_APPROVAL_STEP_LABELS[currentStep]}, awaiting ${LEAVE_APPROVAL_STEP_LABELS[nextStep]} approval`
+      : `Leave request approved successfully`,
+  };
+
+  return res.status(200).json(response);
 };
 
 /**
@@ -829,215 +1083,391 @@ export const approveLeaveRequest = async (req: Request, res: Response): Promise<
  * Access: Employee (own) or HR/Management (any employee)
  */
 export const createLeaveRequest = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const userId = (req as any).user?.userId;
-    const userRole = (req as any).user?.role;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
+  const userId = (req as any).user?.userId;
 
-    const {
-      leaveType,
-      startDate,
-      endDate,
-      isHalfDay = false,
-      employeeId: requestedEmployeeId,
-      reason,
-      compensationMethod,
-      relationship,
-      overtimeRequestIds = [],
-    } = req.body;
-
-    // Validate required fields
-    if (!leaveType || !startDate || !endDate || !reason) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation error',
-        message: 'leaveType, startDate, endDate, and reason are required',
-      } as IApiResponse<null>);
-    }
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
 
-    // Determine employee ID (employees can only request for themselves unless HR/Management)
-    let targetEmployeeId = userId;
-    if (requestedEmployeeId && (userRole === 'HR' || userRole === 'MANAGEMENT')) {
-      targetEmployeeId = requestedEmployeeId;
-    } else if (requestedEmployeeId && requestedEmployeeId !== userId) {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'You can only create leave requests for yourself',
-      } as IApiResponse<null>);
-    }
+  const {
+    leaveType,
+    startDate,
+    endDate,
+    isHalfDay,
+    employeeId: requestedEmployeeId,
+    reason,
+    compensationMethod,
+    relationship,
+    overtimeRequestIds,
+  } = validated(req, createLeaveRequestSchema).body;
+
+  // Determine employee ID (employees can only request for themselves unless HR/Management)
+  let targetEmployeeId = userId;
+  if (requestedEmployeeId && hasPermission(req, 'leave:manage')) {
+    targetEmployeeId = requestedEmployeeId;
+  } else if (requestedEmployeeId && requestedEmployeeId !== userId) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You can only create leave requests for yourself',
+    } as IApiResponse<null>);
+  }
 
-    // Parse dates and normalize to date-only (no time component) to avoid timezone issues
-    // Frontend now sends dates as YYYY-MM-DD format (date-only strings)
-    // Parse the date string and create a Date at UTC midnight
-    let start: Date;
-    if (typeof startDate === 'string') {
-      // Check if it's a date-only string (YYYY-MM-DD) or ISO string
-      const dateMatch = startDate.match(/^(\d{4}-\d{2}-\d{2})/);
-      if (dateMatch) {
-        const [year, month, day] = dateMatch[1].split('-').map(Number);
-        // Create date at UTC midnight using the extracted date components
-        start = new Date(Date.UTC(year, month - 1, day, 0, 0, 0, 0));
-      } else {
-        // Fallback: parse as Date and use UTC components
-        const dateObj = new Date(startDate);
-        const startYear = dateObj.getUTCFullYear();
-        const startMonth = dateObj.getUTCMonth();
-        const startDay = dateObj.getUTCDate();
-        start = new Date(Date.UTC(startYear, startMonth, startDay, 0, 0, 0, 0));
-      }
-    } else if (startDate instanceof Date) {
-      // If already a Date object, extract UTC components
-      const startYear = startDate.getUTCFullYear();
-      const startMonth = startDate.getUTCMonth();
-      const startDay = startDate.getUTCDate();
-      start = new Date(Date.UTC(startYear, startMonth, startDay, 0, 0, 0, 0));
-    } else {
-      // Fallback: try to parse as date string
-      const dateObj = new Date(startDate);
-      const startYear = dateObj.getUTCFullYear();
-      const startMonth = dateObj.getUTCMonth();
-      const startDay = dateObj.getUTCDate();
-      start = new Date(Date.UTC(startYear, startMonth, startDay, 0, 0, 0, 0));
-    }
+  // Dates arrive normalized to UTC midnight (see createLeaveRequestSchema)
+  const start = startDate;
+
+  // Auto-adjust end date for specific leave types
+  const adjustedEnd = adjustEndDateForLeaveType(start, leaveType, isHalfDay);
+  const finalEndDate = endDate ?? adjustedEnd;
+
+  // Calculate number of days
+  const numberOfDays = calculateNumberOfDays(start, finalEndDate, isHalfDay);
+
+  // Get current year
+  const year = start.getFullYear();
+
+  // Validate based on leave type
+  let validationResult;
+  switch (leaveType) {
+    case 'ANNUAL':
+      validationResult = await validateAnnualLeave(targetEmployeeId, numberOfDays, year, prisma);
+      break;
+    case 'WFH':
+      validationResult = await validateWFH(targetEmployeeId, start, year, prisma);
+      break;
+    case 'EMERGENCY':
+      validationResult = await validateEmergencyLeave(targetEmployeeId, numberOfDays, compensationMethod || null, year, prisma);
+      break;
+    case 'TOIL':
+      validationResult = await validateTOIL(targetEmployeeId, overtimeRequestIds, prisma);
+      break;
+    case 'BEREAVEMENT':
+      validationResult = validateBereavement(relationship || null);
+      break;
+    case 'SICK':
+    case 'MATERNITY':
+      // No balance validation needed (unlimited or company policy)
+      validationResult = { valid: true };
+      break;
+    default:
+      validationResult = { valid: true };
+  }
+
+  if (!validationResult.valid) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: validationResult.message || 'Leave request validation failed',
+    } as IApiResponse<null>);
+  }
+
+  // Auto-calculated metadata
+  const autoCalculated: any = {};
+  if (leaveType === 'WFH') {
+    // Store weekly/monthly counts for reference
+    const weekStart = new Date(start);
+    weekStart.setDate(start.getDate() - start.getDay()); // Start of week (Sunday)
+    const monthStart = new Date(start.getFullYear(), start.getMonth(), 1);
+    
+    const weekWFH = await prisma.leaveRequest.count({
+      where: {
+        employeeId: targetEmployeeId,
+        leaveType: 'WFH',
+        status: { in: ['PENDING', 'APPROVED'] },
+        startDate: {
+          gte: weekStart,
+          lte: new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000),
+        },
+      },
+    });
 
-    // Auto-adjust end date for specific leave types
-    const adjustedEnd = adjustEndDateForLeaveType(start, leaveType, isHalfDay);
-    let finalEndDate: Date;
-    if (endDate) {
-      if (typeof endDate === 'string') {
-        // Check if it's a date-only string (YYYY-MM-DD) or ISO string
-        const dateMatch = endDate.match(/^(\d{4}-\d{2}-\d{2})/);
-        if (dateMatch) {
-          const [year, month, day] = dateMatch[1].split('-').map(Number);
-          finalEndDate = new Date(Date.UTC(year, month - 1, day, 0, 0, 0, 0));
-        } else {
-          // Fallback: parse as Date and use UTC components
-          const dateObj = new Date(endDate);
-          const endYear = dateObj.getUTCFullYear();
-          const endMonth = dateObj.getUTCMonth();
-          const endDay = dateObj.getUTCDate();
-          finalEndDate = new Date(Date.UTC(endYear, endMonth, endDay, 0, 0, 0, 0));
-        }
-      } else if (endDate instanceof Date) {
-        // If already a Date object, extract UTC components
-        const endYear = endDate.getUTCFullYear();
-        const endMonth = endDate.getUTCMonth();
-        const endDay = endDate.getUTCDate();
-        finalEndDate = new Date(Date.UTC(endYear, endMonth, endDay, 0, 0, 0, 0));
+    const monthWFH = await prisma.leaveRequest.count({
+      where: {
+        employeeId: targetEmployeeId,
+        leaveType: 'WFH',
+        status: { in: ['PENDING', 'APPROVED'] },
+        startDate: {
+          gte: monthStart,
+          lte: new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0),
+        },
+      },
+    });
+
+    autoCalculated.wfhWeekCount = weekWFH + 1;
+    autoCalculated.wfhMonthCount = monthWFH + 1;
+  }
+
+  // Approval chain for this leave type and length
+  const approvalSteps = await resolveLeaveApprovalSteps(targetEmployeeId, leaveType, numberOfDays);
+
+  // Create leave request
+  const leaveRequest = await prisma.leaveRequest.create({
+    data: {
+      employeeId: targetEmployeeId,
+      leaveType,
+      startDate: start,
+      endDate: finalEndDate,
+      isHalfDay,
+      numberOfDays,
+      reason,
+      status: 'PENDING',
+      compensationMethod: compensationMethod || null,
+      relationship: relationship || null,
+      overtimeRequestIds,
+      autoCalculated: autoCalculated || null,
+      approvalSteps,
+      currentApprovalStep: approvalSteps[0],
+      createdBy: userId,
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+        },
+      },
+    },
+  });
+
+  // Send email notification to HR/Management (non-blocking)
+  logger.info('Starting email notification process for leave request', leaveRequest.id);
+  logger.info('Employee', `${leaveRequest.employee.firstName} ${leaveRequest.employee.lastName}`);
+  logger.info('Leave Type', leaveRequest.leaveType);
+  logger.info('Dates', `${leaveRequest.startDate} to ${leaveRequest.endDate}`);
+  
+  sendLeaveRequestNotification(prisma, {
+    employeeName: `${leaveRequest.employee.firstName} ${leaveRequest.employee.lastName}`,
+    employeeId: leaveRequest.employeeId,
+    employeeEmail: leaveRequest.employee.email,
+    leaveType: leaveRequest.leaveType,
+    startDate: leaveRequest.startDate,
+    endDate: leaveRequest.endDate,
+    numberOfDays: leaveRequest.numberOfDays,
+    reason: leaveRequest.reason,
+    status: leaveRequest.status,
+  })
+    .then((success) => {
+      if (success) {
+        logger.info('Email notification sent successfully');
       } else {
-        // Fallback
-        const dateObj = new Date(endDate);
-        const endYear = dateObj.getUTCFullYear();
-        const endMonth = dateObj.getUTCMonth();
-        const endDay = dateObj.getUTCDate();
-        finalEndDate = new Date(Date.UTC(endYear, endMonth, endDay, 0, 0, 0, 0));
+        logger.warn('Email notification returned false (check logs above for details)');
       }
-    } else {
-      finalEndDate = adjustedEnd;
-    }
+    })
+    .catch((emailError) => {
+      // Log email error but don't fail the request
+      logger.error('Failed to send leave request notification email', emailError);
+      if (emailError instanceof Error) {
+        logger.error('Error message', emailError.message);
+        logger.error('Error stack', emailError.stack);
+      }
+    });
 
-    // Calculate number of days
-    const numberOfDays = calculateNumberOfDays(start, finalEndDate, isHalfDay);
-
-    // Get current year
-    const year = start.getFullYear();
-
-    // Validate based on leave type
-    let validationResult;
-    switch (leaveType) {
-      case 'ANNUAL':
-        validationResult = await validateAnnualLeave(targetEmployeeId, numberOfDays, year, prisma);
-        break;
-      case 'WFH':
-        validationResult = await validateWFH(targetEmployeeId, start, year, prisma);
-        break;
-      case 'EMERGENCY':
-        validationResult = await validateEmergencyLeave(targetEmployeeId, numberOfDays, compensationMethod || null, year, prisma);
-        break;
-      case 'TOIL':
-        validationResult = await validateTOIL(targetEmployeeId, overtimeRequestIds || [], prisma);
-        break;
-      case 'BEREAVEMENT':
-        validationResult = validateBereavement(relationship || null);
-        break;
-      case 'SICK':
-      case 'MATERNITY':
-        // No balance validation needed (unlimited or company policy)
-        validationResult = { valid: true };
-        break;
-      default:
-        validationResult = { valid: true };
-    }
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      id: leaveRequest.id,
+      employeeName: `${leaveRequest.employee.firstName} ${leaveRequest.employee.lastName}`,
+      employeeId: leaveRequest.employeeId,
+      leaveType: leaveRequest.leaveType,
+      absenceCode: getAbsenceCode(leaveRequest.leaveType),
+      startDate: leaveRequest.startDate,
+      endDate: leaveRequest.endDate,
+      totalDays: leaveRequest.numberOfDays,
+      details: leaveRequest.reason,
+      status: leaveRequest.status,
+      createdDate: leaveRequest.createdAt,
+      approvalSteps: leaveRequest.approvalSteps,
+      currentApprovalStep: leaveRequest.currentApprovalStep,
+      balance: validationResult.balance || null,
+      projectedBalance: validationResult.projectedBalance || null,
+    },
+    message: 'Leave request created successfully',
+  };
 
-    if (!validationResult.valid) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation failed',
-        message: validationResult.message || 'Leave request validation failed',
-      } as IApiResponse<null>);
-    }
+  return res.status(201).json(response);
+};
 
-    // Auto-calculated metadata
-    const autoCalculated: any = {};
-    if (leaveType === 'WFH') {
-      // Store weekly/monthly counts for reference
-      const weekStart = new Date(start);
-      weekStart.setDate(start.getDate() - start.getDay()); // Start of week (Sunday)
-      const monthStart = new Date(start.getFullYear(), start.getMonth(), 1);
-      
-      const weekWFH = await prisma.leaveRequest.count({
-        where: {
-          employeeId: targetEmployeeId,
-          leaveType: 'WFH',
-          status: { in: ['PENDING', 'APPROVED'] },
-          startDate: {
-            gte: weekStart,
-            lte: new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000),
-          },
+/**
+ * Reject a leave request
+ * PATCH /leave-requests/:id/reject
+ * Body: { rejectionReason: string (required) }
+ * Access: Owner of the current or a remaining step of the approval chain (not the requester)
+ */
+export const rejectLeaveRequest = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { rejectionReason } } = validated(req, rejectLeaveRequestSchema);
+  const userId = (req as any).user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
+
+  // Find the leave request
+  const leaveRequest = await prisma.leaveRequest.findUnique({
+    where: { id },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
         },
-      });
+      },
+    },
+  });
 
-      const monthWFH = await prisma.leaveRequest.count({
-        where: {
-          employeeId: targetEmployeeId,
-          leaveType: 'WFH',
-          status: { in: ['PENDING', 'APPROVED'] },
-          startDate: {
-            gte: monthStart,
-            lte: new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0),
+  if (!leaveRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave request not found',
+      message: `Leave request with ID '${id}' not found`,
+    } as IApiResponse<null>);
+  }
+
+  // Check if already processed
+  if (leaveRequest.status !== 'PENDING') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: `Cannot reject a leave request with status '${leaveRequest.status}'`,
+    } as IApiResponse<null>);
+  }
+
+  if (leaveRequest.employeeId === userId) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You cannot approve or reject your own request',
+    } as IApiResponse<null>);
+  }
+
+  // Any approver still ahead in the chain may reject
+  const { permissions } = getUserInfo(req);
+  const { steps, currentStep } = await getApprovalChain(leaveRequest);
+  const remainingSteps = steps.slice(Math.max(steps.indexOf(currentStep), 0));
+  let rejectingStep: LeaveApprovalStep | null = null;
+  for (const step of remainingSteps) {
+    if (await canActOnLeaveStep(userId, permissions, step, leaveRequest.employeeId)) {
+      rejectingStep = step;
+      break;
+    }
+  }
+
+  if (!rejectingStep) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: `This leave request is awaiting ${LEAVE_APPROVAL_STEP_LABELS[currentStep]} approval`,
+    } as IApiResponse<null>);
+  }
+
+  const now = new Date();
+  const [, updatedRequest] = await prisma.$transaction([
+    prisma.leaveApproval.create({
+      data: {
+        leaveRequestId: id,
+        step: rejectingStep,
+        approvedBy: userId,
+        action: 'REJECTED',
+        approvalDate: now,
+        comments: rejectionReason,
+      },
+    }),
+    prisma.leaveRequest.update({
+      where: { id },
+      data: {
+        status: 'REJECTED',
+        approvedBy: userId,
+        approvalDate: now,
+        rejectionReason: rejectionReason,
+        approvalSteps: steps,
+        currentApprovalStep: null,
+        updatedBy: userId,
+      },
+      include: {
+        employee: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
           },
         },
-      });
+      },
+    }),
+  ]);
+
+  // Format response
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      id: updatedRequest.id,
+      employeeName: `${updatedRequest.employee.firstName} ${updatedRequest.employee.lastName}`,
+      employeeId: updatedRequest.employeeId,
+      leaveType: updatedRequest.leaveType,
+      absenceCode: getAbsenceCode(updatedRequest.leaveType),
+      startDate: updatedRequest.startDate,
+      endDate: updatedRequest.endDate,
+      totalDays: updatedRequest.numberOfDays,
+      details: updatedRequest.reason || '-',
+      status: updatedRequest.status,
+      createdDate: updatedRequest.createdAt,
+      approvedBy: updatedRequest.approvedBy,
+      approvalDate: updatedRequest.approvalDate,
+      rejectionReason: updatedRequest.rejectionReason,
+    },
+    message: `Leave request rejected successfully`,
+  };
 
-      autoCalculated.wfhWeekCount = weekWFH + 1;
-      autoCalculated.wfhMonthCount = monthWFH + 1;
-    }
+  return res.status(200).json(response);
+};
+
+/**
+ * Get leave requests waiting on the current user's approval step
+ * GET /leave-requests/approvals/pending
+ * Query params: page, pageSize, leaveType
+ * Access: Line managers (their reports' MANAGER steps), HR (HR steps), Management (MANAGEMENT steps)
+ */
+export const getPendingLeaveApprovals = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId, permissions } = getUserInfo(req);
+  const { page: pageNum, pageSize: pageSizeNum, leaveType } = validated(req, getPendingLeaveApprovalsSchema).query;
 
-    // Create leave request
-    const leaveRequest = await prisma.leaveRequest.create({
+  const queueFilter = await buildLeaveApprovalQueueFilter(userId, permissions);
+  if (!queueFilter) {
+    return res.status(200).json({
+      success: true,
       data: {
-        employeeId: targetEmployeeId,
-        leaveType,
-        startDate: start,
-        endDate: finalEndDate,
-        isHalfDay: isHalfDay || false,
-        numberOfDays,
-        reason: reason.trim(),
-        status: 'PENDING',
-        compensationMethod: compensationMethod || null,
-        relationship: relationship || null,
-        overtimeRequestIds: overtimeRequestIds || [],
-        autoCalculated: autoCalculated || null,
-        createdBy: userId,
+        data: [],
+        total: 0,
+        page: pageNum,
+        pageSize: pageSizeNum,
+        totalPages: 0,
       },
+      message: 'No leave requests awaiting your approval',
+    } as IApiResponse<any>);
+  }
+
+  const where: any = { ...queueFilter };
+  if (leaveType) {
+    where.leaveType = leaveType;
+  }
+
+  const [total, leaveRequests] = await Promise.all([
+    prisma.leaveRequest.count({ where }),
+    prisma.leaveRequest.findMany({
+      where,
+      skip: (pageNum - 1) * pageSizeNum,
+      take: pageSizeNum,
       include: {
         employee: {
           select: {
@@ -1047,185 +1477,584 @@ export const createLeaveRequest = async (req: Request, res: Response): Promise<R
             email: true,
           },
         },
+        documents: true,
       },
-    });
+      orderBy: {
+        startDate: 'asc',
+      },
+    }),
+  ]);
 
-    // Send email notification to HR/Management (non-blocking)
-    console.log('📨 Starting email notification process for leave request:', leaveRequest.id);
-    console.log('   Employee:', `${leaveRequest.employee.firstName} ${leaveRequest.employee.lastName}`);
-    console.log('   Leave Type:', leaveRequest.leaveType);
-    console.log('   Dates:', `${leaveRequest.startDate} to ${leaveRequest.endDate}`);
-    
-    sendLeaveRequestNotification(prisma, {
-      employeeName: `${leaveRequest.employee.firstName} ${leaveRequest.employee.lastName}`,
-      employeeId: leaveRequest.employeeId,
-      employeeEmail: leaveRequest.employee.email,
-      leaveType: leaveRequest.leaveType,
-      startDate: leaveRequest.startDate,
-      endDate: leaveRequest.endDate,
-      numberOfDays: leaveRequest.numberOfDays,
-      reason: leaveRequest.reason,
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      data: leaveRequests.map((request) => ({
+        id: request.id,
+        employeeName: `${request.employee.firstName} ${request.employee.lastName}`,
+        employeeId: request.employeeId,
+        leaveType: request.leaveType,
+        absenceCode: getAbsenceCode(request.leaveType),
+        startDate: request.startDate,
+        endDate: request.endDate,
+        totalDays: request.numberOfDays,
+        details: request.reason || '-',
+        status: request.status,
+        createdDate: request.createdAt,
+        approvalSteps: request.approvalSteps,
+        currentApprovalStep: request.currentApprovalStep,
+        documents: request.documents,
+      })),
+      total,
+      page: pageNum,
+      pageSize: pageSizeNum,
+      totalPages: Math.ceil(total / pageSizeNum),
+    },
+    message: 'Pending leave approvals retrieved successfully',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Get the approval history of a leave request
+ * GET /leave-requests/:id/approvals
+ * Access: The employee, their line managers, HR, Management and Finance
+ */
+export const getLeaveRequestApprovals = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = req.params;
+  const { userId } = getUserInfo(req);
+
+  const leaveRequest = await prisma.leaveRequest.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      employeeId: true,
+      status: true,
+      approvalSteps: true,
+      currentApprovalStep: true,
+      approvals: {
+        include: {
+          approver: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+        orderBy: { approvalDate: 'asc' },
+      },
+    },
+  });
+
+  if (!leaveRequest || !(await canViewEmployeeRecords(userId, hasPermission(req, 'leave:read:all'), leaveRequest.employeeId))) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave request not found',
+      message: `Leave request with ID '${id}' not found`,
+    } as IApiResponse<null>);
+  }
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      id: leaveRequest.id,
       status: leaveRequest.status,
-    })
-      .then((success) => {
-        if (success) {
-          console.log('✅ Email notification sent successfully');
-        } else {
-          console.warn('⚠️  Email notification returned false (check logs above for details)');
-        }
-      })
-      .catch((emailError) => {
-        // Log email error but don't fail the request
-        console.error('❌ Failed to send leave request notification email:', emailError);
-        if (emailError instanceof Error) {
-          console.error('   Error message:', emailError.message);
-          console.error('   Error stack:', emailError.stack);
-        }
-      });
+      approvalSteps: leaveRequest.approvalSteps,
+      currentApprovalStep: leaveRequest.currentApprovalStep,
+      approvals: leaveRequest.approvals.map((approval) => ({
+        id: approval.id,
+        step: approval.step,
+        action: approval.action,
+        approvalDate: approval.approvalDate,
+        comments: approval.comments,
+        approver: {
+          id: approval.approver.id,
+          name: `${approval.approver.firstName} ${approval.approver.lastName}`,
+        },
+      })),
+    },
+    message: 'Leave approval history retrieved successfully',
+  };
+
+  return res.status(200).json(response);
+};
+
+const leaveRequestEmployeeInclude = {
+  employee: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+} as const;
+
+/**
+ * Cancellation fields of a leave request for API responses
+ */
+const formatCancellationDetails = (request: any) => ({
+  cancellationStatus: request.cancellationStatus,
+  cancellationFrom: request.cancellationFrom,
+  cancellationReason: request.cancellationReason,
+  cancellationRequestedBy: request.cancellationRequestedBy,
+  cancellationRequestedAt: request.cancellationRequestedAt,
+  cancellationReviewedBy: request.cancellationReviewedBy,
+  cancellationReviewedAt: request.cancellationReviewedAt,
+  cancellationRejectionReason: request.cancellationRejectionReason,
+  cancelledDays: request.cancelledDays,
+  cancelledBy: request.cancelledBy,
+  cancelledAt: request.cancelledAt,
+});
+
+/**
+ * Check whether a user approves any step of a request's chain
+ * (the people who may decide on its cancellation)
+ */
+const canReviewLeaveCancellation = async (
+  userId: string,
+  permissions: Permission[],
+  leaveRequest: Parameters<typeof getApprovalChain>[0]
+): Promise<boolean> => {
+  const { steps } = await getApprovalChain(leaveRequest);
+  for (const step of steps) {
+    if (await canActOnLeaveStep(userId, permissions, step, leaveRequest.employeeId)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Withdraw a pending leave request
+ * PATCH /leave-requests/:id/withdraw
+ * Body: { reason?: string }
+ * Access: The employee (or whoever created the request), HR and Management
+ * Nothing was deducted yet, so only linked makeup hours / TOIL overtime are released.
+ */
+export const withdrawLeaveRequest = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { reason } } = validated(req, withdrawLeaveRequestSchema);
+  const { userId } = getUserInfo(req);
+
+  const leaveRequest = await prisma.leaveRequest.findUnique({
+    where: { id },
+  });
+
+  if (!leaveRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave request not found',
+      message: `Leave request with ID '${id}' not found`,
+    } as IApiResponse<null>);
+  }
+
+  const canWithdraw =
+    leaveRequest.employeeId === userId ||
+    leaveRequest.createdBy === userId ||
+    hasPermission(req, 'leave:manage');
+
+  if (!canWithdraw) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You can only withdraw your own leave requests',
+    } as IApiResponse<null>);
+  }
+
+  if (leaveRequest.status !== 'PENDING') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: leaveRequest.status === 'APPROVED'
+        ? 'Approved leave cannot be withdrawn, request a cancellation instead'
+        : `Cannot withdraw a leave request with status '${leaveRequest.status}'`,
+    } as IApiResponse<null>);
+  }
+
+  const now = new Date();
+  // CANCELLED requests no longer hold their TOIL overtime (see getApprovedOvertimeRequests)
+  const updatedRequest = await prisma.$transaction(async (tx) => {
+    // Only while still pending: a withdraw racing the final approval must not undo the deduction
+    const claimed = await tx.leaveRequest.updateMany({
+      where: { id, status: 'PENDING' },
+      data: {
+        status: 'CANCELLED',
+        currentApprovalStep: null,
+        cancellationReason: reason || null,
+        cancellationRequestedBy: userId,
+        cancellationRequestedAt: now,
+        cancelledBy: userId,
+        cancelledAt: now,
+        updatedBy: userId,
+      },
+    });
+    if (claimed.count === 0) return null;
+
+    await releaseMakeupHours(id, 0, tx);
+
+    return tx.leaveRequest.findUniqueOrThrow({
+      where: { id },
+      include: leaveRequestEmployeeInclude,
+    });
+  });
+
+  if (!updatedRequest) {
+    return res.status(409).json({
+      success: false,
+      error: 'Conflict',
+      message: 'This leave request was acted on by someone else in the meantime; reload it and try again',
+    } as IApiResponse<null>);
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      id: updatedRequest.id,
+      employeeName: `${updatedRequest.employee.firstName} ${updatedRequest.employee.lastName}`,
+      employeeId: updatedRequest.employeeId,
+      leaveType: updatedRequest.leaveType,
+      startDate: updatedRequest.startDate,
+      endDate: updatedRequest.endDate,
+      totalDays: updatedRequest.numberOfDays,
+      status: updatedRequest.status,
+      ...formatCancellationDetails(updatedRequest),
+    },
+    message: 'Leave request withdrawn successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Request cancellation of approved leave (all of it, or the days from cancelFrom on)
+ * POST /leave-requests/:id/cancellation
+ * Body: { reason: string, cancelFrom?: string (YYYY-MM-DD, defaults to the start date) }
+ * Access: The employee, HR and Management (on the employee's behalf)
+ * Only days not yet taken (after today) can be cancelled.
+ */
+export const requestLeaveCancellation = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { reason, cancelFrom } } = validated(req, requestLeaveCancellationSchema);
+  const { userId } = getUserInfo(req);
+
+  const leaveRequest = await prisma.leaveRequest.findUnique({
+    where: { id },
+  });
+
+  if (!leaveRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave request not found',
+      message: `Leave request with ID '${id}' not found`,
+    } as IApiResponse<null>);
+  }
+
+  if (leaveRequest.employeeId !== userId && !hasPermission(req, 'leave:manage')) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You can only request cancellation of your own leave',
+    } as IApiResponse<null>);
+  }
+
+  if (leaveRequest.status !== 'APPROVED') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: leaveRequest.status === 'PENDING'
+        ? 'Pending leave requests can be withdrawn directly'
+        : `Cannot cancel a leave request with status '${leaveRequest.status}'`,
+    } as IApiResponse<null>);
+  }
+
+  if (leaveRequest.cancellationStatus === 'PENDING') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: 'A cancellation request is already awaiting approval',
+    } as IApiResponse<null>);
+  }
+
+  let effectiveFrom = leaveRequest.startDate;
+  if (cancelFrom && cancelFrom > leaveRequest.startDate) {
+    effectiveFrom = cancelFrom;
+  }
+
+  if (effectiveFrom > leaveRequest.endDate) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      message: 'cancelFrom must fall within the leave period',
+    } as IApiResponse<null>);
+  }
+
+  if (effectiveFrom <= getTodayDateOnly()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: 'Only leave days after today can be cancelled',
+    } as IApiResponse<null>);
+  }
+
+  const updatedRequest = await prisma.leaveRequest.update({
+    where: { id },
+    data: {
+      cancellationStatus: 'PENDING',
+      cancellationFrom: effectiveFrom,
+      cancellationReason: reason,
+      cancellationRequestedBy: userId,
+      cancellationRequestedAt: new Date(),
+      cancellationReviewedBy: null,
+      cancellationReviewedAt: null,
+      cancellationRejectionReason: null,
+      updatedBy: userId,
+    },
+    include: leaveRequestEmployeeInclude,
+  });
+
+  const isPartial = effectiveFrom > leaveRequest.startDate;
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      id: updatedRequest.id,
+      employeeName: `${updatedRequest.employee.firstName} ${updatedRequest.employee.lastName}`,
+      employeeId: updatedRequest.employeeId,
+      leaveType: updatedRequest.leaveType,
+      startDate: updatedRequest.startDate,
+      endDate: updatedRequest.endDate,
+      totalDays: updatedRequest.numberOfDays,
+      status: updatedRequest.status,
+      isPartial,
+      ...formatCancellationDetails(updatedRequest),
+    },
+    message: isPartial
+      ? 'Partial leave cancellation requested, awaiting approval'
+      : 'Leave cancellation requested, awaiting approval',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Approve a pending leave cancellation
+ * PATCH /leave-requests/:id/cancellation/approve
+ * Access: Approvers of the leave request's chain (not the employee)
+ * Cancels the leave (or shortens it for a partial cancellation), gives the days
+ * back to the balance, releases makeup hours / TOIL overtime and resyncs payroll.
+ */
+export const approveLeaveCancellation = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = req.params;
+  const { userId, permissions } = getUserInfo(req);
+
+  const leaveRequest = await prisma.leaveRequest.findUnique({
+    where: { id },
+  });
+
+  if (!leaveRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave request not found',
+      message: `Leave request with ID '${id}' not found`,
+    } as IApiResponse<null>);
+  }
+
+  if (leaveRequest.status !== 'APPROVED' || leaveRequest.cancellationStatus !== 'PENDING') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: 'This leave request has no cancellation awaiting approval',
+    } as IApiResponse<null>);
+  }
+
+  if (leaveRequest.employeeId === userId) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You cannot approve or reject your own request',
+    } as IApiResponse<null>);
+  }
+
+  if (!(await canReviewLeaveCancellation(userId, permissions, leaveRequest))) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'Only an approver of this leave request can decide on its cancellation',
+    } as IApiResponse<null>);
+  }
 
-    const response: IApiResponse<any> = {
-      success: true,
+  // Days taken while the cancellation was waiting can no longer be given back
+  const tomorrow = new Date(getTodayDateOnly().getTime() + 24 * 60 * 60 * 1000);
+  const requestedFrom = leaveRequest.cancellationFrom || leaveRequest.startDate;
+  const cancelFrom = requestedFrom > tomorrow ? requestedFrom : tomorrow;
+
+  if (cancelFrom > leaveRequest.endDate) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: 'The leave has already been taken and can no longer be cancelled',
+    } as IApiResponse<null>);
+  }
+
+  const isFullCancellation = cancelFrom <= leaveRequest.startDate;
+  const newEndDate = new Date(cancelFrom.getTime() - 24 * 60 * 60 * 1000);
+  const remainingDays = isFullCancellation
+    ? 0
+    : calculateNumberOfDays(leaveRequest.startDate, newEndDate, leaveRequest.isHalfDay);
+  const cancelledDays = leaveRequest.numberOfDays - remainingDays;
+
+  let releasedToilHours = 0;
+  let keptOvertimeRequestIds = leaveRequest.overtimeRequestIds;
+  if (leaveRequest.leaveType === 'TOIL') {
+    const split = await splitToilOvertime(leaveRequest, remainingDays);
+    releasedToilHours = split.releasedHours;
+    keptOvertimeRequestIds = split.keptIds;
+  }
+
+  const now = new Date();
+  const updatedRequest = await prisma.$transaction(async (tx) => {
+    // Claim the cancellation: of two approvers acting at once, only the first still finds it pending
+    const claimed = await tx.leaveRequest.updateMany({
+      where: { id, status: 'APPROVED', cancellationStatus: 'PENDING' },
       data: {
-        id: leaveRequest.id,
-        employeeName: `${leaveRequest.employee.firstName} ${leaveRequest.employee.lastName}`,
-        employeeId: leaveRequest.employeeId,
-        leaveType: leaveRequest.leaveType,
-        absenceCode: getAbsenceCode(leaveRequest.leaveType),
-        startDate: leaveRequest.startDate,
-        endDate: leaveRequest.endDate,
-        totalDays: leaveRequest.numberOfDays,
-        details: leaveRequest.reason,
-        status: leaveRequest.status,
-        createdDate: leaveRequest.createdAt,
-        balance: validationResult.balance || null,
-        projectedBalance: validationResult.projectedBalance || null,
+        // A fully cancelled TOIL request keeps its overtime IDs for history;
+        // CANCELLED requests no longer hold them
+        ...(isFullCancellation
+          ? { status: 'CANCELLED' }
+          : { endDate: newEndDate, numberOfDays: remainingDays, overtimeRequestIds: keptOvertimeRequestIds }),
+        cancellationStatus: 'APPROVED',
+        cancellationFrom: cancelFrom,
+        cancellationReviewedBy: userId,
+        cancellationReviewedAt: now,
+        cancelledDays,
+        cancelledBy: userId,
+        cancelledAt: now,
+        updatedBy: userId,
       },
-      message: 'Leave request created successfully',
-    };
+    });
+    if (claimed.count === 0) return null;
+
+    await restoreLeaveBalance(leaveRequest, cancelledDays, releasedToilHours, tx);
+    await releaseMakeupHours(id, remainingDays, tx);
+
+    return tx.leaveRequest.findUniqueOrThrow({
+      where: { id },
+      include: leaveRequestEmployeeInclude,
+    });
+  });
 
-    return res.status(201).json(response);
-  } catch (error) {
-    console.error('Create leave request error:', error);
-    return res.status(500).json({
+  if (!updatedRequest) {
+    return res.status(409).json({
       success: false,
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'Failed to create leave request',
+      error: 'Conflict',
+      message: 'This leave request was acted on by someone else in the meantime; reload it and try again',
     } as IApiResponse<null>);
   }
+
+  // Unpaid leave affects salary - recalculate every month the original leave touched
+  schedulePayrollSyncForLeave(leaveRequest);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      id: updatedRequest.id,
+      employeeName: `${updatedRequest.employee.firstName} ${updatedRequest.employee.lastName}`,
+      employeeId: updatedRequest.employeeId,
+      leaveType: updatedRequest.leaveType,
+      startDate: updatedRequest.startDate,
+      endDate: updatedRequest.endDate,
+      totalDays: updatedRequest.numberOfDays,
+      status: updatedRequest.status,
+      releasedToilHours,
+      ...formatCancellationDetails(updatedRequest),
+    },
+    message: isFullCancellation
+      ? 'Leave cancelled and balance restored'
+      : `Leave shortened by ${cancelledDays} day(s) and balance restored`,
+  } as IApiResponse<any>);
 };
 
 /**
- * Reject a leave request
- * PATCH /leave-requests/:id/reject
+ * Reject a pending leave cancellation (the leave stays approved)
+ * PATCH /leave-requests/:id/cancellation/reject
  * Body: { rejectionReason: string (required) }
- * Access: HR and Admin only
+ * Access: Approvers of the leave request's chain (not the employee)
  */
-export const rejectLeaveRequest = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const { rejectionReason } = req.body;
-    const userId = (req as any).user?.userId;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
+export const rejectLeaveCancellation = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { rejectionReason } } = validated(req, rejectLeaveCancellationSchema);
+  const { userId, permissions } = getUserInfo(req);
 
-    // Validate rejection reason
-    if (!rejectionReason || typeof rejectionReason !== 'string' || rejectionReason.trim().length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation error',
-        message: 'Rejection reason is required and must be a non-empty string',
-      } as IApiResponse<null>);
-    }
-
-    // Find the leave request
-    const leaveRequest = await prisma.leaveRequest.findUnique({
-      where: { id },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-      },
-    });
+  const leaveRequest = await prisma.leaveRequest.findUnique({
+    where: { id },
+  });
 
-    if (!leaveRequest) {
-      return res.status(404).json({
-        success: false,
-        error: 'Leave request not found',
-        message: `Leave request with ID '${id}' not found`,
-      } as IApiResponse<null>);
-    }
+  if (!leaveRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave request not found',
+      message: `Leave request with ID '${id}' not found`,
+    } as IApiResponse<null>);
+  }
 
-    // Check if already processed
-    if (leaveRequest.status !== 'PENDING') {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid operation',
-        message: `Cannot reject a leave request with status '${leaveRequest.status}'`,
-      } as IApiResponse<null>);
-    }
+  if (leaveRequest.status !== 'APPROVED' || leaveRequest.cancellationStatus !== 'PENDING') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: 'This leave request has no cancellation awaiting approval',
+    } as IApiResponse<null>);
+  }
 
-    // Update the leave request
-    const updatedRequest = await prisma.leaveRequest.update({
-      where: { id },
-      data: {
-        status: 'REJECTED',
-        approvedBy: userId,
-        approvalDate: new Date(),
-        rejectionReason: rejectionReason.trim(),
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-      },
-    });
+  if (leaveRequest.employeeId === userId) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You cannot approve or reject your own request',
+    } as IApiResponse<null>);
+  }
 
-    // Format response
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        id: updatedRequest.id,
-        employeeName: `${updatedRequest.employee.firstName} ${updatedRequest.employee.lastName}`,
-        employeeId: updatedRequest.employeeId,
-        leaveType: updatedRequest.leaveType,
-        absenceCode: getAbsenceCode(updatedRequest.leaveType),
-        startDate: updatedRequest.startDate,
-        endDate: updatedRequest.endDate,
-        totalDays: updatedRequest.numberOfDays,
-        details: updatedRequest.reason || '-',
-        status: updatedRequest.status,
-        createdDate: updatedRequest.createdAt,
-        approvedBy: updatedRequest.approvedBy,
-        approvalDate: updatedRequest.approvalDate,
-        rejectionReason: updatedRequest.rejectionReason,
-      },
-      message: `Leave request rejected successfully`,
-    };
+  if (!(await canReviewLeaveCancellation(userId, permissions, leaveRequest))) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'Only an approver of this leave request can decide on its cancellation',
+    } as IApiResponse<null>);
+  }
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Reject leave request error:', error);
-    return res.status(500).json({
+  const claimed = await prisma.leaveRequest.updateMany({
+    where: { id, status: 'APPROVED', cancellationStatus: 'PENDING' },
+    data: {
+      cancellationStatus: 'REJECTED',
+      cancellationReviewedBy: userId,
+      cancellationReviewedAt: new Date(),
+      cancellationRejectionReason: rejectionReason,
+      updatedBy: userId,
+    },
+  });
+
+  if (claimed.count === 0) {
+    return res.status(409).json({
       success: false,
-      error: 'Internal server error',
+      error: 'Conflict',
+      message: 'This leave request was acted on by someone else in the meantime; reload it and try again',
     } as IApiResponse<null>);
   }
+
+  const updatedRequest = await prisma.leaveRequest.findUniqueOrThrow({
+    where: { id },
+    include: leaveRequestEmployeeInclude,
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      id: updatedRequest.id,
+      employeeName: `${updatedRequest.employee.firstName} ${updatedRequest.employee.lastName}`,
+      employeeId: updatedRequest.employeeId,
+      leaveType: updatedRequest.leaveType,
+      startDate: updatedRequest.startDate,
+      endDate: updatedRequest.endDate,
+      totalDays: updatedRequest.numberOfDays,
+      status: updatedRequest.status,
+      ...formatCancellationDetails(updatedRequest),
+    },
+    message: 'Leave cancellation rejected',
+  } as IApiResponse<any>);
 };
 
 /**
@@ -1235,84 +2064,75 @@ export const rejectLeaveRequest = async (req: Request, res: Response): Promise<R
  * Access: Employee (own request) or HR/Management
  */
 export const uploadLeaveRequestDocumentFile = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const userId = (req as any).user?.userId;
-    const file = (req as any).file;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
-
-    if (!file) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation error',
-        message: 'No file uploaded',
-      } as IApiResponse<null>);
-    }
-
-    // Find the leave request
-    const leaveRequest = await prisma.leaveRequest.findUnique({
-      where: { id },
-    });
+  const { id } = req.params;
+  const userId = (req as any).user?.userId;
+  const file = (req as any).file;
 
-    if (!leaveRequest) {
-      return res.status(404).json({
-        success: false,
-        error: 'Leave request not found',
-        message: `Leave request with ID '${id}' not found`,
-      } as IApiResponse<null>);
-    }
-
-    // Check authorization - employee can only upload to their own requests
-    if (userId !== leaveRequest.employeeId && (req as any).user?.role !== 'MANAGEMENT' && (req as any).user?.role !== 'HR') {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'You do not have permission to upload documents for this leave request',
-      } as IApiResponse<null>);
-    }
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
 
-    // Upload file to DigitalOcean Spaces
-    const fileUrl = await uploadFileToSpaces(file, 'leave-requests');
+  if (!file) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      message: 'No file uploaded',
+    } as IApiResponse<null>);
+  }
 
-    // Create the document with file URL
-    const document = await (prisma as any).leaveRequestDocument.create({
-      data: {
-        leaveRequestId: id,
-        fileName: file.originalname,
-        fileType: file.mimetype,
-        url: fileUrl,
-      },
-    });
+  // Find the leave request
+  const leaveRequest = await prisma.leaveRequest.findUnique({
+    where: { id },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        id: document.id,
-        leaveRequestId: document.leaveRequestId,
-        fileName: document.fileName,
-        fileType: document.fileType,
-        url: document.url,
-        uploadDate: document.uploadDate,
-      },
-      message: 'Document uploaded successfully',
-    };
+  if (!leaveRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave request not found',
+      message: `Leave request with ID '${id}' not found`,
+    } as IApiResponse<null>);
+  }
 
-    return res.status(201).json(response);
-  } catch (error) {
-    console.error('Upload leave request document error:', error);
-    return res.status(500).json({
+  // Check authorization - employee can only upload to their own requests
+  if (userId !== leaveRequest.employeeId && !hasPermission(req, 'leave:manage')) {
+    return res.status(403).json({
       success: false,
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'Failed to upload document',
+      error: 'Forbidden',
+      message: 'You do not have permission to upload documents for this leave request',
     } as IApiResponse<null>);
   }
+
+  // Upload file to DigitalOcean Spaces
+  const fileUrl = await uploadFileToSpaces(file, 'leave-requests');
+
+  // Create the document with file URL
+  const document = await (prisma as any).leaveRequestDocument.create({
+    data: {
+      leaveRequestId: id,
+      fileName: file.originalname,
+      fileType: file.mimetype,
+      url: fileUrl,
+    },
+  });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      id: document.id,
+      leaveRequestId: document.leaveRequestId,
+      fileName: document.fileName,
+      fileType: document.fileType,
+      url: document.url,
+      uploadDate: document.uploadDate,
+    },
+    message: 'Document uploaded successfully',
+  };
+
+  return res.status(201).json(response);
 };
 
 /**
@@ -1322,81 +2142,63 @@ export const uploadLeaveRequestDocumentFile = async (req: Request, res: Response
  * Access: Employee (own request) or HR/Admin
  */
 export const uploadLeaveRequestDocument = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const { fileName, fileType, url } = req.body;
-    const userId = (req as any).user?.userId;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
-
-    // Validate required fields
-    if (!fileName || !fileType || !url) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation error',
-        message: 'fileName, fileType, and url are required',
-      } as IApiResponse<null>);
-    }
-
-    // Find the leave request
-    const leaveRequest = await prisma.leaveRequest.findUnique({
-      where: { id },
-    });
-
-    if (!leaveRequest) {
-      return res.status(404).json({
-        success: false,
-        error: 'Leave request not found',
-        message: `Leave request with ID '${id}' not found`,
-      } as IApiResponse<null>);
-    }
+  const { params: { id }, body: { fileName, fileType, url } } = validated(req, uploadLeaveRequestDocumentSchema);
+  const userId = (req as any).user?.userId;
 
-    // Check authorization - employee can only upload to their own requests
-    if (userId !== leaveRequest.employeeId && (req as any).user?.role !== 'MANAGEMENT' && (req as any).user?.role !== 'HR') {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'You do not have permission to upload documents for this leave request',
-      } as IApiResponse<null>);
-    }
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
 
-    // Create the document
-    const document = await (prisma as any).leaveRequestDocument.create({
-      data: {
-        leaveRequestId: id,
-        fileName: fileName.trim(),
-        fileType: fileType.trim(),
-        url: url.trim(),
-      },
-    });
+  // Find the leave request
+  const leaveRequest = await prisma.leaveRequest.findUnique({
+    where: { id },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        id: document.id,
-        leaveRequestId: document.leaveRequestId,
-        fileName: document.fileName,
-        fileType: document.fileType,
-        url: document.url,
-        uploadDate: document.uploadDate,
-      },
-      message: 'Document uploaded successfully',
-    };
+  if (!leaveRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave request not found',
+      message: `Leave request with ID '${id}' not found`,
+    } as IApiResponse<null>);
+  }
 
-    return res.status(201).json(response);
-  } catch (error) {
-    console.error('Upload leave request document error:', error);
-    return res.status(500).json({
+  // Check authorization - employee can only upload to their own requests
+  if (userId !== leaveRequest.employeeId && !hasPermission(req, 'leave:manage')) {
+    return res.status(403).json({
       success: false,
-      error: 'Internal server error',
+      error: 'Forbidden',
+      message: 'You do not have permission to upload documents for this leave request',
     } as IApiResponse<null>);
   }
+
+  // Create the document
+  const document = await (prisma as any).leaveRequestDocument.create({
+    data: {
+      leaveRequestId: id,
+      fileName: fileName.trim(),
+      fileType: fileType.trim(),
+      url: url.trim(),
+    },
+  });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      id: document.id,
+      leaveRequestId: document.leaveRequestId,
+      fileName: document.fileName,
+      fileType: document.fileType,
+      url: document.url,
+      uploadDate: document.uploadDate,
+    },
+    message: 'Document uploaded successfully',
+  };
+
+  return res.status(201).json(response);
 };
 
 /**
@@ -1405,70 +2207,64 @@ export const uploadLeaveRequestDocument = async (req: Request, res: Response): P
  * Access: Employee (own request) or HR/Admin
  */
 export const getLeaveRequestDocuments = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const userId = (req as any).user?.userId;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
+  const { id } = req.params;
+  const userId = (req as any).user?.userId;
 
-    // Find the leave request
-    const leaveRequest = await prisma.leaveRequest.findUnique({
-      where: { id },
-    });
-
-    if (!leaveRequest) {
-      return res.status(404).json({
-        success: false,
-        error: 'Leave request not found',
-        message: `Leave request with ID '${id}' not found`,
-      } as IApiResponse<null>);
-    }
-
-    // Check authorization
-    if (userId !== leaveRequest.employeeId && (req as any).user?.role !== 'MANAGEMENT' && (req as any).user?.role !== 'HR') {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'You do not have permission to view documents for this leave request',
-      } as IApiResponse<null>);
-    }
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
 
-    // Get all documents
-    const documents = await (prisma as any).leaveRequestDocument.findMany({
-      where: { leaveRequestId: id },
-      orderBy: { uploadDate: 'desc' },
-    });
+  // Find the leave request
+  const leaveRequest = await prisma.leaveRequest.findUnique({
+    where: { id },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        leaveRequestId: id,
-        documents: documents.map((doc: any) => ({
-          id: doc.id,
-          fileName: doc.fileName,
-          fileType: doc.fileType,
-          url: doc.url,
-          uploadDate: doc.uploadDate,
-        })),
-        total: documents.length,
-      },
-      message: 'Documents retrieved successfully',
-    };
+  if (!leaveRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Leave request not found',
+      message: `Leave request with ID '${id}' not found`,
+    } as IApiResponse<null>);
+  }
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get leave request documents error:', error);
-    return res.status(500).json({
+  // Check authorization
+  if (
+    !(await canViewEmployeeRecords(userId, hasPermission(req, 'leave:documents:read:all'), leaveRequest.employeeId))
+  ) {
+    return res.status(403).json({
       success: false,
-      error: 'Internal server error',
+      error: 'Forbidden',
+      message: 'You do not have permission to view documents for this leave request',
     } as IApiResponse<null>);
   }
+
+  // Get all documents
+  const documents = await (prisma as any).leaveRequestDocument.findMany({
+    where: { leaveRequestId: id },
+    orderBy: { uploadDate: 'desc' },
+  });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      leaveRequestId: id,
+      documents: documents.map((doc: any) => ({
+        id: doc.id,
+        fileName: doc.fileName,
+        fileType: doc.fileType,
+        url: doc.url,
+        uploadDate: doc.uploadDate,
+      })),
+      total: documents.length,
+    },
+    message: 'Documents retrieved successfully',
+  };
+
+  return res.status(200).json(response);
 };
 
 /**
@@ -1477,61 +2273,53 @@ export const getLeaveRequestDocuments = async (req: Request, res: Response): Pro
  * Access: Employee (own request) or HR/Admin
  */
 export const deleteLeaveRequestDocument = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { documentId } = req.params;
-    const userId = (req as any).user?.userId;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
-
-    // Find the document
-    const document = await (prisma as any).leaveRequestDocument.findUnique({
-      where: { id: documentId },
-      include: {
-        leaveRequest: true,
-      },
-    });
-
-    if (!document) {
-      return res.status(404).json({
-        success: false,
-        error: 'Document not found',
-        message: `Document with ID '${documentId}' not found`,
-      } as IApiResponse<null>);
-    }
+  const { documentId } = req.params;
+  const userId = (req as any).user?.userId;
 
-    // Check authorization
-    if (userId !== document.leaveRequest.employeeId && (req as any).user?.role !== 'MANAGEMENT' && (req as any).user?.role !== 'HR') {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'You do not have permission to delete this document',
-      } as IApiResponse<null>);
-    }
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
 
-    // Delete the document
-    await (prisma as any).leaveRequestDocument.delete({
-      where: { id: documentId },
-    });
+  // Find the document
+  const document = await (prisma as any).leaveRequestDocument.findUnique({
+    where: { id: documentId },
+    include: {
+      leaveRequest: true,
+    },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      message: 'Document deleted successfully',
-    };
+  if (!document) {
+    return res.status(404).json({
+      success: false,
+      error: 'Document not found',
+      message: `Document with ID '${documentId}' not found`,
+    } as IApiResponse<null>);
+  }
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Delete leave request document error:', error);
-    return res.status(500).json({
+  // Check authorization
+  if (userId !== document.leaveRequest.employeeId && !hasPermission(req, 'leave:manage')) {
+    return res.status(403).json({
       success: false,
-      error: 'Internal server error',
+      error: 'Forbidden',
+      message: 'You do not have permission to delete this document',
     } as IApiResponse<null>);
   }
+
+  // Delete the document
+  await (prisma as any).leaveRequestDocument.delete({
+    where: { id: documentId },
+  });
+
+  const response: IApiResponse<any> = {
+    success: true,
+    message: 'Document deleted successfully',
+  };
+
+  return res.status(200).json(response);
 };
 
 /**
@@ -1541,117 +2329,106 @@ export const deleteLeaveRequestDocument = async (req: Request, res: Response): P
  * Access: Employee (own) or HR/Management
  */
 export const getLeaveBalance = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const userId = (req as any).user?.userId;
-    const userRole = (req as any).user?.role;
-    const { employeeId, year } = req.query;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
-
-    // Determine target employee ID
-    let targetEmployeeId = userId;
-    if (employeeId && (userRole === 'HR' || userRole === 'MANAGEMENT')) {
-      targetEmployeeId = employeeId as string;
-    } else if (employeeId && employeeId !== userId) {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'You can only view your own leave balance',
-      } as IApiResponse<null>);
-    }
+  const userId = (req as any).user?.userId;
+  const { employeeId, year: yearNum } = validated(req, getLeaveBalanceSchema).query;
 
-    const yearNum = parseInt(year as string) || new Date().getFullYear();
-    const summary = await getOrCreateLeaveSummary(targetEmployeeId, yearNum, prisma);
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
 
-    // Calculate actual WFH usage from LeaveRequest table (includes PENDING and APPROVED)
-    // This ensures the balance matches what validation checks
-    const now = new Date();
-    const currentWeekStart = startOfWeek(now, { weekStartsOn: 0 });
-    const currentWeekEnd = endOfWeek(now, { weekStartsOn: 0 });
-    const currentMonthStart = startOfMonth(now);
-    const currentMonthEnd = endOfMonth(now);
+  // Determine target employee ID
+  let targetEmployeeId = userId;
+  if (employeeId && hasPermission(req, 'leave:read:all')) {
+    targetEmployeeId = employeeId;
+  } else if (employeeId && employeeId !== userId) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You can only view your own leave balance',
+    } as IApiResponse<null>);
+  }
 
-    const wfhRequests = await prisma.leaveRequest.findMany({
-      where: {
-        employeeId: targetEmployeeId,
-        leaveType: 'WFH',
-        status: { in: ['PENDING', 'APPROVED'] },
+  const summary = await getOrCreateLeaveSummary(targetEmployeeId, yearNum, prisma);
+
+  // Calculate actual WFH usage from LeaveRequest table (includes PENDING and APPROVED)
+  // This ensures the balance matches what validation checks
+  const now = new Date();
+  const currentWeekStart = startOfWeek(now, { weekStartsOn: 0 });
+  const currentWeekEnd = endOfWeek(now, { weekStartsOn: 0 });
+  const currentMonthStart = startOfMonth(now);
+  const currentMonthEnd = endOfMonth(now);
+
+  const wfhRequests = await prisma.leaveRequest.findMany({
+    where: {
+      employeeId: targetEmployeeId,
+      leaveType: 'WFH',
+      status: { in: ['PENDING', 'APPROVED'] },
+    },
+  });
+
+  // Count WFH in current week
+  const wfhThisWeek = wfhRequests.filter(lr => {
+    const requestDate = new Date(lr.startDate);
+    return requestDate >= currentWeekStart && requestDate <= currentWeekEnd;
+  }).length;
+
+  // Count WFH in current month
+  const wfhThisMonth = wfhRequests.filter(lr => {
+    const requestDate = new Date(lr.startDate);
+    return requestDate >= currentMonthStart && requestDate <= currentMonthEnd;
+  }).length;
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      employeeId: targetEmployeeId,
+      year: yearNum,
+      annualLeave: {
+        entitlement: summary.annualLeaveEntitlement,
+        used: summary.annualLeaveUsed,
+        carriedOver: summary.annualLeaveCarriedOver,
+        available: (summary.annualLeaveEntitlement + summary.annualLeaveCarriedOver) - summary.annualLeaveUsed,
       },
-    });
-
-    // Count WFH in current week
-    const wfhThisWeek = wfhRequests.filter(lr => {
-      const requestDate = new Date(lr.startDate);
-      return requestDate >= currentWeekStart && requestDate <= currentWeekEnd;
-    }).length;
-
-    // Count WFH in current month
-    const wfhThisMonth = wfhRequests.filter(lr => {
-      const requestDate = new Date(lr.startDate);
-      return requestDate >= currentMonthStart && requestDate <= currentMonthEnd;
-    }).length;
-
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        employeeId: targetEmployeeId,
-        year: yearNum,
-        annualLeave: {
-          entitlement: summary.annualLeaveEntitlement,
-          used: summary.annualLeaveUsed,
-          carriedOver: summary.annualLeaveCarriedOver,
-          available: (summary.annualLeaveEntitlement + summary.annualLeaveCarriedOver) - summary.annualLeaveUsed,
-        },
-        sickLeave: {
-          fullPay: summary.sickLeaveFullPay,
-          halfPay: summary.sickLeaveHalfPay,
-          unpaid: summary.sickLeaveUnpaid,
-          used: summary.sickLeaveUsed,
-          total: summary.sickLeaveFullPay + summary.sickLeaveHalfPay + summary.sickLeaveUnpaid,
-        },
-        maternityLeave: {
-          entitlement: summary.maternityLeaveEntitlement,
-          used: summary.maternityLeaveUsed,
-          available: summary.maternityLeaveEntitlement - summary.maternityLeaveUsed,
-        },
-        emergencyLeave: {
-          entitlement: summary.emergencyLeaveEntitlement,
-          used: summary.emergencyLeaveUsed,
-          available: summary.emergencyLeaveEntitlement - summary.emergencyLeaveUsed,
-        },
-        wfh: {
-          monthlyLimit: summary.wfhMonthlyLimit,
-          weeklyLimit: summary.wfhWeeklyLimit,
-          usedThisMonth: wfhThisMonth, // Use actual count from LeaveRequest
-          usedThisWeek: wfhThisWeek, // Use actual count from LeaveRequest
-          availableThisMonth: summary.wfhMonthlyLimit - wfhThisMonth,
-          availableThisWeek: summary.wfhWeeklyLimit - wfhThisWeek,
-        },
-        toil: {
-          hoursAvailable: summary.toilHoursAvailable,
-          hoursUsed: summary.toilHoursUsed,
-          hoursRemaining: summary.toilHoursAvailable - summary.toilHoursUsed,
-          daysAvailable: Math.floor((summary.toilHoursAvailable - summary.toilHoursUsed) / 8),
-        },
+      sickLeave: {
+        fullPay: summary.sickLeaveFullPay,
+        halfPay: summary.sickLeaveHalfPay,
+        unpaid: summary.sickLeaveUnpaid,
+        used: summary.sickLeaveUsed,
+        total: summary.sickLeaveFullPay + summary.sickLeaveHalfPay + summary.sickLeaveUnpaid,
       },
-      message: 'Leave balance retrieved successfully',
-    };
+      maternityLeave: {
+        entitlement: summary.maternityLeaveEntitlement,
+        used: summary.maternityLeaveUsed,
+        available: summary.maternityLeaveEntitlement - summary.maternityLeaveUsed,
+      },
+      emergencyLeave: {
+        entitlement: summary.emergencyLeaveEntitlement,
+        used: summary.emergencyLeaveUsed,
+        available: summary.emergencyLeaveEntitlement - summary.emergencyLeaveUsed,
+      },
+      wfh: {
+        monthlyLimit: summary.wfhMonthlyLimit,
+        weeklyLimit: summary.wfhWeeklyLimit,
+        usedThisMonth: wfhThisMonth, // Use actual count from LeaveRequest
+        usedThisWeek: wfhThisWeek, // Use actual count from LeaveRequest
+        availableThisMonth: summary.wfhMonthlyLimit - wfhThisMonth,
+        availableThisWeek: summary.wfhWeeklyLimit - wfhThisWeek,
+      },
+      toil: {
+        hoursAvailable: summary.toilHoursAvailable,
+        hoursUsed: summary.toilHoursUsed,
+        hoursRemaining: summary.toilHoursAvailable - summary.toilHoursUsed,
+        daysAvailable: Math.floor((summary.toilHoursAvailable - summary.toilHoursUsed) / 8),
+      },
+    },
+    message: 'Leave balance retrieved successfully',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get leave balance error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'Failed to retrieve leave balance',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -1661,104 +2438,94 @@ export const getLeaveBalance = async (req: Request, res: Response): Promise<Resp
  * Access: Employee (own) or HR/Management
  */
 export const getApprovedOvertimeRequests = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const userId = (req as any).user?.userId;
-    const userRole = (req as any).user?.role;
-    const { employeeId } = req.query;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
+  const userId = (req as any).user?.userId;
+  const { employeeId } = validated(req, getApprovedOvertimeRequestsSchema).query;
 
-    // Determine target employee ID
-    let targetEmployeeId = userId;
-    if (employeeId && (userRole === 'HR' || userRole === 'MANAGEMENT')) {
-      targetEmployeeId = employeeId as string;
-    } else if (employeeId && employeeId !== userId) {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'You can only view your own overtime requests',
-      } as IApiResponse<null>);
-    }
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
 
-    // Get approved overtime requests that haven't been used for TOIL yet
-    const overtimeRequests = await prisma.overtimeRequest.findMany({
-      where: {
-        employeeId: targetEmployeeId,
-        status: 'APPROVED',
-      },
-      include: {
-        client: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-      },
-      orderBy: {
-        requestedDate: 'desc',
-      },
-    });
+  // Determine target employee ID
+  let targetEmployeeId = userId;
+  if (employeeId && hasPermission(req, 'overtime:read:all')) {
+    targetEmployeeId = employeeId;
+  } else if (employeeId && employeeId !== userId) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'You can only view your own overtime requests',
+    } as IApiResponse<null>);
+  }
 
-    // Filter out overtime requests that have already been used in TOIL leave requests
-    const usedOvertimeRequestIds = await prisma.leaveRequest.findMany({
-      where: {
-        employeeId: targetEmployeeId,
-        leaveType: 'TOIL',
-        status: { in: ['PENDING', 'APPROVED'] },
-      },
-      select: {
-        overtimeRequestIds: true,
+  // Get approved overtime requests that haven't been used for TOIL yet
+  const overtimeRequests = await prisma.overtimeRequest.findMany({
+    where: {
+      employeeId: targetEmployeeId,
+      status: 'APPROVED',
+    },
+    include: {
+      client: {
+        select: {
+          id: true,
+          name: true,
+        },
       },
-    });
-
-    const usedIds = new Set<string>();
-    usedOvertimeRequestIds.forEach((lr) => {
-      lr.overtimeRequestIds.forEach((id) => usedIds.add(id));
-    });
-
-    const availableRequests = overtimeRequests.filter((req) => !usedIds.has(req.id));
-
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        requests: availableRequests.map((req) => ({
-          id: req.id,
-          requestedDate: req.requestedDate,
-          requestedHours: req.requestedHours,
-          clientName: req.client?.name || 'N/A',
-          projectName: req.project?.name || 'N/A',
-          reason: req.reason,
-          canDoNextDay: req.canDoNextDay,
-          urgencyReason: req.urgencyReason,
-          createdAt: req.createdAt,
-        })),
-        totalHours: availableRequests.reduce((sum, req) => sum + req.requestedHours, 0),
-        availableDays: Math.floor(availableRequests.reduce((sum, req) => sum + req.requestedHours, 0) / 8),
+      project: {
+        select: {
+          id: true,
+          name: true,
+        },
       },
-      message: 'Approved overtime requests retrieved successfully',
-    };
+    },
+    orderBy: {
+      requestedDate: 'desc',
+    },
+  });
+
+  // Filter out overtime requests that have already been used in TOIL leave requests
+  const usedOvertimeRequestIds = await prisma.leaveRequest.findMany({
+    where: {
+      employeeId: targetEmployeeId,
+      leaveType: 'TOIL',
+      status: { in: ['PENDING', 'APPROVED'] },
+    },
+    select: {
+      overtimeRequestIds: true,
+    },
+  });
+
+  const usedIds = new Set<string>();
+  usedOvertimeRequestIds.forEach((lr) => {
+    lr.overtimeRequestIds.forEach((id) => usedIds.add(id));
+  });
+
+  const availableRequests = overtimeRequests.filter((req) => !usedIds.has(req.id));
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      requests: availableRequests.map((req) => ({
+        id: req.id,
+        requestedDate: req.requestedDate,
+        requestedHours: req.requestedHours,
+        clientName: req.client?.name || 'N/A',
+        projectName: req.project?.name || 'N/A',
+        reason: req.reason,
+        canDoNextDay: req.canDoNextDay,
+        urgencyReason: req.urgencyReason,
+        createdAt: req.createdAt,
+      })),
+      totalHours: availableRequests.reduce((sum, req) => sum + req.requestedHours, 0),
+      availableDays: Math.floor(availableRequests.reduce((sum, req) => sum + req.requestedHours, 0) / 8),
+    },
+    message: 'Approved overtime requests retrieved successfully',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get approved overtime requests error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'Failed to retrieve overtime requests',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -2,144 +2,147 @@ import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { IApiResponse } from '../types';
 import { getIO } from '../websocket/attendanceSocket';
-import { getUserInfo } from '../utils/ownershipValidation';
+import { hasPermission } from '../utils/permissions';
+import { getApprovalAuthority, getReportIds } from '../utils/reportingLine';
+import { getEmployeeWorkSchedule, getShiftHours, isWorkingDay } from '../services/workScheduleService';
+import { validated } from '../middleware/validate';
+import {
+  createOvertimeRequestSchema,
+  getMyOvertimeRequestsSchema,
+  getPendingOvertimeRequestsSchema,
+  rejectOvertimeRequestSchema,
+} from '../schemas/overtime';
 
 /**
  * Create an overtime request
  * POST /overtime-requests
  */
 export const createOvertimeRequest = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const userId = (req as any).user?.userId;
-    const { clientName, projectName, reason, canDoNextDay, urgencyReason, requestedHours, requestedDate } = req.body;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
-
-    // Validate required fields
-    if (!clientName || !projectName || !reason || requestedHours === undefined || !requestedDate) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation Error',
-        message: 'Missing required fields: clientName, projectName, reason, requestedHours, requestedDate',
-      } as IApiResponse<null>);
-    }
-
-    // Validate canDoNextDay logic
-    if (!canDoNextDay && !urgencyReason) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation Error',
-        message: 'If canDoNextDay is false, urgencyReason is required',
-      } as IApiResponse<null>);
-    }
-
-    // Find or create client by name
-    let client = await prisma.client.findUnique({ where: { name: clientName } });
-    if (!client) {
-      client = await prisma.client.create({
-        data: {
-          name: clientName,
-          isActive: true,
-        },
-      });
-    }
+  const userId = (req as any).user?.userId;
+  const { clientName, projectName, reason, canDoNextDay, urgencyReason, requestedHours, requestedDate } = validated(
+    req,
+    createOvertimeRequestSchema
+  ).body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
+
+  // Overtime comes on top of the shift on working days; on rest days the whole day is overtime
+  const requestedDay = new Date(
+    Date.UTC(requestedDate.getUTCFullYear(), requestedDate.getUTCMonth(), requestedDate.getUTCDate())
+  );
+  const schedule = await getEmployeeWorkSchedule(userId, requestedDay);
+  const isRestDay = !isWorkingDay(schedule, requestedDay.getUTCDay());
+  const maxOvertimeHours = isRestDay ? 24 : 24 - getShiftHours(schedule);
+  if (requestedHours > maxOvertimeHours) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation Error',
+      message: `At most ${maxOvertimeHours} overtime hours can be requested on this day (${schedule.name} schedule, ${
+        isRestDay ? 'rest day' : `${schedule.shiftStart}-${schedule.shiftEnd} shift`
+      })`,
+    } as IApiResponse<null>);
+  }
 
-    // Find or create project by name and client
-    let project = await prisma.project.findFirst({
-      where: {
+  // Find or create client by name
+  let client = await prisma.client.findUnique({ where: { name: clientName } });
+  if (!client) {
+    client = await prisma.client.create({
+      data: {
+        name: clientName,
+        isActive: true,
+      },
+    });
+  }
+
+  // Find or create project by name and client
+  let project = await prisma.project.findFirst({
+    where: {
+      name: projectName,
+      clientId: client.id,
+    },
+  });
+  if (!project) {
+    project = await prisma.project.create({
+      data: {
         name: projectName,
         clientId: client.id,
+        isActive: true,
       },
     });
-    if (!project) {
-      project = await prisma.project.create({
-        data: {
-          name: projectName,
-          clientId: client.id,
-          isActive: true,
-        },
-      });
-    }
+  }
 
-    // Get employee to find their line manager
-    const employee = await prisma.employee.findUnique({
-      where: { id: userId },
-      select: { managerId: true },
-    });
+  // Get employee to find their line manager
+  const employee = await prisma.employee.findUnique({
+    where: { id: userId },
+    select: { managerId: true },
+  });
 
-    if (!employee?.managerId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation Error',
-        message: 'Employee does not have a line manager assigned',
-      } as IApiResponse<null>);
-    }
+  if (!employee?.managerId) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation Error',
+      message: 'Employee does not have a line manager assigned',
+    } as IApiResponse<null>);
+  }
 
-    // Create overtime request
-    const overtimeRequest = await prisma.overtimeRequest.create({
-      data: {
-        employeeId: userId,
-        clientId: client.id,
-        projectId: project.id,
-        reason,
-        canDoNextDay,
-        urgencyReason: canDoNextDay ? null : urgencyReason,
-        requestedHours,
-        requestedDate: new Date(requestedDate),
-        approvedBy: employee.managerId, // Set to line manager
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+  // Create overtime request
+  const overtimeRequest = await prisma.overtimeRequest.create({
+    data: {
+      employeeId: userId,
+      clientId: client.id,
+      projectId: project.id,
+      reason,
+      canDoNextDay,
+      urgencyReason: canDoNextDay ? null : urgencyReason,
+      requestedHours,
+      requestedDate,
+      approvedBy: employee.managerId, // Set to line manager
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
         },
-        client: {
-          select: {
-            id: true,
-            name: true,
-          },
+      },
+      client: {
+        select: {
+          id: true,
+          name: true,
         },
-        project: {
-          select: {
-            id: true,
-            name: true,
-          },
+      },
+      project: {
+        select: {
+          id: true,
+          name: true,
         },
-        approver: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+      },
+      approver: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
         },
       },
-    });
+    },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: overtimeRequest,
-      message: 'Overtime request created successfully and sent to line manager',
-    };
+  const response: IApiResponse<any> = {
+    success: true,
+    data: overtimeRequest,
+    message: 'Overtime request created successfully and sent to line manager',
+  };
 
-    return res.status(201).json(response);
-  } catch (error) {
-    console.error('Create overtime request error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(201).json(response);
 };
 
 /**
@@ -147,143 +150,127 @@ export const createOvertimeRequest = async (req: Request, res: Response): Promis
  * GET /overtime-requests/my-requests
  */
 export const getMyOvertimeRequests = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const userId = (req as any).user?.userId;
-    const { page = 1, pageSize = 10, status } = req.query;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
-
-    const skip = (Number(page) - 1) * Number(pageSize);
-    const where: any = { employeeId: userId };
-
-    if (status) {
-      where.status = status;
-    }
-
-    const [requests, total] = await Promise.all([
-      prisma.overtimeRequest.findMany({
-        where,
-        skip,
-        take: Number(pageSize),
-        orderBy: { createdAt: 'desc' },
-        include: {
-          client: true,
-          project: true,
-          approver: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-            },
-          },
-        },
-      }),
-      prisma.overtimeRequest.count({ where }),
-    ]);
-
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        requests,
-        pagination: {
-          page: Number(page),
-          pageSize: Number(pageSize),
-          total,
-          totalPages: Math.ceil(total / Number(pageSize)),
-        },
-      },
-      message: 'Overtime requests retrieved successfully',
-    };
+  const userId = (req as any).user?.userId;
+  const { page, pageSize, status } = validated(req, getMyOvertimeRequestsSchema).query;
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get overtime requests error:', error);
-    return res.status(500).json({
+  if (!userId) {
+    return res.status(401).json({
       success: false,
-      error: 'Internal server error',
+      error: 'Unauthorized',
+      message: 'User not authenticated',
     } as IApiResponse<null>);
   }
+
+  const skip = (page - 1) * pageSize;
+  const where: any = { employeeId: userId };
+
+  if (status) {
+    where.status = status;
+  }
+
+  const [requests, total] = await Promise.all([
+    prisma.overtimeRequest.findMany({
+      where,
+      skip,
+      take: pageSize,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        client: true,
+        project: true,
+        approver: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+    }),
+    prisma.overtimeRequest.count({ where }),
+  ]);
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      requests,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    },
+    message: 'Overtime requests retrieved successfully',
+  };
+
+  return res.status(200).json(response);
 };
 
 /**
  * Get overtime requests pending for the logged-in line manager
+ * (assigned to them, or raised by any of their direct/indirect reports)
  * GET /overtime-requests/pending-approvals
  */
 export const getPendingOvertimeRequests = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const userId = (req as any).user?.userId;
-    const { page = 1, pageSize = 10 } = req.query;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
-
-    const skip = (Number(page) - 1) * Number(pageSize);
-
-    const [requests, total] = await Promise.all([
-      prisma.overtimeRequest.findMany({
-        where: {
-          approvedBy: userId,
-          status: 'PENDING',
-        },
-        skip,
-        take: Number(pageSize),
-        orderBy: { createdAt: 'desc' },
-        include: {
-          employee: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-              designation: true,
-            },
-          },
-          client: true,
-          project: true,
-        },
-      }),
-      prisma.overtimeRequest.count({
-        where: {
-          approvedBy: userId,
-          status: 'PENDING',
-        },
-      }),
-    ]);
-
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        requests,
-        pagination: {
-          page: Number(page),
-          pageSize: Number(pageSize),
-          total,
-          totalPages: Math.ceil(total / Number(pageSize)),
-        },
-      },
-      message: 'Pending overtime requests retrieved successfully',
-    };
+  const userId = (req as any).user?.userId;
+  const { page, pageSize } = validated(req, getPendingOvertimeRequestsSchema).query;
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get pending overtime requests error:', error);
-    return res.status(500).json({
+  if (!userId) {
+    return res.status(401).json({
       success: false,
-      error: 'Internal server error',
+      error: 'Unauthorized',
+      message: 'User not authenticated',
     } as IApiResponse<null>);
   }
+
+  const skip = (page - 1) * pageSize;
+
+  const reportIds = await getReportIds(userId);
+  const where = {
+    status: 'PENDING' as const,
+    employeeId: { not: userId }, // Never queue a manager's own request for themselves
+    OR: [{ approvedBy: userId }, { employeeId: { in: reportIds } }],
+  };
+
+  const [requests, total] = await Promise.all([
+    prisma.overtimeRequest.findMany({
+      where,
+      skip,
+      take: pageSize,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        employee: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+            designation: true,
+          },
+        },
+        client: true,
+        project: true,
+      },
+    }),
+    prisma.overtimeRequest.count({ where }),
+  ]);
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      requests,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    },
+    message: 'Pending overtime requests retrieved successfully',
+  };
+
+  return res.status(200).json(response);
 };
 
 /**
@@ -291,49 +278,62 @@ export const getPendingOvertimeRequests = async (req: Request, res: Response): P
  * PATCH /overtime-requests/:id/approve
  */
 export const approveOvertimeRequest = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const userId = (req as any).user?.userId;
-    const { id } = req.params;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
-
-    // Get the overtime request
-    const overtimeRequest = await prisma.overtimeRequest.findUnique({
-      where: { id },
-    });
+  const userId = (req as any).user?.userId;
+  const { id } = req.params;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
+
+  // Get the overtime request
+  const overtimeRequest = await prisma.overtimeRequest.findUnique({
+    where: { id },
+  });
+
+  if (!overtimeRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Not Found',
+      message: 'Overtime request not found',
+    } as IApiResponse<null>);
+  }
+
+  if (overtimeRequest.status !== 'PENDING') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: `Cannot approve an overtime request with status '${overtimeRequest.status}'`,
+    } as IApiResponse<null>);
+  }
+
+  // RBAC: line manager anywhere above the employee, or MANAGEMENT - never the requester
+  const authority = await getApprovalAuthority(
+    userId,
+    hasPermission(req, 'overtime:approve'),
+    overtimeRequest.employeeId,
+    'MANAGEMENT'
+  );
+  const isAssignedManager = overtimeRequest.approvedBy === userId && overtimeRequest.employeeId !== userId;
+
+  if (!authority.allowed && !isAssignedManager) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: authority.reason || 'Only line managers or MANAGEMENT can approve overtime requests',
+    } as IApiResponse<null>);
+  }
 
-    if (!overtimeRequest) {
-      return res.status(404).json({
-        success: false,
-        error: 'Not Found',
-        message: 'Overtime request not found',
-      } as IApiResponse<null>);
-    }
-
-    // RBAC: Verify the user is either the line manager or MANAGEMENT
-    const { role } = getUserInfo(req);
-    const isManagement = role === 'MANAGEMENT';
-    const isLineManager = overtimeRequest.approvedBy === userId;
-    
-    if (!isManagement && !isLineManager) {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'Only line managers or MANAGEMENT can approve overtime requests',
-      } as IApiResponse<null>);
-    }
-
-    // Update the request status
-    const updated = await prisma.overtimeRequest.update({
+  // Update the request status and record the decision
+  const [updated] = await prisma.$transaction([
+    prisma.overtimeRequest.update({
       where: { id },
       data: {
         status: 'APPROVED',
+        approvedBy: userId,
         approvalDate: new Date(),
       },
       include: {
@@ -348,33 +348,36 @@ export const approveOvertimeRequest = async (req: Request, res: Response): Promi
         client: true,
         project: true,
       },
+    }),
+    prisma.overtimeApproval.create({
+      data: {
+        overtimeRequestId: id,
+        approvedBy: userId,
+        action: 'APPROVED',
+        previousStatus: overtimeRequest.status,
+        createdBy: userId,
+      },
+    }),
+  ]);
+
+  // Notify employee via WebSocket about overtime approval
+  const io = getIO();
+  if (io && updated.employee) {
+    io.to(`user:${updated.employee.id}`).emit('overtime-approved', {
+      employeeId: updated.employee.id,
+      approvedHours: updated.requestedHours,
+      message: `${updated.requestedHours} hours overtime approved`,
+      overtimeRequest: updated,
     });
-
-    // Notify employee via WebSocket about overtime approval
-    const io = getIO();
-    if (io && updated.employee) {
-      io.to(`user:${updated.employee.id}`).emit('overtime-approved', {
-        employeeId: updated.employee.id,
-        approvedHours: updated.requestedHours,
-        message: `${updated.requestedHours} hours overtime approved`,
-        overtimeRequest: updated,
-      });
-    }
-
-    const response: IApiResponse<any> = {
-      success: true,
-      data: updated,
-      message: 'Overtime request approved successfully',
-    };
-
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Approve overtime request error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
   }
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: updated,
+    message: 'Overtime request approved successfully',
+  };
+
+  return res.status(200).json(response);
 };
 
 /**
@@ -382,59 +385,63 @@ export const approveOvertimeRequest = async (req: Request, res: Response): Promi
  * PATCH /overtime-requests/:id/reject
  */
 export const rejectOvertimeRequest = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const userId = (req as any).user?.userId;
-    const { id } = req.params;
-    const { rejectionReason } = req.body;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        error: 'Unauthorized',
-        message: 'User not authenticated',
-      } as IApiResponse<null>);
-    }
-
-    if (!rejectionReason) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation Error',
-        message: 'rejectionReason is required',
-      } as IApiResponse<null>);
-    }
-
-    // Get the overtime request
-    const overtimeRequest = await prisma.overtimeRequest.findUnique({
-      where: { id },
-    });
+  const userId = (req as any).user?.userId;
+  const { params: { id }, body: { rejectionReason } } = validated(req, rejectOvertimeRequestSchema);
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'User not authenticated',
+    } as IApiResponse<null>);
+  }
+
+  // Get the overtime request
+  const overtimeRequest = await prisma.overtimeRequest.findUnique({
+    where: { id },
+  });
 
-    if (!overtimeRequest) {
-      return res.status(404).json({
-        success: false,
-        error: 'Not Found',
-        message: 'Overtime request not found',
-      } as IApiResponse<null>);
-    }
-
-    // RBAC: Verify the user is either the line manager or MANAGEMENT
-    const { role } = getUserInfo(req);
-    const isManagement = role === 'MANAGEMENT';
-    const isLineManager = overtimeRequest.approvedBy === userId;
-    
-    if (!isManagement && !isLineManager) {
-      return res.status(403).json({
-        success: false,
-        error: 'Forbidden',
-        message: 'Only line managers or MANAGEMENT can reject overtime requests',
-      } as IApiResponse<null>);
-    }
-
-    // Update the request status
-    const updated = await prisma.overtimeRequest.update({
+  if (!overtimeRequest) {
+    return res.status(404).json({
+      success: false,
+      error: 'Not Found',
+      message: 'Overtime request not found',
+    } as IApiResponse<null>);
+  }
+
+  if (overtimeRequest.status !== 'PENDING') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid operation',
+      message: `Cannot reject an overtime request with status '${overtimeRequest.status}'`,
+    } as IApiResponse<null>);
+  }
+
+  // RBAC: line manager anywhere above the employee, or MANAGEMENT - never the requester
+  const authority = await getApprovalAuthority(
+    userId,
+    hasPermission(req, 'overtime:approve'),
+    overtimeRequest.employeeId,
+    'MANAGEMENT'
+  );
+  const isAssignedManager = overtimeRequest.approvedBy === userId && overtimeRequest.employeeId !== userId;
+
+  if (!authority.allowed && !isAssignedManager) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: authority.reason || 'Only line managers or MANAGEMENT can reject overtime requests',
+    } as IApiResponse<null>);
+  }
+
+  // Update the request status and record the decision
+  const [updated] = await prisma.$transaction([
+    prisma.overtimeRequest.update({
       where: { id },
       data: {
         status: 'REJECTED',
         rejectionReason,
+        approvedBy: userId,
         approvalDate: new Date(),
       },
       include: {
@@ -449,20 +456,24 @@ export const rejectOvertimeRequest = async (req: Request, res: Response): Promis
         client: true,
         project: true,
       },
-    });
+    }),
+    prisma.overtimeApproval.create({
+      data: {
+        overtimeRequestId: id,
+        approvedBy: userId,
+        action: 'REJECTED',
+        comments: rejectionReason,
+        previousStatus: overtimeRequest.status,
+        createdBy: userId,
+      },
+    }),
+  ]);
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: updated,
-      message: 'Overtime request rejected successfully',
-    };
+  const response: IApiResponse<any> = {
+    success: true,
+    data: updated,
+    message: 'Overtime request rejected successfully',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Reject overtime request error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import { IApiResponse } from '../types';
+import { getUserInfo } from '../utils/ownershipValidation';
+import { getRedactionViewer, redactRecord } from '../utils/redaction';
+import { validated } from '../middleware/validate';
+import { generateBankFileSchema, getBankFilesSchema, previewBankFileSchema } from '../schemas/payroll';
+import {
+  previewBankFile as previewBankFileService,
+  generateBankFile as generateBankFileService,
+  getBankFiles as getBankFilesService,
+  getBankFileById,
+} from '../services/payrollBankFileService';
+
+/**
+ * Validate the WPS bank file for a month without generating it
+ * GET /payroll/bank-files/preview?month=10&year=2025
+ */
+export const previewBankFile = async (req: Request, res: Response): Promise<Response | void> => {
+  const period = validated(req, previewBankFileSchema).query;
+
+  const preview = await previewBankFileService(period.month, period.year);
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: redactRecord(preview, null, getRedactionViewer(req)),
+    message: preview.canGenerate
+      ? 'Bank file is ready to generate'
+      : 'Bank file cannot be generated until the listed issues are fixed',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Generate the WPS SIF for all MANAGEMENT_APPROVED payrolls of a month
+ * POST /payroll/bank-files
+ * Body: { month, year }
+ * Access: FINANCE role only
+ * Action: MANAGEMENT_APPROVED → UPLOADED_TO_BANK (for every exported payroll)
+ */
+export const generateBankFile = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const period = validated(req, generateBankFileSchema).body;
+
+  const result = await generateBankFileService(period.month, period.year, userId);
+
+  if (result.status === 'empty') {
+    return res.status(400).json({
+      success: false,
+      error: `No MANAGEMENT_APPROVED payroll records found for ${period.month}/${period.year}`,
+    } as IApiResponse<null>);
+  }
+
+  if (result.status === 'invalid') {
+    return res.status(400).json({
+      success: false,
+      error: 'Bank file validation failed',
+      meta: { errors: result.errors },
+    } as IApiResponse<null>);
+  }
+
+  const { content: _content, ...bankFile } = result.bankFile;
+
+  const response: IApiResponse<any> = {
+    success: true,
+    data: bankFile,
+    message: `Bank file ${bankFile.fileName} generated with ${bankFile.recordCount} payroll record(s)`,
+  };
+
+  return res.status(201).json(response);
+};
+
+/**
+ * List generated bank files
+ * GET /payroll/bank-files?month=10&year=2025
+ */
+export const getBankFiles = async (req: Request, res: Response): Promise<Response | void> => {
+  const { month, year } = validated(req, getBankFilesSchema).query;
+
+  const bankFiles = await getBankFilesService({ month, year });
+
+  const response: IApiResponse<any[]> = {
+    success: true,
+    data: bankFiles,
+    message: 'Bank files retrieved successfully',
+  };
+
+  return res.status(200).json(response);
+};
+
+/**
+ * Download a generated SIF
+ * GET /payroll/bank-files/:id/download
+ */
+export const downloadBankFile = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = req.params;
+
+  const bankFile = await getBankFileById(id);
+  if (!bankFile) {
+    return res.status(404).json({
+      success: false,
+      error: 'Bank file not found',
+    } as IApiResponse<null>);
+  }
+
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${bankFile.fileName}"`);
+  return res.status(200).send(bankFile.content);
+};
@@ -6,8 +6,20 @@ import {
   calculateAccuratePayroll,
 } from '../utils/payrollCalculator';
 import { buildOwnershipFilter, getUserInfo } from '../utils/ownershipValidation';
+import { getRedactionViewer, redactRecord, redactRecords } from '../utils/redaction';
 import { runPayrollSync } from '../services/payrollSyncService';
 import { buildDetailedPayrollResponse, buildProrationDetails } from '../services/payrollResponseService';
+import { finalizePayslip } from '../services/payslipService';
+import { validated } from '../middleware/validate';
+import {
+  approveBankPaymentSchema,
+  generatePayrollSchema,
+  getPayrollSchema,
+  putPayrollOnHoldSchema,
+  rejectPayrollSchema,
+  uploadToBankSchema,
+} from '../schemas/payroll';
+import { logger } from '../utils/logger';
 
 /**
  * Get all payroll records with filters and pagination
@@ -16,22 +28,14 @@ import { buildDetailedPayrollResponse, buildProrationDetails } from '../services
  */
 export const getPayroll = async (req: Request, res: Response): Promise<Response | void> => {
   try {
-    const { userId, role } = getUserInfo(req);
-    const {
-      page = 1,
-      pageSize = 10,
-      status,
-      employeeId,
-      month,
-      year,
-      search,
-    } = req.query;
-
-    const skip = (Number(page) - 1) * Number(pageSize);
+    const { userId, permissions } = getUserInfo(req);
+    const { page, pageSize, status, employeeId, month, year, search } = validated(req, getPayrollSchema).query;
+
+    const skip = (page - 1) * pageSize;
     const where: any = {};
 
     // RBAC: EMPLOYEE can only see their own payroll
-    const ownershipFilter = buildOwnershipFilter(userId, role, 'employeeId');
+    const ownershipFilter = buildOwnershipFilter(userId, permissions.includes('payroll:read:all'), 'employeeId');
     if (Object.keys(ownershipFilter).length > 0) {
       where.employeeId = ownershipFilter.employeeId;
     } else if (employeeId) {
@@ -40,13 +44,13 @@ export const getPayroll = async (req: Request, res: Response): Promise<Response
     }
 
     if (status) where.status = status;
-    if (month) where.month = Number(month);
-    if (year) where.year = Number(year);
+    if (month) where.month = month;
+    if (year) where.year = year;
 
     // Build search filter for employee name
     let employeeSearchFilter: any = {};
-    if (search && typeof search === 'string' && search.trim()) {
-      const searchTerm = search.trim();
+    if (search) {
+      const searchTerm = search;
       employeeSearchFilter = {
         OR: [
           { firstName: { contains: searchTerm, mode: 'insensitive' as const } },
@@ -69,7 +73,7 @@ export const getPayroll = async (req: Request, res: Response): Promise<Response
         })
       },
       skip,
-      take: Number(pageSize),
+      take: pageSize,
       select: {
         id: true,
         employeeId: true,
@@ -167,12 +171,12 @@ export const getPayroll = async (req: Request, res: Response): Promise<Response
     const response: IApiResponse<any> = {
       success: true,
       data: {
-        payroll: detailedPayroll,
+        payroll: redactRecords(detailedPayroll, (p) => p.employeeId, getRedactionViewer(req)),
         pagination: {
-          page: Number(page),
-          pageSize: Number(pageSize),
+          page,
+          pageSize,
           total,
-          totalPages: Math.ceil(total / Number(pageSize)),
+          totalPages: Math.ceil(total / pageSize),
         },
       },
       message: 'Payroll records retrieved successfully',
@@ -180,8 +184,8 @@ export const getPayroll = async (req: Request, res: Response): Promise<Response
 
     return res.status(200).json(response);
   } catch (error: any) {
-    console.error('Get payroll error:', error);
-    console.error('Error details:', {
+    logger.error('Get payroll error', error);
+    logger.error('Error details', {
       message: error?.message,
       code: error?.code,
       meta: error?.meta,
@@ -203,107 +207,99 @@ export const getPayroll = async (req: Request, res: Response): Promise<Response
  * GET /payroll/:id
  */
 export const getPayrollById = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-
-    const payroll = await prisma.payroll.findUnique({
-      where: { id },
-      select: {
-        id: true,
-        employeeId: true,
-        month: true,
-        year: true,
-        baseSalary: true,
-        totalSalary: true,
-        allowances: true,
-        deductions: true,
-        taxDeduction: true,
-        netSalary: true,
-        status: true,
-        paidDate: true,
-        // Approval tracking fields
-        financeApprovedAt: true,
-        financeApprovedBy: true,
-        managementApprovedAt: true,
-        managementApprovedBy: true,
-        uploadedToBankAt: true,
-        uploadedToBankBy: true,
-        bankUploadReference: true,
-        bankPaymentApprovedAt: true,
-        bankPaymentApprovedBy: true,
-        bankPaymentReference: true,
-        rejectedAt: true,
-        rejectedBy: true,
-        rejectionReason: true,
-        rejectedAtStage: true,
-        onHoldAt: true,
-        onHoldBy: true,
-        onHoldReason: true,
-        onHoldHistory: true,
-        createdAt: true,
-        updatedAt: true,
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            employeeId: true,
-            designation: true,
-            baseSalary: true,
-            telephoneAllowance: true,
-            housingAllowance: true,
-            transportationAllowance: true,
-            totalSalary: true,
-            joinDate: true,
-            terminationDate: true,
-            department: {
-              select: {
-                id: true,
-                name: true,
-              },
+  const { id } = req.params;
+
+  const payroll = await prisma.payroll.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      employeeId: true,
+      month: true,
+      year: true,
+      baseSalary: true,
+      totalSalary: true,
+      allowances: true,
+      deductions: true,
+      taxDeduction: true,
+      netSalary: true,
+      status: true,
+      paidDate: true,
+      // Approval tracking fields
+      financeApprovedAt: true,
+      financeApprovedBy: true,
+      managementApprovedAt: true,
+      managementApprovedBy: true,
+      uploadedToBankAt: true,
+      uploadedToBankBy: true,
+      bankUploadReference: true,
+      bankPaymentApprovedAt: true,
+      bankPaymentApprovedBy: true,
+      bankPaymentReference: true,
+      rejectedAt: true,
+      rejectedBy: true,
+      rejectionReason: true,
+      rejectedAtStage: true,
+      onHoldAt: true,
+      onHoldBy: true,
+      onHoldReason: true,
+      onHoldHistory: true,
+      createdAt: true,
+      updatedAt: true,
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+          employeeId: true,
+          designation: true,
+          baseSalary: true,
+          telephoneAllowance: true,
+          housingAllowance: true,
+          transportationAllowance: true,
+          totalSalary: true,
+          joinDate: true,
+          terminationDate: true,
+          department: {
+            select: {
+              id: true,
+              name: true,
             },
           },
         },
       },
-    });
+    },
+  });
 
-    if (!payroll) {
-      return res.status(404).json({
-        success: false,
-        error: 'Payroll record not found',
-      } as IApiResponse<null>);
-    }
+  if (!payroll) {
+    return res.status(404).json({
+      success: false,
+      error: 'Payroll record not found',
+    } as IApiResponse<null>);
+  }
 
-    const employeeForCalculation = {
-      ...payroll.employee,
-      id: payroll.employeeId,
-      joinDate: payroll.employee?.joinDate,
-      terminationDate: payroll.employee?.terminationDate,
-    };
+  const employeeForCalculation = {
+    ...payroll.employee,
+    id: payroll.employeeId,
+    joinDate: payroll.employee?.joinDate,
+    terminationDate: payroll.employee?.terminationDate,
+  };
 
-    const calculation = await calculateAccuratePayroll(prisma, employeeForCalculation, payroll.year, payroll.month);
-    const proration = buildProrationDetails(calculation);
+  const calculation = await calculateAccuratePayroll(prisma, employeeForCalculation, payroll.year, payroll.month);
+  const proration = buildProrationDetails(calculation);
 
-    const detailedPayroll = await buildDetailedPayrollResponse(payroll, {
-      calculation,
-      proration,
-    });
+  const detailedPayroll = await buildDetailedPayrollResponse(payroll, {
+    calculation,
+    proration,
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: detailedPayroll,
-      message: 'Payroll record retrieved successfully',
-    };
+  const response: IApiResponse<any> = {
+    success: true,
+    data: redactRecord(detailedPayroll, payroll.employeeId, getRedactionViewer(req)),
+    message: 'Payroll record retrieved successfully',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Get payroll by ID error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -312,112 +308,90 @@ export const getPayrollById = async (req: Request, res: Response): Promise<Respo
  * Body: { month, year, employeeIds?, forceRegenerate? }
  */
 export const generatePayroll = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { month, year, employeeIds, forceRegenerate = false } = req.body;
+  const { month, year, employeeIds, forceRegenerate } = validated(req, generatePayrollSchema).body;
 
-    if (!month || !year) {
-      return res.status(400).json({
-        success: false,
-        error: 'Month and year are required',
-      } as IApiResponse<null>);
-    }
-
-    if (month < 1 || month > 12) {
-      return res.status(400).json({
-        success: false,
-        error: 'Month must be between 1 and 12',
-      } as IApiResponse<null>);
-    }
+  const monthStart = new Date(year, month - 1, 1);
+  const monthEnd = new Date(year, month, 0, 23, 59, 59, 999);
 
-    const monthStart = new Date(year, month - 1, 1);
-    const monthEnd = new Date(year, month, 0, 23, 59, 59, 999);
-
-    const where: any = {
-      OR: [
-        {
-          status: 'ACTIVE',
-          userStatus: 'ACTIVE',
-        },
-        {
-          status: { in: ['TERMINATED', 'EXPIRED'] },
-          terminationDate: {
-            gte: monthStart,
-          },
+  const where: any = {
+    OR: [
+      {
+        status: 'ACTIVE',
+        userStatus: 'ACTIVE',
+      },
+      {
+        status: { in: ['TERMINATED', 'EXPIRED'] },
+        terminationDate: {
+          gte: monthStart,
         },
-      ],
-      joinDate: {
-        lte: monthEnd,
       },
-    };
-
-    if (employeeIds && Array.isArray(employeeIds) && employeeIds.length > 0) {
-      where.id = { in: employeeIds };
-    }
-
-    const employees = await prisma.employee.findMany({
-      where,
-    });
+    ],
+    joinDate: {
+      lte: monthEnd,
+    },
+  };
+
+  if (employeeIds && employeeIds.length > 0) {
+    where.id = { in: employeeIds };
+  }
 
-    const createdPayrolls: any[] = [];
-    const updatedPayrolls: any[] = [];
-    const skippedPayrolls: any[] = [];
-
-    for (const employee of employees) {
-      try {
-        const result = await runPayrollSync(employee.id, {
-          month,
-          year,
-          allowCreate: true,
-          forceRegenerate,
-          meta: {
-            type: 'manual',
-          },
-        });
+  const employees = await prisma.employee.findMany({
+    where,
+  });
+
+  const createdPayrolls: any[] = [];
+  const updatedPayrolls: any[] = [];
+  const skippedPayrolls: any[] = [];
+
+  for (const employee of employees) {
+    try {
+      const result = await runPayrollSync(employee.id, {
+        month,
+        year,
+        allowCreate: true,
+        forceRegenerate,
+        meta: {
+          type: 'manual',
+        },
+      });
 
-        if (result.status === 'created' && result.payroll) {
-          createdPayrolls.push(result.payroll);
-        } else if (result.status === 'updated' && result.payroll) {
-          updatedPayrolls.push(result.payroll);
-        } else {
-          skippedPayrolls.push({
-            employeeId: employee.id,
-            reason: result.reason || 'Skipped',
-          });
-        }
-      } catch (error) {
-        console.error(`Error generating payroll for employee ${employee.id}:`, error);
+      if (result.status === 'created' && result.payroll) {
+        createdPayrolls.push(result.payroll);
+      } else if (result.status === 'updated' && result.payroll) {
+        updatedPayrolls.push(result.payroll);
+      } else {
         skippedPayrolls.push({
           employeeId: employee.id,
-          reason: `Error during payroll generation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          reason: result.reason || 'Skipped',
         });
       }
+    } catch (error) {
+      logger.error(`Error generating payroll for employee ${employee.id}`, error);
+      skippedPayrolls.push({
+        employeeId: employee.id,
+        reason: `Error during payroll generation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
     }
+  }
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: {
-        created: createdPayrolls,
-        updated: updatedPayrolls,
-        skipped: skippedPayrolls,
-        summary: {
-          totalCreated: createdPayrolls.length,
-          totalUpdated: updatedPayrolls.length,
-          totalSkipped: skippedPayrolls.length,
-          month,
-          year,
-        },
+  const response: IApiResponse<any> = {
+    success: true,
+    data: {
+      created: createdPayrolls,
+      updated: updatedPayrolls,
+      skipped: skippedPayrolls,
+      summary: {
+        totalCreated: createdPayrolls.length,
+        totalUpdated: updatedPayrolls.length,
+        totalSkipped: skippedPayrolls.length,
+        month,
+        year,
       },
-      message: `Payroll generation tasks completed for ${month}/${year}`,
-    };
+    },
+    message: `Payroll generation tasks completed for ${month}/${year}`,
+  };
 
-    return res.status(201).json(response);
-  } catch (error) {
-    console.error('Generate payroll error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(201).json(response);
 };
 
 /**
@@ -428,66 +402,58 @@ export const generatePayroll = async (req: Request, res: Response): Promise<Resp
  * Action: PENDING → FINANCE_APPROVED
  */
 export const financeApprove = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const userId = (req as any).user?.userId || (req as any).user?.id;
+  const { id } = req.params;
+  const userId = (req as any).user?.userId || (req as any).user?.id;
 
-    const payroll = await prisma.payroll.findUnique({
-      where: { id },
-    });
+  const payroll = await prisma.payroll.findUnique({
+    where: { id },
+  });
 
-    if (!payroll) {
-      return res.status(404).json({
-        success: false,
-        error: 'Payroll record not found',
-      } as IApiResponse<null>);
-    }
+  if (!payroll) {
+    return res.status(404).json({
+      success: false,
+      error: 'Payroll record not found',
+    } as IApiResponse<null>);
+  }
 
-    // Validate current status - can approve from PENDING or ON_HOLD
-    if (payroll.status !== PayrollStatus.PENDING && payroll.status !== PayrollStatus.ON_HOLD) {
-      return res.status(400).json({
-        success: false,
-        error: `Cannot approve payroll with status: ${payroll.status}. Expected status: PENDING or ON_HOLD`,
-      } as IApiResponse<null>);
-    }
+  // Validate current status - can approve from PENDING or ON_HOLD
+  if (payroll.status !== PayrollStatus.PENDING && payroll.status !== PayrollStatus.ON_HOLD) {
+    return res.status(400).json({
+      success: false,
+      error: `Cannot approve payroll with status: ${payroll.status}. Expected status: PENDING or ON_HOLD`,
+    } as IApiResponse<null>);
+  }
 
-    const updated = await prisma.payroll.update({
-      where: { id },
-      data: {
-        status: PayrollStatus.FINANCE_APPROVED,
-        financeApprovedAt: new Date(),
-        financeApprovedBy: userId,
-        // Clear onHold fields if it was on hold
-        onHoldAt: null,
-        onHoldBy: null,
-        onHoldReason: null,
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+  const updated = await prisma.payroll.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.FINANCE_APPROVED,
+      financeApprovedAt: new Date(),
+      financeApprovedBy: userId,
+      // Clear onHold fields if it was on hold
+      onHoldAt: null,
+      onHoldBy: null,
+      onHoldReason: null,
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
         },
       },
-    });
+    },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: updated,
-      message: 'Payroll approved by Finance',
-    };
+  const response: IApiResponse<any> = {
+    success: true,
+    data: redactRecord(updated, updated.employeeId, getRedactionViewer(req)),
+    message: 'Payroll approved by Finance',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Finance approve error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -498,62 +464,54 @@ export const financeApprove = async (req: Request, res: Response): Promise<Respo
  * Action: FINANCE_APPROVED → MANAGEMENT_APPROVED
  */
 export const managementApprove = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const userId = (req as any).user?.userId || (req as any).user?.id;
+  const { id } = req.params;
+  const userId = (req as any).user?.userId || (req as any).user?.id;
 
-    const payroll = await prisma.payroll.findUnique({
-      where: { id },
-    });
+  const payroll = await prisma.payroll.findUnique({
+    where: { id },
+  });
 
-    if (!payroll) {
-      return res.status(404).json({
-        success: false,
-        error: 'Payroll record not found',
-      } as IApiResponse<null>);
-    }
+  if (!payroll) {
+    return res.status(404).json({
+      success: false,
+      error: 'Payroll record not found',
+    } as IApiResponse<null>);
+  }
 
-    // Validate current status
-    if (payroll.status !== PayrollStatus.FINANCE_APPROVED) {
-      return res.status(400).json({
-        success: false,
-        error: `Cannot approve payroll with status: ${payroll.status}. Expected status: FINANCE_APPROVED`,
-      } as IApiResponse<null>);
-    }
+  // Validate current status
+  if (payroll.status !== PayrollStatus.FINANCE_APPROVED) {
+    return res.status(400).json({
+      success: false,
+      error: `Cannot approve payroll with status: ${payroll.status}. Expected status: FINANCE_APPROVED`,
+    } as IApiResponse<null>);
+  }
 
-    const updated = await prisma.payroll.update({
-      where: { id },
-      data: {
-        status: PayrollStatus.MANAGEMENT_APPROVED,
-        managementApprovedAt: new Date(),
-        managementApprovedBy: userId,
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+  const updated = await prisma.payroll.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.MANAGEMENT_APPROVED,
+      managementApprovedAt: new Date(),
+      managementApprovedBy: userId,
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
         },
       },
-    });
+    },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: updated,
-      message: 'Payroll approved by Management',
-    };
+  const response: IApiResponse<any> = {
+    success: true,
+    data: redactRecord(updated, updated.employeeId, getRedactionViewer(req)),
+    message: 'Payroll approved by Management',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Management approve error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -564,64 +522,55 @@ export const managementApprove = async (req: Request, res: Response): Promise<Re
  * Action: MANAGEMENT_APPROVED → UPLOADED_TO_BANK
  */
 export const uploadToBank = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const { bankReference } = req.body;
-    const userId = (req as any).user?.userId || (req as any).user?.id;
+  const { params: { id }, body: { bankReference } } = validated(req, uploadToBankSchema);
+  const userId = (req as any).user?.userId || (req as any).user?.id;
 
-    const payroll = await prisma.payroll.findUnique({
-      where: { id },
-    });
+  const payroll = await prisma.payroll.findUnique({
+    where: { id },
+  });
 
-    if (!payroll) {
-      return res.status(404).json({
-        success: false,
-        error: 'Payroll record not found',
-      } as IApiResponse<null>);
-    }
+  if (!payroll) {
+    return res.status(404).json({
+      success: false,
+      error: 'Payroll record not found',
+    } as IApiResponse<null>);
+  }
 
-    // Validate current status
-    if (payroll.status !== PayrollStatus.MANAGEMENT_APPROVED) {
-      return res.status(400).json({
-        success: false,
-        error: `Cannot upload to bank with status: ${payroll.status}. Expected status: MANAGEMENT_APPROVED`,
-      } as IApiResponse<null>);
-    }
+  // Validate current status
+  if (payroll.status !== PayrollStatus.MANAGEMENT_APPROVED) {
+    return res.status(400).json({
+      success: false,
+      error: `Cannot upload to bank with status: ${payroll.status}. Expected status: MANAGEMENT_APPROVED`,
+    } as IApiResponse<null>);
+  }
 
-    const updated = await prisma.payroll.update({
-      where: { id },
-      data: {
-        status: PayrollStatus.UPLOADED_TO_BANK,
-        uploadedToBankAt: new Date(),
-        uploadedToBankBy: userId,
-        bankUploadReference: bankReference || null,
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+  const updated = await prisma.payroll.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.UPLOADED_TO_BANK,
+      uploadedToBankAt: new Date(),
+      uploadedToBankBy: userId,
+      bankUploadReference: bankReference || null,
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
         },
       },
-    });
+    },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: updated,
-      message: 'Payroll uploaded to bank',
-    };
+  const response: IApiResponse<any> = {
+    success: true,
+    data: redactRecord(updated, updated.employeeId, getRedactionViewer(req)),
+    message: 'Payroll uploaded to bank',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Upload to bank error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -632,65 +581,61 @@ export const uploadToBank = async (req: Request, res: Response): Promise<Respons
  * Action: UPLOADED_TO_BANK → BANK_PAYMENT_APPROVED
  */
 export const approveBankPayment = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const { paymentReference } = req.body;
-    const userId = (req as any).user?.userId || (req as any).user?.id;
+  const { params: { id }, body: { paymentReference } } = validated(req, approveBankPaymentSchema);
+  const userId = (req as any).user?.userId || (req as any).user?.id;
 
-    const payroll = await prisma.payroll.findUnique({
-      where: { id },
-    });
+  const payroll = await prisma.payroll.findUnique({
+    where: { id },
+  });
 
-    if (!payroll) {
-      return res.status(404).json({
-        success: false,
-        error: 'Payroll record not found',
-      } as IApiResponse<null>);
-    }
+  if (!payroll) {
+    return res.status(404).json({
+      success: false,
+      error: 'Payroll record not found',
+    } as IApiResponse<null>);
+  }
 
-    // Validate current status
-    if (payroll.status !== PayrollStatus.UPLOADED_TO_BANK) {
-      return res.status(400).json({
-        success: false,
-        error: `Cannot approve bank payment with status: ${payroll.status}. Expected status: UPLOADED_TO_BANK`,
-      } as IApiResponse<null>);
-    }
+  // Validate current status
+  if (payroll.status !== PayrollStatus.UPLOADED_TO_BANK) {
+    return res.status(400).json({
+      success: false,
+      error: `Cannot approve bank payment with status: ${payroll.status}. Expected status: UPLOADED_TO_BANK`,
+    } as IApiResponse<null>);
+  }
 
-    const updated = await prisma.payroll.update({
-      where: { id },
-      data: {
-        status: PayrollStatus.BANK_PAYMENT_APPROVED,
-        bankPaymentApprovedAt: new Date(),
-        bankPaymentApprovedBy: userId,
-        bankPaymentReference: paymentReference || null,
-        paidDate: new Date(), // Set paid date when payment is confirmed
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+  const updated = await prisma.payroll.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.BANK_PAYMENT_APPROVED,
+      bankPaymentApprovedAt: new Date(),
+      bankPaymentApprovedBy: userId,
+      bankPaymentReference: paymentReference || null,
+      paidDate: new Date(), // Set paid date when payment is confirmed
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
         },
       },
-    });
+    },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: updated,
-      message: 'Payroll marked as paid',
-    };
+  // Store the final payslip in the background - downloads fall back to generating it if this fails
+  finalizePayslip(id, userId).catch((error) => {
+    logger.error(`Error storing payslip for payroll ${id}`, error);
+  });
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Approve bank payment error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  const response: IApiResponse<any> = {
+    success: true,
+    data: redactRecord(updated, updated.employeeId, getRedactionViewer(req)),
+    message: 'Payroll marked as paid',
+  };
+
+  return res.status(200).json(response);
 };
 
 /**
@@ -701,96 +646,81 @@ export const approveBankPayment = async (req: Request, res: Response): Promise<R
  * Action: Current Status → REJECTED
  */
 export const rejectPayroll = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const { rejectionReason } = req.body;
-    const userId = (req as any).user?.userId || (req as any).user?.id;
-    const { role } = getUserInfo(req);
-
-    if (!rejectionReason) {
-      return res.status(400).json({
-        success: false,
-        error: 'Rejection reason is required',
-      } as IApiResponse<null>);
-    }
+  const { params: { id }, body: { rejectionReason } } = validated(req, rejectPayrollSchema);
+  const userId = (req as any).user?.userId || (req as any).user?.id;
+  const { permissions } = getUserInfo(req);
 
-    const payroll = await prisma.payroll.findUnique({
-      where: { id },
-    });
 
-    if (!payroll) {
-      return res.status(404).json({
-        success: false,
-        error: 'Payroll record not found',
-      } as IApiResponse<null>);
-    }
+  const payroll = await prisma.payroll.findUnique({
+    where: { id },
+  });
 
-    // Cannot reject completed payroll
-    if (payroll.status === PayrollStatus.BANK_PAYMENT_APPROVED) {
-      return res.status(400).json({
-        success: false,
-        error: 'Cannot reject completed payroll',
-      } as IApiResponse<null>);
-    }
+  if (!payroll) {
+    return res.status(404).json({
+      success: false,
+      error: 'Payroll record not found',
+    } as IApiResponse<null>);
+  }
 
-    // Only Management can reject (Finance uses "On Hold" instead)
-    if (role !== 'MANAGEMENT') {
-      return res.status(403).json({
-        success: false,
-        error: 'Only Management can reject payroll. Finance should use "On Hold" instead.',
-      } as IApiResponse<null>);
-    }
+  // Cannot reject completed payroll
+  if (payroll.status === PayrollStatus.BANK_PAYMENT_APPROVED) {
+    return res.status(400).json({
+      success: false,
+      error: 'Cannot reject completed payroll',
+    } as IApiResponse<null>);
+  }
 
-    // Rejected records go back to PENDING for Finance to fix
-    const updated = await prisma.payroll.update({
-      where: { id },
-      data: {
-        status: PayrollStatus.PENDING, // Go back to PENDING for Finance to fix
-        rejectedAt: new Date(),
-        rejectedBy: userId,
-        rejectionReason,
-        rejectedAtStage: payroll.status, // Track which stage it was rejected at
-        // Clear approval fields since it's going back to PENDING
-        financeApprovedAt: null,
-        financeApprovedBy: null,
-        managementApprovedAt: null,
-        managementApprovedBy: null,
-        uploadedToBankAt: null,
-        uploadedToBankBy: null,
-        bankUploadReference: null,
-        bankPaymentApprovedAt: null,
-        bankPaymentApprovedBy: null,
-        bankPaymentReference: null,
-        onHoldAt: null,
-        onHoldBy: null,
-        onHoldReason: null,
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+  // Only Management can reject (Finance uses "On Hold" instead)
+  if (!permissions.includes('payroll:reject')) {
+    return res.status(403).json({
+      success: false,
+      error: 'Only Management can reject payroll. Finance should use "On Hold" instead.',
+    } as IApiResponse<null>);
+  }
+
+  // Rejected records go back to PENDING for Finance to fix
+  const updated = await prisma.payroll.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.PENDING, // Go back to PENDING for Finance to fix
+      rejectedAt: new Date(),
+      rejectedBy: userId,
+      rejectionReason,
+      rejectedAtStage: payroll.status, // Track which stage it was rejected at
+      // Clear approval fields since it's going back to PENDING
+      financeApprovedAt: null,
+      financeApprovedBy: null,
+      managementApprovedAt: null,
+      managementApprovedBy: null,
+      uploadedToBankAt: null,
+      uploadedToBankBy: null,
+      bankUploadReference: null,
+      bankPaymentApprovedAt: null,
+      bankPaymentApprovedBy: null,
+      bankPaymentReference: null,
+      onHoldAt: null,
+      onHoldBy: null,
+      onHoldReason: null,
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
         },
       },
-    });
+    },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: updated,
-      message: 'Payroll rejected and returned to PENDING for Finance to fix',
-    };
+  const response: IApiResponse<any> = {
+    success: true,
+    data: redactRecord(updated, updated.employeeId, getRedactionViewer(req)),
+    message: 'Payroll rejected and returned to PENDING for Finance to fix',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Reject payroll error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
 /**
@@ -801,89 +731,74 @@ export const rejectPayroll = async (req: Request, res: Response): Promise<Respon
  * Action: Any status except BANK_PAYMENT_APPROVED → ON_HOLD
  */
 export const putOnHold = async (req: Request, res: Response): Promise<Response | void> => {
-  try {
-    const { id } = req.params;
-    const { onHoldReason } = req.body;
-    const userId = (req as any).user?.userId || (req as any).user?.id;
-    const { role } = getUserInfo(req);
-
-    if (!onHoldReason || !onHoldReason.trim()) {
-      return res.status(400).json({
-        success: false,
-        error: 'On hold reason is required',
-      } as IApiResponse<null>);
-    }
+  const { params: { id }, body: { onHoldReason } } = validated(req, putPayrollOnHoldSchema);
+  const userId = (req as any).user?.userId || (req as any).user?.id;
+  const { permissions } = getUserInfo(req);
 
-    // Only Finance and Management can put records on hold
-    if (role !== 'FINANCE' && role !== 'MANAGEMENT') {
-      return res.status(403).json({
-        success: false,
-        error: 'Only Finance or Management can put payroll on hold',
-      } as IApiResponse<null>);
-    }
 
-    const payroll = await prisma.payroll.findUnique({
-      where: { id },
-    });
+  // Only Finance and Management can put records on hold
+  if (!permissions.includes('payroll:hold')) {
+    return res.status(403).json({
+      success: false,
+      error: 'Only Finance or Management can put payroll on hold',
+    } as IApiResponse<null>);
+  }
 
-    if (!payroll) {
-      return res.status(404).json({
-        success: false,
-        error: 'Payroll record not found',
-      } as IApiResponse<null>);
-    }
+  const payroll = await prisma.payroll.findUnique({
+    where: { id },
+  });
 
-    // Cannot put completed payroll on hold
-    if (payroll.status === PayrollStatus.BANK_PAYMENT_APPROVED) {
-      return res.status(400).json({
-        success: false,
-        error: 'Cannot put completed payroll on hold',
-      } as IApiResponse<null>);
-    }
+  if (!payroll) {
+    return res.status(404).json({
+      success: false,
+      error: 'Payroll record not found',
+    } as IApiResponse<null>);
+  }
 
-    // Get existing hold history or initialize empty array
-    const existingHistory = (payroll.onHoldHistory as any[]) || [];
-    const newHoldEntry = {
-      at: new Date().toISOString(),
-      by: userId,
-      reason: onHoldReason.trim(),
-    };
-    const updatedHistory = [...existingHistory, newHoldEntry];
+  // Cannot put completed payroll on hold
+  if (payroll.status === PayrollStatus.BANK_PAYMENT_APPROVED) {
+    return res.status(400).json({
+      success: false,
+      error: 'Cannot put completed payroll on hold',
+    } as IApiResponse<null>);
+  }
 
-    const updated = await prisma.payroll.update({
-      where: { id },
-      data: {
-        status: PayrollStatus.ON_HOLD,
-        onHoldAt: new Date(),
-        onHoldBy: userId,
-        onHoldReason: onHoldReason.trim(),
-        onHoldHistory: updatedHistory,
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+  // Get existing hold history or initialize empty array
+  const existingHistory = (payroll.onHoldHistory as any[]) || [];
+  const newHoldEntry = {
+    at: new Date().toISOString(),
+    by: userId,
+    reason: onHoldReason.trim(),
+  };
+  const updatedHistory = [...existingHistory, newHoldEntry];
+
+  const updated = await prisma.payroll.update({
+    where: { id },
+    data: {
+      status: PayrollStatus.ON_HOLD,
+      onHoldAt: new Date(),
+      onHoldBy: userId,
+      onHoldReason: onHoldReason.trim(),
+      onHoldHistory: updatedHistory,
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
         },
       },
-    });
+    },
+  });
 
-    const response: IApiResponse<any> = {
-      success: true,
-      data: updated,
-      message: 'Payroll put on hold',
-    };
+  const response: IApiResponse<any> = {
+    success: true,
+    data: redactRecord(updated, updated.employeeId, getRedactionViewer(req)),
+    message: 'Payroll put on hold',
+  };
 
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error('Put on hold error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-    } as IApiResponse<null>);
-  }
+  return res.status(200).json(response);
 };
 
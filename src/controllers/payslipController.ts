@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import { PayrollStatus } from '@prisma/client';
+import { IApiResponse } from '../types';
+import { canAccessResource, getUserInfo } from '../utils/ownershipValidation';
+import { validated } from '../middleware/validate';
+import { downloadMonthlyPayslipsSchema } from '../schemas/payroll';
+import {
+  getPayslipPayroll,
+  getPayslipFile,
+  getMonthlyPayslipPayrolls,
+  writePayslipArchive,
+} from '../services/payslipService';
+import { logger } from '../utils/logger';
+
+/**
+ * Download the payslip PDF of a payroll record
+ * GET /payroll/:id/payslip
+ * Access: EMPLOYEE (own, paid payrolls only), HR, FINANCE, MANAGEMENT
+ */
+export const downloadPayslip = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId, permissions } = getUserInfo(req);
+  const { id } = req.params;
+
+  const payroll = await getPayslipPayroll(id);
+
+  // Same 404 for other employees' payrolls so IDs can't be probed
+  if (!payroll || !canAccessResource(payroll.employeeId, userId, permissions.includes('payroll:read:all'))) {
+    return res.status(404).json({
+      success: false,
+      error: 'Payroll record not found',
+    } as IApiResponse<null>);
+  }
+
+  if (!permissions.includes('payroll:read:all') && payroll.status !== PayrollStatus.BANK_PAYMENT_APPROVED) {
+    return res.status(400).json({
+      success: false,
+      error: 'Payslip is available once the salary has been paid',
+    } as IApiResponse<null>);
+  }
+
+  const payslip = await getPayslipFile(payroll, userId);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${payslip.fileName}"`);
+  res.setHeader('X-Payslip-Final', String(payslip.isFinal));
+  return res.status(200).send(payslip.buffer);
+};
+
+/**
+ * Download all payslips of a month as a ZIP
+ * GET /payroll/payslips/bulk?month=10&year=2025&status=BANK_PAYMENT_APPROVED
+ * Access: FINANCE, MANAGEMENT
+ */
+export const downloadMonthlyPayslips = async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { userId } = getUserInfo(req);
+    const { month, year, status } = validated(req, downloadMonthlyPayslipsSchema).query;
+
+    const payrolls = await getMonthlyPayslipPayrolls(month, year, status);
+    if (payrolls.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: `No payroll records found for ${month}/${year}`,
+      } as IApiResponse<null>);
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="Payslips_${year}-${String(month).padStart(2, '0')}.zip"`
+    );
+
+    const result = await writePayslipArchive(payrolls, res, userId);
+    if (result.failed.length > 0) {
+      logger.warn(`${result.failed.length} payslip(s) failed for ${month}/${year}`);
+    }
+  } catch (error) {
+    logger.error('Download monthly payslips error', error);
+    if (res.headersSent) {
+      // ZIP stream already started - the client gets a truncated download
+      res.destroy();
+      return;
+    }
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } as IApiResponse<null>);
+  }
+};
@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import { PermissionEffect } from '@prisma/client';
+import { prisma } from '../index';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { IApiResponse } from '../types';
+import { getUserInfo } from '../utils/ownershipValidation';
+import { PERMISSIONS, ROLE_PERMISSIONS, resolvePermissions } from '../utils/permissions';
+import { setPermissionOverride, removePermissionOverride } from '../services/permissionService';
+import { validated } from '../middleware/validate';
+import { deletePermissionOverrideSchema, upsertPermissionOverrideSchema } from '../schemas/employees';
+
+/**
+ * Get the permission catalogue and the default permissions of each role
+ * GET /permissions
+ */
+export const getPermissionCatalogue = async (_req: Request, res: Response): Promise<Response | void> => {
+  return res.status(200).json({
+    success: true,
+    data: {
+      permissions: Object.entries(PERMISSIONS).map(([permission, description]) => ({ permission, description })),
+      roles: ROLE_PERMISSIONS,
+    },
+    message: 'Permission catalogue retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Get the current user's effective permissions
+ * GET /permissions/me
+ */
+export const getMyPermissions = async (req: Request, res: Response): Promise<Response | void> => {
+  const { role, permissions } = getUserInfo(req);
+
+  return res.status(200).json({
+    success: true,
+    data: { role, permissions },
+    message: 'Permissions retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Get an employee's effective permissions and overrides
+ * GET /employees/:id/permissions
+ */
+export const getEmployeePermissions = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = req.params;
+
+  const employee = await prisma.employee.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      role: true,
+      permissionOverrides: { orderBy: { permission: 'asc' } },
+    },
+  });
+
+  if (!employee) {
+    throw new NotFoundError('Employee not found');
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      employeeId: employee.id,
+      role: employee.role,
+      rolePermissions: resolvePermissions(employee.role),
+      overrides: employee.permissionOverrides,
+      permissions: resolvePermissions(employee.role, employee.permissionOverrides),
+    },
+    message: 'Employee permissions retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Grant or revoke a permission for an employee
+ * PUT /employees/:id/permissions/overrides
+ * Body: { permission, effect: 'GRANT' | 'REVOKE', reason? }
+ */
+export const upsertEmployeePermissionOverride = async (req: Request, res: Response): Promise<Response | void> => {
+  const { params: { id }, body: { permission, effect, reason } } = validated(req, upsertPermissionOverrideSchema);
+  const { userId } = getUserInfo(req);
+
+  // Nobody may widen or narrow their own access
+  if (id === userId) {
+    throw new ForbiddenError('You cannot change your own permissions');
+  }
+
+  const employee = await prisma.employee.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+
+  if (!employee) {
+    throw new NotFoundError('Employee not found');
+  }
+
+  const override = await setPermissionOverride({
+    employeeId: id,
+    permission,
+    effect,
+    reason,
+    actorId: userId,
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: override,
+    message: `Permission ${permission} ${effect === PermissionEffect.GRANT ? 'granted' : 'revoked'} successfully`,
+  } as IApiResponse<any>);
+};
+
+/**
+ * Remove a permission override, restoring the role default
+ * DELETE /employees/:id/permissions/overrides/:permission
+ */
+export const deleteEmployeePermissionOverride = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id, permission } = validated(req, deletePermissionOverrideSchema).params;
+  const { userId } = getUserInfo(req);
+
+  if (id === userId) {
+    throw new ForbiddenError('You cannot change your own permissions');
+  }
+
+  const removed = await removePermissionOverride(id, permission);
+  if (!removed) {
+    throw new NotFoundError('Permission override not found');
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: null,
+    message: 'Permission override removed successfully',
+  } as IApiResponse<null>);
+};
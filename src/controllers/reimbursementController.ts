@@ -1,8 +1,19 @@
 import { Request, Response } from 'express';
 import { ReimbursementStatus } from '@prisma/client';
 import { prisma } from '../index';
-import { getUserInfo, buildOwnershipFilter } from '../utils/ownershipValidation';
+import { getUserInfo } from '../utils/ownershipValidation';
+import { hasPermission } from '../utils/permissions';
+import { buildTeamScopeFilter, getApprovalAuthority, hasLineManager } from '../utils/reportingLine';
 import { schedulePayrollSyncForReimbursement } from '../services/payrollSyncService';
+import { validated } from '../middleware/validate';
+import {
+  getReimbursementsSchema,
+  markReimbursementPaidSchema,
+  putReimbursementOnHoldSchema,
+  rejectReimbursementSchema,
+  submitReimbursementSchema,
+  uploadReimbursementToBankSchema,
+} from '../schemas/reimbursements';
 
 const reimbursementInclude = {
   employee: {
@@ -23,87 +34,65 @@ const reimbursementInclude = {
  * POST /reimbursements
  */
 export const submitReimbursement = async (req: Request, res: Response) => {
-  try {
-    const { employeeId: bodyEmployeeId, amount, reimbursementTypeId, description, receiptUrl, expenseDate } = req.body;
-    const { userId, role } = getUserInfo(req);
-    
-    // Use employeeId from body if provided (for HR/Management), otherwise use logged-in user's ID
-    // HR, MANAGEMENT, and FINANCE can submit for other employees
-    const canSubmitForOthers = ['HR', 'MANAGEMENT', 'FINANCE'].includes(role);
-    const employeeId = (canSubmitForOthers && bodyEmployeeId) ? bodyEmployeeId : userId;
-
-    // Validate required fields
-    if (!amount || !reimbursementTypeId || !description || !expenseDate || !employeeId) {
-      return res.status(400).json({
-        success: false,
-        message: 'Missing required fields: amount, reimbursementTypeId, description, expenseDate, employeeId',
-      });
-    }
-
-    // Validate amount
-    if (amount <= 0) {
-      return res.status(400).json({
-        success: false,
-        message: 'Amount must be greater than 0',
-      });
-    }
-
-    // Check if reimbursement type exists and is active
-    const reimbursementType = await (prisma as any).reimbursementType.findUnique({
-      where: { id: reimbursementTypeId },
+  const { employeeId: bodyEmployeeId, amount, reimbursementTypeId, description, receiptUrl, expenseDate } = validated(
+    req,
+    submitReimbursementSchema
+  ).body;
+  const { userId } = getUserInfo(req);
+  
+  // Use employeeId from body if provided (for HR/Management), otherwise use logged-in user's ID
+  const canSubmitForOthers = hasPermission(req, 'reimbursement:submit:others');
+  const employeeId = (canSubmitForOthers && bodyEmployeeId) ? bodyEmployeeId : userId;
+
+  // Check if reimbursement type exists and is active
+  const reimbursementType = await prisma.reimbursementType.findUnique({
+    where: { id: reimbursementTypeId },
+  });
+
+  if (!reimbursementType) {
+    return res.status(404).json({
+      success: false,
+      message: 'Reimbursement type not found',
     });
+  }
 
-    if (!reimbursementType) {
-      return res.status(404).json({
-        success: false,
-        message: 'Reimbursement type not found',
-      });
-    }
-
-    if (!reimbursementType.isActive) {
-      return res.status(400).json({
-        success: false,
-        message: 'This reimbursement type is no longer available',
-      });
-    }
+  if (!reimbursementType.isActive) {
+    return res.status(400).json({
+      success: false,
+      message: 'This reimbursement type is no longer available',
+    });
+  }
 
-    // Create reimbursement
-    const reimbursement = await prisma.reimbursement.create({
-      data: {
-        employeeId,
-        reimbursementTypeId,
-        amount,
-        description,
-        receiptUrl: receiptUrl || null,
-        expenseDate: new Date(expenseDate),
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            employeeId: true,
-            designation: true,
-          },
+  // Create reimbursement
+  const reimbursement = await prisma.reimbursement.create({
+    data: {
+      employeeId,
+      reimbursementTypeId,
+      amount,
+      description,
+      receiptUrl: receiptUrl || null,
+      expenseDate,
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+          employeeId: true,
+          designation: true,
         },
-        reimbursementType: true,
       },
-    });
+      reimbursementType: true,
+    },
+  });
 
-    return res.status(201).json({
-      success: true,
-      data: reimbursement,
-      message: 'Reimbursement claim submitted successfully',
-    });
-  } catch (error) {
-    console.error('Error submitting reimbursement:', error);
-    return res.status(500).json({
-      success: false,
-      message: 'Failed to submit reimbursement claim',
-    });
-  }
+  return res.status(201).json({
+    success: true,
+    data: reimbursement,
+    message: 'Reimbursement claim submitted successfully',
+  });
 };
 
 /**
@@ -111,89 +100,142 @@ export const submitReimbursement = async (req: Request, res: Response) => {
  * GET /reimbursements
  */
 export const getReimbursements = async (req: Request, res: Response) => {
-  try {
-    const { userId, role } = getUserInfo(req);
-    const { page = 1, pageSize = 10, status, employeeId, reimbursementTypeId, startDate, endDate, month, year } = req.query;
-
-    const pageNum = parseInt(page as string) || 1;
-    const pageSizeNum = parseInt(pageSize as string) || 10;
-    const skip = (pageNum - 1) * pageSizeNum;
-
-    // Build filter
-    const where: any = {};
-
-    // RBAC: EMPLOYEE can only see their own reimbursements
-    const ownershipFilter = buildOwnershipFilter(userId, role, 'employeeId');
-    if (Object.keys(ownershipFilter).length > 0) {
-      where.employeeId = ownershipFilter.employeeId;
-    } else if (employeeId) {
-      // Privileged roles can filter by employeeId if provided
-      where.employeeId = employeeId;
-    }
+  const { userId } = getUserInfo(req);
+  const { page, pageSize, status, employeeId, reimbursementTypeId, startDate, endDate, month, year } = validated(
+    req,
+    getReimbursementsSchema
+  ).query;
+  const skip = (page - 1) * pageSize;
+
+  // Build filter
+  const where: any = {};
+
+  // RBAC: reimbursement:read:all sees all (optionally filtered by employeeId),
+  // line managers see their own and their reports', everyone else their own
+  Object.assign(
+    where,
+    await buildTeamScopeFilter(
+      userId,
+      hasPermission(req, 'reimbursement:read:all'),
+      'employeeId',
+      employeeId
+    )
+  );
+
+  if (status) {
+    where.status = status;
+  }
 
-    if (status) {
-      where.status = status;
-    }
+  if (reimbursementTypeId) {
+    where.reimbursementTypeId = reimbursementTypeId;
+  }
 
-    if (reimbursementTypeId) {
-      where.reimbursementTypeId = reimbursementTypeId;
+  // Filter by expense date (month/year) or startDate/endDate
+  if (month && year) {
+    // Day 0 of the next month is the last day of the selected month
+    where.expenseDate = {
+      gte: new Date(year, month - 1, 1),
+      lte: new Date(year, month, 0, 23, 59, 59, 999),
+    };
+  } else if (startDate || endDate) {
+    where.expenseDate = {};
+    if (startDate) {
+      where.expenseDate.gte = startDate;
     }
-
-    // Filter by expense date (month/year) or startDate/endDate
-    if (month && year) {
-      const monthNum = parseInt(month as string);
-      const yearNum = parseInt(year as string);
-      if (!isNaN(monthNum) && !isNaN(yearNum) && monthNum >= 1 && monthNum <= 12 && yearNum > 0) {
-        const startOfMonth = new Date(yearNum, monthNum - 1, 1);
-        // Get last day of the selected month (monthNum + 1 gives the next month, 0 gives last day of previous)
-        const endOfMonth = new Date(yearNum, monthNum, 0, 23, 59, 59, 999);
-        where.expenseDate = {
-          gte: startOfMonth,
-          lte: endOfMonth,
-        };
-      }
-    } else if (startDate || endDate) {
-      where.expenseDate = {};
-      if (startDate) {
-        where.expenseDate.gte = new Date(startDate as string);
-      }
-      if (endDate) {
-        where.expenseDate.lte = new Date(endDate as string);
-      }
+    if (endDate) {
+      where.expenseDate.lte = endDate;
     }
+  }
 
-    // Get total count
-    const total = await prisma.reimbursement.count({ where });
+  // Get total count
+  const total = await prisma.reimbursement.count({ where });
+
+  // Get reimbursements
+  const reimbursements = await prisma.reimbursement.findMany({
+    where,
+    include: reimbursementInclude,
+    orderBy: { expenseDate: 'desc' },
+    skip,
+    take: pageSize,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      reimbursements,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        pages: Math.ceil(total / pageSize),
+      },
+    },
+    message: 'Reimbursement claims retrieved successfully',
+  });
+};
+
+/**
+ * Line manager approval (first stage) - records manager sign-off, status stays PENDING/ON_HOLD
+ * POST /reimbursements/:id/manager-approve
+ */
+export const managerApproveReimbursement = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { userId } = getUserInfo(req);
+
+  const reimbursement = await prisma.reimbursement.findUnique({
+    where: { id },
+    include: reimbursementInclude,
+  });
+
+  if (!reimbursement) {
+    return res.status(404).json({
+      success: false,
+      message: 'Reimbursement claim not found',
+    });
+  }
 
-    // Get reimbursements
-    const reimbursements = await prisma.reimbursement.findMany({
-      where,
-      include: reimbursementInclude,
-      orderBy: { expenseDate: 'desc' },
-      skip,
-      take: pageSizeNum,
+  // Only line managers act at this stage; Finance and Management approve afterwards
+  const authority = await getApprovalAuthority(userId, false, reimbursement.employeeId);
+  if (!authority.allowed) {
+    return res.status(403).json({
+      success: false,
+      message: authority.reason,
     });
+  }
 
-    res.json({
-      success: true,
-      data: {
-        reimbursements,
-        pagination: {
-          page: pageNum,
-          pageSize: pageSizeNum,
-          total,
-          pages: Math.ceil(total / pageSizeNum),
-        },
-      },
-      message: 'Reimbursement claims retrieved successfully',
+  const managerApprovableStatuses: ReimbursementStatus[] = [
+    ReimbursementStatus.PENDING,
+    ReimbursementStatus.ON_HOLD,
+  ];
+
+  if (!managerApprovableStatuses.includes(reimbursement.status)) {
+    return res.status(400).json({
+      success: false,
+      message: `Cannot manager-approve reimbursement in status: ${reimbursement.status}`,
     });
-  } catch (error) {
-    console.error('Error fetching reimbursements:', error);
-    res.status(500).json({
+  }
+
+  if (reimbursement.managerApprovedAt) {
+    return res.status(400).json({
       success: false,
-      message: 'Failed to fetch reimbursement claims',
+      message: 'Reimbursement has already been approved by a line manager',
     });
   }
+
+  const updated = await prisma.reimbursement.update({
+    where: { id },
+    data: {
+      managerApprovedAt: new Date(),
+      managerApprovedBy: userId,
+    },
+    include: reimbursementInclude,
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: 'Reimbursement approved by line manager, awaiting Finance approval',
+  });
 };
 
 /**
@@ -201,62 +243,74 @@ export const getReimbursements = async (req: Request, res: Response) => {
  * POST /reimbursements/:id/finance-approve
  */
 export const financeApproveReimbursement = async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { userId } = getUserInfo(req);
-    const approverId = userId || (req as any).user?.id || (req as any).user?.email;
-
-    const reimbursement = await prisma.reimbursement.findUnique({
-      where: { id },
-      include: reimbursementInclude,
-    });
+  const { id } = req.params;
+  const { userId } = getUserInfo(req);
+  const approverId = userId || (req as any).user?.id || (req as any).user?.email;
 
-    if (!reimbursement) {
-      return res.status(404).json({
-        success: false,
-        message: 'Reimbursement claim not found',
-      });
-    }
+  const reimbursement = await prisma.reimbursement.findUnique({
+    where: { id },
+    include: reimbursementInclude,
+  });
 
-    const financeApprovableStatuses: ReimbursementStatus[] = [
-      ReimbursementStatus.PENDING,
-      ReimbursementStatus.ON_HOLD,
-    ];
-
-    if (!financeApprovableStatuses.includes(reimbursement.status)) {
-      return res.status(400).json({
-        success: false,
-        message: `Cannot finance-approve reimbursement in status: ${reimbursement.status}`,
-      });
-    }
+  if (!reimbursement) {
+    return res.status(404).json({
+      success: false,
+      message: 'Reimbursement claim not found',
+    });
+  }
 
-    const updated = await prisma.reimbursement.update({
-      where: { id },
-      data: {
-        status: ReimbursementStatus.FINANCE_APPROVED,
-        financeApprovedAt: new Date(),
-        financeApprovedBy: approverId,
-        onHoldAt: null,
-        onHoldBy: null,
-        onHoldReason: null,
-      },
-      include: reimbursementInclude,
+  if (reimbursement.employeeId === userId) {
+    return res.status(403).json({
+      success: false,
+      message: 'You cannot approve or reject your own request',
     });
+  }
 
-    schedulePayrollSyncForReimbursement(updated);
+  const financeApprovableStatuses: ReimbursementStatus[] = [
+    ReimbursementStatus.PENDING,
+    ReimbursementStatus.ON_HOLD,
+  ];
 
-    return res.status(200).json({
-      success: true,
-      data: updated,
-      message: 'Reimbursement approved by Finance',
+  if (!financeApprovableStatuses.includes(reimbursement.status)) {
+    return res.status(400).json({
+      success: false,
+      message: `Cannot finance-approve reimbursement in status: ${reimbursement.status}`,
     });
-  } catch (error) {
-    console.error('Finance approve reimbursement error:', error);
-    return res.status(500).json({
+  }
+
+  // Claims of employees with a line manager need the manager's sign-off first
+  // (holders of the Management approval may override)
+  if (
+    !reimbursement.managerApprovedAt &&
+    !hasPermission(req, 'reimbursement:approve:management') &&
+    (await hasLineManager(reimbursement.employeeId))
+  ) {
+    return res.status(400).json({
       success: false,
-      message: 'Failed to approve reimbursement',
+      message: 'Reimbursement is awaiting line manager approval',
     });
   }
+
+  const updated = await prisma.reimbursement.update({
+    where: { id },
+    data: {
+      status: ReimbursementStatus.FINANCE_APPROVED,
+      financeApprovedAt: new Date(),
+      financeApprovedBy: approverId,
+      onHoldAt: null,
+      onHoldBy: null,
+      onHoldReason: null,
+    },
+    include: reimbursementInclude,
+  });
+
+  schedulePayrollSyncForReimbursement(updated);
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: 'Reimbursement approved by Finance',
+  });
 };
 
 /**
@@ -264,54 +318,53 @@ export const financeApproveReimbursement = async (req: Request, res: Response) =
  * POST /reimbursements/:id/management-approve
  */
 export const managementApproveReimbursement = async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { userId } = getUserInfo(req);
-    const approverId = userId || (req as any).user?.id || (req as any).user?.email;
-
-    const reimbursement = await prisma.reimbursement.findUnique({
-      where: { id },
-      include: reimbursementInclude,
-    });
-
-    if (!reimbursement) {
-      return res.status(404).json({
-        success: false,
-        message: 'Reimbursement claim not found',
-      });
-    }
+  const { id } = req.params;
+  const { userId } = getUserInfo(req);
+  const approverId = userId || (req as any).user?.id || (req as any).user?.email;
 
-    if (reimbursement.status !== ReimbursementStatus.FINANCE_APPROVED) {
-      return res.status(400).json({
-        success: false,
-        message: `Cannot management-approve reimbursement in status: ${reimbursement.status}`,
-      });
-    }
+  const reimbursement = await prisma.reimbursement.findUnique({
+    where: { id },
+    include: reimbursementInclude,
+  });
 
-    const updated = await prisma.reimbursement.update({
-      where: { id },
-      data: {
-        status: ReimbursementStatus.MANAGEMENT_APPROVED,
-        managementApprovedAt: new Date(),
-        managementApprovedBy: approverId,
-      },
-      include: reimbursementInclude,
+  if (!reimbursement) {
+    return res.status(404).json({
+      success: false,
+      message: 'Reimbursement claim not found',
     });
+  }
 
-    schedulePayrollSyncForReimbursement(updated);
-
-    return res.status(200).json({
-      success: true,
-      data: updated,
-      message: 'Reimbursement approved by Management',
+  if (reimbursement.employeeId === userId) {
+    return res.status(403).json({
+      success: false,
+      message: 'You cannot approve or reject your own request',
     });
-  } catch (error) {
-    console.error('Management approve reimbursement error:', error);
-    return res.status(500).json({
+  }
+
+  if (reimbursement.status !== ReimbursementStatus.FINANCE_APPROVED) {
+    return res.status(400).json({
       success: false,
-      message: 'Failed to approve reimbursement by Management',
+      message: `Cannot management-approve reimbursement in status: ${reimbursement.status}`,
     });
   }
+
+  const updated = await prisma.reimbursement.update({
+    where: { id },
+    data: {
+      status: ReimbursementStatus.MANAGEMENT_APPROVED,
+      managementApprovedAt: new Date(),
+      managementApprovedBy: approverId,
+    },
+    include: reimbursementInclude,
+  });
+
+  schedulePayrollSyncForReimbursement(updated);
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: 'Reimbursement approved by Management',
+  });
 };
 
 /**
@@ -319,56 +372,47 @@ export const managementApproveReimbursement = async (req: Request, res: Response
  * POST /reimbursements/:id/upload-to-bank
  */
 export const uploadReimbursementToBank = async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { bankUploadReference } = req.body;
-    const { userId } = getUserInfo(req);
-    const actorId = userId || (req as any).user?.id || (req as any).user?.email;
-
-    const reimbursement = await prisma.reimbursement.findUnique({
-      where: { id },
-      include: reimbursementInclude,
-    });
+  const { params: { id }, body: { bankUploadReference } } = validated(req, uploadReimbursementToBankSchema);
+  const { userId } = getUserInfo(req);
+  const actorId = userId || (req as any).user?.id || (req as any).user?.email;
 
-    if (!reimbursement) {
-      return res.status(404).json({
-        success: false,
-        message: 'Reimbursement claim not found',
-      });
-    }
+  const reimbursement = await prisma.reimbursement.findUnique({
+    where: { id },
+    include: reimbursementInclude,
+  });
 
-    if (reimbursement.status !== ReimbursementStatus.MANAGEMENT_APPROVED) {
-      return res.status(400).json({
-        success: false,
-        message: `Cannot mark reimbursement ready for payment in status: ${reimbursement.status}`,
-      });
-    }
-
-    const updated = await prisma.reimbursement.update({
-      where: { id },
-      data: {
-        status: ReimbursementStatus.UPLOADED_TO_BANK,
-        uploadedToBankAt: new Date(),
-        uploadedToBankBy: actorId,
-        bankUploadReference: bankUploadReference || null,
-      },
-      include: reimbursementInclude,
+  if (!reimbursement) {
+    return res.status(404).json({
+      success: false,
+      message: 'Reimbursement claim not found',
     });
+  }
 
-    schedulePayrollSyncForReimbursement(updated);
-
-    return res.status(200).json({
-      success: true,
-      data: updated,
-      message: 'Reimbursement marked as uploaded to bank',
-    });
-  } catch (error) {
-    console.error('Upload reimbursement to bank error:', error);
-    return res.status(500).json({
+  if (reimbursement.status !== ReimbursementStatus.MANAGEMENT_APPROVED) {
+    return res.status(400).json({
       success: false,
-      message: 'Failed to mark reimbursement as uploaded to bank',
+      message: `Cannot mark reimbursement ready for payment in status: ${reimbursement.status}`,
     });
   }
+
+  const updated = await prisma.reimbursement.update({
+    where: { id },
+    data: {
+      status: ReimbursementStatus.UPLOADED_TO_BANK,
+      uploadedToBankAt: new Date(),
+      uploadedToBankBy: actorId,
+      bankUploadReference: bankUploadReference || null,
+    },
+    include: reimbursementInclude,
+  });
+
+  schedulePayrollSyncForReimbursement(updated);
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: 'Reimbursement marked as uploaded to bank',
+  });
 };
 
 /**
@@ -376,59 +420,50 @@ export const uploadReimbursementToBank = async (req: Request, res: Response) =>
  * POST /reimbursements/:id/mark-paid
  */
 export const markReimbursementPaid = async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { paymentReference } = req.body;
-    const { userId } = getUserInfo(req);
-    const actorId = userId || (req as any).user?.id || (req as any).user?.email;
-
-    const reimbursement = await prisma.reimbursement.findUnique({
-      where: { id },
-      include: reimbursementInclude,
-    });
-
-    if (!reimbursement) {
-      return res.status(404).json({
-        success: false,
-        message: 'Reimbursement claim not found',
-      });
-    }
-
-    if (reimbursement.status !== ReimbursementStatus.UPLOADED_TO_BANK) {
-      return res.status(400).json({
-        success: false,
-        message: `Cannot mark reimbursement paid in status: ${reimbursement.status}`,
-      });
-    }
+  const { params: { id }, body: { paymentReference } } = validated(req, markReimbursementPaidSchema);
+  const { userId } = getUserInfo(req);
+  const actorId = userId || (req as any).user?.id || (req as any).user?.email;
 
-    const now = new Date();
+  const reimbursement = await prisma.reimbursement.findUnique({
+    where: { id },
+    include: reimbursementInclude,
+  });
 
-    const updated = await prisma.reimbursement.update({
-      where: { id },
-      data: {
-        status: ReimbursementStatus.PAID,
-        bankPaymentApprovedAt: now,
-        bankPaymentApprovedBy: actorId,
-        bankPaymentReference: paymentReference || null,
-        paidDate: now,
-      },
-      include: reimbursementInclude,
+  if (!reimbursement) {
+    return res.status(404).json({
+      success: false,
+      message: 'Reimbursement claim not found',
     });
+  }
 
-    schedulePayrollSyncForReimbursement(updated);
-
-    return res.status(200).json({
-      success: true,
-      data: updated,
-      message: 'Reimbursement marked as paid',
-    });
-  } catch (error) {
-    console.error('Mark reimbursement paid error:', error);
-    return res.status(500).json({
+  if (reimbursement.status !== ReimbursementStatus.UPLOADED_TO_BANK) {
+    return res.status(400).json({
       success: false,
-      message: 'Failed to mark reimbursement as paid',
+      message: `Cannot mark reimbursement paid in status: ${reimbursement.status}`,
     });
   }
+
+  const now = new Date();
+
+  const updated = await prisma.reimbursement.update({
+    where: { id },
+    data: {
+      status: ReimbursementStatus.PAID,
+      bankPaymentApprovedAt: now,
+      bankPaymentApprovedBy: actorId,
+      bankPaymentReference: paymentReference || null,
+      paidDate: now,
+    },
+    include: reimbursementInclude,
+  });
+
+  schedulePayrollSyncForReimbursement(updated);
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: 'Reimbursement marked as paid',
+  });
 };
 
 /**
@@ -436,63 +471,47 @@ export const markReimbursementPaid = async (req: Request, res: Response) => {
  * POST /reimbursements/:id/on-hold
  */
 export const putReimbursementOnHold = async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { onHoldReason } = req.body;
-    const { userId } = getUserInfo(req);
-    const actorId = userId || (req as any).user?.id || (req as any).user?.email;
-
-    if (!onHoldReason || !onHoldReason.trim()) {
-      return res.status(400).json({
-        success: false,
-        message: 'On hold reason is required',
-      });
-    }
+  const { params: { id }, body: { onHoldReason } } = validated(req, putReimbursementOnHoldSchema);
+  const { userId } = getUserInfo(req);
+  const actorId = userId || (req as any).user?.id || (req as any).user?.email;
 
-    const reimbursement = await prisma.reimbursement.findUnique({
-      where: { id },
-      include: reimbursementInclude,
-    });
+  const reimbursement = await prisma.reimbursement.findUnique({
+    where: { id },
+    include: reimbursementInclude,
+  });
 
-    if (!reimbursement) {
-      return res.status(404).json({
-        success: false,
-        message: 'Reimbursement claim not found',
-      });
-    }
-
-    if (reimbursement.status === ReimbursementStatus.PAID || reimbursement.status === ReimbursementStatus.REJECTED) {
-      return res.status(400).json({
-        success: false,
-        message: `Cannot put reimbursement on hold in status: ${reimbursement.status}`,
-      });
-    }
-
-    const updated = await prisma.reimbursement.update({
-      where: { id },
-      data: {
-        status: ReimbursementStatus.ON_HOLD,
-        onHoldAt: new Date(),
-        onHoldBy: actorId,
-        onHoldReason: onHoldReason.trim(),
-      },
-      include: reimbursementInclude,
+  if (!reimbursement) {
+    return res.status(404).json({
+      success: false,
+      message: 'Reimbursement claim not found',
     });
+  }
 
-    schedulePayrollSyncForReimbursement(updated);
-
-    return res.status(200).json({
-      success: true,
-      data: updated,
-      message: 'Reimbursement placed on hold',
-    });
-  } catch (error) {
-    console.error('Put reimbursement on hold error:', error);
-    return res.status(500).json({
+  if (reimbursement.status === ReimbursementStatus.PAID || reimbursement.status === ReimbursementStatus.REJECTED) {
+    return res.status(400).json({
       success: false,
-      message: 'Failed to put reimbursement on hold',
+      message: `Cannot put reimbursement on hold in status: ${reimbursement.status}`,
     });
   }
+
+  const updated = await prisma.reimbursement.update({
+    where: { id },
+    data: {
+      status: ReimbursementStatus.ON_HOLD,
+      onHoldAt: new Date(),
+      onHoldBy: actorId,
+      onHoldReason: onHoldReason.trim(),
+    },
+    include: reimbursementInclude,
+  });
+
+  schedulePayrollSyncForReimbursement(updated);
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: 'Reimbursement placed on hold',
+  });
 };
 
 /**
@@ -500,62 +519,53 @@ export const putReimbursementOnHold = async (req: Request, res: Response) => {
  * POST /reimbursements/:id/reject
  */
 export const rejectReimbursement = async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { rejectionReason } = req.body;
-    const { userId } = getUserInfo(req);
-    const actorId = userId || (req as any).user?.id || (req as any).user?.email;
-
-    if (!rejectionReason || !rejectionReason.trim()) {
-      return res.status(400).json({
-        success: false,
-        message: 'Rejection reason is required',
-      });
-    }
+  const { params: { id }, body: { rejectionReason } } = validated(req, rejectReimbursementSchema);
+  const { userId } = getUserInfo(req);
+  const actorId = userId || (req as any).user?.id || (req as any).user?.email;
 
-    const reimbursement = await prisma.reimbursement.findUnique({
-      where: { id },
-      include: reimbursementInclude,
-    });
+  const reimbursement = await prisma.reimbursement.findUnique({
+    where: { id },
+    include: reimbursementInclude,
+  });
 
-    if (!reimbursement) {
-      return res.status(404).json({
-        success: false,
-        message: 'Reimbursement claim not found',
-      });
-    }
-
-    if (reimbursement.status === ReimbursementStatus.PAID) {
-      return res.status(400).json({
-        success: false,
-        message: 'Cannot reject a reimbursement that has been paid',
-      });
-    }
-
-    const updated = await prisma.reimbursement.update({
-      where: { id },
-      data: {
-        status: ReimbursementStatus.REJECTED,
-        rejectedAt: new Date(),
-        rejectedBy: actorId,
-        rejectionReason: rejectionReason.trim(),
-      },
-      include: reimbursementInclude,
+  if (!reimbursement) {
+    return res.status(404).json({
+      success: false,
+      message: 'Reimbursement claim not found',
     });
+  }
 
-    schedulePayrollSyncForReimbursement(updated);
-
-    return res.status(200).json({
-      success: true,
-      data: updated,
-      message: 'Reimbursement claim rejected',
+  if (reimbursement.employeeId === userId) {
+    return res.status(403).json({
+      success: false,
+      message: 'You cannot approve or reject your own request',
     });
-  } catch (error) {
-    console.error('Reject reimbursement error:', error);
-    return res.status(500).json({
+  }
+
+  if (reimbursement.status === ReimbursementStatus.PAID) {
+    return res.status(400).json({
       success: false,
-      message: 'Failed to reject reimbursement claim',
+      message: 'Cannot reject a reimbursement that has been paid',
     });
   }
+
+  const updated = await prisma.reimbursement.update({
+    where: { id },
+    data: {
+      status: ReimbursementStatus.REJECTED,
+      rejectedAt: new Date(),
+      rejectedBy: actorId,
+      rejectionReason: rejectionReason.trim(),
+    },
+    include: reimbursementInclude,
+  });
+
+  schedulePayrollSyncForReimbursement(updated);
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: 'Reimbursement claim rejected',
+  });
 };
 
@@ -0,0 +1,263 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { IApiResponse } from '../types';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { getUserInfo } from '../utils/ownershipValidation';
+import { hasPermission } from '../utils/permissions';
+import { getTodayDubai } from '../utils/attendanceHelper';
+import {
+  assignWorkSchedule,
+  getEmployeeWorkSchedule,
+  isWorkingDay,
+  removeWorkScheduleAssignment,
+} from '../services/workScheduleService';
+import { validated } from '../middleware/validate';
+import {
+  assignWorkScheduleSchema,
+  createWorkScheduleSchema,
+  getEffectiveWorkScheduleSchema,
+  getWorkScheduleAssignmentsSchema,
+  getWorkSchedulesSchema,
+  updateWorkScheduleSchema,
+  workScheduleAssignmentIdSchema,
+  workScheduleIdSchema,
+} from '../schemas/workSchedules';
+
+const ASSIGNMENT_INCLUDE = {
+  schedule: { select: { id: true, name: true } },
+  employee: { select: { id: true, firstName: true, lastName: true, employeeId: true } },
+  department: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Get work schedules
+ * GET /work-schedules
+ * Query params: includeInactive
+ */
+export const getWorkSchedules = async (req: Request, res: Response): Promise<Response | void> => {
+  const { includeInactive } = validated(req, getWorkSchedulesSchema).query;
+
+  const schedules = await prisma.workSchedule.findMany({
+    where: includeInactive ? {} : { isActive: true },
+    include: { _count: { select: { assignments: true } } },
+    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: schedules,
+    message: 'Work schedules retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Get a work schedule
+ * GET /work-schedules/:id
+ */
+export const getWorkScheduleById = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = validated(req, workScheduleIdSchema).params;
+
+  const schedule = await prisma.workSchedule.findUnique({
+    where: { id },
+    include: { _count: { select: { assignments: true } } },
+  });
+
+  if (!schedule) {
+    throw new NotFoundError('Work schedule not found');
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: schedule,
+    message: 'Work schedule retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Create a work schedule
+ * POST /work-schedules
+ * Body: { name, description?, shiftStart, shiftEnd, requiredHours?, breakMinutes?, graceMinutes?, weekendDays, isDefault? }
+ */
+export const createWorkSchedule = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { isDefault, ...rules } = validated(req, createWorkScheduleSchema).body;
+
+  const schedule = await prisma.$transaction(async (tx) => {
+    // Only one default schedule
+    if (isDefault) {
+      await tx.workSchedule.updateMany({ where: { isDefault: true }, data: { isDefault: false, updatedBy: userId } });
+    }
+
+    return tx.workSchedule.create({
+      data: {
+        ...rules,
+        description: rules.description || null,
+        isDefault,
+        createdBy: userId,
+      },
+    });
+  });
+
+  return res.status(201).json({
+    success: true,
+    data: schedule,
+    message: 'Work schedule created successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Update a work schedule
+ * PATCH /work-schedules/:id
+ * Body: any schedule field, isDefault: true to make it the default, isActive
+ */
+export const updateWorkSchedule = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { params: { id }, body } = validated(req, updateWorkScheduleSchema);
+
+  const existing = await prisma.workSchedule.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new NotFoundError('Work schedule not found');
+  }
+
+  const willBeActive = body.isActive ?? existing.isActive;
+  if ((existing.isDefault || body.isDefault) && !willBeActive) {
+    throw new ValidationError('The default work schedule cannot be deactivated; make another schedule the default first');
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (body.isDefault && !existing.isDefault) {
+      await tx.workSchedule.updateMany({ where: { isDefault: true }, data: { isDefault: false, updatedBy: userId } });
+    }
+
+    return tx.workSchedule.update({
+      where: { id },
+      data: {
+        ...body,
+        updatedBy: userId,
+      },
+    });
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: 'Work schedule updated successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Get schedule assignments, newest first
+ * GET /work-schedules/assignments
+ * Query params: employeeId, departmentId, scheduleId
+ */
+export const getWorkScheduleAssignments = async (req: Request, res: Response): Promise<Response | void> => {
+  const { employeeId, departmentId, scheduleId } = validated(req, getWorkScheduleAssignmentsSchema).query;
+
+  const assignments = await prisma.workScheduleAssignment.findMany({
+    where: {
+      ...(employeeId && { employeeId }),
+      ...(departmentId && { departmentId }),
+      ...(scheduleId && { scheduleId }),
+    },
+    include: ASSIGNMENT_INCLUDE,
+    orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: assignments,
+    message: 'Work schedule assignments retrieved successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Assign a schedule to an employee or department from a date
+ * POST /work-schedules/assignments
+ * Body: { scheduleId, employeeId | departmentId, effectiveFrom, effectiveTo? }
+ */
+export const createWorkScheduleAssignment = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { scheduleId, employeeId, departmentId, effectiveFrom, effectiveTo } = validated(req, assignWorkScheduleSchema).body;
+
+  if (employeeId && !(await prisma.employee.findUnique({ where: { id: employeeId }, select: { id: true } }))) {
+    throw new NotFoundError('Employee not found');
+  }
+  if (departmentId && !(await prisma.department.findUnique({ where: { id: departmentId }, select: { id: true } }))) {
+    throw new NotFoundError('Department not found');
+  }
+
+  const { id } = await assignWorkSchedule({
+    scheduleId,
+    employeeId,
+    departmentId,
+    effectiveFrom,
+    effectiveTo,
+    createdBy: userId,
+  });
+
+  const assignment = await prisma.workScheduleAssignment.findUnique({
+    where: { id },
+    include: ASSIGNMENT_INCLUDE,
+  });
+
+  return res.status(201).json({
+    success: true,
+    data: assignment,
+    message: 'Work schedule assigned successfully',
+  } as IApiResponse<any>);
+};
+
+/**
+ * Remove an assignment that has not started yet
+ * DELETE /work-schedules/assignments/:id
+ * Assignments in effect or in the past are history; assign another schedule instead.
+ * The assignment it ended takes over again.
+ */
+export const deleteWorkScheduleAssignment = async (req: Request, res: Response): Promise<Response | void> => {
+  const { id } = validated(req, workScheduleAssignmentIdSchema).params;
+
+  const existing = await prisma.workScheduleAssignment.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new NotFoundError('Work schedule assignment not found');
+  }
+
+  if (existing.effectiveFrom < getTodayDubai()) {
+    throw new ValidationError('Only assignments starting today or later can be removed; assign another schedule instead');
+  }
+
+  await removeWorkScheduleAssignment(existing);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Work schedule assignment removed successfully',
+  } as IApiResponse<null>);
+};
+
+/**
+ * Get the schedule in effect for an employee on a day
+ * GET /work-schedules/effective
+ * Query params: employeeId (defaults to the current user), date (YYYY-MM-DD, defaults to today)
+ */
+export const getEffectiveWorkSchedule = async (req: Request, res: Response): Promise<Response | void> => {
+  const { userId } = getUserInfo(req);
+  const { employeeId = userId, date = getTodayDubai() } = validated(req, getEffectiveWorkScheduleSchema).query;
+
+  if (employeeId !== userId && !hasPermission(req, 'attendance:read:all') && !hasPermission(req, 'work-schedule:manage')) {
+    throw new ForbiddenError('You can only view your own work schedule');
+  }
+
+  const schedule = await getEmployeeWorkSchedule(employeeId, date);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      employeeId,
+      date: date.toISOString().split('T')[0],
+      isWorkingDay: isWorkingDay(schedule, date.getUTCDay()),
+      schedule,
+    },
+    message: 'Work schedule retrieved successfully',
+  } as IApiResponse<any>);
+};
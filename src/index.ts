@@ -4,29 +4,19 @@ import dotenv from 'dotenv';
 import { createServer } from 'http';
 import { PrismaClient } from '@prisma/client';
 import * as path from 'path';
-import authRoutes from './routes/auth';
-import employeeRoutes from './routes/employees';
-import leaveManagementRoutes from './routes/leaveManagement';
-import holidayManagementRoutes from './routes/holidayManagement';
-import calendarViewRoutes from './routes/calendarView';
-import announcementRoutes from './routes/announcements';
-import assetRoutes from './routes/assets';
-import manufacturerRoutes from './routes/manufacturers';
-import supplierRoutes from './routes/suppliers';
-import attendanceRoutes from './routes/attendance';
-import payrollRoutes from './routes/payroll';
-import bankDetailChangeRequestRoutes from './routes/bankDetailChangeRequests';
-import reimbursementRoutes from './routes/reimbursements';
-import overtimeRequestRoutes from './routes/overtimeRequests';
-import clientProjectRoutes from './routes/clientProjects';
-import bonusRoutes from './routes/bonuses';
-import bonusTypeRoutes from './routes/bonusTypes';
-import deductionRoutes from './routes/deductions';
-import deductionTypeRoutes from './routes/deductionTypes';
-import uploadRoutes from './routes/uploads';
+import { apiRouters } from './routes';
+import docsRoutes from './routes/docs';
 import { setupAttendanceSocket } from './websocket/attendanceSocket';
-import { startCarryOverAnnualLeaveJob } from './jobs/carryOverAnnualLeaveJob';
+import { startJobs } from './jobs';
 import { initializeEmailTransporter, verifyEmailConnection } from './services/emailService';
+import { assertJwtConfigured } from './utils/jwt';
+import { fieldEncryptionExtension } from './utils/fieldEncryptionExtension';
+import { auditLogExtension } from './utils/auditLogExtension';
+import { requestContextMiddleware } from './middleware/requestContext';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { ForbiddenError } from './utils/errors';
+import { logger } from './utils/logger';
+import { assertFieldEncryptionConfigured } from './utils/fieldEncryption';
 
 // Load environment variables
 // Try .env first, fallback to .env.local if .env doesn't exist
@@ -68,6 +58,9 @@ const getDatabaseUrlWithPool = (url: string): string => {
 };
 
 // Initialize Prisma Client with optimized configuration
+// Sensitive columns are encrypted/decrypted transparently (see utils/fieldEncryption)
+// and every write is recorded in the audit log (see utils/auditLogExtension).
+// The extensions only hook queries, so the client keeps the plain PrismaClient type.
 export const prisma = new PrismaClient({
   log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
   datasources: {
@@ -75,7 +68,9 @@ export const prisma = new PrismaClient({
       url: getDatabaseUrlWithPool(DATABASE_URL),
     },
   },
-});
+})
+  .$extends(fieldEncryptionExtension)
+  .$extends(auditLogExtension) as unknown as PrismaClient;
 
 // Connection monitoring - log connection pool status periodically
 if (process.env.NODE_ENV === 'development') {
@@ -84,7 +79,7 @@ if (process.env.NODE_ENV === 'development') {
       // Check database connection health
       await prisma.$queryRaw`SELECT 1`;
     } catch (error) {
-      console.error(`❌ Database connection check failed:`, error);
+      logger.error('Database connection check failed', error);
     }
   }, 60000); // Check every minute
 }
@@ -109,16 +104,23 @@ const corsOptions = {
     }
 
     // Reject other origins
-    callback(new Error('Not allowed by CORS'));
+    callback(new ForbiddenError('Not allowed by CORS'));
   },
   credentials: true,
 };
 
+// The app runs behind the Heroku router, so req.ip (login throttling, rate limits, session
+// and audit IPs) must come from its X-Forwarded-For entry rather than the router's address.
+// TRUST_PROXY_HOPS is the number of proxies in front of the app (0 when reached directly).
+app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS || '1', 10));
+
+app.use(requestContextMiddleware);
 app.use(cors(corsOptions));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Serve uploaded files statically (for local storage fallback)
+// Serve uploaded files statically (for local storage fallback). Private files such as
+// payslips are kept under storage/ and only served through their authenticated endpoints.
 app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
 
 // Health check endpoint
@@ -131,76 +133,25 @@ app.get('/api', (_req, res) => {
   res.json({ message: 'YAZ Media Dashboard API v1.0' });
 });
 
-// Auth routes
-app.use('/auth', authRoutes);
-
-// Employee routes (includes employee management for role/status)
-app.use('/employees', employeeRoutes);
-
-// Leave Management routes
-app.use('/leave-requests', leaveManagementRoutes);
-
-// Holiday Management routes
-app.use('/holidays', holidayManagementRoutes);
-
-// Calendar View routes
-app.use('/calendar', calendarViewRoutes);
-
-// Announcements routes
-app.use('/announcements', announcementRoutes);
-
-// Assets routes
-app.use('/assets', assetRoutes);
-app.use('/manufacturers', manufacturerRoutes);
-app.use('/suppliers', supplierRoutes);
-
-// Contract routes (view-only, based on Employee data)
-import contractRoutes from './routes/contracts';
-app.use('/contracts', contractRoutes);
-
-// Attendance routes
-app.use('/attendance', attendanceRoutes);
-
-// Payroll routes
-app.use('/payroll', payrollRoutes);
+// OpenAPI document and viewer
+app.use('/api', docsRoutes);
 
-// Bank detail change request routes
-app.use('/bank-detail-change-requests', bankDetailChangeRequestRoutes);
-
-// Reimbursement routes
-app.use('/reimbursements', reimbursementRoutes);
-
-// Bonus routes
-app.use('/bonuses', bonusRoutes);
-app.use('/bonus-types', bonusTypeRoutes);
-
-// Deduction routes
-app.use('/deductions', deductionRoutes);
-app.use('/deduction-types', deductionTypeRoutes);
-
-// Overtime Request routes
-app.use('/overtime-requests', overtimeRequestRoutes);
-
-// Client and Project routes
-app.use('/clients-projects', clientProjectRoutes);
-
-// Upload routes
-app.use('/uploads', uploadRoutes);
-
-// Contract Management routes
-
-// Error handling middleware
-app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-  console.error(err);
-  res.status(err.status || 500).json({
-    error: err.message || 'Internal Server Error',
-    status: err.status || 500,
-  });
+// Feature routers (see routes/index)
+apiRouters.forEach(({ path: mountPath, router }) => {
+  app.use(mountPath, router);
 });
 
+// Unknown routes and error handling (see utils/errors)
+app.use(notFoundHandler);
+app.use(errorHandler);
+
 // Start server
 const startServer = async () => {
   try {
+    // Refuse to start without a JWT signing secret
+    assertJwtConfigured();
+    assertFieldEncryptionConfigured();
+
     // Test database connection
     await prisma.$connect();
 
@@ -208,7 +159,7 @@ const startServer = async () => {
     initializeEmailTransporter();
     // Verify email connection asynchronously (don't block server startup)
     verifyEmailConnection().catch((error) => {
-      console.warn('⚠️  Email service verification failed:', error);
+      logger.warn('Email service verification failed', error);
     });
 
     // Create HTTP server for WebSocket support
@@ -218,15 +169,13 @@ const startServer = async () => {
     setupAttendanceSocket(httpServer);
 
     // Start scheduled jobs
-    startCarryOverAnnualLeaveJob(prisma); // Pass prisma instance to avoid circular dependency
+    startJobs(prisma); // Pass prisma instance to avoid circular dependency
 
     httpServer.listen(PORT, () => {
-      console.log(`✅ Server is running on http://localhost:${PORT}`);
-      console.log(`📊 Health check: http://localhost:${PORT}/health`);
-      console.log(`🔌 API endpoint: http://localhost:${PORT}/api`);
+      logger.info(`Server is running on http://localhost:${PORT}`, { port: PORT });
     });
   } catch (error) {
-    console.error('❌ Failed to start server:', error);
+    logger.error('Failed to start server', error);
     process.exit(1);
   }
 };
@@ -241,7 +190,7 @@ const gracefulShutdown = async (_signal: string) => {
       process.exit(0);
     }, 1000);
   } catch (error) {
-    console.error('❌ Error during shutdown:', error);
+    logger.error('Error during shutdown', error);
     process.exit(1);
   }
 };
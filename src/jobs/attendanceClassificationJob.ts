@@ -0,0 +1,51 @@
+import { classifyAttendanceDay, raiseAbsenceDeductions } from '../services/attendanceExceptionService';
+import { getTodayDubai } from '../utils/attendanceHelper';
+import { ValidationError } from '../utils/errors';
+import type { JobDefinition } from './jobRunner';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Nightly job classifying the previous day's attendance (on time, late, early leave,
+ * absent, on leave, holiday, WFH) and, when enabled, raising draft deductions for
+ * unexcused absences (ATTENDANCE_ABSENCE_DEDUCTIONS=true or the createDeductions parameter)
+ * Runs at 01:15 daily
+ */
+export const attendanceClassificationJob: JobDefinition = {
+  name: 'attendance-classification',
+  description: "Classify yesterday's attendance of every employee and record late arrivals, early leaves and absences",
+  schedule: '15 1 * * *',
+  parameters: {
+    date: 'Day to classify, YYYY-MM-DD (defaults to yesterday, Dubai time)',
+    createDeductions: 'true/false: raise draft deductions for unexcused absences (defaults to ATTENDANCE_ABSENCE_DEDUCTIONS)',
+  },
+  lastScheduledAt: (now) => {
+    const slot = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 1, 15);
+    if (slot > now) slot.setDate(slot.getDate() - 1);
+    return slot;
+  },
+  run: async (params) => {
+    const today = getTodayDubai();
+
+    let day = new Date(today.getTime() - ONE_DAY_MS);
+    if (params.date) {
+      day = new Date(`${params.date}T00:00:00.000Z`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(String(params.date)) || Number.isNaN(day.getTime())) {
+        throw new ValidationError('date must be in YYYY-MM-DD format');
+      }
+      if (day >= today) {
+        throw new ValidationError('Only days before today can be classified');
+      }
+    }
+
+    const createDeductions =
+      params.createDeductions !== undefined
+        ? String(params.createDeductions) === 'true'
+        : process.env.ATTENDANCE_ABSENCE_DEDUCTIONS === 'true';
+
+    const summary = await classifyAttendanceDay(day);
+    const deductionsRaised = createDeductions ? await raiseAbsenceDeductions(today) : 0;
+
+    return { ...summary, deductionsRaised };
+  },
+};
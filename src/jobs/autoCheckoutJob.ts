@@ -0,0 +1,28 @@
+import { closeOpenSessions, getAutoCheckoutCapHours } from '../services/autoCheckoutService';
+import { ValidationError } from '../utils/errors';
+import type { JobDefinition } from './jobRunner';
+
+/**
+ * Job closing regular, overtime and break sessions left open past their expected end
+ * plus the cap (ATTENDANCE_AUTO_CHECKOUT_CAP_HOURS, 2 hours by default)
+ * Runs every 15 minutes; missed runs are covered by the next one
+ */
+export const autoCheckoutJob: JobDefinition = {
+  name: 'attendance-auto-checkout',
+  description: 'Close attendance sessions left open and queue them for regularization',
+  schedule: '*/15 * * * *',
+  parameters: {
+    capHours: 'Hours a session may run past its expected end (defaults to ATTENDANCE_AUTO_CHECKOUT_CAP_HOURS)',
+  },
+  run: async (params) => {
+    let capHours = getAutoCheckoutCapHours();
+    if (params.capHours !== undefined) {
+      capHours = Number(params.capHours);
+      if (!Number.isFinite(capHours) || capHours < 0) {
+        throw new ValidationError('capHours must be a non-negative number');
+      }
+    }
+
+    return { ...(await closeOpenSessions(capHours)) };
+  },
+};
@@ -8,12 +8,14 @@
  * (commonly 5 days, but this should be configurable per company policy).
  * 
  * Usage:
- * 1. Schedule this to run annually using a cron job or task scheduler
+ * 1. Registered with the job runner (see src/jobs/index.ts), which schedules it annually
  * 2. Or run manually: npx ts-node src/jobs/carryOverAnnualLeaveJob.ts
  */
 
 import { PrismaClient } from '@prisma/client';
 import { getOrCreateLeaveSummary } from '../utils/leaveValidation';
+import type { JobDefinition } from './jobRunner';
+import { logger } from '../utils/logger';
 
 const prisma = new PrismaClient();
 
@@ -46,30 +48,35 @@ export async function carryOverAnnualLeave(
 }
 
 /**
- * Start the annual leave carry-over cron job
- * Runs on January 1st at 12:00 AM (00:00) every year
- * @param prismaInstance - Optional PrismaClient instance (uses internal instance if not provided)
+ * Build the annual leave carry-over job definition for the job runner
+ * Runs on January 1st at 12:00 AM (00:00) every year and is caught up at startup if missed
+ * @param prismaInstance - PrismaClient instance (passed in to avoid circular dependency)
  */
-export const startCarryOverAnnualLeaveJob = (prismaInstance?: PrismaClient) => {
-  const cron = require('node-cron');
-  const prismaClient = prismaInstance || prisma;
-  
-  // Run on January 1st at 00:00 (midnight) every year
+export const createCarryOverAnnualLeaveJob = (prismaInstance: PrismaClient): JobDefinition => ({
+  name: 'annual-leave-carry-over',
+  description: 'Carry over unused annual leave (capped) from the previous year',
   // Cron format: minute hour day month dayOfWeek
   // "0 0 1 1 *" = January 1st at 00:00
-  cron.schedule('0 0 1 1 *', async () => {
-    try {
-      // Create a temporary function that uses the provided prisma instance
-      const now = new Date();
-      const prevYear = now.getFullYear() - 1;
-      const currYear = now.getFullYear();
-      await carryOverAnnualLeaveForJob(prevYear, currYear, prismaClient);
-    } catch (error) {
-      console.error('❌ Error in annual leave carry-over job:', error);
-    }
-  });
-
-};
+  schedule: '0 0 1 1 *',
+  parameters: {
+    previousYear: 'Year to carry over from (defaults to the year before the run)',
+    currentYear: 'Year to carry over to (defaults to the year of the run)',
+  },
+  lastScheduledAt: (now) => new Date(now.getFullYear(), 0, 1),
+  run: async (params, context) => {
+    const reference = context.scheduledFor || new Date();
+    const currYear = params.currentYear ? Number(params.currentYear) : reference.getFullYear();
+    const prevYear = params.previousYear ? Number(params.previousYear) : currYear - 1;
+    const results = await carryOverAnnualLeaveForJob(prevYear, currYear, prismaInstance);
+
+    return {
+      previousYear: prevYear,
+      currentYear: currYear,
+      employeesCarriedOver: results.length,
+      totalDaysCarriedOver: results.reduce((sum, result) => sum + result.carriedOverDays, 0),
+    };
+  },
+});
 
 /**
  * Internal function for carry-over that accepts prisma instance
@@ -150,7 +157,7 @@ async function main() {
   try {
     await carryOverAnnualLeave();
   } catch (error) {
-    console.error('❌ Error running carry-over job:', error);
+    logger.error('Error running carry-over job', error);
     process.exit(1);
   } finally {
     await prisma.$disconnect();
@@ -1,55 +1,67 @@
 import { autoCheckExpiredContracts, getExpiringContracts } from '../services/contract/contractService';
 import { checkAndSendReminders } from '../services/contract/contractNotificationService';
 import { autoRenewContract } from '../services/contract/contractRenewalService';
-import cron from 'node-cron';
+import type { JobDefinition } from './jobRunner';
+import { logger } from '../utils/logger';
 
 /**
  * Daily job to check for expired contracts and update their status
  * Runs at midnight daily
  */
-export const startContractExpiryJob = () => {
-  cron.schedule('0 0 * * *', async () => {
-    try {
-      // Check and mark expired contracts
-      await autoCheckExpiredContracts();
-      
-      // Check and send renewal reminders
-      await checkAndSendReminders();
-      
-      // TODO: Send email notifications for reminders
-      
-    } catch (error) {
-      console.error('❌ Error in contract expiry job:', error);
-    }
-  });
+export const contractExpiryJob: JobDefinition = {
+  name: 'contract-expiry',
+  description: 'Mark expired contracts and email renewal reminders',
+  schedule: '0 0 * * *',
+  lastScheduledAt: (now) => new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+  run: async () => {
+    // Check and mark expired contracts
+    const expired = await autoCheckExpiredContracts();
+    
+    // Email renewal reminders to HR, Management and the employee's manager
+    const reminders = await checkAndSendReminders();
+    
+    return {
+      contractsExpired: expired,
+      remindersSent: reminders.length,
+    };
+  },
 };
 
 /**
  * Auto-renew contracts that have autoRenewal enabled
  * Runs daily at 1 AM
  */
-export const startAutoRenewalJob = () => {
-  cron.schedule('0 1 * * *', async () => {
-    try {
-      // Get contracts expiring today with autoRenewal enabled
-      const expiringToday = await getExpiringContracts(1);
-      
-      for (const contract of expiringToday) {
-        if (contract.autoRenewal) {
-          try {
-            await autoRenewContract(contract.id);
-          } catch (error) {
-            console.error(`❌ Error auto-renewing contract ${contract.contractNumber}:`, error);
-          }
+export const contractAutoRenewalJob: JobDefinition = {
+  name: 'contract-auto-renewal',
+  description: 'Renew contracts with auto-renewal enabled that expire within a day',
+  schedule: '0 1 * * *',
+  lastScheduledAt: (now) => {
+    const slot = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 1);
+    if (slot > now) slot.setDate(slot.getDate() - 1);
+    return slot;
+  },
+  run: async () => {
+    // Get contracts expiring today with autoRenewal enabled
+    const expiringToday = await getExpiringContracts(1);
+    const renewed: string[] = [];
+    const failed: string[] = [];
+    
+    for (const contract of expiringToday) {
+      if (contract.autoRenewal) {
+        try {
+          await autoRenewContract(contract.id);
+          renewed.push(contract.contractNumber);
+        } catch (error) {
+          logger.error(`Error auto-renewing contract ${contract.contractNumber}`, error);
+          failed.push(contract.contractNumber);
         }
       }
-    } catch (error) {
-      console.error('❌ Error in auto-renewal job:', error);
     }
-  });
+    
+    if (failed.length > 0) {
+      throw new Error(`Failed to auto-renew ${failed.length} contract(s): ${failed.join(', ')}`);
+    }
+    
+    return { renewed };
+  },
 };
-
-
-
-
-
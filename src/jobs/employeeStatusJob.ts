@@ -0,0 +1,18 @@
+import { autoUpdateEmployeeStatuses } from '../services/employeeStatusService';
+import type { JobDefinition } from './jobRunner';
+
+/**
+ * Daily job to move employees whose contract has passed its expiry date to EXPIRED
+ * Runs at 00:30 daily (after the contract expiry job)
+ */
+export const employeeStatusJob: JobDefinition = {
+  name: 'employee-status-update',
+  description: 'Set employee status to EXPIRED once the contract expiry date has passed',
+  schedule: '30 0 * * *',
+  lastScheduledAt: (now) => {
+    const slot = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 30);
+    if (slot > now) slot.setDate(slot.getDate() - 1);
+    return slot;
+  },
+  run: async () => autoUpdateEmployeeStatuses(),
+};
@@ -0,0 +1,28 @@
+import { PrismaClient } from '@prisma/client';
+import { registerJob, startScheduledJobs, runMissedJobs } from './jobRunner';
+import { createCarryOverAnnualLeaveJob } from './carryOverAnnualLeaveJob';
+import { contractExpiryJob, contractAutoRenewalJob } from './contractExpiryJob';
+import { employeeStatusJob } from './employeeStatusJob';
+import { attendanceClassificationJob } from './attendanceClassificationJob';
+import { autoCheckoutJob } from './autoCheckoutJob';
+import { logger } from '../utils/logger';
+
+/**
+ * Register all scheduled jobs, start their cron schedules and catch up missed runs
+ * @param prismaInstance - Pass prisma instance to avoid circular dependency
+ */
+export const startJobs = (prismaInstance: PrismaClient): void => {
+  registerJob(createCarryOverAnnualLeaveJob(prismaInstance));
+  registerJob(contractExpiryJob);
+  registerJob(contractAutoRenewalJob);
+  registerJob(employeeStatusJob);
+  registerJob(attendanceClassificationJob);
+  registerJob(autoCheckoutJob);
+
+  startScheduledJobs();
+
+  // Catch up asynchronously (don't block server startup)
+  runMissedJobs().catch((error) => {
+    logger.error('Error catching up missed jobs', error);
+  });
+};
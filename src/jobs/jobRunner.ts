@@ -0,0 +1,306 @@
+/**
+ * Job Runner
+ *
+ * Central registry for scheduled jobs. Every execution is recorded as a JobRun
+ * row (start/end, status, error, result summary) and guarded by a Postgres
+ * advisory lock so that only one instance (dyno) runs a given job at a time.
+ *
+ * Jobs that define `lastScheduledAt` are caught up at startup: if the most
+ * recent cron slot has no successful run (e.g. the server was down on Jan 1st),
+ * the job is run once for that slot.
+ */
+
+import cron from 'node-cron';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../index';
+import { requestContextStorage } from '../utils/requestContext';
+import { logger } from '../utils/logger';
+
+export type JobTrigger = 'SCHEDULED' | 'CATCH_UP' | 'MANUAL';
+
+export interface JobContext {
+  runId: string;
+  trigger: JobTrigger;
+  scheduledFor: Date | null;
+}
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // node-cron expression (server local time)
+  parameters?: Record<string, string>; // Accepted manual parameters -> description
+  run: (params: Record<string, any>, context: JobContext) => Promise<Record<string, any> | void>;
+  lastScheduledAt?: (now: Date) => Date; // Enables catch-up of missed runs
+}
+
+interface StartJobOptions {
+  trigger: JobTrigger;
+  parameters?: Record<string, any>;
+  scheduledFor?: Date | null;
+  triggeredBy?: string;
+}
+
+const registry = new Map<string, JobDefinition>();
+
+// Session-level advisory locks belong to the connection that took them, so
+// they are taken and released through a client of their own with a single
+// connection (a direct one: a transaction-mode pooler would not keep the
+// session). The job itself runs on the shared pool. A crashed instance's
+// locks go with its connection.
+let lockClient: PrismaClient | undefined;
+
+const getLockClient = (): PrismaClient => {
+  if (!lockClient) {
+    const url = new URL(process.env.DATABASE_URL || '');
+    url.searchParams.set('connection_limit', '1');
+    lockClient = new PrismaClient({ datasources: { db: { url: url.toString() } } });
+  }
+  return lockClient;
+};
+
+// A session can take the same advisory lock again, so this instance's own runs are tracked here
+const lockedJobs = new Set<string>();
+
+const tryLockJob = async (name: string): Promise<boolean> => {
+  if (lockedJobs.has(name)) return false;
+  lockedJobs.add(name);
+
+  try {
+    const [{ locked }] = await getLockClient().$queryRaw<{ locked: boolean }[]>`
+      SELECT pg_try_advisory_lock(hashtext(${`job:${name}`})) AS locked
+    `;
+    if (!locked) lockedJobs.delete(name);
+    return locked;
+  } catch (error) {
+    lockedJobs.delete(name);
+    throw error;
+  }
+};
+
+const unlockJob = async (name: string): Promise<void> => {
+  try {
+    const [{ unlocked }] = await getLockClient().$queryRaw<{ unlocked: boolean }[]>`
+      SELECT pg_advisory_unlock(hashtext(${`job:${name}`})) AS unlocked
+    `;
+    if (!unlocked) {
+      logger.warn(`Advisory lock of job "${name}" was already released (lock connection lost)`);
+    }
+  } catch (error) {
+    logger.error(`Error releasing the advisory lock of job "${name}"`, error);
+  } finally {
+    lockedJobs.delete(name);
+  }
+};
+
+/**
+ * Register a job definition
+ */
+export const registerJob = (definition: JobDefinition): void => {
+  if (registry.has(definition.name)) {
+    throw new Error(`Job "${definition.name}" is already registered`);
+  }
+  if (!cron.validate(definition.schedule)) {
+    throw new Error(`Invalid cron schedule for job "${definition.name}": ${definition.schedule}`);
+  }
+  registry.set(definition.name, definition);
+};
+
+export const getJobDefinition = (name: string): JobDefinition | undefined => registry.get(name);
+
+export const getJobDefinitions = (): JobDefinition[] => Array.from(registry.values());
+
+/**
+ * Create a JobRun and execute the job in the background.
+ * Returns the created run immediately plus a promise for the finished run.
+ */
+export const startJobRun = async (name: string, options: StartJobOptions) => {
+  const definition = registry.get(name);
+  if (!definition) {
+    throw new Error(`Job "${name}" not found`);
+  }
+
+  const parameters = options.parameters || {};
+  const run = await prisma.jobRun.create({
+    data: {
+      jobName: name,
+      status: 'RUNNING',
+      trigger: options.trigger,
+      parameters: Object.keys(parameters).length > 0 ? parameters : Prisma.JsonNull,
+      scheduledFor: options.scheduledFor || null,
+      triggeredBy: options.triggeredBy,
+    },
+  });
+
+  // Each run gets its own context, so its log lines and audit entries can be traced back to it
+  const runContext = { requestId: `job-${run.id}`, ipAddress: null, actorId: options.triggeredBy || null };
+  const completion = requestContextStorage.run(runContext, () =>
+    executeRun(definition, run.id, parameters, {
+      runId: run.id,
+      trigger: options.trigger,
+      scheduledFor: options.scheduledFor || null,
+    })
+  );
+
+  return { run, completion };
+};
+
+/**
+ * Execute a run under the job's advisory lock and record the outcome
+ */
+const executeRun = async (
+  definition: JobDefinition,
+  runId: string,
+  parameters: Record<string, any>,
+  context: JobContext
+) => {
+  const startedAt = Date.now();
+  let status: 'SUCCEEDED' | 'FAILED' | 'SKIPPED' = 'SUCCEEDED';
+  let error: string | null = null;
+  let resultSummary: Record<string, any> | null = null;
+
+  const runLocked = async () => {
+    // Scheduled/catch-up slots run once, even if several instances fire for the same slot
+    if (context.trigger !== 'MANUAL' && context.scheduledFor) {
+      const alreadyRan = await prisma.jobRun.findFirst({
+        where: {
+          jobName: definition.name,
+          status: 'SUCCEEDED',
+          scheduledFor: { gte: context.scheduledFor },
+          id: { not: runId },
+        },
+      });
+      if (alreadyRan) {
+        status = 'SKIPPED';
+        error = `Slot ${context.scheduledFor.toISOString()} already completed by run ${alreadyRan.id}`;
+        return;
+      }
+    }
+
+    resultSummary = (await definition.run(parameters, context)) || null;
+  };
+
+  try {
+    if (await tryLockJob(definition.name)) {
+      try {
+        await runLocked();
+      } finally {
+        await unlockJob(definition.name);
+      }
+    } else {
+      status = 'SKIPPED';
+      error = 'Another instance is already running this job';
+    }
+  } catch (err: any) {
+    status = 'FAILED';
+    error = err?.message || String(err);
+    logger.error(`Job "${definition.name}" failed`, err);
+  }
+
+  return prisma.jobRun.update({
+    where: { id: runId },
+    data: {
+      status,
+      error,
+      resultSummary: resultSummary ?? Prisma.JsonNull,
+      finishedAt: new Date(),
+      durationMs: Date.now() - startedAt,
+    },
+  });
+};
+
+/**
+ * Schedule every registered job with node-cron
+ */
+export const startScheduledJobs = (): void => {
+  for (const definition of registry.values()) {
+    cron.schedule(definition.schedule, async () => {
+      // Normalise to the minute so every instance reports the same slot
+      const scheduledFor = new Date();
+      scheduledFor.setSeconds(0, 0);
+      try {
+        const { completion } = await startJobRun(definition.name, { trigger: 'SCHEDULED', scheduledFor });
+        await completion;
+      } catch (error) {
+        logger.error(`Error starting scheduled job "${definition.name}"`, error);
+      }
+    });
+  }
+};
+
+/**
+ * Run jobs whose most recent cron slot has no successful run
+ */
+export const runMissedJobs = async (now: Date = new Date()): Promise<void> => {
+  for (const definition of registry.values()) {
+    if (!definition.lastScheduledAt) continue;
+
+    try {
+      const scheduledFor = definition.lastScheduledAt(now);
+      const completed = await prisma.jobRun.findFirst({
+        where: {
+          jobName: definition.name,
+          status: 'SUCCEEDED',
+          OR: [{ scheduledFor: { gte: scheduledFor } }, { trigger: 'MANUAL', startedAt: { gte: scheduledFor } }],
+        },
+      });
+      if (completed) continue;
+
+      const { completion } = await startJobRun(definition.name, { trigger: 'CATCH_UP', scheduledFor });
+      await completion;
+    } catch (error) {
+      logger.error(`Error catching up job "${definition.name}"`, error);
+    }
+  }
+};
+
+/**
+ * Get registered jobs with their most recent run
+ */
+export const getJobsWithLastRun = async () => {
+  const definitions = getJobDefinitions();
+  const lastRuns = await Promise.all(
+    definitions.map((definition) =>
+      prisma.jobRun.findFirst({
+        where: { jobName: definition.name },
+        orderBy: { startedAt: 'desc' },
+      })
+    )
+  );
+
+  return definitions.map((definition, index) => ({
+    name: definition.name,
+    description: definition.description,
+    schedule: definition.schedule,
+    parameters: definition.parameters || {},
+    catchUp: !!definition.lastScheduledAt,
+    lastRun: lastRuns[index],
+  }));
+};
+
+/**
+ * Get paginated run history for a job
+ */
+export const getJobRuns = async (name: string, filters: { page: number; pageSize: number; status?: string }) => {
+  const where: any = { jobName: name };
+  if (filters.status) {
+    where.status = filters.status;
+  }
+
+  const [runs, total] = await Promise.all([
+    prisma.jobRun.findMany({
+      where,
+      orderBy: { startedAt: 'desc' },
+      skip: (filters.page - 1) * filters.pageSize,
+      take: filters.pageSize,
+    }),
+    prisma.jobRun.count({ where }),
+  ]);
+
+  return {
+    runs,
+    total,
+    page: filters.page,
+    pageSize: filters.pageSize,
+    totalPages: Math.ceil(total / filters.pageSize),
+  };
+};
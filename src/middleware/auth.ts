@@ -1,6 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { prisma } from '../index';
 import { IJWTPayload } from '../types';
+import { verifyToken } from '../utils/jwt';
+import { Permission, resolvePermissions } from '../utils/permissions';
+import { getRequestContext } from '../utils/requestContext';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors';
+
+// Routes still usable while a password change is pending (invited employees, admin-set passwords)
+const PASSWORD_CHANGE_ALLOWED_PATHS = ['/auth/change-password', '/auth/logout-all'];
 
 declare global {
   namespace Express {
@@ -10,57 +17,85 @@ declare global {
   }
 }
 
-export const authMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+export const authMiddleware = async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
 
     const token = authHeader?.split(' ')[1];
 
     if (!token) {
-      res.status(401).json({ error: 'No token provided' });
-      return;
+      return next(new UnauthorizedError('No token provided'));
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret') as IJWTPayload;
-    
-    // Map ADMIN role to MANAGEMENT for backward compatibility
-    // This ensures existing tokens with ADMIN role still work
-    // Compare as string since JWT tokens contain string values, not enum values
-    if (String(decoded.role) === 'ADMIN') {
-      (decoded as any).role = 'MANAGEMENT' as any;
+    const decoded = verifyToken(token);
+
+    if (!decoded) {
+      return next(new UnauthorizedError('Invalid token'));
+    }
+
+    // Check the account on every request so revocation, suspension and role changes apply immediately
+    const employee = await prisma.employee.findUnique({
+      where: { id: decoded.userId },
+      select: {
+        role: true,
+        userStatus: true,
+        status: true,
+        tokenVersion: true,
+        mustChangePassword: true,
+        permissionOverrides: { select: { permission: true, effect: true } },
+      },
+    });
+
+    if (!employee || (decoded.tokenVersion ?? 0) !== employee.tokenVersion) {
+      return next(new UnauthorizedError('Session has been revoked'));
+    }
+
+    if (employee.userStatus !== 'ACTIVE' || employee.status === 'TERMINATED') {
+      return next(new ForbiddenError('Your account is not active. Please contact your administrator.'));
+    }
+
+    if (employee.mustChangePassword && !PASSWORD_CHANGE_ALLOWED_PATHS.includes(req.originalUrl.split('?')[0])) {
+      return next(new ForbiddenError('Password change required', 'PASSWORD_CHANGE_REQUIRED'));
     }
-    
+
+    // Map ADMIN role to MANAGEMENT for backward compatibility
+    // Compare as string since the stored role may still be the legacy ADMIN value
+    decoded.role = (String(employee.role) === 'ADMIN' ? 'MANAGEMENT' : employee.role) as IJWTPayload['role'];
+    decoded.permissions = resolvePermissions(decoded.role, employee.permissionOverrides);
+
     req.user = decoded;
+
+    const context = getRequestContext();
+    if (context) {
+      context.actorId = decoded.userId;
+    }
+
     next();
   } catch (error) {
-    res.status(401).json({ error: 'Invalid token' });
+    next(error);
   }
 };
 
-export const requireRole = (...roles: string[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    if (!req.user) {
-      res.status(401).json({ error: 'Unauthorized' });
-      return;
-    }
+// Permissions by requirePermission middleware, for the OpenAPI document (see utils/openapi)
+const requiredPermissions = new WeakMap<object, Permission[]>();
 
-    // Map ADMIN to MANAGEMENT for backward compatibility
-    // Compare as string since JWT tokens may contain 'ADMIN' as string value
-    const userRole = String(req.user.role) === 'ADMIN' ? 'MANAGEMENT' : req.user.role;
-    
-    // MANAGEMENT role has access to everything (superset of all other roles)
-    // So if MANAGEMENT is in required roles, allow access
-    if (roles.includes('MANAGEMENT') && userRole === 'MANAGEMENT') {
-      next();
-      return;
+/**
+ * Allow the request when the user holds at least one of the given permissions
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  const middleware = (req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      return next(new UnauthorizedError());
     }
 
-    if (!roles.includes(userRole)) {
-      res.status(403).json({ error: 'Forbidden' });
-      return;
+    if (!permissions.some((permission) => req.user!.permissions?.includes(permission))) {
+      return next(new ForbiddenError());
     }
 
     next();
   };
+  requiredPermissions.set(middleware, permissions);
+  return middleware;
 };
 
+export const getRequiredPermissions = (handler: object): Permission[] | undefined => requiredPermissions.get(handler);
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { toErrorResponse } from '../utils/errors';
+import { getRequestContext } from '../utils/requestContext';
+import { logger } from '../utils/logger';
+
+/**
+ * Central error handler: every error thrown or passed to next() ends up here
+ */
+export const errorHandler = (err: unknown, req: Request, res: Response, _next: NextFunction): void => {
+  const { statusCode, body } = toErrorResponse(err);
+  const fields = { method: req.method, path: req.originalUrl.split('?')[0], statusCode };
+
+  if (statusCode >= 500) {
+    logger.error('Request failed', fields, err);
+  } else {
+    logger.warn(body.error, fields);
+  }
+
+  if (res.headersSent) return;
+  res.status(statusCode).json({ ...body, requestId: getRequestContext()?.requestId });
+};
+
+/**
+ * 404 for routes that do not exist
+ */
+export const notFoundHandler = (req: Request, res: Response): void => {
+  res.status(404).json({
+    success: false,
+    error: `Route ${req.method} ${req.originalUrl.split('?')[0]} not found`,
+    code: 'NOT_FOUND',
+    requestId: getRequestContext()?.requestId,
+  });
+};
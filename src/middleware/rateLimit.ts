@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message: string;
+  keyGenerator?: (req: Request) => string;
+}
+
+interface RateLimitEntry {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window, in-memory rate limiter (per process).
+ * Requests over `max` within `windowMs` get 429 with a Retry-After header.
+ */
+export const createRateLimiter = ({ windowMs, max, message, keyGenerator }: RateLimitOptions) => {
+  const hits = new Map<string, RateLimitEntry>();
+
+  // Drop expired windows so the map does not grow unbounded
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    hits.forEach((entry, key) => {
+      if (entry.resetAt <= now) hits.delete(key);
+    });
+  }, windowMs);
+  cleanup.unref();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const key = keyGenerator ? keyGenerator(req) : req.ip || 'unknown';
+    const now = Date.now();
+
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+
+    entry.count++;
+
+    if (entry.count > max) {
+      res.setHeader('Retry-After', Math.ceil((entry.resetAt - now) / 1000).toString());
+      res.status(429).json({ success: false, error: message });
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,37 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { RequestContext, requestContextStorage } from '../utils/requestContext';
+import { logger } from '../utils/logger';
+
+// Request IDs accepted from upstream proxies / clients
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+/**
+ * Run the rest of the request inside a fresh request context and log its outcome
+ */
+export const requestContextMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+  const incomingId = req.get('X-Request-Id');
+  const context: RequestContext = {
+    requestId: incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID(),
+    ipAddress: req.ip || null,
+    actorId: null,
+  };
+  const startedAt = Date.now();
+
+  res.setHeader('X-Request-Id', context.requestId);
+
+  // 'finish' fires outside the async context, so re-enter it for the log line
+  res.on('finish', () => {
+    requestContextStorage.run(context, () => {
+      logger.info('Request completed', {
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        statusCode: res.statusCode,
+        durationMs: Date.now() - startedAt,
+        actorId: context.actorId,
+      });
+    });
+  });
+
+  requestContextStorage.run(context, next);
+};
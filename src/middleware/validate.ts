@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Request Validation
+ *
+ * validate({ body, query, params }) parses the given parts of the request with
+ * their Zod schemas (see src/schemas) and replaces them with the parsed values,
+ * so controllers receive coerced numbers, dates and booleans instead of raw
+ * strings. Failures are reported as a single 400 listing every invalid field:
+ *   { success: false, error: 'Validation failed', code: 'VALIDATION_ERROR',
+ *     details: [{ field: 'query.month', message: '...' }] }
+ */
+
+export interface RequestSchemas {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+  // Data of the success response; not validated, documents the route (see schemas/responses)
+  response?: z.ZodType;
+}
+
+type Parsed<S extends RequestSchemas, K extends keyof RequestSchemas> = S[K] extends z.ZodType ? z.output<S[K]> : never;
+
+export interface ValidatedRequest<S extends RequestSchemas> {
+  params: Parsed<S, 'params'>;
+  query: Parsed<S, 'query'>;
+  body: Parsed<S, 'body'>;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const LOCATIONS = ['params', 'query', 'body'] as const;
+
+// Schemas by validate middleware, for the OpenAPI document (see utils/openapi)
+const registeredSchemas = new WeakMap<object, RequestSchemas>();
+
+export const getRequestSchemas = (handler: object): RequestSchemas | undefined => registeredSchemas.get(handler);
+
+export const validate = (schemas: RequestSchemas) => {
+  const middleware = (req: Request, _res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+    const parsed: Partial<Record<(typeof LOCATIONS)[number], unknown>> = {};
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        result.error.issues.forEach((issue) => {
+          errors.push({ field: [location, ...issue.path.map(String)].join('.'), message: issue.message });
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      return next(new ValidationError('Validation failed', errors));
+    }
+
+    if ('params' in parsed) req.params = parsed.params as Request['params'];
+    if ('body' in parsed) req.body = parsed.body;
+    // req.query is a getter in Express 5, so shadow it on the request itself
+    if ('query' in parsed) {
+      Object.defineProperty(req, 'query', { value: parsed.query, writable: true, configurable: true, enumerable: true });
+    }
+
+    next();
+  };
+  registeredSchemas.set(middleware, schemas);
+  return middleware;
+};
+
+/**
+ * Typed view of a request that went through validate(schemas) with the same schemas
+ */
+export const validated = <S extends RequestSchemas>(req: Request, _schemas: S): ValidatedRequest<S> => {
+  return req as unknown as ValidatedRequest<S>;
+};
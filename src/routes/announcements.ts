@@ -9,6 +9,15 @@ import {
   getRecipientsData,
 } from '../controllers/announcementController';
 import { authMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  announcementIdSchema,
+  createAnnouncementSchema,
+  deleteAnnouncementSchema,
+  getAnnouncementsSchema,
+  getRecipientsDataSchema,
+  updateAnnouncementSchema,
+} from '../schemas/announcements';
 
 const router = express.Router();
 
@@ -18,25 +27,25 @@ const router = express.Router();
  */
 
 // Get recipients data (departments with employees + all employees list)
-router.get('/recipients/data', authMiddleware, getRecipientsData);
+router.get('/recipients/data', authMiddleware, validate(getRecipientsDataSchema), getRecipientsData);
 
 // Get all announcements with filters
-router.get('/', authMiddleware, getAnnouncements);
+router.get('/', authMiddleware, validate(getAnnouncementsSchema), getAnnouncements);
 
 // Get single announcement by ID
-router.get('/:id', authMiddleware, getAnnouncementById);
+router.get('/:id', authMiddleware, validate(announcementIdSchema), getAnnouncementById);
 
 // Create new announcement
-router.post('/', authMiddleware, createAnnouncement);
+router.post('/', authMiddleware, validate(createAnnouncementSchema), createAnnouncement);
 
 // Update announcement
-router.put('/:id', authMiddleware, updateAnnouncement);
+router.put('/:id', authMiddleware, validate(updateAnnouncementSchema), updateAnnouncement);
 
 // Delete announcement
-router.delete('/:id', authMiddleware, deleteAnnouncement);
+router.delete('/:id', authMiddleware, validate(deleteAnnouncementSchema), deleteAnnouncement);
 
 // Publish announcement
-router.patch('/:id/publish', authMiddleware, publishAnnouncement);
+router.patch('/:id/publish', authMiddleware, validate(announcementIdSchema), publishAnnouncement);
 
 export default router;
 
@@ -9,7 +9,18 @@ import {
   unassignAssetFromEmployee,
   getAssetStats,
 } from '../controllers/assetController';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  assetIdSchema,
+  assignAssetSchema,
+  createAssetSchema,
+  deleteAssetSchema,
+  getAssetsSchema,
+  getAssetStatsSchema,
+  unassignAssetSchema,
+  updateAssetSchema,
+} from '../schemas/assets';
 
 const router = Router();
 
@@ -17,28 +28,28 @@ const router = Router();
 router.use(authMiddleware);
 
 // Get asset statistics
-router.get('/stats', getAssetStats);
+router.get('/stats', validate(getAssetStatsSchema), getAssetStats);
 
 // Get all assets with pagination and filters (all authenticated users)
-router.get('/', getAssets);
+router.get('/', validate(getAssetsSchema), getAssets);
 
 // Get single asset by ID (all authenticated users)
-router.get('/:id', getAssetById);
+router.get('/:id', validate(assetIdSchema), getAssetById);
 
 // Create new asset (all authenticated users)
-router.post('/', createAsset);
+router.post('/', validate(createAssetSchema), createAsset);
 
 // Update asset (only HR and MANAGEMENT)
-router.put('/:id', requireRole('HR', 'MANAGEMENT'), updateAsset);
+router.put('/:id', requirePermission('asset:manage'), validate(updateAssetSchema), updateAsset);
 
 // Delete asset (only HR and MANAGEMENT)
-router.delete('/:id', requireRole('HR', 'MANAGEMENT'), deleteAsset);
+router.delete('/:id', requirePermission('asset:manage'), validate(deleteAssetSchema), deleteAsset);
 
 // Assign asset to employee (all authenticated users, but employees can only assign to themselves)
-router.post('/:id/assign', assignAssetToEmployee);
+router.post('/:id/assign', validate(assignAssetSchema), assignAssetToEmployee);
 
 // Unassign asset from employee (all authenticated users, but employees can only unassign from themselves)
-router.post('/:id/unassign', unassignAssetFromEmployee);
+router.post('/:id/unassign', validate(unassignAssetSchema), unassignAssetFromEmployee);
 
 export default router;
 
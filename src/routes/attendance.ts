@@ -11,7 +11,44 @@ import {
   getAllAttendance,
   getAttendanceReports,
 } from '../controllers/attendanceManagementController';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import {
+  getAttendanceCorrections,
+  getRegularizationQueue,
+  requestAttendanceCorrection,
+  approveAttendanceCorrection,
+  rejectAttendanceCorrection,
+  cancelAttendanceCorrection,
+  editAttendanceRecord,
+  bulkEditAttendanceRecords,
+} from '../controllers/attendanceCorrectionController';
+import {
+  getAttendanceExceptions,
+  justifyAttendanceException,
+  reviewAttendanceException,
+} from '../controllers/attendanceExceptionController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  approveAttendanceCorrectionSchema,
+  attendanceCorrectionIdSchema,
+  bulkEditAttendanceSchema,
+  checkInSchema,
+  checkOutSchema,
+  editAttendanceSchema,
+  endBreakSchema,
+  getAttendanceCorrectionsSchema,
+  getAllAttendanceSchema,
+  getAttendanceHistorySchema,
+  getAttendanceExceptionsSchema,
+  getAttendanceReportsSchema,
+  getAttendanceTodaySchema,
+  getRegularizationQueueSchema,
+  justifyAttendanceExceptionSchema,
+  rejectAttendanceCorrectionSchema,
+  requestAttendanceCorrectionSchema,
+  reviewAttendanceExceptionSchema,
+  startBreakSchema,
+} from '../schemas/attendance';
 
 const router = express.Router();
 
@@ -21,24 +58,52 @@ const router = express.Router();
  */
 
 // Get today's attendance
-router.get('/today', authMiddleware, getAttendanceToday);
+router.get('/today', authMiddleware, validate(getAttendanceTodaySchema), getAttendanceToday);
 
 // Get attendance history
-router.get('/history', authMiddleware, getAttendanceHistory);
+router.get('/history', authMiddleware, validate(getAttendanceHistorySchema), getAttendanceHistory);
 
 // Check in
-router.post('/check-in', authMiddleware, checkIn);
+router.post('/check-in', authMiddleware, validate(checkInSchema), checkIn);
 
 // Check out
-router.post('/check-out', authMiddleware, checkOut);
+router.post('/check-out', authMiddleware, validate(checkOutSchema), checkOut);
 
 // Break management
-router.post('/start-break', authMiddleware, startBreak);
-router.post('/end-break', authMiddleware, endBreak);
+router.post('/start-break', authMiddleware, validate(startBreakSchema), startBreak);
+router.post('/end-break', authMiddleware, validate(endBreakSchema), endBreak);
+
+// Management routes (HR, Management, Finance; line managers see their reports - checked in controller)
+router.get('/management/all', authMiddleware, validate(getAllAttendanceSchema), getAllAttendance);
+router.get('/management/reports', authMiddleware, validate(getAttendanceReportsSchema), getAttendanceReports);
+
+// Direct edits by HR, recorded as applied corrections
+router.patch('/management/records', authMiddleware, requirePermission('attendance:manage'), validate(editAttendanceSchema), editAttendanceRecord);
+router.patch(
+  '/management/records/bulk',
+  authMiddleware,
+  requirePermission('attendance:manage'),
+  validate(bulkEditAttendanceSchema),
+  bulkEditAttendanceRecords
+);
+
+// Corrections of missed or wrong check-ins/check-outs (own, reports', or all with attendance:read:all)
+router.get('/corrections', authMiddleware, validate(getAttendanceCorrectionsSchema), getAttendanceCorrections);
+router.post('/corrections', authMiddleware, validate(requestAttendanceCorrectionSchema), requestAttendanceCorrection);
+// Line manager or attendance:manage reviews - checked in controller
+router.post('/corrections/:id/approve', authMiddleware, validate(approveAttendanceCorrectionSchema), approveAttendanceCorrection);
+router.post('/corrections/:id/reject', authMiddleware, validate(rejectAttendanceCorrectionSchema), rejectAttendanceCorrection);
+router.post('/corrections/:id/cancel', authMiddleware, validate(attendanceCorrectionIdSchema), cancelAttendanceCorrection);
+
+// Records closed by the auto-checkout job that await a correction (own, reports', or all with attendance:read:all)
+router.get('/regularization', authMiddleware, validate(getRegularizationQueueSchema), getRegularizationQueue);
 
-// Management routes (HR, Management, Finance only)
-router.get('/management/all', authMiddleware, requireRole('HR', 'MANAGEMENT', 'FINANCE'), getAllAttendance);
-router.get('/management/reports', authMiddleware, requireRole('HR', 'MANAGEMENT', 'FINANCE'), getAttendanceReports);
+// Days classified by the nightly attendance-classification job (own, reports', or all with attendance:read:all)
+router.get('/exceptions', authMiddleware, validate(getAttendanceExceptionsSchema), getAttendanceExceptions);
+// Employee explains their own late arrival, early leave or absence
+router.post('/exceptions/:id/justify', authMiddleware, validate(justifyAttendanceExceptionSchema), justifyAttendanceException);
+// Line manager or attendance:exception:review excuses it or not - checked in controller
+router.post('/exceptions/:id/review', authMiddleware, validate(reviewAttendanceExceptionSchema), reviewAttendanceException);
 
 export default router;
 
@@ -0,0 +1,66 @@
+import express from 'express';
+import {
+  getAttendancePolicies,
+  setAttendancePolicy,
+  deleteAttendancePolicy,
+  getEffectiveAttendancePolicy,
+} from '../controllers/attendancePolicyController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  attendancePolicyIdSchema,
+  getAttendancePoliciesSchema,
+  getEffectiveAttendancePolicySchema,
+  setAttendancePolicySchema,
+} from '../schemas/attendancePolicies';
+
+const router = express.Router();
+
+/**
+ * Attendance Policy Routes
+ * Which employees and departments are required to record attendance
+ */
+
+/**
+ * @route   GET /attendance-policies/effective
+ * @desc    Whether an employee records attendance on a day, and which policy decides it
+ * @access  Authenticated (own policy); attendance:read:all or attendance:policy:manage for others
+ * @query   employeeId, date
+ */
+router.get('/effective', authMiddleware, validate(getEffectiveAttendancePolicySchema), getEffectiveAttendancePolicy);
+
+/**
+ * @route   GET /attendance-policies
+ * @desc    Policy history of employees and departments
+ * @access  attendance:policy:manage, attendance:read:all
+ * @query   employeeId, departmentId
+ */
+router.get(
+  '/',
+  authMiddleware,
+  requirePermission('attendance:policy:manage', 'attendance:read:all'),
+  validate(getAttendancePoliciesSchema),
+  getAttendancePolicies
+);
+
+/**
+ * @route   POST /attendance-policies
+ * @desc    Set whether an employee or department records attendance from a date
+ * @access  attendance:policy:manage
+ */
+router.post('/', authMiddleware, requirePermission('attendance:policy:manage'), validate(setAttendancePolicySchema), setAttendancePolicy);
+
+/**
+ * @route   DELETE /attendance-policies/:id
+ * @desc    Remove a policy that has not started yet
+ * @access  attendance:policy:manage
+ */
+router.delete(
+  '/:id',
+  authMiddleware,
+  requirePermission('attendance:policy:manage'),
+  validate(attendancePolicyIdSchema),
+  deleteAttendancePolicy
+);
+
+export default router;
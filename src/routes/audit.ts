@@ -0,0 +1,22 @@
+import express from 'express';
+import { getAuditLogs } from '../controllers/auditLogController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { getAuditLogsSchema } from '../schemas/audit';
+
+const router = express.Router();
+
+/**
+ * Audit Log Routes
+ * Entries are recorded automatically for every create/update/delete
+ */
+
+/**
+ * @route   GET /audit
+ * @desc    Query the audit log, newest first
+ * @access  audit:read (Management)
+ * @query   entity, entityId, actorId, action (CREATE|UPDATE|DELETE), from, to, page, pageSize
+ */
+router.get('/', authMiddleware, requirePermission('audit:read'), validate(getAuditLogsSchema), getAuditLogs);
+
+export default router;
@@ -1,25 +1,117 @@
 import { Router } from 'express';
-import { login, googleAuth } from '../controllers/authController';
+import {
+  login,
+  googleAuth,
+  refresh,
+  logout,
+  logoutAll,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  getLoginHistory,
+} from '../controllers/authController';
+import { authMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  changePasswordSchema,
+  forgotPasswordSchema,
+  getLoginHistorySchema,
+  googleAuthSchema,
+  loginSchema,
+  logoutAllSchema,
+  logoutSchema,
+  refreshSchema,
+  resetPasswordSchema,
+} from '../schemas/auth';
+import { createRateLimiter } from '../middleware/rateLimit';
 
 const router = Router();
 
+const forgotPasswordLimiter = createRateLimiter({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  message: 'Too many password reset requests. Please try again later.',
+});
+
+const resetPasswordLimiter = createRateLimiter({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: 'Too many attempts. Please try again later.',
+});
+
 /**
  * @route   POST /auth/login
  * @desc    Login with email and password
  * @access  Public
  * @body    { email: string, password: string }
- * @returns { token: string, user: IUser }
+ * @returns { token: string, refreshToken: string, refreshTokenExpiresAt: Date, user: IUser }
  */
-router.post('/login', login);
+router.post('/login', validate(loginSchema), login);
 
 /**
  * @route   POST /auth/google
  * @desc    Authenticate with Google JWT token
  * @access  Public
  * @body    { token: string }
- * @returns { token: string, user: IUser }
+ * @returns { token: string, refreshToken: string, refreshTokenExpiresAt: Date, user: IUser }
  */
-router.post('/google', googleAuth);
+router.post('/google', validate(googleAuthSchema), googleAuth);
 
-export default router;
+/**
+ * @route   POST /auth/refresh
+ * @desc    Exchange a refresh token for a new access token; the refresh token is rotated
+ * @access  Public
+ * @body    { refreshToken: string }
+ * @returns { token: string, refreshToken: string, refreshTokenExpiresAt: Date }
+ */
+router.post('/refresh', validate(refreshSchema), refresh);
+
+/**
+ * @route   POST /auth/logout
+ * @desc    Revoke the session of a refresh token
+ * @access  Public
+ * @body    { refreshToken: string }
+ */
+router.post('/logout', validate(logoutSchema), logout);
+
+/**
+ * @route   POST /auth/logout-all
+ * @desc    Revoke all sessions of the current user
+ * @access  Private
+ */
+router.post('/logout-all', authMiddleware, validate(logoutAllSchema), logoutAll);
 
+/**
+ * @route   POST /auth/forgot-password
+ * @desc    Email a single-use password reset link; same response whether or not the account exists
+ * @access  Public (rate limited)
+ * @body    { email: string }
+ */
+router.post('/forgot-password', forgotPasswordLimiter, validate(forgotPasswordSchema), forgotPassword);
+
+/**
+ * @route   POST /auth/reset-password
+ * @desc    Set a new password with a reset or invitation token; ends existing sessions
+ * @access  Public (rate limited)
+ * @body    { token: string, newPassword: string }
+ */
+router.post('/reset-password', resetPasswordLimiter, validate(resetPasswordSchema), resetPassword);
+
+/**
+ * @route   POST /auth/change-password
+ * @desc    Change the current user's password; other sessions are ended
+ * @access  Private
+ * @body    { currentPassword: string, newPassword: string }
+ * @returns { token: string, refreshToken: string, refreshTokenExpiresAt: Date }
+ */
+router.post('/change-password', authMiddleware, validate(changePasswordSchema), changePassword);
+
+/**
+ * @route   GET /auth/login-history
+ * @desc    Successful and failed sign-ins of the current user
+ * @access  Private
+ * @query   page, pageSize
+ */
+router.get('/login-history', authMiddleware, validate(getLoginHistorySchema), getLoginHistory);
+
+export default router;
@@ -6,23 +6,32 @@ import {
   financeReviewBankDetailChangeRequest,
   managementReviewBankDetailChangeRequest,
 } from '../controllers/bankDetailChangeRequestController';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  bankDetailChangeRequestIdSchema,
+  createBankDetailChangeRequestSchema,
+  getBankDetailChangeRequestsSchema,
+  reviewBankDetailChangeRequestSchema,
+} from '../schemas/bankDetailChangeRequests';
 
 const router = express.Router();
 
-router.get('/', authMiddleware, getBankDetailChangeRequests);
-router.get('/:id', authMiddleware, getBankDetailChangeRequestById);
-router.post('/', authMiddleware, createBankDetailChangeRequest);
+router.get('/', authMiddleware, validate(getBankDetailChangeRequestsSchema), getBankDetailChangeRequests);
+router.get('/:id', authMiddleware, validate(bankDetailChangeRequestIdSchema), getBankDetailChangeRequestById);
+router.post('/', authMiddleware, validate(createBankDetailChangeRequestSchema), createBankDetailChangeRequest);
 router.post(
   '/:id/finance-review',
   authMiddleware,
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('bank-detail:approve:finance'),
+  validate(reviewBankDetailChangeRequestSchema),
   financeReviewBankDetailChangeRequest
 );
 router.post(
   '/:id/management-review',
   authMiddleware,
-  requireRole('MANAGEMENT'),
+  requirePermission('bank-detail:approve:management'),
+  validate(reviewBankDetailChangeRequestSchema),
   managementReviewBankDetailChangeRequest
 );
 
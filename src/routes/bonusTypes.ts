@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { getBonusTypes } from '../controllers/bonusTypeController';
 import { authMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { getBonusTypesSchema } from '../schemas/bonuses';
 
 const router = Router();
 
@@ -12,7 +14,7 @@ router.use(authMiddleware);
  * @desc    Get all bonus types
  * @access  All Authenticated
  */
-router.get('/', getBonusTypes);
+router.get('/', validate(getBonusTypesSchema), getBonusTypes);
 
 export default router;
 
@@ -11,7 +11,18 @@ import {
   putBonusOnHold,
   rejectBonus,
 } from '../controllers/bonusController';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  bonusIdSchema,
+  bonusPayrollReferenceSchema,
+  createBonusSchema,
+  deleteBonusSchema,
+  getBonusesSchema,
+  putBonusOnHoldSchema,
+  rejectBonusSchema,
+  updateBonusSchema,
+} from '../schemas/bonuses';
 
 const router = Router();
 
@@ -22,11 +33,12 @@ router.use(authMiddleware);
  * @route   POST /bonuses
  * @desc    Create a new bonus
  * @access  HR, Management, Admin
- * @body    { employeeId, amount, reason, month, year }
+ * @body    { employeeId, bonusTypeId, amount, reason, bonusDate }
  */
 router.post(
   '/',
-  requireRole('HR', 'MANAGEMENT'),
+  requirePermission('bonus:create'),
+  validate(createBonusSchema),
   createBonus
 );
 
@@ -34,10 +46,11 @@ router.post(
  * @route   GET /bonuses
  * @desc    Get all bonuses with filters (EMPLOYEE can only see their own)
  * @access  All authenticated (EMPLOYEE sees own only)
- * @query   page, pageSize, employeeId, month, year
+ * @query   page, pageSize, employeeId, startDate, endDate, month, year
  */
 router.get(
   '/',
+  validate(getBonusesSchema),
   getBonuses
 );
 
@@ -49,7 +62,8 @@ router.get(
  */
 router.patch(
   '/:id',
-  requireRole('MANAGEMENT'),
+  requirePermission('bonus:update'),
+  validate(updateBonusSchema),
   updateBonus
 );
 
@@ -60,43 +74,50 @@ router.patch(
  */
 router.delete(
   '/:id',
-  requireRole('MANAGEMENT'),
+  requirePermission('bonus:update'),
+  validate(deleteBonusSchema),
   deleteBonus
 );
 
 router.post(
   '/:id/finance-approve',
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('bonus:approve:finance'),
+  validate(bonusIdSchema),
   financeApproveBonus
 );
 
 router.post(
   '/:id/management-approve',
-  requireRole('MANAGEMENT'),
+  requirePermission('bonus:approve:management'),
+  validate(bonusIdSchema),
   managementApproveBonus
 );
 
 router.post(
   '/:id/ready-for-payroll',
-  requireRole('FINANCE'),
+  requirePermission('bonus:ready'),
+  validate(bonusPayrollReferenceSchema),
   readyBonusForPayroll
 );
 
 router.post(
   '/:id/apply-to-payroll',
-  requireRole('MANAGEMENT'),
+  requirePermission('bonus:apply'),
+  validate(bonusPayrollReferenceSchema),
   applyBonusToPayroll
 );
 
 router.post(
   '/:id/on-hold',
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('bonus:review'),
+  validate(putBonusOnHoldSchema),
   putBonusOnHold
 );
 
 router.post(
   '/:id/reject',
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('bonus:review'),
+  validate(rejectBonusSchema),
   rejectBonus
 );
 
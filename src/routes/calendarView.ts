@@ -1,6 +1,8 @@
 import express from 'express';
 import { getLeaveTypeColors, getCalendarView, createLeaveTypeColor } from '../controllers/calendarViewController';
 import { authMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { createLeaveTypeColorSchema, getCalendarViewSchema, getLeaveTypeColorsSchema } from '../schemas/calendar';
 
 const router = express.Router();
 
@@ -10,13 +12,13 @@ const router = express.Router();
  */
 
 // Get all leave type colors
-router.get('/leave-type-colors', authMiddleware, getLeaveTypeColors);
+router.get('/leave-type-colors', authMiddleware, validate(getLeaveTypeColorsSchema), getLeaveTypeColors);
 
 // Get calendar view for employees
-router.get('/view', authMiddleware, getCalendarView);
+router.get('/view', authMiddleware, validate(getCalendarViewSchema), getCalendarView);
 
 // Create or update leave type color
-router.post('/leave-type-colors', authMiddleware, createLeaveTypeColor);
+router.post('/leave-type-colors', authMiddleware, validate(createLeaveTypeColorSchema), createLeaveTypeColor);
 
 export default router;
 
@@ -1,5 +1,13 @@
 import express from 'express';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  createClientSchema,
+  createProjectSchema,
+  getClientsAndProjectsForSelectionSchema,
+  getClientsSchema,
+  getProjectsByClientSchema,
+} from '../schemas/clientProjects';
 import {
   getClients,
   createClient,
@@ -18,35 +26,35 @@ router.use(authMiddleware);
  * Get all active clients and projects for dropdown selection
  * Accessible to all authenticated users
  */
-router.get('/for-selection', getClientsAndProjectsForSelection);
+router.get('/for-selection', validate(getClientsAndProjectsForSelectionSchema), getClientsAndProjectsForSelection);
 
 /**
  * GET /clients
  * Get all clients with pagination and filters
  * Query: page, pageSize, search, isActive
  */
-router.get('/clients', getClients);
+router.get('/clients', validate(getClientsSchema), getClients);
 
 /**
  * POST /clients
  * Create a new client (Admin/HR only)
  * Body: { name, email?, phone?, address?, city?, country?, description? }
  */
-router.post('/clients', requireRole('MANAGEMENT', 'HR'), createClient);
+router.post('/clients', requirePermission('client-project:manage'), validate(createClientSchema), createClient);
 
 /**
  * GET /clients/:clientId/projects
  * Get all projects for a specific client
  * Query: page, pageSize, isActive
  */
-router.get('/clients/:clientId/projects', getProjectsByClient);
+router.get('/clients/:clientId/projects', validate(getProjectsByClientSchema), getProjectsByClient);
 
 /**
  * POST /projects
  * Create a new project (Admin/HR only)
  * Body: { name, clientId, description?, startDate?, endDate? }
  */
-router.post('/projects', requireRole('MANAGEMENT', 'HR'), createProject);
+router.post('/projects', requirePermission('client-project:manage'), validate(createProjectSchema), createProject);
 
 export default router;
 
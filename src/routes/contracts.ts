@@ -1,425 +1,247 @@
-import { Router } from 'express';
-import { authMiddleware, requireRole } from '../middleware/auth';
-import { prisma } from '../index';
-
-const router = Router();
-
-// Get all employee contracts (view-only dashboard)
-router.get('/', authMiddleware, requireRole('HR', 'MANAGEMENT'), async (req, res) => {
-  try {
-    const { page = '1', pageSize = '10', status, employmentType } = req.query;
-    const pageNum = parseInt(page as string);
-    const size = parseInt(pageSize as string);
-    const skip = (pageNum - 1) * size;
-
-    const where: any = {};
-    if (employmentType && employmentType !== 'all') {
-      where.employmentType = employmentType;
-    }
-    
-    // Status filtering will be done after calculating contract status
-    // We need to fetch all employees first, then filter by calculated status, then paginate
-
-    const employees = await prisma.employee.findMany({
-      where,
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        employeeId: true,
-        email: true,
-        designation: true,
-        department: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        joinDate: true,
-        probationPeriod: true,
-        confirmationDate: true,
-        contractDuration: true,
-        contractExpiryDate: true,
-        employmentType: true,
-        status: true,
-        baseSalary: true,
-        telephoneAllowance: true,
-        housingAllowance: true,
-        transportationAllowance: true,
-        totalSalary: true,
-        currency: true,
-        workMode: true,
-      },
-      orderBy: { contractExpiryDate: 'asc' },
-    });
-
-    // Calculate confirmation dates and contract expiry dates if not set
-    const contracts = employees.map((emp) => {
-      let calculatedConfirmationDate = emp.confirmationDate;
-      let calculatedExpiryDate = emp.contractExpiryDate;
-
-      // Calculate confirmation date (joinDate + probationPeriod)
-      if (emp.joinDate && emp.probationPeriod && !calculatedConfirmationDate) {
-        const probationDays = parseInt(emp.probationPeriod) || 0;
-        if (probationDays > 0) {
-          calculatedConfirmationDate = new Date(emp.joinDate);
-          calculatedConfirmationDate.setDate(calculatedConfirmationDate.getDate() + probationDays);
-        }
-      }
-
-      // Calculate contract expiry date (joinDate + contractDuration)
-      // Always recalculate from duration if available, since contracts are derived from employee records
-      if (emp.joinDate && emp.contractDuration && emp.contractDuration !== 'Permanent') {
-        // Parse contract duration (e.g., "80", "12 months", "2 years", etc.)
-        const duration = emp.contractDuration.toLowerCase().trim();
-        let months = 0;
-        
-        // Try to match patterns
-        const monthsMatch = duration.match(/(\d+)\s*month/i);
-        const yearsMatch = duration.match(/(\d+)\s*year/i);
-        const justNumber = duration.match(/^\d+$/);
-        
-        if (monthsMatch) {
-          months = parseInt(monthsMatch[1]);
-        } else if (yearsMatch) {
-          months = parseInt(yearsMatch[1]) * 12;
-        } else if (justNumber) {
-          // If it's just a number, treat it as months
-          months = parseInt(justNumber[0]);
-        }
-        
-        if (months > 0) {
-          calculatedExpiryDate = new Date(emp.joinDate);
-          calculatedExpiryDate.setMonth(calculatedExpiryDate.getMonth() + months);
-        }
-      }
-
-      // Determine contract status
-      let contractStatus = 'ACTIVE';
-      if (emp.status === 'TERMINATED' || emp.status === 'EXPIRED') {
-        contractStatus = emp.status;
-      } else if (calculatedExpiryDate && new Date(calculatedExpiryDate) < new Date()) {
-        contractStatus = 'EXPIRED';
-      }
-
-      // Calculate days until expiry for "expiring soon" filter
-      let daysUntilExpiry: number | null = null;
-      if (calculatedExpiryDate) {
-        const diffMs = new Date(calculatedExpiryDate).getTime() - new Date().getTime();
-        daysUntilExpiry = Math.ceil(diffMs / (1000 * 60 * 60 * 24));
-      }
-
-      return {
-        id: emp.id,
-        employeeId: emp.employeeId,
-        employee: {
-          id: emp.id,
-          firstName: emp.firstName,
-          lastName: emp.lastName,
-          employeeId: emp.employeeId,
-          email: emp.email,
-        },
-        joinDate: emp.joinDate,
-        confirmationDate: calculatedConfirmationDate || emp.confirmationDate,
-        contractExpiryDate: calculatedExpiryDate || emp.contractExpiryDate,
-        contractDuration: emp.contractDuration || 'Permanent',
-        employmentType: emp.employmentType,
-        status: contractStatus,
-        baseSalary: emp.baseSalary,
-        telephoneAllowance: emp.telephoneAllowance || 0,
-        housingAllowance: emp.housingAllowance || 0,
-        transportationAllowance: emp.transportationAllowance || 0,
-        totalSalary: emp.totalSalary,
-        currency: emp.currency,
-        workMode: emp.workMode,
-        designation: emp.designation,
-        department: emp.department,
-        probationPeriod: emp.probationPeriod,
-        daysUntilExpiry,
-      };
-    });
-
-    // Apply status filter after calculating contract status
-    let filteredContracts = contracts;
-    if (status && status !== 'all') {
-      if (status === 'EXPIRING_SOON') {
-        filteredContracts = contracts.filter(c => 
-          c.daysUntilExpiry !== null && c.daysUntilExpiry > 0 && c.daysUntilExpiry <= 30
-        );
-      } else {
-        filteredContracts = contracts.filter(c => c.status === status);
-      }
-    }
-
-    // Apply pagination to filtered results
-    const paginatedContracts = filteredContracts.slice(skip, skip + size);
-
-    return res.json({
-      success: true,
-      data: {
-        data: paginatedContracts,
-        total: filteredContracts.length,
-        page: pageNum,
-        pageSize: size,
-        totalPages: Math.ceil(filteredContracts.length / size),
-      },
-    });
-  } catch (error: any) {
-    console.error('Error fetching contracts:', error);
-    return res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to fetch contracts',
-    });
-  }
-});
-
-// Get contract by employee ID
-router.get('/employee/:id', authMiddleware, requireRole('HR', 'MANAGEMENT'), async (req, res) => {
-  try {
-    const employeeId = req.params.id;
-
-    // Try to find by employeeId first, then by id
-    const employee = await prisma.employee.findFirst({
-      where: {
-        OR: [
-          { employeeId: employeeId },
-          { id: employeeId }
-        ]
-      },
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        employeeId: true,
-        email: true,
-        designation: true,
-        department: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        joinDate: true,
-        probationPeriod: true,
-        confirmationDate: true,
-        contractDuration: true,
-        contractExpiryDate: true,
-        employmentType: true,
-        status: true,
-        baseSalary: true,
-        telephoneAllowance: true,
-        housingAllowance: true,
-        transportationAllowance: true,
-        totalSalary: true,
-        currency: true,
-        workMode: true,
-      },
-    });
-
-    if (!employee) {
-      return res.status(404).json({
-        success: false,
-        error: 'Employee not found',
-      });
-    }
-
-    // Calculate dates
-    let calculatedConfirmationDate = employee.confirmationDate;
-    let calculatedExpiryDate = employee.contractExpiryDate;
-
-    if (employee.joinDate && employee.probationPeriod && !calculatedConfirmationDate) {
-      const probationDays = parseInt(employee.probationPeriod) || 0;
-      if (probationDays > 0) {
-        calculatedConfirmationDate = new Date(employee.joinDate);
-        calculatedConfirmationDate.setDate(calculatedConfirmationDate.getDate() + probationDays);
-      }
-    }
-
-    if (employee.joinDate && employee.contractDuration && employee.contractDuration !== 'Permanent') {
-      // Parse contract duration (e.g., "80", "12 months", "2 years", etc.)
-      const duration = employee.contractDuration.toLowerCase().trim();
-      let months = 0;
-      
-      // Try to match patterns
-      const monthsMatch = duration.match(/(\d+)\s*month/i);
-      const yearsMatch = duration.match(/(\d+)\s*year/i);
-      const justNumber = duration.match(/^\d+$/);
-      
-      if (monthsMatch) {
-        months = parseInt(monthsMatch[1]);
-      } else if (yearsMatch) {
-        months = parseInt(yearsMatch[1]) * 12;
-      } else if (justNumber) {
-        // If it's just a number, treat it as months
-        months = parseInt(justNumber[0]);
-      }
-      
-      if (months > 0) {
-        calculatedExpiryDate = new Date(employee.joinDate);
-        calculatedExpiryDate.setMonth(calculatedExpiryDate.getMonth() + months);
-      }
-    }
-
-    let contractStatus = 'ACTIVE';
-    if (employee.status === 'TERMINATED' || employee.status === 'EXPIRED') {
-      contractStatus = employee.status;
-    } else if (calculatedExpiryDate && new Date(calculatedExpiryDate) < new Date()) {
-      contractStatus = 'EXPIRED';
-    }
-
-    return res.json({
-      success: true,
-      data: {
-        id: employee.id,
-        employeeId: employee.employeeId,
-        employee: {
-          id: employee.id,
-          firstName: employee.firstName,
-          lastName: employee.lastName,
-          employeeId: employee.employeeId,
-          email: employee.email,
-        },
-        joinDate: employee.joinDate,
-        confirmationDate: calculatedConfirmationDate || employee.confirmationDate,
-        contractExpiryDate: calculatedExpiryDate || employee.contractExpiryDate,
-        contractDuration: employee.contractDuration || 'Permanent',
-        employmentType: employee.employmentType,
-        status: contractStatus,
-        baseSalary: employee.baseSalary,
-        telephoneAllowance: employee.telephoneAllowance || 0,
-        housingAllowance: employee.housingAllowance || 0,
-        transportationAllowance: employee.transportationAllowance || 0,
-        totalSalary: employee.totalSalary,
-        currency: employee.currency,
-        workMode: employee.workMode,
-        designation: employee.designation,
-        department: employee.department,
-        probationPeriod: employee.probationPeriod,
-      },
-    });
-  } catch (error: any) {
-    console.error('Error fetching contract:', error);
-    return res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to fetch contract',
-    });
-  }
-});
-
-// Renew contract
-router.post('/renew', authMiddleware, requireRole('HR', 'MANAGEMENT'), async (req, res) => {
-  try {
-    const { employeeId, newStartDate, contractDurationMonths } = req.body;
-
-    if (!employeeId || !newStartDate || !contractDurationMonths) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: employeeId, newStartDate, contractDurationMonths',
-      });
-    }
-
-    const employee = await prisma.employee.findFirst({
-      where: {
-        OR: [
-          { employeeId: employeeId },
-          { id: employeeId }
-        ]
-      },
-    });
-
-    if (!employee) {
-      return res.status(404).json({
-        success: false,
-        error: 'Employee not found',
-      });
-    }
-
-    // Calculate new expiry date
-    const startDate = new Date(newStartDate);
-    const expiryDate = new Date(startDate);
-    expiryDate.setMonth(expiryDate.getMonth() + parseInt(contractDurationMonths));
-
-    // Update employee contract
-    const updated = await prisma.employee.update({
-      where: { id: employee.id },
-      data: {
-        joinDate: startDate,
-        contractDuration: `${contractDurationMonths} months`,
-        contractExpiryDate: expiryDate,
-        // Reset confirmation date - will be recalculated from new join date
-        confirmationDate: null,
-      },
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        employeeId: true,
-        joinDate: true,
-        contractDuration: true,
-        contractExpiryDate: true,
-      },
-    });
-
-    return res.json({
-      success: true,
-      data: updated,
-      message: 'Contract renewed successfully',
-    });
-  } catch (error: any) {
-    console.error('Error renewing contract:', error);
-    return res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to renew contract',
-    });
-  }
-});
-
-// Get expiring contracts
-router.get('/expiring', authMiddleware, requireRole('HR', 'MANAGEMENT'), async (req, res) => {
-  try {
-    const { days = '30' } = req.query;
-    const daysNum = parseInt(days as string);
-    const expiryThreshold = new Date();
-    expiryThreshold.setDate(expiryThreshold.getDate() + daysNum);
-
-    const employees = await prisma.employee.findMany({
-      where: {
-        contractExpiryDate: {
-          lte: expiryThreshold,
-          gte: new Date(),
-        },
-        status: {
-          notIn: ['TERMINATED', 'EXPIRED'],
-        },
-      },
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        employeeId: true,
-        email: true,
-        contractExpiryDate: true,
-        contractDuration: true,
-        department: {
-          select: {
-            name: true,
-          },
-        },
-      },
-      orderBy: { contractExpiryDate: 'asc' },
-    });
-
-    return res.json({
-      success: true,
-      data: employees,
-    });
-  } catch (error: any) {
-    console.error('Error fetching expiring contracts:', error);
-    return res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to fetch expiring contracts',
-    });
-  }
-});
+import express from 'express';
+import {
+  getContracts,
+  getContractById,
+  getContractByEmployeeId,
+  createContract,
+  updateContract,
+  terminateContract,
+  getExpiringContracts,
+} from '../controllers/contractController';
+import {
+  initiateRenewal,
+  approveRenewal,
+  rejectRenewal,
+  processRenewal,
+  getRenewals,
+} from '../controllers/contractRenewalController';
+import {
+  createAmendment,
+  approveAmendment,
+  rejectAmendment,
+  applyAmendment,
+  getAmendments,
+} from '../controllers/contractAmendmentController';
+import {
+  getTemplates,
+  getTemplateById,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+} from '../controllers/contractTemplateController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  amendmentIdSchema,
+  contractByEmployeeSchema,
+  contractIdSchema,
+  createAmendmentSchema,
+  createContractSchema,
+  createTemplateSchema,
+  deleteTemplateSchema,
+  getAmendmentsSchema,
+  getContractsSchema,
+  getExpiringContractsSchema,
+  getRenewalsSchema,
+  getTemplatesSchema,
+  initiateRenewalSchema,
+  rejectAmendmentSchema,
+  rejectRenewalSchema,
+  renewalIdSchema,
+  templateIdSchema,
+  terminateContractSchema,
+  updateContractSchema,
+  updateTemplateSchema,
+} from '../schemas/contracts';
+
+const router = express.Router();
+
+/**
+ * Contract Routes
+ * All routes require authentication
+ */
+
+// ============================================
+// TEMPLATE ENDPOINTS (Must be before :id routes)
+// ============================================
+
+/**
+ * @route   GET /contracts/templates
+ * @desc    Get contract templates
+ * @access  HR, Management
+ * @query   contractType, isActive
+ */
+router.get('/templates', authMiddleware, requirePermission('contract:manage'), validate(getTemplatesSchema), getTemplates);
+
+/**
+ * @route   GET /contracts/templates/:id
+ * @desc    Get a single contract template
+ * @access  HR, Management
+ */
+router.get('/templates/:id', authMiddleware, requirePermission('contract:manage'), validate(templateIdSchema), getTemplateById);
+
+/**
+ * @route   POST /contracts/templates
+ * @desc    Create a contract template
+ * @access  HR, Management
+ * @body    { name, contractType, description?, defaultDuration?, defaultNoticePeriod?, defaultProbationPeriod?, terms?, clauses?, isDefault? }
+ */
+router.post('/templates', authMiddleware, requirePermission('contract:manage'), validate(createTemplateSchema), createTemplate);
+
+/**
+ * @route   PUT /contracts/templates/:id
+ * @desc    Update a contract template
+ * @access  HR, Management
+ */
+router.put('/templates/:id', authMiddleware, requirePermission('contract:manage'), validate(updateTemplateSchema), updateTemplate);
+
+/**
+ * @route   DELETE /contracts/templates/:id
+ * @desc    Delete a contract template
+ * @access  HR, Management
+ */
+router.delete('/templates/:id', authMiddleware, requirePermission('contract:manage'), validate(deleteTemplateSchema), deleteTemplate);
+
+// ============================================
+// RENEWAL & AMENDMENT ACTIONS (Must be before :id routes)
+// ============================================
+
+/**
+ * @route   PATCH /contracts/renewals/:id/approve
+ * @desc    Approve a pending renewal
+ * @access  HR, Management
+ */
+router.patch('/renewals/:id/approve', authMiddleware, requirePermission('contract:manage'), validate(renewalIdSchema), approveRenewal);
+
+/**
+ * @route   PATCH /contracts/renewals/:id/reject
+ * @desc    Reject a pending renewal
+ * @access  HR, Management
+ * @body    { rejectionReason }
+ */
+router.patch('/renewals/:id/reject', authMiddleware, requirePermission('contract:manage'), validate(rejectRenewalSchema), rejectRenewal);
+
+/**
+ * @route   POST /contracts/renewals/:id/process
+ * @desc    Apply an approved renewal to the contract
+ * @access  HR, Management
+ */
+router.post('/renewals/:id/process', authMiddleware, requirePermission('contract:manage'), validate(renewalIdSchema), processRenewal);
+
+/**
+ * @route   PATCH /contracts/amendments/:id/approve
+ * @desc    Approve a pending amendment
+ * @access  HR, Management
+ */
+router.patch('/amendments/:id/approve', authMiddleware, requirePermission('contract:manage'), validate(amendmentIdSchema), approveAmendment);
+
+/**
+ * @route   PATCH /contracts/amendments/:id/reject
+ * @desc    Reject a pending amendment
+ * @access  HR, Management
+ * @body    { rejectionReason? }
+ */
+router.patch('/amendments/:id/reject', authMiddleware, requirePermission('contract:manage'), validate(rejectAmendmentSchema), rejectAmendment);
+
+/**
+ * @route   POST /contracts/amendments/:id/apply
+ * @desc    Apply an approved amendment to the contract
+ * @access  HR, Management
+ */
+router.post('/amendments/:id/apply', authMiddleware, requirePermission('contract:manage'), validate(amendmentIdSchema), applyAmendment);
+
+// ============================================
+// CONTRACT ENDPOINTS
+// ============================================
+
+/**
+ * @route   GET /contracts
+ * @desc    Get contracts with filters (EMPLOYEE can only see their own)
+ * @access  All authenticated (EMPLOYEE sees own only)
+ * @query   page, pageSize, status, contractType, search, expiringInDays
+ */
+router.get('/', authMiddleware, validate(getContractsSchema), getContracts);
+
+/**
+ * @route   GET /contracts/expiring
+ * @desc    Get active contracts ending within the given number of days
+ * @access  HR, Management
+ * @query   days (default 30)
+ */
+router.get('/expiring', authMiddleware, requirePermission('contract:manage'), validate(getExpiringContractsSchema), getExpiringContracts);
+
+/**
+ * @route   GET /contracts/employee/:employeeId
+ * @desc    Get the contract of an employee (EMPLOYEE can only view own via controller check)
+ * @access  All authenticated
+ */
+router.get('/employee/:employeeId', authMiddleware, validate(contractByEmployeeSchema), getContractByEmployeeId);
+
+/**
+ * @route   POST /contracts
+ * @desc    Create a contract for an employee (optionally from a template)
+ * @access  HR, Management
+ * @body    { employeeId, contractType, startDate, baseSalary, endDate?, templateId?, ... }
+ */
+router.post('/', authMiddleware, requirePermission('contract:manage'), validate(createContractSchema), createContract);
+
+/**
+ * @route   GET /contracts/:contractId/renewals
+ * @desc    Get renewal history for a contract
+ * @access  HR, Management
+ */
+router.get('/:contractId/renewals', authMiddleware, requirePermission('contract:manage'), validate(getRenewalsSchema), getRenewals);
+
+/**
+ * @route   POST /contracts/:contractId/renewals
+ * @desc    Initiate a contract renewal
+ * @access  HR, Management
+ * @body    { newEndDate, effectiveDate, renewalType?, newSalary?, changes?, notes? }
+ */
+router.post('/:contractId/renewals', authMiddleware, requirePermission('contract:manage'), validate(initiateRenewalSchema), initiateRenewal);
+
+/**
+ * @route   GET /contracts/:contractId/amendments
+ * @desc    Get amendment history for a contract
+ * @access  HR, Management
+ */
+router.get('/:contractId/amendments', authMiddleware, requirePermission('contract:manage'), validate(getAmendmentsSchema), getAmendments);
+
+/**
+ * @route   POST /contracts/:contractId/amendments
+ * @desc    Request an amendment to a contract
+ * @access  HR, Management
+ * @body    { amendmentType, title, description, effectiveDate, previousValue?, newValue?, notes? }
+ */
+router.post('/:contractId/amendments', authMiddleware, requirePermission('contract:manage'), validate(createAmendmentSchema), createAmendment);
+
+/**
+ * @route   POST /contracts/:id/terminate
+ * @desc    Terminate a contract
+ * @access  HR, Management
+ * @body    { terminationDate, notes? }
+ */
+router.post('/:id/terminate', authMiddleware, requirePermission('contract:manage'), validate(terminateContractSchema), terminateContract);
+
+/**
+ * @route   GET /contracts/:id
+ * @desc    Get a single contract with renewals, amendments and documents
+ * @access  All authenticated (EMPLOYEE can only view own via controller check)
+ */
+router.get('/:id', authMiddleware, validate(contractIdSchema), getContractById);
+
+/**
+ * @route   PATCH /contracts/:id
+ * @desc    Update contract terms
+ * @access  HR, Management
+ */
+router.patch('/:id', authMiddleware, requirePermission('contract:manage'), validate(updateContractSchema), updateContract);
+
+/**
+ * @route   PUT /contracts/:id
+ * @desc    Update contract terms (backward compatibility)
+ * @access  HR, Management
+ */
+router.put('/:id', authMiddleware, requirePermission('contract:manage'), validate(updateContractSchema), updateContract);
 
 export default router;
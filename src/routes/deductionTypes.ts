@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { getDeductionTypes } from '../controllers/deductionTypeController';
 import { authMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { getDeductionTypesSchema } from '../schemas/deductions';
 
 const router = Router();
 
@@ -12,7 +14,7 @@ router.use(authMiddleware);
  * @desc    Get all deduction types
  * @access  All Authenticated
  */
-router.get('/', getDeductionTypes);
+router.get('/', validate(getDeductionTypesSchema), getDeductionTypes);
 
 export default router;
 
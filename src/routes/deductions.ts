@@ -10,7 +10,17 @@ import {
   rejectDeduction,
   deleteDeduction,
 } from '../controllers/deductionController';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  createDeductionSchema,
+  deductionIdSchema,
+  deleteDeductionSchema,
+  deductionPayrollReferenceSchema,
+  getDeductionsSchema,
+  putDeductionOnHoldSchema,
+  rejectDeductionSchema,
+} from '../schemas/deductions';
 
 const router = Router();
 
@@ -21,11 +31,12 @@ router.use(authMiddleware);
  * @route   POST /deductions
  * @desc    Create a new deduction
  * @access  HR, Management, Finance, Admin
- * @body    { employeeId, type, amount, reason, month, year }
+ * @body    { employeeId, deductionTypeId, amount, reason, deductionDate }
  */
 router.post(
   '/',
-  requireRole('HR', 'MANAGEMENT', 'FINANCE'),
+  requirePermission('deduction:create'),
+  validate(createDeductionSchema),
   createDeduction
 );
 
@@ -33,46 +44,53 @@ router.post(
  * @route   GET /deductions
  * @desc    Get all deductions with filters (EMPLOYEE can only see their own)
  * @access  All authenticated (EMPLOYEE sees own only)
- * @query   page, pageSize, employeeId, type, month, year, status
+ * @query   page, pageSize, employeeId, deductionTypeId, status, startDate, endDate, month, year
  */
 router.get(
   '/',
+  validate(getDeductionsSchema),
   getDeductions
 );
 
 router.post(
   '/:id/finance-approve',
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('deduction:approve:finance'),
+  validate(deductionIdSchema),
   financeApproveDeduction
 );
 
 router.post(
   '/:id/management-approve',
-  requireRole('MANAGEMENT'),
+  requirePermission('deduction:approve:management'),
+  validate(deductionIdSchema),
   managementApproveDeduction
 );
 
 router.post(
   '/:id/ready-for-payroll',
-  requireRole('FINANCE'),
+  requirePermission('deduction:ready'),
+  validate(deductionPayrollReferenceSchema),
   readyDeductionForPayroll
 );
 
 router.post(
   '/:id/apply-to-payroll',
-  requireRole('MANAGEMENT'),
+  requirePermission('deduction:apply'),
+  validate(deductionPayrollReferenceSchema),
   applyDeductionToPayroll
 );
 
 router.post(
   '/:id/on-hold',
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('deduction:review'),
+  validate(putDeductionOnHoldSchema),
   putDeductionOnHold
 );
 
 router.post(
   '/:id/reject',
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('deduction:review'),
+  validate(rejectDeductionSchema),
   rejectDeduction
 );
 
@@ -83,7 +101,8 @@ router.post(
  */
 router.delete(
   '/:id',
-  requireRole('MANAGEMENT'),
+  requirePermission('deduction:delete'),
+  validate(deleteDeductionSchema),
   deleteDeduction
 );
 
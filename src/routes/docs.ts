@@ -0,0 +1,55 @@
+import express from 'express';
+import { validate } from '../middleware/validate';
+import { noInputSchema } from '../schemas/common';
+import { buildOpenApiDocument } from '../utils/openapi';
+import { apiRouters } from './index';
+
+const router = express.Router();
+
+/**
+ * API Documentation Routes
+ * Mounted under /api; the document covers the routers in routes/index
+ */
+
+// Routes are fixed once the app is set up, so the document is built once
+let openApiDocument: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+const SWAGGER_UI_VERSION = '5';
+
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>YAZ Media Dashboard API</title>
+    <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui-bundle.js"></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui', persistAuthorization: true });
+    </script>
+  </body>
+</html>
+`;
+
+/**
+ * @route   GET /api/openapi.json
+ * @desc    OpenAPI 3.1 document generated from the routers and their schemas
+ * @access  Public
+ */
+router.get('/openapi.json', validate(noInputSchema), (_req, res) => {
+  openApiDocument ??= buildOpenApiDocument(apiRouters);
+  res.json(openApiDocument);
+});
+
+/**
+ * @route   GET /api/docs
+ * @desc    Interactive viewer (Swagger UI) for the OpenAPI document
+ * @access  Public
+ */
+router.get('/docs', validate(noInputSchema), (_req, res) => {
+  res.type('html').send(DOCS_PAGE);
+});
+
+export default router;
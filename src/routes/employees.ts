@@ -12,8 +12,31 @@ import {
   getAllEmployeesForManagement,
   toggleEmployeeStatus,
   manageEmployeeRole,
+  unlockEmployeeAccount,
 } from '../controllers/userManagementController';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import {
+  getEmployeePermissions,
+  upsertEmployeePermissionOverride,
+  deleteEmployeePermissionOverride,
+} from '../controllers/permissionController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  createEmployeeSchema,
+  deleteEmployeeSchema,
+  deletePermissionOverrideSchema,
+  employeeIdSchema,
+  getEmployeePermissionsSchema,
+  getEmployeeProfileSchema,
+  getEmployeesForManagementSchema,
+  getEmployeesSchema,
+  manageEmployeeRoleSchema,
+  patchEmployeeSchema,
+  toggleEmployeeStatusSchema,
+  unlockEmployeeSchema,
+  updateEmployeeSchema,
+  upsertPermissionOverrideSchema,
+} from '../schemas/employees';
 
 const router = express.Router();
 
@@ -23,34 +46,54 @@ const router = express.Router();
  */
 
 // Get all employees (accessible to all authenticated users)
-router.get('/', authMiddleware, getEmployees);
+router.get('/', authMiddleware, validate(getEmployeesSchema), getEmployees);
 
 // Get all employees for management (view and manage roles/status) - Management/HR
-router.get('/management', authMiddleware, requireRole('MANAGEMENT', 'HR'), getAllEmployeesForManagement);
+router.get('/management', authMiddleware, requirePermission('employee:access:manage'), validate(getEmployeesForManagementSchema), getAllEmployeesForManagement);
 
 // Get comprehensive employee profile (all tabs)
-router.get('/:id/profile', authMiddleware, getEmployeeProfile);
+router.get('/:id/profile', authMiddleware, validate(getEmployeeProfileSchema), getEmployeeProfile);
 
 // Get single employee by ID (accessible to all authenticated users)
-router.get('/:id', authMiddleware, getEmployeeById);
+router.get('/:id', authMiddleware, validate(employeeIdSchema), getEmployeeById);
 
 // Create employee (HR and Management only)
-router.post('/', authMiddleware, requireRole('HR', 'MANAGEMENT'), createEmployee);
+router.post('/', authMiddleware, requirePermission('employee:create'), validate(createEmployeeSchema), createEmployee);
 
 // Toggle employee status - ACTIVE <-> INACTIVE (Management/HR only)
-router.patch('/:id/toggle-status', authMiddleware, requireRole('MANAGEMENT', 'HR'), toggleEmployeeStatus);
+router.patch('/:id/toggle-status', authMiddleware, requirePermission('employee:access:manage'), validate(toggleEmployeeStatusSchema), toggleEmployeeStatus);
 
 // Manage employee role (Management/HR only)
-router.patch('/:id/role', authMiddleware, requireRole('MANAGEMENT', 'HR'), manageEmployeeRole);
+router.patch('/:id/role', authMiddleware, requirePermission('employee:access:manage'), validate(manageEmployeeRoleSchema), manageEmployeeRole);
+
+// Unlock an account locked after failed login attempts (Management/HR only)
+router.post('/:id/unlock', authMiddleware, requirePermission('employee:access:manage'), validate(unlockEmployeeSchema), unlockEmployeeAccount);
+
+// Effective permissions and per-employee overrides (Management only)
+router.get('/:id/permissions', authMiddleware, requirePermission('permission:manage'), validate(getEmployeePermissionsSchema), getEmployeePermissions);
+router.put(
+  '/:id/permissions/overrides',
+  authMiddleware,
+  requirePermission('permission:manage'),
+  validate(upsertPermissionOverrideSchema),
+  upsertEmployeePermissionOverride
+);
+router.delete(
+  '/:id/permissions/overrides/:permission',
+  authMiddleware,
+  requirePermission('permission:manage'),
+  validate(deletePermissionOverrideSchema),
+  deleteEmployeePermissionOverride
+);
 
 // Update employee (HR and Management only) - PATCH for partial updates with nested fields
-router.patch('/:id', authMiddleware, requireRole('HR', 'MANAGEMENT'), patchUpdateEmployee);
+router.patch('/:id', authMiddleware, requirePermission('employee:update'), validate(patchEmployeeSchema), patchUpdateEmployee);
 
 // Update employee (HR and Management only) - PUT for backward compatibility
-router.put('/:id', authMiddleware, requireRole('HR', 'MANAGEMENT'), updateEmployee);
+router.put('/:id', authMiddleware, requirePermission('employee:update'), validate(updateEmployeeSchema), updateEmployee);
 
 // Delete employee (Management only)
-router.delete('/:id', authMiddleware, requireRole('MANAGEMENT'), deleteEmployee);
+router.delete('/:id', authMiddleware, requirePermission('employee:delete'), validate(deleteEmployeeSchema), deleteEmployee);
 
 export default router;
 
@@ -0,0 +1,123 @@
+import express from 'express';
+import {
+  previewFinalSettlement,
+  createFinalSettlement,
+  getFinalSettlements,
+  getFinalSettlementById,
+  financeApproveSettlement,
+  managementApproveSettlement,
+  uploadSettlementToBank,
+  approveSettlementBankPayment,
+  rejectSettlement,
+  putSettlementOnHold,
+} from '../controllers/finalSettlementController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  approveSettlementBankPaymentSchema,
+  createFinalSettlementSchema,
+  finalSettlementIdSchema,
+  getFinalSettlementsSchema,
+  previewFinalSettlementSchema,
+  putSettlementOnHoldSchema,
+  rejectSettlementSchema,
+  uploadSettlementToBankSchema,
+} from '../schemas/finalSettlements';
+
+const router = express.Router();
+
+/**
+ * Final Settlement Routes
+ * End-of-service settlements follow the Payroll approval chain:
+ * PENDING → FINANCE_APPROVED → MANAGEMENT_APPROVED → UPLOADED_TO_BANK → BANK_PAYMENT_APPROVED
+ */
+
+/**
+ * @route   GET /final-settlements/preview/:employeeId
+ * @desc    Calculate gratuity, leave encashment, final month and pending items (nothing is saved)
+ * @access  HR, Finance, Management
+ */
+router.get(
+  '/preview/:employeeId',
+  authMiddleware,
+  requirePermission('settlement:read'),
+  validate(previewFinalSettlementSchema),
+  previewFinalSettlement
+);
+
+/**
+ * @route   GET /final-settlements
+ * @desc    Get final settlements with filters
+ * @access  HR, Finance, Management
+ * @query   page, pageSize, status, employeeId
+ */
+router.get('/', authMiddleware, requirePermission('settlement:read'), validate(getFinalSettlementsSchema), getFinalSettlements);
+
+/**
+ * @route   POST /final-settlements
+ * @desc    Create or recalculate (while PENDING / ON_HOLD) the settlement of a terminated employee
+ * @access  HR, Finance
+ * @body    { employeeId }
+ */
+router.post('/', authMiddleware, requirePermission('settlement:create'), validate(createFinalSettlementSchema), createFinalSettlement);
+
+/**
+ * @route   POST /final-settlements/:id/finance-approve
+ * @desc    Finance approval (Stage 1)
+ * @access  FINANCE role only
+ */
+router.post('/:id/finance-approve', authMiddleware, requirePermission('settlement:approve:finance'), validate(finalSettlementIdSchema), financeApproveSettlement);
+
+/**
+ * @route   POST /final-settlements/:id/management-approve
+ * @desc    Management approval (Stage 2)
+ * @access  MANAGEMENT role only
+ */
+router.post('/:id/management-approve', authMiddleware, requirePermission('settlement:approve:management'), validate(finalSettlementIdSchema), managementApproveSettlement);
+
+/**
+ * @route   POST /final-settlements/:id/upload-to-bank
+ * @desc    Upload to bank (Stage 3)
+ * @access  FINANCE role only
+ * @body    { bankReference?: string }
+ */
+router.post('/:id/upload-to-bank', authMiddleware, requirePermission('settlement:upload'), validate(uploadSettlementToBankSchema), uploadSettlementToBank);
+
+/**
+ * @route   POST /final-settlements/:id/approve-bank-payment
+ * @desc    Approve bank payment (Stage 4 - Final)
+ * @access  MANAGEMENT role only
+ * @body    { paymentReference?: string }
+ */
+router.post(
+  '/:id/approve-bank-payment',
+  authMiddleware,
+  requirePermission('settlement:pay'),
+  validate(approveSettlementBankPaymentSchema),
+  approveSettlementBankPayment
+);
+
+/**
+ * @route   POST /final-settlements/:id/reject
+ * @desc    Reject settlement - returns to PENDING for recalculation
+ * @access  MANAGEMENT role only (Finance uses "On Hold" instead)
+ * @body    { rejectionReason: string }
+ */
+router.post('/:id/reject', authMiddleware, requirePermission('settlement:reject'), validate(rejectSettlementSchema), rejectSettlement);
+
+/**
+ * @route   POST /final-settlements/:id/on-hold
+ * @desc    Put settlement on hold
+ * @access  FINANCE, MANAGEMENT roles
+ * @body    { onHoldReason: string }
+ */
+router.post('/:id/on-hold', authMiddleware, requirePermission('settlement:hold'), validate(putSettlementOnHoldSchema), putSettlementOnHold);
+
+/**
+ * @route   GET /final-settlements/:id
+ * @desc    Get single final settlement with its calculation breakdown
+ * @access  HR, Finance, Management
+ */
+router.get('/:id', authMiddleware, requirePermission('settlement:read'), validate(finalSettlementIdSchema), getFinalSettlementById);
+
+export default router;
@@ -1,6 +1,8 @@
 import express from 'express';
 import { getHolidayTypes, getHolidays, createHoliday } from '../controllers/holidayManagementController';
 import { authMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { createHolidaySchema, getHolidayTypesSchema, getHolidaysSchema } from '../schemas/holidays';
 
 const router = express.Router();
 
@@ -10,13 +12,13 @@ const router = express.Router();
  */
 
 // Get all holiday types
-router.get('/types', authMiddleware, getHolidayTypes);
+router.get('/types', authMiddleware, validate(getHolidayTypesSchema), getHolidayTypes);
 
 // Get all holidays with filters
-router.get('/', authMiddleware, getHolidays);
+router.get('/', authMiddleware, validate(getHolidaysSchema), getHolidays);
 
 // Create a new holiday
-router.post('/', authMiddleware, createHoliday);
+router.post('/', authMiddleware, validate(createHolidaySchema), createHoliday);
 
 export default router;
 
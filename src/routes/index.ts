@@ -0,0 +1,63 @@
+import authRoutes from './auth';
+import employeeRoutes from './employees';
+import leaveManagementRoutes from './leaveManagement';
+import holidayManagementRoutes from './holidayManagement';
+import calendarViewRoutes from './calendarView';
+import announcementRoutes from './announcements';
+import assetRoutes from './assets';
+import manufacturerRoutes from './manufacturers';
+import supplierRoutes from './suppliers';
+import attendanceRoutes from './attendance';
+import payrollRoutes from './payroll';
+import finalSettlementRoutes from './finalSettlements';
+import bankDetailChangeRequestRoutes from './bankDetailChangeRequests';
+import reimbursementRoutes from './reimbursements';
+import overtimeRequestRoutes from './overtimeRequests';
+import clientProjectRoutes from './clientProjects';
+import bonusRoutes from './bonuses';
+import bonusTypeRoutes from './bonusTypes';
+import deductionRoutes from './deductions';
+import deductionTypeRoutes from './deductionTypes';
+import uploadRoutes from './uploads';
+import contractRoutes from './contracts';
+import jobRoutes from './jobs';
+import permissionRoutes from './permissions';
+import auditRoutes from './audit';
+import workScheduleRoutes from './workSchedules';
+import attendancePolicyRoutes from './attendancePolicies';
+import { RouterMount } from '../utils/openapi';
+
+/**
+ * API Routers
+ * Mounted in order by index.ts; the OpenAPI document is generated from the same list
+ */
+
+export const apiRouters: RouterMount[] = [
+  { path: '/auth', router: authRoutes, tag: 'Auth' },
+  { path: '/employees', router: employeeRoutes, tag: 'Employees' },
+  { path: '/leave-requests', router: leaveManagementRoutes, tag: 'Leave' },
+  { path: '/holidays', router: holidayManagementRoutes, tag: 'Holidays' },
+  { path: '/calendar', router: calendarViewRoutes, tag: 'Calendar' },
+  { path: '/announcements', router: announcementRoutes, tag: 'Announcements' },
+  { path: '/assets', router: assetRoutes, tag: 'Assets' },
+  { path: '/manufacturers', router: manufacturerRoutes, tag: 'Assets' },
+  { path: '/suppliers', router: supplierRoutes, tag: 'Assets' },
+  { path: '/contracts', router: contractRoutes, tag: 'Contracts' },
+  { path: '/attendance', router: attendanceRoutes, tag: 'Attendance' },
+  { path: '/work-schedules', router: workScheduleRoutes, tag: 'Attendance' },
+  { path: '/attendance-policies', router: attendancePolicyRoutes, tag: 'Attendance' },
+  { path: '/payroll', router: payrollRoutes, tag: 'Payroll' },
+  { path: '/final-settlements', router: finalSettlementRoutes, tag: 'Final Settlements' },
+  { path: '/bank-detail-change-requests', router: bankDetailChangeRequestRoutes, tag: 'Bank Details' },
+  { path: '/reimbursements', router: reimbursementRoutes, tag: 'Reimbursements' },
+  { path: '/bonuses', router: bonusRoutes, tag: 'Bonuses' },
+  { path: '/bonus-types', router: bonusTypeRoutes, tag: 'Bonuses' },
+  { path: '/deductions', router: deductionRoutes, tag: 'Deductions' },
+  { path: '/deduction-types', router: deductionTypeRoutes, tag: 'Deductions' },
+  { path: '/overtime-requests', router: overtimeRequestRoutes, tag: 'Overtime' },
+  { path: '/clients-projects', router: clientProjectRoutes, tag: 'Clients & Projects' },
+  { path: '/uploads', router: uploadRoutes, tag: 'Uploads' },
+  { path: '/jobs', router: jobRoutes, tag: 'Jobs' },
+  { path: '/permissions', router: permissionRoutes, tag: 'Permissions' },
+  { path: '/audit', router: auditRoutes, tag: 'Audit' },
+];
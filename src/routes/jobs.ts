@@ -0,0 +1,37 @@
+import express from 'express';
+import { getJobs, getJobRuns, triggerJob } from '../controllers/jobController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { getJobRunsSchema, getJobsSchema, triggerJobSchema } from '../schemas/jobs';
+
+const router = express.Router();
+
+/**
+ * Scheduled Job Routes
+ * All routes require the job:manage permission
+ */
+
+/**
+ * @route   GET /jobs
+ * @desc    List registered jobs with schedule and last run
+ * @access  Management
+ */
+router.get('/', authMiddleware, requirePermission('job:manage'), validate(getJobsSchema), getJobs);
+
+/**
+ * @route   GET /jobs/:name/runs
+ * @desc    Get run history for a job
+ * @access  Management
+ * @query   page, pageSize, status
+ */
+router.get('/:name/runs', authMiddleware, requirePermission('job:manage'), validate(getJobRunsSchema), getJobRuns);
+
+/**
+ * @route   POST /jobs/:name/run
+ * @desc    Trigger a job manually (runs in the background)
+ * @access  Management
+ * @body    { parameters?: object }
+ */
+router.post('/:name/run', authMiddleware, requirePermission('job:manage'), validate(triggerJobSchema), triggerJob);
+
+export default router;
@@ -12,8 +12,45 @@ import {
   deleteLeaveRequestDocument,
   getLeaveBalance,
   getApprovedOvertimeRequests,
+  getPendingLeaveApprovals,
+  getLeaveRequestApprovals,
+  withdrawLeaveRequest,
+  requestLeaveCancellation,
+  approveLeaveCancellation,
+  rejectLeaveCancellation,
 } from '../controllers/leaveManagementController';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import {
+  getLeaveApprovalPolicies,
+  createLeaveApprovalPolicy,
+  updateLeaveApprovalPolicy,
+  deleteLeaveApprovalPolicy,
+} from '../controllers/leaveApprovalPolicyController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  approveLeaveCancellationSchema,
+  approveLeaveRequestSchema,
+  createLeaveApprovalPolicySchema,
+  createLeaveRequestSchema,
+  getApprovedOvertimeRequestsSchema,
+  getLeaveApprovalPoliciesSchema,
+  getLeaveBalanceSchema,
+  getLeaveRequestApprovalsSchema,
+  getLeaveRequestDocumentsSchema,
+  getLeaveRequestsSchema,
+  getLeaveSummarySchema,
+  getPendingLeaveApprovalsSchema,
+  getYearlyManagementSchema,
+  leaveApprovalPolicyIdSchema,
+  leaveRequestDocumentSchema,
+  rejectLeaveCancellationSchema,
+  rejectLeaveRequestSchema,
+  requestLeaveCancellationSchema,
+  updateLeaveApprovalPolicySchema,
+  uploadLeaveRequestDocumentFileSchema,
+  uploadLeaveRequestDocumentSchema,
+  withdrawLeaveRequestSchema,
+} from '../schemas/leave';
 import { upload } from '../utils/fileUpload';
 
 const router = express.Router();
@@ -24,40 +61,62 @@ const router = express.Router();
  */
 
 // Create a leave request (Employee, HR, Management)
-router.post('/', authMiddleware, createLeaveRequest);
+router.post('/', authMiddleware, validate(createLeaveRequestSchema), createLeaveRequest);
 
 // Get all leave requests with employee information
-router.get('/', authMiddleware, getLeaveRequests);
+router.get('/', authMiddleware, validate(getLeaveRequestsSchema), getLeaveRequests);
 
 // Get leave balance for employee (Employee, HR, Management)
-router.get('/balance', authMiddleware, getLeaveBalance);
+router.get('/balance', authMiddleware, validate(getLeaveBalanceSchema), getLeaveBalance);
 
 // Get approved overtime requests for TOIL (Employee, HR, Management)
-router.get('/overtime-requests', authMiddleware, getApprovedOvertimeRequests);
+router.get('/overtime-requests', authMiddleware, validate(getApprovedOvertimeRequestsSchema), getApprovedOvertimeRequests);
 
 // Get leave summary for all employees (must come before /:id routes)
-router.get('/summary', authMiddleware, getLeaveSummary);
+router.get('/summary', authMiddleware, validate(getLeaveSummarySchema), getLeaveSummary);
 
 // Get yearly management data for all employees (must come before /:id routes)
-router.get('/yearly', authMiddleware, getYearlyManagement);
+router.get('/yearly', authMiddleware, validate(getYearlyManagementSchema), getYearlyManagement);
+
+// Leave requests waiting on the current user's approval step (must come before /:id routes)
+router.get('/approvals/pending', authMiddleware, validate(getPendingLeaveApprovalsSchema), getPendingLeaveApprovals);
+
+// Approval chain policies per leave type (HR, Management manage; must come before /:id routes)
+router.get('/approval-policies', authMiddleware, validate(getLeaveApprovalPoliciesSchema), getLeaveApprovalPolicies);
+router.post('/approval-policies', authMiddleware, requirePermission('leave:policy:manage'), validate(createLeaveApprovalPolicySchema), createLeaveApprovalPolicy);
+router.patch('/approval-policies/:id', authMiddleware, requirePermission('leave:policy:manage'), validate(updateLeaveApprovalPolicySchema), updateLeaveApprovalPolicy);
+router.delete('/approval-policies/:id', authMiddleware, requirePermission('leave:policy:manage'), validate(leaveApprovalPolicyIdSchema), deleteLeaveApprovalPolicy);
+
+// Approve the current step of a leave request (owner of the step, see approval chain) - must come before /:id routes
+router.patch('/:id/approve', authMiddleware, validate(approveLeaveRequestSchema), approveLeaveRequest);
+
+// Reject a leave request (any remaining approver in the chain) - must come before /:id routes
+router.patch('/:id/reject', authMiddleware, validate(rejectLeaveRequestSchema), rejectLeaveRequest);
+
+// Withdraw a pending leave request (employee, HR and Management)
+router.patch('/:id/withdraw', authMiddleware, validate(withdrawLeaveRequestSchema), withdrawLeaveRequest);
+
+// Request cancellation of approved future leave, fully or from a date (employee, HR and Management)
+router.post('/:id/cancellation', authMiddleware, validate(requestLeaveCancellationSchema), requestLeaveCancellation);
 
-// Approve a leave request (HR and Management only) - must come before /:id routes
-router.patch('/:id/approve', authMiddleware, requireRole('HR', 'MANAGEMENT'), approveLeaveRequest);
+// Approve / reject a leave cancellation (approvers of the leave request's chain)
+router.patch('/:id/cancellation/approve', authMiddleware, validate(approveLeaveCancellationSchema), approveLeaveCancellation);
+router.patch('/:id/cancellation/reject', authMiddleware, validate(rejectLeaveCancellationSchema), rejectLeaveCancellation);
 
-// Reject a leave request (HR and Management only) - must come before /:id routes
-router.patch('/:id/reject', authMiddleware, requireRole('HR', 'MANAGEMENT'), rejectLeaveRequest);
+// Approval history of a leave request
+router.get('/:id/approvals', authMiddleware, validate(getLeaveRequestApprovalsSchema), getLeaveRequestApprovals);
 
 // Get documents for a leave request
-router.get('/:id/documents', authMiddleware, getLeaveRequestDocuments);
+router.get('/:id/documents', authMiddleware, validate(getLeaveRequestDocumentsSchema), getLeaveRequestDocuments);
 
 // Upload a document for a leave request (file upload)
-router.post('/:id/documents/upload', authMiddleware, upload.single('file'), uploadLeaveRequestDocumentFile);
+router.post('/:id/documents/upload', authMiddleware, validate(uploadLeaveRequestDocumentFileSchema), upload.single('file'), uploadLeaveRequestDocumentFile);
 
 // Upload a document for a leave request (URL-based, legacy)
-router.post('/:id/documents', authMiddleware, uploadLeaveRequestDocument);
+router.post('/:id/documents', authMiddleware, validate(uploadLeaveRequestDocumentSchema), uploadLeaveRequestDocument);
 
 // Delete a document from a leave request - use full path to avoid conflicts
-router.delete('/:id/documents/:documentId', authMiddleware, deleteLeaveRequestDocument);
+router.delete('/:id/documents/:documentId', authMiddleware, validate(leaveRequestDocumentSchema), deleteLeaveRequestDocument);
 
 export default router;
 
@@ -7,6 +7,14 @@ import {
   approveOvertimeRequest,
   rejectOvertimeRequest,
 } from '../controllers/overtimeRequestController';
+import { validate } from '../middleware/validate';
+import {
+  createOvertimeRequestSchema,
+  getMyOvertimeRequestsSchema,
+  getPendingOvertimeRequestsSchema,
+  overtimeRequestIdSchema,
+  rejectOvertimeRequestSchema,
+} from '../schemas/overtime';
 
 const router = express.Router();
 
@@ -18,34 +26,34 @@ router.use(authMiddleware);
  * Create a new overtime request
  * Body: { clientId, projectId, reason, canDoNextDay, urgencyReason?, requestedHours, requestedDate }
  */
-router.post('/', createOvertimeRequest);
+router.post('/', validate(createOvertimeRequestSchema), createOvertimeRequest);
 
 /**
  * GET /overtime-requests/my-requests
  * Get all overtime requests for the logged-in employee
  * Query: page, pageSize, status
  */
-router.get('/my-requests', getMyOvertimeRequests);
+router.get('/my-requests', validate(getMyOvertimeRequestsSchema), getMyOvertimeRequests);
 
 /**
  * GET /overtime-requests/pending-approvals
  * Get pending overtime requests for the logged-in line manager
  * Query: page, pageSize
  */
-router.get('/pending-approvals', getPendingOvertimeRequests);
+router.get('/pending-approvals', validate(getPendingOvertimeRequestsSchema), getPendingOvertimeRequests);
 
 /**
  * PATCH /overtime-requests/:id/approve
  * Approve an overtime request (line manager only)
  */
-router.patch('/:id/approve', approveOvertimeRequest);
+router.patch('/:id/approve', validate(overtimeRequestIdSchema), approveOvertimeRequest);
 
 /**
  * PATCH /overtime-requests/:id/reject
  * Reject an overtime request (line manager only)
  * Body: { rejectionReason }
  */
-router.patch('/:id/reject', rejectOvertimeRequest);
+router.patch('/:id/reject', validate(rejectOvertimeRequestSchema), rejectOvertimeRequest);
 
 export default router;
 
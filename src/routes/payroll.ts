@@ -17,7 +17,36 @@ import {
   rejectSalaryChange,
   getSalaryHistory,
 } from '../controllers/salaryChangeController';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import {
+  previewBankFile,
+  generateBankFile,
+  getBankFiles,
+  downloadBankFile,
+} from '../controllers/payrollBankFileController';
+import { downloadPayslip, downloadMonthlyPayslips } from '../controllers/payslipController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  approveBankPaymentSchema,
+  approvePayrollSchema,
+  bankFileIdSchema,
+  createSalaryChangeSchema,
+  downloadMonthlyPayslipsSchema,
+  generateBankFileSchema,
+  generatePayrollSchema,
+  getBankFilesSchema,
+  getPayrollSchema,
+  getSalaryChangesSchema,
+  getSalaryHistorySchema,
+  payrollIdSchema,
+  payslipSchema,
+  previewBankFileSchema,
+  putPayrollOnHoldSchema,
+  rejectPayrollSchema,
+  rejectSalaryChangeSchema,
+  salaryChangeIdSchema,
+  uploadToBankSchema,
+} from '../schemas/payroll';
 
 const router = express.Router();
 
@@ -39,7 +68,8 @@ const router = express.Router();
 router.get(
   '/salary-changes',
   authMiddleware,
-  requireRole('HR', 'FINANCE', 'MANAGEMENT', 'EMPLOYEE'),
+  requirePermission('salary-change:read'),
+  validate(getSalaryChangesSchema),
   getSalaryChanges
 );
 
@@ -47,12 +77,13 @@ router.get(
  * @route   POST /payroll/salary-changes
  * @desc    Create a salary change request
  * @access  HR, Management
- * @body    { employeeId, newBaseSalary, newAccommodationAllowance, newHousingAllowance, newTransportationAllowance, newTotalSalary, changeType, reason, effectiveDate }
+ * @body    { employeeId, newBaseSalary, newTelephoneAllowance, newHousingAllowance, newTransportationAllowance, newTotalSalary, changeType, reason, effectiveDate }
  */
 router.post(
   '/salary-changes',
   authMiddleware,
-  requireRole('HR', 'MANAGEMENT'),
+  requirePermission('salary-change:create'),
+  validate(createSalaryChangeSchema),
   createSalaryChange
 );
 
@@ -65,7 +96,8 @@ router.post(
 router.get(
   '/salary-history/:employeeId',
   authMiddleware,
-  requireRole('HR', 'FINANCE', 'MANAGEMENT', 'EMPLOYEE'),
+  requirePermission('salary-change:read'),
+  validate(getSalaryHistorySchema),
   getSalaryHistory
 );
 
@@ -77,7 +109,8 @@ router.get(
 router.patch(
   '/salary-changes/:id/approve',
   authMiddleware,
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('salary-change:approve'),
+  validate(salaryChangeIdSchema),
   approveSalaryChange
 );
 
@@ -90,10 +123,76 @@ router.patch(
 router.patch(
   '/salary-changes/:id/reject',
   authMiddleware,
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('salary-change:approve'),
+  validate(rejectSalaryChangeSchema),
   rejectSalaryChange
 );
 
+// ============================================
+// WPS BANK FILE ENDPOINTS (Must be before :id routes)
+// ============================================
+
+/**
+ * @route   GET /payroll/bank-files/preview
+ * @desc    Validate MANAGEMENT_APPROVED payrolls of a month for the WPS SIF (no changes made)
+ * @access  Finance, Management
+ * @query   month, year
+ */
+router.get(
+  '/bank-files/preview',
+  authMiddleware,
+  requirePermission('payroll:bank-file:read'),
+  validate(previewBankFileSchema),
+  previewBankFile
+);
+
+/**
+ * @route   GET /payroll/bank-files
+ * @desc    List generated WPS bank files
+ * @access  Finance, Management
+ * @query   month?, year?
+ */
+router.get('/bank-files', authMiddleware, requirePermission('payroll:bank-file:read'), validate(getBankFilesSchema), getBankFiles);
+
+/**
+ * @route   POST /payroll/bank-files
+ * @desc    Generate the WPS SIF for a month (Stage 3) - moves exported payrolls to UPLOADED_TO_BANK
+ * @access  FINANCE role only
+ * @body    { month, year }
+ */
+router.post('/bank-files', authMiddleware, requirePermission('payroll:upload'), validate(generateBankFileSchema), generateBankFile);
+
+/**
+ * @route   GET /payroll/bank-files/:id/download
+ * @desc    Download a generated SIF
+ * @access  Finance, Management
+ */
+router.get(
+  '/bank-files/:id/download',
+  authMiddleware,
+  requirePermission('payroll:bank-file:read'),
+  validate(bankFileIdSchema),
+  downloadBankFile
+);
+
+// ============================================
+// PAYSLIP ENDPOINTS (Must be before :id routes)
+// ============================================
+
+/**
+ * @route   GET /payroll/payslips/bulk
+ * @desc    Download all payslips of a month as a ZIP
+ * @access  Finance, Management
+ * @query   month, year, status?
+ */
+router.get(
+  '/payslips/bulk',
+  authMiddleware,
+  requirePermission('payroll:bank-file:read'),
+  validate(downloadMonthlyPayslipsSchema),
+  downloadMonthlyPayslips
+);
+
 // ============================================
 // PAYROLL ENDPOINTS
 // ============================================
@@ -102,17 +201,17 @@ router.patch(
  * @route   POST /payroll/generate
  * @desc    Generate payroll for a specific month
  * @access  Finance, Management
- * @body    { month, year, employeeIds? }
+ * @body    { month, year, employeeIds?, forceRegenerate? }
  */
-router.post('/generate', authMiddleware, requireRole('FINANCE', 'MANAGEMENT'), generatePayroll);
+router.post('/generate', authMiddleware, requirePermission('payroll:generate'), validate(generatePayrollSchema), generatePayroll);
 
 /**
  * @route   GET /payroll
  * @desc    Get all payroll records with filters (EMPLOYEE can only see their own)
  * @access  All authenticated (EMPLOYEE sees own only)
- * @query   page, pageSize, status, employeeId, month, year
+ * @query   page, pageSize, status, employeeId, month, year, search
  */
-router.get('/', authMiddleware, getPayroll);
+router.get('/', authMiddleware, validate(getPayrollSchema), getPayroll);
 
 /**
  * @route   POST /payroll/:id/finance-approve
@@ -123,7 +222,8 @@ router.get('/', authMiddleware, getPayroll);
 router.post(
   '/:id/finance-approve',
   authMiddleware,
-  requireRole('FINANCE'),
+  requirePermission('payroll:approve:finance'),
+  validate(approvePayrollSchema),
   financeApprove
 );
 
@@ -136,7 +236,8 @@ router.post(
 router.post(
   '/:id/management-approve',
   authMiddleware,
-  requireRole('MANAGEMENT'),
+  requirePermission('payroll:approve:management'),
+  validate(approvePayrollSchema),
   managementApprove
 );
 
@@ -149,7 +250,8 @@ router.post(
 router.post(
   '/:id/upload-to-bank',
   authMiddleware,
-  requireRole('FINANCE'),
+  requirePermission('payroll:upload'),
+  validate(uploadToBankSchema),
   uploadToBank
 );
 
@@ -162,7 +264,8 @@ router.post(
 router.post(
   '/:id/approve-bank-payment',
   authMiddleware,
-  requireRole('MANAGEMENT'),
+  requirePermission('payroll:pay'),
+  validate(approveBankPaymentSchema),
   approveBankPayment
 );
 
@@ -175,7 +278,8 @@ router.post(
 router.post(
   '/:id/reject',
   authMiddleware,
-  requireRole('MANAGEMENT'),
+  requirePermission('payroll:reject'),
+  validate(rejectPayrollSchema),
   rejectPayroll
 );
 
@@ -188,16 +292,24 @@ router.post(
 router.post(
   '/:id/on-hold',
   authMiddleware,
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('payroll:hold'),
+  validate(putPayrollOnHoldSchema),
   putOnHold
 );
 
+/**
+ * @route   GET /payroll/:id/payslip
+ * @desc    Download payslip PDF (EMPLOYEE: own payslips once paid)
+ * @access  All authenticated (EMPLOYEE sees own only)
+ */
+router.get('/:id/payslip', authMiddleware, validate(payslipSchema), downloadPayslip);
+
 /**
  * @route   GET /payroll/:id
  * @desc    Get single payroll record by ID
  * @access  Finance, Management
  */
-router.get('/:id', authMiddleware, requireRole('FINANCE', 'MANAGEMENT'), getPayrollById);
+router.get('/:id', authMiddleware, requirePermission('payroll:read:all'), validate(payrollIdSchema), getPayrollById);
 
 export default router;
 
@@ -0,0 +1,28 @@
+import express from 'express';
+import { getPermissionCatalogue, getMyPermissions } from '../controllers/permissionController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { getMyPermissionsSchema, getPermissionCatalogueSchema } from '../schemas/employees';
+
+const router = express.Router();
+
+/**
+ * Permission Routes
+ * Per-employee overrides are managed under /employees/:id/permissions
+ */
+
+/**
+ * @route   GET /permissions
+ * @desc    Permission catalogue and the default permissions of each role
+ * @access  permission:manage
+ */
+router.get('/', authMiddleware, requirePermission('permission:manage'), validate(getPermissionCatalogueSchema), getPermissionCatalogue);
+
+/**
+ * @route   GET /permissions/me
+ * @desc    Effective permissions of the current user
+ * @access  Authenticated
+ */
+router.get('/me', authMiddleware, validate(getMyPermissionsSchema), getMyPermissions);
+
+export default router;
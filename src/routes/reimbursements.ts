@@ -2,6 +2,7 @@ import { Router } from 'express';
 import {
   submitReimbursement,
   getReimbursements,
+  managerApproveReimbursement,
   financeApproveReimbursement,
   managementApproveReimbursement,
   uploadReimbursementToBank,
@@ -16,7 +17,22 @@ import {
   deleteReimbursementType,
   toggleReimbursementTypeStatus,
 } from '../controllers/reimbursementTypeController';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  createReimbursementTypeSchema,
+  deleteReimbursementTypeSchema,
+  getReimbursementTypesSchema,
+  getReimbursementsSchema,
+  markReimbursementPaidSchema,
+  putReimbursementOnHoldSchema,
+  reimbursementIdSchema,
+  reimbursementTypeIdSchema,
+  rejectReimbursementSchema,
+  submitReimbursementSchema,
+  updateReimbursementTypeSchema,
+  uploadReimbursementToBankSchema,
+} from '../schemas/reimbursements';
 
 const router = Router();
 
@@ -30,7 +46,7 @@ const router = Router();
  * @access  All authenticated users
  * @query   includeInactive (optional, default: false)
  */
-router.get('/types', authMiddleware, getReimbursementTypes);
+router.get('/types', authMiddleware, validate(getReimbursementTypesSchema), getReimbursementTypes);
 
 /**
  * @route   POST /reimbursement-types
@@ -41,7 +57,8 @@ router.get('/types', authMiddleware, getReimbursementTypes);
 router.post(
   '/types',
   authMiddleware,
-  requireRole('MANAGEMENT', 'HR'),
+  requirePermission('reimbursement-type:manage'),
+  validate(createReimbursementTypeSchema),
   createReimbursementType
 );
 
@@ -54,7 +71,8 @@ router.post(
 router.patch(
   '/types/:id',
   authMiddleware,
-  requireRole('MANAGEMENT', 'HR'),
+  requirePermission('reimbursement-type:manage'),
+  validate(updateReimbursementTypeSchema),
   updateReimbursementType
 );
 
@@ -66,7 +84,8 @@ router.patch(
 router.patch(
   '/types/:id/toggle',
   authMiddleware,
-  requireRole('MANAGEMENT', 'HR'),
+  requirePermission('reimbursement-type:manage'),
+  validate(reimbursementTypeIdSchema),
   toggleReimbursementTypeStatus
 );
 
@@ -78,7 +97,8 @@ router.patch(
 router.delete(
   '/types/:id',
   authMiddleware,
-  requireRole('MANAGEMENT', 'HR'),
+  requirePermission('reimbursement-type:manage'),
+  validate(deleteReimbursementTypeSchema),
   deleteReimbursementType
 );
 
@@ -90,61 +110,75 @@ router.delete(
  * @route   POST /reimbursements
  * @desc    Submit a new reimbursement claim
  * @access  All authenticated users
- * @body    { amount, reimbursementTypeId, description, receiptUrl? }
+ * @body    { amount, reimbursementTypeId, description, expenseDate, receiptUrl?, employeeId? }
  */
-router.post('/', authMiddleware, submitReimbursement);
+router.post('/', authMiddleware, validate(submitReimbursementSchema), submitReimbursement);
 
 /**
  * @route   GET /reimbursements
  * @desc    Get all reimbursement claims with filters (EMPLOYEE can only see their own)
  * @access  All authenticated (EMPLOYEE sees own only)
- * @query   page, pageSize, status, employeeId, reimbursementTypeId, startDate, endDate
+ * @query   page, pageSize, status, employeeId, reimbursementTypeId, startDate, endDate, month, year
  */
 router.get(
   '/',
   authMiddleware,
+  validate(getReimbursementsSchema),
   getReimbursements
 );
 
+/**
+ * @route   POST /reimbursements/:id/manager-approve
+ * @desc    Line manager approval (first stage) for a report's claim
+ * @access  Line manager of the employee (checked in controller)
+ */
+router.post('/:id/manager-approve', authMiddleware, validate(reimbursementIdSchema), managerApproveReimbursement);
+
 router.post(
   '/:id/finance-approve',
   authMiddleware,
-  requireRole('FINANCE'),
+  requirePermission('reimbursement:approve:finance'),
+  validate(reimbursementIdSchema),
   financeApproveReimbursement
 );
 
 router.post(
   '/:id/management-approve',
   authMiddleware,
-  requireRole('MANAGEMENT'),
+  requirePermission('reimbursement:approve:management'),
+  validate(reimbursementIdSchema),
   managementApproveReimbursement
 );
 
 router.post(
   '/:id/upload-to-bank',
   authMiddleware,
-  requireRole('FINANCE'),
+  requirePermission('reimbursement:upload'),
+  validate(uploadReimbursementToBankSchema),
   uploadReimbursementToBank
 );
 
 router.post(
   '/:id/mark-paid',
   authMiddleware,
-  requireRole('MANAGEMENT'),
+  requirePermission('reimbursement:pay'),
+  validate(markReimbursementPaidSchema),
   markReimbursementPaid
 );
 
 router.post(
   '/:id/on-hold',
   authMiddleware,
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('reimbursement:review'),
+  validate(putReimbursementOnHoldSchema),
   putReimbursementOnHold
 );
 
 router.post(
   '/:id/reject',
   authMiddleware,
-  requireRole('FINANCE', 'MANAGEMENT'),
+  requirePermission('reimbursement:review'),
+  validate(rejectReimbursementSchema),
   rejectReimbursement
 );
 
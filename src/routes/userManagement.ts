@@ -4,7 +4,9 @@ import {
   toggleEmployeeStatus,
   manageEmployeeRole,
 } from '../controllers/userManagementController';
-import { authMiddleware, requireRole } from '../middleware/auth';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { employeeIdSchema, getEmployeesForManagementSchema, manageEmployeeRoleSchema } from '../schemas/employees';
 
 const router = express.Router();
 
@@ -14,13 +16,13 @@ const router = express.Router();
  */
 
 // Get all employees for management (Management/HR only)
-router.get('/management', authMiddleware, requireRole('MANAGEMENT', 'HR'), getAllEmployeesForManagement);
+router.get('/management', authMiddleware, requirePermission('employee:access:manage'), validate(getEmployeesForManagementSchema), getAllEmployeesForManagement);
 
 // Toggle employee status - ACTIVE <-> INACTIVE (Management/HR only)
-router.patch('/:id/toggle-status', authMiddleware, requireRole('MANAGEMENT', 'HR'), toggleEmployeeStatus);
+router.patch('/:id/toggle-status', authMiddleware, requirePermission('employee:access:manage'), validate(employeeIdSchema), toggleEmployeeStatus);
 
 // Manage employee role (Management/HR only)
-router.patch('/:id/role', authMiddleware, requireRole('MANAGEMENT', 'HR'), manageEmployeeRole);
+router.patch('/:id/role', authMiddleware, requirePermission('employee:access:manage'), validate(manageEmployeeRoleSchema), manageEmployeeRole);
 
 export default router;
 
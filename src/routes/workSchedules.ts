@@ -0,0 +1,108 @@
+import express from 'express';
+import {
+  getWorkSchedules,
+  getWorkScheduleById,
+  createWorkSchedule,
+  updateWorkSchedule,
+  getWorkScheduleAssignments,
+  createWorkScheduleAssignment,
+  deleteWorkScheduleAssignment,
+  getEffectiveWorkSchedule,
+} from '../controllers/workScheduleController';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  assignWorkScheduleSchema,
+  createWorkScheduleSchema,
+  getEffectiveWorkScheduleSchema,
+  getWorkScheduleAssignmentsSchema,
+  getWorkSchedulesSchema,
+  updateWorkScheduleSchema,
+  workScheduleAssignmentIdSchema,
+  workScheduleIdSchema,
+} from '../schemas/workSchedules';
+
+const router = express.Router();
+
+/**
+ * Work Schedule Routes
+ * Shift patterns that attendance, overtime and payroll working days are measured against
+ */
+
+/**
+ * @route   GET /work-schedules/effective
+ * @desc    Schedule in effect for an employee on a day
+ * @access  Authenticated (own schedule); attendance:read:all or work-schedule:manage for others
+ * @query   employeeId, date
+ */
+router.get('/effective', authMiddleware, validate(getEffectiveWorkScheduleSchema), getEffectiveWorkSchedule);
+
+/**
+ * @route   GET /work-schedules/assignments
+ * @desc    Assignment history of employees and departments
+ * @access  work-schedule:manage, attendance:read:all
+ * @query   employeeId, departmentId, scheduleId
+ */
+router.get(
+  '/assignments',
+  authMiddleware,
+  requirePermission('work-schedule:manage', 'attendance:read:all'),
+  validate(getWorkScheduleAssignmentsSchema),
+  getWorkScheduleAssignments
+);
+
+/**
+ * @route   POST /work-schedules/assignments
+ * @desc    Assign a schedule to an employee or department from a date
+ * @access  work-schedule:manage
+ */
+router.post(
+  '/assignments',
+  authMiddleware,
+  requirePermission('work-schedule:manage'),
+  validate(assignWorkScheduleSchema),
+  createWorkScheduleAssignment
+);
+
+/**
+ * @route   DELETE /work-schedules/assignments/:id
+ * @desc    Remove an assignment that has not started yet
+ * @access  work-schedule:manage
+ */
+router.delete(
+  '/assignments/:id',
+  authMiddleware,
+  requirePermission('work-schedule:manage'),
+  validate(workScheduleAssignmentIdSchema),
+  deleteWorkScheduleAssignment
+);
+
+/**
+ * @route   GET /work-schedules
+ * @desc    List work schedules
+ * @access  work-schedule:manage, attendance:read:all
+ */
+router.get('/', authMiddleware, requirePermission('work-schedule:manage', 'attendance:read:all'), validate(getWorkSchedulesSchema), getWorkSchedules);
+
+/**
+ * @route   POST /work-schedules
+ * @desc    Create a work schedule
+ * @access  work-schedule:manage
+ */
+router.post('/', authMiddleware, requirePermission('work-schedule:manage'), validate(createWorkScheduleSchema), createWorkSchedule);
+
+/**
+ * @route   GET /work-schedules/:id
+ * @desc    Get a work schedule
+ * @access  work-schedule:manage, attendance:read:all
+ */
+router.get('/:id', authMiddleware, requirePermission('work-schedule:manage', 'attendance:read:all'), validate(workScheduleIdSchema), getWorkScheduleById);
+
+/**
+ * @route   PATCH /work-schedules/:id
+ * @desc    Update a work schedule, make it the default or deactivate it
+ * @access  work-schedule:manage
+ */
+router.patch('/:id', authMiddleware, requirePermission('work-schedule:manage'), validate(updateWorkScheduleSchema), updateWorkSchedule);
+
+export default router;
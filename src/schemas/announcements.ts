@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { AnnouncementPriority, AnnouncementStatus } from '@prisma/client';
+import { id, idParams, optionalText, paginationQuery, queryObject, requiredText } from './common';
+import { model, modelList, noData, pagination } from './responses';
+
+const recipient = z.object({
+  id: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string(),
+  designation: z.string(),
+});
+
+// Departments with their active employees, and every active employee
+export const getRecipientsDataSchema = {
+  response: z.object({
+    departments: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        code: z.string(),
+        employeeCount: z.number(),
+        employees: z.array(recipient),
+      })
+    ),
+    allEmployees: z.array(
+      recipient.extend({
+        fullName: z.string(),
+        departmentId: z.string().optional(),
+        departmentName: z.string().optional(),
+      })
+    ),
+  }),
+};
+
+export const getAnnouncementsSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(AnnouncementStatus).optional(),
+    priority: z.enum(AnnouncementPriority).optional(),
+    departmentId: id.optional(),
+    search: optionalText,
+  }),
+  response: z.object({ announcements: modelList('Announcement'), pagination }),
+};
+
+export const announcementIdSchema = {
+  params: idParams,
+  response: model('Announcement'),
+};
+
+export const deleteAnnouncementSchema = {
+  params: idParams,
+  response: noData,
+};
+
+// Without target departments an announcement goes to everyone
+export const createAnnouncementSchema = {
+  body: z.object({
+    title: requiredText,
+    content: requiredText,
+    priority: z.enum(AnnouncementPriority).default(AnnouncementPriority.MEDIUM),
+    departmentIds: z.array(id).optional(),
+  }),
+  response: model('Announcement'),
+};
+
+export const updateAnnouncementSchema = {
+  params: idParams,
+  body: z.object({
+    title: requiredText.optional(),
+    content: requiredText.optional(),
+    priority: z.enum(AnnouncementPriority).optional(),
+    status: z.enum(AnnouncementStatus).optional(),
+    // Replaces the current target departments
+    departmentIds: z.array(id).optional(),
+  }),
+  response: model('Announcement'),
+};
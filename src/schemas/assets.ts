@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import { AssetCategory, AssetCondition, AssetStatus, AssetType } from '@prisma/client';
+import {
+  date,
+  formObject,
+  id,
+  idParams,
+  nonNegativeAmount,
+  numeric,
+  nullableText,
+  optionalText,
+  paginationQuery,
+  queryObject,
+  requiredText,
+} from './common';
+import { model, modelList, noData, pagination } from './responses';
+
+// Conditions from before the NEW / USED / DAMAGED simplification are still accepted
+const assetCondition = z
+  .enum(AssetCondition)
+  .or(z.enum(['EXCELLENT', 'GOOD', 'FAIR', 'POOR']).transform(() => AssetCondition.USED));
+
+const depreciationMonths = numeric.pipe(z.number().int().positive());
+
+// ============================================
+// ASSETS
+// ============================================
+
+export const getAssetStatsSchema = {
+  response: z.object({
+    total: z.number(),
+    assigned: z.number(),
+    available: z.number(),
+    maintenance: z.number(),
+    retired: z.number(),
+    totalCost: z.number(),
+  }),
+};
+
+export const getAssetsSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(AssetStatus).optional(),
+    category: z.enum(AssetCategory).optional(),
+    assetType: z.enum(AssetType).optional(),
+    search: optionalText,
+    manufacturer: optionalText,
+    location: optionalText,
+    // Employee ID, or __unassigned__ for assets nobody holds
+    assignedTo: optionalText,
+  }),
+  response: pagination.extend({ data: modelList('Asset') }),
+};
+
+export const assetIdSchema = {
+  params: idParams,
+  response: model('Asset'),
+};
+
+export const deleteAssetSchema = {
+  params: idParams,
+  response: noData,
+};
+
+export const createAssetSchema = {
+  body: formObject({
+    name: requiredText,
+    assetTag: optionalText,
+    serialNumber: optionalText,
+    model: optionalText,
+    assetType: z.enum(AssetType).default(AssetType.MAIN_ASSET),
+    category: z.enum(AssetCategory),
+    manufacturerId: optionalText,
+    supplierId: optionalText,
+    purchaseDate: date.optional(),
+    purchaseCost: nonNegativeAmount.optional(),
+    currency: requiredText.default('AED'),
+    depreciationMonths: depreciationMonths.optional(),
+    warrantyExpiry: date.optional(),
+    location: optionalText,
+    condition: assetCondition.default(AssetCondition.NEW),
+    description: optionalText,
+    notes: optionalText,
+    status: z.enum(AssetStatus).default(AssetStatus.AVAILABLE),
+    imageUrl: optionalText,
+    invoiceUrl: optionalText,
+  }),
+  response: model('Asset'),
+};
+
+export const updateAssetSchema = {
+  params: idParams,
+  // null clears an optional field
+  body: formObject({
+    name: requiredText.optional(),
+    assetTag: nullableText,
+    serialNumber: nullableText,
+    model: nullableText,
+    assetType: z.enum(AssetType).optional(),
+    category: z.enum(AssetCategory).optional(),
+    manufacturerId: nullableText,
+    supplierId: nullableText,
+    purchaseDate: date.nullable().optional(),
+    purchaseCost: nonNegativeAmount.nullable().optional(),
+    currency: requiredText.optional(),
+    depreciationMonths: depreciationMonths.nullable().optional(),
+    warrantyExpiry: date.nullable().optional(),
+    location: nullableText,
+    condition: assetCondition.optional(),
+    description: nullableText,
+    notes: nullableText,
+    status: z.enum(AssetStatus).optional(),
+    imageUrl: nullableText,
+    invoiceUrl: nullableText,
+  }),
+  response: model('Asset'),
+};
+
+export const assignAssetSchema = {
+  params: idParams,
+  body: formObject({
+    employeeId: id,
+    notes: optionalText,
+    expectedReturnDate: date.optional(),
+  }),
+  response: model('Asset'),
+};
+
+export const unassignAssetSchema = {
+  params: idParams,
+  body: formObject({
+    notes: optionalText,
+  }),
+  response: model('Asset'),
+};
+
+// ============================================
+// MANUFACTURERS & SUPPLIERS
+// ============================================
+
+export const getManufacturersSchema = {
+  response: modelList('Manufacturer'),
+};
+
+export const createManufacturerSchema = {
+  body: z.object({
+    name: requiredText,
+    description: nullableText,
+    website: nullableText,
+  }),
+  response: model('Manufacturer'),
+};
+
+export const getSuppliersSchema = {
+  response: modelList('Supplier'),
+};
+
+export const createSupplierSchema = {
+  body: z.object({
+    name: requiredText,
+    contactName: nullableText,
+    email: nullableText,
+    phone: nullableText,
+    address: nullableText,
+    website: nullableText,
+  }),
+  response: model('Supplier'),
+};
@@ -0,0 +1,271 @@
+import { z } from 'zod';
+import { AttendanceCorrectionStatus, AttendanceDayType, AttendanceExceptionStatus } from '@prisma/client';
+import {
+  id,
+  idParams,
+  optionalText,
+  page,
+  pageSize,
+  paginationQuery,
+  queryBoolean,
+  queryList,
+  queryObject,
+  reasonBody,
+  requiredText,
+} from './common';
+import { model, modelList, modelWith, pagination } from './responses';
+import { workScheduleRules } from './workSchedules';
+
+// Calendar day in Dubai time; kept as a string since day boundaries are computed per timezone
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date in YYYY-MM-DD format');
+
+// Dubai time on the corrected day; a check-out at or before the check-in is on the next day
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be a time in HH:mm format');
+
+const hours = z.coerce.number({ error: 'Must be a number' }).min(0, 'Must not be negative');
+
+// Attendance records with hoursWorked and overtime formatted as "HH:mm:ss"
+const formattedHours = {
+  hoursWorked: z.string(),
+  overtime: z.string(),
+};
+
+const earlyCheckout = {
+  isEarlyCheckout: z.boolean(),
+  hoursShort: z.number(),
+  minimumRequiredHours: z.number(),
+};
+
+const checkedOutAttendance = modelWith('Attendance', { ...formattedHours, ...earlyCheckout });
+
+// Employee on a reported day
+const reportedEmployee = (shape: z.ZodRawShape = {}) => modelWith('Employee', { date: day, ...shape });
+
+// Today's record (or, before 6am, yesterday's open one) with what limits the day
+export const getAttendanceTodaySchema = {
+  response: z.object({
+    attendance: modelWith('Attendance', {
+      ...formattedHours,
+      totalBreakMinutes: z.number(),
+      standardBreakMinutes: z.number(),
+      exceededBreakMinutes: z.number(),
+      hasExceededBreak: z.boolean(),
+    }),
+    approvedOvertimeToday: z.number(),
+    maxAllowedHours: z.number(),
+    currentHoursWorked: z.number(),
+    overtimeRequestDetails: model('OvertimeRequest').nullable(),
+    workSchedule: workScheduleRules.extend({ isWorkingDay: z.boolean() }),
+  }),
+};
+
+export const checkInSchema = {
+  response: model('Attendance'),
+};
+
+export const startBreakSchema = {
+  response: model('Attendance'),
+};
+
+export const endBreakSchema = {
+  response: modelWith('Attendance', {
+    breakDurationMinutes: z.number(),
+    totalBreakMinutesToday: z.number(),
+    exceededBreakMinutes: z.number(),
+    hasExceededBreak: z.boolean(),
+  }),
+};
+
+export const checkOutSchema = {
+  body: z.object({
+    notes: optionalText,
+  }),
+  response: z.union([checkedOutAttendance, model('Attendance')]),
+};
+
+export const getAttendanceHistorySchema = {
+  query: queryObject({
+    ...paginationQuery,
+    fromDate: day.optional(),
+    toDate: day.optional(),
+    searchNotes: optionalText,
+    hasCheckIn: queryBoolean.optional(),
+    hasCheckOut: queryBoolean.optional(),
+    minHours: hours.optional(),
+    maxHours: hours.optional(),
+    hasOvertime: queryBoolean.optional(),
+  }),
+  response: pagination.extend({ data: z.array(modelWith('Attendance', formattedHours)) }),
+};
+
+export const getAllAttendanceSchema = {
+  query: queryObject({
+    page,
+    pageSize: pageSize(50),
+    employeeId: id.optional(),
+    fromDate: day.optional(),
+    toDate: day.optional(),
+    hasCheckIn: queryBoolean.optional(),
+    hasCheckOut: queryBoolean.optional(),
+    // More than 1, 2 or 3 hours after the expected check-in time
+    lateCheckIn: z.enum(['1', '2', '3']).transform(Number).optional(),
+    earlyCheckout: queryBoolean.optional(),
+    // Whether the employee's attendance policy required attendance on the day
+    attendanceRequired: queryBoolean.optional(),
+  }),
+  response: pagination.extend({
+    data: z.array(
+      modelWith('Attendance', {
+        ...formattedHours,
+        ...earlyCheckout,
+        isLateCheckIn: z.boolean(),
+        hasCheckIn: z.boolean(),
+        hasCheckOut: z.boolean(),
+        breakTimeMinutes: z.number(),
+        attendanceStatus: z.enum(['NO_CHECK_IN', 'MISSED_CHECKOUT', 'WORKING', 'COMPLETED']),
+        attendanceRequired: z.boolean(),
+      })
+    ),
+  }),
+};
+
+// A single date, or a fromDate/toDate range; defaults to today
+export const getAttendanceReportsSchema = {
+  query: queryObject({
+    date: day.optional(),
+    fromDate: day.optional(),
+    toDate: day.optional(),
+  }),
+  response: z.object({
+    noCheckIn: z.array(reportedEmployee()),
+    noCheckOut: z.array(reportedEmployee({ checkInTime: z.string() })),
+    lateCheckIn: z.array(
+      reportedEmployee({
+        checkInTime: z.string(),
+        lateByHours: z.number(),
+        lateCategory: z.enum(['>1 hour', '>2 hours', '>3 hours']),
+      })
+    ),
+    summary: z.object({
+      totalEmployees: z.number(),
+      noCheckInCount: z.number(),
+      noCheckOutCount: z.number(),
+      lateCheckInCount: z.number(),
+      // By AttendanceDayType
+      classificationCounts: z.record(z.enum(AttendanceDayType), z.number()),
+      pendingExceptionsCount: z.number(),
+      unexcusedAbsencesCount: z.number(),
+    }),
+  }),
+};
+
+// Own exceptions, or those of reports / everyone (attendance:read:all); newest first
+export const getAttendanceExceptionsSchema = {
+  query: queryObject({
+    page,
+    pageSize: pageSize(50),
+    employeeId: id.optional(),
+    fromDate: day.optional(),
+    toDate: day.optional(),
+    type: queryList(z.enum(AttendanceDayType)).optional(),
+    status: queryList(z.enum(AttendanceExceptionStatus)).optional(),
+  }),
+  response: z.object({ exceptions: modelList('AttendanceException'), pagination }),
+};
+
+export const justifyAttendanceExceptionSchema = {
+  params: idParams,
+  body: z.object({
+    justification: requiredText,
+  }),
+  response: model('AttendanceException'),
+};
+
+export const reviewAttendanceExceptionSchema = {
+  params: idParams,
+  body: z.object({
+    status: z.enum(['EXCUSED', 'UNEXCUSED']),
+    note: optionalText,
+  }),
+  response: model('AttendanceException'),
+};
+
+// Correction of one attendance day: either time may be left out to keep the recorded one
+const correctedTimes = {
+  date: day,
+  checkInTime: time.optional(),
+  checkOutTime: time.optional(),
+};
+
+const hasCorrectedTime = (entry: { checkInTime?: string; checkOutTime?: string }) => !!entry.checkInTime || !!entry.checkOutTime;
+
+const missingCorrectedTime = { message: 'Provide a corrected check-in or check-out time', path: ['checkInTime'] };
+
+const correctedDay = z.object({ employeeId: id, ...correctedTimes }).refine(hasCorrectedTime, missingCorrectedTime);
+
+// Own corrections, or those of reports / everyone (attendance:read:all); newest first
+export const getAttendanceCorrectionsSchema = {
+  query: queryObject({
+    page,
+    pageSize: pageSize(50),
+    employeeId: id.optional(),
+    fromDate: day.optional(),
+    toDate: day.optional(),
+    status: queryList(z.enum(AttendanceCorrectionStatus)).optional(),
+  }),
+  response: z.object({ corrections: modelList('AttendanceCorrection'), pagination }),
+};
+
+export const requestAttendanceCorrectionSchema = {
+  body: z.object({ ...correctedTimes, reason: requiredText }).refine(hasCorrectedTime, missingCorrectedTime),
+  response: model('AttendanceCorrection'),
+};
+
+export const attendanceCorrectionIdSchema = {
+  params: idParams,
+  response: model('AttendanceCorrection'),
+};
+
+export const approveAttendanceCorrectionSchema = {
+  params: idParams,
+  body: z.object({
+    reviewNote: optionalText,
+  }),
+  response: model('AttendanceCorrection'),
+};
+
+export const rejectAttendanceCorrectionSchema = {
+  params: idParams,
+  body: reasonBody('reviewNote'),
+  response: model('AttendanceCorrection'),
+};
+
+export const editAttendanceSchema = {
+  body: z.object({ employeeId: id, ...correctedTimes, reason: requiredText }).refine(hasCorrectedTime, missingCorrectedTime),
+  response: z.object({ attendance: model('Attendance'), correction: model('AttendanceCorrection') }),
+};
+
+export const bulkEditAttendanceSchema = {
+  body: z.object({
+    reason: requiredText,
+    entries: z
+      .array(correctedDay)
+      .min(1, 'At least one entry is required')
+      .max(100, 'At most 100 entries per bulk edit')
+      .refine(
+        (entries) => new Set(entries.map((entry) => `${entry.employeeId}:${entry.date}`)).size === entries.length,
+        'Each employee and date can only appear once'
+      ),
+  }),
+  response: z.object({ batchId: z.string().nullable(), corrections: modelList('AttendanceCorrection') }),
+};
+
+// Auto-closed records awaiting a correction (own, reports', or all with attendance:read:all); oldest first
+export const getRegularizationQueueSchema = {
+  query: queryObject({
+    page,
+    pageSize: pageSize(50),
+    employeeId: id.optional(),
+  }),
+  response: z.object({ records: modelList('Attendance'), pagination }),
+};
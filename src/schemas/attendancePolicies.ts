@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { id, idParams, optionalText, queryObject } from './common';
+import { model, modelList, noData } from './responses';
+
+// Calendar day, stored at UTC midnight like attendance dates
+const day = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date in YYYY-MM-DD format')
+  .transform((value) => new Date(`${value}T00:00:00.000Z`));
+
+// Policy history of an employee or department, newest first
+export const getAttendancePoliciesSchema = {
+  query: queryObject({
+    employeeId: id.optional(),
+    departmentId: id.optional(),
+  }),
+  response: modelList('AttendancePolicy'),
+};
+
+export const setAttendancePolicySchema = {
+  body: z
+    .object({
+      employeeId: id.optional(),
+      departmentId: id.optional(),
+      attendanceRequired: z.boolean({ error: 'Required' }),
+      reason: optionalText,
+      effectiveFrom: day,
+      effectiveTo: day.nullable().optional(),
+    })
+    .refine((body) => !!body.employeeId !== !!body.departmentId, {
+      message: 'Exactly one of employeeId and departmentId is required',
+      path: ['employeeId'],
+    })
+    .refine((body) => !body.effectiveTo || body.effectiveTo >= body.effectiveFrom, {
+      message: 'Must not be before effectiveFrom',
+      path: ['effectiveTo'],
+    }),
+  response: model('AttendancePolicy'),
+};
+
+export const attendancePolicyIdSchema = {
+  params: idParams,
+  response: noData,
+};
+
+// Policy in effect for an employee on a day (defaults to the current user, today)
+export const getEffectiveAttendancePolicySchema = {
+  query: queryObject({
+    employeeId: id.optional(),
+    date: day.optional(),
+  }),
+  response: z.object({
+    employeeId: z.string(),
+    date: z.string(),
+    attendanceRequired: z.boolean(),
+    source: z.enum(['EMPLOYEE', 'DEPARTMENT', 'DEFAULT']),
+    policy: model('AttendancePolicy').nullable(),
+  }),
+};
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { AuditAction } from '@prisma/client';
+import { date, id, optionalText, page, pageSize, queryObject } from './common';
+import { modelList, pagination } from './responses';
+
+// A date-only `to` covers the whole day
+const endOfDay = z.preprocess(
+  (value) => (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value),
+  date
+);
+
+export const getAuditLogsSchema = {
+  query: queryObject({
+    page,
+    pageSize: pageSize(20, 100),
+    entity: optionalText,
+    entityId: id.optional(),
+    actorId: id.optional(),
+    action: z.enum(AuditAction).optional(),
+    from: date.optional(),
+    to: endOfDay.optional(),
+  }),
+  response: pagination.extend({ data: modelList('AuditLog') }),
+};
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { EmployeeRole, EmployeeUserStatus } from '@prisma/client';
+import { validatePasswordStrength } from '../utils/password';
+import { queryInt, queryObject, requiredText } from './common';
+import { modelList, noData, pagination } from './responses';
+
+/**
+ * New password, checked against the password policy (utils/password)
+ */
+export const newPassword = z.string({ error: 'Required' }).superRefine((value, ctx) => {
+  const passwordError = validatePasswordStrength(value);
+  if (passwordError) {
+    ctx.addIssue({ code: 'custom', message: passwordError });
+  }
+});
+
+// Short-lived access token and the refresh token to renew it
+const sessionTokens = z.object({
+  token: z.string(),
+  refreshToken: z.string(),
+  refreshTokenExpiresAt: z.iso.datetime(),
+});
+
+const authSession = sessionTokens.extend({
+  user: z.object({
+    id: z.string(),
+    email: z.string(),
+    firstName: z.string(),
+    lastName: z.string(),
+    role: z.enum(EmployeeRole),
+    status: z.enum(EmployeeUserStatus),
+    mustChangePassword: z.boolean(),
+    permissions: z.array(z.string()),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  }),
+});
+
+export const logoutAllSchema = {
+  response: noData,
+};
+
+export const loginSchema = {
+  body: z.object({
+    email: requiredText,
+    password: z.string({ error: 'Required' }).min(1, 'Required'),
+  }),
+  response: authSession,
+};
+
+export const googleAuthSchema = {
+  body: z.object({
+    token: requiredText,
+  }),
+  response: authSession,
+};
+
+export const refreshSchema = {
+  body: z.object({
+    refreshToken: requiredText,
+  }),
+  response: sessionTokens,
+};
+
+// Logout always succeeds, so the token is optional
+export const logoutSchema = {
+  body: z.object({
+    refreshToken: z.string().optional(),
+  }),
+  response: noData,
+};
+
+export const forgotPasswordSchema = {
+  body: z.object({
+    email: requiredText,
+  }),
+  response: noData,
+};
+
+export const resetPasswordSchema = {
+  body: z.object({
+    token: requiredText,
+    newPassword,
+  }),
+  response: noData,
+};
+
+export const changePasswordSchema = {
+  body: z.object({
+    currentPassword: z.string({ error: 'Required' }).min(1, 'Required'),
+    newPassword,
+  }),
+  response: sessionTokens,
+};
+
+export const getLoginHistorySchema = {
+  query: queryObject({
+    page: queryInt.min(1).default(1),
+    pageSize: queryInt.min(1).max(100).default(20),
+  }),
+  response: pagination.extend({ data: modelList('LoginAttempt') }),
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { BankDetailChangeStatus } from '@prisma/client';
+import { id, idParams, nullableText, optionalText, page, pageSize, queryObject } from './common';
+import { model, modelList, pagination } from './responses';
+
+const bankDetailFields = ['paymentMethod', 'bankName', 'accountHolderName', 'iban', 'routingNumber'] as const;
+
+export const createBankDetailChangeRequestSchema = {
+  body: z
+    .object({
+      employeeId: id,
+      paymentMethod: nullableText,
+      bankName: nullableText,
+      accountHolderName: nullableText,
+      iban: nullableText,
+      routingNumber: nullableText,
+      reason: nullableText,
+    })
+    .refine((request) => bankDetailFields.some((field) => !!request[field]), {
+      message: 'At least one bank detail field must be provided',
+    }),
+  response: model('BankDetailChangeRequest'),
+};
+
+export const getBankDetailChangeRequestsSchema = {
+  query: queryObject({
+    page,
+    pageSize: pageSize(10, 50),
+    status: z.enum(BankDetailChangeStatus).optional(),
+    employeeId: id.optional(),
+  }),
+  response: pagination.extend({ data: modelList('BankDetailChangeRequest') }),
+};
+
+export const bankDetailChangeRequestIdSchema = {
+  params: idParams,
+  response: model('BankDetailChangeRequest'),
+};
+
+export const reviewBankDetailChangeRequestSchema = {
+  params: idParams,
+  body: z.object({
+    action: z.enum(['approve', 'reject']),
+    notes: optionalText,
+  }),
+  response: model('BankDetailChangeRequest'),
+};
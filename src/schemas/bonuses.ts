@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { date, id, idParams, nullableText, paginationQuery, positiveAmount, queryBoolean, queryMonth, queryObject, queryYear, reasonBody, requiredText } from './common';
+import { model, modelList, noData, pagination } from './responses';
+
+export const createBonusSchema = {
+  body: z.object({
+    employeeId: id,
+    bonusTypeId: requiredText, // Bonus type ID or name (unknown names create a type)
+    amount: positiveAmount,
+    reason: requiredText,
+    bonusDate: date,
+  }),
+  response: model('Bonus'),
+};
+
+export const getBonusesSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    employeeId: id.optional(),
+    startDate: date.optional(),
+    endDate: date.optional(),
+    month: queryMonth.optional(),
+    year: queryYear.optional(),
+  }),
+  response: z.object({ bonuses: modelList('Bonus'), pagination }),
+};
+
+export const updateBonusSchema = {
+  params: idParams,
+  body: z.object({
+    amount: positiveAmount.optional(),
+    reason: requiredText.optional(),
+  }),
+  response: model('Bonus'),
+};
+
+export const bonusIdSchema = {
+  params: idParams,
+  response: model('Bonus'),
+};
+
+export const deleteBonusSchema = {
+  params: idParams,
+  response: noData,
+};
+
+export const bonusPayrollReferenceSchema = {
+  params: idParams,
+  body: z.object({
+    payrollReference: nullableText,
+  }),
+  response: model('Bonus'),
+};
+
+export const putBonusOnHoldSchema = {
+  params: idParams,
+  body: reasonBody('onHoldReason'),
+  response: model('Bonus'),
+};
+
+export const rejectBonusSchema = {
+  params: idParams,
+  body: reasonBody('rejectionReason'),
+  response: model('Bonus'),
+};
+
+export const getBonusTypesSchema = {
+  query: queryObject({
+    includeInactive: queryBoolean.default(false),
+  }),
+  response: modelList('BonusType'),
+};
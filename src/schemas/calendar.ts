@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { EmployeeUserStatus, LeaveType } from '@prisma/client';
+import { id, optionalText, queryBoolean, queryMonth, queryObject, queryYear, requiredText } from './common';
+import { model, modelWith } from './responses';
+
+// Colors of the leave types, followed by the one holidays are shown in
+const leaveTypeColors = z.array(
+  modelWith('LeaveTypeColor', {
+    leaveType: z.union([z.enum(LeaveType), z.literal('HOLIDAY')]),
+  })
+);
+
+export const getLeaveTypeColorsSchema = {
+  response: leaveTypeColors,
+};
+
+export const getCalendarViewSchema = {
+  query: queryObject({
+    // Defaults to the current month
+    month: queryMonth.default(() => new Date().getMonth() + 1),
+    year: queryYear.default(() => new Date().getFullYear()),
+    departmentId: id.optional(),
+    search: optionalText,
+    includeInactive: queryBoolean.default(false),
+  }),
+  response: z.object({
+    month: z.number(),
+    year: z.number(),
+    monthName: z.string(),
+    employees: z.array(
+      z.object({
+        employeeName: z.string(),
+        employeeId: z.string(),
+        status: z.enum(EmployeeUserStatus),
+        days: z.array(
+          z.object({
+            day: z.number(),
+            dayOfWeek: z.string(),
+            status: z.enum(['HOLIDAY', 'LEAVE', '-']),
+            shortcut: z.string(),
+            hexColor: z.string(),
+            leaveType: z.enum(LeaveType).nullable(),
+            leaveTypeName: z.string().nullable(),
+          })
+        ),
+      })
+    ),
+    leaveTypeColors,
+  }),
+};
+
+export const createLeaveTypeColorSchema = {
+  body: z.object({
+    leaveType: z.enum(LeaveType),
+    name: requiredText,
+    hexColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Must be a hex color such as #1E88E5'),
+    shortcut: requiredText,
+    description: optionalText,
+  }),
+  response: model('LeaveTypeColor'),
+};
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { date, id, optionalText, paginationQuery, queryObject, requiredText } from './common';
+import { model, modelList, pagination } from './responses';
+
+// Active records by default; 'all' lifts the filter
+const isActive = z.enum(['true', 'false', 'all']).default('true');
+
+const selectable = z.object({ id: z.string(), name: z.string() });
+
+// Active clients with their active projects
+export const getClientsAndProjectsForSelectionSchema = {
+  response: z.array(selectable.extend({ projects: z.array(selectable) })),
+};
+
+export const getClientsSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    search: optionalText,
+    isActive,
+  }),
+  response: z.object({ clients: modelList('Client'), pagination }),
+};
+
+export const createClientSchema = {
+  body: z.object({
+    name: requiredText,
+    email: optionalText,
+    phone: optionalText,
+    address: optionalText,
+    city: optionalText,
+    country: optionalText,
+    description: optionalText,
+  }),
+  response: model('Client'),
+};
+
+export const getProjectsByClientSchema = {
+  params: z.object({ clientId: id }),
+  query: queryObject({
+    ...paginationQuery,
+    isActive,
+  }),
+  response: z.object({ projects: modelList('Project'), pagination }),
+};
+
+export const createProjectSchema = {
+  body: z.object({
+    name: requiredText,
+    clientId: id,
+    description: optionalText,
+    startDate: date.optional(),
+    endDate: date.optional(),
+  }),
+  response: model('Project'),
+};
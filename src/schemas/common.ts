@@ -0,0 +1,95 @@
+import { z } from 'zod';
+
+/**
+ * Building blocks shared by the request schemas
+ *
+ * Query strings only carry strings, so query schemas coerce; empty query
+ * values (`?status=`) are treated as absent. JSON bodies accept numbers
+ * given as numeric strings, since several forms submit them that way.
+ */
+
+const dropEmptyValues = (value: unknown) => {
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).filter(([, fieldValue]) => fieldValue !== ''));
+};
+
+/**
+ * Object schema for req.query: empty values are dropped before parsing
+ */
+export const queryObject = <T extends z.ZodRawShape>(shape: T) => z.preprocess(dropEmptyValues, z.object(shape));
+
+/**
+ * Object schema for a form-style body whose untouched inputs are sent as ''
+ */
+export const formObject = queryObject;
+
+export const id = z.string().trim().min(1, 'Required');
+
+export const idParams = z.object({ id });
+
+export const employeeIdParams = z.object({ employeeId: id });
+
+/**
+ * Number accepted as a JSON number or a numeric string
+ */
+export const numeric = z.preprocess(
+  (value) => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+  z.number({ error: 'Must be a number' })
+);
+
+export const positiveAmount = numeric.pipe(z.number().positive('Must be greater than 0'));
+
+export const nonNegativeAmount = numeric.pipe(z.number().min(0, 'Must not be negative'));
+
+export const month = numeric.pipe(z.number().int().min(1, 'Month must be between 1 and 12').max(12, 'Month must be between 1 and 12'));
+
+export const year = numeric.pipe(z.number().int().min(2000, 'Invalid year').max(2100, 'Invalid year'));
+
+/**
+ * Date given as an ISO string (date-only or date-time)
+ */
+export const date = z.coerce.date({ error: 'Invalid date' });
+
+export const requiredText = z.string({ error: 'Required' }).trim().min(1, 'Required');
+
+export const optionalText = z.string().trim().optional();
+
+export const nullableText = z.string().trim().nullable().optional();
+
+// Query values
+
+export const queryInt = z.coerce.number({ error: 'Must be a number' }).int('Must be an integer');
+
+export const page = queryInt.min(1).default(1);
+
+export const pageSize = (defaultSize = 10, max = 1000) => queryInt.min(1).max(max).default(defaultSize);
+
+export const queryMonth = queryInt.min(1, 'Month must be between 1 and 12').max(12, 'Month must be between 1 and 12');
+
+export const queryYear = queryInt.min(2000, 'Invalid year').max(2100, 'Invalid year');
+
+export const queryBoolean = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+/**
+ * Comma separated list (`?status=A,B`) or repeated parameter (`?status=A&status=B`)
+ */
+export const queryList = <T extends z.ZodType>(item: T) =>
+  z.preprocess(
+    (value) => (Array.isArray(value) ? value : String(value).split(',')).map((entry) => String(entry).trim()).filter(Boolean),
+    z.array(item)
+  );
+
+export const paginationQuery = {
+  page,
+  pageSize: pageSize(),
+};
+
+/**
+ * Body with a single required reason field (`{ rejectionReason }`, `{ onHoldReason }`, ...)
+ */
+export const reasonBody = <K extends string>(field: K) => z.object({ [field]: requiredText } as Record<K, typeof requiredText>);
+
+/**
+ * Schemas of an endpoint that takes no parameters, query or body
+ */
+export const noInputSchema = {};
@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { AmendmentType, ContractStatus, ContractType, RenewalType, WorkMode } from '@prisma/client';
+import {
+  date,
+  employeeIdParams,
+  formObject,
+  id,
+  idParams,
+  numeric,
+  optionalText,
+  paginationQuery,
+  positiveAmount,
+  queryBoolean,
+  queryInt,
+  queryObject,
+  requiredText,
+} from './common';
+import { model, modelList, pagination } from './responses';
+
+// Periods in days / hours per week
+const count = numeric.pipe(z.number().int().min(0, 'Must not be negative'));
+
+// Stored as JSON strings; passed through as sent
+const json = z.unknown();
+
+const contractIdParams = z.object({ contractId: id });
+
+// ============================================
+// CONTRACTS
+// ============================================
+
+export const getContractsSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(ContractStatus).optional(),
+    contractType: z.enum(ContractType).optional(),
+    search: optionalText,
+    expiringInDays: queryInt.min(0).optional(),
+  }),
+  response: pagination.extend({ data: modelList('Contract') }),
+};
+
+export const getExpiringContractsSchema = {
+  query: queryObject({
+    days: queryInt.min(0).default(30),
+  }),
+  response: modelList('Contract'),
+};
+
+export const contractIdSchema = {
+  params: idParams,
+  response: model('Contract'),
+};
+
+export const contractByEmployeeSchema = {
+  params: employeeIdParams,
+  response: model('Contract'),
+};
+
+const contractFields = {
+  contractType: z.enum(ContractType),
+  startDate: date,
+  endDate: date.nullable().optional(),
+  baseSalary: positiveAmount,
+  currency: optionalText,
+  probationPeriod: count.optional(),
+  noticePeriod: count.optional(),
+  workingHours: count.optional(),
+  workMode: z.enum(WorkMode).optional(),
+  autoRenewal: z.boolean().optional(),
+  renewalDuration: count.optional(),
+  renewalReminderDays: count.optional(),
+  allowances: json,
+  notes: optionalText,
+};
+
+export const createContractSchema = {
+  body: formObject({
+    ...contractFields,
+    employeeId: id,
+    autoRenewal: z.boolean().default(false),
+    templateId: optionalText,
+  }),
+  response: model('Contract'),
+};
+
+export const updateContractSchema = {
+  params: idParams,
+  body: formObject(z.object(contractFields).partial().shape),
+  response: model('Contract'),
+};
+
+export const terminateContractSchema = {
+  params: idParams,
+  body: z.object({
+    terminationDate: date,
+    notes: optionalText,
+  }),
+  response: model('Contract'),
+};
+
+// ============================================
+// RENEWALS & AMENDMENTS
+// ============================================
+
+export const getRenewalsSchema = {
+  params: contractIdParams,
+  response: modelList('ContractRenewal'),
+};
+
+export const initiateRenewalSchema = {
+  params: contractIdParams,
+  body: formObject({
+    renewalType: z.enum(RenewalType).default(RenewalType.MANUAL),
+    newEndDate: date,
+    newSalary: positiveAmount.optional(),
+    changes: json,
+    effectiveDate: date,
+    notes: optionalText,
+  }),
+  response: model('ContractRenewal'),
+};
+
+export const renewalIdSchema = {
+  params: idParams,
+  response: model('ContractRenewal'),
+};
+
+export const getAmendmentsSchema = {
+  params: contractIdParams,
+  response: modelList('ContractAmendment'),
+};
+
+export const createAmendmentSchema = {
+  params: contractIdParams,
+  body: z.object({
+    amendmentType: z.enum(AmendmentType),
+    title: requiredText,
+    description: requiredText,
+    previousValue: json,
+    newValue: json,
+    effectiveDate: date,
+    notes: optionalText,
+  }),
+  response: model('ContractAmendment'),
+};
+
+export const amendmentIdSchema = {
+  params: idParams,
+  response: model('ContractAmendment'),
+};
+
+// Renewals require a reason, amendments do not
+export const rejectRenewalSchema = {
+  params: idParams,
+  body: z.object({
+    rejectionReason: requiredText,
+  }),
+  response: model('ContractRenewal'),
+};
+
+export const rejectAmendmentSchema = {
+  params: idParams,
+  body: z.object({
+    rejectionReason: optionalText,
+  }),
+  response: model('ContractAmendment'),
+};
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+export const getTemplatesSchema = {
+  query: queryObject({
+    contractType: z.enum(ContractType).optional(),
+    isActive: queryBoolean.optional(),
+  }),
+  response: modelList('ContractTemplate'),
+};
+
+export const templateIdSchema = {
+  params: idParams,
+  response: model('ContractTemplate'),
+};
+
+export const deleteTemplateSchema = {
+  params: idParams,
+  response: z.null(),
+};
+
+const templateFields = {
+  name: requiredText,
+  description: optionalText,
+  contractType: z.enum(ContractType),
+  defaultDuration: count.optional(),
+  defaultNoticePeriod: count.optional(),
+  defaultProbationPeriod: count.optional(),
+  terms: json,
+  clauses: json,
+  isDefault: z.boolean().optional(),
+};
+
+export const createTemplateSchema = {
+  body: formObject(templateFields),
+  response: model('ContractTemplate'),
+};
+
+export const updateTemplateSchema = {
+  params: idParams,
+  body: formObject(z.object({ ...templateFields, isActive: z.boolean() }).partial().shape),
+  response: model('ContractTemplate'),
+};
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { DeductionStatus } from '@prisma/client';
+import { date, id, idParams, nullableText, page, pageSize, positiveAmount, queryBoolean, queryMonth, queryObject, queryYear, reasonBody, requiredText } from './common';
+import { model, modelList, noData, pagination } from './responses';
+
+export const createDeductionSchema = {
+  body: z.object({
+    employeeId: id,
+    deductionTypeId: requiredText, // Deduction type ID or name (unknown names create a type)
+    amount: positiveAmount,
+    reason: requiredText,
+    deductionDate: date,
+  }),
+  response: model('Deduction'),
+};
+
+export const getDeductionsSchema = {
+  query: queryObject({
+    page,
+    pageSize: pageSize(10, 100),
+    employeeId: id.optional(),
+    deductionTypeId: id.optional(),
+    status: z.enum(DeductionStatus).optional(),
+    startDate: date.optional(),
+    endDate: date.optional(),
+    month: queryMonth.optional(),
+    year: queryYear.optional(),
+  }),
+  response: z.object({ deductions: modelList('Deduction'), pagination }),
+};
+
+export const deductionIdSchema = {
+  params: idParams,
+  response: model('Deduction'),
+};
+
+export const deleteDeductionSchema = {
+  params: idParams,
+  response: noData,
+};
+
+export const deductionPayrollReferenceSchema = {
+  params: idParams,
+  body: z.object({
+    payrollReference: nullableText,
+  }),
+  response: model('Deduction'),
+};
+
+export const putDeductionOnHoldSchema = {
+  params: idParams,
+  body: reasonBody('onHoldReason'),
+  response: model('Deduction'),
+};
+
+export const rejectDeductionSchema = {
+  params: idParams,
+  body: reasonBody('rejectionReason'),
+  response: model('Deduction'),
+};
+
+export const getDeductionTypesSchema = {
+  query: queryObject({
+    includeInactive: queryBoolean.default(false),
+  }),
+  response: modelList('DeductionType'),
+};
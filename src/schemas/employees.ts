@@ -0,0 +1,375 @@
+import { z } from 'zod';
+import { EmployeeRole, EmployeeStatus, EmployeeUserStatus, EmploymentType, PayrollStatus, PermissionEffect, WorkMode } from '@prisma/client';
+import { ALL_PERMISSIONS } from '../utils/permissions';
+import { newPassword } from './auth';
+import {
+  date,
+  id,
+  idParams,
+  nonNegativeAmount,
+  nullableText,
+  optionalText,
+  paginationQuery,
+  positiveAmount,
+  queryObject,
+  requiredText,
+} from './common';
+import { model, modelList, modelWith, noData, pagination } from './responses';
+
+// Date that can be cleared with null or ''
+const clearableDate = z.preprocess((value) => (value === '' ? null : value), date.nullable()).optional();
+
+const email = z.email('Invalid email address');
+
+// Employment status, or INACTIVE / SUSPENDED for the account status
+const displayStatus = z.enum([...Object.values(EmployeeStatus), 'INACTIVE', 'SUSPENDED']);
+
+const employeeWithDisplayStatus = modelWith('Employee', { status: displayStatus });
+
+const datetime = z.iso.datetime();
+
+const person = z.object({ id: z.string(), name: z.string(), email: z.string() });
+
+// Employee as shown on the profile page, one object per tab
+const employeeProfile = z.object({
+  id: z.string(),
+  employeeId: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  fullName: z.string(),
+  // Initials
+  avatar: z.string(),
+  personalInfo: z.object({
+    workEmail: z.string(),
+    personalEmail: z.string().nullable(),
+    phone: z.string().nullable(),
+    dateOfBirth: datetime.nullable(),
+    gender: z.string().nullable(),
+    molId: z.string().nullable(),
+    address: z.string().nullable(),
+    city: z.string().nullable(),
+    state: z.string().nullable(),
+    zipCode: z.string().nullable(),
+    country: z.string().nullable(),
+  }),
+  employmentDetails: z.object({
+    positionInfo: z.object({
+      status: z.string(),
+      employmentStatus: z.enum(EmployeeStatus),
+      userStatus: z.enum(EmployeeUserStatus),
+      employmentType: z.enum(EmploymentType),
+      department: z.object({ id: z.string(), name: z.string(), code: z.string() }).nullable(),
+      designation: z.string(),
+      joinDate: datetime,
+      probationPeriod: z.string().nullable(),
+      probationPeriodMonths: z.number().nullable(),
+      confirmationDate: datetime.nullable(),
+      contractDuration: z.string(),
+      contractDurationMonths: z.number().nullable(),
+      contractIsPermanent: z.boolean(),
+      contractExpiryDate: datetime.nullable(),
+      terminationDate: datetime.nullable(),
+      terminationLastWorkingDay: datetime.nullable(),
+      terminationReason: z.string().nullable(),
+      terminationRecordedAt: datetime.nullable(),
+      terminatedBy: person.nullable(),
+      workMode: z.enum(WorkMode),
+    }),
+    lineManager: person.extend({ phone: z.string().nullable(), designation: z.string() }).nullable(),
+    managerId: z.string().nullable(),
+  }),
+  paymentInfo: z.object({
+    salaryDetails: z.object({
+      baseSalary: z.number(),
+      telephoneAllowance: z.number().optional(),
+      housingAllowance: z.number().optional(),
+      transportationAllowance: z.number().optional(),
+      totalSalary: z.number(),
+      currency: z.string(),
+    }),
+    bankDetails: z
+      .object({
+        paymentMethod: z.string().nullable(),
+        bankName: z.string().nullable(),
+        accountHolderName: z.string().nullable(),
+        iban: z.string().nullable(),
+        routingNumber: z.string().nullable(),
+      })
+      .nullable(),
+    salaryHistory: z.array(
+      z.object({
+        id: z.string(),
+        month: z.number(),
+        year: z.number(),
+        baseSalary: z.number(),
+        allowances: z.number(),
+        deductions: z.number(),
+        taxDeduction: z.number(),
+        netSalary: z.number(),
+        status: z.enum(PayrollStatus),
+        paidDate: datetime.nullable(),
+      })
+    ),
+  }),
+  documents: z.object({
+    passportCopy: model('EmployeeDocument').nullable(),
+    emiratesId: model('EmployeeDocument').nullable(),
+    certificates: modelList('EmployeeDocument'),
+    otherDocuments: modelList('EmployeeDocument'),
+  }),
+  metadata: z.object({ createdAt: datetime, updatedAt: datetime }),
+});
+
+// Login account of an employee as access management shows it
+const employeeAccount = z.object({
+  id: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  fullName: z.string(),
+  employeeId: z.string(),
+  role: z.enum(EmployeeRole),
+  userStatus: z.enum(EmployeeUserStatus),
+  designation: z.string(),
+  department: z.object({ id: z.string(), name: z.string(), code: z.string() }),
+  createdAt: datetime,
+  updatedAt: datetime,
+});
+
+// ============================================
+// EMPLOYEES
+// ============================================
+
+export const getEmployeesSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: displayStatus.optional(),
+    departmentId: id.optional(),
+    workMode: z.enum(WorkMode).optional(),
+    employmentType: z.enum(EmploymentType).optional(),
+    search: optionalText,
+  }),
+  response: pagination.extend({ data: z.array(employeeWithDisplayStatus) }),
+};
+
+export const employeeIdSchema = {
+  params: idParams,
+  response: employeeWithDisplayStatus,
+};
+
+export const getEmployeeProfileSchema = {
+  params: idParams,
+  response: employeeProfile,
+};
+
+export const deleteEmployeeSchema = {
+  params: idParams,
+  response: noData,
+};
+
+export const createEmployeeSchema = {
+  body: z.object({
+    firstName: requiredText,
+    lastName: requiredText,
+    email,
+    // Without a password the employee sets one through the invitation email
+    password: newPassword.optional(),
+    phone: optionalText,
+    employeeId: requiredText,
+    departmentId: id,
+    designation: requiredText,
+    employmentType: z.enum(EmploymentType).default(EmploymentType.FULL_TIME),
+    workMode: z.enum(WorkMode).default(WorkMode.ON_SITE),
+    joinDate: date,
+    baseSalary: positiveAmount,
+    telephoneAllowance: nonNegativeAmount.default(0),
+    housingAllowance: nonNegativeAmount.default(0),
+    transportationAllowance: nonNegativeAmount.default(0),
+    // Defaults to base salary plus allowances
+    totalSalary: positiveAmount.optional(),
+    dateOfBirth: clearableDate,
+    gender: optionalText,
+    address: optionalText,
+    city: optionalText,
+    state: optionalText,
+    zipCode: optionalText,
+    country: optionalText,
+  }),
+  response: modelWith('Employee', { invitationSent: z.boolean() }),
+};
+
+// Roles, account status and passwords have their own endpoints
+export const updateEmployeeSchema = {
+  params: idParams,
+  body: z.object({
+    firstName: requiredText.optional(),
+    lastName: requiredText.optional(),
+    email: email.optional(),
+    personalEmail: nullableText,
+    phone: nullableText,
+    departmentId: id.optional(),
+    designation: requiredText.optional(),
+    employmentType: z.enum(EmploymentType).optional(),
+    workMode: z.enum(WorkMode).optional(),
+    status: z.enum(EmployeeStatus).optional(),
+    joinDate: date.optional(),
+    dateOfBirth: clearableDate,
+    terminationDate: clearableDate,
+    terminationReason: nullableText,
+    managerId: nullableText,
+    baseSalary: positiveAmount.optional(),
+    telephoneAllowance: nonNegativeAmount.optional(),
+    housingAllowance: nonNegativeAmount.optional(),
+    transportationAllowance: nonNegativeAmount.optional(),
+    totalSalary: positiveAmount.optional(),
+    currency: requiredText.optional(),
+    gender: nullableText,
+    molId: nullableText,
+    address: nullableText,
+    city: nullableText,
+    state: nullableText,
+    zipCode: nullableText,
+    country: nullableText,
+  }),
+  response: model('Employee'),
+};
+
+export const patchEmployeeSchema = {
+  params: idParams,
+  body: z.object({
+    personalInfo: z
+      .object({
+        firstName: requiredText.optional(),
+        lastName: requiredText.optional(),
+        workEmail: email.optional(),
+        personalEmail: nullableText,
+        phone: nullableText,
+        dateOfBirth: clearableDate,
+        gender: nullableText,
+        molId: nullableText,
+        address: nullableText,
+        city: nullableText,
+        state: nullableText,
+        zipCode: nullableText,
+        country: nullableText,
+      })
+      .optional(),
+    employmentDetails: z
+      .object({
+        designation: requiredText.optional(),
+        employmentType: z.enum(EmploymentType).optional(),
+        workMode: z.enum(WorkMode).optional(),
+        joinDate: date.optional(),
+        // "6 months", "12" or "Permanent"
+        probationPeriod: nullableText,
+        contractDuration: nullableText,
+        status: z.enum(EmployeeStatus).optional(),
+        terminationDate: clearableDate,
+        terminationLastWorkingDay: clearableDate,
+        terminationReason: nullableText,
+        managerId: nullableText,
+      })
+      .refine(
+        (details) => details.status !== EmployeeStatus.TERMINATED || (!!details.terminationDate && !!details.terminationReason),
+        { message: 'Termination date and reason are required when setting status to TERMINATED', path: ['status'] }
+      )
+      .optional(),
+    paymentInfo: z
+      .object({
+        paymentMethod: optionalText,
+        bankName: optionalText,
+        accountHolderName: optionalText,
+        iban: optionalText,
+        routingNumber: optionalText,
+        baseSalary: positiveAmount.optional(),
+        telephoneAllowance: nonNegativeAmount.optional(),
+        housingAllowance: nonNegativeAmount.optional(),
+        transportationAllowance: nonNegativeAmount.optional(),
+        totalSalary: positiveAmount.optional(),
+        currency: requiredText.optional(),
+      })
+      .optional(),
+  }),
+  response: employeeProfile,
+};
+
+// ============================================
+// ACCESS MANAGEMENT
+// ============================================
+
+export const getEmployeesForManagementSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    userStatus: z.enum(EmployeeUserStatus).optional(),
+    role: z.enum(EmployeeRole).optional(),
+    search: optionalText,
+  }),
+  response: pagination.extend({
+    data: z.array(
+      employeeAccount.extend({
+        lastLogin: datetime.nullable(),
+        failedLoginAttempts: z.number(),
+        // Only while the lock lasts
+        lockedUntil: datetime.nullable(),
+      })
+    ),
+  }),
+};
+
+export const manageEmployeeRoleSchema = {
+  params: idParams,
+  body: z.object({
+    role: z.enum(EmployeeRole),
+  }),
+  response: employeeAccount,
+};
+
+const permission = z.enum(ALL_PERMISSIONS, { error: 'Unknown permission' });
+
+export const upsertPermissionOverrideSchema = {
+  params: idParams,
+  body: z.object({
+    permission,
+    effect: z.enum(PermissionEffect),
+    reason: optionalText,
+  }),
+  response: model('EmployeePermissionOverride'),
+};
+
+export const deletePermissionOverrideSchema = {
+  params: z.object({ id, permission }),
+  response: z.null(),
+};
+
+export const toggleEmployeeStatusSchema = {
+  params: idParams,
+  response: employeeAccount,
+};
+
+export const unlockEmployeeSchema = {
+  params: idParams,
+  response: z.object({ id: z.string(), email: z.string(), wasLocked: z.boolean() }),
+};
+
+export const getEmployeePermissionsSchema = {
+  params: idParams,
+  response: z.object({
+    employeeId: z.string(),
+    role: z.enum(EmployeeRole),
+    rolePermissions: z.array(permission),
+    overrides: modelList('EmployeePermissionOverride'),
+    // Role permissions with the overrides applied
+    permissions: z.array(permission),
+  }),
+};
+
+export const getPermissionCatalogueSchema = {
+  response: z.object({
+    permissions: z.array(z.object({ permission, description: z.string() })),
+    roles: z.record(z.string(), z.array(permission)),
+  }),
+};
+
+export const getMyPermissionsSchema = {
+  response: z.object({ role: z.enum(EmployeeRole), permissions: z.array(permission) }),
+};
@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { PayrollStatus } from '@prisma/client';
+import { employeeIdParams, id, idParams, optionalText, paginationQuery, queryObject, reasonBody } from './common';
+import { modelWith } from './responses';
+
+const datetime = z.iso.datetime();
+
+const lineItem = z.object({
+  id: z.string(),
+  type: z.string(),
+  description: z.string(),
+  date: datetime.nullable().optional(),
+  amount: z.number(),
+});
+
+// What the settlement is made of; stored with it as its breakdown
+const settlementCalculation = z.object({
+  employee: z.object({
+    id: z.string(),
+    employeeId: z.string(),
+    name: z.string(),
+    joinDate: datetime,
+    terminationReason: z.string().nullable(),
+  }),
+  lastWorkingDay: datetime,
+  basicSalary: z.number(),
+  gratuity: z.object({
+    eligible: z.boolean(),
+    serviceDays: z.number(),
+    unpaidLeaveDays: z.number(),
+    serviceYears: z.number(),
+    dailyBasicWage: z.number(),
+    // Days earned at 21 days a year, then at 30
+    firstFiveYearsDays: z.number(),
+    additionalYearsDays: z.number(),
+    gratuityDays: z.number(),
+    uncappedAmount: z.number(),
+    capAmount: z.number(),
+    isCapped: z.boolean(),
+    amount: z.number(),
+  }),
+  leaveEncashment: z.object({
+    year: z.number(),
+    entitlement: z.number(),
+    accruedDays: z.number(),
+    carriedOverDays: z.number(),
+    usedDays: z.number(),
+    unusedDays: z.number(),
+    amount: z.number(),
+  }),
+  lastMonth: z.object({
+    month: z.number(),
+    year: z.number(),
+    included: z.boolean(),
+    reason: z.string(),
+    amount: z.number(),
+    calendarDaysWorked: z.number(),
+    calendarDaysInMonth: z.number(),
+  }),
+  bonuses: z.array(lineItem),
+  reimbursements: z.array(lineItem),
+  deductions: z.array(lineItem),
+  unreturnedAssets: z.array(lineItem),
+  totals: z.object({
+    gratuity: z.number(),
+    leaveEncashment: z.number(),
+    lastMonthSalary: z.number(),
+    bonuses: z.number(),
+    reimbursements: z.number(),
+    deductions: z.number(),
+    assetDeductions: z.number(),
+    totalEarnings: z.number(),
+    totalDeductions: z.number(),
+    netAmount: z.number(),
+  }),
+  warnings: z.array(z.string()),
+});
+
+const settlement = modelWith('FinalSettlement', { breakdown: settlementCalculation });
+
+export const previewFinalSettlementSchema = {
+  params: employeeIdParams,
+  response: settlementCalculation,
+};
+
+// Recalculates the settlement when one already exists
+export const createFinalSettlementSchema = {
+  body: z.object({
+    employeeId: id,
+  }),
+  response: settlement,
+};
+
+export const getFinalSettlementsSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(PayrollStatus).optional(),
+    employeeId: id.optional(),
+  }),
+  response: z.array(settlement),
+};
+
+export const finalSettlementIdSchema = {
+  params: idParams,
+  response: settlement,
+};
+
+export const uploadSettlementToBankSchema = {
+  params: idParams,
+  body: z.object({
+    bankReference: optionalText,
+  }),
+  response: settlement,
+};
+
+export const approveSettlementBankPaymentSchema = {
+  params: idParams,
+  body: z.object({
+    paymentReference: optionalText,
+  }),
+  response: settlement,
+};
+
+export const rejectSettlementSchema = {
+  params: idParams,
+  body: reasonBody('rejectionReason'),
+  response: settlement,
+};
+
+export const putSettlementOnHoldSchema = {
+  params: idParams,
+  body: reasonBody('onHoldReason'),
+  response: settlement,
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { HolidayTypeEnum } from '@prisma/client';
+import { date, id, optionalText, paginationQuery, queryObject, requiredText } from './common';
+import { modelList, pagination } from './responses';
+
+// Holiday with its type flattened into type and typeName
+const listedHoliday = {
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  startDate: z.iso.datetime(),
+  endDate: z.iso.datetime(),
+  type: z.enum(HolidayTypeEnum),
+  typeName: z.string(),
+  duration: z.number(),
+};
+
+export const getHolidayTypesSchema = {
+  response: modelList('HolidayType'),
+};
+
+export const getHolidaysSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    type: z.enum(HolidayTypeEnum).optional(),
+    search: optionalText,
+    startDate: date.optional(),
+    endDate: date.optional(),
+  }),
+  response: pagination.extend({ data: z.array(z.object({ ...listedHoliday, createdAt: z.iso.datetime() })) }),
+};
+
+export const createHolidaySchema = {
+  body: z
+    .object({
+      name: requiredText,
+      description: optionalText,
+      startDate: date,
+      endDate: date,
+      holidayTypeId: id,
+    })
+    .refine((holiday) => holiday.endDate >= holiday.startDate, {
+      message: 'End date must not be before start date',
+      path: ['endDate'],
+    }),
+  response: z.object(listedHoliday),
+};
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { JobRunStatus } from '@prisma/client';
+import { id, page, pageSize, queryObject } from './common';
+import { model, modelList, pagination } from './responses';
+
+const jobNameParams = z.object({ name: id });
+
+export const getJobsSchema = {
+  response: z.array(
+    z.object({
+      name: z.string(),
+      description: z.string(),
+      // node-cron expression, server local time
+      schedule: z.string(),
+      // Parameters a manual run accepts, with their descriptions
+      parameters: z.record(z.string(), z.string()),
+      // Whether missed runs are caught up at startup
+      catchUp: z.boolean(),
+      lastRun: model('JobRun').nullable(),
+    })
+  ),
+};
+
+export const getJobRunsSchema = {
+  params: jobNameParams,
+  query: queryObject({
+    page,
+    pageSize: pageSize(20, 100),
+    status: z.enum(JobRunStatus).optional(),
+  }),
+  response: pagination.extend({ data: modelList('JobRun') }),
+};
+
+export const triggerJobSchema = {
+  params: jobNameParams,
+  // Parameter names are checked against the job definition
+  body: z.object({
+    parameters: z.record(z.string(), z.unknown()).optional(),
+  }),
+  response: model('JobRun'),
+};
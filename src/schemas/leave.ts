@@ -0,0 +1,450 @@
+import { z } from 'zod';
+import {
+  EmployeeUserStatus,
+  LeaveApprovalAction,
+  LeaveApprovalStep,
+  LeaveCancellationStatus,
+  LeaveStatus,
+  LeaveType,
+} from '@prisma/client';
+import {
+  date,
+  formObject,
+  id,
+  idParams,
+  nonNegativeAmount,
+  nullableText,
+  optionalText,
+  paginationQuery,
+  queryBoolean,
+  queryObject,
+  queryYear,
+  reasonBody,
+  requiredText,
+} from './common';
+import { model, modelList, noData, pagination } from './responses';
+
+/**
+ * Calendar day at UTC midnight. The date part of a YYYY-MM-DD or ISO string
+ * is taken as given, so the client's timezone cannot shift the day.
+ */
+const leaveDay = z
+  .preprocess((value) => (typeof value === 'string' ? (value.match(/^\d{4}-\d{2}-\d{2}/)?.[0] ?? value) : value), date)
+  .transform((value) => new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate())));
+
+const currentYear = queryYear.default(() => new Date().getFullYear());
+
+const datetime = z.iso.datetime();
+
+const approvalStep = z.enum(LeaveApprovalStep);
+
+// Leave request as the leave screens show it; totalDays is numberOfDays
+const leaveRequestSummary = {
+  id: z.string(),
+  employeeName: z.string(),
+  employeeId: z.string(),
+  leaveType: z.enum(LeaveType),
+  startDate: datetime,
+  endDate: datetime,
+  totalDays: z.number(),
+  status: z.enum(LeaveStatus),
+};
+
+// With the leave code used on timesheets and the reason as details
+const leaveRequestRow = {
+  ...leaveRequestSummary,
+  absenceCode: z.string(),
+  details: z.string(),
+  createdDate: datetime,
+  approvalSteps: z.array(approvalStep),
+  currentApprovalStep: approvalStep.nullable(),
+};
+
+const cancellationDetails = {
+  cancellationStatus: z.enum(LeaveCancellationStatus).nullable(),
+  cancellationFrom: datetime.nullable(),
+  cancellationReason: z.string().nullable(),
+  cancellationRequestedBy: z.string().nullable(),
+  cancellationRequestedAt: datetime.nullable(),
+  cancellationReviewedBy: z.string().nullable(),
+  cancellationReviewedAt: datetime.nullable(),
+  cancellationRejectionReason: z.string().nullable(),
+  cancelledDays: z.number().nullable(),
+  cancelledBy: z.string().nullable(),
+  cancelledAt: datetime.nullable(),
+};
+
+const leaveRequestWithCancellation = (shape: z.ZodRawShape = {}) =>
+  z.object({ ...leaveRequestSummary, ...shape, ...cancellationDetails });
+
+const leaveRequestDocument = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  fileType: z.string(),
+  url: z.string(),
+  uploadDate: datetime,
+});
+
+// Taken, allowed and remaining days of one kind of leave
+const usage = z.object({
+  remaining: z.number(),
+  used: z.number(),
+  total: z.number(),
+  display: z.string(),
+});
+
+// ============================================
+// LEAVE REQUESTS
+// ============================================
+
+export const getLeaveRequestsSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(LeaveStatus).optional(),
+    leaveType: z.enum(LeaveType).optional(),
+    employeeId: id.optional(),
+    search: optionalText,
+    cancellationStatus: z.enum(LeaveCancellationStatus).optional(),
+  }),
+  response: pagination.extend({
+    data: z.array(
+      z.object({
+        ...leaveRequestRow,
+        approvedBy: z.object({ id: z.string(), name: z.string() }).nullable(),
+        approvalDate: datetime.nullable(),
+        rejectionReason: z.string().nullable(),
+        ...cancellationDetails,
+        // Empty unless the caller may read the employee's documents
+        documents: modelList('LeaveRequestDocument'),
+      })
+    ),
+  }),
+};
+
+export const getLeaveRequestApprovalsSchema = {
+  params: idParams,
+  response: z.object({
+    id: z.string(),
+    status: z.enum(LeaveStatus),
+    approvalSteps: z.array(approvalStep),
+    currentApprovalStep: approvalStep.nullable(),
+    approvals: z.array(
+      z.object({
+        id: z.string(),
+        step: approvalStep,
+        action: z.enum(LeaveApprovalAction),
+        approvalDate: datetime,
+        comments: z.string().nullable(),
+        approver: z.object({ id: z.string(), name: z.string() }),
+      })
+    ),
+  }),
+};
+
+export const createLeaveRequestSchema = {
+  body: z.object({
+    leaveType: z.enum(LeaveType),
+    startDate: leaveDay,
+    // Defaults to the end date implied by the leave type
+    endDate: leaveDay.optional(),
+    isHalfDay: z.boolean().default(false),
+    // Only used when the caller may manage leave for others
+    employeeId: id.optional(),
+    reason: requiredText,
+    // EMERGENCY: unpaid | annual_leave | makeup_hours
+    compensationMethod: optionalText,
+    // BEREAVEMENT: relationship to the deceased
+    relationship: optionalText,
+    // TOIL: approved overtime requests being taken as leave
+    overtimeRequestIds: z.array(id).default([]),
+  }),
+  response: z.object({
+    ...leaveRequestRow,
+    // Balance of the leave type before and after this request, where it has one
+    balance: z
+      .object({ available: z.number(), used: z.number(), entitlement: z.number(), carriedOver: z.number().optional() })
+      .nullable(),
+    projectedBalance: z.number().nullable(),
+  }),
+};
+
+export const approveLeaveRequestSchema = {
+  params: idParams,
+  body: z.object({
+    approvalNotes: optionalText,
+  }),
+  response: z.object({
+    ...leaveRequestRow,
+    approvedBy: z.string().nullable(),
+    approvalDate: datetime.nullable(),
+    managerApprovedBy: z.string().nullable(),
+    managerApprovedAt: datetime.nullable(),
+    rejectionReason: z.null(),
+    approvalNotes: z.string().nullable(),
+  }),
+};
+
+export const rejectLeaveRequestSchema = {
+  params: idParams,
+  body: reasonBody('rejectionReason'),
+  response: z.object({
+    ...leaveRequestRow,
+    approvedBy: z.string().nullable(),
+    approvalDate: datetime.nullable(),
+    rejectionReason: z.string(),
+  }),
+};
+
+export const getPendingLeaveApprovalsSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    leaveType: z.enum(LeaveType).optional(),
+  }),
+  response: pagination.extend({
+    data: z.array(z.object({ ...leaveRequestRow, documents: modelList('LeaveRequestDocument') })),
+  }),
+};
+
+export const withdrawLeaveRequestSchema = {
+  params: idParams,
+  body: z.object({
+    reason: optionalText,
+  }),
+  response: leaveRequestWithCancellation(),
+};
+
+export const requestLeaveCancellationSchema = {
+  params: idParams,
+  body: formObject({
+    reason: requiredText,
+    // Defaults to the start date (full cancellation)
+    cancelFrom: leaveDay.optional(),
+  }),
+  response: leaveRequestWithCancellation({ isPartial: z.boolean() }),
+};
+
+export const approveLeaveCancellationSchema = {
+  params: idParams,
+  response: leaveRequestWithCancellation({ releasedToilHours: z.number() }),
+};
+
+export const rejectLeaveCancellationSchema = {
+  params: idParams,
+  body: reasonBody('rejectionReason'),
+  response: leaveRequestWithCancellation(),
+};
+
+// ============================================
+// DOCUMENTS
+// ============================================
+
+export const getLeaveRequestDocumentsSchema = {
+  params: idParams,
+  response: z.object({
+    leaveRequestId: z.string(),
+    documents: z.array(leaveRequestDocument),
+    total: z.number(),
+  }),
+};
+
+// Multipart upload of the file itself
+export const uploadLeaveRequestDocumentFileSchema = {
+  params: idParams,
+  response: leaveRequestDocument.extend({ leaveRequestId: z.string() }),
+};
+
+export const uploadLeaveRequestDocumentSchema = {
+  params: idParams,
+  body: z.object({
+    fileName: requiredText,
+    fileType: requiredText,
+    url: requiredText,
+  }),
+  response: leaveRequestDocument.extend({ leaveRequestId: z.string() }),
+};
+
+export const leaveRequestDocumentSchema = {
+  params: z.object({ id, documentId: id }),
+  response: noData,
+};
+
+// ============================================
+// BALANCES & SUMMARIES
+// ============================================
+
+export const getLeaveBalanceSchema = {
+  query: queryObject({
+    employeeId: id.optional(),
+    year: currentYear,
+  }),
+  response: z.object({
+    employeeId: z.string(),
+    year: z.number(),
+    annualLeave: z.object({ entitlement: z.number(), used: z.number(), carriedOver: z.number(), available: z.number() }),
+    sickLeave: z.object({
+      fullPay: z.number(),
+      halfPay: z.number(),
+      unpaid: z.number(),
+      used: z.number(),
+      total: z.number(),
+    }),
+    maternityLeave: z.object({ entitlement: z.number(), used: z.number(), available: z.number() }),
+    emergencyLeave: z.object({ entitlement: z.number(), used: z.number(), available: z.number() }),
+    wfh: z.object({
+      monthlyLimit: z.number(),
+      weeklyLimit: z.number(),
+      usedThisMonth: z.number(),
+      usedThisWeek: z.number(),
+      availableThisMonth: z.number(),
+      availableThisWeek: z.number(),
+    }),
+    toil: z.object({
+      hoursAvailable: z.number(),
+      hoursUsed: z.number(),
+      hoursRemaining: z.number(),
+      daysAvailable: z.number(),
+    }),
+  }),
+};
+
+export const getApprovedOvertimeRequestsSchema = {
+  query: queryObject({
+    employeeId: id.optional(),
+  }),
+  response: z.object({
+    // Approved requests not yet taken as TOIL
+    requests: z.array(
+      z.object({
+        id: z.string(),
+        requestedDate: datetime,
+        requestedHours: z.number(),
+        clientName: z.string(),
+        projectName: z.string(),
+        reason: z.string(),
+        canDoNextDay: z.boolean(),
+        urgencyReason: z.string().nullable(),
+        createdAt: datetime,
+      })
+    ),
+    totalHours: z.number(),
+    availableDays: z.number(),
+  }),
+};
+
+export const getLeaveSummarySchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(EmployeeUserStatus).optional(),
+    search: optionalText,
+    departmentId: id.optional(),
+    year: currentYear,
+  }),
+  response: pagination.extend({
+    data: z.array(
+      z.object({
+        employeeName: z.string(),
+        employeeId: z.string(),
+        status: z.enum(EmployeeUserStatus),
+        annualLeaveTaken: z.number(),
+        // Includes the days carried over
+        annualLeaveAllowance: z.number(),
+        annualLeaveRemaining: z.number(),
+        sickLeaveTaken: z.number(),
+        sickLeaveAllowance: z.number(),
+        sickLeaveRemaining: z.number(),
+        maternityLeaveTaken: z.number(),
+        maternityLeaveAllowance: z.number(),
+        maternityLeaveRemaining: z.number(),
+        emergencyLeaveTaken: z.number(),
+        emergencyLeaveAllowance: z.number(),
+        emergencyLeaveRemaining: z.number(),
+        toilLeaveTaken: z.number(),
+        toilLeaveAllowance: z.number(),
+        toilLeaveRemaining: z.number(),
+        wfhLeaveTaken: z.number(),
+        wfhLeaveAllowance: z.number(),
+        wfhLeaveRemaining: z.number(),
+        totalLeaveTaken: z.number(),
+        totalLeaveAllowance: z.number(),
+        totalLeaveRemaining: z.number(),
+        year: z.number(),
+      })
+    ),
+  }),
+};
+
+export const getYearlyManagementSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(EmployeeUserStatus).optional(),
+    search: optionalText,
+    year: currentYear,
+  }),
+  response: pagination.extend({
+    data: z.array(
+      z.object({
+        employeeName: z.string(),
+        employeeId: z.string(),
+        annualLeave: usage,
+        carriedOver: z.number(),
+        sickLeave: usage,
+        wfhDays: usage,
+        // Number of emergency and maternity leaves, or '-'
+        unpaid: z.union([z.number(), z.literal('-')]),
+        status: z.enum(EmployeeUserStatus),
+        year: z.number(),
+      })
+    ),
+  }),
+};
+
+// ============================================
+// APPROVAL POLICIES
+// ============================================
+
+const approvalSteps = z
+  .array(z.enum(LeaveApprovalStep))
+  .min(1, 'At least one approval step is required')
+  .refine((steps) => new Set(steps).size === steps.length, 'steps cannot contain the same step twice');
+
+export const getLeaveApprovalPoliciesSchema = {
+  query: queryObject({
+    leaveType: z.enum(LeaveType).optional(),
+    includeInactive: queryBoolean.default(false),
+  }),
+  response: z.object({
+    policies: modelList('LeaveApprovalPolicy'),
+    // Used for leave types without a policy
+    builtInDefaults: z.record(
+      z.enum(LeaveType),
+      z.array(z.object({ minDays: z.number(), steps: z.array(approvalStep) }))
+    ),
+    fallbackSteps: z.array(approvalStep),
+  }),
+};
+
+export const createLeaveApprovalPolicySchema = {
+  body: z.object({
+    leaveType: z.enum(LeaveType),
+    // Applies to requests longer than this many days
+    minDays: nonNegativeAmount.default(0),
+    steps: approvalSteps,
+    description: optionalText,
+  }),
+  response: model('LeaveApprovalPolicy'),
+};
+
+export const updateLeaveApprovalPolicySchema = {
+  params: idParams,
+  body: z.object({
+    steps: approvalSteps.optional(),
+    description: nullableText,
+    isActive: z.boolean().optional(),
+  }),
+  response: model('LeaveApprovalPolicy'),
+};
+
+export const leaveApprovalPolicyIdSchema = {
+  params: idParams,
+  response: noData,
+};
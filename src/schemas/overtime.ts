@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { OvertimeStatus } from '@prisma/client';
+import { date, idParams, optionalText, paginationQuery, positiveAmount, queryObject, reasonBody, requiredText } from './common';
+import { model, modelList, pagination } from './responses';
+
+export const createOvertimeRequestSchema = {
+  body: z
+    .object({
+      clientName: requiredText, // Unknown clients and projects are created
+      projectName: requiredText,
+      reason: requiredText,
+      canDoNextDay: z.boolean().default(false),
+      urgencyReason: optionalText,
+      requestedHours: positiveAmount,
+      requestedDate: date,
+    })
+    .refine((body) => body.canDoNextDay || !!body.urgencyReason, {
+      message: 'Required when canDoNextDay is false',
+      path: ['urgencyReason'],
+    }),
+  response: model('OvertimeRequest'),
+};
+
+export const getMyOvertimeRequestsSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(OvertimeStatus).optional(),
+  }),
+  response: z.object({ requests: modelList('OvertimeRequest'), pagination }),
+};
+
+export const getPendingOvertimeRequestsSchema = {
+  query: queryObject(paginationQuery),
+  response: z.object({ requests: modelList('OvertimeRequest'), pagination }),
+};
+
+export const overtimeRequestIdSchema = {
+  params: idParams,
+  response: model('OvertimeRequest'),
+};
+
+export const rejectOvertimeRequestSchema = {
+  params: idParams,
+  body: reasonBody('rejectionReason'),
+  response: model('OvertimeRequest'),
+};
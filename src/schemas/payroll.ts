@@ -0,0 +1,317 @@
+import { z } from 'zod';
+import { PayrollStatus, SalaryChangeStatus, SalaryChangeType } from '@prisma/client';
+import {
+  date,
+  employeeIdParams,
+  id,
+  idParams,
+  month,
+  nonNegativeAmount,
+  optionalText,
+  paginationQuery,
+  positiveAmount,
+  queryMonth,
+  queryObject,
+  queryYear,
+  reasonBody,
+  requiredText,
+  year,
+} from './common';
+import { file, model, modelList, modelWith, pagination } from './responses';
+
+const datetime = z.iso.datetime();
+
+// Bonus, overtime, reimbursement or deduction counted in a payroll
+const payrollItems = z.object({
+  total: z.number(),
+  items: z.array(z.object({ id: z.string(), type: z.string(), amount: z.number(), description: z.string() })),
+});
+
+const proration = z.object({
+  isProrated: z.boolean(),
+  reasons: z.array(z.string()),
+  summary: z.string(),
+  proratedTotalSalary: z.number(),
+  originalTotalSalary: z.number(),
+  prorataFactor: z.number(),
+  calendarDaysInMonth: z.number(),
+  calendarDaysWorked: z.number(),
+});
+
+const leavePayTierDays = z.object({ fullPayDays: z.number(), halfPayDays: z.number(), unpaidDays: z.number() });
+
+// How the salary of the month was worked out (MOHRE: prorated over calendar days)
+const payrollCalculation = z.object({
+  baseSalary: z.number(),
+  totalSalary: z.number(),
+  proratedBaseSalary: z.number(),
+  proratedTotalSalary: z.number(),
+  workingDaysInMonth: z.number(),
+  calendarDaysInMonth: z.number(),
+  calendarDaysWorked: z.number(),
+  daysWorked: z.number(),
+  unpaidLeaveDays: z.number(),
+  leavePayTiers: z.object({ sick: leavePayTierDays, maternity: leavePayTierDays }),
+  // Sick and maternity leave days of each pay tier with what they were paid
+  leavePayBreakdown: z.array(
+    z.object({
+      leaveType: z.enum(['SICK', 'MATERNITY']),
+      tier: z.enum(['FULL_PAY', 'HALF_PAY', 'UNPAID']),
+      days: z.number(),
+      // Share of the daily rate paid
+      payRate: z.number(),
+      dailyRate: z.number(),
+      paidAmount: z.number(),
+      deductedAmount: z.number(),
+    })
+  ),
+  reducedPayLeaveDays: z.number(),
+  prorataFactor: z.number(),
+  salaryPeriods: z.array(
+    z.object({
+      fromDate: datetime,
+      toDate: datetime,
+      baseSalary: z.number(),
+      totalSalary: z.number(),
+      calendarDays: z.number(),
+      workingDays: z.number(),
+    })
+  ),
+  calculationBreakdown: z.record(z.string(), z.boolean()),
+  proration: proration.nullable(),
+});
+
+// Payroll with its salary breakdown, the items behind its additions and
+// deductions, and how it was prorated
+const detailedPayroll = modelWith('Payroll', {
+  salaryBreakdown: z.object({
+    baseSalary: z.number(),
+    telephoneAllowance: z.number(),
+    housingAllowance: z.number(),
+    transportationAllowance: z.number(),
+    totalSalary: z.number(),
+  }),
+  additions: payrollItems,
+  deductions: payrollItems,
+  proratedTotalSalary: z.number(),
+  proratedBaseSalary: z.number(),
+  proration: proration.nullable(),
+  isProrated: z.boolean(),
+  prorationSummary: z.string().nullable(),
+  prorationReasons: z.array(z.string()),
+  calculationDetails: payrollCalculation.optional(),
+});
+
+// Salary changes list their pages as pages rather than totalPages
+const salaryChangePage = z.object({
+  salaryChanges: modelList('SalaryChange'),
+  pagination: z.object({ page: z.number(), pageSize: z.number(), total: z.number(), pages: z.number() }),
+});
+
+// Bank file without the SIF content, which is downloaded separately
+const bankFileSummary = z.object({
+  id: z.string(),
+  month: z.number(),
+  year: z.number(),
+  fileName: z.string(),
+  employerMolId: z.string(),
+  recordCount: z.number(),
+  totalAmount: z.number(),
+  currency: z.string(),
+  generatedBy: z.string().nullable(),
+  createdAt: datetime,
+});
+
+// ============================================
+// PAYROLL
+// ============================================
+
+export const getPayrollSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(PayrollStatus).optional(),
+    employeeId: id.optional(),
+    month: queryMonth.optional(),
+    year: queryYear.optional(),
+    search: optionalText,
+  }),
+  response: z.object({ payroll: z.array(detailedPayroll), pagination }),
+};
+
+export const payrollIdSchema = {
+  params: idParams,
+  response: detailedPayroll,
+};
+
+export const generatePayrollSchema = {
+  body: z.object({
+    month,
+    year,
+    employeeIds: z.array(id).optional(),
+    forceRegenerate: z.boolean().default(false),
+  }),
+  response: z.object({
+    created: modelList('Payroll'),
+    updated: modelList('Payroll'),
+    skipped: z.array(z.object({ employeeId: z.string(), reason: z.string() })),
+    summary: z.object({
+      totalCreated: z.number(),
+      totalUpdated: z.number(),
+      totalSkipped: z.number(),
+      month: z.number(),
+      year: z.number(),
+    }),
+  }),
+};
+
+export const approvePayrollSchema = {
+  params: idParams,
+  body: z.object({
+    approvalNotes: optionalText,
+  }),
+  response: model('Payroll'),
+};
+
+export const uploadToBankSchema = {
+  params: idParams,
+  body: z.object({
+    bankReference: optionalText,
+    uploadNotes: optionalText,
+  }),
+  response: model('Payroll'),
+};
+
+export const approveBankPaymentSchema = {
+  params: idParams,
+  body: z.object({
+    paymentReference: optionalText,
+    paymentNotes: optionalText,
+  }),
+  response: model('Payroll'),
+};
+
+export const rejectPayrollSchema = {
+  params: idParams,
+  body: reasonBody('rejectionReason'),
+  response: model('Payroll'),
+};
+
+export const putPayrollOnHoldSchema = {
+  params: idParams,
+  body: reasonBody('onHoldReason'),
+  response: model('Payroll'),
+};
+
+// ============================================
+// SALARY CHANGES
+// ============================================
+
+export const getSalaryChangesSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(SalaryChangeStatus).optional(),
+    employeeId: id.optional(),
+    search: optionalText,
+    month: queryMonth.optional(),
+    year: queryYear.optional(),
+  }),
+  response: salaryChangePage,
+};
+
+export const createSalaryChangeSchema = {
+  body: z.object({
+    employeeId: id,
+    newBaseSalary: positiveAmount,
+    newTelephoneAllowance: nonNegativeAmount.default(0),
+    newHousingAllowance: nonNegativeAmount.default(0),
+    newTransportationAllowance: nonNegativeAmount.default(0),
+    // Defaults to the sum of the new components
+    newTotalSalary: positiveAmount.optional(),
+    changeType: z.enum(SalaryChangeType),
+    reason: requiredText,
+    effectiveDate: date,
+  }),
+  response: model('SalaryChange'),
+};
+
+export const salaryChangeIdSchema = {
+  params: idParams,
+  response: model('SalaryChange'),
+};
+
+export const rejectSalaryChangeSchema = {
+  params: idParams,
+  body: reasonBody('rejectionReason'),
+  response: model('SalaryChange'),
+};
+
+export const getSalaryHistorySchema = {
+  params: employeeIdParams,
+  query: queryObject(paginationQuery),
+  response: salaryChangePage,
+};
+
+// ============================================
+// WPS BANK FILES & PAYSLIPS
+// ============================================
+
+const periodQuery = {
+  month: queryMonth,
+  year: queryYear,
+};
+
+export const previewBankFileSchema = {
+  query: queryObject(periodQuery),
+  response: z.object({
+    month: z.number(),
+    year: z.number(),
+    payrollCount: z.number(),
+    recordCount: z.number(),
+    totalAmount: z.number(),
+    currency: z.string(),
+    // Payrolls that cannot be exported as they are
+    errors: z.array(
+      z.object({
+        payrollId: z.string(),
+        employeeId: z.string(),
+        employeeName: z.string(),
+        field: z.enum(['molId', 'iban', 'routingNumber', 'bankDetails', 'netSalary']),
+        message: z.string(),
+      })
+    ),
+    // Missing employer settings
+    configErrors: z.array(z.string()),
+    canGenerate: z.boolean(),
+  }),
+};
+
+export const generateBankFileSchema = {
+  body: z.object({ month, year }),
+  response: bankFileSummary,
+};
+
+export const getBankFilesSchema = {
+  query: queryObject({
+    month: queryMonth.optional(),
+    year: queryYear.optional(),
+  }),
+  response: z.array(bankFileSummary),
+};
+
+export const bankFileIdSchema = {
+  params: idParams,
+  response: file('text/plain'),
+};
+
+export const downloadMonthlyPayslipsSchema = {
+  query: queryObject({
+    ...periodQuery,
+    status: z.enum(PayrollStatus).optional(),
+  }),
+  response: file('application/zip'),
+};
+
+export const payslipSchema = {
+  params: idParams,
+  response: file('application/pdf'),
+};
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { ReimbursementStatus } from '@prisma/client';
+import {
+  date,
+  id,
+  idParams,
+  nullableText,
+  optionalText,
+  paginationQuery,
+  positiveAmount,
+  queryBoolean,
+  queryMonth,
+  queryObject,
+  queryYear,
+  reasonBody,
+  requiredText,
+} from './common';
+import { model, modelList, noData } from './responses';
+
+// ============================================
+// REIMBURSEMENT TYPES
+// ============================================
+
+export const getReimbursementTypesSchema = {
+  query: queryObject({
+    includeInactive: queryBoolean.default(false),
+  }),
+  response: modelList('ReimbursementType'),
+};
+
+export const createReimbursementTypeSchema = {
+  body: z.object({
+    name: requiredText,
+    description: nullableText,
+  }),
+  response: model('ReimbursementType'),
+};
+
+export const updateReimbursementTypeSchema = {
+  params: idParams,
+  body: z.object({
+    name: requiredText.optional(),
+    description: nullableText,
+    isActive: z.boolean().optional(),
+  }),
+  response: model('ReimbursementType'),
+};
+
+export const reimbursementTypeIdSchema = {
+  params: idParams,
+  response: model('ReimbursementType'),
+};
+
+export const deleteReimbursementTypeSchema = {
+  params: idParams,
+  response: noData,
+};
+
+// ============================================
+// REIMBURSEMENT CLAIMS
+// ============================================
+
+export const submitReimbursementSchema = {
+  body: z.object({
+    // Only used when the caller may submit for other employees
+    employeeId: id.optional(),
+    amount: positiveAmount,
+    reimbursementTypeId: id,
+    description: requiredText,
+    receiptUrl: nullableText,
+    expenseDate: date,
+  }),
+  response: model('Reimbursement'),
+};
+
+export const getReimbursementsSchema = {
+  query: queryObject({
+    ...paginationQuery,
+    status: z.enum(ReimbursementStatus).optional(),
+    employeeId: id.optional(),
+    reimbursementTypeId: id.optional(),
+    startDate: date.optional(),
+    endDate: date.optional(),
+    month: queryMonth.optional(),
+    year: queryYear.optional(),
+  }),
+  response: z.object({
+    reimbursements: modelList('Reimbursement'),
+    // Claims list their pages as pages rather than totalPages
+    pagination: z.object({ page: z.number(), pageSize: z.number(), total: z.number(), pages: z.number() }),
+  }),
+};
+
+export const reimbursementIdSchema = {
+  params: idParams,
+  response: model('Reimbursement'),
+};
+
+export const uploadReimbursementToBankSchema = {
+  params: idParams,
+  body: z.object({
+    bankUploadReference: optionalText,
+  }),
+  response: model('Reimbursement'),
+};
+
+export const markReimbursementPaidSchema = {
+  params: idParams,
+  body: z.object({
+    paymentReference: optionalText,
+  }),
+  response: model('Reimbursement'),
+};
+
+export const putReimbursementOnHoldSchema = {
+  params: idParams,
+  body: reasonBody('onHoldReason'),
+  response: model('Reimbursement'),
+};
+
+export const rejectReimbursementSchema = {
+  params: idParams,
+  body: reasonBody('rejectionReason'),
+  response: model('Reimbursement'),
+};
@@ -0,0 +1,67 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * Response envelopes shared by every endpoint (see utils/errors for the error model)
+ */
+
+export const successResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.unknown().optional(),
+  message: z.string().optional(),
+});
+
+export const errorResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  code: z.string(),
+  details: z.unknown().optional(),
+  requestId: z.string().optional(),
+});
+
+export const validationErrorResponseSchema = errorResponseSchema.extend({
+  code: z.literal('VALIDATION_ERROR'),
+  details: z.array(
+    z.object({
+      // Location and path of the field, e.g. body.amount or query.month
+      field: z.string(),
+      message: z.string(),
+    })
+  ),
+});
+
+/**
+ * Response data
+ *
+ * The schemas of a route also carry `response`, the `data` of its success
+ * envelope, which only the OpenAPI document reads. Records are described by
+ * their Prisma model: the document lists every model once, with relations as
+ * optional properties that are present when the endpoint includes them.
+ */
+
+export const model = (name: Prisma.ModelName) => z.unknown().meta({ model: name });
+
+export const modelList = (name: Prisma.ModelName) => z.array(model(name));
+
+/**
+ * Record with fields the endpoint adds to it or formats differently
+ */
+export const modelWith = <T extends z.ZodRawShape>(name: Prisma.ModelName, shape: T) =>
+  z.object(shape).meta({ extendsModel: name });
+
+/**
+ * Success envelope without data, only a message
+ */
+export const noData = z.undefined();
+
+/**
+ * File sent as-is instead of a JSON envelope
+ */
+export const file = (contentType: string) => z.unknown().meta({ file: contentType });
+
+export const pagination = z.object({
+  page: z.number(),
+  pageSize: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+});
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { DocumentType } from '@prisma/client';
+import { id, queryObject } from './common';
+import { model } from './responses';
+
+// The file is sent as multipart form data in the field "file"
+const uploadedFile = z.object({ url: z.string() });
+
+export const uploadFileSchema = {
+  response: uploadedFile,
+};
+
+// With employeeId and documentType the file is also saved as an employee document
+export const uploadDocumentSchema = {
+  query: queryObject({
+    employeeId: id.optional(),
+    documentType: z.enum(DocumentType).optional(),
+  }),
+  response: uploadedFile.extend({ document: model('EmployeeDocument').optional() }),
+};
@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { id, idParams, nullableText, optionalText, queryBoolean, queryObject, requiredText } from './common';
+import { model, modelList, modelWith, noData } from './responses';
+
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be a time in HH:mm format');
+
+// Calendar day, stored at UTC midnight like attendance dates
+const day = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date in YYYY-MM-DD format')
+  .transform((value) => new Date(`${value}T00:00:00.000Z`));
+
+const weekendDays = z
+  .array(z.number().int().min(0, '0 = Sunday ... 6 = Saturday').max(6, '0 = Sunday ... 6 = Saturday'))
+  .max(6, 'At least one working day is required')
+  .refine((days) => new Set(days).size === days.length, 'weekendDays cannot contain the same day twice');
+
+// Rules a day is evaluated against; id is null for the built-in schedule
+export const workScheduleRules = z.object({
+  id: z.string().nullable(),
+  name: z.string(),
+  shiftStart: z.string(),
+  shiftEnd: z.string(),
+  requiredHours: z.number(),
+  breakMinutes: z.number(),
+  graceMinutes: z.number(),
+  weekendDays: z.array(z.number()),
+});
+
+const scheduleWithCount = modelWith('WorkSchedule', {
+  _count: z.object({ assignments: z.number() }),
+});
+
+const scheduleRules = {
+  shiftStart: time,
+  shiftEnd: time,
+  requiredHours: z.number().positive('Must be greater than 0').max(24, 'Cannot exceed 24 hours'),
+  breakMinutes: z.number().int().min(0, 'Must not be negative').max(480, 'Cannot exceed 8 hours'),
+  graceMinutes: z.number().int().min(0, 'Must not be negative').max(240, 'Cannot exceed 4 hours'),
+  weekendDays,
+};
+
+export const getWorkSchedulesSchema = {
+  query: queryObject({
+    includeInactive: queryBoolean.default(false),
+  }),
+  response: z.array(scheduleWithCount),
+};
+
+export const workScheduleIdSchema = {
+  params: idParams,
+  response: scheduleWithCount,
+};
+
+export const createWorkScheduleSchema = {
+  body: z.object({
+    name: requiredText,
+    description: optionalText,
+    ...scheduleRules,
+    requiredHours: scheduleRules.requiredHours.default(8),
+    breakMinutes: scheduleRules.breakMinutes.default(60),
+    graceMinutes: scheduleRules.graceMinutes.default(0),
+    isDefault: z.boolean().default(false),
+  }),
+  response: model('WorkSchedule'),
+};
+
+// Rule changes apply to every day the schedule is assigned, past ones included;
+// create a new schedule and assign it to change rules from a date
+export const updateWorkScheduleSchema = {
+  params: idParams,
+  body: z.object({
+    name: requiredText.optional(),
+    description: nullableText,
+    shiftStart: scheduleRules.shiftStart.optional(),
+    shiftEnd: scheduleRules.shiftEnd.optional(),
+    requiredHours: scheduleRules.requiredHours.optional(),
+    breakMinutes: scheduleRules.breakMinutes.optional(),
+    graceMinutes: scheduleRules.graceMinutes.optional(),
+    weekendDays: weekendDays.optional(),
+    isDefault: z.literal(true, { error: 'Make another schedule the default instead' }).optional(),
+    isActive: z.boolean().optional(),
+  }),
+  response: model('WorkSchedule'),
+};
+
+// Assignment history of an employee or department, newest first
+export const getWorkScheduleAssignmentsSchema = {
+  query: queryObject({
+    employeeId: id.optional(),
+    departmentId: id.optional(),
+    scheduleId: id.optional(),
+  }),
+  response: modelList('WorkScheduleAssignment'),
+};
+
+export const assignWorkScheduleSchema = {
+  body: z
+    .object({
+      scheduleId: id,
+      employeeId: id.optional(),
+      departmentId: id.optional(),
+      effectiveFrom: day,
+      effectiveTo: day.nullable().optional(),
+    })
+    .refine((body) => !!body.employeeId !== !!body.departmentId, {
+      message: 'Exactly one of employeeId and departmentId is required',
+      path: ['employeeId'],
+    })
+    .refine((body) => !body.effectiveTo || body.effectiveTo >= body.effectiveFrom, {
+      message: 'Must not be before effectiveFrom',
+      path: ['effectiveTo'],
+    }),
+  response: model('WorkScheduleAssignment'),
+};
+
+export const workScheduleAssignmentIdSchema = {
+  params: idParams,
+  response: noData,
+};
+
+// Schedule in effect for an employee on a day (defaults to the current user, today)
+export const getEffectiveWorkScheduleSchema = {
+  query: queryObject({
+    employeeId: id.optional(),
+    date: day.optional(),
+  }),
+  response: z.object({
+    employeeId: z.string(),
+    date: z.string(),
+    isWorkingDay: z.boolean(),
+    schedule: workScheduleRules,
+  }),
+};
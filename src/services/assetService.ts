@@ -1,5 +1,7 @@
 import { prisma } from '../index';
 import { generateAssetTag, generateQRCodeUrl, calculateDepreciatedValue } from '../utils/assetHelpers';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError } from '../utils/errors';
 
 /**
  * Map old condition values to new simplified ones
@@ -43,9 +45,10 @@ export interface CreateAssetData {
   createdBy?: string;
 }
 
-export interface UpdateAssetData extends Partial<CreateAssetData> {
+// null clears an optional field
+export type UpdateAssetData = { [K in keyof CreateAssetData]?: CreateAssetData[K] | null } & {
   updatedBy?: string;
-}
+};
 
 export interface AssignAssetData {
   employeeId: string;
@@ -76,7 +79,7 @@ export const createAsset = async (data: CreateAssetData, maxRetries: number = 3)
         });
 
         if (existingAsset) {
-          console.warn(`⚠️  Asset tag ${assetTag} already exists, generating new tag...`);
+          logger.warn(`Asset tag ${assetTag} already exists, generating new tag...`);
           // Generate a new tag if the provided/existing one is taken
           assetTag = await generateAssetTag();
           attempts++;
@@ -188,10 +191,10 @@ export const createAsset = async (data: CreateAssetData, maxRetries: number = 3)
     } catch (error: any) {
       // Handle unique constraint error on assetTag
       if (error?.code === 'P2002' && error?.meta?.target?.includes('assetTag')) {
-        console.warn(`⚠️  Asset tag conflict detected (attempt ${attempts + 1}/${maxRetries}), retrying with new tag...`);
+        logger.warn(`Asset tag conflict detected (attempt ${attempts + 1}/${maxRetries}), retrying with new tag...`);
         attempts++;
         if (attempts >= maxRetries) {
-          throw new Error(`Failed to create asset after ${maxRetries} attempts due to asset tag conflicts. Please try again.`);
+          throw new ConflictError(`Failed to create asset after ${maxRetries} attempts due to asset tag conflicts. Please try again.`);
         }
         // Continue to next iteration to retry with new tag
         continue;
@@ -203,7 +206,7 @@ export const createAsset = async (data: CreateAssetData, maxRetries: number = 3)
   }
   
   // This should never be reached, but TypeScript needs it
-  throw new Error('Failed to create asset: maximum retries exceeded');
+  throw new ConflictError('Failed to create asset: maximum retries exceeded');
 };
 
 /**
@@ -288,11 +291,11 @@ export const assignAsset = async (assetId: string, assignmentData: AssignAssetDa
   });
 
   if (!asset) {
-    throw new Error('Asset not found');
+    throw new NotFoundError('Asset not found');
   }
 
   if (asset.status === 'ASSIGNED' && asset.assignedToEmployeeId) {
-    throw new Error('Asset is already assigned to another employee');
+    throw new ConflictError('Asset is already assigned to another employee');
   }
 
   // Get employee to validate
@@ -301,7 +304,7 @@ export const assignAsset = async (assetId: string, assignmentData: AssignAssetDa
   });
 
   if (!employee) {
-    throw new Error('Employee not found');
+    throw new NotFoundError('Employee not found');
   }
 
   const previousEmployeeId = asset.assignedToEmployeeId;
@@ -357,11 +360,11 @@ export const unassignAsset = async (assetId: string, performedBy: string, notes?
   });
 
   if (!asset) {
-    throw new Error('Asset not found');
+    throw new NotFoundError('Asset not found');
   }
 
   if (!asset.assignedToEmployeeId) {
-    throw new Error('Asset is not currently assigned');
+    throw new ConflictError('Asset is not currently assigned');
   }
 
   const previousEmployeeId = asset.assignedToEmployeeId;
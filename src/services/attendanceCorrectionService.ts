@@ -0,0 +1,276 @@
+import { randomUUID } from 'crypto';
+import { AttendanceCorrection, AttendanceCorrectionSource, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { evaluateShift, getCurrentDubaiTime, getTodayDubai } from '../utils/attendanceHelper';
+import { classifyAttendanceDay } from './attendanceExceptionService';
+import { toMinutesOfDay } from './workScheduleService';
+
+/**
+ * Attendance Correction Service
+ *
+ * Check-in and check-out times are only ever changed through a correction:
+ * employees request one and their manager or HR approves it, HR edits apply
+ * one directly. Applying a correction stores the values it replaces and
+ * recomputes hoursWorked/overtime the way checkOut does, so a day's
+ * corrections are the history of its attendance record.
+ */
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+// A bulk edit recomputes every day it touches inside one transaction
+const BULK_EDIT_TIMEOUT_MS = 60 * 1000;
+
+export interface CorrectionInput {
+  employeeId: string;
+  date: string; // YYYY-MM-DD, Dubai calendar day
+  checkInTime?: string; // "HH:mm", Dubai time
+  checkOutTime?: string; // "HH:mm"; at or before the check-in it falls on the next day
+  reason: string;
+}
+
+// Attendance day as stored (UTC midnight)
+const toAttendanceDay = (date: string): Date => new Date(`${date}T00:00:00.000Z`);
+
+// "HH:mm" on a day as stored: Dubai wall-clock time with a Z suffix
+const toAttendanceTime = (day: Date, time: string): Date => new Date(day.getTime() + toMinutesOfDay(time) * 60 * 1000);
+
+/**
+ * Resolve the "HH:mm" times of a correction against the day's current record
+ */
+const resolveCorrectionTimes = async (input: CorrectionInput) => {
+  if (!input.checkInTime && !input.checkOutTime) {
+    throw new ValidationError('Provide a corrected check-in or check-out time');
+  }
+
+  const day = toAttendanceDay(input.date);
+  if (day > getTodayDubai()) {
+    throw new ValidationError('Attendance of future days cannot be corrected');
+  }
+
+  const existing = await prisma.attendance.findUnique({
+    where: { employeeId_date: { employeeId: input.employeeId, date: day } },
+    select: { checkInTime: true },
+  });
+
+  const checkInTime = input.checkInTime ? toAttendanceTime(day, input.checkInTime) : null;
+  const effectiveCheckIn = checkInTime ?? existing?.checkInTime ?? null;
+  if (!effectiveCheckIn) {
+    throw new ValidationError('The day has no check-in; provide a check-in time as well');
+  }
+
+  let checkOutTime = input.checkOutTime ? toAttendanceTime(day, input.checkOutTime) : null;
+  if (checkOutTime && checkOutTime <= effectiveCheckIn) {
+    // Shift ending after midnight
+    checkOutTime = new Date(checkOutTime.getTime() + 24 * ONE_HOUR_MS);
+  }
+  if (checkOutTime && checkOutTime > getCurrentDubaiTime()) {
+    throw new ValidationError('Check-out time cannot be in the future');
+  }
+
+  return { day, checkInTime, checkOutTime };
+};
+
+/**
+ * Apply a correction to its attendance record, creating the record if the day has none
+ */
+const applyCorrection = async (tx: Prisma.TransactionClient, correction: AttendanceCorrection, appliedBy: string) => {
+  const existing = await tx.attendance.findUnique({
+    where: { employeeId_date: { employeeId: correction.employeeId, date: correction.date } },
+  });
+
+  const checkInTime = correction.checkInTime ?? existing?.checkInTime ?? null;
+  const checkOutTime = correction.checkOutTime ?? existing?.checkOutTime ?? null;
+  if (!checkInTime) {
+    throw new ValidationError('The day has no check-in; the correction needs a check-in time');
+  }
+  if (checkOutTime && checkOutTime <= checkInTime) {
+    throw new ValidationError('Check-out time must be after the check-in time');
+  }
+
+  // Same calculation as checkOut: time between check-in and check-out, overtime against the schedule
+  const hoursWorked = checkOutTime ? (checkOutTime.getTime() - checkInTime.getTime()) / ONE_HOUR_MS : 0;
+  const overtime = checkOutTime ? (await evaluateShift(correction.employeeId, correction.date, hoursWorked)).overtime : 0;
+
+  const data = {
+    checkInTime,
+    checkOutTime,
+    hoursWorked: Math.round(hoursWorked * 100) / 100,
+    overtime: Math.round(overtime * 100) / 100,
+    ...(checkOutTime && { isOnBreak: false }),
+    needsRegularization: false,
+    updatedBy: appliedBy,
+  };
+
+  const attendance = existing
+    ? await tx.attendance.update({ where: { id: existing.id }, data })
+    : await tx.attendance.create({
+        data: { employeeId: correction.employeeId, date: correction.date, ...data, createdBy: appliedBy },
+      });
+
+  return tx.attendanceCorrection.update({
+    where: { id: correction.id },
+    data: {
+      attendanceId: attendance.id,
+      originalCheckInTime: existing?.checkInTime ?? null,
+      originalCheckOutTime: existing?.checkOutTime ?? null,
+      originalHoursWorked: existing?.hoursWorked ?? null,
+      originalOvertime: existing?.overtime ?? null,
+      appliedAt: new Date(),
+    },
+  });
+};
+
+/**
+ * Re-run the attendance classification of corrected past days for the employees concerned
+ */
+const reclassifyCorrectedDays = async (corrections: Pick<AttendanceCorrection, 'employeeId' | 'date'>[]) => {
+  const today = getTodayDubai();
+  const employeesByDay = new Map<number, Set<string>>();
+  corrections
+    .filter((correction) => correction.date < today)
+    .forEach((correction) => {
+      const key = correction.date.getTime();
+      employeesByDay.set(key, (employeesByDay.get(key) ?? new Set()).add(correction.employeeId));
+    });
+
+  for (const [time, employeeIds] of employeesByDay) {
+    try {
+      await classifyAttendanceDay(new Date(time), [...employeeIds]);
+    } catch (error) {
+      // The nightly job can be re-run for the day; the correction itself is saved
+      logger.error(`Error reclassifying attendance of ${new Date(time).toISOString().split('T')[0]}`, error);
+    }
+  }
+};
+
+/**
+ * Employee request to correct their own attendance day
+ */
+export const requestAttendanceCorrection = async (input: CorrectionInput, requestedBy: string) => {
+  const { day, checkInTime, checkOutTime } = await resolveCorrectionTimes(input);
+
+  const pending = await prisma.attendanceCorrection.findFirst({
+    where: { employeeId: input.employeeId, date: day, status: 'PENDING' },
+    select: { id: true },
+  });
+  if (pending) {
+    throw new ConflictError('A correction for this day is already pending; cancel it first', { correctionId: pending.id });
+  }
+
+  return prisma.attendanceCorrection.create({
+    data: {
+      employeeId: input.employeeId,
+      date: day,
+      source: 'EMPLOYEE_REQUEST',
+      checkInTime,
+      checkOutTime,
+      reason: input.reason,
+      requestedBy,
+    },
+  });
+};
+
+/**
+ * Move a pending correction to its review outcome. The status check is part of
+ * the update, so of two concurrent reviews only one claims the correction and
+ * the other fails as if the correction had already been reviewed.
+ */
+const claimPendingCorrection = async (
+  tx: Prisma.TransactionClient,
+  id: string,
+  data: Prisma.AttendanceCorrectionUpdateManyMutationInput
+) => {
+  const claimed = await tx.attendanceCorrection.updateMany({
+    where: { id, status: 'PENDING' },
+    data,
+  });
+
+  if (claimed.count === 0) {
+    const correction = await tx.attendanceCorrection.findUnique({ where: { id }, select: { status: true } });
+    if (!correction) {
+      throw new NotFoundError('Attendance correction not found');
+    }
+    throw new ValidationError(`Only pending corrections can be reviewed (this one is ${correction.status})`);
+  }
+
+  return tx.attendanceCorrection.findUniqueOrThrow({ where: { id } });
+};
+
+/**
+ * Approve a requested correction and apply it to the attendance record
+ */
+export const approveAttendanceCorrection = async (id: string, reviewedBy: string, reviewNote?: string) => {
+  const approved = await prisma.$transaction(async (tx) => {
+    const correction = await claimPendingCorrection(tx, id, {
+      status: 'APPROVED',
+      reviewedBy,
+      reviewedAt: new Date(),
+      reviewNote: reviewNote || null,
+    });
+    return applyCorrection(tx, correction, reviewedBy);
+  });
+
+  await reclassifyCorrectedDays([approved]);
+  return approved;
+};
+
+/**
+ * Reject a requested correction; the attendance record is left as it is
+ */
+export const rejectAttendanceCorrection = async (id: string, reviewedBy: string, reviewNote: string) =>
+  prisma.$transaction((tx) =>
+    claimPendingCorrection(tx, id, { status: 'REJECTED', reviewedBy, reviewedAt: new Date(), reviewNote })
+  );
+
+/**
+ * HR edit of one or more attendance days, applied at once. All entries are
+ * applied or none; the entries of a bulk edit share a batchId.
+ */
+export const editAttendance = async (
+  entries: Omit<CorrectionInput, 'reason'>[],
+  reason: string,
+  editedBy: string,
+  bulk = false
+) => {
+  const source: AttendanceCorrectionSource = bulk ? 'HR_BULK_EDIT' : 'HR_EDIT';
+  const batchId = bulk ? randomUUID() : null;
+
+  const employeeIds = [...new Set(entries.map((entry) => entry.employeeId))];
+  const found = await prisma.employee.findMany({ where: { id: { in: employeeIds } }, select: { id: true } });
+  const missing = employeeIds.filter((employeeId) => !found.some((employee) => employee.id === employeeId));
+  if (missing.length > 0) {
+    throw new NotFoundError(`Employee not found: ${missing.join(', ')}`);
+  }
+
+  const resolved = await Promise.all(
+    entries.map(async (entry) => ({ entry, ...(await resolveCorrectionTimes({ ...entry, reason })) }))
+  );
+
+  const applied = await prisma.$transaction(async (tx) => {
+    const results = [];
+    for (const { entry, day, checkInTime, checkOutTime } of resolved) {
+      const correction = await tx.attendanceCorrection.create({
+        data: {
+          employeeId: entry.employeeId,
+          date: day,
+          source,
+          status: 'APPROVED',
+          checkInTime,
+          checkOutTime,
+          reason,
+          batchId,
+          requestedBy: editedBy,
+          reviewedBy: editedBy,
+          reviewedAt: new Date(),
+        },
+      });
+      results.push(await applyCorrection(tx, correction, editedBy));
+    }
+    return results;
+  }, { timeout: BULK_EDIT_TIMEOUT_MS });
+
+  await reclassifyCorrectedDays(applied);
+  return { batchId, corrections: applied };
+};
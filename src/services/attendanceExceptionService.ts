@@ -0,0 +1,285 @@
+import { AttendanceDayType, AttendanceExceptionStatus } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { calculateAbsenceDeduction } from '../utils/payrollCalculator';
+import { getMinutesAfterShiftStart, getShiftHours, isLateForShift, isWorkingDay, loadWorkSchedules } from './workScheduleService';
+import { loadAttendancePolicies } from './attendancePolicyService';
+
+/**
+ * Attendance Exception Service
+ *
+ * Classifies each scheduled workday of every active employee whose
+ * attendance policy requires attendance as on time, late, early leave,
+ * absent, on leave, holiday or working from home. Late, early-leave and
+ * absent days are exceptions: the employee can justify them and their
+ * manager (or HR) excuses them or not. Absences left unexcused can be raised
+ * as draft (PENDING) deductions for Finance to approve.
+ *
+ * Days are calendar days at UTC midnight, the way attendance dates are stored.
+ */
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days an employee has to justify an absence before it can be raised as a deduction
+export const ABSENCE_JUSTIFICATION_DAYS = 3;
+
+export const ABSENCE_DEDUCTION_TYPE = 'Unexcused Absence';
+
+// Types the employee has to explain; the others are recorded without a status
+const EXCEPTION_TYPES: AttendanceDayType[] = ['LATE', 'EARLY_LEAVE', 'ABSENT'];
+
+export const isExceptionType = (type: AttendanceDayType): boolean => EXCEPTION_TYPES.includes(type);
+
+interface DayClassification {
+  type: AttendanceDayType;
+  minutes?: number;
+  leaveRequestId?: string;
+  holidayId?: string;
+}
+
+export interface ClassificationSummary {
+  date: string;
+  employeesClassified: number;
+  counts: Partial<Record<AttendanceDayType, number>>;
+}
+
+/**
+ * Classify one day of every active employee (or of the given ones) and store the result.
+ * Re-running a day updates the stored rows: justifications and reviews are
+ * kept, rows that no longer apply are removed unless a deduction was raised.
+ */
+export const classifyAttendanceDay = async (day: Date, onlyEmployeeIds?: string[]): Promise<ClassificationSummary> => {
+  const dayEnd = new Date(day.getTime() + ONE_DAY_MS - 1);
+
+  const employees = await prisma.employee.findMany({
+    where: {
+      ...(onlyEmployeeIds && { id: { in: onlyEmployeeIds } }),
+      userStatus: 'ACTIVE',
+      status: { not: 'TERMINATED' },
+      joinDate: { lte: dayEnd },
+    },
+    select: { id: true, departmentId: true },
+  });
+
+  const employeeIds = employees.map((employee) => employee.id);
+
+  const [resolveSchedule, attendanceRequired, holiday, leaves, attendance] = await Promise.all([
+    loadWorkSchedules(employees, day, day),
+    loadAttendancePolicies(employees, day, day),
+    prisma.holiday.findFirst({
+      where: { startDate: { lte: dayEnd }, endDate: { gte: day } },
+      select: { id: true },
+    }),
+    prisma.leaveRequest.findMany({
+      where: {
+        employeeId: { in: employeeIds },
+        status: 'APPROVED',
+        startDate: { lte: day },
+        endDate: { gte: day },
+      },
+      select: { id: true, employeeId: true, leaveType: true },
+    }),
+    prisma.attendance.findMany({
+      where: { employeeId: { in: employeeIds }, date: day },
+    }),
+  ]);
+
+  const leaveByEmployee = new Map(leaves.map((leave) => [leave.employeeId, leave]));
+  const attendanceByEmployee = new Map(attendance.map((record) => [record.employeeId, record]));
+
+  const counts: Partial<Record<AttendanceDayType, number>> = {};
+  let employeesClassified = 0;
+
+  for (const employee of employees) {
+    const schedule = resolveSchedule(employee, day);
+    const classifications: DayClassification[] = [];
+
+    if (!attendanceRequired(employee, day)) {
+      // Exempt from attendance: nothing to classify, but drop rows from before the policy was set
+    } else if (!isWorkingDay(schedule, day.getUTCDay())) {
+      // Rest day: nothing to classify, but drop rows left from an earlier schedule
+    } else if (holiday) {
+      classifications.push({ type: 'HOLIDAY', holidayId: holiday.id });
+    } else if (leaveByEmployee.has(employee.id)) {
+      const leave = leaveByEmployee.get(employee.id)!;
+      classifications.push({ type: leave.leaveType === 'WFH' ? 'WFH' : 'ON_LEAVE', leaveRequestId: leave.id });
+    } else {
+      const record = attendanceByEmployee.get(employee.id);
+
+      if (!record?.checkInTime) {
+        classifications.push({ type: 'ABSENT' });
+      } else {
+        // Check-in times are Dubai wall-clock stored as UTC
+        const checkInMinutes = record.checkInTime.getUTCHours() * 60 + record.checkInTime.getUTCMinutes();
+        if (isLateForShift(schedule, checkInMinutes)) {
+          classifications.push({ type: 'LATE', minutes: getMinutesAfterShiftStart(schedule, checkInMinutes) });
+        }
+        // hoursWorked is check-in to check-out, break included - the same threshold as checkOut
+        const shiftHours = getShiftHours(schedule);
+        if (record.checkOutTime && record.hoursWorked < shiftHours) {
+          classifications.push({
+            type: 'EARLY_LEAVE',
+            minutes: Math.round((shiftHours - record.hoursWorked) * 60),
+          });
+        }
+        if (classifications.length === 0) {
+          classifications.push({ type: 'ON_TIME' });
+        }
+      }
+    }
+
+    await prisma.attendanceException.deleteMany({
+      where: {
+        employeeId: employee.id,
+        date: day,
+        type: { notIn: classifications.map((classification) => classification.type) },
+        deductionId: null,
+      },
+    });
+
+    for (const { type, minutes, leaveRequestId, holidayId } of classifications) {
+      const details = {
+        minutes: minutes ?? null,
+        leaveRequestId: leaveRequestId ?? null,
+        holidayId: holidayId ?? null,
+      };
+      await prisma.attendanceException.upsert({
+        where: { employeeId_date_type: { employeeId: employee.id, date: day, type } },
+        create: {
+          employeeId: employee.id,
+          date: day,
+          type,
+          status: isExceptionType(type) ? 'OPEN' : null,
+          ...details,
+        },
+        update: details,
+      });
+      counts[type] = (counts[type] ?? 0) + 1;
+    }
+
+    if (classifications.length > 0) employeesClassified++;
+  }
+
+  return {
+    date: day.toISOString().split('T')[0],
+    employeesClassified,
+    counts,
+  };
+};
+
+/**
+ * Raise a draft (PENDING) deduction of one day's pay for each absence that was
+ * reviewed as unexcused, or left unjustified for ABSENCE_JUSTIFICATION_DAYS.
+ * Justified absences wait for the manager's decision; absences on days the
+ * employee has since been exempted from attendance are skipped.
+ */
+export const raiseAbsenceDeductions = async (today: Date): Promise<number> => {
+  const justificationDeadline = new Date(today.getTime() - ABSENCE_JUSTIFICATION_DAYS * ONE_DAY_MS);
+
+  const absences = await prisma.attendanceException.findMany({
+    where: {
+      type: 'ABSENT',
+      deductionId: null,
+      OR: [{ status: 'UNEXCUSED' }, { status: 'OPEN', date: { lte: justificationDeadline } }],
+    },
+    include: { employee: { select: { id: true, departmentId: true, totalSalary: true } } },
+    orderBy: { date: 'asc' },
+  });
+
+  if (absences.length === 0) return 0;
+
+  const attendanceRequired = await loadAttendancePolicies(
+    absences.map((absence) => absence.employee),
+    absences[0].date,
+    absences[absences.length - 1].date
+  );
+
+  const deductionType =
+    (await prisma.deductionType.findFirst({
+      where: { name: { equals: ABSENCE_DEDUCTION_TYPE, mode: 'insensitive' } },
+    })) ??
+    (await prisma.deductionType.create({
+      data: { name: ABSENCE_DEDUCTION_TYPE, description: 'Raised for absences that were not excused' },
+    }));
+
+  let raised = 0;
+  for (const absence of absences) {
+    if (!attendanceRequired(absence.employee, absence.date)) continue;
+
+    const amount = calculateAbsenceDeduction(absence.employee.totalSalary, 1);
+    if (amount <= 0) continue;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        const deduction = await tx.deduction.create({
+          data: {
+            employeeId: absence.employeeId,
+            deductionTypeId: deductionType.id,
+            amount,
+            reason: `Unexcused absence on ${absence.date.toISOString().split('T')[0]}`,
+            deductionDate: absence.date,
+            status: 'PENDING',
+          },
+        });
+        await tx.attendanceException.update({
+          where: { id: absence.id },
+          data: { deductionId: deduction.id },
+        });
+      });
+      raised++;
+    } catch (error) {
+      logger.error(`Error raising deduction for attendance exception ${absence.id}`, error);
+    }
+  }
+
+  return raised;
+};
+
+export interface ExceptionReview {
+  status: Extract<AttendanceExceptionStatus, 'EXCUSED' | 'UNEXCUSED'>;
+  note?: string;
+  reviewedBy: string;
+}
+
+/**
+ * Record a manager's decision on an exception. Excusing an absence withdraws
+ * its draft deduction; once Finance has acted on the deduction it has to be
+ * rejected there instead.
+ */
+export const reviewAttendanceException = async (id: string, review: ExceptionReview) => {
+  const exception = await prisma.attendanceException.findUnique({
+    where: { id },
+    include: { deduction: { select: { id: true, status: true } } },
+  });
+  if (!exception) {
+    throw new NotFoundError('Attendance exception not found');
+  }
+  if (!exception.status) {
+    throw new ValidationError(`${exception.type} days do not need a review`);
+  }
+
+  const withdrawDeduction = review.status === 'EXCUSED' && exception.deduction;
+  if (withdrawDeduction && exception.deduction!.status !== 'PENDING') {
+    throw new ConflictError('The deduction raised for this absence is already being processed; reject it in Deductions instead', {
+      deductionId: exception.deduction!.id,
+    });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    if (withdrawDeduction) {
+      await tx.deduction.delete({ where: { id: exception.deduction!.id } });
+    }
+
+    return tx.attendanceException.update({
+      where: { id },
+      data: {
+        status: review.status,
+        reviewNote: review.note || null,
+        reviewedBy: review.reviewedBy,
+        reviewedAt: new Date(),
+        ...(withdrawDeduction && { deductionId: null }),
+      },
+    });
+  });
+};
@@ -0,0 +1,165 @@
+import { AttendancePolicy } from '@prisma/client';
+import { prisma } from '../index';
+import { ConflictError } from '../utils/errors';
+import { ScheduledEmployee } from './workScheduleService';
+
+/**
+ * Attendance Policy Service
+ *
+ * Whether an employee has to record attendance on a given day comes from, in
+ * order: their own policy in effect that day, their department's, and
+ * otherwise it is required. Employees it is not required of are left out of
+ * attendance lists, absence detection and reports. Like schedule assignments,
+ * policies are never edited in place - a new one ends the previous one.
+ *
+ * Days are calendar days at UTC midnight, the way attendance dates are stored.
+ */
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AttendancePolicyResolver = (employee: ScheduledEmployee, day: Date) => boolean;
+
+const coversDay = (policy: AttendancePolicy, day: Date): boolean =>
+  policy.effectiveFrom.getTime() <= day.getTime() && (!policy.effectiveTo || policy.effectiveTo.getTime() >= day.getTime());
+
+// Latest policy in effect on the day
+const findInEffect = (policies: AttendancePolicy[] | undefined, day: Date) =>
+  policies
+    ?.filter((policy) => coversDay(policy, day))
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())[0];
+
+const groupBy = (policies: AttendancePolicy[], key: 'employeeId' | 'departmentId') => {
+  const groups = new Map<string, AttendancePolicy[]>();
+  policies.forEach((policy) => {
+    const value = policy[key];
+    if (!value) return;
+    groups.set(value, [...(groups.get(value) ?? []), policy]);
+  });
+  return groups;
+};
+
+/**
+ * Load the policies of several employees over a range of days in one query;
+ * the returned resolver tells whether one of them records attendance on one day
+ */
+export const loadAttendancePolicies = async (
+  employees: ScheduledEmployee[],
+  from: Date,
+  to: Date
+): Promise<AttendancePolicyResolver> => {
+  const employeeIds = [...new Set(employees.map((employee) => employee.id))];
+  const departmentIds = [...new Set(employees.map((employee) => employee.departmentId).filter((id): id is string => !!id))];
+
+  const policies = await prisma.attendancePolicy.findMany({
+    where: {
+      OR: [{ employeeId: { in: employeeIds } }, { departmentId: { in: departmentIds } }],
+      effectiveFrom: { lte: to },
+      AND: [{ OR: [{ effectiveTo: null }, { effectiveTo: { gte: from } }] }],
+    },
+  });
+
+  const byEmployee = groupBy(policies, 'employeeId');
+  const byDepartment = groupBy(policies, 'departmentId');
+
+  return (employee, day) =>
+    (findInEffect(byEmployee.get(employee.id), day) ??
+      (employee.departmentId ? findInEffect(byDepartment.get(employee.departmentId), day) : undefined))
+      ?.attendanceRequired ?? true;
+};
+
+/**
+ * Policy of one employee on one day: whether it requires attendance and where it comes from
+ */
+export const getEffectiveAttendancePolicy = async (employeeId: string, day: Date) => {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: { id: true, departmentId: true },
+  });
+
+  const policies = await prisma.attendancePolicy.findMany({
+    where: {
+      OR: [{ employeeId }, ...(employee?.departmentId ? [{ departmentId: employee.departmentId }] : [])],
+      effectiveFrom: { lte: day },
+      AND: [{ OR: [{ effectiveTo: null }, { effectiveTo: { gte: day } }] }],
+    },
+  });
+
+  const policy =
+    findInEffect(policies.filter((candidate) => candidate.employeeId === employeeId), day) ??
+    findInEffect(policies.filter((candidate) => !!candidate.departmentId), day);
+
+  return {
+    attendanceRequired: policy?.attendanceRequired ?? true,
+    source: policy ? (policy.employeeId ? 'EMPLOYEE' : 'DEPARTMENT') : 'DEFAULT',
+    policy: policy ?? null,
+  };
+};
+
+export interface AttendancePolicyInput {
+  employeeId?: string;
+  departmentId?: string;
+  attendanceRequired: boolean;
+  reason?: string;
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+  createdBy: string;
+}
+
+/**
+ * Set the policy of an employee or department. The target's policy in effect
+ * on effectiveFrom is ended the day before; policies starting on or after
+ * effectiveFrom are left to take over again where they start.
+ */
+export const setAttendancePolicy = async (input: AttendancePolicyInput) => {
+  const target = input.employeeId ? { employeeId: input.employeeId } : { departmentId: input.departmentId };
+
+  return prisma.$transaction(async (tx) => {
+    const sameDay = await tx.attendancePolicy.findFirst({
+      where: { ...target, effectiveFrom: input.effectiveFrom },
+    });
+    if (sameDay) {
+      throw new ConflictError('A policy already starts on this date; remove it first', { policyId: sameDay.id });
+    }
+
+    await tx.attendancePolicy.updateMany({
+      where: {
+        ...target,
+        effectiveFrom: { lt: input.effectiveFrom },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gte: input.effectiveFrom } }],
+      },
+      data: { effectiveTo: new Date(input.effectiveFrom.getTime() - ONE_DAY_MS) },
+    });
+
+    return tx.attendancePolicy.create({
+      data: {
+        ...target,
+        attendanceRequired: input.attendanceRequired,
+        reason: input.reason || null,
+        effectiveFrom: input.effectiveFrom,
+        effectiveTo: input.effectiveTo ?? null,
+        createdBy: input.createdBy,
+      },
+    });
+  });
+};
+
+/**
+ * Remove a policy (one that has not started yet). The policy it ended - the
+ * one running until the day before it - is reopened up to the target's next
+ * policy, or open-ended, so no gap falls back to the default.
+ */
+export const removeAttendancePolicy = async (policy: AttendancePolicy) =>
+  prisma.$transaction(async (tx) => {
+    const target = policy.employeeId ? { employeeId: policy.employeeId } : { departmentId: policy.departmentId };
+
+    await tx.attendancePolicy.delete({ where: { id: policy.id } });
+
+    const next = await tx.attendancePolicy.findFirst({
+      where: { ...target, effectiveFrom: { gt: policy.effectiveFrom } },
+      orderBy: { effectiveFrom: 'asc' },
+    });
+    await tx.attendancePolicy.updateMany({
+      where: { ...target, effectiveTo: new Date(policy.effectiveFrom.getTime() - ONE_DAY_MS) },
+      data: { effectiveTo: next ? new Date(next.effectiveFrom.getTime() - ONE_DAY_MS) : null },
+    });
+  });
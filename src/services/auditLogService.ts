@@ -0,0 +1,66 @@
+import { AuditAction, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+
+/**
+ * Audit Log Service
+ *
+ * Read side of the audit log; entries are written by the audit Prisma
+ * extension (utils/auditLogExtension) on every create/update/delete.
+ */
+
+export interface AuditLogFilters {
+  page: number;
+  pageSize: number;
+  entity?: string;
+  entityId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Audit entries matching the filters, newest first, with the acting employee
+ */
+export const getAuditLogs = async (filters: AuditLogFilters) => {
+  const where: Prisma.AuditLogWhereInput = {};
+  if (filters.entity) where.entity = filters.entity;
+  if (filters.entityId) where.entityId = filters.entityId;
+  if (filters.actorId) where.actorId = filters.actorId;
+  if (filters.action) where.action = filters.action;
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from && { gte: filters.from }),
+      ...(filters.to && { lte: filters.to }),
+    };
+  }
+
+  const [entries, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (filters.page - 1) * filters.pageSize,
+      take: filters.pageSize,
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  // No relation on actorId, so entries outlive the employees who made them
+  const actorIds = [...new Set(entries.map((entry) => entry.actorId).filter((id): id is string => !!id))];
+  const actors = await prisma.employee.findMany({
+    where: { id: { in: actorIds } },
+    select: { id: true, employeeId: true, firstName: true, lastName: true },
+  });
+  const actorsById = new Map(actors.map((actor) => [actor.id, actor]));
+
+  return {
+    entries: entries.map((entry) => ({
+      ...entry,
+      actor: entry.actorId ? actorsById.get(entry.actorId) ?? null : null,
+    })),
+    total,
+    page: filters.page,
+    pageSize: filters.pageSize,
+    totalPages: Math.ceil(total / filters.pageSize),
+  };
+};
@@ -0,0 +1,158 @@
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import {
+  calculateCurrentOvertimeHoursWorked,
+  calculateMaxAllowedHours,
+  evaluateShift,
+  getApprovedOvertimeHours,
+  getCurrentDubaiTime,
+  getTodayDubai,
+  shouldAutoCheckout,
+} from '../utils/attendanceHelper';
+import { getIO } from '../websocket/attendanceSocket';
+import { getShiftEnd, isWorkingDay, loadWorkSchedules } from './workScheduleService';
+
+/**
+ * Auto-Checkout Service
+ *
+ * Closes sessions employees forgot to end. A regular session is expected to
+ * end at the shift end, or later when the shift hours plus approved overtime
+ * counted from check-in run past it; it is closed once that expected end plus
+ * the cap has passed and is recorded as ending then. An overtime session once the approved overtime plus the cap has
+ * been worked, recorded as ending when the approved hours ran out. A break
+ * still running ends with its session. Closed records are flagged and queued
+ * for regularization until a correction is applied, and the employee is
+ * notified over the socket.
+ */
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+// Hours an open session may run past its expected end before it is closed
+export const DEFAULT_AUTO_CHECKOUT_CAP_HOURS = 2;
+
+export const getAutoCheckoutCapHours = (): number => {
+  const configured = process.env.ATTENDANCE_AUTO_CHECKOUT_CAP_HOURS ? Number(process.env.ATTENDANCE_AUTO_CHECKOUT_CAP_HOURS) : NaN;
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_AUTO_CHECKOUT_CAP_HOURS;
+};
+
+type ClosedSession = 'REGULAR' | 'OVERTIME' | 'BREAK';
+
+export interface AutoCheckoutSummary {
+  capHours: number;
+  recordsClosed: number;
+  regularSessions: number;
+  overtimeSessions: number;
+  breaks: number;
+}
+
+/**
+ * Close every open regular, overtime and break session whose cap has passed
+ */
+export const closeOpenSessions = async (capHours: number): Promise<AutoCheckoutSummary> => {
+  const now = getCurrentDubaiTime();
+  const capMs = capHours * ONE_HOUR_MS;
+
+  const openRecords = await prisma.attendance.findMany({
+    where: {
+      date: { lte: getTodayDubai() },
+      OR: [
+        { checkInTime: { not: null }, checkOutTime: null },
+        { overtimeCheckInTime: { not: null }, overtimeCheckOutTime: null },
+        { isOnBreak: true },
+      ],
+    },
+    include: { employee: { select: { id: true, departmentId: true } } },
+    orderBy: { date: 'asc' },
+  });
+
+  const summary: AutoCheckoutSummary = { capHours, recordsClosed: 0, regularSessions: 0, overtimeSessions: 0, breaks: 0 };
+  if (openRecords.length === 0) return summary;
+
+  const resolveSchedule = await loadWorkSchedules(
+    openRecords.map((record) => record.employee),
+    openRecords[0].date,
+    openRecords[openRecords.length - 1].date
+  );
+
+  for (const record of openRecords) {
+    try {
+      const closed: ClosedSession[] = [];
+      const data: Record<string, any> = {};
+      let sessionEnd = record.checkOutTime;
+
+      if (record.checkInTime && !record.checkOutTime) {
+        const schedule = resolveSchedule(record.employee, record.date);
+        // Shift hours plus approved overtime from check-in; on rest days only the approved overtime
+        const maxAllowedEnd = new Date(
+          record.checkInTime.getTime() + (await calculateMaxAllowedHours(record.employeeId, record.date)) * ONE_HOUR_MS
+        );
+        const shiftEnd = isWorkingDay(schedule, record.date.getUTCDay()) ? getShiftEnd(schedule, record.date) : null;
+        const expectedEnd = shiftEnd && shiftEnd > maxAllowedEnd ? shiftEnd : maxAllowedEnd;
+
+        if (now.getTime() >= expectedEnd.getTime() + capMs) {
+          const checkOutTime = expectedEnd > record.checkInTime ? expectedEnd : record.checkInTime;
+          const hoursWorked = (checkOutTime.getTime() - record.checkInTime.getTime()) / ONE_HOUR_MS;
+          const { overtime } = await evaluateShift(record.employeeId, record.date, hoursWorked);
+
+          data.checkOutTime = checkOutTime;
+          data.hoursWorked = Math.round(hoursWorked * 100) / 100;
+          data.overtime = Math.round(overtime * 100) / 100;
+          sessionEnd = checkOutTime;
+          closed.push('REGULAR');
+        }
+      }
+
+      if (record.overtimeCheckInTime && !record.overtimeCheckOutTime) {
+        const approvedOvertimeHours = await getApprovedOvertimeHours(record.employeeId, record.date);
+        const overtimeHoursWorked = calculateCurrentOvertimeHoursWorked(record.overtimeCheckInTime);
+
+        if (shouldAutoCheckout(overtimeHoursWorked, approvedOvertimeHours + capHours)) {
+          data.overtimeCheckOutTime = new Date(record.overtimeCheckInTime.getTime() + approvedOvertimeHours * ONE_HOUR_MS);
+          closed.push('OVERTIME');
+        }
+      }
+
+      // A break ends with the session it was taken in
+      if (record.isOnBreak && sessionEnd) {
+        const breakStart = record.breakStartTime ?? sessionEnd;
+        const breakEnd = sessionEnd > breakStart ? sessionEnd : breakStart;
+        data.breakEndTime = breakEnd;
+        data.totalBreakMinutes = (record.totalBreakMinutes || 0) + (breakEnd.getTime() - breakStart.getTime()) / (60 * 1000);
+        data.isOnBreak = false;
+        closed.push('BREAK');
+      }
+
+      if (closed.length === 0) continue;
+
+      const attendance = await prisma.attendance.update({
+        where: { id: record.id },
+        data: {
+          ...data,
+          autoClosedAt: new Date(),
+          needsRegularization: true,
+        },
+      });
+
+      summary.recordsClosed++;
+      if (closed.includes('REGULAR')) summary.regularSessions++;
+      if (closed.includes('OVERTIME')) summary.overtimeSessions++;
+      if (closed.includes('BREAK')) summary.breaks++;
+
+      const io = getIO();
+      if (io) {
+        io.to(`user:${record.employeeId}`).emit('attendance-auto-checkout', {
+          attendanceId: attendance.id,
+          date: attendance.date.toISOString().split('T')[0],
+          closedSessions: closed,
+          checkOutTime: attendance.checkOutTime,
+          overtimeCheckOutTime: attendance.overtimeCheckOutTime,
+          message: 'Your attendance session was closed automatically. Request a correction if the recorded times are wrong.',
+        });
+      }
+    } catch (error) {
+      logger.error(`Error auto-closing attendance ${record.id}`, error);
+    }
+  }
+
+  return summary;
+};
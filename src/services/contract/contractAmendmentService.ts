@@ -1,4 +1,5 @@
 import { prisma } from '../../index';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
 import * as contractService from './contractService';
 
 /**
@@ -38,10 +39,29 @@ export const createAmendment = async (data: {
   });
 };
 
+/**
+ * Only pending amendments can be approved or rejected
+ */
+const ensurePendingAmendment = async (amendmentId: string) => {
+  const amendment = await prisma.contractAmendment.findUnique({
+    where: { id: amendmentId },
+  });
+  
+  if (!amendment) {
+    throw new NotFoundError('Amendment not found');
+  }
+  
+  if (amendment.status !== 'PENDING') {
+    throw new ConflictError(`Amendment is already ${amendment.status.toLowerCase()}`);
+  }
+};
+
 /**
  * Approve an amendment
  */
 export const approveAmendment = async (amendmentId: string, approvedBy: string) => {
+  await ensurePendingAmendment(amendmentId);
+  
   return await prisma.contractAmendment.update({
     where: { id: amendmentId },
     data: {
@@ -66,6 +86,8 @@ export const rejectAmendment = async (amendmentId: string, data: {
   approvedBy: string;
   rejectionReason?: string;
 }) => {
+  await ensurePendingAmendment(amendmentId);
+  
   return await prisma.contractAmendment.update({
     where: { id: amendmentId },
     data: {
@@ -94,11 +116,11 @@ export const applyAmendment = async (amendmentId: string) => {
   });
   
   if (!amendment) {
-    throw new Error('Amendment not found');
+    throw new NotFoundError('Amendment not found');
   }
   
   if (amendment.status !== 'APPROVED') {
-    throw new Error('Amendment must be approved before applying');
+    throw new ValidationError('Amendment must be approved before applying');
   }
   
   const newValue = amendment.newValue ? JSON.parse(amendment.newValue) : {};
@@ -119,10 +141,17 @@ export const applyAmendment = async (amendmentId: string) => {
       if (newValue.workingHours !== undefined) updateData.workingHours = newValue.workingHours;
       break;
     case 'ALLOWANCE_CHANGE':
-      if (newValue.allowances) updateData.allowances = JSON.stringify(newValue.allowances);
+      // updateContract serializes allowances itself
+      if (newValue.allowances) updateData.allowances = newValue.allowances;
       break;
     case 'POSITION_CHANGE':
-      // Position changes are handled in Employee model, not Contract
+      // Position lives on the Employee model, not Contract
+      if (newValue.designation) {
+        await prisma.employee.update({
+          where: { id: amendment.contract.employeeId },
+          data: { designation: newValue.designation },
+        });
+      }
       break;
   }
   
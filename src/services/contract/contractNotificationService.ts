@@ -1,5 +1,8 @@
 import { prisma } from '../../index';
 import { getExpiringContracts } from './contractService';
+import { getHRManagementEmails, sendEmail } from '../emailService';
+import { generateContractExpiryReminderEmailBody } from '../../utils/emailTemplates';
+import { logger } from '../../utils/logger';
 
 /**
  * Send renewal reminders for contracts expiring soon
@@ -22,7 +25,10 @@ export const sendRenewalReminders = async (days: number = 30) => {
 };
 
 /**
- * Check and send reminders based on contract renewalReminderDays
+ * Check and send reminders based on contract renewalReminderDays.
+ * Each contract term gets one reminder: a ContractReminder row keyed by
+ * (contractId, endDate) is claimed before sending, so reruns and parallel
+ * instances never email twice. A renewal changes endDate and re-arms the reminder.
  */
 export const checkAndSendReminders = async () => {
   const today = new Date();
@@ -37,12 +43,19 @@ export const checkAndSendReminders = async () => {
           email: true,
           firstName: true,
           lastName: true,
+          employeeId: true,
+          manager: {
+            select: {
+              email: true,
+            },
+          },
         },
       },
     },
   });
   
   const reminders = [];
+  let hrManagementEmails: string[] | null = null;
   
   for (const contract of contracts) {
     if (!contract.endDate) continue;
@@ -52,27 +65,70 @@ export const checkAndSendReminders = async () => {
     );
     
     // Check if we need to send a reminder based on renewalReminderDays
-    if (daysUntilExpiry <= contract.renewalReminderDays && daysUntilExpiry > 0) {
-      reminders.push({
-        contractId: contract.id,
-        contractNumber: contract.contractNumber,
-        employeeName: `${contract.employee.firstName} ${contract.employee.lastName}`,
-        employeeEmail: contract.employee.email,
-        endDate: contract.endDate,
-        daysUntilExpiry,
+    if (daysUntilExpiry > contract.renewalReminderDays || daysUntilExpiry <= 0) continue;
+    
+    if (hrManagementEmails === null) {
+      hrManagementEmails = await getHRManagementEmails(prisma);
+    }
+    const recipients = Array.from(
+      new Set([...hrManagementEmails, contract.employee.manager?.email].filter((email): email is string => !!email))
+    );
+    
+    if (recipients.length === 0) {
+      logger.warn(`No recipients for contract reminder ${contract.contractNumber}`);
+      continue;
+    }
+    
+    // Claim the reminder first - the unique constraint rejects a second claim
+    let reminderId: string;
+    try {
+      const claimed = await prisma.contractReminder.create({
+        data: {
+          contractId: contract.id,
+          endDate: contract.endDate,
+          daysUntilExpiry,
+          recipients: recipients.join(','),
+        },
       });
+      reminderId = claimed.id;
+    } catch (error: any) {
+      if (error.code === 'P2002') continue;
+      throw error;
+    }
+    
+    const employeeName = `${contract.employee.firstName} ${contract.employee.lastName}`;
+    const emailHtml = generateContractExpiryReminderEmailBody({
+      employeeName,
+      employeeId: contract.employee.employeeId,
+      contractNumber: contract.contractNumber,
+      contractType: contract.contractType,
+      endDate: contract.endDate,
+      daysUntilExpiry,
+      autoRenewal: contract.autoRenewal,
+    });
+    
+    const sent = await sendEmail(
+      recipients,
+      `Contract Expiring in ${daysUntilExpiry} ${daysUntilExpiry === 1 ? 'Day' : 'Days'} - ${employeeName}`,
+      emailHtml
+    );
+    
+    if (!sent) {
+      // Release the claim so the next run retries
+      await prisma.contractReminder.delete({ where: { id: reminderId } });
+      continue;
     }
+    
+    reminders.push({
+      contractId: contract.id,
+      contractNumber: contract.contractNumber,
+      employeeName,
+      employeeEmail: contract.employee.email,
+      endDate: contract.endDate,
+      daysUntilExpiry,
+      recipients,
+    });
   }
   
   return reminders;
 };
-
-
-
-
-
-
-
-
-
-
@@ -1,4 +1,5 @@
 import { prisma } from '../../index';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
 import * as contractService from './contractService';
 
 /**
@@ -19,7 +20,22 @@ export const initiateRenewal = async (data: {
   });
   
   if (!contract) {
-    throw new Error('Contract not found');
+    throw new NotFoundError('Contract not found');
+  }
+  
+  if (contract.status === 'TERMINATED' || contract.status === 'CANCELLED') {
+    throw new ValidationError(`Cannot renew a ${contract.status.toLowerCase()} contract`);
+  }
+  
+  const openRenewal = await prisma.contractRenewal.findFirst({
+    where: {
+      contractId: data.contractId,
+      status: { in: ['PENDING', 'APPROVED'] },
+    },
+  });
+  
+  if (openRenewal) {
+    throw new ConflictError('Contract already has a renewal in progress');
   }
   
   return await prisma.contractRenewal.create({
@@ -56,7 +72,11 @@ export const approveRenewal = async (renewalId: string, approvedBy: string) => {
   });
   
   if (!renewal) {
-    throw new Error('Renewal not found');
+    throw new NotFoundError('Renewal not found');
+  }
+  
+  if (renewal.status !== 'PENDING') {
+    throw new ConflictError(`Renewal is already ${renewal.status.toLowerCase()}`);
   }
   
   return await prisma.contractRenewal.update({
@@ -83,6 +103,18 @@ export const rejectRenewal = async (renewalId: string, data: {
   approvedBy: string;
   rejectionReason: string;
 }) => {
+  const renewal = await prisma.contractRenewal.findUnique({
+    where: { id: renewalId },
+  });
+  
+  if (!renewal) {
+    throw new NotFoundError('Renewal not found');
+  }
+  
+  if (renewal.status !== 'PENDING') {
+    throw new ConflictError(`Renewal is already ${renewal.status.toLowerCase()}`);
+  }
+  
   return await prisma.contractRenewal.update({
     where: { id: renewalId },
     data: {
@@ -102,74 +134,47 @@ export const rejectRenewal = async (renewalId: string, data: {
 };
 
 /**
- * Process a renewal - creates new contract or extends existing
+ * Process a renewal - applies the approved terms to the employee's contract.
+ * Contract.employeeId is unique, so the existing contract is renewed in place
+ * and the renewal row keeps the previous terms as history.
  */
 export const processRenewal = async (renewalId: string) => {
   const renewal = await prisma.contractRenewal.findUnique({
     where: { id: renewalId },
-    include: { contract: { include: { employee: true } } },
+    include: { contract: true },
   });
   
   if (!renewal) {
-    throw new Error('Renewal not found');
+    throw new NotFoundError('Renewal not found');
   }
   
   if (renewal.status !== 'APPROVED') {
-    throw new Error('Renewal must be approved before processing');
+    throw new ValidationError('Renewal must be approved before processing');
   }
   
   const contract = renewal.contract;
+  const changes = renewal.changes ? JSON.parse(renewal.changes) : {};
   
-  if (renewal.renewalType === 'EXTENSION') {
-    // Extend existing contract
-    await contractService.updateContract(contract.id, {
-      endDate: renewal.newEndDate,
-      baseSalary: renewal.newSalary || contract.baseSalary,
-    });
-    
-    // Mark old contract as renewed
-    await prisma.contract.update({
-      where: { id: contract.id },
-      data: { status: 'RENEWED' },
-    });
-  } else {
-    // Create new contract
-    const newContract = await contractService.createContract({
-      employeeId: contract.employeeId,
-      contractType: contract.contractType,
-      startDate: renewal.effectiveDate,
-      endDate: renewal.newEndDate,
-      baseSalary: renewal.newSalary || contract.baseSalary,
-      currency: contract.currency,
-      probationPeriod: contract.probationPeriod ?? undefined,
-      noticePeriod: contract.noticePeriod ?? undefined,
-      workingHours: contract.workingHours ?? undefined,
-      workMode: contract.workMode,
-      autoRenewal: contract.autoRenewal,
-      renewalDuration: contract.renewalDuration ?? undefined,
-      renewalReminderDays: contract.renewalReminderDays ?? undefined,
-      allowances: contract.allowances ? JSON.parse(contract.allowances) : undefined,
-      createdBy: renewal.approvedBy ?? undefined,
-    });
-    
-    // Update renewal with new contract ID
-    await prisma.contractRenewal.update({
-      where: { id: renewalId },
-      data: {
-        newContractId: newContract.id,
-        status: 'COMPLETED',
-      },
-    });
-    
-    // Mark old contract as renewed
-    await prisma.contract.update({
-      where: { id: contract.id },
-      data: { status: 'RENEWED' },
-    });
-  }
+  await contractService.updateContract(contract.id, {
+    // Extensions keep the original start date, everything else starts a new term
+    startDate: renewal.renewalType === 'EXTENSION' ? undefined : renewal.effectiveDate,
+    endDate: renewal.newEndDate,
+    baseSalary: renewal.newSalary ?? contract.baseSalary,
+    contractType: changes.contractType,
+    noticePeriod: changes.noticePeriod,
+    workingHours: changes.workingHours,
+    workMode: changes.workMode,
+    allowances: changes.allowances,
+    status: 'ACTIVE',
+    renewalDate: new Date(),
+    updatedBy: renewal.approvedBy ?? undefined,
+  });
   
-  return await prisma.contractRenewal.findUnique({
+  return await prisma.contractRenewal.update({
     where: { id: renewalId },
+    data: {
+      status: 'COMPLETED',
+    },
     include: {
       contract: {
         include: {
@@ -224,7 +229,7 @@ export const extendContract = async (contractId: string, days: number) => {
   });
   
   if (!contract || !contract.endDate) {
-    throw new Error('Contract not found or has no end date');
+    throw new NotFoundError('Contract not found or has no end date');
   }
   
   const newEndDate = new Date(contract.endDate);
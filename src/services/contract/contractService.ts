@@ -1,4 +1,14 @@
 import { prisma } from '../../index';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { formatMonthsLabel } from '../../utils/employmentTerms';
+
+const contractEmployeeSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  employeeId: true,
+};
 
 /**
  * Generate unique contract number: CT-YYYY-XXX
@@ -50,19 +60,54 @@ export const createContract = async (data: {
   templateId?: string;
   createdBy?: string;
 }) => {
+  const employee = await prisma.employee.findUnique({
+    where: { id: data.employeeId },
+    select: { id: true, contract: { select: { id: true } } },
+  });
+  
+  if (!employee) {
+    throw new NotFoundError('Employee not found');
+  }
+  
+  // Contract.employeeId is unique - renewals and amendments update the existing row
+  if (employee.contract) {
+    throw new ConflictError('Employee already has a contract. Use a renewal or amendment instead');
+  }
+  
+  // Template defaults only fill values the caller did not provide
+  let endDate = data.endDate || null;
+  let probationPeriod = data.probationPeriod;
+  let noticePeriod = data.noticePeriod;
+  if (data.templateId) {
+    const template = await prisma.contractTemplate.findUnique({
+      where: { id: data.templateId },
+    });
+    
+    if (!template || !template.isActive) {
+      throw new NotFoundError('Contract template not found or inactive');
+    }
+    
+    if (data.endDate === undefined && template.defaultDuration && data.contractType !== 'PERMANENT') {
+      endDate = new Date(data.startDate);
+      endDate.setDate(endDate.getDate() + template.defaultDuration);
+    }
+    probationPeriod = probationPeriod ?? template.defaultProbationPeriod ?? undefined;
+    noticePeriod = noticePeriod ?? template.defaultNoticePeriod ?? undefined;
+  }
+  
   const contractNumber = await generateContractNumber();
   
-  return await prisma.contract.create({
+  const contract = await prisma.contract.create({
     data: {
       contractNumber,
       employeeId: data.employeeId,
       contractType: data.contractType as any,
       startDate: data.startDate,
-      endDate: data.endDate || null,
+      endDate,
       baseSalary: data.baseSalary,
       currency: data.currency || 'AED',
-      probationPeriod: data.probationPeriod,
-      noticePeriod: data.noticePeriod,
+      probationPeriod,
+      noticePeriod,
       workingHours: data.workingHours,
       workMode: (data.workMode as any) || 'ON_SITE',
       autoRenewal: data.autoRenewal || false,
@@ -76,17 +121,15 @@ export const createContract = async (data: {
     },
     include: {
       employee: {
-        select: {
-          id: true,
-          firstName: true,
-          lastName: true,
-          email: true,
-          employeeId: true,
-        },
+        select: contractEmployeeSelect,
       },
       template: true,
     },
   });
+  
+  await syncEmployeeContractFields(contract);
+  
+  return contract;
 };
 
 /**
@@ -163,6 +206,7 @@ export const getContracts = async (filters: {
   pageSize?: number;
   search?: string;
   expiringInDays?: number;
+  employeeId?: string;
 }) => {
   const page = filters.page || 1;
   const pageSize = filters.pageSize || 10;
@@ -178,6 +222,10 @@ export const getContracts = async (filters: {
     where.contractType = filters.contractType;
   }
   
+  if (filters.employeeId) {
+    where.employeeId = filters.employeeId;
+  }
+  
   if (filters.search) {
     where.OR = [
       { contractNumber: { contains: filters.search, mode: 'insensitive' } },
@@ -255,6 +303,8 @@ export const updateContract = async (id: string, data: {
   allowances?: any;
   notes?: string;
   updatedBy?: string;
+  status?: string;
+  renewalDate?: Date | null;
 }) => {
   const updateData: any = {};
   
@@ -273,22 +323,22 @@ export const updateContract = async (id: string, data: {
   if (data.allowances !== undefined) updateData.allowances = data.allowances ? JSON.stringify(data.allowances) : null;
   if (data.notes !== undefined) updateData.notes = data.notes;
   if (data.updatedBy !== undefined) updateData.updatedBy = data.updatedBy;
+  if (data.status !== undefined) updateData.status = data.status as any;
+  if (data.renewalDate !== undefined) updateData.renewalDate = data.renewalDate;
   
-  return await prisma.contract.update({
+  const contract = await prisma.contract.update({
     where: { id },
     data: updateData,
     include: {
       employee: {
-        select: {
-          id: true,
-          firstName: true,
-          lastName: true,
-          email: true,
-          employeeId: true,
-        },
+        select: contractEmployeeSelect,
       },
     },
   });
+  
+  await syncEmployeeContractFields(contract);
+  
+  return contract;
 };
 
 /**
@@ -299,7 +349,19 @@ export const terminateContract = async (id: string, data: {
   notes?: string;
   updatedBy?: string;
 }) => {
-  return await prisma.contract.update({
+  const contract = await prisma.contract.findUnique({
+    where: { id },
+  });
+  
+  if (!contract) {
+    throw new NotFoundError('Contract not found');
+  }
+  
+  if (contract.status === 'TERMINATED') {
+    throw new ConflictError('Contract is already terminated');
+  }
+  
+  const terminated = await prisma.contract.update({
     where: { id },
     data: {
       status: 'TERMINATED',
@@ -308,9 +370,62 @@ export const terminateContract = async (id: string, data: {
       updatedBy: data.updatedBy,
     },
     include: {
-      employee: true,
+      employee: {
+        select: contractEmployeeSelect,
+      },
     },
   });
+  
+  await syncEmployeeContractFields(terminated);
+  
+  return terminated;
+};
+
+/**
+ * Mirror contract terms onto the legacy Employee fields (contractDuration,
+ * contractExpiryDate, probationPeriod, confirmationDate, workMode) that the
+ * employee profile and older dashboards still read.
+ * Salary is intentionally not synced - Employee salary changes go through SalaryChange approval.
+ */
+export const syncEmployeeContractFields = async (contract: {
+  employeeId: string;
+  contractType: string;
+  status: string;
+  startDate: Date;
+  endDate: Date | null;
+  terminationDate?: Date | null;
+  probationPeriod: number | null;
+  workMode: string;
+}) => {
+  const employeeData: any = {
+    workMode: contract.workMode as any,
+  };
+  
+  if (contract.status === 'TERMINATED' && contract.terminationDate) {
+    employeeData.contractExpiryDate = contract.terminationDate;
+  } else if (contract.contractType === 'PERMANENT' || !contract.endDate) {
+    employeeData.contractDuration = 'Permanent';
+    employeeData.contractExpiryDate = null;
+  } else {
+    const start = new Date(contract.startDate);
+    const end = new Date(contract.endDate);
+    const months = (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth());
+    employeeData.contractDuration = formatMonthsLabel(Math.max(months, 1));
+    employeeData.contractExpiryDate = contract.endDate;
+  }
+  
+  if (contract.probationPeriod) {
+    const confirmationDate = new Date(contract.startDate);
+    confirmationDate.setDate(confirmationDate.getDate() + contract.probationPeriod);
+    confirmationDate.setHours(0, 0, 0, 0);
+    employeeData.probationPeriod = formatMonthsLabel(Math.max(contract.probationPeriod / 30, 1));
+    employeeData.confirmationDate = confirmationDate;
+  }
+  
+  await prisma.employee.update({
+    where: { id: contract.employeeId },
+    data: employeeData,
+  });
 };
 
 /**
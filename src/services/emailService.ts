@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
 
 // Try to import Resend (optional - only if configured)
 let resend: any = null;
@@ -34,10 +35,10 @@ export const initializeEmailTransporter = (): void => {
     try {
       resendClient = new resend.Resend(resendApiKey);
       emailServiceType = 'RESEND';
-      console.log('✅ Email service initialized: Resend');
+      logger.info('Email service initialized: Resend');
       return; // Resend doesn't use nodemailer transporter
     } catch (error) {
-      console.error('❌ Error initializing Resend:', error);
+      logger.error('Error initializing Resend', error);
     }
   }
 
@@ -47,10 +48,10 @@ export const initializeEmailTransporter = (): void => {
     try {
       sendgrid.setApiKey(sendgridApiKey);
       emailServiceType = 'SENDGRID';
-      console.log('✅ Email service initialized: SendGrid');
+      logger.info('Email service initialized: SendGrid');
       return; // SendGrid doesn't use nodemailer transporter
     } catch (error) {
-      console.error('❌ Error initializing SendGrid:', error);
+      logger.error('Error initializing SendGrid', error);
     }
   }
 
@@ -62,13 +63,13 @@ export const initializeEmailTransporter = (): void => {
   const awsAccessKeyId = process.env.AWS_ACCESS_KEY_ID;
   const awsSecretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
   if (awsRegion && awsAccessKeyId && awsSecretAccessKey) {
-    console.warn('⚠️  AWS SES is configured but not fully implemented. Please use Resend or SendGrid instead.');
+    logger.warn('AWS SES is configured but not fully implemented. Please use Resend or SendGrid instead.');
     // AWS SES integration requires aws-sdk package and additional setup
     // Uncomment and implement when ready
   }
 
   // No email service configured
-  console.warn('⚠️  Email service not configured. Please set up Resend or SendGrid credentials.');
+  logger.warn('Email service not configured. Please set up Resend or SendGrid credentials.');
   emailServiceType = 'NONE';
 };
 
@@ -112,21 +113,14 @@ export const getHRManagementEmails = async (prisma: PrismaClient): Promise<strin
       .map((emp) => emp.email)
       .filter((email): email is string => email !== null && email !== '');
 
-    // Log details about who was found
-    console.log('📋 HR/Management Employees Found for Email Notification:');
-    console.log('   Total employees with HR/MANAGEMENT role:', hrManagementEmployees.length);
-    console.log('   Valid email addresses:', emails.length);
-    
-    if (hrManagementEmployees.length > 0) {
-      hrManagementEmployees.forEach((emp, index) => {
-        const emailStatus = emp.email ? '✅' : '❌ (no email)';
-        console.log(`   ${index + 1}. ${emp.email || 'N/A'} ${emailStatus}`);
-      });
-    }
+    logger.info('HR/Management employees found for email notification', {
+      employees: hrManagementEmployees.length,
+      validEmails: emails.length,
+    });
 
     return emails;
   } catch (error) {
-    console.error('Error fetching HR/Management emails:', error);
+    logger.error('Error fetching HR/Management emails', error);
     return [];
   }
 };
@@ -141,13 +135,13 @@ const sendEmailViaResend = async (
   from?: string
 ): Promise<boolean> => {
   if (!resend || !resendClient) {
-    console.error('❌ Resend package not installed or client not initialized. Please install: npm install resend');
+    logger.error('Resend package not installed or client not initialized. Please install: npm install resend');
     return false;
   }
 
   const resendApiKey = process.env.RESEND_API_KEY;
   if (!resendApiKey) {
-    console.error('❌ RESEND_API_KEY not configured in environment variables');
+    logger.error('RESEND_API_KEY not configured in environment variables');
     return false;
   }
 
@@ -166,20 +160,14 @@ const sendEmailViaResend = async (
     });
 
     if (error) {
-      console.error('❌ Error sending email via Resend:', error);
+      logger.error('Error sending email via Resend', error);
       return false;
     }
 
-    console.log(`✅ Email sent successfully via Resend to: ${recipients.join(', ')}`);
-    if (data?.id) {
-      console.log(`   Email ID: ${data.id}`);
-    }
+    logger.info('Email sent via Resend', { recipients: recipients.length, emailId: data?.id });
     return true;
   } catch (error: any) {
-    console.error('❌ Error sending email via Resend:', error);
-    if (error.message) {
-      console.error('   Error message:', error.message);
-    }
+    logger.error('Error sending email via Resend', error);
     return false;
   }
 };
@@ -194,13 +182,13 @@ const sendEmailViaSendGrid = async (
   from?: string
 ): Promise<boolean> => {
   if (!sendgrid) {
-    console.error('❌ SendGrid package not installed or not available. Please install: npm install @sendgrid/mail');
+    logger.error('SendGrid package not installed or not available. Please install: npm install @sendgrid/mail');
     return false;
   }
 
   const sendgridApiKey = process.env.SENDGRID_API_KEY;
   if (!sendgridApiKey) {
-    console.error('❌ SENDGRID_API_KEY not configured in environment variables');
+    logger.error('SENDGRID_API_KEY not configured in environment variables');
     return false;
   }
 
@@ -226,14 +214,13 @@ const sendEmailViaSendGrid = async (
     };
 
     await sendgrid.send(msg);
-    console.log(`✅ Email sent successfully via SendGrid to: ${recipients.join(', ')}`);
+    logger.info('Email sent via SendGrid', { recipients: recipients.length });
     return true;
   } catch (error: any) {
-    console.error('❌ Error sending email via SendGrid:', error);
-    if (error.response) {
-      console.error('SendGrid error details:', error.response.body);
-      console.error('SendGrid error status:', error.response.statusCode);
-    }
+    logger.error('Error sending email via SendGrid', error, {
+      sendgridStatus: error.response?.statusCode,
+      sendgridErrors: error.response?.body?.errors,
+    });
     return false;
   }
 };
@@ -247,36 +234,32 @@ export const sendEmail = async (
   htmlContent: string,
   from?: string
 ): Promise<boolean> => {
-  console.log('');
-  console.log('📮 Email Service - Sending Email');
-  console.log('   Service Type:', emailServiceType);
-  console.log('   Recipients:', Array.isArray(to) ? to.join(', ') : to);
-  console.log('   Subject:', subject);
-  
+  logger.debug('Sending email', {
+    service: emailServiceType,
+    recipients: Array.isArray(to) ? to.length : 1,
+    subject,
+  });
+
   // Validate recipients
   if (!to || (Array.isArray(to) && to.length === 0)) {
-    console.error('❌ No email recipients provided');
+    logger.error('No email recipients provided');
     return false;
   }
 
   // Use Resend if configured (highest priority)
   if (emailServiceType === 'RESEND') {
-    console.log('   Using Resend service...');
     return sendEmailViaResend(to, subject, htmlContent, from);
   }
 
   // Use SendGrid if configured
   if (emailServiceType === 'SENDGRID') {
-    console.log('   Using SendGrid service...');
     return sendEmailViaSendGrid(to, subject, htmlContent, from);
   }
 
   // No email service configured
-  console.warn('⚠️  Email service not available. Email not sent.');
-  console.warn('⚠️  Email service type:', emailServiceType);
-  if (emailServiceType === 'NONE') {
-    console.warn('⚠️  Please configure email service (Resend or SendGrid) in environment variables');
-    console.warn('⚠️  Add RESEND_API_KEY or SENDGRID_API_KEY to your environment variables');
-  }
+  logger.warn('Email service not available. Email not sent.', {
+    service: emailServiceType,
+    hint: 'Add RESEND_API_KEY or SENDGRID_API_KEY to your environment variables',
+  });
   return false;
 };
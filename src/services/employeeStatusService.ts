@@ -1,4 +1,5 @@
 import { prisma } from '../index';
+import { logger } from '../utils/logger';
 
 /**
  * Calculate employee status based on contract expiry and current status
@@ -76,7 +77,7 @@ export const autoUpdateEmployeeStatuses = async () => {
 
     return { updated };
   } catch (error) {
-    console.error('❌ Error auto-updating employee statuses:', error);
+    logger.error('Error auto-updating employee statuses', error);
     throw error;
   }
 };
@@ -0,0 +1,488 @@
+import { BonusStatus, DeductionStatus, PayrollStatus, Prisma, ReimbursementStatus } from '@prisma/client';
+import { prisma } from '../index';
+import {
+  calculateAccuratePayroll,
+  calculateGratuity,
+  calculateLeaveEncashment,
+  formatCurrency,
+  getLeavePayTierDays,
+  GratuityCalculation,
+} from '../utils/payrollCalculator';
+
+/**
+ * Final Settlement Service
+ *
+ * Computes what a leaver is owed on their last working day:
+ * - End-of-service gratuity (Decree-Law 33/2021, see calculateGratuity)
+ * - Encashment of unused annual leave from LeaveSummary
+ * - Prorated salary of the final month (unless an approved payroll already covers it)
+ * - Approved bonuses / reimbursements / deductions not yet paid through payroll
+ * - Value of assigned assets that have not been returned
+ */
+
+// Payroll rows past Finance approval already pay out everything dated in their month
+const SETTLED_PAYROLL_STATUSES: PayrollStatus[] = [
+  PayrollStatus.FINANCE_APPROVED,
+  PayrollStatus.MANAGEMENT_APPROVED,
+  PayrollStatus.UPLOADED_TO_BANK,
+  PayrollStatus.BANK_PAYMENT_APPROVED,
+];
+
+const PAYABLE_BONUS_STATUSES: BonusStatus[] = [BonusStatus.MANAGEMENT_APPROVED, BonusStatus.READY_FOR_PAYROLL];
+const PAYABLE_DEDUCTION_STATUSES: DeductionStatus[] = [
+  DeductionStatus.MANAGEMENT_APPROVED,
+  DeductionStatus.READY_FOR_PAYROLL,
+];
+const PAYABLE_REIMBURSEMENT_STATUSES: ReimbursementStatus[] = [ReimbursementStatus.MANAGEMENT_APPROVED];
+
+// Statuses from which a settlement may still be recalculated
+export const EDITABLE_SETTLEMENT_STATUSES: PayrollStatus[] = [PayrollStatus.PENDING, PayrollStatus.ON_HOLD];
+
+export interface SettlementLineItem {
+  id: string;
+  type: string;
+  description: string;
+  date?: Date | null;
+  amount: number;
+}
+
+export interface FinalSettlementCalculation {
+  employee: {
+    id: string;
+    employeeId: string;
+    name: string;
+    joinDate: Date;
+    terminationReason: string | null;
+  };
+  lastWorkingDay: Date;
+  basicSalary: number;
+  gratuity: GratuityCalculation;
+  leaveEncashment: {
+    year: number;
+    entitlement: number;
+    accruedDays: number;
+    carriedOverDays: number;
+    usedDays: number;
+    unusedDays: number;
+    amount: number;
+  };
+  lastMonth: {
+    month: number;
+    year: number;
+    included: boolean;
+    reason: string;
+    amount: number;
+    calendarDaysWorked: number;
+    calendarDaysInMonth: number;
+  };
+  bonuses: SettlementLineItem[];
+  reimbursements: SettlementLineItem[];
+  deductions: SettlementLineItem[];
+  unreturnedAssets: SettlementLineItem[];
+  totals: {
+    gratuity: number;
+    leaveEncashment: number;
+    lastMonthSalary: number;
+    bonuses: number;
+    reimbursements: number;
+    deductions: number;
+    assetDeductions: number;
+    totalEarnings: number;
+    totalDeductions: number;
+    netAmount: number;
+  };
+  warnings: string[];
+}
+
+export type FinalSettlementResult =
+  | { status: 'not_found' }
+  | { status: 'not_terminated' }
+  | { status: 'calculated'; calculation: FinalSettlementCalculation };
+
+const sumAmounts = (items: SettlementLineItem[]): number =>
+  formatCurrency(items.reduce((sum, item) => sum + item.amount, 0));
+
+const monthKey = (date: Date): string => `${date.getFullYear()}-${date.getMonth() + 1}`;
+
+/**
+ * Unpaid leave days across the whole service (not counted towards gratuity):
+ * unpaid emergency leave, as in getUnpaidLeaveDays, and sick / maternity
+ * leave past its paid tiers, as in getLeavePayTierDays.
+ */
+const getServiceUnpaidLeaveDays = async (employee: { id: string; joinDate: Date }, to: Date): Promise<number> => {
+  const [leaves, payTiers] = await Promise.all([
+    prisma.leaveRequest.findMany({
+      where: {
+        employeeId: employee.id,
+        status: 'APPROVED',
+        startDate: { lte: to },
+        endDate: { gte: employee.joinDate },
+        leaveType: 'EMERGENCY',
+        compensationMethod: 'unpaid',
+      },
+      select: { isHalfDay: true, numberOfDays: true },
+    }),
+    getLeavePayTierDays(prisma, employee, employee.joinDate, to),
+  ]);
+
+  const unpaidEmergencyDays = leaves.reduce((sum, leave) => sum + (leave.isHalfDay ? 0.5 : leave.numberOfDays), 0);
+  return unpaidEmergencyDays + payTiers.sick.unpaidDays + payTiers.maternity.unpaidDays;
+};
+
+/**
+ * Unused annual leave at the last working day: the final year's entitlement is
+ * accrued pro rata up to the last working day, plus carry-over, minus leave taken
+ */
+const calculateUnusedAnnualLeave = async (
+  employeeId: string,
+  joinDate: Date,
+  lastWorkingDay: Date,
+  basicSalary: number,
+  warnings: string[]
+) => {
+  const year = lastWorkingDay.getFullYear();
+  const summary = await prisma.leaveSummary.findUnique({
+    where: { employeeId_year: { employeeId, year } },
+  });
+
+  if (!summary) {
+    warnings.push(`No leave summary found for ${year}; leave encashment set to 0`);
+    return { year, entitlement: 0, accruedDays: 0, carriedOverDays: 0, usedDays: 0, unusedDays: 0, amount: 0 };
+  }
+
+  const yearStart = new Date(year, 0, 1);
+  const yearEnd = new Date(year, 11, 31);
+  const accrualStart = joinDate > yearStart ? joinDate : yearStart;
+  const dayMs = 24 * 60 * 60 * 1000;
+  const daysInYear = Math.round((yearEnd.getTime() - yearStart.getTime()) / dayMs) + 1;
+  const daysAccrued = Math.max(0, Math.round((lastWorkingDay.getTime() - accrualStart.getTime()) / dayMs) + 1);
+
+  const accruedDays = Math.round(((summary.annualLeaveEntitlement * daysAccrued) / daysInYear) * 100) / 100;
+  const unusedDays = Math.max(
+    0,
+    Math.round((accruedDays + summary.annualLeaveCarriedOver - summary.annualLeaveUsed) * 100) / 100
+  );
+
+  if (accruedDays + summary.annualLeaveCarriedOver - summary.annualLeaveUsed < 0) {
+    warnings.push(
+      `Annual leave taken exceeds accrued leave by ${formatCurrency(
+        summary.annualLeaveUsed - accruedDays - summary.annualLeaveCarriedOver
+      )} day(s); no automatic deduction applied`
+    );
+  }
+
+  return {
+    year,
+    entitlement: summary.annualLeaveEntitlement,
+    accruedDays,
+    carriedOverDays: summary.annualLeaveCarriedOver,
+    usedDays: summary.annualLeaveUsed,
+    unusedDays,
+    amount: calculateLeaveEncashment(basicSalary, unusedDays),
+  };
+};
+
+/**
+ * Calculate the final settlement of a terminated employee (nothing is saved)
+ */
+export const calculateFinalSettlement = async (employeeId: string): Promise<FinalSettlementResult> => {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: {
+      id: true,
+      employeeId: true,
+      firstName: true,
+      lastName: true,
+      joinDate: true,
+      baseSalary: true,
+      totalSalary: true,
+      terminationDate: true,
+      terminationReason: true,
+      terminationLastWorkingDay: true,
+    },
+  });
+
+  if (!employee) {
+    return { status: 'not_found' };
+  }
+
+  const lastWorkingDay = employee.terminationLastWorkingDay || employee.terminationDate;
+  if (!lastWorkingDay) {
+    return { status: 'not_terminated' };
+  }
+
+  const warnings: string[] = [];
+  const basicSalary = employee.baseSalary;
+
+  // Gratuity
+  const unpaidLeaveDays = await getServiceUnpaidLeaveDays(employee, lastWorkingDay);
+  const gratuity = calculateGratuity(basicSalary, employee.joinDate, lastWorkingDay, unpaidLeaveDays);
+  if (!gratuity.eligible) {
+    warnings.push('Less than one year of continuous service; no gratuity is payable');
+  }
+
+  // Leave encashment
+  const leaveEncashment = await calculateUnusedAnnualLeave(
+    employee.id,
+    employee.joinDate,
+    lastWorkingDay,
+    basicSalary,
+    warnings
+  );
+
+  // Months already paid (or being paid) through payroll
+  const settledPayrolls = await prisma.payroll.findMany({
+    where: { employeeId: employee.id, status: { in: SETTLED_PAYROLL_STATUSES } },
+    select: { month: true, year: true },
+  });
+  const settledMonths = new Set(settledPayrolls.map((p) => `${p.year}-${p.month}`));
+
+  // Prorated final month
+  const lastMonthNumber = lastWorkingDay.getMonth() + 1;
+  const lastMonthYear = lastWorkingDay.getFullYear();
+  const lastMonthCalculation = await calculateAccuratePayroll(
+    prisma,
+    { ...employee, terminationDate: lastWorkingDay },
+    lastMonthYear,
+    lastMonthNumber
+  );
+  const lastMonthSettled = settledMonths.has(`${lastMonthYear}-${lastMonthNumber}`);
+  const lastMonth = {
+    month: lastMonthNumber,
+    year: lastMonthYear,
+    included: !lastMonthSettled,
+    reason: lastMonthSettled
+      ? 'Final month is already covered by an approved payroll'
+      : lastMonthCalculation.calculationBreakdown.isFullMonth
+        ? 'Full final month'
+        : `Prorated ${lastMonthCalculation.calendarDaysWorked}/${lastMonthCalculation.calendarDaysInMonth} calendar days`,
+    amount: lastMonthSettled ? 0 : lastMonthCalculation.proratedTotalSalary,
+    calendarDaysWorked: lastMonthCalculation.calendarDaysWorked,
+    calendarDaysInMonth: lastMonthCalculation.calendarDaysInMonth,
+  };
+
+  if (!lastMonthSettled) {
+    const openPayroll = await prisma.payroll.findUnique({
+      where: { employeeId_month_year: { employeeId: employee.id, month: lastMonthNumber, year: lastMonthYear } },
+      select: { status: true },
+    });
+    if (openPayroll) {
+      warnings.push(
+        `Payroll for ${lastMonthNumber}/${lastMonthYear} is ${openPayroll.status}; put it on hold so the final month is not paid twice`
+      );
+    }
+  }
+
+  // Approved items not yet paid through an approved payroll
+  const [bonuses, reimbursements, deductions, assets, unapprovedCounts] = await Promise.all([
+    prisma.bonus.findMany({
+      where: { employeeId: employee.id, status: { in: PAYABLE_BONUS_STATUSES } },
+      select: { id: true, amount: true, reason: true, bonusDate: true },
+    }),
+    prisma.reimbursement.findMany({
+      where: { employeeId: employee.id, status: { in: PAYABLE_REIMBURSEMENT_STATUSES } },
+      select: {
+        id: true,
+        amount: true,
+        description: true,
+        createdAt: true,
+        reimbursementType: { select: { name: true } },
+      },
+    }),
+    prisma.deduction.findMany({
+      where: { employeeId: employee.id, status: { in: PAYABLE_DEDUCTION_STATUSES } },
+      select: {
+        id: true,
+        amount: true,
+        reason: true,
+        deductionDate: true,
+        deductionType: { select: { name: true } },
+      },
+    }),
+    prisma.asset.findMany({
+      where: { assignedToEmployeeId: employee.id },
+      select: { id: true, name: true, assetTag: true, currentValue: true, purchaseCost: true, assignedDate: true },
+    }),
+    Promise.all([
+      prisma.bonus.count({
+        where: { employeeId: employee.id, status: { in: [BonusStatus.PENDING, BonusStatus.ON_HOLD, BonusStatus.FINANCE_APPROVED] } },
+      }),
+      prisma.deduction.count({
+        where: {
+          employeeId: employee.id,
+          status: { in: [DeductionStatus.PENDING, DeductionStatus.ON_HOLD, DeductionStatus.FINANCE_APPROVED] },
+        },
+      }),
+      prisma.reimbursement.count({
+        where: {
+          employeeId: employee.id,
+          status: { in: [ReimbursementStatus.PENDING, ReimbursementStatus.ON_HOLD, ReimbursementStatus.FINANCE_APPROVED] },
+        },
+      }),
+    ]),
+  ]);
+
+  const bonusItems: SettlementLineItem[] = bonuses
+    .filter((bonus) => !settledMonths.has(monthKey(bonus.bonusDate)))
+    .map((bonus) => ({ id: bonus.id, type: 'BONUS', description: bonus.reason, date: bonus.bonusDate, amount: bonus.amount }));
+
+  const reimbursementItems: SettlementLineItem[] = reimbursements
+    .filter((reimbursement) => !settledMonths.has(monthKey(reimbursement.createdAt)))
+    .map((reimbursement) => ({
+      id: reimbursement.id,
+      type: 'REIMBURSEMENT',
+      description: `${reimbursement.reimbursementType?.name || 'Reimbursement'} - ${reimbursement.description || ''}`.trim(),
+      date: reimbursement.createdAt,
+      amount: reimbursement.amount,
+    }));
+
+  const deductionItems: SettlementLineItem[] = deductions
+    .filter((deduction) => !settledMonths.has(monthKey(deduction.deductionDate)))
+    .map((deduction) => ({
+      id: deduction.id,
+      type: deduction.deductionType?.name || 'Deduction',
+      description: deduction.reason,
+      date: deduction.deductionDate,
+      amount: deduction.amount,
+    }));
+
+  const assetItems: SettlementLineItem[] = assets.map((asset) => {
+    const value = asset.currentValue ?? asset.purchaseCost ?? 0;
+    if (value === 0) {
+      warnings.push(`Asset "${asset.name}" has no recorded value; it must still be returned`);
+    }
+    return {
+      id: asset.id,
+      type: 'UNRETURNED_ASSET',
+      description: asset.assetTag ? `${asset.name} (${asset.assetTag})` : asset.name,
+      date: asset.assignedDate,
+      amount: value,
+    };
+  });
+
+  const [pendingBonuses, pendingDeductions, pendingReimbursements] = unapprovedCounts;
+  if (pendingBonuses + pendingDeductions + pendingReimbursements > 0) {
+    warnings.push(
+      `Unapproved items are not included: ${pendingBonuses} bonus(es), ${pendingDeductions} deduction(s), ${pendingReimbursements} reimbursement(s)`
+    );
+  }
+
+  const totals = {
+    gratuity: gratuity.amount,
+    leaveEncashment: leaveEncashment.amount,
+    lastMonthSalary: lastMonth.amount,
+    bonuses: sumAmounts(bonusItems),
+    reimbursements: sumAmounts(reimbursementItems),
+    deductions: sumAmounts(deductionItems),
+    assetDeductions: sumAmounts(assetItems),
+    totalEarnings: 0,
+    totalDeductions: 0,
+    netAmount: 0,
+  };
+  totals.totalEarnings = formatCurrency(
+    totals.gratuity + totals.leaveEncashment + totals.lastMonthSalary + totals.bonuses + totals.reimbursements
+  );
+  totals.totalDeductions = formatCurrency(totals.deductions + totals.assetDeductions);
+  totals.netAmount = formatCurrency(totals.totalEarnings - totals.totalDeductions);
+
+  if (totals.netAmount < 0) {
+    warnings.push('Deductions exceed earnings; the employee owes the balance');
+  }
+
+  return {
+    status: 'calculated',
+    calculation: {
+      employee: {
+        id: employee.id,
+        employeeId: employee.employeeId,
+        name: `${employee.firstName} ${employee.lastName}`,
+        joinDate: employee.joinDate,
+        terminationReason: employee.terminationReason,
+      },
+      lastWorkingDay,
+      basicSalary,
+      gratuity,
+      leaveEncashment,
+      lastMonth,
+      bonuses: bonusItems,
+      reimbursements: reimbursementItems,
+      deductions: deductionItems,
+      unreturnedAssets: assetItems,
+      totals,
+      warnings,
+    },
+  };
+};
+
+/**
+ * Settlement row fields derived from a calculation
+ */
+export const buildSettlementData = (calculation: FinalSettlementCalculation) => ({
+  lastWorkingDay: calculation.lastWorkingDay,
+  serviceDays: calculation.gratuity.serviceDays,
+  basicSalary: calculation.basicSalary,
+  gratuityAmount: calculation.totals.gratuity,
+  leaveEncashmentDays: calculation.leaveEncashment.unusedDays,
+  leaveEncashmentAmount: calculation.totals.leaveEncashment,
+  lastMonthSalary: calculation.totals.lastMonthSalary,
+  bonusesAmount: calculation.totals.bonuses,
+  reimbursementsAmount: calculation.totals.reimbursements,
+  deductionsAmount: calculation.totals.deductions,
+  assetDeductionsAmount: calculation.totals.assetDeductions,
+  totalEarnings: calculation.totals.totalEarnings,
+  totalDeductions: calculation.totals.totalDeductions,
+  netAmount: calculation.totals.netAmount,
+  breakdown: JSON.parse(JSON.stringify(calculation)) as Prisma.InputJsonValue,
+});
+
+/**
+ * Once a settlement is paid, mark the bonuses, deductions and reimbursements it
+ * included as paid so they are not picked up by payroll again
+ */
+export const applySettlementItems = async (
+  tx: Prisma.TransactionClient,
+  settlement: { id: string; breakdown: Prisma.JsonValue },
+  userId: string
+) => {
+  const breakdown = settlement.breakdown as unknown as FinalSettlementCalculation;
+  const reference = `SETTLEMENT-${settlement.id}`;
+  const now = new Date();
+
+  const bonusIds = (breakdown.bonuses || []).map((item) => item.id);
+  const deductionIds = (breakdown.deductions || []).map((item) => item.id);
+  const reimbursementIds = (breakdown.reimbursements || []).map((item) => item.id);
+
+  if (bonusIds.length > 0) {
+    await tx.bonus.updateMany({
+      where: { id: { in: bonusIds }, status: { in: PAYABLE_BONUS_STATUSES } },
+      data: {
+        status: BonusStatus.APPLIED_TO_PAYROLL,
+        payrollReference: reference,
+        appliedToPayrollAt: now,
+        appliedToPayrollBy: userId,
+      },
+    });
+  }
+
+  if (deductionIds.length > 0) {
+    await tx.deduction.updateMany({
+      where: { id: { in: deductionIds }, status: { in: PAYABLE_DEDUCTION_STATUSES } },
+      data: {
+        status: DeductionStatus.APPLIED_TO_PAYROLL,
+        payrollReference: reference,
+        appliedToPayrollAt: now,
+        appliedToPayrollBy: userId,
+      },
+    });
+  }
+
+  if (reimbursementIds.length > 0) {
+    await tx.reimbursement.updateMany({
+      where: { id: { in: reimbursementIds }, status: { in: PAYABLE_REIMBURSEMENT_STATUSES } },
+      data: {
+        status: ReimbursementStatus.PAID,
+        paidDate: now,
+      },
+    });
+  }
+};
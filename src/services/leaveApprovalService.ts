@@ -0,0 +1,134 @@
+import { LeaveApprovalStep, LeaveType } from '@prisma/client';
+import { prisma } from '../index';
+import { getReportIds, isInReportingLine } from '../utils/reportingLine';
+import type { Permission } from '../utils/permissions';
+
+/**
+ * Leave Approval Service
+ *
+ * Each leave request walks through an ordered chain of approval steps
+ * (line manager, HR, Management). The chain is resolved from the active
+ * LeaveApprovalPolicy rows of the leave type when the request is created and
+ * stored on the request, so policy edits never change requests in flight.
+ * Leave types without configured policies use the built-in defaults below.
+ */
+
+export interface LeaveApprovalPolicyRule {
+  minDays: number; // Applies to requests longer than this many days
+  steps: LeaveApprovalStep[];
+}
+
+export const DEFAULT_LEAVE_APPROVAL_STEPS: LeaveApprovalStep[] = [LeaveApprovalStep.MANAGER, LeaveApprovalStep.HR];
+
+export const BUILT_IN_LEAVE_APPROVAL_POLICIES: Partial<Record<LeaveType, LeaveApprovalPolicyRule[]>> = {
+  [LeaveType.WFH]: [{ minDays: 0, steps: [LeaveApprovalStep.MANAGER] }],
+  [LeaveType.ANNUAL]: [
+    { minDays: 0, steps: [LeaveApprovalStep.MANAGER] },
+    { minDays: 10, steps: [LeaveApprovalStep.MANAGER, LeaveApprovalStep.HR] },
+  ],
+  [LeaveType.MATERNITY]: [{ minDays: 0, steps: [LeaveApprovalStep.HR, LeaveApprovalStep.MANAGEMENT] }],
+};
+
+export const LEAVE_APPROVAL_STEP_LABELS: Record<LeaveApprovalStep, string> = {
+  MANAGER: 'line manager',
+  HR: 'HR',
+  MANAGEMENT: 'Management',
+};
+
+/**
+ * Pick the rule with the highest threshold the request exceeds
+ */
+const matchPolicyRule = (rules: LeaveApprovalPolicyRule[], numberOfDays: number): LeaveApprovalPolicyRule | null => {
+  return rules
+    .filter((rule) => numberOfDays > rule.minDays)
+    .sort((a, b) => b.minDays - a.minDays)[0] || null;
+};
+
+/**
+ * Resolve the approval chain for a new leave request.
+ * The MANAGER step is dropped for employees without a line manager; an empty
+ * chain falls back to HR so every request has at least one approver.
+ */
+export const resolveLeaveApprovalSteps = async (
+  employeeId: string,
+  leaveType: LeaveType,
+  numberOfDays: number
+): Promise<LeaveApprovalStep[]> => {
+  const [configured, employee] = await Promise.all([
+    prisma.leaveApprovalPolicy.findMany({
+      where: { leaveType, isActive: true },
+      select: { minDays: true, steps: true },
+    }),
+    prisma.employee.findUnique({
+      where: { id: employeeId },
+      select: { managerId: true },
+    }),
+  ]);
+
+  const rules = configured.length > 0 ? configured : BUILT_IN_LEAVE_APPROVAL_POLICIES[leaveType] || [];
+  const rule = matchPolicyRule(rules, numberOfDays);
+  const steps = (rule?.steps || DEFAULT_LEAVE_APPROVAL_STEPS).filter(
+    (step) => step !== LeaveApprovalStep.MANAGER || !!employee?.managerId
+  );
+
+  return steps.length > 0 ? Array.from(new Set(steps)) : [LeaveApprovalStep.HR];
+};
+
+/**
+ * Check whether a user can act on a given step of an employee's request.
+ * Holders of leave:approve:management may stand in for the line manager,
+ * as with other first-stage approvals.
+ */
+export const canActOnLeaveStep = async (
+  userId: string,
+  permissions: Permission[],
+  step: LeaveApprovalStep,
+  employeeId: string
+): Promise<boolean> => {
+  if (userId === employeeId) return false;
+
+  switch (step) {
+    case LeaveApprovalStep.MANAGER:
+      return permissions.includes('leave:approve:management') || isInReportingLine(userId, employeeId);
+    case LeaveApprovalStep.HR:
+      return permissions.includes('leave:approve:hr');
+    case LeaveApprovalStep.MANAGEMENT:
+      return permissions.includes('leave:approve:management');
+    default:
+      return false;
+  }
+};
+
+/**
+ * Prisma filter for the pending leave requests waiting on this user's step
+ * (line manager steps of their reports, HR / Management steps by permission).
+ * Requests the user already approved at an earlier step are left out.
+ */
+export const buildLeaveApprovalQueueFilter = async (
+  userId: string,
+  permissions: Permission[]
+): Promise<Record<string, any> | null> => {
+  const stepFilters: Record<string, any>[] = [];
+
+  const reportIds = await getReportIds(userId);
+  if (reportIds.length > 0) {
+    stepFilters.push({ currentApprovalStep: LeaveApprovalStep.MANAGER, employeeId: { in: reportIds } });
+  }
+  if (permissions.includes('leave:approve:hr')) {
+    stepFilters.push({ currentApprovalStep: LeaveApprovalStep.HR });
+  }
+  if (permissions.includes('leave:approve:management')) {
+    stepFilters.push({ currentApprovalStep: LeaveApprovalStep.MANAGEMENT });
+  }
+
+  if (stepFilters.length === 0) {
+    return null;
+  }
+
+  return {
+    status: 'PENDING',
+    employeeId: { not: userId },
+    approvals: { none: { approvedBy: userId } },
+    OR: stepFilters,
+  };
+};
@@ -0,0 +1,208 @@
+import { LoginMethod } from '@prisma/client';
+import { prisma } from '../index';
+import { sendEmail } from './emailService';
+import { getFrontendUrl } from './passwordResetService';
+import { generateAccountLockedEmailBody } from '../utils/emailTemplates';
+import { logger } from '../utils/logger';
+
+/**
+ * Login Protection Service
+ *
+ * Throttles password logins per IP (failed attempts in the login history) and
+ * per account (consecutive failures on the employee). Both apply an exponential
+ * backoff once a few attempts have failed; an account is locked for a while
+ * after MAX_FAILED_ATTEMPTS failures and the employee is emailed.
+ */
+
+const MAX_FAILED_ATTEMPTS = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10);
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10);
+
+const IP_WINDOW_MINUTES = 15;
+const IP_MAX_FAILURES = parseInt(process.env.LOGIN_MAX_IP_FAILURES || '20', 10);
+
+// Failures allowed before backoff starts, and the backoff ceiling
+const ACCOUNT_FREE_ATTEMPTS = 2;
+const IP_FREE_ATTEMPTS = 5;
+const MAX_BACKOFF_SECONDS = 5 * 60;
+
+export interface LoginContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export type LoginThrottleResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'IP_THROTTLED' | 'ACCOUNT_LOCKED' | 'ACCOUNT_BACKOFF'; retryAfterSeconds: number };
+
+interface AccountLoginState {
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Seconds to wait after the last failure: 1, 2, 4, ... once `freeAttempts` have failed
+ */
+const getBackoffSeconds = (failures: number, freeAttempts: number): number => {
+  if (failures <= freeAttempts) return 0;
+  return Math.min(2 ** (failures - freeAttempts - 1), MAX_BACKOFF_SECONDS);
+};
+
+const secondsUntil = (date: Date): number => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+/**
+ * Check whether an IP may attempt a password login right now
+ */
+export const checkIpThrottle = async (ipAddress: string | null): Promise<LoginThrottleResult> => {
+  if (!ipAddress) return { allowed: true };
+
+  const where = {
+    ipAddress,
+    success: false,
+    createdAt: { gte: new Date(Date.now() - IP_WINDOW_MINUTES * 60 * 1000) },
+  };
+
+  const [failures, lastFailure] = await Promise.all([
+    prisma.loginAttempt.count({ where }),
+    prisma.loginAttempt.findFirst({ where, orderBy: { createdAt: 'desc' }, select: { createdAt: true } }),
+  ]);
+
+  if (!lastFailure) return { allowed: true };
+
+  if (failures >= IP_MAX_FAILURES) {
+    const windowEnd = new Date(lastFailure.createdAt.getTime() + IP_WINDOW_MINUTES * 60 * 1000);
+    return { allowed: false, reason: 'IP_THROTTLED', retryAfterSeconds: secondsUntil(windowEnd) };
+  }
+
+  const backoffEnd = new Date(lastFailure.createdAt.getTime() + getBackoffSeconds(failures, IP_FREE_ATTEMPTS) * 1000);
+  if (backoffEnd > new Date()) {
+    return { allowed: false, reason: 'IP_THROTTLED', retryAfterSeconds: secondsUntil(backoffEnd) };
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Check whether an account is locked or still in its backoff period
+ */
+export const checkAccountThrottle = (employee: AccountLoginState): LoginThrottleResult => {
+  const now = new Date();
+
+  if (employee.lockedUntil && employee.lockedUntil > now) {
+    return { allowed: false, reason: 'ACCOUNT_LOCKED', retryAfterSeconds: secondsUntil(employee.lockedUntil) };
+  }
+
+  // An expired lock starts a fresh count
+  if (employee.lockedUntil || !employee.lastFailedLoginAt) {
+    return { allowed: true };
+  }
+
+  const backoffSeconds = getBackoffSeconds(employee.failedLoginAttempts, ACCOUNT_FREE_ATTEMPTS);
+  const backoffEnd = new Date(employee.lastFailedLoginAt.getTime() + backoffSeconds * 1000);
+  if (backoffEnd > now) {
+    return { allowed: false, reason: 'ACCOUNT_BACKOFF', retryAfterSeconds: secondsUntil(backoffEnd) };
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Add an entry to the login history
+ */
+export const recordLoginAttempt = async (data: {
+  email: string;
+  employeeId?: string | null;
+  method?: LoginMethod;
+  success: boolean;
+  failureReason?: string | null;
+  context: LoginContext;
+}): Promise<void> => {
+  await prisma.loginAttempt.create({
+    data: {
+      email: data.email.slice(0, 320),
+      employeeId: data.employeeId || null,
+      method: data.method || LoginMethod.PASSWORD,
+      success: data.success,
+      failureReason: data.failureReason || null,
+      ipAddress: data.context.ipAddress,
+      userAgent: data.context.userAgent?.slice(0, 500) || null,
+    },
+  });
+};
+
+/**
+ * Count a failed password login against the account, locking it at the threshold
+ * Returns true when this failure locked the account
+ */
+export const registerFailedLogin = async (employee: {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  lockedUntil: Date | null;
+}): Promise<boolean> => {
+  const now = new Date();
+
+  // Failures after an expired lock count from zero again
+  const updated = await prisma.employee.update({
+    where: { id: employee.id },
+    data: {
+      failedLoginAttempts: employee.lockedUntil ? 1 : { increment: 1 },
+      lastFailedLoginAt: now,
+      lockedUntil: null,
+    },
+    select: { failedLoginAttempts: true },
+  });
+
+  if (updated.failedLoginAttempts < MAX_FAILED_ATTEMPTS) {
+    return false;
+  }
+
+  const lockedUntil = new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000);
+  await prisma.employee.update({
+    where: { id: employee.id },
+    data: { lockedUntil },
+  });
+
+  const html = generateAccountLockedEmailBody({
+    employeeName: `${employee.firstName} ${employee.lastName}`,
+    failedAttempts: updated.failedLoginAttempts,
+    lockedUntil,
+    resetLink: `${getFrontendUrl()}/forgot-password`,
+  });
+
+  sendEmail(employee.email, 'Your YAZ Media HR account has been locked', html).catch((error) => {
+    logger.error('Account lockout email error', error);
+  });
+
+  return true;
+};
+
+/**
+ * Clear failure tracking after a successful login
+ */
+export const registerSuccessfulLogin = async (employeeId: string): Promise<void> => {
+  await prisma.employee.update({
+    where: { id: employeeId },
+    data: {
+      lastLogin: new Date(),
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+    },
+  });
+};
+
+/**
+ * Lift a lockout and reset the failure counter (HR / Management)
+ */
+export const unlockAccount = async (employeeId: string): Promise<void> => {
+  await prisma.employee.update({
+    where: { id: employeeId },
+    data: {
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+    },
+  });
+};
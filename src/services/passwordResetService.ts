@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { PasswordTokenPurpose } from '@prisma/client';
+import { prisma } from '../index';
+import { sendEmail } from './emailService';
+import { hashPassword } from '../utils/password';
+import { generatePasswordResetEmailBody, generateEmployeeInvitationEmailBody } from '../utils/emailTemplates';
+import { revokeAllSessions, isEmployeeAccessAllowed } from './sessionService';
+import { logger } from '../utils/logger';
+
+/**
+ * Password Reset Service
+ *
+ * Forgot-password and invitation links carry a random single-use token; only
+ * its SHA-256 hash is stored. Using a token sets the password, consumes every
+ * other outstanding token of the employee and ends their existing sessions.
+ */
+
+const RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10);
+const INVITATION_TOKEN_TTL_HOURS = parseInt(process.env.INVITATION_TTL_HOURS || '72', 10);
+
+// Reset emails per account per hour - further requests are silently ignored
+const MAX_RESET_REQUESTS_PER_HOUR = 3;
+
+export type PasswordTokenResult = { status: 'ok'; employeeId: string } | { status: 'invalid' | 'inactive' };
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+export const getFrontendUrl = (): string =>
+  (process.env.FRONTEND_URL || process.env.CORS_ORIGIN || 'http://localhost:5173').replace(/\/$/, '');
+
+const createPasswordToken = async (
+  employeeId: string,
+  purpose: PasswordTokenPurpose,
+  ttlMs: number,
+  requestedIp?: string | null
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await prisma.passwordResetToken.create({
+    data: {
+      employeeId,
+      tokenHash: hashToken(token),
+      purpose,
+      expiresAt: new Date(Date.now() + ttlMs),
+      requestedIp: requestedIp || null,
+    },
+  });
+
+  return token;
+};
+
+/**
+ * Email a password reset link if the address belongs to an active employee.
+ * Resolves the same way whether or not the account exists, but not in the same
+ * time (only existing accounts get an email) - callers must not wait for it
+ * before responding.
+ */
+export const requestPasswordReset = async (email: string, requestedIp?: string | null): Promise<void> => {
+  const employee = await prisma.employee.findUnique({
+    where: { email: email.trim() },
+    select: { id: true, email: true, firstName: true, lastName: true, userStatus: true, status: true },
+  });
+
+  if (!employee || !isEmployeeAccessAllowed(employee)) {
+    return;
+  }
+
+  const recentRequests = await prisma.passwordResetToken.count({
+    where: {
+      employeeId: employee.id,
+      purpose: PasswordTokenPurpose.RESET,
+      createdAt: { gte: new Date(Date.now() - 60 * 60 * 1000) },
+    },
+  });
+
+  if (recentRequests >= MAX_RESET_REQUESTS_PER_HOUR) {
+    logger.warn(`Password reset limit reached for employee ${employee.id}`);
+    return;
+  }
+
+  const token = await createPasswordToken(
+    employee.id,
+    PasswordTokenPurpose.RESET,
+    RESET_TOKEN_TTL_MINUTES * 60 * 1000,
+    requestedIp
+  );
+
+  const html = generatePasswordResetEmailBody({
+    employeeName: `${employee.firstName} ${employee.lastName}`,
+    resetLink: `${getFrontendUrl()}/reset-password?token=${token}`,
+    expiresInMinutes: RESET_TOKEN_TTL_MINUTES,
+  });
+
+  await sendEmail(employee.email, 'Reset your YAZ Media HR password', html);
+};
+
+/**
+ * Email a set-password invitation to a newly created employee
+ */
+export const sendEmployeeInvitation = async (employee: {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}): Promise<boolean> => {
+  const token = await createPasswordToken(
+    employee.id,
+    PasswordTokenPurpose.INVITATION,
+    INVITATION_TOKEN_TTL_HOURS * 60 * 60 * 1000
+  );
+
+  const html = generateEmployeeInvitationEmailBody({
+    employeeName: `${employee.firstName} ${employee.lastName}`,
+    email: employee.email,
+    setPasswordLink: `${getFrontendUrl()}/set-password?token=${token}`,
+    expiresInHours: INVITATION_TOKEN_TTL_HOURS,
+  });
+
+  return sendEmail(employee.email, 'Welcome to YAZ Media - set your password', html);
+};
+
+/**
+ * Set a new password using a reset or invitation token
+ */
+export const resetPasswordWithToken = async (token: string, newPassword: string): Promise<PasswordTokenResult> => {
+  const record = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { employee: { select: { id: true, userStatus: true, status: true } } },
+  });
+
+  if (!record || record.usedAt || record.expiresAt <= new Date()) {
+    return { status: 'invalid' };
+  }
+
+  if (!isEmployeeAccessAllowed(record.employee)) {
+    return { status: 'inactive' };
+  }
+
+  const hashedPassword = await hashPassword(newPassword);
+  const now = new Date();
+
+  const consumed = await prisma.$transaction(async (tx) => {
+    // Consume the token first so concurrent requests cannot both use it
+    const claimed = await tx.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 0) return false;
+
+    await tx.passwordResetToken.updateMany({
+      where: { employeeId: record.employeeId, usedAt: null },
+      data: { usedAt: now },
+    });
+
+    await tx.employee.update({
+      where: { id: record.employeeId },
+      data: { password: hashedPassword, passwordChangedAt: now, mustChangePassword: false },
+    });
+
+    return true;
+  });
+
+  if (!consumed) {
+    return { status: 'invalid' };
+  }
+
+  await revokeAllSessions(record.employeeId, 'PASSWORD_RESET');
+
+  return { status: 'ok', employeeId: record.employeeId };
+};
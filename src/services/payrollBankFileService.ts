@@ -0,0 +1,387 @@
+import { PayrollStatus } from '@prisma/client';
+import { prisma } from '../index';
+import { getEmployeeActivePeriod } from '../utils/payrollCalculator';
+import { ConfigurationError, ConflictError } from '../utils/errors';
+
+/**
+ * UAE Wage Protection System (WPS) Salary Information File (SIF) export
+ *
+ * A SIF is a CSV-like text file with one EDR (Employee Detail Record) line per
+ * employee followed by a single SCR (Salary Control Record) line:
+ *   EDR,<EmployeeMOLId>,<AgentRoutingCode>,<IBAN>,<PayStart>,<PayEnd>,<DaysInPeriod>,<FixedIncome>,<VariableIncome>,<DaysOnLeave>
+ *   SCR,<EmployerMOLId>,<EmployerRoutingCode>,<CreationDate>,<CreationTime>,<SalaryMonth>,<EDRCount>,<Total>,<Currency>,<EmployerReference>
+ *
+ * Employer details come from WPS_EMPLOYER_MOL_ID, WPS_EMPLOYER_ROUTING_CODE and
+ * (optionally) WPS_EMPLOYER_REFERENCE.
+ */
+
+const SIF_CURRENCY = 'AED';
+const IBAN_PATTERN = /^AE\d{21}$/;
+const ROUTING_CODE_PATTERN = /^\d{9}$/;
+const MOL_ID_PATTERN = /^\d{1,14}$/;
+
+export interface SifValidationError {
+  payrollId: string;
+  employeeId: string;
+  employeeName: string;
+  field: 'molId' | 'iban' | 'routingNumber' | 'bankDetails' | 'netSalary';
+  message: string;
+}
+
+interface SifRecord {
+  payrollId: string;
+  employeeId: string;
+  employeeName: string;
+  molId: string;
+  routingCode: string;
+  iban: string;
+  payStartDate: Date;
+  payEndDate: Date;
+  daysInPeriod: number;
+  fixedIncome: number;
+  variableIncome: number;
+  daysOnLeave: number;
+}
+
+const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+
+const formatSifDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const formatAmount = (amount: number) => (Math.round(amount * 100) / 100).toFixed(2);
+
+const normalizeIban = (iban: string | null | undefined) => (iban || '').replace(/\s+/g, '').toUpperCase();
+
+// Problems with the employer settings; no file can be generated until they are fixed
+const getEmployerConfigErrors = (): string[] => {
+  const employerMolId = process.env.WPS_EMPLOYER_MOL_ID;
+  const employerRoutingCode = process.env.WPS_EMPLOYER_ROUTING_CODE;
+  const configErrors: string[] = [];
+
+  if (!employerMolId || !/^\d{13}$/.test(employerMolId)) {
+    configErrors.push('WPS_EMPLOYER_MOL_ID environment variable must be set to the 13-digit employer MOL ID');
+  }
+  if (!employerRoutingCode || !ROUTING_CODE_PATTERN.test(employerRoutingCode)) {
+    configErrors.push('WPS_EMPLOYER_ROUTING_CODE environment variable must be set to the 9-digit bank routing code');
+  }
+
+  return configErrors;
+};
+
+const getEmployerConfig = () => {
+  const configErrors = getEmployerConfigErrors();
+  if (configErrors.length > 0) {
+    throw new ConfigurationError(configErrors.join('; '));
+  }
+
+  return {
+    employerMolId: process.env.WPS_EMPLOYER_MOL_ID!,
+    employerRoutingCode: process.env.WPS_EMPLOYER_ROUTING_CODE!,
+    employerReference: process.env.WPS_EMPLOYER_REFERENCE || '',
+  };
+};
+
+/**
+ * Count calendar days of approved leave (excluding WFH) inside the pay period
+ */
+const getLeaveDaysInPeriod = (
+  leaves: Array<{ startDate: Date; endDate: Date; numberOfDays: number; isHalfDay: boolean }>,
+  periodStart: Date,
+  periodEnd: Date
+) => {
+  const dayMs = 1000 * 60 * 60 * 24;
+  let total = 0;
+
+  for (const leave of leaves) {
+    if (leave.isHalfDay) {
+      total += 0.5;
+      continue;
+    }
+
+    const start = leave.startDate > periodStart ? leave.startDate : periodStart;
+    const end = leave.endDate < periodEnd ? leave.endDate : periodEnd;
+    const startOnly = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    const endOnly = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+    const overlap = Math.floor((endOnly.getTime() - startOnly.getTime()) / dayMs) + 1;
+
+    // Leave fully inside the period uses the approved day count (excludes weekends/holidays)
+    const fullyInside = leave.startDate >= periodStart && leave.endDate <= periodEnd;
+    total += fullyInside ? leave.numberOfDays : Math.max(0, overlap);
+  }
+
+  return Math.ceil(total);
+};
+
+/**
+ * Build SIF records for all MANAGEMENT_APPROVED payrolls of a month and validate them
+ */
+export const buildSifRecords = async (month: number, year: number) => {
+  const monthStart = new Date(year, month - 1, 1);
+  const monthEnd = new Date(year, month, 0, 23, 59, 59, 999);
+
+  const payrolls = await prisma.payroll.findMany({
+    where: {
+      month,
+      year,
+      status: PayrollStatus.MANAGEMENT_APPROVED,
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          employeeId: true,
+          molId: true,
+          joinDate: true,
+          terminationDate: true,
+          bankDetails: true,
+          leaveRequests: {
+            where: {
+              status: 'APPROVED',
+              leaveType: { not: 'WFH' },
+              startDate: { lte: monthEnd },
+              endDate: { gte: monthStart },
+            },
+            select: {
+              startDate: true,
+              endDate: true,
+              numberOfDays: true,
+              isHalfDay: true,
+            },
+          },
+        },
+      },
+    },
+    orderBy: { employee: { employeeId: 'asc' } },
+  });
+
+  const records: SifRecord[] = [];
+  const errors: SifValidationError[] = [];
+
+  for (const payroll of payrolls) {
+    const employee = payroll.employee;
+    const employeeName = `${employee.firstName} ${employee.lastName}`;
+    const base = { payrollId: payroll.id, employeeId: employee.employeeId, employeeName };
+    const recordErrors: SifValidationError[] = [];
+
+    const molId = (employee.molId || '').trim();
+    if (!molId) {
+      recordErrors.push({ ...base, field: 'molId', message: 'Employee MOL ID is missing' });
+    } else if (!MOL_ID_PATTERN.test(molId)) {
+      recordErrors.push({ ...base, field: 'molId', message: `Employee MOL ID "${molId}" must be up to 14 digits` });
+    }
+
+    const bank = employee.bankDetails;
+    const iban = normalizeIban(bank?.iban);
+    const routingCode = (bank?.routingNumber || '').trim();
+    if (!bank) {
+      recordErrors.push({ ...base, field: 'bankDetails', message: 'Employee has no bank details' });
+    } else {
+      if (!iban) {
+        recordErrors.push({ ...base, field: 'iban', message: 'IBAN is missing' });
+      } else if (!IBAN_PATTERN.test(iban)) {
+        recordErrors.push({ ...base, field: 'iban', message: `IBAN "${iban}" is not a valid UAE IBAN (AE + 21 digits)` });
+      }
+      if (!routingCode) {
+        recordErrors.push({ ...base, field: 'routingNumber', message: 'Bank routing code is missing' });
+      } else if (!ROUTING_CODE_PATTERN.test(routingCode)) {
+        recordErrors.push({ ...base, field: 'routingNumber', message: `Routing code "${routingCode}" must be 9 digits` });
+      }
+    }
+
+    if (payroll.netSalary <= 0) {
+      recordErrors.push({ ...base, field: 'netSalary', message: 'Net salary must be greater than zero' });
+    }
+
+    if (recordErrors.length > 0) {
+      errors.push(...recordErrors);
+      continue;
+    }
+
+    const period = getEmployeeActivePeriod(employee.joinDate, employee.terminationDate, year, month);
+    const startOnly = new Date(period.startDate.getFullYear(), period.startDate.getMonth(), period.startDate.getDate());
+    const endOnly = new Date(period.endDate.getFullYear(), period.endDate.getMonth(), period.endDate.getDate());
+    const daysInPeriod = Math.floor((endOnly.getTime() - startOnly.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+
+    // Fixed = contractual salary net of deductions; Variable = overtime, bonuses, reimbursements.
+    // Fixed + Variable always equals the net salary actually paid.
+    const variableIncome = Math.min(Math.max(0, payroll.allowances), payroll.netSalary);
+    const fixedIncome = payroll.netSalary - variableIncome;
+
+    records.push({
+      ...base,
+      molId: molId.padStart(14, '0'),
+      routingCode,
+      iban,
+      payStartDate: startOnly,
+      payEndDate: endOnly,
+      daysInPeriod,
+      fixedIncome,
+      variableIncome,
+      daysOnLeave: getLeaveDaysInPeriod(employee.leaveRequests, startOnly, period.endDate),
+    });
+  }
+
+  const totalAmount = records.reduce(
+    (sum, record) => sum + Math.round((record.fixedIncome + record.variableIncome) * 100) / 100,
+    0
+  );
+
+  return { payrollCount: payrolls.length, records, errors, totalAmount: Math.round(totalAmount * 100) / 100 };
+};
+
+/**
+ * Render the SIF file content and file name
+ */
+const renderSif = (records: SifRecord[], month: number, year: number, totalAmount: number, createdAt: Date) => {
+  const { employerMolId, employerRoutingCode, employerReference } = getEmployerConfig();
+
+  const edrLines = records.map((record) =>
+    [
+      'EDR',
+      record.molId,
+      record.routingCode,
+      record.iban,
+      formatSifDate(record.payStartDate),
+      formatSifDate(record.payEndDate),
+      record.daysInPeriod,
+      formatAmount(record.fixedIncome),
+      formatAmount(record.variableIncome),
+      record.daysOnLeave,
+    ].join(',')
+  );
+
+  const scrLine = [
+    'SCR',
+    employerMolId,
+    employerRoutingCode,
+    formatSifDate(createdAt),
+    `${pad(createdAt.getHours())}${pad(createdAt.getMinutes())}`,
+    `${pad(month)}${year}`,
+    records.length,
+    formatAmount(totalAmount),
+    SIF_CURRENCY,
+    employerReference,
+  ].join(',');
+
+  const timestamp = `${pad(createdAt.getFullYear() % 100)}${pad(createdAt.getMonth() + 1)}${pad(createdAt.getDate())}${pad(
+    createdAt.getHours()
+  )}${pad(createdAt.getMinutes())}${pad(createdAt.getSeconds())}`;
+
+  return {
+    employerMolId,
+    fileName: `${employerMolId}${timestamp}.SIF`,
+    content: [...edrLines, scrLine].join('\r\n') + '\r\n',
+  };
+};
+
+/**
+ * Validate a month without generating anything
+ */
+export const previewBankFile = async (month: number, year: number) => {
+  const { payrollCount, records, errors, totalAmount } = await buildSifRecords(month, year);
+  const configErrors = getEmployerConfigErrors();
+
+  return {
+    month,
+    year,
+    payrollCount,
+    recordCount: records.length,
+    totalAmount,
+    currency: SIF_CURRENCY,
+    errors,
+    configErrors,
+    canGenerate: payrollCount > 0 && errors.length === 0 && configErrors.length === 0,
+  };
+};
+
+/**
+ * Generate the SIF for a month and move every exported payroll to UPLOADED_TO_BANK.
+ * All-or-nothing: any validation error blocks generation.
+ */
+export const generateBankFile = async (month: number, year: number, generatedBy: string) => {
+  const { payrollCount, records, errors, totalAmount } = await buildSifRecords(month, year);
+
+  if (payrollCount === 0) {
+    return { status: 'empty' as const, errors: [] as SifValidationError[] };
+  }
+  if (errors.length > 0) {
+    return { status: 'invalid' as const, errors };
+  }
+
+  const createdAt = new Date();
+  const { employerMolId, fileName, content } = renderSif(records, month, year, totalAmount, createdAt);
+  const payrollIds = records.map((record) => record.payrollId);
+
+  const bankFile = await prisma.$transaction(async (tx) => {
+    const created = await tx.payrollBankFile.create({
+      data: {
+        month,
+        year,
+        fileName,
+        content,
+        employerMolId,
+        recordCount: records.length,
+        totalAmount,
+        currency: SIF_CURRENCY,
+        generatedBy,
+        createdAt,
+      },
+    });
+
+    const updated = await tx.payroll.updateMany({
+      where: {
+        id: { in: payrollIds },
+        status: PayrollStatus.MANAGEMENT_APPROVED,
+      },
+      data: {
+        status: PayrollStatus.UPLOADED_TO_BANK,
+        uploadedToBankAt: createdAt,
+        uploadedToBankBy: generatedBy,
+        bankUploadReference: fileName,
+        bankFileId: created.id,
+      },
+    });
+
+    // Another request changed a payroll between validation and export
+    if (updated.count !== payrollIds.length) {
+      throw new ConflictError('Payroll records changed while generating the bank file. Please try again.');
+    }
+
+    return created;
+  });
+
+  return { status: 'generated' as const, bankFile, errors: [] as SifValidationError[] };
+};
+
+/**
+ * List generated bank files (without file content)
+ */
+export const getBankFiles = async (filters: { month?: number; year?: number }) => {
+  const where: any = {};
+  if (filters.month) where.month = filters.month;
+  if (filters.year) where.year = filters.year;
+
+  return prisma.payrollBankFile.findMany({
+    where,
+    select: {
+      id: true,
+      month: true,
+      year: true,
+      fileName: true,
+      employerMolId: true,
+      recordCount: true,
+      totalAmount: true,
+      currency: true,
+      generatedBy: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+};
+
+export const getBankFileById = async (id: string) => {
+  return prisma.payrollBankFile.findUnique({
+    where: { id },
+  });
+};
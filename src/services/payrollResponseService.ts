@@ -1,6 +1,7 @@
 import { prisma } from '../index';
 import { APPROVED_BONUS_STATUSES, APPROVED_DEDUCTION_STATUSES, APPROVED_REIMBURSEMENT_STATUSES } from './payrollStatusUtils';
-import { AccuratePayrollCalculation } from '../utils/payrollCalculator';
+import { AccuratePayrollCalculation, LeavePayTierLine } from '../utils/payrollCalculator';
+import { logger } from '../utils/logger';
 
 const getMonthBounds = (year: number, month: number) => {
   const start = new Date(year, month - 1, 1);
@@ -8,6 +9,12 @@ const getMonthBounds = (year: number, month: number) => {
   return { start, end };
 };
 
+const LEAVE_PAY_TIER_LABELS: Record<LeavePayTierLine['tier'], string> = {
+  FULL_PAY: 'at full pay',
+  HALF_PAY: 'at half pay',
+  UNPAID: 'unpaid',
+};
+
 export interface ProrationDetails {
   isProrated: boolean;
   reasons: string[];
@@ -37,6 +44,12 @@ export const buildProrationDetails = (
   if (breakdown.hasUnpaidLeave) {
     reasons.push('Unpaid leave taken during the month');
   }
+  if (breakdown.hasReducedPayLeave) {
+    const tierParts = calculation.leavePayBreakdown.map(
+      (line) => `${line.days} ${line.leaveType.toLowerCase()} day(s) ${LEAVE_PAY_TIER_LABELS[line.tier]}`
+    );
+    reasons.push(`Reduced-pay leave: ${tierParts.join(', ')}`);
+  }
 
   const originalRounded = Math.round(calculation.totalSalary * 100);
   const proratedRounded = Math.round(calculation.proratedTotalSalary * 100);
@@ -214,7 +227,7 @@ export const buildDetailedPayrollResponse = async (
         : undefined,
     };
   } catch (error) {
-    console.error('Error building detailed payroll response:', error);
+    logger.error('Error building detailed payroll response', error);
     return payroll;
   }
 };
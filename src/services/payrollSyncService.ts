@@ -17,8 +17,9 @@ import {
 } from '../utils/payrollCalculator';
 import { buildDetailedPayrollResponse, buildProrationDetails } from './payrollResponseService';
 import { getIO } from '../websocket/attendanceSocket';
+import { logger } from '../utils/logger';
 
-export type PayrollSyncTrigger = 'manual' | 'bonus' | 'reimbursement' | 'deduction' | 'salary-change';
+export type PayrollSyncTrigger = 'manual' | 'bonus' | 'reimbursement' | 'deduction' | 'salary-change' | 'leave';
 
 interface PayrollSyncMeta {
   type: PayrollSyncTrigger;
@@ -69,7 +70,7 @@ const emitPayrollUpdate = (payload: any) => {
 
     io.to('finance-dashboard').emit('finance:payroll:update', payload);
   } catch (error) {
-    console.error('Failed to emit payroll update event:', error);
+    logger.error('Failed to emit payroll update event', error);
   }
 };
 
@@ -364,7 +365,7 @@ export const schedulePayrollSync = (
     try {
       await createOrUpdatePayroll(employeeId, targetMonth, targetYear, baseOptions, metas);
     } catch (error) {
-      console.error('Payroll sync error:', { employeeId, targetMonth, targetYear, error });
+      logger.error('Payroll sync error', { employeeId, targetMonth, targetYear, error });
     }
   }, SYNC_DELAY_MS);
 
@@ -432,3 +433,29 @@ export const schedulePayrollSyncForDeduction = (deduction: any, trigger: Payroll
     },
   });
 };
+
+/**
+ * Resync every month a leave spans. Only existing payrolls are recalculated
+ * (locked months are skipped by createOrUpdatePayroll).
+ */
+export const schedulePayrollSyncForLeave = (
+  leave: { id: string; employeeId: string; startDate: Date; endDate: Date },
+  trigger: PayrollSyncTrigger = 'leave'
+) => {
+  const start = new Date(leave.startDate);
+  const end = new Date(leave.endDate);
+  const cursor = new Date(start.getFullYear(), start.getMonth(), 1);
+
+  while (cursor <= end) {
+    schedulePayrollSync(leave.employeeId, {
+      month: cursor.getMonth() + 1,
+      year: cursor.getFullYear(),
+      allowCreate: false,
+      meta: {
+        type: trigger,
+        recordId: leave.id,
+      },
+    });
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+};
@@ -0,0 +1,365 @@
+import archiver from 'archiver';
+import { Writable } from 'stream';
+import { PayrollStatus } from '@prisma/client';
+import { prisma } from '../index';
+import { calculateAccuratePayroll } from '../utils/payrollCalculator';
+import { storePrivateFile, readPrivateFile } from '../utils/fileUpload';
+import { PayslipData, PayslipLine, renderPayslipPdf } from '../utils/payslipPdf';
+import { LOCKED_PAYROLL_STATUSES } from './payrollStatusUtils';
+import { buildDetailedPayrollResponse, buildProrationDetails } from './payrollResponseService';
+import { logger } from '../utils/logger';
+
+/**
+ * Payslip Service
+ *
+ * Payslips are rendered from the stored Payroll row plus the same breakdown the
+ * JSON payroll endpoints use (buildDetailedPayrollResponse). Until the payroll is
+ * BANK_PAYMENT_APPROVED the PDF is rendered on demand and marked provisional; the
+ * first render after payment is uploaded and every later download serves that
+ * stored file, so a paid payslip never changes.
+ */
+
+const PAYSLIP_FOLDER = 'payslips';
+const CURRENCY = 'AED';
+
+const getCompanyDetails = () => ({
+  name: process.env.COMPANY_NAME || 'YAZ Media',
+  address: process.env.COMPANY_ADDRESS || undefined,
+});
+
+const payslipPayrollSelect = {
+  id: true,
+  employeeId: true,
+  month: true,
+  year: true,
+  baseSalary: true,
+  totalSalary: true,
+  allowances: true,
+  deductions: true,
+  taxDeduction: true,
+  netSalary: true,
+  status: true,
+  paidDate: true,
+  employee: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      employeeId: true,
+      designation: true,
+      baseSalary: true,
+      telephoneAllowance: true,
+      housingAllowance: true,
+      transportationAllowance: true,
+      totalSalary: true,
+      joinDate: true,
+      terminationDate: true,
+      department: {
+        select: {
+          name: true,
+        },
+      },
+      bankDetails: {
+        select: {
+          bankName: true,
+          iban: true,
+        },
+      },
+    },
+  },
+  payslip: true,
+} as const;
+
+type PayslipPayroll = NonNullable<Awaited<ReturnType<typeof getPayslipPayroll>>>;
+
+export interface PayslipFile {
+  fileName: string;
+  buffer: Buffer;
+  isFinal: boolean;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const maskAccountNumber = (iban?: string | null): string | null => {
+  if (!iban) return null;
+  const compact = iban.replace(/\s+/g, '');
+  return `**** ${compact.slice(-4)}`;
+};
+
+export const getPayslipFileName = (payroll: { month: number; year: number; employee: { employeeId: string } }) =>
+  `Payslip_${payroll.employee.employeeId}_${payroll.year}-${String(payroll.month).padStart(2, '0')}.pdf`;
+
+export const getPayslipPayroll = async (payrollId: string) => {
+  return prisma.payroll.findUnique({
+    where: { id: payrollId },
+    select: payslipPayrollSelect,
+  });
+};
+
+/**
+ * Split the stored (prorated) total salary into basic + allowance lines using
+ * the ratios of the payroll calculation and the employee's allowance structure
+ */
+const buildSalaryLines = (payroll: PayslipPayroll, proratedBase: number, proratedTotal: number): PayslipLine[] => {
+  const employee = payroll.employee;
+  const basic = proratedTotal > 0 ? round2(payroll.totalSalary * (proratedBase / proratedTotal)) : payroll.totalSalary;
+  const allowancePool = round2(payroll.totalSalary - basic);
+
+  const components = [
+    { label: 'Housing Allowance', amount: employee.housingAllowance || 0 },
+    { label: 'Transportation Allowance', amount: employee.transportationAllowance || 0 },
+    { label: 'Telephone Allowance', amount: employee.telephoneAllowance || 0 },
+  ].filter((component) => component.amount > 0);
+  const componentTotal = components.reduce((sum, component) => sum + component.amount, 0);
+
+  const lines: PayslipLine[] = [{ label: 'Basic Salary', amount: basic }];
+  if (allowancePool <= 0) {
+    return lines;
+  }
+  if (componentTotal === 0) {
+    lines.push({ label: 'Allowances', amount: allowancePool });
+    return lines;
+  }
+
+  // Last component absorbs rounding so the lines add up to the stored total
+  let allocated = 0;
+  components.forEach((component, index) => {
+    const amount =
+      index === components.length - 1
+        ? round2(allowancePool - allocated)
+        : round2(allowancePool * (component.amount / componentTotal));
+    allocated = round2(allocated + amount);
+    lines.push({ label: component.label, amount });
+  });
+
+  return lines;
+};
+
+/**
+ * Paid totals for the year up to and including this payroll's month
+ */
+const getYearToDateTotals = async (payroll: PayslipPayroll) => {
+  const previous = await prisma.payroll.findMany({
+    where: {
+      employeeId: payroll.employeeId,
+      year: payroll.year,
+      month: { lt: payroll.month },
+      status: { in: LOCKED_PAYROLL_STATUSES },
+    },
+    select: {
+      totalSalary: true,
+      allowances: true,
+      deductions: true,
+      taxDeduction: true,
+      netSalary: true,
+    },
+  });
+
+  return [...previous, payroll].reduce(
+    (totals, record) => ({
+      gross: round2(totals.gross + record.totalSalary + record.allowances),
+      deductions: round2(totals.deductions + record.deductions + record.taxDeduction),
+      net: round2(totals.net + record.netSalary),
+      months: totals.months + 1,
+    }),
+    { gross: 0, deductions: 0, net: 0, months: 0 }
+  );
+};
+
+/**
+ * Assemble everything printed on the payslip
+ */
+export const buildPayslipData = async (payroll: PayslipPayroll): Promise<PayslipData> => {
+  const employee = payroll.employee;
+  const calculation = await calculateAccuratePayroll(prisma, employee, payroll.year, payroll.month);
+  const proration = buildProrationDetails(calculation);
+  const [detailed, ytd] = await Promise.all([
+    buildDetailedPayrollResponse(payroll, { calculation, proration }),
+    getYearToDateTotals(payroll),
+  ]);
+
+  const earnings: PayslipLine[] = [
+    ...buildSalaryLines(payroll, calculation.proratedBaseSalary, calculation.proratedTotalSalary),
+    ...(detailed.additions?.items || []).map((item: any) => ({
+      label: item.type === 'OVERTIME' ? item.description : `${item.type === 'BONUS' ? 'Bonus' : 'Reimbursement'} - ${item.description}`,
+      amount: item.amount,
+    })),
+  ];
+
+  const deductions: PayslipLine[] = (detailed.deductions?.items || []).map((item: any) => ({
+    label: item.description ? `${item.type} - ${item.description}` : item.type,
+    amount: item.amount,
+  }));
+  if (payroll.taxDeduction > 0) {
+    deductions.push({ label: 'Tax', amount: payroll.taxDeduction });
+  }
+
+  return {
+    company: getCompanyDetails(),
+    employee: {
+      name: `${employee.firstName} ${employee.lastName}`,
+      employeeCode: employee.employeeId,
+      designation: employee.designation,
+      department: employee.department?.name,
+      joinDate: employee.joinDate,
+      bankName: employee.bankDetails?.bankName,
+      accountNumber: maskAccountNumber(employee.bankDetails?.iban),
+    },
+    period: {
+      month: payroll.month,
+      year: payroll.year,
+    },
+    currency: CURRENCY,
+    isFinal: payroll.status === PayrollStatus.BANK_PAYMENT_APPROVED,
+    paidDate: payroll.paidDate,
+    earnings,
+    deductions,
+    totals: {
+      gross: round2(payroll.totalSalary + payroll.allowances),
+      deductions: round2(payroll.deductions + payroll.taxDeduction),
+      net: payroll.netSalary,
+    },
+    proration: {
+      summary: proration.summary,
+      reasons: proration.reasons,
+      calendarDaysWorked: calculation.calendarDaysWorked,
+      calendarDaysInMonth: calculation.calendarDaysInMonth,
+      periods: calculation.salaryPeriods,
+    },
+    ytd,
+  };
+};
+
+/**
+ * Render, privately store and record the final payslip of a paid payroll.
+ * If another request stored it first, the stored file wins.
+ */
+const storeFinalPayslip = async (payroll: PayslipPayroll, generatedBy?: string): Promise<PayslipFile> => {
+  const fileName = getPayslipFileName(payroll);
+  const buffer = await renderPayslipPdf(await buildPayslipData(payroll));
+
+  const fileKey = await storePrivateFile(
+    {
+      buffer,
+      originalname: fileName,
+      mimetype: 'application/pdf',
+      size: buffer.length,
+    } as Express.Multer.File,
+    PAYSLIP_FOLDER
+  );
+
+  try {
+    await prisma.payslip.create({
+      data: {
+        payrollId: payroll.id,
+        employeeId: payroll.employeeId,
+        month: payroll.month,
+        year: payroll.year,
+        fileName,
+        fileKey,
+        netSalary: payroll.netSalary,
+        generatedBy,
+      },
+    });
+  } catch (error: any) {
+    if (error?.code === 'P2002') {
+      const existing = await prisma.payslip.findUnique({ where: { payrollId: payroll.id } });
+      if (existing) {
+        return { fileName: existing.fileName, buffer: await readPrivateFile(existing.fileKey), isFinal: true };
+      }
+    }
+    throw error;
+  }
+
+  return { fileName, buffer, isFinal: true };
+};
+
+/**
+ * Get the payslip PDF for a payroll (stored copy once paid, provisional render before)
+ */
+export const getPayslipFile = async (payroll: PayslipPayroll, generatedBy?: string): Promise<PayslipFile> => {
+  if (payroll.status !== PayrollStatus.BANK_PAYMENT_APPROVED) {
+    const buffer = await renderPayslipPdf(await buildPayslipData(payroll));
+    return { fileName: getPayslipFileName(payroll), buffer, isFinal: false };
+  }
+
+  if (payroll.payslip) {
+    return {
+      fileName: payroll.payslip.fileName,
+      buffer: await readPrivateFile(payroll.payslip.fileKey),
+      isFinal: true,
+    };
+  }
+
+  return storeFinalPayslip(payroll, generatedBy);
+};
+
+/**
+ * Store the final payslip right after bank payment approval (no-op if already stored)
+ */
+export const finalizePayslip = async (payrollId: string, generatedBy?: string): Promise<void> => {
+  const payroll = await getPayslipPayroll(payrollId);
+  if (!payroll || payroll.status !== PayrollStatus.BANK_PAYMENT_APPROVED || payroll.payslip) {
+    return;
+  }
+  await storeFinalPayslip(payroll, generatedBy);
+};
+
+/**
+ * Payroll rows included in a monthly payslip bundle
+ */
+export const getMonthlyPayslipPayrolls = async (month: number, year: number, status?: PayrollStatus) => {
+  return prisma.payroll.findMany({
+    where: {
+      month,
+      year,
+      ...(status ? { status } : { status: { not: PayrollStatus.REJECTED } }),
+    },
+    select: payslipPayrollSelect,
+    orderBy: { employee: { employeeId: 'asc' } },
+  });
+};
+
+/**
+ * Stream a ZIP with one payslip per payroll into `output`.
+ * Payslips are rendered one at a time to keep memory flat for large months.
+ */
+export const writePayslipArchive = async (
+  payrolls: PayslipPayroll[],
+  output: Writable,
+  generatedBy?: string
+): Promise<{ included: number; failed: Array<{ payrollId: string; error: string }> }> => {
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('close', resolve);
+    output.on('finish', resolve);
+    archive.on('error', reject);
+  });
+  archive.pipe(output);
+
+  const failed: Array<{ payrollId: string; error: string }> = [];
+  let included = 0;
+
+  for (const payroll of payrolls) {
+    try {
+      const file = await getPayslipFile(payroll, generatedBy);
+      archive.append(file.buffer, { name: file.isFinal ? file.fileName : file.fileName.replace(/\.pdf$/, '_PROVISIONAL.pdf') });
+      included++;
+    } catch (error: any) {
+      logger.error(`Error generating payslip for payroll ${payroll.id}`, error);
+      failed.push({ payrollId: payroll.id, error: error?.message || 'Unknown error' });
+    }
+  }
+
+  if (failed.length > 0) {
+    archive.append(
+      failed.map((failure) => `${failure.payrollId}: ${failure.error}`).join('\n'),
+      { name: 'ERRORS.txt' }
+    );
+  }
+
+  await archive.finalize();
+  await finished;
+
+  return { included, failed };
+};
@@ -0,0 +1,63 @@
+import { PermissionEffect } from '@prisma/client';
+import { prisma } from '../index';
+import { resolvePermissions, Permission } from '../utils/permissions';
+
+/**
+ * Permission Service
+ *
+ * Reads and edits the per-employee overrides that sit on top of the role's
+ * default permissions. Overrides take effect on the employee's next request,
+ * since authMiddleware resolves permissions from the database every time.
+ */
+
+/**
+ * Effective permissions of an employee (role defaults plus overrides)
+ */
+export const getEffectivePermissions = async (employeeId: string, role: string): Promise<Permission[]> => {
+  const overrides = await prisma.employeePermissionOverride.findMany({
+    where: { employeeId },
+    select: { permission: true, effect: true },
+  });
+
+  return resolvePermissions(role, overrides);
+};
+
+/**
+ * Grant or revoke a permission for one employee, replacing any existing override
+ */
+export const setPermissionOverride = async (data: {
+  employeeId: string;
+  permission: Permission;
+  effect: PermissionEffect;
+  reason?: string | null;
+  actorId: string;
+}) => {
+  return prisma.employeePermissionOverride.upsert({
+    where: { employeeId_permission: { employeeId: data.employeeId, permission: data.permission } },
+    create: {
+      employeeId: data.employeeId,
+      permission: data.permission,
+      effect: data.effect,
+      reason: data.reason || null,
+      createdBy: data.actorId,
+      updatedBy: data.actorId,
+    },
+    update: {
+      effect: data.effect,
+      reason: data.reason || null,
+      updatedBy: data.actorId,
+    },
+  });
+};
+
+/**
+ * Remove an override so the employee falls back to the role default
+ * Returns false when there was no override
+ */
+export const removePermissionOverride = async (employeeId: string, permission: string): Promise<boolean> => {
+  const result = await prisma.employeePermissionOverride.deleteMany({
+    where: { employeeId, permission },
+  });
+
+  return result.count > 0;
+};
@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import { EmployeeRole } from '@prisma/client';
+import { prisma } from '../index';
+import { generateToken } from '../utils/jwt';
+
+/**
+ * Session Service
+ *
+ * A session is a short-lived access token (JWT) plus an opaque refresh token.
+ * Refresh tokens are stored hashed and rotated on every use; presenting an
+ * already-rotated token revokes its whole family (likely theft). Revoking all
+ * sessions also bumps Employee.tokenVersion, which authMiddleware compares
+ * against the access token, so outstanding access tokens stop working at once.
+ */
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+export interface SessionMeta {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export type RefreshResult =
+  | { status: 'refreshed'; tokens: SessionTokens; employee: SessionEmployee }
+  | { status: 'invalid' | 'reused' | 'inactive' };
+
+interface SessionEmployee {
+  id: string;
+  email: string;
+  role: EmployeeRole;
+  tokenVersion: number;
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Whether an employee may hold a session (account enabled and not terminated)
+ */
+export const isEmployeeAccessAllowed = (employee: { userStatus: string; status: string }): boolean =>
+  employee.userStatus === 'ACTIVE' && employee.status !== 'TERMINATED';
+
+const createRefreshToken = async (employeeId: string, family: string, meta: SessionMeta) => {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  const refreshTokenExpiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const record = await prisma.refreshToken.create({
+    data: {
+      employeeId,
+      tokenHash: hashToken(refreshToken),
+      family,
+      expiresAt: refreshTokenExpiresAt,
+      userAgent: meta.userAgent?.slice(0, 500) || null,
+      ipAddress: meta.ipAddress || null,
+    },
+  });
+
+  return { record, refreshToken, refreshTokenExpiresAt };
+};
+
+const generateAccessToken = (employee: SessionEmployee): string =>
+  generateToken({
+    userId: employee.id,
+    email: employee.email,
+    role: employee.role,
+    tokenVersion: employee.tokenVersion,
+  });
+
+/**
+ * Start a new session after a successful login
+ */
+export const issueSession = async (employee: SessionEmployee, meta: SessionMeta = {}): Promise<SessionTokens> => {
+  const { refreshToken, refreshTokenExpiresAt } = await createRefreshToken(employee.id, crypto.randomUUID(), meta);
+
+  return {
+    token: generateAccessToken(employee),
+    refreshToken,
+    refreshTokenExpiresAt,
+  };
+};
+
+/**
+ * Revoke every refresh token of a family (one login's chain of rotations)
+ */
+const revokeFamily = async (family: string, reason: string) => {
+  await prisma.refreshToken.updateMany({
+    where: { family, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+};
+
+/**
+ * Exchange a refresh token for a new access token + refresh token
+ */
+export const rotateRefreshToken = async (refreshToken: string, meta: SessionMeta = {}): Promise<RefreshResult> => {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          tokenVersion: true,
+          userStatus: true,
+          status: true,
+        },
+      },
+    },
+  });
+
+  if (!existing) {
+    return { status: 'invalid' };
+  }
+
+  if (existing.revokedAt) {
+    // A rotated token came back - assume it leaked and end the whole session
+    if (existing.replacedByTokenId) {
+      await revokeFamily(existing.family, 'REUSE_DETECTED');
+      return { status: 'reused' };
+    }
+    return { status: 'invalid' };
+  }
+
+  if (existing.expiresAt <= new Date()) {
+    return { status: 'invalid' };
+  }
+
+  if (!isEmployeeAccessAllowed(existing.employee)) {
+    await revokeFamily(existing.family, 'ACCOUNT_INACTIVE');
+    return { status: 'inactive' };
+  }
+
+  const next = await createRefreshToken(existing.employeeId, existing.family, meta);
+
+  // Only one concurrent refresh may consume the token
+  const consumed = await prisma.refreshToken.updateMany({
+    where: { id: existing.id, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: 'ROTATED', replacedByTokenId: next.record.id },
+  });
+
+  if (consumed.count === 0) {
+    await prisma.refreshToken.delete({ where: { id: next.record.id } });
+    await revokeFamily(existing.family, 'REUSE_DETECTED');
+    return { status: 'reused' };
+  }
+
+  return {
+    status: 'refreshed',
+    employee: existing.employee,
+    tokens: {
+      token: generateAccessToken(existing.employee),
+      refreshToken: next.refreshToken,
+      refreshTokenExpiresAt: next.refreshTokenExpiresAt,
+    },
+  };
+};
+
+/**
+ * End a single session (logout). Unknown or already revoked tokens are ignored.
+ */
+export const revokeRefreshToken = async (refreshToken: string): Promise<void> => {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    select: { family: true },
+  });
+
+  if (existing) {
+    await revokeFamily(existing.family, 'LOGOUT');
+  }
+};
+
+/**
+ * End every session of an employee: refresh tokens are revoked and the token
+ * version is bumped so already issued access tokens are rejected too.
+ * Returns the new token version.
+ */
+export const revokeAllSessions = async (employeeId: string, reason: string): Promise<number> => {
+  const [, employee] = await prisma.$transaction([
+    prisma.refreshToken.updateMany({
+      where: { employeeId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    }),
+    prisma.employee.update({
+      where: { id: employeeId },
+      data: { tokenVersion: { increment: 1 } },
+      select: { tokenVersion: true },
+    }),
+  ]);
+
+  return employee.tokenVersion;
+};
+
+/**
+ * Revoke sessions when an update changed what the employee may access
+ * (role change, account disabled, termination)
+ */
+export const revokeSessionsOnAccessChange = async (
+  before: { id: string; role: string; userStatus: string; status: string },
+  after: { role: string; userStatus: string; status: string }
+): Promise<void> => {
+  if (before.role !== after.role) {
+    await revokeAllSessions(before.id, 'ROLE_CHANGED');
+  } else if (isEmployeeAccessAllowed(before) && !isEmployeeAccessAllowed(after)) {
+    await revokeAllSessions(before.id, after.status === 'TERMINATED' ? 'TERMINATED' : `USER_${after.userStatus}`);
+  }
+};
@@ -0,0 +1,246 @@
+import { Prisma, WorkScheduleAssignment } from '@prisma/client';
+import { prisma } from '../index';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+/**
+ * Work Schedule Service
+ *
+ * An employee's schedule on a given day comes from, in order: their own
+ * assignment in effect that day, their department's, the default schedule,
+ * and finally the built-in schedule below. Assignments are never edited in
+ * place - a new one ends the previous one - so past days keep resolving to
+ * the schedule that applied at the time.
+ *
+ * Days are calendar days at UTC midnight, the way attendance dates are stored.
+ */
+
+export interface WorkScheduleRules {
+  id: string | null; // null for the built-in schedule
+  name: string;
+  shiftStart: string; // "HH:mm", Dubai time
+  shiftEnd: string;
+  requiredHours: number; // Working hours per day, breaks excluded
+  breakMinutes: number;
+  graceMinutes: number;
+  weekendDays: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+// Used until a default schedule is configured; matches the seeded Standard schedule
+export const BUILT_IN_WORK_SCHEDULE: WorkScheduleRules = {
+  id: null,
+  name: 'Standard',
+  shiftStart: '09:00',
+  shiftEnd: '18:00',
+  requiredHours: 8,
+  breakMinutes: 60,
+  graceMinutes: 60,
+  weekendDays: [0, 6],
+};
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const RULE_FIELDS = {
+  id: true,
+  name: true,
+  shiftStart: true,
+  shiftEnd: true,
+  requiredHours: true,
+  breakMinutes: true,
+  graceMinutes: true,
+  weekendDays: true,
+} as const;
+
+/**
+ * Minutes after midnight of an "HH:mm" time
+ */
+export const toMinutesOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether the weekday (0 = Sunday) is a working day of the schedule
+ */
+export const isWorkingDay = (schedule: WorkScheduleRules, weekday: number): boolean =>
+  !schedule.weekendDays.includes(weekday);
+
+/**
+ * Hours an employee is expected to be present on a working day, break included
+ */
+export const getShiftHours = (schedule: WorkScheduleRules): number =>
+  schedule.requiredHours + schedule.breakMinutes / 60;
+
+/**
+ * Minutes a check-in (minutes after midnight, Dubai time) is after the shift start;
+ * negative when early. Only more than graceMinutes counts as late.
+ */
+export const getMinutesAfterShiftStart = (schedule: WorkScheduleRules, checkInMinutes: number): number =>
+  checkInMinutes - toMinutesOfDay(schedule.shiftStart);
+
+export const isLateForShift = (schedule: WorkScheduleRules, checkInMinutes: number): boolean =>
+  getMinutesAfterShiftStart(schedule, checkInMinutes) > schedule.graceMinutes;
+
+/**
+ * End of the shift on a day, as stored attendance times (Dubai wall-clock);
+ * a shift ending at or before its start ends on the next day
+ */
+export const getShiftEnd = (schedule: WorkScheduleRules, day: Date): Date => {
+  let endMinutes = toMinutesOfDay(schedule.shiftEnd);
+  if (endMinutes <= toMinutesOfDay(schedule.shiftStart)) endMinutes += 24 * 60;
+  return new Date(day.getTime() + endMinutes * 60 * 1000);
+};
+
+export interface ScheduledEmployee {
+  id: string;
+  departmentId?: string | null;
+}
+
+export type WorkScheduleResolver = (employee: ScheduledEmployee, day: Date) => WorkScheduleRules;
+
+type AssignmentWithSchedule = Prisma.WorkScheduleAssignmentGetPayload<{ include: { schedule: { select: typeof RULE_FIELDS } } }>;
+
+const coversDay = (assignment: AssignmentWithSchedule, day: Date): boolean =>
+  assignment.effectiveFrom.getTime() <= day.getTime() &&
+  (!assignment.effectiveTo || assignment.effectiveTo.getTime() >= day.getTime());
+
+// Latest assignment in effect on the day
+const findInEffect = (assignments: AssignmentWithSchedule[] | undefined, day: Date) =>
+  assignments
+    ?.filter((assignment) => coversDay(assignment, day))
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())[0];
+
+const groupBy = (assignments: AssignmentWithSchedule[], key: 'employeeId' | 'departmentId') => {
+  const groups = new Map<string, AssignmentWithSchedule[]>();
+  assignments.forEach((assignment) => {
+    const value = assignment[key];
+    if (!value) return;
+    groups.set(value, [...(groups.get(value) ?? []), assignment]);
+  });
+  return groups;
+};
+
+/**
+ * Load the schedules of several employees over a range of days in two queries;
+ * the returned resolver gives the schedule of one of them on one day
+ */
+export const loadWorkSchedules = async (
+  employees: ScheduledEmployee[],
+  from: Date,
+  to: Date
+): Promise<WorkScheduleResolver> => {
+  const employeeIds = [...new Set(employees.map((employee) => employee.id))];
+  const departmentIds = [...new Set(employees.map((employee) => employee.departmentId).filter((id): id is string => !!id))];
+
+  const [assignments, defaultSchedule] = await Promise.all([
+    prisma.workScheduleAssignment.findMany({
+      where: {
+        OR: [{ employeeId: { in: employeeIds } }, { departmentId: { in: departmentIds } }],
+        effectiveFrom: { lte: to },
+        AND: [{ OR: [{ effectiveTo: null }, { effectiveTo: { gte: from } }] }],
+      },
+      include: { schedule: { select: RULE_FIELDS } },
+    }),
+    prisma.workSchedule.findFirst({
+      where: { isDefault: true, isActive: true },
+      select: RULE_FIELDS,
+    }),
+  ]);
+
+  const byEmployee = groupBy(assignments, 'employeeId');
+  const byDepartment = groupBy(assignments, 'departmentId');
+  const fallback = defaultSchedule ?? BUILT_IN_WORK_SCHEDULE;
+
+  return (employee, day) =>
+    findInEffect(byEmployee.get(employee.id), day)?.schedule ??
+    (employee.departmentId ? findInEffect(byDepartment.get(employee.departmentId), day)?.schedule : undefined) ??
+    fallback;
+};
+
+/**
+ * Schedule of one employee on one day
+ */
+export const getEmployeeWorkSchedule = async (employeeId: string, day: Date): Promise<WorkScheduleRules> => {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: { id: true, departmentId: true },
+  });
+
+  const resolve = await loadWorkSchedules([employee ?? { id: employeeId }], day, day);
+  return resolve(employee ?? { id: employeeId }, day);
+};
+
+export interface WorkScheduleAssignmentInput {
+  scheduleId: string;
+  employeeId?: string;
+  departmentId?: string;
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+  createdBy: string;
+}
+
+/**
+ * Assign a schedule to an employee or department. The target's assignment in
+ * effect on effectiveFrom is ended the day before; assignments starting on or
+ * after effectiveFrom are left to take over again where they start.
+ */
+export const assignWorkSchedule = async (input: WorkScheduleAssignmentInput) => {
+  const schedule = await prisma.workSchedule.findUnique({ where: { id: input.scheduleId } });
+  if (!schedule) {
+    throw new NotFoundError('Work schedule not found');
+  }
+  if (!schedule.isActive) {
+    throw new ValidationError('Inactive work schedules cannot be assigned');
+  }
+
+  const target = input.employeeId ? { employeeId: input.employeeId } : { departmentId: input.departmentId };
+
+  return prisma.$transaction(async (tx) => {
+    const sameDay = await tx.workScheduleAssignment.findFirst({
+      where: { ...target, effectiveFrom: input.effectiveFrom },
+    });
+    if (sameDay) {
+      throw new ConflictError('An assignment already starts on this date; remove it first', { assignmentId: sameDay.id });
+    }
+
+    await tx.workScheduleAssignment.updateMany({
+      where: {
+        ...target,
+        effectiveFrom: { lt: input.effectiveFrom },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gte: input.effectiveFrom } }],
+      },
+      data: { effectiveTo: new Date(input.effectiveFrom.getTime() - ONE_DAY_MS) },
+    });
+
+    return tx.workScheduleAssignment.create({
+      data: {
+        scheduleId: input.scheduleId,
+        ...target,
+        effectiveFrom: input.effectiveFrom,
+        effectiveTo: input.effectiveTo ?? null,
+        createdBy: input.createdBy,
+      },
+      include: { schedule: { select: RULE_FIELDS } },
+    });
+  });
+};
+
+/**
+ * Remove an assignment (one that has not started yet). The assignment it
+ * ended - the one running until the day before it - is reopened up to the
+ * target's next assignment, or open-ended, so no gap falls back to the default.
+ */
+export const removeWorkScheduleAssignment = async (assignment: WorkScheduleAssignment) =>
+  prisma.$transaction(async (tx) => {
+    const target = assignment.employeeId ? { employeeId: assignment.employeeId } : { departmentId: assignment.departmentId };
+
+    await tx.workScheduleAssignment.delete({ where: { id: assignment.id } });
+
+    const next = await tx.workScheduleAssignment.findFirst({
+      where: { ...target, effectiveFrom: { gt: assignment.effectiveFrom } },
+      orderBy: { effectiveFrom: 'asc' },
+    });
+    await tx.workScheduleAssignment.updateMany({
+      where: { ...target, effectiveTo: new Date(assignment.effectiveFrom.getTime() - ONE_DAY_MS) },
+      data: { effectiveTo: next ? new Date(next.effectiveFrom.getTime() - ONE_DAY_MS) : null },
+    });
+  });
@@ -1,5 +1,6 @@
 // @ts-ignore - Prisma enums are exported but TypeScript language server has issues recognizing them
 import type { EmployeeRole, EmployeeUserStatus, EmploymentType, EmployeeStatus, WorkMode, LeaveType, LeaveStatus, PrismaClient } from '@prisma/client';
+import type { Permission } from '../utils/permissions';
 
 // User Types
 export interface IUser {
@@ -9,25 +10,17 @@ export interface IUser {
   lastName: string;
   role: EmployeeRole;
   status: EmployeeUserStatus;
+  mustChangePassword?: boolean; // Client must send the user to change-password before anything else
+  permissions?: Permission[]; // Effective permissions, so the client can hide unavailable actions
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface ILoginRequest {
-  email: string;
-  password: string;
-}
-
-export interface IRegisterRequest {
-  email: string;
-  password: string;
-  firstName: string;
-  lastName: string;
-}
-
 export interface IAuthResponse {
-  token: string;
+  token: string; // Short-lived access token
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
   user: IUser;
 }
 
@@ -85,6 +78,8 @@ export interface IJWTPayload {
   userId: string;
   email: string;
   role: EmployeeRole;
+  tokenVersion?: number; // Must match Employee.tokenVersion (bumped on session revocation)
+  permissions?: Permission[]; // Effective permissions, resolved by authMiddleware on each request (not in the token)
   iat?: number;
   exp?: number;
 }
@@ -1,4 +1,5 @@
 import { prisma } from '../index';
+import { logger } from './logger';
 
 /**
  * Generate next asset tag in format: YAZ-001, YAZ-002, etc.
@@ -56,10 +57,10 @@ export const generateAssetTag = async (maxRetries: number = 10): Promise<string>
     }
     
     // If we exhausted retries, use timestamp-based tag
-    console.warn(`⚠️  Could not generate unique tag after ${maxRetries} attempts, using timestamp-based tag`);
+    logger.warn(`Could not generate unique tag after ${maxRetries} attempts, using timestamp-based tag`);
     return `YAZ-TMP-${Date.now()}`;
   } catch (error) {
-    console.error('Error generating asset tag:', error);
+    logger.error('Error generating asset tag', error);
     // Fallback: use timestamp-based tag
     return `YAZ-TMP-${Date.now()}`;
   }
@@ -1,7 +1,8 @@
 import { prisma } from '../index';
+import { logger } from './logger';
+import { getEmployeeWorkSchedule, getShiftHours, isWorkingDay } from '../services/workScheduleService';
 
 const DUBAI_TIMEZONE_OFFSET = 4; // UTC+4
-const BASE_WORKING_HOURS = 9; // Base working hours per day
 
 /**
  * Get today's date in Dubai timezone (midnight UTC)
@@ -83,18 +84,45 @@ export const getApprovedOvertimeHours = async (employeeId: string, date: Date):
 
     return overtimeRequest?.requestedHours || 0;
   } catch (error) {
-    console.error('Error fetching approved overtime hours:', error);
+    logger.error('Error fetching approved overtime hours', error);
     return 0;
   }
 };
 
 /**
  * Calculate max allowed hours for a specific employee on a specific date
- * Formula: 9 (base) + approved overtime hours
+ * Formula: shift hours of their work schedule (0 on rest days) + approved overtime hours
  */
 export const calculateMaxAllowedHours = async (employeeId: string, date: Date): Promise<number> => {
-  const approvedOvertimeHours = await getApprovedOvertimeHours(employeeId, date);
-  return BASE_WORKING_HOURS + approvedOvertimeHours;
+  const [approvedOvertimeHours, schedule] = await Promise.all([
+    getApprovedOvertimeHours(employeeId, date),
+    getEmployeeWorkSchedule(employeeId, date),
+  ]);
+  const shiftHours = isWorkingDay(schedule, date.getUTCDay()) ? getShiftHours(schedule) : 0;
+  return shiftHours + approvedOvertimeHours;
+};
+
+/**
+ * Overtime and shortfall of a regular shift under the employee's work schedule.
+ * On rest days every hour is overtime and nothing is short.
+ */
+export const evaluateShift = async (employeeId: string, date: Date, hoursWorked: number) => {
+  const [schedule, approvedOvertimeHours] = await Promise.all([
+    getEmployeeWorkSchedule(employeeId, date),
+    getApprovedOvertimeHours(employeeId, date),
+  ]);
+
+  const minimumRequiredHours = isWorkingDay(schedule, date.getUTCDay()) ? getShiftHours(schedule) : 0;
+  let overtime = Math.max(0, hoursWorked - minimumRequiredHours);
+  if (approvedOvertimeHours > 0) {
+    overtime = Math.max(overtime, approvedOvertimeHours);
+  }
+
+  return {
+    minimumRequiredHours,
+    overtime,
+    hoursShort: Math.max(0, minimumRequiredHours - hoursWorked),
+  };
 };
 
 /**
@@ -188,51 +216,11 @@ export const getApprovedOvertimeRequestDetails = async (employeeId: string, date
 
     return overtimeRequest || null;
   } catch (error) {
-    console.error('Error fetching approved overtime request details:', error);
+    logger.error('Error fetching approved overtime request details', error);
     return null;
   }
 };
 
-/**
- * Check if an employee should be excluded from attendance tracking
- * Excludes:
- * - Employees with MANAGEMENT role
- * - Specific employee IDs configured for manual exclusions
- */
-export const shouldExcludeFromAttendance = async (employeeId: string): Promise<boolean> => {
-  try {
-    const employee = await prisma.employee.findUnique({
-      where: { id: employeeId },
-      select: {
-        role: true,
-        firstName: true,
-        lastName: true,
-      },
-    });
-
-    if (!employee) return false;
-
-    // Exclude MANAGEMENT role
-    if (employee.role === 'MANAGEMENT') {
-      return true;
-    }
-
-    const excludedEmployeeIds = new Set([
-      '5b1125e9-d44e-45f4-a531-cd4de4287b5a',
-      'd2b2061f-bad5-4970-af15-1ab604f4901e',
-    ]);
-
-    if (excludedEmployeeIds.has(employeeId.toLowerCase())) {
-      return true;
-    }
-
-    return false;
-  } catch (error) {
-    console.error('Error checking attendance exclusion:', error);
-    return false;
-  }
-};
-
 /**
  * Calculate button states based on attendance and overtime status
  * Used by WebSocket to send real-time button state updates
@@ -0,0 +1,178 @@
+import { AuditAction, Prisma } from '@prisma/client';
+import { ENCRYPTED_FIELDS, decryptValue } from './fieldEncryption';
+import { getRequestContext } from './requestContext';
+import { logger } from './logger';
+
+/**
+ * Prisma client extension recording an AuditLog row for every created,
+ * updated or deleted record, with the actor and IP of the current request
+ * (see utils/requestContext) and a `{ field: { old, new } }` diff of its
+ * scalar fields.
+ *
+ * Inside an interactive transaction (`prisma.$transaction(async (tx) => ...)`)
+ * the previous and new states are read, and the entries written, through that
+ * transaction: they see its uncommitted writes and roll back with it.
+ */
+
+// High-volume or credential tables whose changes are not worth auditing
+const EXCLUDED_MODELS = new Set(['AuditLog', 'RefreshToken', 'PasswordResetToken', 'LoginAttempt', 'JobRun']);
+
+// Bookkeeping fields left out of diffs (an update touching only these is not logged)
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt', 'lastLogin', 'failedLoginAttempts', 'lastFailedLoginAt']);
+
+// Fields whose values never reach the audit log - only the fact that they changed
+const SECRET_FIELDS = new Set(['password', 'tokenVersion', 'tokenHash']);
+
+const REDACTED = '[REDACTED]';
+
+// Scalar fields per model (from the generated datamodel)
+const SCALAR_FIELDS: Record<string, string[]> = Object.fromEntries(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    model.fields.filter((field) => field.kind === 'scalar' || field.kind === 'enum').map((field) => field.name),
+  ])
+);
+
+const isRedactedField = (model: string, field: string): boolean => {
+  const config = ENCRYPTED_FIELDS[model];
+  return (
+    SECRET_FIELDS.has(field) ||
+    !!config?.fields.includes(field) ||
+    Object.values(config?.hashes || {}).includes(field)
+  );
+};
+
+// JSON-safe, comparable form of a field value (Dates, Decimals, encrypted strings)
+const normalizeValue = (value: any): any => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string') return decryptValue(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (Prisma.Decimal.isDecimal(value)) return value.toString();
+  return value;
+};
+
+const diffRecords = (model: string, before: Record<string, any> | null, after: Record<string, any> | null) => {
+  const changes: Record<string, { old: any; new: any }> = {};
+
+  for (const field of SCALAR_FIELDS[model] || []) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const oldValue = normalizeValue(before?.[field]);
+    const newValue = normalizeValue(after?.[field]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    changes[field] = isRedactedField(model, field)
+      ? { old: oldValue === null ? null : REDACTED, new: newValue === null ? null : REDACTED }
+      : { old: oldValue, new: newValue };
+  }
+
+  return changes;
+};
+
+const SINGLE_WRITES = new Set(['create', 'update', 'upsert', 'delete']);
+const BULK_WRITES = new Set(['createMany', 'createManyAndReturn', 'updateMany', 'updateManyAndReturn', 'deleteMany']);
+
+export const auditLogExtension = Prisma.defineExtension((client) => {
+  // The unextended client bound to the caller's interactive transaction, if the write runs in one
+  const clientFor = (transaction: any): any =>
+    transaction?.kind === 'itx' ? (client as any)._createItxClient(transaction) : client;
+
+  const delegateFor = (db: any, model: string): any => db[model.charAt(0).toLowerCase() + model.slice(1)];
+
+  const writeEntries = async (
+    db: any,
+    model: string,
+    entries: { entityId: string | null; action: AuditAction; changes: Record<string, any> }[]
+  ): Promise<void> => {
+    const context = getRequestContext();
+    const data = entries
+      .filter((entry) => Object.keys(entry.changes).length > 0)
+      .map((entry) => ({
+        ...entry,
+        entity: model,
+        actorId: context?.actorId ?? null,
+        ipAddress: context?.ipAddress ?? null,
+      }));
+    if (data.length === 0) return;
+
+    try {
+      await db.auditLog.createMany({ data });
+    } catch (error) {
+      // Never fail the business write because its audit entry could not be stored
+      // (inside a transaction, Postgres aborts it anyway and the caller sees that error)
+      logger.error(`Failed to write audit log for ${model}`, error);
+    }
+  };
+
+  return client.$extends({
+    name: 'auditLog',
+    query: {
+      $allModels: {
+        async $allOperations(params) {
+          const { model, operation, args, query } = params;
+          if (EXCLUDED_MODELS.has(model) || (!SINGLE_WRITES.has(operation) && !BULK_WRITES.has(operation))) {
+            return query(args);
+          }
+
+          const queryArgs: any = args;
+          const db = clientFor((params as any).__internalParams?.transaction);
+          const delegate = delegateFor(db, model);
+
+          if (SINGLE_WRITES.has(operation)) {
+            const before =
+              operation === 'create' ? null : await delegate.findUnique({ where: queryArgs.where });
+            const result: any = await query(args);
+
+            // Results narrowed by `select` may miss fields, so read the record back
+            let after: any = null;
+            if (operation !== 'delete') {
+              after = queryArgs.select && result?.id ? await delegate.findUnique({ where: { id: result.id } }) : result;
+            }
+
+            const action = !before ? AuditAction.CREATE : after ? AuditAction.UPDATE : AuditAction.DELETE;
+            await writeEntries(db, model, [
+              { entityId: (after || before)?.id ?? null, action, changes: diffRecords(model, before, after) },
+            ]);
+            return result;
+          }
+
+          if (operation === 'createMany' || operation === 'createManyAndReturn') {
+            const result: any = await query(args);
+            const created: any[] = Array.isArray(result) ? result : [].concat(queryArgs.data || []);
+            await writeEntries(
+              db,
+              model,
+              created.map((record) => ({
+                entityId: record.id ?? null,
+                action: AuditAction.CREATE,
+                changes: diffRecords(model, null, record),
+              }))
+            );
+            return result;
+          }
+
+          // updateMany / updateManyAndReturn / deleteMany
+          const before: any[] = await delegate.findMany({ where: queryArgs.where });
+          const result: any = await query(args);
+          const after: any[] =
+            operation === 'deleteMany' || before.length === 0
+              ? []
+              : await delegate.findMany({ where: { id: { in: before.map((record) => record.id) } } });
+          const afterById = new Map(after.map((record) => [record.id, record]));
+
+          await writeEntries(
+            db,
+            model,
+            before.map((record) => ({
+              entityId: record.id,
+              action: operation === 'deleteMany' ? AuditAction.DELETE : AuditAction.UPDATE,
+              changes: diffRecords(model, record, afterById.get(record.id) ?? null),
+            }))
+          );
+          return result;
+        },
+      },
+    },
+  });
+});
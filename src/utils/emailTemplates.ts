@@ -256,3 +256,246 @@ export const generateLeaveRequestEmailBody = (data: LeaveRequestEmailData): stri
 
 
 
+
+/**
+ * Generate contract expiry reminder email body
+ */
+interface ContractExpiryReminderEmailData {
+  employeeName: string;
+  employeeId: string;
+  contractNumber: string;
+  contractType: string;
+  endDate: Date | string;
+  daysUntilExpiry: number;
+  autoRenewal: boolean;
+}
+
+export const generateContractExpiryReminderEmailBody = (data: ContractExpiryReminderEmailData): string => {
+  const { employeeName, employeeId, contractNumber, contractType, endDate, daysUntilExpiry, autoRenewal } = data;
+
+  const bodyContent = `
+    <table width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f8f9fa;">
+      <tr>
+        <td align="center">
+          <table width="600" cellpadding="0" cellspacing="0" border="0" style="background-color: #ffffff; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+            <tr>
+              <td style="padding: 40px 30px;">
+                <h2 style="margin: 0 0 20px 0; color: #212529; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 24px; font-weight: 600;">
+                  Contract Expiring Soon
+                </h2>
+
+                <div style="margin-bottom: 30px;">
+                  <h3 style="margin: 0 0 15px 0; color: #495057; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 16px; font-weight: 600;">
+                    Contract Details
+                  </h3>
+                  <table width="100%" cellpadding="8" cellspacing="0" border="0" style="background-color: #f8f9fa; border-radius: 6px;">
+                    <tr>
+                      <td style="padding: 12px; color: #6c757d; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px; font-weight: 600; width: 150px; vertical-align: top;">
+                        Employee:
+                      </td>
+                      <td style="padding: 12px; color: #212529; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px;">
+                        ${employeeName} (${employeeId})
+                      </td>
+                    </tr>
+                    <tr>
+                      <td style="padding: 12px; color: #6c757d; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px; font-weight: 600; width: 150px; vertical-align: top;">
+                        Contract:
+                      </td>
+                      <td style="padding: 12px; color: #212529; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px;">
+                        ${contractNumber} (${contractType.replace(/_/g, ' ')})
+                      </td>
+                    </tr>
+                    <tr>
+                      <td style="padding: 12px; color: #6c757d; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px; font-weight: 600; width: 150px; vertical-align: top;">
+                        End Date:
+                      </td>
+                      <td style="padding: 12px; color: #212529; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px;">
+                        ${formatDate(endDate)}
+                      </td>
+                    </tr>
+                    <tr>
+                      <td style="padding: 12px; color: #6c757d; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px; font-weight: 600; width: 150px; vertical-align: top;">
+                        Expires In:
+                      </td>
+                      <td style="padding: 12px; color: #212529; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px;">
+                        <span style="display: inline-block; padding: 4px 12px; background-color: #fff3cd; color: #856404; border-radius: 4px; font-weight: 600; font-size: 12px;">
+                          ${daysUntilExpiry} ${daysUntilExpiry === 1 ? 'day' : 'days'}
+                        </span>
+                      </td>
+                    </tr>
+                  </table>
+                </div>
+
+                <div style="margin-top: 30px; padding: 20px; background-color: #e7f3ff; border-radius: 6px; border-left: 4px solid #0066cc;">
+                  <h3 style="margin: 0 0 10px 0; color: #004085; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 16px; font-weight: 600;">
+                    Next Steps
+                  </h3>
+                  <ul style="margin: 0; padding-left: 20px; color: #004085; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px; line-height: 1.8;">
+                    ${autoRenewal
+                      ? '<li>This contract is set to renew automatically on its end date</li><li>Disable auto-renewal or initiate a renegotiation if the terms should change</li>'
+                      : '<li>Decide whether the contract should be renewed, extended or allowed to expire</li><li>Initiate a renewal through the internal system before the end date</li>'}
+                  </ul>
+                </div>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  `;
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Contract Expiring Soon</title>
+    </head>
+    <body style="margin: 0; padding: 0; background-color: #f8f9fa;">
+      ${getEmailHeader()}
+      ${bodyContent}
+      ${getEmailFooter()}
+    </body>
+    </html>
+  `;
+};
+
+/**
+ * Build an email asking the recipient to follow a single-use password link
+ */
+interface PasswordLinkEmailContent {
+  title: string;
+  greeting: string;
+  intro: string;
+  buttonLabel: string;
+  link: string;
+  expiryNote: string;
+  closingNote: string;
+}
+
+const buildPasswordLinkEmail = (content: PasswordLinkEmailContent): string => {
+  const { title, greeting, intro, buttonLabel, link, expiryNote, closingNote } = content;
+
+  const bodyContent = `
+    <table width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f8f9fa;">
+      <tr>
+        <td align="center">
+          <table width="600" cellpadding="0" cellspacing="0" border="0" style="background-color: #ffffff; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+            <tr>
+              <td style="padding: 40px 30px;">
+                <h2 style="margin: 0 0 20px 0; color: #212529; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 24px; font-weight: 600;">
+                  ${title}
+                </h2>
+                <p style="margin: 0 0 15px 0; color: #212529; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px; line-height: 1.6;">
+                  ${greeting}
+                </p>
+                <p style="margin: 0 0 25px 0; color: #212529; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px; line-height: 1.6;">
+                  ${intro}
+                </p>
+                <table cellpadding="0" cellspacing="0" border="0" style="margin: 0 auto 25px auto;">
+                  <tr>
+                    <td style="border-radius: 6px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);">
+                      <a href="${link}" style="display: inline-block; padding: 14px 28px; color: #ffffff; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px; font-weight: 600; text-decoration: none;">
+                        ${buttonLabel}
+                      </a>
+                    </td>
+                  </tr>
+                </table>
+                <p style="margin: 0 0 15px 0; color: #6c757d; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 12px; line-height: 1.6; word-break: break-all;">
+                  If the button does not work, copy this link into your browser:<br>${link}
+                </p>
+                <div style="margin-top: 25px; padding: 20px; background-color: #fff3cd; border-radius: 6px; border-left: 4px solid #ffc107;">
+                  <p style="margin: 0; color: #856404; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; font-size: 14px; line-height: 1.6;">
+                    ${expiryNote} ${closingNote}
+                  </p>
+                </div>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  `;
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title}</title>
+    </head>
+    <body style="margin: 0; padding: 0; background-color: #f8f9fa;">
+      ${getEmailHeader()}
+      ${bodyContent}
+      ${getEmailFooter()}
+    </body>
+    </html>
+  `;
+};
+
+/**
+ * Generate forgot-password email body
+ */
+interface PasswordResetEmailData {
+  employeeName: string;
+  resetLink: string;
+  expiresInMinutes: number;
+}
+
+export const generatePasswordResetEmailBody = (data: PasswordResetEmailData): string => {
+  return buildPasswordLinkEmail({
+    title: 'Reset Your Password',
+    greeting: `Hello ${data.employeeName},`,
+    intro: 'We received a request to reset the password of your YAZ Media HR account. Click the button below to choose a new password.',
+    buttonLabel: 'Reset Password',
+    link: data.resetLink,
+    expiryNote: `This link expires in ${data.expiresInMinutes} minutes and can only be used once.`,
+    closingNote: 'If you did not request a password reset, you can ignore this email - your password will not change.',
+  });
+};
+
+/**
+ * Generate new employee invitation email body
+ */
+interface EmployeeInvitationEmailData {
+  employeeName: string;
+  email: string;
+  setPasswordLink: string;
+  expiresInHours: number;
+}
+
+export const generateEmployeeInvitationEmailBody = (data: EmployeeInvitationEmailData): string => {
+  return buildPasswordLinkEmail({
+    title: 'Welcome to YAZ Media',
+    greeting: `Hello ${data.employeeName},`,
+    intro: `An account has been created for you on the YAZ Media HR system. Your username is <strong>${data.email}</strong>. Click the button below to set your password and sign in.`,
+    buttonLabel: 'Set Password',
+    link: data.setPasswordLink,
+    expiryNote: `This link expires in ${data.expiresInHours} hours and can only be used once.`,
+    closingNote: 'If it has expired, use "Forgot password" on the sign-in page to get a new link.',
+  });
+};
+
+/**
+ * Generate account lockout email body
+ */
+interface AccountLockedEmailData {
+  employeeName: string;
+  failedAttempts: number;
+  lockedUntil: Date;
+  resetLink: string;
+}
+
+export const generateAccountLockedEmailBody = (data: AccountLockedEmailData): string => {
+  return buildPasswordLinkEmail({
+    title: 'Account Temporarily Locked',
+    greeting: `Hello ${data.employeeName},`,
+    intro: `Your YAZ Media HR account was locked after ${data.failedAttempts} failed sign-in attempts. If this was not you, reset your password now.`,
+    buttonLabel: 'Reset Password',
+    link: data.resetLink,
+    expiryNote: `Password sign-in is blocked until ${data.lockedUntil.toLocaleString('en-GB', { timeZone: 'Asia/Dubai' })} (Dubai time).`,
+    closingNote: 'HR or Management can unlock your account sooner if needed.',
+  });
+};
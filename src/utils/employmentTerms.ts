@@ -0,0 +1,75 @@
+/**
+ * Employment Terms
+ *
+ * Probation periods and contract durations are stored on the employee as
+ * free-text labels ("6 months", "Permanent"); these helpers read and write
+ * them and derive the dates that follow from the join date.
+ */
+
+const PERMANENT_LABELS = new Set(['permanent', 'permanent contract', 'indefinite', 'no fixed term']);
+
+export const parseMonthsMetadata = (
+  input?: string | null
+): { months: number | null; isPermanent: boolean } => {
+  if (input === null || input === undefined) {
+    return { months: null, isPermanent: false };
+  }
+
+  const normalized = String(input).trim();
+  if (!normalized) {
+    return { months: null, isPermanent: false };
+  }
+
+  const lowered = normalized.toLowerCase();
+  if (PERMANENT_LABELS.has(lowered)) {
+    return { months: null, isPermanent: true };
+  }
+
+  const match = lowered.match(/(\d+(\.\d+)?)/);
+  if (!match) {
+    return { months: null, isPermanent: false };
+  }
+
+  const parsed = Number(match[1]);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return { months: null, isPermanent: false };
+  }
+
+  return { months: Math.round(parsed), isPermanent: false };
+};
+
+export const formatMonthsLabel = (months: number): string => {
+  const rounded = Math.round(months);
+  return `${rounded} month${rounded === 1 ? '' : 's'}`;
+};
+
+export const computeConfirmationDate = (
+  joinDate: Date | null | undefined,
+  months: number | null
+): Date | null => {
+  if (!joinDate || months === null) return null;
+
+  const base = new Date(joinDate);
+  base.setHours(0, 0, 0, 0);
+
+  const result = new Date(base);
+  result.setMonth(result.getMonth() + months);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+export const computeContractExpiryDate = (
+  joinDate: Date | null | undefined,
+  months: number | null
+): Date | null => {
+  if (!joinDate || months === null) return null;
+
+  const base = new Date(joinDate);
+  base.setHours(0, 0, 0, 0);
+
+  const result = new Date(base);
+  result.setMonth(result.getMonth() + months);
+  result.setDate(result.getDate() - 1);
+  result.setHours(23, 59, 59, 999);
+  return result;
+};
@@ -0,0 +1,137 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Error Model
+ *
+ * Controllers and services throw these instead of building error responses;
+ * the error handler middleware turns them (and Prisma errors) into HTTP
+ * responses via toErrorResponse, so every error has the same shape:
+ *   { success: false, error: <message>, code: <CODE>, details?, requestId }
+ * Anything else becomes a 500 whose message is never sent to the client.
+ */
+
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 400, 'VALIDATION_ERROR', details);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Unauthorized') {
+    super(message, 401, 'UNAUTHORIZED');
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'Forbidden', code = 'FORBIDDEN') {
+    super(message, 403, code);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = 'Resource not found') {
+    super(message, 404, 'NOT_FOUND');
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 409, 'CONFLICT', details);
+  }
+}
+
+// A feature needs settings (environment variables) that are missing or invalid
+export class ConfigurationError extends AppError {
+  constructor(message: string) {
+    super(message, 503, 'CONFIGURATION_ERROR');
+  }
+}
+
+export interface ErrorResponse {
+  statusCode: number;
+  body: { success: false; error: string; code: string; details?: unknown };
+}
+
+const fromPrismaError = (error: Prisma.PrismaClientKnownRequestError): ErrorResponse | null => {
+  switch (error.code) {
+    // Unique constraint violation
+    case 'P2002': {
+      const target = error.meta?.target;
+      const fields = Array.isArray(target) ? target.join(', ') : typeof target === 'string' ? target : null;
+      return {
+        statusCode: 409,
+        body: {
+          success: false,
+          error: fields ? `A record with this ${fields} already exists` : 'A record with these values already exists',
+          code: 'CONFLICT',
+          ...(fields && { details: { fields: Array.isArray(target) ? target : [target] } }),
+        },
+      };
+    }
+    // Foreign key constraint violation
+    case 'P2003':
+      return {
+        statusCode: 409,
+        body: { success: false, error: 'The record is referenced by or refers to a missing record', code: 'CONFLICT' },
+      };
+    // Record to update/delete not found
+    case 'P2025':
+      return { statusCode: 404, body: { success: false, error: 'Resource not found', code: 'NOT_FOUND' } };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Map any thrown value to its HTTP status and response body
+ */
+export const toErrorResponse = (error: unknown): ErrorResponse => {
+  if (error instanceof AppError) {
+    return {
+      statusCode: error.statusCode,
+      body: {
+        success: false,
+        error: error.message,
+        code: error.code,
+        ...(error.details !== undefined && { details: error.details }),
+      },
+    };
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    const mapped = fromPrismaError(error);
+    if (mapped) return mapped;
+  }
+
+  // File too large, too many files, ... (errors raised by multer)
+  if ((error as any)?.name === 'MulterError') {
+    return { statusCode: 400, body: { success: false, error: (error as Error).message, code: 'VALIDATION_ERROR' } };
+  }
+
+  // Malformed JSON bodies, payloads too large, ... (errors raised by body-parser)
+  const status = (error as any)?.status ?? (error as any)?.statusCode;
+  if (typeof status === 'number' && status >= 400 && status < 500 && (error as any)?.expose) {
+    return {
+      statusCode: status,
+      body: {
+        success: false,
+        error: (error as any).type === 'entity.parse.failed' ? 'Malformed JSON body' : (error as Error).message,
+        code: 'BAD_REQUEST',
+      },
+    };
+  }
+
+  return { statusCode: 500, body: { success: false, error: 'Internal server error', code: 'INTERNAL_SERVER_ERROR' } };
+};
@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+
+/**
+ * Field Encryption
+ *
+ * Envelope encryption for sensitive columns (IBANs, routing numbers, MOL IDs,
+ * personal contact details, and the bank salary files listing them). Every value gets its own random data key; the
+ * data key is wrapped with the master key from FIELD_ENCRYPTION_KEY, so
+ * rotating the master key only re-wraps data keys instead of re-encrypting data.
+ *
+ * Stored format (all parts base64url):
+ *   enc:v1:<masterKeyId>:<wrappedDataKey>:<iv>:<authTag>:<ciphertext>
+ *
+ * Ciphertext is randomised, so equality lookups use a separate deterministic
+ * HMAC column (e.g. EmployeeBank.ibanHash) keyed with FIELD_ENCRYPTION_HASH_KEY.
+ *
+ * Keys are 32 random bytes, base64 encoded (`openssl rand -base64 32`).
+ * Previous master keys stay readable through FIELD_ENCRYPTION_PREVIOUS_KEYS
+ * (comma separated) until `npm run encryption:rotate` has re-wrapped every value.
+ */
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * Columns encrypted per model, and the hash column kept for a field (if any)
+ */
+export const ENCRYPTED_FIELDS: Record<string, { fields: string[]; hashes?: Record<string, string> }> = {
+  Employee: {
+    fields: ['personalEmail', 'phone', 'address', 'molId'],
+  },
+  EmployeeBank: {
+    fields: ['iban', 'routingNumber'],
+    hashes: { iban: 'ibanHash' },
+  },
+  BankDetailChangeRequest: {
+    fields: ['currentIban', 'currentRoutingNumber', 'newIban', 'newRoutingNumber'],
+    hashes: { newIban: 'newIbanHash' },
+  },
+  PayrollBankFile: {
+    fields: ['content'],
+  },
+};
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let keyring: { current: MasterKey; all: Map<string, MasterKey>; hashKey: Buffer } | null = null;
+
+const parseKey = (value: string, name: string): Buffer => {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes, base64 encoded`);
+  }
+  return key;
+};
+
+const toMasterKey = (key: Buffer): MasterKey => ({
+  id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 8),
+  key,
+});
+
+const getKeyring = () => {
+  if (keyring) return keyring;
+
+  const currentValue = process.env.FIELD_ENCRYPTION_KEY;
+  const hashValue = process.env.FIELD_ENCRYPTION_HASH_KEY;
+  if (!currentValue || !hashValue) {
+    throw new Error('FIELD_ENCRYPTION_KEY and FIELD_ENCRYPTION_HASH_KEY must be set');
+  }
+
+  const current = toMasterKey(parseKey(currentValue, 'FIELD_ENCRYPTION_KEY'));
+  const all = new Map<string, MasterKey>([[current.id, current]]);
+
+  (process.env.FIELD_ENCRYPTION_PREVIOUS_KEYS || '')
+    .split(',')
+    .filter((value) => value.trim())
+    .forEach((value) => {
+      const previous = toMasterKey(parseKey(value, 'FIELD_ENCRYPTION_PREVIOUS_KEYS'));
+      all.set(previous.id, previous);
+    });
+
+  keyring = { current, all, hashKey: parseKey(hashValue, 'FIELD_ENCRYPTION_HASH_KEY') };
+  return keyring;
+};
+
+/**
+ * Fail fast at startup when the encryption keys are missing or malformed
+ */
+export const assertFieldEncryptionConfigured = (): void => {
+  getKeyring();
+};
+
+const seal = (key: Buffer, plaintext: Buffer): string[] => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url'));
+};
+
+const open = (key: Buffer, [iv, tag, ciphertext]: string[]): Buffer => {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]);
+};
+
+export const isEncryptedValue = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(PREFIX);
+
+const parseEnvelope = (value: string) => {
+  const [keyId, wrappedKey, iv, tag, ciphertext] = value.slice(PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !iv || !tag || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const masterKey = getKeyring().all.get(keyId);
+  if (!masterKey) {
+    throw new Error(`No encryption key available for key id ${keyId}`);
+  }
+
+  return { masterKey, wrappedKey, iv, tag, ciphertext };
+};
+
+/**
+ * Encrypt a value; empty values and already encrypted values are returned as-is
+ */
+export const encryptValue = <T extends string | null | undefined>(value: T): T => {
+  if (!value || isEncryptedValue(value)) return value;
+
+  const { current } = getKeyring();
+  const dataKey = crypto.randomBytes(32);
+  const wrappedKey = seal(current.key, dataKey).join('.');
+  const sealed = seal(dataKey, Buffer.from(value, 'utf8'));
+
+  return `${PREFIX}${current.id}:${wrappedKey}:${sealed.join(':')}` as T;
+};
+
+/**
+ * Decrypt a value; plaintext (not yet migrated) values are returned as-is
+ */
+export const decryptValue = <T extends string | null | undefined>(value: T): T => {
+  if (!isEncryptedValue(value)) return value;
+
+  const { masterKey, wrappedKey, iv, tag, ciphertext } = parseEnvelope(value);
+  const dataKey = open(masterKey.key, wrappedKey.split('.'));
+
+  return open(dataKey, [iv, tag, ciphertext]).toString('utf8') as T;
+};
+
+/**
+ * Re-wrap a value's data key with the current master key (no-op if already current)
+ */
+export const rewrapValue = (value: string): string => {
+  if (!isEncryptedValue(value)) return value;
+
+  const { current } = getKeyring();
+  const { masterKey, wrappedKey, iv, tag, ciphertext } = parseEnvelope(value);
+  if (masterKey.id === current.id) return value;
+
+  const dataKey = open(masterKey.key, wrappedKey.split('.'));
+  return `${PREFIX}${current.id}:${seal(current.key, dataKey).join('.')}:${iv}:${tag}:${ciphertext}`;
+};
+
+/**
+ * Whether a stored value is still wrapped with an older master key
+ */
+export const needsRewrap = (value: unknown): boolean =>
+  isEncryptedValue(value) && value.slice(PREFIX.length).split(':')[0] !== getKeyring().current.id;
+
+/**
+ * Deterministic lookup hash of a value (IBANs are compared without spaces, upper-case)
+ */
+export const hashLookupValue = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+
+  const normalized = value.replace(/\s+/g, '').toUpperCase();
+  return crypto.createHmac('sha256', getKeyring().hashKey).update(normalized).digest('hex');
+};
@@ -0,0 +1,147 @@
+import { Prisma } from '@prisma/client';
+import { ENCRYPTED_FIELDS, encryptValue, decryptValue, hashLookupValue, isEncryptedValue } from './fieldEncryption';
+
+/**
+ * Prisma client extension applying field encryption transparently:
+ * - write arguments (including nested relation writes) have their encrypted
+ *   columns encrypted and the matching hash columns filled in
+ * - results have every encrypted value decrypted, whatever model it came from
+ * Filtering on an encrypted column does not work; use its hash column instead.
+ */
+
+// Relation field -> related model, per model (from the generated datamodel)
+const RELATIONS: Record<string, Record<string, string>> = Object.fromEntries(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    Object.fromEntries(model.fields.filter((field) => field.kind === 'object').map((field) => [field.name, field.type])),
+  ])
+);
+
+const WRITE_OPERATIONS = new Set([
+  'create',
+  'createMany',
+  'createManyAndReturn',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'upsert',
+]);
+
+// Keys of a nested relation write that carry data for the related model
+const NESTED_DATA_KEYS = ['create', 'createMany', 'update', 'updateMany', 'upsert', 'connectOrCreate'];
+
+const encryptScalars = (model: string, data: Record<string, any>): Record<string, any> => {
+  const config = ENCRYPTED_FIELDS[model];
+  if (!config) return data;
+
+  const result = { ...data };
+  for (const field of config.fields) {
+    if (!(field in result)) continue;
+
+    // `{ set: value }` is the long form of a scalar update
+    const isSetOperation = result[field] !== null && typeof result[field] === 'object' && 'set' in result[field];
+    const value = isSetOperation ? result[field].set : result[field];
+    if (typeof value !== 'string') continue;
+
+    const hashField = config.hashes?.[field];
+    if (hashField && !isEncryptedValue(value)) {
+      result[hashField] = hashLookupValue(value);
+    }
+    result[field] = isSetOperation ? { set: encryptValue(value) } : encryptValue(value);
+  }
+
+  return result;
+};
+
+// `{ where, data }` wrapper used by nested updates (always for to-many, optionally for to-one)
+const isWrappedUpdate = (payload: Record<string, any>): boolean =>
+  'data' in payload && Object.keys(payload).every((key) => key === 'where' || key === 'data');
+
+const encryptNestedWrite = (model: string, key: string, payload: any): any => {
+  if (!payload || typeof payload !== 'object') return payload;
+
+  switch (key) {
+    case 'createMany':
+      return { ...payload, data: encryptWriteData(model, payload.data) };
+    case 'upsert':
+    case 'connectOrCreate':
+      return {
+        ...payload,
+        create: encryptWriteData(model, payload.create),
+        ...(payload.update && { update: encryptWriteData(model, payload.update) }),
+      };
+    case 'update':
+    case 'updateMany':
+      return isWrappedUpdate(payload)
+        ? { ...payload, data: encryptWriteData(model, payload.data) }
+        : encryptWriteData(model, payload);
+    default:
+      return encryptWriteData(model, payload);
+  }
+};
+
+/**
+ * Copy of write data with encrypted columns encrypted, following nested relation writes
+ */
+const encryptWriteData = (model: string, data: any): any => {
+  if (Array.isArray(data)) {
+    return data.map((item) => encryptWriteData(model, item));
+  }
+  if (!data || typeof data !== 'object') return data;
+
+  const result = encryptScalars(model, data);
+
+  for (const [field, relatedModel] of Object.entries(RELATIONS[model] || {})) {
+    const nested = result[field];
+    if (!nested || typeof nested !== 'object') continue;
+
+    const encryptedNested = { ...nested };
+    for (const key of NESTED_DATA_KEYS) {
+      if (!(key in encryptedNested)) continue;
+      encryptedNested[key] = Array.isArray(encryptedNested[key])
+        ? encryptedNested[key].map((payload: any) => encryptNestedWrite(relatedModel, key, payload))
+        : encryptNestedWrite(relatedModel, key, encryptedNested[key]);
+    }
+    result[field] = encryptedNested;
+  }
+
+  return result;
+};
+
+const decryptResult = (value: any): any => {
+  if (isEncryptedValue(value)) {
+    return decryptValue(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(decryptResult);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date) && !Buffer.isBuffer(value)) {
+    for (const key of Object.keys(value)) {
+      value[key] = decryptResult(value[key]);
+    }
+  }
+  return value;
+};
+
+export const fieldEncryptionExtension = Prisma.defineExtension({
+  name: 'fieldEncryption',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        let queryArgs: any = args;
+        if (WRITE_OPERATIONS.has(operation)) {
+          queryArgs =
+            operation === 'upsert'
+              ? {
+                  ...queryArgs,
+                  create: encryptWriteData(model, queryArgs.create),
+                  update: encryptWriteData(model, queryArgs.update),
+                }
+              : { ...queryArgs, data: encryptWriteData(model, queryArgs.data) };
+        }
+
+        return decryptResult(await query(queryArgs));
+      },
+    },
+  },
+});
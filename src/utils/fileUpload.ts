@@ -6,6 +6,8 @@ import * as path from 'path';
 import * as https from 'https';
 import * as http from 'http';
 import * as fs from 'fs/promises';
+import { logger } from './logger';
+import { ValidationError } from './errors';
 
 // Configure S3 client for DigitalOcean Spaces
 function getS3Client() {
@@ -39,7 +41,7 @@ export const upload = multer({
     if (mimetype && extname) {
       return cb(null, true);
     } else {
-      cb(new Error('Only images (jpeg, jpg, png, gif) and PDF files are allowed'));
+      cb(new ValidationError('Only images (jpeg, jpg, png, gif) and PDF files are allowed'));
     }
   },
 });
@@ -57,7 +59,7 @@ async function uploadFileToLocal(
   try {
     await fs.mkdir(uploadsDir, { recursive: true });
   } catch (error) {
-    console.error('Error creating uploads directory:', error);
+    logger.error('Error creating uploads directory', error);
     throw new Error('Failed to create uploads directory');
   }
 
@@ -72,10 +74,10 @@ async function uploadFileToLocal(
     const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
     const fileUrl = `${baseUrl}/uploads/${folder}/${fileName}`;
     
-    console.log('✅ File saved locally:', fileUrl);
+    logger.info('File saved locally', fileUrl);
     return fileUrl;
   } catch (error: any) {
-    console.error('❌ Error saving file locally:', error);
+    logger.error('Error saving file locally', error);
     throw new Error(`Failed to save file: ${error.message || 'Unknown error'}`);
   }
 }
@@ -96,7 +98,7 @@ export async function uploadFileToSpaces(
 
   // If Spaces is not configured, use local storage (development fallback)
   if (!isSpacesConfigured) {
-    console.log('⚠️ DigitalOcean Spaces not configured, using local file storage');
+    logger.info('DigitalOcean Spaces not configured, using local file storage');
     return await uploadFileToLocal(file, folder);
   }
 
@@ -126,7 +128,7 @@ export async function uploadFileToSpaces(
   };
 
   try {
-    console.log('📤 Uploading file to Spaces:', {
+    logger.info('Uploading file to Spaces', {
       bucket: BUCKET_NAME,
       key: fileName,
       size: file.buffer.length,
@@ -137,11 +139,11 @@ export async function uploadFileToSpaces(
     await s3Client.send(new PutObjectCommand(uploadParams));
     
     const fileUrl = `${process.env.SPACES_CDN_URL}/${fileName}`;
-    console.log('✅ File uploaded successfully to:', fileUrl);
+    logger.info('File uploaded successfully to', fileUrl);
     return fileUrl;
   } catch (error: any) {
-    console.error('❌ Error uploading file to Spaces:', error);
-    console.error('Error details:', {
+    logger.error('Error uploading file to Spaces', error);
+    logger.error('Error details', {
       message: error.message,
       code: error.Code,
       region: error.$metadata?.region,
@@ -151,6 +153,72 @@ export async function uploadFileToSpaces(
   }
 }
 
+const isSpacesConfigured = (): boolean =>
+  !!(
+    process.env.SPACES_ENDPOINT &&
+    process.env.SPACES_ACCESS_KEY_ID &&
+    process.env.SPACES_SECRET_ACCESS_KEY
+  );
+
+// Local fallback for private files - outside uploads/, which is served statically
+const getPrivateStoragePath = (key: string): string => path.join(process.cwd(), 'storage', key);
+
+/**
+ * Store a private file (no public URL) in DigitalOcean Spaces or local storage.
+ * Returns the storage key to read it back with readPrivateFile.
+ */
+export async function storePrivateFile(
+  file: Express.Multer.File,
+  folder: string
+): Promise<string> {
+  const key = `${folder}/${uuidv4()}${path.extname(file.originalname)}`;
+
+  if (!isSpacesConfigured()) {
+    const filePath = getPrivateStoragePath(key);
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, file.buffer);
+    } catch (error: any) {
+      logger.error('Error saving private file locally', error);
+      throw new Error(`Failed to save file: ${error.message || 'Unknown error'}`);
+    }
+    logger.info('Private file saved locally', key);
+    return key;
+  }
+
+  try {
+    // No ACL: objects are private unless made public
+    await getS3Client().send(
+      new PutObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        Body: file.buffer,
+        ContentType: file.mimetype,
+      })
+    );
+  } catch (error: any) {
+    logger.error('Error uploading private file to Spaces', error);
+    throw new Error(`Failed to upload file: ${error.message || 'Unknown error'}`);
+  }
+  logger.info('Private file uploaded to Spaces', key);
+  return key;
+}
+
+/**
+ * Read a file stored with storePrivateFile
+ */
+export async function readPrivateFile(key: string): Promise<Buffer> {
+  if (!isSpacesConfigured()) {
+    return fs.readFile(getPrivateStoragePath(key));
+  }
+
+  const response = await getS3Client().send(new GetObjectCommand({ Bucket: BUCKET_NAME, Key: key }));
+  if (!response.Body) {
+    throw new Error(`Private file ${key} has no content`);
+  }
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
 /**
  * Generate signed URL for file access (optional, if private files)
  */
@@ -208,7 +276,7 @@ export async function migrateFileFromSupabase(
     // Upload to new storage
     return await uploadFileToSpaces(file, folder);
   } catch (error) {
-    console.error(`Error migrating file from ${oldUrl}:`, error);
+    logger.error(`Error migrating file from ${oldUrl}`, error);
     throw error;
   }
 }
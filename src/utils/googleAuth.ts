@@ -1,4 +1,5 @@
 import { OAuth2Client } from 'google-auth-library';
+import { logger } from './logger';
 
 const googleClient = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
 
@@ -41,10 +42,10 @@ export async function verifyGoogleToken(token: string): Promise<GoogleUserPayloa
       picture: payload.picture,
     };
   } catch (error) {
-    console.error('❌ Google token verification error:', error);
+    logger.error('Google token verification error', error);
     if (error instanceof Error) {
-      console.error('Error message:', error.message);
-      console.error('Error stack:', error.stack);
+      logger.error('Error message', error.message);
+      logger.error('Error stack', error.stack);
     }
     throw new Error(`Invalid Google token: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
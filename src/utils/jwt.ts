@@ -2,17 +2,38 @@ import jwt, { SignOptions } from 'jsonwebtoken';
 import { StringValue } from 'ms';
 import { IJWTPayload } from '../types';
 
-const JWT_SECRET: string = process.env.JWT_SECRET || 'secret';
-const JWT_EXPIRY: StringValue = (process.env.JWT_EXPIRY || '7d') as StringValue;
+// Access tokens are short-lived; sessions are kept alive with refresh tokens (see sessionService)
+const JWT_EXPIRY: StringValue = (process.env.JWT_EXPIRY || '15m') as StringValue;
+
+/**
+ * Read the signing secret. Read lazily so .env files loaded at startup are picked up;
+ * there is deliberately no fallback secret.
+ */
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET environment variable is not set');
+  }
+  return secret;
+};
+
+/**
+ * Fail fast at startup when the signing secret is missing
+ */
+export const assertJwtConfigured = (): void => {
+  getJwtSecret();
+};
+
+export const getAccessTokenExpiry = (): StringValue => JWT_EXPIRY;
 
 export const generateToken = (payload: Omit<IJWTPayload, 'iat' | 'exp'>): string => {
   const options: SignOptions = { expiresIn: JWT_EXPIRY };
-  return jwt.sign(payload as object, JWT_SECRET, options);
+  return jwt.sign(payload as object, getJwtSecret(), options);
 };
 
 export const verifyToken = (token: string): IJWTPayload | null => {
   try {
-    return jwt.verify(token, JWT_SECRET) as IJWTPayload;
+    return jwt.verify(token, getJwtSecret()) as IJWTPayload;
   } catch (error) {
     return null;
   }
@@ -25,4 +46,3 @@ export const decodeToken = (token: string): IJWTPayload | null => {
     return null;
   }
 };
-
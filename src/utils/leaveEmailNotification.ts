@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import { getHRManagementEmails, sendEmail } from '../services/emailService';
 import { generateLeaveRequestEmailBody } from './emailTemplates';
+import { logger } from './logger';
 
 /**
  * Send leave request notification email to HR/Management
@@ -20,36 +21,36 @@ export const sendLeaveRequestNotification = async (
   }
 ): Promise<boolean> => {
   try {
-    console.log('');
-    console.log('='.repeat(70));
-    console.log('📧 LEAVE REQUEST EMAIL NOTIFICATION PROCESS');
-    console.log('='.repeat(70));
-    console.log('Employee:', leaveRequestData.employeeName);
-    console.log('Leave Type:', leaveRequestData.leaveType);
-    console.log('Start Date:', leaveRequestData.startDate);
-    console.log('End Date:', leaveRequestData.endDate);
-    console.log('Number of Days:', leaveRequestData.numberOfDays);
-    console.log('');
+    logger.info('');
+    logger.info('='.repeat(70));
+    logger.info('LEAVE REQUEST EMAIL NOTIFICATION PROCESS');
+    logger.info('='.repeat(70));
+    logger.info('Employee', leaveRequestData.employeeName);
+    logger.info('Leave Type', leaveRequestData.leaveType);
+    logger.info('Start Date', leaveRequestData.startDate);
+    logger.info('End Date', leaveRequestData.endDate);
+    logger.info('Number of Days', leaveRequestData.numberOfDays);
+    logger.info('');
 
     // Get HR and Management email addresses
-    console.log('🔍 Step 1: Fetching HR/Management email addresses...');
+    logger.info('Step 1: Fetching HR/Management email addresses...');
     const hrManagementEmails = await getHRManagementEmails(prisma);
 
     if (hrManagementEmails.length === 0) {
-      console.warn('⚠️  No HR/Management email addresses found. Email not sent.');
+      logger.warn('No HR/Management email addresses found. Email not sent.');
       return false;
     }
 
     // Log the email addresses that will receive the notification
-    console.log('📧 Leave Request Notification - Recipients:');
-    console.log('   Total recipients:', hrManagementEmails.length);
+    logger.info('Leave Request Notification - Recipients');
+    logger.info('Total recipients', hrManagementEmails.length);
     hrManagementEmails.forEach((email, index) => {
-      console.log(`   ${index + 1}. ${email}`);
+      logger.info(`${index + 1}. ${email}`);
     });
 
     // Generate email HTML content
-    console.log('');
-    console.log('📝 Step 2: Generating email HTML content...');
+    logger.info('');
+    logger.info('Step 2: Generating email HTML content...');
     const emailHtml = generateLeaveRequestEmailBody({
       employeeName: leaveRequestData.employeeName,
       employeeId: leaveRequestData.employeeId,
@@ -61,29 +62,29 @@ export const sendLeaveRequestNotification = async (
       reason: leaveRequestData.reason,
       status: leaveRequestData.status || 'PENDING',
     });
-    console.log('✅ Email HTML content generated');
+    logger.info('Email HTML content generated');
 
     // Send email
-    console.log('');
-    console.log('📤 Step 3: Sending email via email service...');
+    logger.info('');
+    logger.info('Step 3: Sending email via email service...');
     const emailSubject = `New Leave Request - ${leaveRequestData.employeeName}`;
-    console.log('   Subject:', emailSubject);
-    console.log('   Recipients:', hrManagementEmails.join(', '));
+    logger.info('Subject', emailSubject);
+    logger.info('Recipients', hrManagementEmails.join(', '));
     
     const success = await sendEmail(hrManagementEmails, emailSubject, emailHtml);
 
-    console.log('');
+    logger.info('');
     if (success) {
-      console.log('✅ Email sent successfully!');
+      logger.info('Email sent successfully!');
     } else {
-      console.error('❌ Email sending failed (check email service logs above)');
+      logger.error('Email sending failed (check email service logs above)');
     }
-    console.log('='.repeat(70));
-    console.log('');
+    logger.info('='.repeat(70));
+    logger.info('');
 
     return success;
   } catch (error) {
-    console.error('❌ Error sending leave request notification email:', error);
+    logger.error('Error sending leave request notification email', error);
     return false;
   }
 };
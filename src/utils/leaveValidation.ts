@@ -1,5 +1,6 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { differenceInCalendarDays, differenceInMonths } from 'date-fns';
+import { logger } from './logger';
 
 export interface LeaveBalance {
   available: number;
@@ -65,9 +66,10 @@ function calculateAnnualLeaveEntitlement(joinDate: Date, year: number): number {
 }
 
 /**
- * Get leave summary for employee and year (create if doesn't exist)
+ * Get leave summary for employee and year (create if doesn't exist).
+ * Also runs inside a transaction, for balance changes made together with a status change.
  */
-export async function getOrCreateLeaveSummary(employeeId: string, year: number, prisma: PrismaClient) {
+export async function getOrCreateLeaveSummary(employeeId: string, year: number, prisma: Prisma.TransactionClient) {
   // Get employee to access join date
   const employee = await prisma.employee.findUnique({
     where: { id: employeeId },
@@ -229,7 +231,7 @@ export async function validateWFH(
   const monthCount = monthWFH.length;
 
   // Console log WFH week count for debugging
-  console.log('🔍 WFH Validation Debug:', {
+  logger.info('WFH Validation Debug', {
     employeeId,
     requestedDate: requestedDateUTC.toISOString().split('T')[0],
     weekStart: weekStart.toISOString().split('T')[0],
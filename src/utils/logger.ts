@@ -0,0 +1,91 @@
+import { getRequestContext } from './requestContext';
+
+/**
+ * Logger
+ *
+ * Writes one JSON object per line (stdout, stderr for errors) carrying the
+ * request ID of the current request or job run:
+ *   {"time":"...","level":"info","message":"...","requestId":"...",...fields}
+ *
+ * logger.info(message, ...details): an Error is serialized under `error`,
+ * plain objects are merged in as fields, anything else goes under `details`.
+ * In production stack traces are dropped and e-mail addresses and IBANs are
+ * masked; values of secret-looking keys (password, token, ...) are always masked.
+ * LOG_LEVEL sets the minimum level (default: info in production, debug otherwise).
+ */
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const isProduction = (): boolean => process.env.NODE_ENV === 'production';
+
+const minimumLevel = (): number => {
+  const configured = process.env.LOG_LEVEL as LogLevel | undefined;
+  return LEVELS[configured && configured in LEVELS ? configured : isProduction() ? 'info' : 'debug'];
+};
+
+const SECRET_KEY_PATTERN = /password|secret|token|authorization|cookie|api[-_]?key/i;
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const IBAN_PATTERN = /\b([A-Z]{2})\d{2}[A-Z0-9]{11,30}\b/g;
+
+const maskPii = (line: string): string =>
+  line.replace(EMAIL_PATTERN, '$1***@$2').replace(IBAN_PATTERN, '$1**********');
+
+const serializeError = (error: Error): Record<string, unknown> => ({
+  name: error.name,
+  message: error.message,
+  ...((error as any).code !== undefined && { code: (error as any).code }),
+  ...(!isProduction() && { stack: error.stack }),
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+// JSON.stringify replacer: secrets, errors, bigints and circular references
+const createReplacer = () => {
+  const seen = new WeakSet<object>();
+  return (key: string, value: unknown) => {
+    if (key && SECRET_KEY_PATTERN.test(key) && value !== null && value !== undefined) return '[REDACTED]';
+    if (typeof value === 'bigint') return value.toString();
+    if (value instanceof Error) return serializeError(value);
+    if (value && typeof value === 'object') {
+      if (seen.has(value)) return '[Circular]';
+      seen.add(value);
+    }
+    return value;
+  };
+};
+
+const write = (level: LogLevel, message: string, details: unknown[]): void => {
+  if (LEVELS[level] < minimumLevel()) return;
+
+  const fields: Record<string, unknown> = {};
+  const extra: unknown[] = [];
+  for (const detail of details) {
+    if (detail instanceof Error) fields.error = serializeError(detail);
+    else if (isPlainObject(detail)) Object.assign(fields, detail);
+    else if (detail !== undefined) extra.push(detail);
+  }
+  if (extra.length > 0) fields.details = extra.length === 1 ? extra[0] : extra;
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    message,
+    requestId: getRequestContext()?.requestId,
+    ...fields,
+  };
+
+  let line = JSON.stringify(entry, createReplacer());
+  if (isProduction()) line = maskPii(line);
+
+  (level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+export const logger = {
+  debug: (message: string, ...details: unknown[]) => write('debug', message, details),
+  info: (message: string, ...details: unknown[]) => write('info', message, details),
+  warn: (message: string, ...details: unknown[]) => write('warn', message, details),
+  error: (message: string, ...details: unknown[]) => write('error', message, details),
+};
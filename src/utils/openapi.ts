@@ -0,0 +1,320 @@
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { authMiddleware, getRequiredPermissions } from '../middleware/auth';
+import { getRequestSchemas, RequestSchemas } from '../middleware/validate';
+import { errorResponseSchema, noData, successResponseSchema, validationErrorResponseSchema } from '../schemas/responses';
+
+/**
+ * OpenAPI Document
+ *
+ * Generated from the mounted routers rather than maintained by hand: every
+ * route contributes an operation whose parameters, request body and success
+ * response come from its validate() schemas, and whose security comes from
+ * authMiddleware and requirePermission. Records in responses refer to the
+ * Prisma models, listed as components. Served at /api/openapi.json (viewer at
+ * /api/docs); tests/routes check that every mounted route has its schemas.
+ */
+
+export interface RouterMount {
+  path: string;
+  router: Router;
+  tag: string;
+}
+
+type Handler = Router['stack'][number]['handle'];
+type JsonSchema = Record<string, any>;
+
+interface RouteOperation {
+  method: string;
+  path: string;
+  tag: string;
+  handlers: Handler[];
+}
+
+const API_TITLE = 'YAZ Media Dashboard API';
+const API_VERSION = '1.0';
+
+// Response envelopes are shared components; operations reference them
+const componentRef = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (schema: JsonSchema) => ({ 'application/json': { schema } });
+
+// Fields that never leave the server
+const isInternalField = (name: string): boolean => name === 'password' || name.endsWith('Hash');
+
+const SCALAR_TYPES: Record<string, JsonSchema> = {
+  String: { type: 'string' },
+  Int: { type: 'integer' },
+  BigInt: { type: 'string' },
+  Float: { type: 'number' },
+  Decimal: { type: 'string' },
+  Boolean: { type: 'boolean' },
+  DateTime: { type: 'string', format: 'date-time' },
+  Json: {},
+  Bytes: { type: 'string', format: 'byte' },
+};
+
+const toFieldSchema = (field: Prisma.DMMF.Field): JsonSchema => {
+  const item: JsonSchema = field.kind === 'scalar' ? SCALAR_TYPES[field.type] ?? {} : componentRef(field.type);
+  if (field.isList) return { type: 'array', items: item };
+  return field.isRequired ? item : { anyOf: [item, { type: 'null' }] };
+};
+
+/**
+ * Component schemas of the Prisma models and enums. Endpoints that select
+ * fields return only those; relations are present when they are included.
+ */
+const toModelSchemas = (): Record<string, JsonSchema> => {
+  const schemas: Record<string, JsonSchema> = {};
+
+  Prisma.dmmf.datamodel.enums.forEach((enumType) => {
+    schemas[enumType.name] = { type: 'string', enum: enumType.values.map((value) => value.name) };
+  });
+  Prisma.dmmf.datamodel.models.forEach((modelType) => {
+    const fields = modelType.fields.filter((field) => !isInternalField(field.name));
+    schemas[modelType.name] = {
+      type: 'object',
+      properties: Object.fromEntries(fields.map((field) => [field.name, toFieldSchema(field)])),
+    };
+  });
+
+  return schemas;
+};
+
+const modelSchemas = toModelSchemas();
+
+/**
+ * JSON Schema (draft 2020-12, as used by OpenAPI 3.1) of what a client sends or receives
+ */
+const toJsonSchema = (schema: z.ZodType): JsonSchema => {
+  const jsonSchema: JsonSchema = z.toJSONSchema(schema, {
+    io: 'input',
+    // Transforms are documented by their input
+    unrepresentable: 'any',
+    override: (ctx) => {
+      // Records refer to their model component, or extend its fields (see schemas/responses)
+      const { model: modelName, extendsModel } = z.globalRegistry.get(ctx.zodSchema) ?? {};
+      if (typeof modelName === 'string') {
+        Object.keys(ctx.jsonSchema).forEach((key) => delete ctx.jsonSchema[key]);
+        ctx.jsonSchema.$ref = `#/components/schemas/${modelName}`;
+      }
+      if (typeof extendsModel === 'string') {
+        delete ctx.jsonSchema.extendsModel;
+        ctx.jsonSchema.properties = { ...modelSchemas[extendsModel].properties, ...ctx.jsonSchema.properties };
+      }
+      // Dates are sent as ISO strings
+      if (ctx.zodSchema._zod.def.type === 'date') {
+        ctx.jsonSchema.type = 'string';
+        ctx.jsonSchema.format = 'date-time';
+      }
+    },
+  });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+};
+
+const toOpenApiPath = (path: string): string => path.replace(/:(\w+)/g, '{$1}');
+
+/**
+ * Every route of the mounted routers with the handlers that run for it,
+ * including router-level middleware registered before the route
+ */
+const collectOperations = (mounts: RouterMount[]): RouteOperation[] => {
+  const operations: RouteOperation[] = [];
+
+  mounts.forEach(({ path: basePath, router, tag }) => {
+    const routerMiddleware: Handler[] = [];
+
+    router.stack.forEach((layer) => {
+      if (!layer.route) {
+        routerMiddleware.push(layer.handle);
+        return;
+      }
+
+      const route = layer.route;
+      const methods = new Set(route.stack.map((routeLayer) => routeLayer.method).filter(Boolean));
+      methods.forEach((method) => {
+        operations.push({
+          method,
+          path: route.path === '/' ? basePath : `${basePath}${route.path}`,
+          tag,
+          handlers: [
+            ...routerMiddleware,
+            ...route.stack.filter((routeLayer) => !routeLayer.method || routeLayer.method === method).map((routeLayer) => routeLayer.handle),
+          ],
+        });
+      });
+    });
+  });
+
+  return operations;
+};
+
+const findRequestSchemas = (operation: RouteOperation): RequestSchemas | undefined =>
+  operation.handlers.map(getRequestSchemas).find((schemas) => schemas !== undefined);
+
+const describeOperation = (operation: RouteOperation): string => `${operation.method.toUpperCase()} ${operation.path}`;
+
+/**
+ * Routes that do not validate their input, as "METHOD /path"
+ */
+export const findRoutesWithoutSchemas = (mounts: RouterMount[]): string[] =>
+  collectOperations(mounts)
+    .filter((operation) => !findRequestSchemas(operation))
+    .map(describeOperation);
+
+/**
+ * Routes whose schemas do not describe their success response, as "METHOD /path"
+ */
+export const findRoutesWithoutResponseSchemas = (mounts: RouterMount[]): string[] =>
+  collectOperations(mounts)
+    .filter((operation) => !findRequestSchemas(operation)?.response)
+    .map(describeOperation);
+
+// getPayrollById -> "Get payroll by id"
+const toSummary = (operationId: string): string => {
+  const words = operationId.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Inline handlers have no name; POST /assets/{id}/assign -> postAssetsIdAssign
+const fallbackOperationId = (method: string, path: string): string =>
+  method +
+  path
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((segment) => segment.charAt(0).toUpperCase() + segment.slice(1))
+    .join('');
+
+const toSuccessContent = (response: z.ZodType | undefined): JsonSchema => {
+  if (!response) return jsonContent(componentRef('SuccessResponse'));
+  if (response === noData) return jsonContent(componentRef('MessageResponse'));
+
+  const fileType = z.globalRegistry.get(response)?.file;
+  if (typeof fileType === 'string') {
+    return { [fileType]: { schema: { type: 'string', format: 'binary' } } };
+  }
+
+  return jsonContent({
+    allOf: [
+      componentRef('SuccessResponse'),
+      { type: 'object', properties: { data: toJsonSchema(response) }, required: ['data'] },
+    ],
+  });
+};
+
+const toParameters = (schema: z.ZodType | undefined, location: 'path' | 'query'): JsonSchema[] => {
+  if (!schema) return [];
+
+  const jsonSchema = toJsonSchema(schema);
+  const required: string[] = jsonSchema.required ?? [];
+  return Object.entries<JsonSchema>(jsonSchema.properties ?? {}).map(([name, propertySchema]) => ({
+    name,
+    in: location,
+    required: location === 'path' || (required.includes(name) && propertySchema.default === undefined),
+    schema: propertySchema,
+  }));
+};
+
+const buildOperation = (operation: RouteOperation, path: string, operationId: string): JsonSchema => {
+  const schemas = findRequestSchemas(operation) ?? {};
+  const authenticated = operation.handlers.includes(authMiddleware);
+  const permissions = operation.handlers.flatMap((handler) => getRequiredPermissions(handler) ?? []);
+  const acceptsFile = operation.handlers.some((handler) => handler.name === 'multerMiddleware');
+
+  const parameters = [...toParameters(schemas.params, 'path'), ...toParameters(schemas.query, 'query')];
+  // Path parameters the schema does not cover are still required by OpenAPI
+  for (const [, name] of path.matchAll(/\{(\w+)\}/g)) {
+    if (!parameters.some((parameter) => parameter.in === 'path' && parameter.name === name)) {
+      parameters.push({ name, in: 'path', required: true, schema: { type: 'string' } });
+    }
+  }
+
+  const result: JsonSchema = {
+    tags: [operation.tag],
+    operationId,
+    summary: toSummary(operationId),
+    parameters,
+    responses: {
+      '2XX': { description: 'Success', content: toSuccessContent(schemas.response) },
+      '400': { description: 'Invalid request', content: jsonContent(componentRef('ValidationErrorResponse')) },
+      ...(authenticated && {
+        '401': { description: 'Not authenticated', content: jsonContent(componentRef('ErrorResponse')) },
+      }),
+      ...(permissions.length > 0 && {
+        '403': { description: 'Missing permission', content: jsonContent(componentRef('ErrorResponse')) },
+      }),
+      default: { description: 'Error', content: jsonContent(componentRef('ErrorResponse')) },
+    },
+  };
+
+  if (schemas.body) {
+    const bodySchema = toJsonSchema(schemas.body);
+    // A body whose fields are all optional can be left out
+    result.requestBody = { required: (bodySchema.required ?? []).length > 0, content: jsonContent(bodySchema) };
+  } else if (acceptsFile) {
+    result.requestBody = {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: { file: { type: 'string', format: 'binary' } },
+            required: ['file'],
+          },
+        },
+      },
+    };
+  }
+
+  if (authenticated) {
+    result.security = [{ bearerAuth: [] }];
+  }
+  if (permissions.length > 0) {
+    result.description = `Requires one of the permissions: ${permissions.join(', ')}`;
+    result['x-permissions'] = permissions;
+  }
+
+  return result;
+};
+
+export const buildOpenApiDocument = (mounts: RouterMount[]): JsonSchema => {
+  const paths: Record<string, JsonSchema> = {};
+  const usedOperationIds = new Set<string>();
+
+  collectOperations(mounts).forEach((operation) => {
+    const path = toOpenApiPath(operation.path);
+    const handler = operation.handlers[operation.handlers.length - 1];
+    const baseId =
+      handler.name && handler.name !== '<anonymous>' ? handler.name : fallbackOperationId(operation.method, path);
+
+    // The same controller can serve several routes
+    let operationId = baseId;
+    for (let suffix = 2; usedOperationIds.has(operationId); suffix++) {
+      operationId = `${baseId}${suffix}`;
+    }
+    usedOperationIds.add(operationId);
+
+    paths[path] = { ...paths[path], [operation.method]: buildOperation(operation, path, operationId) };
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: { title: API_TITLE, version: API_VERSION },
+    tags: [...new Set(mounts.map((mount) => mount.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+      schemas: {
+        SuccessResponse: toJsonSchema(successResponseSchema),
+        MessageResponse: toJsonSchema(successResponseSchema.omit({ data: true })),
+        ErrorResponse: toJsonSchema(errorResponseSchema),
+        ValidationErrorResponse: toJsonSchema(validationErrorResponseSchema),
+        ...modelSchemas,
+      },
+    },
+  };
+};
@@ -1,30 +1,30 @@
 /**
  * Ownership Validation Utilities
  * 
- * These utilities ensure that EMPLOYEE role can only access their own data,
- * while HR, FINANCE, and MANAGEMENT can access all data.
+ * These utilities ensure that users can only access their own data unless they
+ * hold the matching `:all` permission (see utils/permissions.ts).
  */
 
 import { Request } from 'express';
+import { Permission } from './permissions';
 
 /**
  * Check if a user can access a resource based on ownership
  * @param resourceEmployeeId - The employee ID that owns the resource
  * @param userId - The current user's ID
- * @param role - The current user's role
+ * @param canAccessAll - Whether the user holds the permission for all employees' records
  * @returns true if access is allowed, false otherwise
  */
 export const canAccessResource = (
   resourceEmployeeId: string,
   userId: string,
-  role: string
+  canAccessAll: boolean
 ): boolean => {
-  // MANAGEMENT, HR, and FINANCE can access all resources
-  if (role === 'MANAGEMENT' || role === 'HR' || role === 'FINANCE') {
+  if (canAccessAll) {
     return true;
   }
   
-  // EMPLOYEE can only access their own resources
+  // Everyone else can only access their own resources
   return resourceEmployeeId === userId;
 };
 
@@ -32,23 +32,23 @@ export const canAccessResource = (
  * Ensure ownership for a resource - returns true if allowed, false otherwise
  * @param resourceEmployeeId - The employee ID that owns the resource
  * @param userId - The current user's ID
- * @param role - The current user's role
+ * @param canAccessAll - Whether the user holds the permission for all employees' records
  * @returns true if access is allowed, false otherwise
  */
 export const ensureOwnership = (
   resourceEmployeeId: string,
   userId: string,
-  role: string
+  canAccessAll: boolean
 ): boolean => {
-  return canAccessResource(resourceEmployeeId, userId, role);
+  return canAccessResource(resourceEmployeeId, userId, canAccessAll);
 };
 
 /**
  * Get user info from request
  * @param req - Express request object
- * @returns Object with userId and role
+ * @returns Object with userId, role and effective permissions
  */
-export const getUserInfo = (req: Request): { userId: string; role: string } => {
+export const getUserInfo = (req: Request): { userId: string; role: string; permissions: Permission[] } => {
   if (!req.user) {
     throw new Error('Unauthorized: User not authenticated');
   }
@@ -56,38 +56,29 @@ export const getUserInfo = (req: Request): { userId: string; role: string } => {
   return {
     userId: req.user.userId,
     role: req.user.role,
+    permissions: req.user.permissions || [],
   };
 };
 
-/**
- * Check if user is a privileged role (can access all data)
- * @param role - User role
- * @returns true if role is MANAGEMENT, HR, or FINANCE
- */
-export const isPrivilegedRole = (role: string): boolean => {
-  return role === 'MANAGEMENT' || role === 'HR' || role === 'FINANCE';
-};
-
 /**
  * Build ownership filter for database queries
- * For EMPLOYEE role, filters to only their own data
- * For privileged roles, returns empty filter (all data)
+ * Without the `:all` permission, filters to the user's own data
+ * With it, returns empty filter (all data)
  * @param userId - Current user's ID
- * @param role - Current user's role
+ * @param canAccessAll - Whether the user holds the permission for all employees' records
  * @param employeeIdField - Name of the employee ID field in the model (default: 'employeeId')
  * @returns Filter object for Prisma queries
  */
 export const buildOwnershipFilter = (
   userId: string,
-  role: string,
+  canAccessAll: boolean,
   employeeIdField: string = 'employeeId'
 ): Record<string, string> => {
-  // Privileged roles can see all data - return empty object (will be merged with where clause)
-  if (isPrivilegedRole(role)) {
+  // Users with access to all records see everything - return empty object (will be merged with where clause)
+  if (canAccessAll) {
     return {};
   }
   
-  // EMPLOYEE can only see their own data
+  // Everyone else can only see their own data
   return { [employeeIdField]: userId };
 };
-
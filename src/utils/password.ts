@@ -10,3 +10,22 @@ export const comparePassword = async (password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 };
 
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Check a new password against the password policy.
+ * Returns an error message, or null when the password is acceptable.
+ */
+export const validatePasswordStrength = (password: unknown): string | null => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`;
+  }
+  if (password.length > 128) {
+    return 'Password must be at most 128 characters long';
+  }
+  if (!/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) {
+    return 'Password must contain at least one letter and one number';
+  }
+  return null;
+};
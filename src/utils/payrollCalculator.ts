@@ -1,3 +1,5 @@
+import { logger } from './logger';
+import { BUILT_IN_WORK_SCHEDULE, isWorkingDay, loadWorkSchedules } from '../services/workScheduleService';
 /**
  * Payroll Calculator Utility
  * Centralized calculation engine for all financial formulas
@@ -211,22 +213,22 @@ export const calculateProratedSalary = (
 };
 
 /**
- * Check if a date is a weekend (Saturday or Sunday)
- * UAE standard: Saturday-Sunday
+ * Check if a date is a weekend of the built-in work schedule (Saturday or Sunday)
+ * Employees' own rest days come from their work schedule (see calculateAccuratePayroll)
  */
 export const isWeekend = (date: Date): boolean => {
-  const day = date.getDay();
-  return day === 5 || day === 6; // 5 = Saturday, 6 = Sunday
+  return !isWorkingDay(BUILT_IN_WORK_SCHEDULE, date.getDay());
 };
 
 /**
- * Get working days in a month (Monday-Friday only)
- * Excludes weekends and holidays
+ * Get working days in a month
+ * Excludes rest days (weekends unless given) and holidays
  */
 export const getWorkingDaysInMonth = (
   year: number,
   month: number,
-  holidays: Date[] = []
+  holidays: Date[] = [],
+  isRestDay: (date: Date) => boolean = isWeekend
 ): number => {
   let workingDays = 0;
   const daysInMonth = new Date(year, month + 1, 0).getDate();
@@ -237,7 +239,7 @@ export const getWorkingDaysInMonth = (
       (h) => h.getDate() === day && h.getMonth() === month && h.getFullYear() === year
     );
 
-    if (!isWeekend(date) && !isHoliday) {
+    if (!isRestDay(date) && !isHoliday) {
       workingDays++;
     }
   }
@@ -364,7 +366,7 @@ export const getHolidaysForMonth = async (
 
     return holidayDates;
   } catch (error) {
-    console.error('Error fetching holidays:', error);
+    logger.error('Error fetching holidays', error);
     return [];
   }
 };
@@ -412,12 +414,13 @@ export const getEmployeeActivePeriod = (
 
 /**
  * Calculate working days in a date range (inclusive)
- * Excludes weekends and holidays
+ * Excludes rest days (weekends unless given) and holidays
  */
 export const getWorkingDaysInRange = (
   startDate: Date,
   endDate: Date,
-  holidays: Date[] = []
+  holidays: Date[] = [],
+  isRestDay: (date: Date) => boolean = isWeekend
 ): number => {
   let workingDays = 0;
   const current = new Date(startDate);
@@ -436,7 +439,7 @@ export const getWorkingDaysInRange = (
       return holidayDate.getTime() === currentDate.getTime();
     });
 
-    if (!isWeekend(current) && !isHoliday) {
+    if (!isRestDay(current) && !isHoliday) {
       workingDays++;
     }
     current.setDate(current.getDate() + 1);
@@ -475,7 +478,7 @@ export const getSalaryChangesForMonth = async (
 
     return salaryChanges;
   } catch (error) {
-    console.error('Error fetching salary changes:', error);
+    logger.error('Error fetching salary changes', error);
     return [];
   }
 };
@@ -548,11 +551,184 @@ export const getUnpaidLeaveDays = async (
       unpaidLeaveDetails,
     };
   } catch (error) {
-    console.error('Error fetching unpaid leave days:', error);
+    logger.error('Error fetching unpaid leave days', error);
     return { unpaidLeaveDays: 0, unpaidLeaveDetails: [] };
   }
 };
 
+/**
+ * Paid sick and maternity leave tiers
+ * MOHRE (Federal Decree-Law No. 33 of 2021, Articles 30-31):
+ * - Sick leave per service year: 15 days full pay, 30 days half pay, 45 days unpaid
+ * - Maternity leave: 45 days full pay, 15 days half pay
+ * Days beyond the last tier are unpaid.
+ */
+export interface LeavePayTiers {
+  fullPay: number;
+  halfPay: number;
+  unpaid: number;
+}
+
+export const SICK_LEAVE_PAY_TIERS: LeavePayTiers = { fullPay: 15, halfPay: 30, unpaid: 45 };
+export const MATERNITY_LEAVE_PAY_TIERS: LeavePayTiers = { fullPay: 45, halfPay: 15, unpaid: 0 };
+
+export interface LeavePayTierDays {
+  fullPayDays: number;
+  halfPayDays: number;
+  unpaidDays: number;
+}
+
+const TIERED_LEAVE_TYPES: Record<string, LeavePayTiers> = {
+  SICK: SICK_LEAVE_PAY_TIERS,
+  MATERNITY: MATERNITY_LEAVE_PAY_TIERS,
+};
+
+/**
+ * Start of the service year (join date anniversary) a date falls in
+ */
+export const getServiceYearStart = (joinDate: Date, date: Date): Date => {
+  const start = new Date(date.getFullYear(), joinDate.getMonth(), joinDate.getDate());
+  if (start > date) {
+    start.setFullYear(start.getFullYear() - 1);
+  }
+  return start;
+};
+
+/**
+ * Split `amount` leave days into tiers given the days already consumed this service year
+ */
+const allocateToPayTiers = (consumed: number, amount: number, tiers: LeavePayTiers): LeavePayTierDays => {
+  const fullPayDays = Math.min(amount, Math.max(0, tiers.fullPay - consumed));
+  const halfPayDays = Math.min(
+    amount - fullPayDays,
+    Math.max(0, tiers.fullPay + tiers.halfPay - consumed - fullPayDays)
+  );
+  return { fullPayDays, halfPayDays, unpaidDays: amount - fullPayDays - halfPayDays };
+};
+
+/**
+ * Sick / maternity leave days in a payroll period, split into pay tiers.
+ * Approved leave is walked day by day in date order from the start of the
+ * service year, so earlier months' consumption determines this month's tier.
+ */
+export const getLeavePayTierDays = async (
+  prisma: any,
+  employee: { id: string; joinDate: Date },
+  periodStart: Date,
+  periodEnd: Date
+): Promise<{ sick: LeavePayTierDays; maternity: LeavePayTierDays }> => {
+  const result = {
+    sick: { fullPayDays: 0, halfPayDays: 0, unpaidDays: 0 },
+    maternity: { fullPayDays: 0, halfPayDays: 0, unpaidDays: 0 },
+  };
+
+  try {
+    const rangeStart = new Date(periodStart.getFullYear(), periodStart.getMonth(), periodStart.getDate());
+    const rangeEnd = new Date(periodEnd.getFullYear(), periodEnd.getMonth(), periodEnd.getDate());
+    const windowStart = getServiceYearStart(employee.joinDate, rangeStart);
+
+    // Leave dates are @db.Date (UTC midnight)
+    const leaveRequests = await prisma.leaveRequest.findMany({
+      where: {
+        employeeId: employee.id,
+        status: 'APPROVED',
+        leaveType: { in: Object.keys(TIERED_LEAVE_TYPES) },
+        startDate: { lte: new Date(Date.UTC(rangeEnd.getFullYear(), rangeEnd.getMonth(), rangeEnd.getDate())) },
+        endDate: { gte: new Date(Date.UTC(windowStart.getFullYear(), windowStart.getMonth(), windowStart.getDate())) },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    const leaveDays: Array<{ date: Date; leaveType: string; amount: number }> = [];
+    leaveRequests.forEach((leave: any) => {
+      const start = new Date(leave.startDate);
+      const end = new Date(leave.endDate);
+      const cursor = new Date(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+      const last = new Date(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate());
+
+      while (cursor <= last) {
+        if (cursor >= windowStart && cursor <= rangeEnd) {
+          leaveDays.push({ date: new Date(cursor), leaveType: leave.leaveType, amount: leave.isHalfDay ? 0.5 : 1 });
+        }
+        cursor.setDate(cursor.getDate() + 1);
+      }
+    });
+    leaveDays.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    // Consumption per leave type and service year
+    const consumed = new Map<string, number>();
+    leaveDays.forEach((day) => {
+      const key = `${day.leaveType}:${getServiceYearStart(employee.joinDate, day.date).getTime()}`;
+      const alreadyConsumed = consumed.get(key) || 0;
+      const allocation = allocateToPayTiers(alreadyConsumed, day.amount, TIERED_LEAVE_TYPES[day.leaveType]);
+      consumed.set(key, alreadyConsumed + day.amount);
+
+      if (day.date >= rangeStart) {
+        const totals = day.leaveType === 'SICK' ? result.sick : result.maternity;
+        totals.fullPayDays += allocation.fullPayDays;
+        totals.halfPayDays += allocation.halfPayDays;
+        totals.unpaidDays += allocation.unpaidDays;
+      }
+    });
+
+    return result;
+  } catch (error) {
+    logger.error('Error calculating sick/maternity pay tiers', error);
+    return result;
+  }
+};
+
+/**
+ * Salary days lost to reduced-pay sick / maternity leave (half-pay days count half)
+ */
+export const getReducedPayLeaveDays = (tiers: { sick: LeavePayTierDays; maternity: LeavePayTierDays }): number =>
+  tiers.sick.halfPayDays * 0.5 +
+  tiers.sick.unpaidDays +
+  tiers.maternity.halfPayDays * 0.5 +
+  tiers.maternity.unpaidDays;
+
+/**
+ * Pay of the sick / maternity leave days of a month, one line per leave type
+ * and tier that has days. Reduced-pay days are deducted from the salary at
+ * the share of the daily rate they are not paid.
+ */
+export interface LeavePayTierLine {
+  leaveType: 'SICK' | 'MATERNITY';
+  tier: 'FULL_PAY' | 'HALF_PAY' | 'UNPAID';
+  days: number;
+  payRate: number; // Share of the daily rate paid: 1, 0.5 or 0
+  dailyRate: number;
+  paidAmount: number; // days × dailyRate × payRate
+  deductedAmount: number; // days × dailyRate × (1 - payRate)
+}
+
+const LEAVE_PAY_TIER_RATES: Array<{ tier: LeavePayTierLine['tier']; days: keyof LeavePayTierDays; payRate: number }> = [
+  { tier: 'FULL_PAY', days: 'fullPayDays', payRate: 1 },
+  { tier: 'HALF_PAY', days: 'halfPayDays', payRate: 0.5 },
+  { tier: 'UNPAID', days: 'unpaidDays', payRate: 0 },
+];
+
+export const buildLeavePayBreakdown = (
+  tiers: { sick: LeavePayTierDays; maternity: LeavePayTierDays },
+  dailyRate: number
+): LeavePayTierLine[] =>
+  (
+    [
+      ['SICK', tiers.sick],
+      ['MATERNITY', tiers.maternity],
+    ] as const
+  ).flatMap(([leaveType, tierDays]) =>
+    LEAVE_PAY_TIER_RATES.filter(({ days }) => tierDays[days] > 0).map(({ tier, days, payRate }) => ({
+      leaveType,
+      tier,
+      days: tierDays[days],
+      payRate,
+      dailyRate: formatCurrency(dailyRate),
+      paidAmount: formatCurrency(tierDays[days] * dailyRate * payRate),
+      deductedAmount: formatCurrency(tierDays[days] * dailyRate * (1 - payRate)),
+    }))
+  );
+
 /**
  * Calculate accurate payroll with prorata, salary changes, and unpaid leaves
  * This is the main function that orchestrates all payroll calculations
@@ -567,6 +743,9 @@ export interface AccuratePayrollCalculation {
   calendarDaysWorked: number; // Calendar days worked (MOHRE standard)
   daysWorked: number; // Effective working days (for reference)
   unpaidLeaveDays: number;
+  leavePayTiers: { sick: LeavePayTierDays; maternity: LeavePayTierDays }; // Days per pay tier this month
+  leavePayBreakdown: LeavePayTierLine[]; // Days × rate per tier
+  reducedPayLeaveDays: number; // Salary days deducted for half-pay / unpaid sick and maternity leave
   prorataFactor: number;
   salaryPeriods: Array<{
     fromDate: Date;
@@ -582,6 +761,7 @@ export interface AccuratePayrollCalculation {
     terminatedMidMonth: boolean;
     salaryChangedMidMonth: boolean;
     hasUnpaidLeave: boolean;
+    hasReducedPayLeave: boolean; // Sick / maternity leave past the full-pay tier
     usesMOHREStandard: boolean; // Flag indicating MOHRE-compliant calculation
   };
 }
@@ -594,9 +774,22 @@ export const calculateAccuratePayroll = async (
 ): Promise<AccuratePayrollCalculation> => {
   // Get holidays for the month
   const holidays = await getHolidaysForMonth(prisma, year, month);
-  
+
+  // Rest days follow the employee's work schedule in effect on each day
+  // (schedules are keyed by calendar day at UTC midnight; these dates are local)
+  const resolveSchedule = await loadWorkSchedules(
+    [employee],
+    new Date(Date.UTC(year, month - 1, 1)),
+    new Date(Date.UTC(year, month, 0))
+  );
+  const isRestDay = (date: Date): boolean =>
+    !isWorkingDay(
+      resolveSchedule(employee, new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()))),
+      date.getDay()
+    );
+
   // Calculate total working days in the month
-  const workingDaysInMonth = getWorkingDaysInMonth(year, month - 1, holidays);
+  const workingDaysInMonth = getWorkingDaysInMonth(year, month - 1, holidays, isRestDay);
 
   // Get employee active period
   const activePeriod = getEmployeeActivePeriod(
@@ -610,7 +803,8 @@ export const calculateAccuratePayroll = async (
   const daysWorked = getWorkingDaysInRange(
     activePeriod.startDate,
     activePeriod.endDate,
-    holidays
+    holidays,
+    isRestDay
   );
 
   // Get salary changes for the month
@@ -629,6 +823,15 @@ export const calculateAccuratePayroll = async (
     month
   );
 
+  // Sick / maternity leave past the full-pay tier (walked across the service year)
+  const leavePayTiers = await getLeavePayTierDays(
+    prisma,
+    employee,
+    activePeriod.startDate,
+    activePeriod.endDate
+  );
+  const reducedPayLeaveDays = getReducedPayLeaveDays(leavePayTiers);
+
   // Calculate effective working days (days worked minus unpaid leave)
   const effectiveWorkingDays = Math.max(0, daysWorked - unpaidLeaveDays);
 
@@ -670,7 +873,7 @@ export const calculateAccuratePayroll = async (
     }
   } catch (error) {
     // If error, use current employee salary
-    console.error('Error fetching previous salary change:', error);
+    logger.error('Error fetching previous salary change', error);
   }
 
   // Determine salary periods
@@ -690,7 +893,8 @@ export const calculateAccuratePayroll = async (
     const periodWorkingDays = getWorkingDaysInRange(
       activePeriod.startDate,
       activePeriod.endDate,
-      holidays
+      holidays,
+      isRestDay
     );
     salaryPeriods.push({
       fromDate: activePeriod.startDate,
@@ -777,8 +981,8 @@ export const calculateAccuratePayroll = async (
       (endDateOnly.getTime() - startDateOnly.getTime()) / (1000 * 60 * 60 * 24)
     ) + 1; // +1 to include both start and end dates (inclusive)
 
-    // Working days (excluding weekends/holidays)
-    const workingDays = getWorkingDaysInRange(periodStart, periodEnd, holidays);
+    // Working days (excluding rest days/holidays)
+    const workingDays = getWorkingDaysInRange(periodStart, periodEnd, holidays, isRestDay);
     
     return {
       ...period,
@@ -833,8 +1037,8 @@ export const calculateAccuratePayroll = async (
   // MOHRE standard daily rate: Monthly Component ÷ 30
   const dailyRate = weightedTotalSalary / 30;
   
-  // Unpaid leave deduction: Daily Rate × Unpaid Leave Days
-  const unpaidLeaveDeduction = dailyRate * unpaidLeaveDays;
+  // Unpaid leave deduction: Daily Rate × (Unpaid Leave Days + reduced-pay sick/maternity days)
+  const unpaidLeaveDeduction = dailyRate * (unpaidLeaveDays + reducedPayLeaveDays);
   
   // Final prorated amounts (after unpaid leave deduction)
   // Calculate base salary proportionally
@@ -867,6 +1071,9 @@ export const calculateAccuratePayroll = async (
     calendarDaysWorked, // Calendar days worked (MOHRE standard)
     daysWorked: effectiveWorkingDays, // Effective working days (for reference)
     unpaidLeaveDays,
+    leavePayTiers,
+    leavePayBreakdown: buildLeavePayBreakdown(leavePayTiers, dailyRate),
+    reducedPayLeaveDays,
     prorataFactor,
     salaryPeriods: salaryPeriodsWithCalendarDays.map((p) => ({
       ...p,
@@ -874,13 +1081,102 @@ export const calculateAccuratePayroll = async (
       totalSalary: formatCurrency(p.totalSalary),
     })),
     calculationBreakdown: {
-      isFullMonth: activePeriod.isFullMonth && unpaidLeaveDays === 0,
+      isFullMonth: activePeriod.isFullMonth && unpaidLeaveDays === 0 && reducedPayLeaveDays === 0,
       joinedMidMonth: employee.joinDate > monthStart,
       terminatedMidMonth: employee.terminationDate !== null && employee.terminationDate < monthEnd,
       salaryChangedMidMonth: salaryChanges.length > 0,
       hasUnpaidLeave: unpaidLeaveDays > 0,
+      hasReducedPayLeave: reducedPayLeaveDays > 0,
       usesMOHREStandard: true, // Flag indicating MOHRE-compliant calculation
     },
   };
 };
 
+
+/**
+ * End-of-service gratuity
+ * UAE Federal Decree-Law No. 33 of 2021, Article 51:
+ * - No gratuity for less than 1 year of continuous service
+ * - 21 days' basic wage for each of the first 5 years
+ * - 30 days' basic wage for each additional year
+ * - Fractions of a year are paid pro rata
+ * - Total may not exceed 2 years' wage
+ * - Days of unpaid absence are not counted as service
+ * Daily basic wage = Basic Salary ÷ 30 (MOHRE standard)
+ */
+export interface GratuityCalculation {
+  eligible: boolean;
+  serviceDays: number;
+  unpaidLeaveDays: number;
+  serviceYears: number;
+  dailyBasicWage: number;
+  firstFiveYearsDays: number; // Gratuity days earned at 21 days/year
+  additionalYearsDays: number; // Gratuity days earned at 30 days/year
+  gratuityDays: number;
+  uncappedAmount: number;
+  capAmount: number;
+  isCapped: boolean;
+  amount: number;
+}
+
+export const calculateGratuity = (
+  baseSalary: number,
+  joinDate: Date,
+  lastWorkingDay: Date,
+  unpaidLeaveDays: number = 0
+): GratuityCalculation => {
+  const start = new Date(joinDate.getFullYear(), joinDate.getMonth(), joinDate.getDate());
+  const end = new Date(lastWorkingDay.getFullYear(), lastWorkingDay.getMonth(), lastWorkingDay.getDate());
+  const totalDays = Math.max(0, Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1);
+
+  const serviceDays = Math.max(0, totalDays - unpaidLeaveDays);
+  const serviceYears = serviceDays / 365;
+  const dailyBasicWage = baseSalary / 30;
+  const capAmount = formatCurrency(baseSalary * 24);
+
+  if (serviceYears < 1) {
+    return {
+      eligible: false,
+      serviceDays,
+      unpaidLeaveDays,
+      serviceYears: Math.round(serviceYears * 10000) / 10000,
+      dailyBasicWage: formatCurrency(dailyBasicWage),
+      firstFiveYearsDays: 0,
+      additionalYearsDays: 0,
+      gratuityDays: 0,
+      uncappedAmount: 0,
+      capAmount,
+      isCapped: false,
+      amount: 0,
+    };
+  }
+
+  const firstFiveYearsDays = Math.min(serviceYears, 5) * 21;
+  const additionalYearsDays = Math.max(0, serviceYears - 5) * 30;
+  const gratuityDays = firstFiveYearsDays + additionalYearsDays;
+  const uncappedAmount = formatCurrency(gratuityDays * dailyBasicWage);
+
+  return {
+    eligible: true,
+    serviceDays,
+    unpaidLeaveDays,
+    serviceYears: Math.round(serviceYears * 10000) / 10000,
+    dailyBasicWage: formatCurrency(dailyBasicWage),
+    firstFiveYearsDays: Math.round(firstFiveYearsDays * 100) / 100,
+    additionalYearsDays: Math.round(additionalYearsDays * 100) / 100,
+    gratuityDays: Math.round(gratuityDays * 100) / 100,
+    uncappedAmount,
+    capAmount,
+    isCapped: uncappedAmount > capAmount,
+    amount: Math.min(uncappedAmount, capAmount),
+  };
+};
+
+/**
+ * Encashment of unused annual leave on termination
+ * MOHRE: paid on basic salary - Daily Rate (Basic ÷ 30) × Unused Days
+ */
+export const calculateLeaveEncashment = (baseSalary: number, unusedDays: number): number => {
+  if (unusedDays <= 0) return 0;
+  return formatCurrency(calculateDailyRate(baseSalary) * unusedDays);
+};
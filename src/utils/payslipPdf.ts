@@ -0,0 +1,294 @@
+import PDFDocument from 'pdfkit';
+
+/**
+ * Payslip PDF rendering
+ *
+ * Pure layout code: callers assemble PayslipData (see payslipService) and get
+ * the PDF back as a Buffer so it can be streamed, zipped or uploaded.
+ */
+
+export interface PayslipLine {
+  label: string;
+  amount: number;
+}
+
+export interface PayslipData {
+  company: {
+    name: string;
+    address?: string;
+  };
+  employee: {
+    name: string;
+    employeeCode: string;
+    designation?: string | null;
+    department?: string | null;
+    joinDate?: Date | null;
+    bankName?: string | null;
+    accountNumber?: string | null; // Already masked by the caller
+  };
+  period: {
+    month: number;
+    year: number;
+  };
+  currency: string;
+  isFinal: boolean; // false => printed as PROVISIONAL
+  paidDate?: Date | null;
+  earnings: PayslipLine[];
+  deductions: PayslipLine[];
+  totals: {
+    gross: number;
+    deductions: number;
+    net: number;
+  };
+  proration: {
+    summary: string;
+    reasons: string[];
+    calendarDaysWorked: number;
+    calendarDaysInMonth: number;
+    periods: Array<{
+      fromDate: Date;
+      toDate: Date;
+      calendarDays: number;
+      totalSalary: number;
+    }>;
+  };
+  ytd: {
+    gross: number;
+    deductions: number;
+    net: number;
+    months: number;
+  };
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const PAGE_MARGIN = 50;
+const ACCENT_COLOR = '#667eea'; // Same accent as the email header
+const MUTED_COLOR = '#6c757d';
+
+export const formatPayslipPeriod = (month: number, year: number): string =>
+  `${MONTH_NAMES[month - 1]} ${year}`;
+
+const formatAmount = (amount: number, currency: string): string =>
+  `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date): string =>
+  date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+
+/**
+ * Render a section title with an underline
+ */
+const drawSectionTitle = (doc: PDFKit.PDFDocument, title: string) => {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fontSize(11).fillColor(ACCENT_COLOR).text(title.toUpperCase(), PAGE_MARGIN);
+  doc
+    .moveTo(PAGE_MARGIN, doc.y + 2)
+    .lineTo(PAGE_MARGIN + width, doc.y + 2)
+    .strokeColor(ACCENT_COLOR)
+    .lineWidth(1)
+    .stroke();
+  doc.moveDown(0.5);
+  doc.fillColor('black');
+};
+
+/**
+ * Render label / amount rows followed by a bold total row
+ */
+const drawAmountTable = (
+  doc: PDFKit.PDFDocument,
+  lines: PayslipLine[],
+  totalLabel: string,
+  total: number,
+  currency: string
+) => {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const amountWidth = 140;
+
+  const drawRow = (label: string, amount: number, bold: boolean) => {
+    const y = doc.y;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+    doc.text(label, PAGE_MARGIN, y, { width: width - amountWidth - 10 });
+    const rowBottom = doc.y;
+    doc.text(formatAmount(amount, currency), PAGE_MARGIN + width - amountWidth, y, {
+      width: amountWidth,
+      align: 'right',
+    });
+    doc.y = Math.max(rowBottom, doc.y) + 3;
+  };
+
+  if (lines.length === 0) {
+    doc.font('Helvetica-Oblique').fontSize(10).fillColor(MUTED_COLOR).text('None', PAGE_MARGIN);
+    doc.fillColor('black').moveDown(0.3);
+  }
+  lines.forEach((line) => drawRow(line.label, line.amount, false));
+
+  doc
+    .moveTo(PAGE_MARGIN, doc.y)
+    .lineTo(PAGE_MARGIN + width, doc.y)
+    .strokeColor('#dee2e6')
+    .lineWidth(0.5)
+    .stroke();
+  doc.y += 4;
+  drawRow(totalLabel, total, true);
+};
+
+/**
+ * Render two-column key/value details
+ */
+const drawDetails = (doc: PDFKit.PDFDocument, rows: Array<[string, string]>) => {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const columnWidth = width / 2;
+  const labelWidth = 95;
+
+  for (let i = 0; i < rows.length; i += 2) {
+    const y = doc.y;
+    let bottom = y;
+    rows.slice(i, i + 2).forEach(([label, value], column) => {
+      const x = PAGE_MARGIN + column * columnWidth;
+      doc.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR).text(label, x, y, { width: labelWidth });
+      doc.font('Helvetica').fontSize(10).fillColor('black').text(value, x + labelWidth, y, {
+        width: columnWidth - labelWidth - 10,
+      });
+      bottom = Math.max(bottom, doc.y);
+    });
+    doc.y = bottom + 4;
+  }
+};
+
+/**
+ * Generate a payslip PDF
+ */
+export const renderPayslipPdf = (data: PayslipData): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `Payslip - ${data.employee.name} - ${formatPayslipPeriod(data.period.month, data.period.year)}`,
+        Author: data.company.name,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    const { currency } = data;
+
+    // Company header
+    doc.font('Helvetica-Bold').fontSize(20).fillColor(ACCENT_COLOR).text(data.company.name.toUpperCase(), PAGE_MARGIN, PAGE_MARGIN);
+    if (data.company.address) {
+      doc.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR).text(data.company.address);
+    }
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(14)
+      .fillColor('black')
+      .text('PAYSLIP', PAGE_MARGIN, PAGE_MARGIN, { width, align: 'right' });
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .text(formatPayslipPeriod(data.period.month, data.period.year), { width, align: 'right' });
+    if (!data.isFinal) {
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(9)
+        .fillColor('#dc3545')
+        .text('PROVISIONAL - NOT YET PAID', { width, align: 'right' });
+    } else if (data.paidDate) {
+      doc
+        .font('Helvetica')
+        .fontSize(9)
+        .fillColor(MUTED_COLOR)
+        .text(`Paid on ${formatDate(data.paidDate)}`, { width, align: 'right' });
+    }
+    doc.fillColor('black');
+    doc.y = Math.max(doc.y, PAGE_MARGIN + 50);
+
+    // Employee details
+    drawSectionTitle(doc, 'Employee Details');
+    drawDetails(doc, [
+      ['Name', data.employee.name],
+      ['Employee ID', data.employee.employeeCode],
+      ['Designation', data.employee.designation || '-'],
+      ['Department', data.employee.department || '-'],
+      ['Join Date', data.employee.joinDate ? formatDate(data.employee.joinDate) : '-'],
+      ['Days Paid', `${data.proration.calendarDaysWorked} / ${data.proration.calendarDaysInMonth}`],
+      ['Bank', data.employee.bankName || '-'],
+      ['Account', data.employee.accountNumber || '-'],
+    ]);
+
+    // Earnings and deductions
+    drawSectionTitle(doc, 'Earnings');
+    drawAmountTable(doc, data.earnings, 'Gross Earnings', data.totals.gross, currency);
+
+    drawSectionTitle(doc, 'Deductions');
+    drawAmountTable(doc, data.deductions, 'Total Deductions', data.totals.deductions, currency);
+
+    // Net pay banner
+    doc.moveDown(0.8);
+    const bannerY = doc.y;
+    doc.rect(PAGE_MARGIN, bannerY, width, 30).fill('#f1f3ff');
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(12)
+      .fillColor('black')
+      .text('NET PAY', PAGE_MARGIN + 10, bannerY + 9)
+      .text(formatAmount(data.totals.net, currency), PAGE_MARGIN, bannerY + 9, { width: width - 10, align: 'right' });
+    doc.y = bannerY + 38;
+
+    // Proration
+    drawSectionTitle(doc, 'Salary Calculation');
+    doc.font('Helvetica').fontSize(10).text(data.proration.summary, PAGE_MARGIN);
+    if (data.proration.reasons.length > 0) {
+      doc.fontSize(9).fillColor(MUTED_COLOR).text(data.proration.reasons.join(' · '));
+      doc.fillColor('black');
+    }
+    if (data.proration.periods.length > 1) {
+      doc.moveDown(0.3);
+      data.proration.periods.forEach((period) => {
+        doc
+          .font('Helvetica')
+          .fontSize(9)
+          .text(
+            `${formatDate(period.fromDate)} - ${formatDate(period.toDate)} (${period.calendarDays} days): ` +
+              `monthly salary ${formatAmount(period.totalSalary, currency)}`,
+            PAGE_MARGIN
+          );
+      });
+    }
+
+    // Year to date
+    drawSectionTitle(doc, `Year to Date (${data.period.year}, ${data.ytd.months} month${data.ytd.months === 1 ? '' : 's'})`);
+    drawAmountTable(
+      doc,
+      [
+        { label: 'Gross Earnings', amount: data.ytd.gross },
+        { label: 'Deductions', amount: data.ytd.deductions },
+      ],
+      'Net Pay',
+      data.ytd.net,
+      currency
+    );
+
+    // Footer
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor(MUTED_COLOR)
+      .text(
+        'This is a system generated payslip and does not require a signature.',
+        PAGE_MARGIN,
+        doc.page.height - PAGE_MARGIN - 10,
+        { width, align: 'center', lineBreak: false }
+      );
+
+    doc.end();
+  });
+};
@@ -0,0 +1,254 @@
+/**
+ * Permission Catalogue
+ *
+ * Every authorization decision is expressed as a permission. Roles grant a
+ * default set (ROLE_PERMISSIONS); individual employees can have permissions
+ * granted or revoked on top of their role (EmployeePermissionOverride).
+ * Naming: `<resource>:<action>[:<scope>]`, where `:all` means "records of
+ * every employee" as opposed to one's own (and one's reports').
+ */
+
+import { Request } from 'express';
+
+export const PERMISSIONS = {
+  // Employees & access management
+  'employee:read:all': 'View records of all employees',
+  'employee:create': 'Create employees',
+  'employee:update': 'Edit employee records',
+  'employee:delete': 'Delete employees',
+  'employee:access:manage': 'Activate/deactivate accounts, change roles and unlock accounts',
+  'employee:salary:read': "View other employees' salary details",
+  'employee:bank:read': 'View unmasked IBANs of employees and bank detail change requests',
+  'permission:manage': 'Grant or revoke per-employee permissions',
+
+  // Attendance & calendar
+  'attendance:read:all': 'View attendance of all employees',
+  'attendance:exception:review': 'Excuse late arrivals, early leaves and absences of all employees',
+  'attendance:manage': 'Edit attendance records and approve attendance corrections of all employees',
+  'attendance:policy:manage': 'Set which employees and departments are required to record attendance',
+  'calendar:read:all': 'View the team calendar of all employees',
+  'work-schedule:manage': 'Manage work schedules and assign them to employees and departments',
+
+  // Leave
+  'leave:read:all': 'View leave requests, balances and summaries of all employees',
+  'leave:documents:read:all': 'View supporting documents of all leave requests',
+  'leave:manage': 'Create, withdraw and cancel leave on behalf of employees',
+  'leave:approve:hr': 'Act on the HR step of leave approval chains',
+  'leave:approve:management': 'Act on Management steps and stand in for line managers',
+  'leave:policy:manage': 'Manage leave approval policies',
+
+  // Overtime
+  'overtime:read:all': 'View overtime requests of all employees',
+  'overtime:approve': 'Give final approval to overtime requests',
+
+  // Assets, clients & projects
+  'asset:manage': 'Edit and delete assets, assign them to any employee',
+  'client-project:manage': 'Create clients and projects',
+
+  // Contracts
+  'contract:read:all': 'View contracts of all employees',
+  'contract:manage': 'Create, amend, renew and terminate contracts and templates',
+
+  // Payroll
+  'payroll:read:all': 'View payroll of all employees',
+  'payroll:generate': 'Generate payroll',
+  'payroll:approve:finance': 'Finance approval of payroll',
+  'payroll:approve:management': 'Management approval of payroll',
+  'payroll:upload': 'Generate bank files and upload payroll to the bank',
+  'payroll:pay': 'Approve bank payment of payroll',
+  'payroll:reject': 'Reject payroll',
+  'payroll:hold': 'Put payroll on hold',
+  'payroll:bank-file:read': 'Preview and download bank files and payslip bundles',
+  'salary-change:read': 'View salary changes (own, or all with payroll:read:all)',
+  'salary-change:create': 'Propose salary changes',
+  'salary-change:approve': 'Approve or reject salary changes',
+
+  // Bonuses
+  'bonus:read:all': 'View bonuses of all employees',
+  'bonus:create': 'Create bonuses',
+  'bonus:update': 'Edit and delete bonuses',
+  'bonus:approve:finance': 'Finance approval of bonuses',
+  'bonus:approve:management': 'Management approval of bonuses',
+  'bonus:ready': 'Mark bonuses ready for payroll',
+  'bonus:apply': 'Apply bonuses to payroll',
+  'bonus:review': 'Put bonuses on hold or reject them',
+
+  // Deductions
+  'deduction:read:all': 'View deductions of all employees',
+  'deduction:create': 'Create deductions',
+  'deduction:delete': 'Delete deductions',
+  'deduction:approve:finance': 'Finance approval of deductions',
+  'deduction:approve:management': 'Management approval of deductions',
+  'deduction:ready': 'Mark deductions ready for payroll',
+  'deduction:apply': 'Apply deductions to payroll',
+  'deduction:review': 'Put deductions on hold or reject them',
+
+  // Reimbursements
+  'reimbursement:read:all': 'View reimbursements of all employees',
+  'reimbursement:submit:others': 'Submit reimbursements on behalf of other employees',
+  'reimbursement-type:manage': 'Manage reimbursement types',
+  'reimbursement:approve:finance': 'Finance approval of reimbursements',
+  'reimbursement:approve:management': 'Management approval of reimbursements (no line manager step needed)',
+  'reimbursement:upload': 'Upload reimbursements to the bank',
+  'reimbursement:pay': 'Mark reimbursements as paid',
+  'reimbursement:review': 'Put reimbursements on hold or reject them',
+
+  // Bank details
+  'bank-detail:read:all': 'View bank detail change requests of all employees',
+  'bank-detail:request:others': 'Request bank detail changes on behalf of other employees',
+  'bank-detail:approve:finance': 'Finance review of bank detail change requests',
+  'bank-detail:approve:management': 'Management review of bank detail change requests',
+
+  // Final settlements
+  'settlement:read': 'Preview and view final settlements',
+  'settlement:create': 'Create final settlements',
+  'settlement:approve:finance': 'Finance approval of final settlements',
+  'settlement:approve:management': 'Management approval of final settlements',
+  'settlement:upload': 'Upload final settlements to the bank',
+  'settlement:pay': 'Approve bank payment of final settlements',
+  'settlement:reject': 'Reject final settlements',
+  'settlement:hold': 'Put final settlements on hold',
+
+  // Operations
+  'job:manage': 'View and trigger scheduled jobs',
+  'audit:read': 'View the audit log of record changes',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+
+const EMPLOYEE_PERMISSIONS: Permission[] = ['salary-change:read'];
+
+const HR_PERMISSIONS: Permission[] = [
+  ...EMPLOYEE_PERMISSIONS,
+  'employee:read:all',
+  'employee:create',
+  'employee:update',
+  'employee:access:manage',
+  'employee:salary:read',
+  'attendance:read:all',
+  'attendance:exception:review',
+  'attendance:manage',
+  'attendance:policy:manage',
+  'calendar:read:all',
+  'work-schedule:manage',
+  'leave:read:all',
+  'leave:documents:read:all',
+  'leave:manage',
+  'leave:approve:hr',
+  'leave:policy:manage',
+  'overtime:read:all',
+  'asset:manage',
+  'client-project:manage',
+  'contract:read:all',
+  'contract:manage',
+  'payroll:read:all',
+  'salary-change:create',
+  'bonus:read:all',
+  'bonus:create',
+  'deduction:read:all',
+  'deduction:create',
+  'reimbursement:read:all',
+  'reimbursement:submit:others',
+  'reimbursement-type:manage',
+  'bank-detail:read:all',
+  'bank-detail:request:others',
+  'settlement:read',
+  'settlement:create',
+];
+
+const FINANCE_PERMISSIONS: Permission[] = [
+  ...EMPLOYEE_PERMISSIONS,
+  'employee:read:all',
+  'employee:salary:read',
+  'employee:bank:read',
+  'attendance:read:all',
+  'leave:read:all',
+  'contract:read:all',
+  'payroll:read:all',
+  'payroll:generate',
+  'payroll:approve:finance',
+  'payroll:upload',
+  'payroll:hold',
+  'payroll:bank-file:read',
+  'salary-change:approve',
+  'bonus:read:all',
+  'bonus:approve:finance',
+  'bonus:ready',
+  'bonus:review',
+  'deduction:read:all',
+  'deduction:create',
+  'deduction:approve:finance',
+  'deduction:ready',
+  'deduction:review',
+  'reimbursement:read:all',
+  'reimbursement:submit:others',
+  'reimbursement:approve:finance',
+  'reimbursement:upload',
+  'reimbursement:review',
+  'bank-detail:read:all',
+  'bank-detail:request:others',
+  'bank-detail:approve:finance',
+  'settlement:read',
+  'settlement:create',
+  'settlement:approve:finance',
+  'settlement:upload',
+  'settlement:hold',
+];
+
+// Steps Management does not perform itself, so the finance and management stages stay separate;
+// account numbers are only shown unmasked to Finance
+const MANAGEMENT_EXCLUDED_PERMISSIONS: Permission[] = [
+  'employee:bank:read',
+  'payroll:approve:finance',
+  'payroll:upload',
+  'bonus:ready',
+  'deduction:ready',
+  'reimbursement:approve:finance',
+  'reimbursement:upload',
+  'settlement:create',
+  'settlement:approve:finance',
+  'settlement:upload',
+];
+
+const MANAGEMENT_PERMISSIONS: Permission[] = ALL_PERMISSIONS.filter(
+  (permission) => !MANAGEMENT_EXCLUDED_PERMISSIONS.includes(permission)
+);
+
+export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  EMPLOYEE: EMPLOYEE_PERMISSIONS,
+  HR: HR_PERMISSIONS,
+  FINANCE: FINANCE_PERMISSIONS,
+  MANAGEMENT: MANAGEMENT_PERMISSIONS,
+};
+
+export interface PermissionOverride {
+  permission: string;
+  effect: 'GRANT' | 'REVOKE';
+}
+
+/**
+ * Effective permissions: the role's defaults plus granted, minus revoked overrides
+ */
+export const resolvePermissions = (role: string, overrides: PermissionOverride[] = []): Permission[] => {
+  const effective = new Set<Permission>(ROLE_PERMISSIONS[role === 'ADMIN' ? 'MANAGEMENT' : role] || []);
+
+  overrides.forEach(({ permission, effect }) => {
+    if (!isPermission(permission)) return;
+    if (effect === 'GRANT') effective.add(permission);
+    else effective.delete(permission);
+  });
+
+  return ALL_PERMISSIONS.filter((permission) => effective.has(permission));
+};
+
+/**
+ * Check a permission of the authenticated user
+ */
+export const hasPermission = (req: Request, permission: Permission): boolean => {
+  return !!req.user?.permissions?.includes(permission);
+};
@@ -0,0 +1,126 @@
+/**
+ * Response Redaction
+ *
+ * Shapes records before they are sent, according to the caller's relationship
+ * to the employee they belong to:
+ * - Credentials (password hash, token version) are never returned
+ * - Salary fields are returned to the employee themselves and to holders of
+ *   employee:salary:read; everyone else gets them stripped
+ * - IBANs are masked (country code and last 4 characters) unless the caller
+ *   holds employee:bank:read
+ * Nested objects and arrays (department, bankDetails, employee includes, ...)
+ * are walked, so the same rules apply whatever a query includes.
+ */
+
+import { Request } from 'express';
+import { getUserInfo } from './ownershipValidation';
+
+const CREDENTIAL_FIELDS = new Set(['password', 'tokenVersion']);
+
+const SALARY_FIELDS = new Set([
+  // Employee / Contract / Payroll
+  'baseSalary',
+  'telephoneAllowance',
+  'housingAllowance',
+  'transportationAllowance',
+  'totalSalary',
+  'allowances',
+  'deductions',
+  'taxDeduction',
+  'netSalary',
+  'proratedBaseSalary',
+  'proratedTotalSalary',
+  // Contract renewals
+  'previousSalary',
+  'newSalary',
+  // Salary changes
+  'oldBaseSalary',
+  'oldTelephoneAllowance',
+  'oldHousingAllowance',
+  'oldTransportationAllowance',
+  'oldTotalSalary',
+  'newBaseSalary',
+  'newTelephoneAllowance',
+  'newHousingAllowance',
+  'newTransportationAllowance',
+  'newTotalSalary',
+]);
+
+const IBAN_FIELDS = new Set(['iban', 'currentIban', 'newIban']);
+
+export interface RedactionViewer {
+  userId: string;
+  canReadSalary: boolean;
+  canReadBankDetails: boolean;
+}
+
+/**
+ * Build the redaction viewer of the authenticated user
+ */
+export const getRedactionViewer = (req: Request): RedactionViewer => {
+  const { userId, permissions } = getUserInfo(req);
+
+  return {
+    userId,
+    canReadSalary: permissions.includes('employee:salary:read'),
+    canReadBankDetails: permissions.includes('employee:bank:read'),
+  };
+};
+
+/**
+ * Mask an IBAN, keeping the country code and the last 4 characters
+ */
+export const maskIban = (iban: string | null | undefined): string | null => {
+  if (!iban) return iban ?? null;
+
+  const compact = iban.replace(/\s+/g, '');
+  if (compact.length <= 8) {
+    return '*'.repeat(compact.length);
+  }
+
+  return `${compact.slice(0, 2)}${'*'.repeat(compact.length - 6)}${compact.slice(-4)}`;
+};
+
+const redactValue = (value: any, showSalary: boolean, showIban: boolean): any => {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, showSalary, showIban));
+  }
+
+  if (!value || typeof value !== 'object' || value instanceof Date || Buffer.isBuffer(value)) {
+    return value;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (CREDENTIAL_FIELDS.has(key)) continue;
+    // Scalars only - `deductions` is also the name of a relation
+    if (!showSalary && SALARY_FIELDS.has(key) && (fieldValue === null || typeof fieldValue !== 'object')) continue;
+
+    if (!showIban && IBAN_FIELDS.has(key) && typeof fieldValue === 'string') {
+      result[key] = maskIban(fieldValue);
+    } else {
+      result[key] = redactValue(fieldValue, showSalary, showIban);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Redact a record (and everything nested in it) belonging to `ownerId`
+ */
+export const redactRecord = <T>(record: T, ownerId: string | null | undefined, viewer: RedactionViewer): T => {
+  const showSalary = viewer.canReadSalary || (!!ownerId && ownerId === viewer.userId);
+  return redactValue(record, showSalary, viewer.canReadBankDetails);
+};
+
+/**
+ * Redact a list of records, each belonging to the employee returned by `getOwnerId`
+ */
+export const redactRecords = <T>(
+  records: T[],
+  getOwnerId: (record: T) => string | null | undefined,
+  viewer: RedactionViewer
+): T[] => {
+  return records.map((record) => redactRecord(record, getOwnerId(record), viewer));
+};
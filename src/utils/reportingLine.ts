@@ -0,0 +1,147 @@
+/**
+ * Reporting Line Utilities
+ *
+ * Authorization based on the Employee.managerId hierarchy. A line manager can
+ * see and give first-stage approval to requests of their direct and indirect
+ * reports, without getting organisation-wide (`:all`) permissions.
+ * Nobody can approve their own requests.
+ */
+
+import { prisma } from '../index';
+
+// Guards against cycles / runaway hierarchies (A manages B manages A)
+const MAX_HIERARCHY_DEPTH = 20;
+
+/**
+ * Get IDs of all direct and indirect reports of a manager
+ */
+export const getReportIds = async (managerId: string): Promise<string[]> => {
+  const reportIds = new Set<string>();
+  let currentLevel = [managerId];
+
+  for (let depth = 0; depth < MAX_HIERARCHY_DEPTH && currentLevel.length > 0; depth++) {
+    const subordinates = await prisma.employee.findMany({
+      where: { managerId: { in: currentLevel } },
+      select: { id: true },
+    });
+
+    currentLevel = subordinates
+      .map((subordinate) => subordinate.id)
+      .filter((id) => id !== managerId && !reportIds.has(id));
+    currentLevel.forEach((id) => reportIds.add(id));
+  }
+
+  return Array.from(reportIds);
+};
+
+/**
+ * Check whether an employee reports (directly or indirectly) to a manager
+ */
+export const isInReportingLine = async (managerId: string, employeeId: string): Promise<boolean> => {
+  if (managerId === employeeId) return false;
+
+  const visited = new Set<string>();
+  let currentId: string | null = employeeId;
+
+  for (let depth = 0; depth < MAX_HIERARCHY_DEPTH && currentId && !visited.has(currentId); depth++) {
+    visited.add(currentId);
+    const employee: { managerId: string | null } | null = await prisma.employee.findUnique({
+      where: { id: currentId },
+      select: { managerId: true },
+    });
+    if (!employee?.managerId) return false;
+    if (employee.managerId === managerId) return true;
+    currentId = employee.managerId;
+  }
+
+  return false;
+};
+
+/**
+ * Check whether an employee has a line manager (i.e. manager approval applies)
+ */
+export const hasLineManager = async (employeeId: string): Promise<boolean> => {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: { managerId: true },
+  });
+  return !!employee?.managerId;
+};
+
+/**
+ * Build a Prisma filter limiting records to what the user may see:
+ * - Users holding the resource's `:all` permission: no restriction
+ * - Everyone else: own records plus those of their reports
+ * If `requestedEmployeeId` is given it is applied when it falls within scope,
+ * otherwise the filter matches nothing outside the user's scope.
+ */
+export const buildTeamScopeFilter = async (
+  userId: string,
+  canAccessAll: boolean,
+  employeeIdField: string = 'employeeId',
+  requestedEmployeeId?: string
+): Promise<Record<string, any>> => {
+  if (canAccessAll) {
+    return requestedEmployeeId ? { [employeeIdField]: requestedEmployeeId } : {};
+  }
+
+  const reportIds = await getReportIds(userId);
+  const scope = [userId, ...reportIds];
+
+  if (requestedEmployeeId) {
+    // Out-of-scope IDs fall back to the caller's own records rather than leaking
+    return { [employeeIdField]: scope.includes(requestedEmployeeId) ? requestedEmployeeId : userId };
+  }
+
+  return reportIds.length > 0 ? { [employeeIdField]: { in: scope } } : { [employeeIdField]: userId };
+};
+
+/**
+ * Check whether a user may view an employee's records (self, `:all` permission, or manager)
+ */
+export const canViewEmployeeRecords = async (
+  userId: string,
+  canAccessAll: boolean,
+  employeeId: string
+): Promise<boolean> => {
+  if (employeeId === userId || canAccessAll) return true;
+  return isInReportingLine(userId, employeeId);
+};
+
+export interface ApprovalAuthority {
+  allowed: boolean;
+  stage?: 'MANAGER' | 'FINAL'; // MANAGER = first-stage line manager approval
+  isLineManager: boolean;
+  reason?: string;
+}
+
+/**
+ * Resolve what a user may do with another employee's request.
+ * `canApproveFinal` is whether the user holds the final (organisation-wide)
+ * approval permission; line managers without it approve as the first stage only.
+ */
+export const getApprovalAuthority = async (
+  userId: string,
+  canApproveFinal: boolean,
+  employeeId: string,
+  finalApproverLabel: string = 'an authorised approver'
+): Promise<ApprovalAuthority> => {
+  if (userId === employeeId) {
+    return { allowed: false, isLineManager: false, reason: 'You cannot approve or reject your own request' };
+  }
+
+  const isLineManager = await isInReportingLine(userId, employeeId);
+
+  if (canApproveFinal) {
+    return { allowed: true, stage: 'FINAL', isLineManager };
+  }
+  if (isLineManager) {
+    return { allowed: true, stage: 'MANAGER', isLineManager };
+  }
+
+  return {
+    allowed: false,
+    isLineManager,
+    reason: `Only the employee's line manager or ${finalApproverLabel} can act on this request`,
+  };
+};
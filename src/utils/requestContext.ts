@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Request Context
+ *
+ * Per-request values that code far from the Express handler needs (the
+ * logger, the audit Prisma extension), carried through async calls with
+ * AsyncLocalStorage. Scheduled jobs get a context of their own per run;
+ * scripts run without one.
+ */
+
+export interface RequestContext {
+  requestId: string; // Echoed in the X-Request-Id response header and on every log line
+  ipAddress: string | null;
+  actorId: string | null; // Set by authMiddleware once the user is authenticated
+}
+
+export const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+export const getRequestContext = (): RequestContext | undefined => requestContextStorage.getStore();
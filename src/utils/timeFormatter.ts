@@ -1,3 +1,4 @@
+import { logger } from './logger';
 /**
  * Format attendance time to 12-hour format with AM/PM
  *
@@ -23,7 +24,7 @@ export const formatAttendanceTime = (isoTime: string | null): string => {
       hour12: true,
     });
   } catch (error) {
-    console.error('Error formatting time:', error);
+    logger.error('Error formatting time', error);
     return '--:-- --';
   }
 };
@@ -49,7 +50,7 @@ export const formatAttendanceTimeWithSeconds = (isoTime: string | null): string
       hour12: true,
     });
   } catch (error) {
-    console.error('Error formatting time:', error);
+    logger.error('Error formatting time', error);
     return '--:-- -- --';
   }
 };
@@ -77,7 +78,7 @@ export const formatAttendanceDateTime = (isoTime: string | null): string => {
       hour12: true,
     });
   } catch (error) {
-    console.error('Error formatting date time:', error);
+    logger.error('Error formatting date time', error);
     return '--/-- ----';
   }
 };
@@ -102,7 +103,7 @@ export const formatAttendanceDate = (isoTime: string | null): string => {
       year: 'numeric',
     });
   } catch (error) {
-    console.error('Error formatting date:', error);
+    logger.error('Error formatting date', error);
     return '--/-- ----';
   }
 };
@@ -133,7 +134,7 @@ export const getTimeDifference = (
 
     return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
   } catch (error) {
-    console.error('Error calculating time difference:', error);
+    logger.error('Error calculating time difference', error);
     return '00:00:00';
   }
 };
@@ -151,7 +152,7 @@ export const isAM = (isoTime: string | null): boolean => {
     const date = new Date(isoTime);
     return date.getHours() < 12;
   } catch (error) {
-    console.error('Error checking if AM:', error);
+    logger.error('Error checking if AM', error);
     return false;
   }
 };
@@ -169,7 +170,7 @@ export const isPM = (isoTime: string | null): boolean => {
     const date = new Date(isoTime);
     return date.getHours() >= 12;
   } catch (error) {
-    console.error('Error checking if PM:', error);
+    logger.error('Error checking if PM', error);
     return false;
   }
 };
@@ -124,21 +124,3 @@ export const getEmployeeTimezone = (employee: {
   // Otherwise, derive from country
   return getTimezoneForCountry(employee.country);
 };
-
-/**
- * Get working hours for an employee
- * Defaults to 9 AM - 6 PM in their timezone
- */
-export const getEmployeeWorkingHours = (employee: { 
-  country?: string | null;
-  timezone?: string | null;
-  workingHoursStart?: number | null;
-  workingHoursEnd?: number | null;
-}) => {
-  const tz = getEmployeeTimezone(employee);
-  const start = employee.workingHoursStart ?? 9; // 9 AM
-  const end = employee.workingHoursEnd ?? 18; // 6 PM
-  return { timezone: tz, start, end };
-};
-
-
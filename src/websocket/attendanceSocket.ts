@@ -1,6 +1,7 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import { verifyToken } from '../utils/jwt';
+import { resolvePermissions, Permission } from '../utils/permissions';
 import { prisma } from '../index';
 import {
   getTodayDubai,
@@ -13,6 +14,7 @@ import {
   getApprovedOvertimeRequestDetails,
   calculateButtonStates,
 } from '../utils/attendanceHelper';
+import { logger } from '../utils/logger';
 
 // Global io instance for broadcasting
 let globalIO: SocketIOServer | null = null;
@@ -111,7 +113,7 @@ const getAttendanceDataForSocket = async (userId: string) => {
       message: 'Today\'s attendance retrieved successfully',
     };
   } catch (error) {
-    console.error('Error fetching attendance for WebSocket:', error);
+    logger.error('Error fetching attendance for WebSocket', error);
     throw error;
   }
 };
@@ -150,7 +152,7 @@ export const setupAttendanceSocket = (httpServer: HTTPServer) => {
   globalIO = io;
 
   // Middleware to verify JWT token
-  io.use((socket, next) => {
+  io.use(async (socket, next) => {
     try {
       const token = socket.handshake.auth.token;
 
@@ -164,14 +166,36 @@ export const setupAttendanceSocket = (httpServer: HTTPServer) => {
         return next(new Error('Authentication error: Invalid token'));
       }
 
+      // Same revocation / account status checks as authMiddleware
+      const employee = await prisma.employee.findUnique({
+        where: { id: decoded.userId },
+        select: {
+          role: true,
+          userStatus: true,
+          status: true,
+          tokenVersion: true,
+          permissionOverrides: { select: { permission: true, effect: true } },
+        },
+      });
+
+      if (
+        !employee ||
+        (decoded.tokenVersion ?? 0) !== employee.tokenVersion ||
+        employee.userStatus !== 'ACTIVE' ||
+        employee.status === 'TERMINATED'
+      ) {
+        return next(new Error('Authentication error: Session revoked or account inactive'));
+      }
+
       // Attach user info to socket
       (socket as any).userId = decoded.userId;
       (socket as any).userEmail = decoded.email;
-      (socket as any).userRole = decoded.role;
+      (socket as any).userRole = employee.role;
+      (socket as any).userPermissions = resolvePermissions(employee.role, employee.permissionOverrides);
 
       next();
     } catch (error) {
-      console.error('❌ WebSocket authentication error:', error);
+      logger.error('WebSocket authentication error', error);
       next(new Error('Authentication error'));
     }
   });
@@ -183,8 +207,8 @@ export const setupAttendanceSocket = (httpServer: HTTPServer) => {
     // Join user-specific room for targeted updates
     socket.join(`user:${userId}`);
 
-    const userRole = (socket as any).userRole;
-    const canAccessFinance = userRole === 'FINANCE' || userRole === 'MANAGEMENT';
+    const userPermissions: Permission[] = (socket as any).userPermissions || [];
+    const canAccessFinance = userPermissions.includes('payroll:read:all');
 
     if (canAccessFinance) {
       socket.join('finance-dashboard');
@@ -208,7 +232,7 @@ export const setupAttendanceSocket = (httpServer: HTTPServer) => {
             const attendance = await getAttendanceDataForSocket(userId);
             socket.emit('attendance-update', attendance.data);
           } catch (error) {
-            console.error(`❌ Error fetching attendance for user ${userId}:`, error);
+            logger.error(`Error fetching attendance for user ${userId}`, error);
           }
         }, 60000);
 
@@ -228,7 +252,7 @@ export const setupAttendanceSocket = (httpServer: HTTPServer) => {
           }
         });
       } catch (error) {
-        console.error(`❌ Error in subscribe-attendance for user ${userId}:`, error);
+        logger.error(`Error in subscribe-attendance for user ${userId}`, error);
         socket.emit('error', { message: 'Failed to subscribe to attendance updates' });
       }
     });
@@ -0,0 +1,131 @@
+// uuid ships as ESM only, and importing the app would start the server
+jest.mock('uuid', () => ({ v4: () => '00000000-0000-4000-8000-000000000000' }));
+jest.mock('../../src/index', () => ({
+  get prisma() {
+    return mockPrisma;
+  },
+}));
+
+import { Request, Response } from 'express';
+import { auditLogExtension } from '../../src/utils/auditLogExtension';
+import { withdrawLeaveRequest } from '../../src/controllers/leaveManagementController';
+
+/**
+ * Leave mutations go through the shared client, so they reach the audit log.
+ * The shared client is stood in for by one that routes every query through
+ * auditLogExtension on top of an in-memory leave request.
+ */
+
+const employee = { id: 'employee-1', firstName: 'Sara', lastName: 'Khan', email: 'sara@example.com' };
+
+let leaveRequest: Record<string, any>;
+
+const matches = (record: Record<string, any>, where: Record<string, any>) =>
+  Object.entries(where).every(([field, value]) =>
+    value && typeof value === 'object' && 'in' in value ? value.in.includes(record[field]) : record[field] === value
+  );
+
+const baseClient: any = {
+  leaveRequest: {
+    findUnique: jest.fn(async ({ where }) => (matches(leaveRequest, where) ? { ...leaveRequest } : null)),
+    findMany: jest.fn(async ({ where }) => (matches(leaveRequest, where) ? [{ ...leaveRequest }] : [])),
+    findUniqueOrThrow: jest.fn(async () => ({ ...leaveRequest, employee })),
+    updateMany: jest.fn(async ({ where, data }) => {
+      if (!matches(leaveRequest, where)) return { count: 0 };
+      leaveRequest = { ...leaveRequest, ...data };
+      return { count: 1 };
+    }),
+  },
+  makeupHours: { findUnique: jest.fn(async () => null) },
+  auditLog: { createMany: jest.fn() },
+  $extends: (definition: any) => definition,
+};
+baseClient._createItxClient = () => baseClient;
+
+const allOperations = (auditLogExtension as any)(baseClient).query.$allModels.$allOperations;
+
+// Client whose queries run through the extension, inside a transaction when one is given
+const extendedClient = (transaction?: object): any => ({
+  ...Object.fromEntries(
+    ['leaveRequest', 'makeupHours', 'auditLog'].map((delegate) => [
+      delegate,
+      new Proxy(baseClient[delegate], {
+        get: (target, operation: string) => (args: any) =>
+          allOperations({
+            model: delegate.charAt(0).toUpperCase() + delegate.slice(1),
+            operation,
+            args,
+            query: (queryArgs: any) => target[operation](queryArgs),
+            __internalParams: { transaction },
+          }),
+      }),
+    ])
+  ),
+  $transaction: (callback: (tx: any) => Promise<any>) => callback(extendedClient({ kind: 'itx', id: 'tx-1' })),
+});
+
+const mockPrisma = extendedClient();
+
+const createResponse = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res as Response & { status: jest.Mock; json: jest.Mock };
+};
+
+const withdrawRequest = () =>
+  ({
+    params: { id: 'leave-1' },
+    body: { reason: 'Plans changed' },
+    user: { userId: employee.id, role: 'EMPLOYEE', permissions: [] },
+  }) as unknown as Request;
+
+describe('leaveManagementController', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    leaveRequest = {
+      id: 'leave-1',
+      employeeId: employee.id,
+      createdBy: employee.id,
+      leaveType: 'ANNUAL',
+      status: 'PENDING',
+      numberOfDays: 2,
+      cancellationReason: null,
+    };
+  });
+
+  it('records a withdrawal in the audit log', async () => {
+    const res = createResponse();
+
+    await withdrawLeaveRequest(withdrawRequest(), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(baseClient.auditLog.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          entity: 'LeaveRequest',
+          entityId: 'leave-1',
+          action: 'UPDATE',
+          changes: expect.objectContaining({
+            status: { old: 'PENDING', new: 'CANCELLED' },
+            cancellationReason: { old: null, new: 'Plans changed' },
+          }),
+        }),
+      ],
+    });
+  });
+
+  it('answers 409 without writing when the request stopped being pending in the meantime', async () => {
+    const res = createResponse();
+    // An approval lands between the handler reading the request and claiming it
+    const pending = { ...leaveRequest };
+    baseClient.leaveRequest.findUnique.mockImplementationOnce(async () => pending);
+    leaveRequest.status = 'APPROVED';
+
+    await withdrawLeaveRequest(withdrawRequest(), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(leaveRequest.status).toBe('APPROVED');
+    expect(baseClient.auditLog.createMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,36 @@
+// uuid ships as ESM only, and importing the app would start the server
+jest.mock('uuid', () => ({ v4: () => '00000000-0000-4000-8000-000000000000' }));
+jest.mock('../../src/index', () => ({ prisma: {} }));
+
+import { apiRouters } from '../../src/routes';
+import { buildOpenApiDocument, findRoutesWithoutResponseSchemas, findRoutesWithoutSchemas } from '../../src/utils/openapi';
+
+/**
+ * Every mounted route validates its input and documents its response, so the
+ * OpenAPI document covers the whole API.
+ */
+
+describe('route schemas', () => {
+  it('validates the input of every route', () => {
+    expect(findRoutesWithoutSchemas(apiRouters)).toEqual([]);
+  });
+
+  it('documents the response of every route', () => {
+    expect(findRoutesWithoutResponseSchemas(apiRouters)).toEqual([]);
+  });
+
+  it('requires a request body only when one of its fields is required', () => {
+    const { paths } = buildOpenApiDocument(apiRouters);
+
+    expect(paths['/employees'].post.requestBody.required).toBe(true);
+    expect(paths['/employees/{id}'].patch.requestBody.required).toBe(false);
+  });
+
+  it('describes records by their model without internal fields', () => {
+    const { components, paths } = buildOpenApiDocument(apiRouters);
+
+    expect(components.schemas.Employee.properties).toHaveProperty('email');
+    expect(components.schemas.Employee.properties).not.toHaveProperty('password');
+    expect(paths['/payroll/{id}/payslip'].get.responses['2XX'].content).toHaveProperty(['application/pdf']);
+  });
+});
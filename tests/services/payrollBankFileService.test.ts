@@ -0,0 +1,169 @@
+// Importing the app would start the server
+jest.mock('../../src/index', () => ({
+  get prisma() {
+    return mockPrisma;
+  },
+}));
+
+import { buildSifRecords, generateBankFile } from '../../src/services/payrollBankFileService';
+import { ConfigurationError } from '../../src/utils/errors';
+
+/**
+ * SIF export for October 2025. The payrolls come from a stand-in client;
+ * the file is rendered by generateBankFile.
+ */
+
+const createPayroll = (overrides: Record<string, any> = {}, employee: Record<string, any> = {}) => ({
+  id: 'payroll-1',
+  netSalary: 10500,
+  allowances: 1500,
+  ...overrides,
+  employee: {
+    id: 'employee-1',
+    firstName: 'Sara',
+    lastName: 'Khan',
+    employeeId: 'YAZ-001',
+    molId: '12345678',
+    joinDate: new Date(2020, 0, 1),
+    terminationDate: null,
+    bankDetails: { iban: 'ae07 0331 2345 6789 0123 456', routingNumber: '803320101' },
+    leaveRequests: [],
+    ...employee,
+  },
+});
+
+let payrolls: ReturnType<typeof createPayroll>[];
+
+const tx = {
+  payrollBankFile: { create: jest.fn(async ({ data }) => ({ id: 'bank-file-1', ...data })) },
+  payroll: { updateMany: jest.fn(async ({ where }) => ({ count: where.id.in.length })) },
+};
+
+const mockPrisma = {
+  payroll: { findMany: jest.fn(async () => payrolls) },
+  $transaction: (callback: (client: typeof tx) => Promise<any>) => callback(tx),
+};
+
+describe('payrollBankFileService', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.WPS_EMPLOYER_MOL_ID = '1234567890123';
+    process.env.WPS_EMPLOYER_ROUTING_CODE = '123456789';
+    process.env.WPS_EMPLOYER_REFERENCE = 'YAZ';
+    payrolls = [
+      createPayroll(
+        {},
+        {
+          leaveRequests: [
+            // Inside the month: its approved day count
+            { startDate: new Date(2025, 9, 6), endDate: new Date(2025, 9, 9), numberOfDays: 4, isHalfDay: false },
+            // Started in September: only its days in October
+            { startDate: new Date(2025, 8, 29), endDate: new Date(2025, 9, 2), numberOfDays: 4, isHalfDay: false },
+          ],
+        }
+      ),
+      createPayroll(
+        { id: 'payroll-2', netSalary: 5000.5, allowances: 0 },
+        { id: 'employee-2', employeeId: 'YAZ-002', molId: '87654321', joinDate: new Date(2025, 9, 15) }
+      ),
+    ];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('buildSifRecords', () => {
+    it('builds a record per payroll with padded MOL ID, normalised IBAN and the active period', async () => {
+      const { payrollCount, records, errors, totalAmount } = await buildSifRecords(10, 2025);
+
+      expect(payrollCount).toBe(2);
+      expect(errors).toEqual([]);
+      expect(totalAmount).toBe(15500.5);
+      expect(records[0]).toMatchObject({
+        molId: '00000012345678',
+        routingCode: '803320101',
+        iban: 'AE070331234567890123456',
+        daysInPeriod: 31,
+        fixedIncome: 9000,
+        variableIncome: 1500,
+        daysOnLeave: 6,
+      });
+      expect(records[1]).toMatchObject({
+        payStartDate: new Date(2025, 9, 15),
+        daysInPeriod: 17,
+        fixedIncome: 5000.5,
+        variableIncome: 0,
+        daysOnLeave: 0,
+      });
+    });
+
+    it('reports every invalid field and leaves the payroll out', async () => {
+      payrolls = [
+        createPayroll({ netSalary: 0 }, { molId: null, bankDetails: { iban: 'GB29NWBK60161331926819', routingNumber: '12' } }),
+        createPayroll({ id: 'payroll-2' }, { employeeId: 'YAZ-002', bankDetails: null }),
+      ];
+
+      const { records, errors } = await buildSifRecords(10, 2025);
+
+      expect(records).toEqual([]);
+      expect(errors.map(({ payrollId, field }) => `${payrollId}:${field}`)).toEqual([
+        'payroll-1:molId',
+        'payroll-1:iban',
+        'payroll-1:routingNumber',
+        'payroll-1:netSalary',
+        'payroll-2:bankDetails',
+      ]);
+    });
+  });
+
+  describe('generateBankFile', () => {
+    it('renders one EDR line per record and the SCR control line', async () => {
+      jest.useFakeTimers({ now: new Date(2025, 10, 2, 9, 5, 7) });
+
+      const result = await generateBankFile(10, 2025, 'finance-1');
+
+      expect(result.status).toBe('generated');
+      expect(tx.payrollBankFile.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fileName: '1234567890123251102090507.SIF',
+          recordCount: 2,
+          totalAmount: 15500.5,
+          content:
+            'EDR,00000012345678,803320101,AE070331234567890123456,2025-10-01,2025-10-31,31,9000.00,1500.00,6\r\n' +
+            'EDR,00000087654321,803320101,AE070331234567890123456,2025-10-15,2025-10-31,17,5000.50,0.00,0\r\n' +
+            'SCR,1234567890123,123456789,2025-11-02,0905,102025,2,15500.50,AED,YAZ\r\n',
+        }),
+      });
+      expect(tx.payroll.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { in: ['payroll-1', 'payroll-2'] } }),
+          data: expect.objectContaining({ bankFileId: 'bank-file-1', bankUploadReference: '1234567890123251102090507.SIF' }),
+        })
+      );
+    });
+
+    it('generates nothing while a record is invalid', async () => {
+      payrolls[1].employee.molId = '';
+
+      const result = await generateBankFile(10, 2025, 'finance-1');
+
+      expect(result.status).toBe('invalid');
+      expect(result.errors).toHaveLength(1);
+      expect(tx.payrollBankFile.create).not.toHaveBeenCalled();
+    });
+
+    it('requires the employer settings', async () => {
+      delete process.env.WPS_EMPLOYER_MOL_ID;
+
+      await expect(generateBankFile(10, 2025, 'finance-1')).rejects.toBeInstanceOf(ConfigurationError);
+      expect(tx.payrollBankFile.create).not.toHaveBeenCalled();
+    });
+  });
+});
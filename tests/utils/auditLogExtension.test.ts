@@ -0,0 +1,67 @@
+import { auditLogExtension } from '../../src/utils/auditLogExtension';
+
+/**
+ * The extension is exercised against a stand-in client: the base client serves
+ * the committed rows, the transaction client the rows as the transaction sees them.
+ */
+
+const committed = { id: 'assignment-1', scheduleId: 'schedule-1', employeeId: 'employee-1', effectiveTo: null };
+const updated = { ...committed, effectiveTo: new Date('2026-10-19T00:00:00.000Z') };
+
+const createClients = () => {
+  const txClient = {
+    workScheduleAssignment: { findMany: jest.fn().mockResolvedValueOnce([committed]).mockResolvedValueOnce([updated]) },
+    auditLog: { createMany: jest.fn() },
+  };
+  const baseClient = {
+    workScheduleAssignment: { findMany: jest.fn().mockResolvedValue([committed]) },
+    auditLog: { createMany: jest.fn() },
+    _createItxClient: jest.fn().mockReturnValue(txClient),
+    $extends: (definition: any) => definition,
+  };
+  const allOperations = (auditLogExtension as any)(baseClient).query.$allModels.$allOperations;
+  return { baseClient, txClient, allOperations };
+};
+
+const updateMany = (transaction?: object) => ({
+  model: 'WorkScheduleAssignment',
+  operation: 'updateMany',
+  args: { where: { employeeId: 'employee-1', effectiveTo: null }, data: { effectiveTo: updated.effectiveTo } },
+  query: jest.fn().mockResolvedValue({ count: 1 }),
+  __internalParams: { transaction },
+});
+
+describe('auditLogExtension', () => {
+  it('records an updateMany inside an interactive transaction through the transaction client', async () => {
+    const { baseClient, txClient, allOperations } = createClients();
+    const transaction = { kind: 'itx', id: 'tx-1' };
+
+    await allOperations(updateMany(transaction));
+
+    expect(baseClient._createItxClient).toHaveBeenCalledWith(transaction);
+    expect(baseClient.workScheduleAssignment.findMany).not.toHaveBeenCalled();
+    expect(baseClient.auditLog.createMany).not.toHaveBeenCalled();
+    expect(txClient.auditLog.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          entity: 'WorkScheduleAssignment',
+          entityId: 'assignment-1',
+          action: 'UPDATE',
+          changes: { effectiveTo: { old: null, new: '2026-10-19T00:00:00.000Z' } },
+        }),
+      ],
+    });
+  });
+
+  it('uses the base client outside of a transaction', async () => {
+    const { baseClient, allOperations } = createClients();
+    baseClient.workScheduleAssignment.findMany.mockReset().mockResolvedValueOnce([committed]).mockResolvedValueOnce([updated]);
+
+    await allOperations(updateMany());
+
+    expect(baseClient._createItxClient).not.toHaveBeenCalled();
+    expect(baseClient.auditLog.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ entityId: 'assignment-1', changes: { effectiveTo: { old: null, new: '2026-10-19T00:00:00.000Z' } } })],
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+
+/**
+ * The keyring is read from the environment once per module instance, so each
+ * key setup loads its own copy of the module.
+ */
+
+type FieldEncryption = typeof import('../../src/utils/fieldEncryption');
+
+const KEY_A = crypto.randomBytes(32).toString('base64');
+const KEY_B = crypto.randomBytes(32).toString('base64');
+const HASH_KEY = crypto.randomBytes(32).toString('base64');
+
+const IBAN = 'AE070331234567890123456';
+
+const loadWithKeys = (current: string, previous: string[] = []): FieldEncryption => {
+  process.env.FIELD_ENCRYPTION_KEY = current;
+  process.env.FIELD_ENCRYPTION_HASH_KEY = HASH_KEY;
+  process.env.FIELD_ENCRYPTION_PREVIOUS_KEYS = previous.join(',');
+
+  let loaded!: FieldEncryption;
+  jest.isolateModules(() => {
+    loaded = require('../../src/utils/fieldEncryption');
+  });
+  return loaded;
+};
+
+describe('fieldEncryption', () => {
+  const originalEnv = { ...process.env };
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('decrypts what it encrypted, with a fresh ciphertext every time', () => {
+    const { encryptValue, decryptValue, isEncryptedValue } = loadWithKeys(KEY_A);
+
+    const first = encryptValue(IBAN);
+    const second = encryptValue(IBAN);
+
+    expect(isEncryptedValue(first)).toBe(true);
+    expect(first).not.toContain(IBAN);
+    expect(first).not.toBe(second);
+    expect(decryptValue(first)).toBe(IBAN);
+    expect(decryptValue(second)).toBe(IBAN);
+  });
+
+  it('leaves empty, already encrypted and not yet migrated values as they are', () => {
+    const { encryptValue, decryptValue } = loadWithKeys(KEY_A);
+    const encrypted = encryptValue(IBAN);
+
+    expect(encryptValue(null)).toBeNull();
+    expect(encryptValue('')).toBe('');
+    expect(encryptValue(encrypted)).toBe(encrypted);
+    expect(decryptValue(IBAN)).toBe(IBAN);
+  });
+
+  it('refuses a tampered value', () => {
+    const { encryptValue, decryptValue } = loadWithKeys(KEY_A);
+    const parts = encryptValue(IBAN).split(':');
+    const ciphertext = Buffer.from(parts[parts.length - 1], 'base64url');
+    ciphertext[0] ^= 1;
+    parts[parts.length - 1] = ciphertext.toString('base64url');
+
+    expect(() => decryptValue(parts.join(':'))).toThrow();
+  });
+
+  it('hashes IBANs for lookups regardless of spacing and case', () => {
+    const { hashLookupValue } = loadWithKeys(KEY_A);
+
+    expect(hashLookupValue(IBAN)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashLookupValue('ae07 0331 2345 6789 0123 456')).toBe(hashLookupValue(IBAN));
+    expect(hashLookupValue('AE070331234567890123457')).not.toBe(hashLookupValue(IBAN));
+    expect(hashLookupValue(null)).toBeNull();
+  });
+
+  it('keeps values of a previous master key readable until they are re-wrapped', () => {
+    const encrypted = loadWithKeys(KEY_A).encryptValue(IBAN);
+    const { decryptValue, needsRewrap, rewrapValue } = loadWithKeys(KEY_B, [KEY_A]);
+
+    expect(decryptValue(encrypted)).toBe(IBAN);
+    expect(needsRewrap(encrypted)).toBe(true);
+
+    const rewrapped = rewrapValue(encrypted);
+    expect(needsRewrap(rewrapped)).toBe(false);
+    expect(rewrapped.split(':').slice(-3)).toEqual(encrypted.split(':').slice(-3));
+    expect(loadWithKeys(KEY_B).decryptValue(rewrapped)).toBe(IBAN);
+  });
+
+  it('cannot read a value without its master key', () => {
+    const encrypted = loadWithKeys(KEY_A).encryptValue(IBAN);
+
+    expect(() => loadWithKeys(KEY_B).decryptValue(encrypted)).toThrow(/No encryption key available/);
+  });
+});
@@ -0,0 +1,163 @@
+// Importing the app would start the server
+jest.mock('../../src/index', () => ({ prisma: {} }));
+
+import {
+  buildLeavePayBreakdown,
+  calculateGratuity,
+  getLeavePayTierDays,
+  getReducedPayLeaveDays,
+} from '../../src/utils/payrollCalculator';
+
+/**
+ * Dates are local calendar days, the way join and last working dates are read.
+ * A basic salary of 9,000 gives a daily basic wage of 300.
+ */
+
+const BASIC_SALARY = 9000;
+
+// Approved leave as stored: @db.Date columns at UTC midnight
+const leave = (leaveType: 'SICK' | 'MATERNITY', from: [number, number, number], to: [number, number, number]) => ({
+  leaveType,
+  startDate: new Date(Date.UTC(from[0], from[1] - 1, from[2])),
+  endDate: new Date(Date.UTC(to[0], to[1] - 1, to[2])),
+  isHalfDay: false,
+});
+
+const tierDaysOf = (leaves: ReturnType<typeof leave>[], month: number, year: number) =>
+  getLeavePayTierDays(
+    { leaveRequest: { findMany: async () => leaves } },
+    // Service years run from 1 March
+    { id: 'employee-1', joinDate: new Date(2020, 2, 1) },
+    new Date(year, month - 1, 1),
+    new Date(year, month, 0)
+  );
+
+const NO_DAYS = { fullPayDays: 0, halfPayDays: 0, unpaidDays: 0 };
+
+describe('calculateGratuity', () => {
+  it('pays 21 days per year of service in the first five years', () => {
+    // 2021-01-01 to 2023-12-31: 1,095 days, 3 years
+    const gratuity = calculateGratuity(BASIC_SALARY, new Date(2021, 0, 1), new Date(2023, 11, 31));
+
+    expect(gratuity).toMatchObject({
+      eligible: true,
+      serviceDays: 1095,
+      serviceYears: 3,
+      gratuityDays: 63,
+      amount: 18900,
+    });
+  });
+
+  it('does not count unpaid leave days as service', () => {
+    const gratuity = calculateGratuity(BASIC_SALARY, new Date(2021, 0, 1), new Date(2023, 11, 31), 73);
+
+    expect(gratuity).toMatchObject({
+      eligible: true,
+      serviceDays: 1022,
+      unpaidLeaveDays: 73,
+      serviceYears: 2.8,
+      gratuityDays: 58.8,
+      amount: 17640,
+    });
+  });
+
+  it('is not earned when unpaid leave brings service under a year', () => {
+    const start = new Date(2023, 0, 1);
+    const end = new Date(2023, 11, 31);
+
+    expect(calculateGratuity(BASIC_SALARY, start, end).eligible).toBe(true);
+    expect(calculateGratuity(BASIC_SALARY, start, end, 10)).toMatchObject({
+      eligible: false,
+      serviceDays: 355,
+      amount: 0,
+    });
+  });
+
+  it('pays 30 days per year of service after the fifth year', () => {
+    // 2014-01-01 to 2023-12-31: 3,652 days; without 2 unpaid days, 10 years
+    const gratuity = calculateGratuity(BASIC_SALARY, new Date(2014, 0, 1), new Date(2023, 11, 31), 2);
+
+    expect(gratuity).toMatchObject({
+      serviceYears: 10,
+      firstFiveYearsDays: 105,
+      additionalYearsDays: 150,
+      gratuityDays: 255,
+      amount: 76500,
+      isCapped: false,
+    });
+  });
+
+  it('caps the total at two years of basic salary', () => {
+    // 1994-01-01 to 2023-12-31: 10,957 days; without 7 unpaid days, 30 years
+    const gratuity = calculateGratuity(BASIC_SALARY, new Date(1994, 0, 1), new Date(2023, 11, 31), 7);
+
+    expect(gratuity).toMatchObject({
+      serviceYears: 30,
+      gratuityDays: 855,
+      uncappedAmount: 256500,
+      capAmount: 216000,
+      isCapped: true,
+      amount: 216000,
+    });
+  });
+});
+
+describe('getLeavePayTierDays', () => {
+  it('moves sick leave to half pay once the 15 full-pay days of the service year are used', async () => {
+    const leaves = [leave('SICK', [2025, 4, 1], [2025, 4, 10]), leave('SICK', [2025, 5, 1], [2025, 5, 20])];
+
+    expect(await tierDaysOf(leaves, 5, 2025)).toEqual({
+      sick: { fullPayDays: 5, halfPayDays: 15, unpaidDays: 0 },
+      maternity: NO_DAYS,
+    });
+  });
+
+  it('leaves sick leave unpaid after 45 days of the service year', async () => {
+    const leaves = [leave('SICK', [2025, 4, 1], [2025, 4, 30]), leave('SICK', [2025, 6, 1], [2025, 6, 30])];
+
+    expect((await tierDaysOf(leaves, 6, 2025)).sick).toEqual({ fullPayDays: 0, halfPayDays: 15, unpaidDays: 15 });
+  });
+
+  it('starts a new service year on the join date anniversary', async () => {
+    const leaves = [leave('SICK', [2025, 2, 1], [2025, 2, 20]), leave('SICK', [2025, 3, 1], [2025, 3, 10])];
+
+    expect((await tierDaysOf(leaves, 3, 2025)).sick).toEqual({ fullPayDays: 10, halfPayDays: 0, unpaidDays: 0 });
+  });
+
+  it('pays maternity leave in full for 45 days, then half for 15, then not at all', async () => {
+    const leaves = [leave('MATERNITY', [2025, 6, 1], [2025, 8, 9])];
+
+    expect(await tierDaysOf(leaves, 7, 2025)).toEqual({
+      sick: NO_DAYS,
+      maternity: { fullPayDays: 15, halfPayDays: 15, unpaidDays: 1 },
+    });
+    expect((await tierDaysOf(leaves, 8, 2025)).maternity).toEqual({ fullPayDays: 0, halfPayDays: 0, unpaidDays: 9 });
+  });
+});
+
+describe('buildLeavePayBreakdown', () => {
+  const tiers = {
+    sick: { fullPayDays: 5, halfPayDays: 15, unpaidDays: 0 },
+    maternity: { fullPayDays: 0, halfPayDays: 2, unpaidDays: 3 },
+  };
+
+  it('lists every tier with days, full-pay days included, with what is paid and deducted', () => {
+    expect(buildLeavePayBreakdown(tiers, 300)).toEqual([
+      { leaveType: 'SICK', tier: 'FULL_PAY', days: 5, payRate: 1, dailyRate: 300, paidAmount: 1500, deductedAmount: 0 },
+      { leaveType: 'SICK', tier: 'HALF_PAY', days: 15, payRate: 0.5, dailyRate: 300, paidAmount: 2250, deductedAmount: 2250 },
+      { leaveType: 'MATERNITY', tier: 'HALF_PAY', days: 2, payRate: 0.5, dailyRate: 300, paidAmount: 300, deductedAmount: 300 },
+      { leaveType: 'MATERNITY', tier: 'UNPAID', days: 3, payRate: 0, dailyRate: 300, paidAmount: 0, deductedAmount: 900 },
+    ]);
+  });
+
+  it('deducts what getReducedPayLeaveDays counts as lost salary days', () => {
+    const deducted = buildLeavePayBreakdown(tiers, 300).reduce((sum, line) => sum + line.deductedAmount, 0);
+
+    expect(getReducedPayLeaveDays(tiers)).toBe(11.5);
+    expect(deducted).toBe(11.5 * 300);
+  });
+
+  it('has no lines for a month without sick or maternity leave', () => {
+    expect(buildLeavePayBreakdown({ sick: NO_DAYS, maternity: NO_DAYS }, 300)).toEqual([]);
+  });
+});